@@ -50,6 +50,10 @@ export const config = {
     get timeout() {
       return env.int('PROXY_SERVER_TIMEOUT', 660000)
     }, // 11 minutes (longer than max request + retries)
+    // Proxies (load balancers) in front of the service whose X-Forwarded-For is trusted
+    get trustedProxyHops() {
+      return Math.max(0, env.int('TRUSTED_PROXY_HOPS', 0) || 0)
+    },
   },
 
   // API configuration
@@ -117,6 +121,23 @@ export const config = {
     },
   },
 
+  // Encryption at rest for credential secrets (see utils/credential-encryption.ts)
+  credentialEncryption: {
+    get key() {
+      return env.string('CREDENTIAL_ENCRYPTION_KEY', '')
+    },
+    get keyFile() {
+      return env.string('CREDENTIAL_ENCRYPTION_KEY_FILE', '')
+    },
+    get previousKeys() {
+      return env
+        .string('CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS', '')
+        .split(',')
+        .map(key => key.trim())
+        .filter(Boolean)
+    },
+  },
+
   // Storage configuration
   storage: {
     get enabled() {
@@ -130,6 +151,19 @@ export const config = {
     },
   },
 
+  // Data retention purge job (retention periods are set per project)
+  retention: {
+    get purgeEnabled() {
+      return env.bool('RETENTION_PURGE_ENABLED', true)
+    },
+    get purgeIntervalMs() {
+      return env.int('RETENTION_PURGE_INTERVAL_MS', 3600000)
+    }, // 1 hour
+    get purgeBatchSize() {
+      return env.int('RETENTION_PURGE_BATCH_SIZE', 1000)
+    },
+  },
+
   // Rate limiting
   rateLimit: {
     get windowMs() {
@@ -362,6 +396,10 @@ export function validateConfig(): void {
     errors.push('Invalid Slack webhook URL')
   }
 
+  if (config.credentialEncryption.key && config.credentialEncryption.keyFile) {
+    errors.push('Set either CREDENTIAL_ENCRYPTION_KEY or CREDENTIAL_ENCRYPTION_KEY_FILE, not both')
+  }
+
   // Validate service mode requirements
   const mode = config.service.mode
 
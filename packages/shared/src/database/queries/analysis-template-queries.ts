@@ -0,0 +1,147 @@
+import { Pool } from 'pg'
+import type {
+  CreateAnalysisTemplateRequest,
+  ProjectAnalysisTemplate,
+} from '../../types/analysis-templates.js'
+
+/**
+ * List all versions of a project's analysis template, newest first
+ */
+export async function listAnalysisTemplates(
+  pool: Pool,
+  projectUuid: string
+): Promise<ProjectAnalysisTemplate[]> {
+  const result = await pool.query<ProjectAnalysisTemplate>(
+    `
+    SELECT *
+    FROM project_analysis_templates
+    WHERE project_id = $1
+    ORDER BY version DESC
+    `,
+    [projectUuid]
+  )
+
+  return result.rows
+}
+
+/**
+ * Save a new version of a project's analysis template and make it the active one
+ * Uses transaction with row locking so concurrent saves get distinct versions
+ */
+export async function createAnalysisTemplate(
+  pool: Pool,
+  projectUuid: string,
+  request: CreateAnalysisTemplateRequest
+): Promise<ProjectAnalysisTemplate> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    // Lock the project row to serialize version numbers
+    const projectResult = await client.query('SELECT id FROM projects WHERE id = $1 FOR UPDATE', [
+      projectUuid,
+    ])
+    if (projectResult.rows.length === 0) {
+      throw new Error('Project not found')
+    }
+
+    const result = await client.query<ProjectAnalysisTemplate>(
+      `
+      INSERT INTO project_analysis_templates
+        (project_id, version, instructions, output_schema, created_by)
+      SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4
+      FROM project_analysis_templates
+      WHERE project_id = $1
+      RETURNING *
+      `,
+      [
+        projectUuid,
+        request.instructions,
+        request.output_schema ? JSON.stringify(request.output_schema) : null,
+        request.created_by || null,
+      ]
+    )
+    const template = result.rows[0]
+
+    await client.query(
+      'UPDATE projects SET analysis_template_id = $2, updated_at = NOW() WHERE id = $1',
+      [projectUuid, template.id]
+    )
+
+    await client.query('COMMIT')
+    return template
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Activate one of a project's template versions, or the default prompt with null
+ *
+ * @returns false when the template does not belong to the project
+ */
+export async function setActiveAnalysisTemplate(
+  pool: Pool,
+  projectUuid: string,
+  templateId: string | null
+): Promise<boolean> {
+  const result = await pool.query(
+    `
+    UPDATE projects
+    SET analysis_template_id = $2, updated_at = NOW()
+    WHERE id = $1
+      AND (
+        $2::uuid IS NULL
+        OR EXISTS (SELECT 1 FROM project_analysis_templates WHERE id = $2 AND project_id = $1)
+      )
+    `,
+    [projectUuid, templateId]
+  )
+
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Active analysis template of the project a conversation belongs to
+ */
+export async function getConversationAnalysisTemplate(
+  pool: Pool,
+  conversationId: string
+): Promise<ProjectAnalysisTemplate | null> {
+  const result = await pool.query<ProjectAnalysisTemplate>(
+    `
+    SELECT t.*
+    FROM projects p
+    JOIN project_analysis_templates t ON t.id = p.analysis_template_id
+    WHERE p.project_id = (
+      SELECT project_id
+      FROM api_requests
+      WHERE conversation_id = $1
+      ORDER BY timestamp ASC
+      LIMIT 1
+    )
+    `,
+    [conversationId]
+  )
+
+  return result.rows[0] ?? null
+}
+
+/**
+ * Get one template version by id
+ */
+export async function getAnalysisTemplateById(
+  pool: Pool,
+  templateId: string
+): Promise<ProjectAnalysisTemplate | null> {
+  const result = await pool.query<ProjectAnalysisTemplate>(
+    'SELECT * FROM project_analysis_templates WHERE id = $1',
+    [templateId]
+  )
+
+  return result.rows[0] ?? null
+}
@@ -6,10 +6,31 @@ import type {
   CreateApiKeyRequest,
   GeneratedApiKey,
 } from '../../types/credentials'
+import type { ApiKeyScopes } from '../../types/api-key-scopes'
 
 const KEY_PREFIX = 'cnp_live_'
 const KEY_LENGTH = 32 // Random part length
 
+const SCOPE_COLUMNS = [
+  'expires_at',
+  'allowed_models',
+  'allowed_endpoints',
+  'rate_limit_max_requests',
+  'rate_limit_max_tokens',
+  'ip_allowlist',
+] as const
+
+/**
+ * BIGINT comes back as a string
+ */
+function toApiKey<T extends ProjectApiKey>(row: T): T {
+  return {
+    ...row,
+    rate_limit_max_tokens:
+      row.rate_limit_max_tokens === null ? null : Number(row.rate_limit_max_tokens),
+  }
+}
+
 /**
  * Generate a random API key
  */
@@ -42,11 +63,20 @@ export async function createTrainApiKey(
       key_prefix,
       key_suffix,
       name,
-      created_by
-    ) VALUES ($1, $2, $3, $4, $5, $6)
+      created_by,
+      ${SCOPE_COLUMNS.join(',\n      ')}
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
     RETURNING *
     `,
-    [trainUuid, apiKey, KEY_PREFIX, keySuffix, request.name || null, request.created_by || null]
+    [
+      trainUuid,
+      apiKey,
+      KEY_PREFIX,
+      keySuffix,
+      request.name || null,
+      request.created_by || null,
+      ...SCOPE_COLUMNS.map(column => request[column] ?? null),
+    ]
   )
 
   const key = result.rows[0]
@@ -63,7 +93,8 @@ export async function createTrainApiKey(
 
 /**
  * Verify an API key and return the associated train ID
- * This is the primary authentication method - identifies the project from the API key
+ * This is the primary authentication method - identifies the project from the API key.
+ * Expired keys are rejected; the key's other scopes are enforced by the caller.
  */
 export async function verifyApiKeyAndGetTrain(
   pool: Pool,
@@ -78,6 +109,7 @@ export async function verifyApiKeyAndGetTrain(
     INNER JOIN projects t ON t.id = tak.project_id
     WHERE tak.api_key = $1
       AND tak.revoked_at IS NULL
+      AND (tak.expires_at IS NULL OR tak.expires_at > NOW())
     `,
     [apiKey]
   )
@@ -97,7 +129,7 @@ export async function verifyApiKeyAndGetTrain(
   await pool.query('UPDATE project_api_keys SET last_used_at = NOW() WHERE id = $1', [row.id])
 
   return {
-    trainApiKey: row,
+    trainApiKey: toApiKey(row),
     projectId: row.project_id,
   }
 }
@@ -119,6 +151,7 @@ export async function verifyTrainApiKey(
     WHERE t.project_id = $1
       AND tak.api_key = $2
       AND tak.revoked_at IS NULL
+      AND (tak.expires_at IS NULL OR tak.expires_at > NOW())
     `,
     [projectId, apiKey]
   )
@@ -137,7 +170,7 @@ export async function verifyTrainApiKey(
   // Update last_used_at
   await pool.query('UPDATE project_api_keys SET last_used_at = NOW() WHERE id = $1', [key.id])
 
-  return key
+  return toApiKey(key)
 }
 
 /**
@@ -219,6 +252,31 @@ export async function updateTrainApiKeyName(
   return (result.rowCount ?? 0) > 0
 }
 
+/**
+ * Update the scope fields present in `scopes`
+ */
+export async function updateTrainApiKeyScopes(
+  pool: Pool,
+  keyId: string,
+  scopes: Partial<ApiKeyScopes>
+): Promise<boolean> {
+  const columns = SCOPE_COLUMNS.filter(column => scopes[column] !== undefined)
+  if (columns.length === 0) {
+    return true
+  }
+
+  const result = await pool.query(
+    `
+    UPDATE project_api_keys
+    SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+    WHERE id = $1 AND revoked_at IS NULL
+    `,
+    [keyId, ...columns.map(column => scopes[column])]
+  )
+
+  return (result.rowCount ?? 0) > 0
+}
+
 /**
  * Delete an API key
  */
@@ -230,7 +288,8 @@ export async function deleteTrainApiKey(pool: Pool, keyId: string): Promise<bool
 /**
  * Convert full API key to safe version (without full key)
  */
-function toSafeApiKey(key: ProjectApiKey): ProjectApiKeySafe {
+function toSafeApiKey(row: ProjectApiKey): ProjectApiKeySafe {
+  const key = toApiKey(row)
   return {
     id: key.id,
     project_id: key.project_id,
@@ -241,6 +300,16 @@ function toSafeApiKey(key: ProjectApiKey): ProjectApiKeySafe {
     last_used_at: key.last_used_at,
     revoked_at: key.revoked_at,
     revoked_by: key.revoked_by,
-    status: key.revoked_at ? 'revoked' : 'active',
+    expires_at: key.expires_at,
+    allowed_models: key.allowed_models,
+    allowed_endpoints: key.allowed_endpoints,
+    rate_limit_max_requests: key.rate_limit_max_requests,
+    rate_limit_max_tokens: key.rate_limit_max_tokens,
+    ip_allowlist: key.ip_allowlist,
+    status: key.revoked_at
+      ? 'revoked'
+      : key.expires_at && new Date(key.expires_at) <= new Date()
+        ? 'expired'
+        : 'active',
   }
 }
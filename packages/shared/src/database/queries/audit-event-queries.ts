@@ -0,0 +1,135 @@
+import { Pool } from 'pg'
+import type {
+  AuditEvent,
+  AuditEventFilter,
+  CreateAuditEventRequest,
+} from '../../types/audit-events.js'
+
+const DEFAULT_AUDIT_PAGE_SIZE = 50
+const MAX_AUDIT_PAGE_SIZE = 1000
+
+/**
+ * Append an event to the audit log
+ */
+export async function recordAuditEvent(
+  pool: Pool,
+  event: CreateAuditEventRequest
+): Promise<AuditEvent> {
+  const result = await pool.query<AuditEvent>(
+    `
+    INSERT INTO audit_events (
+      actor, actor_source, action, target_type, target_id,
+      project_id, changes, metadata, request_id
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *
+    `,
+    [
+      event.actor,
+      event.actor_source ?? null,
+      event.action,
+      event.target_type,
+      event.target_id ?? null,
+      event.project_id ?? null,
+      event.changes ? JSON.stringify(event.changes) : null,
+      event.metadata ? JSON.stringify(event.metadata) : null,
+      event.request_id ?? null,
+    ]
+  )
+
+  return result.rows[0]
+}
+
+function buildAuditEventConditions(filter: AuditEventFilter): {
+  where: string
+  values: unknown[]
+} {
+  const conditions: string[] = []
+  const values: unknown[] = []
+
+  if (filter.actor) {
+    values.push(filter.actor)
+    conditions.push(`e.actor = $${values.length}`)
+  }
+  if (filter.action) {
+    values.push(filter.action)
+    conditions.push(`e.action = $${values.length}`)
+  }
+  if (filter.projectId) {
+    values.push(filter.projectId)
+    conditions.push(`e.project_id = $${values.length}`)
+  }
+  if (filter.from) {
+    values.push(filter.from)
+    conditions.push(`e.occurred_at >= $${values.length}`)
+  }
+  if (filter.to) {
+    values.push(filter.to)
+    conditions.push(`e.occurred_at < $${values.length}`)
+  }
+  if (filter.viewer) {
+    // Events of deleted projects stay visible; private projects only to members
+    // and organization admins
+    values.push(filter.viewer)
+    conditions.push(`
+      (
+        EXISTS (SELECT 1 FROM org_admins oa WHERE oa.user_email = LOWER($${values.length}))
+        OR NOT EXISTS (
+          SELECT 1 FROM projects p
+          WHERE p.project_id = e.project_id
+            AND p.is_private = true
+            AND NOT EXISTS (
+              SELECT 1 FROM project_members pm
+              WHERE pm.project_id = p.id AND pm.user_email = $${values.length}
+            )
+        )
+      )
+    `)
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    values,
+  }
+}
+
+/**
+ * Audit events matching the filter, newest first, with the total match count
+ */
+export async function listAuditEvents(
+  pool: Pool,
+  filter: AuditEventFilter = {}
+): Promise<{ events: AuditEvent[]; total: number }> {
+  const { where, values } = buildAuditEventConditions(filter)
+  const limit = Math.min(Math.max(filter.limit ?? DEFAULT_AUDIT_PAGE_SIZE, 1), MAX_AUDIT_PAGE_SIZE)
+  const offset = Math.max(filter.offset ?? 0, 0)
+
+  const [eventsResult, countResult] = await Promise.all([
+    pool.query<AuditEvent>(
+      `
+      SELECT e.*
+      FROM audit_events e
+      ${where}
+      ORDER BY e.occurred_at DESC, e.id DESC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+      `,
+      [...values, limit, offset]
+    ),
+    pool.query<{ count: string }>(`SELECT COUNT(*) AS count FROM audit_events e ${where}`, values),
+  ])
+
+  return {
+    events: eventsResult.rows,
+    total: parseInt(countResult.rows[0]?.count ?? '0', 10),
+  }
+}
+
+/**
+ * Distinct actors in the audit log, for the actor filter
+ */
+export async function listAuditActors(pool: Pool): Promise<string[]> {
+  const result = await pool.query<{ actor: string }>(
+    'SELECT DISTINCT actor FROM audit_events ORDER BY actor'
+  )
+  return result.rows.map(row => row.actor)
+}
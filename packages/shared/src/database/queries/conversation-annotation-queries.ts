@@ -0,0 +1,71 @@
+import { Pool } from 'pg'
+import type {
+  ConversationAnnotation,
+  CreateConversationAnnotationRequest,
+} from '../../types/conversation-annotations.js'
+
+/**
+ * Add a tag, note or bookmark. Returns null when the tag or bookmark already exists.
+ */
+export async function createConversationAnnotation(
+  pool: Pool,
+  projectUuid: string,
+  request: CreateConversationAnnotationRequest
+): Promise<ConversationAnnotation | null> {
+  const result = await pool.query<ConversationAnnotation>(
+    `
+    INSERT INTO conversation_annotations
+      (project_id, conversation_id, branch_id, request_id, kind, body, created_by)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT DO NOTHING
+    RETURNING *
+    `,
+    [
+      projectUuid,
+      request.conversation_id,
+      request.branch_id || null,
+      request.request_id || null,
+      request.kind,
+      request.kind === 'bookmark' ? null : (request.body ?? null),
+      request.created_by,
+    ]
+  )
+
+  return result.rows[0] ?? null
+}
+
+/**
+ * List the tags, notes and bookmarks of a conversation and its branches and requests, oldest first
+ */
+export async function listConversationAnnotations(
+  pool: Pool,
+  conversationId: string
+): Promise<ConversationAnnotation[]> {
+  const result = await pool.query<ConversationAnnotation>(
+    `
+    SELECT *
+    FROM conversation_annotations
+    WHERE conversation_id = $1
+    ORDER BY created_at ASC
+    `,
+    [conversationId]
+  )
+
+  return result.rows
+}
+
+/**
+ * Delete an annotation. Returns false when it does not belong to the conversation.
+ */
+export async function deleteConversationAnnotation(
+  pool: Pool,
+  conversationId: string,
+  annotationId: string
+): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM conversation_annotations WHERE id = $2 AND conversation_id = $1',
+    [conversationId, annotationId]
+  )
+
+  return (result.rowCount ?? 0) > 0
+}
@@ -0,0 +1,138 @@
+import { Pool } from 'pg'
+import type {
+  ConversationShare,
+  ConversationShareView,
+  CreateConversationShareRequest,
+} from '../../types/conversation-shares.js'
+
+/**
+ * Create a share link for one branch of a conversation
+ */
+export async function createConversationShare(
+  pool: Pool,
+  projectUuid: string,
+  request: CreateConversationShareRequest
+): Promise<ConversationShare> {
+  const result = await pool.query<ConversationShare>(
+    `
+    INSERT INTO conversation_shares
+      (project_id, conversation_id, branch_id, redact_tool_results, expires_at, created_by)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING *
+    `,
+    [
+      projectUuid,
+      request.conversation_id,
+      request.branch_id,
+      request.redact_tool_results,
+      request.expires_at,
+      request.created_by || null,
+    ]
+  )
+
+  return result.rows[0]
+}
+
+/**
+ * List the share links of a conversation, newest first (including revoked and expired ones)
+ */
+export async function listConversationShares(
+  pool: Pool,
+  conversationId: string
+): Promise<ConversationShare[]> {
+  const result = await pool.query<ConversationShare>(
+    `
+    SELECT *
+    FROM conversation_shares
+    WHERE conversation_id = $1
+    ORDER BY created_at DESC
+    `,
+    [conversationId]
+  )
+
+  return result.rows
+}
+
+/**
+ * Get a share link by ID
+ */
+export async function getConversationShare(
+  pool: Pool,
+  shareId: string
+): Promise<ConversationShare | null> {
+  const result = await pool.query<ConversationShare>(
+    'SELECT * FROM conversation_shares WHERE id = $1',
+    [shareId]
+  )
+
+  return result.rows[0] ?? null
+}
+
+/**
+ * Revoke a share link. Returns false when it does not exist or was already revoked.
+ */
+export async function revokeConversationShare(
+  pool: Pool,
+  conversationId: string,
+  shareId: string,
+  revokedBy: string
+): Promise<boolean> {
+  const result = await pool.query(
+    `
+    UPDATE conversation_shares
+    SET revoked_at = NOW(),
+        revoked_by = $3
+    WHERE id = $2 AND conversation_id = $1 AND revoked_at IS NULL
+    `,
+    [conversationId, shareId, revokedBy]
+  )
+
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Record a view of a share link and bump its view counter
+ */
+export async function recordConversationShareView(
+  pool: Pool,
+  shareId: string,
+  view: ConversationShareView
+): Promise<void> {
+  await pool.query(
+    `
+    WITH recorded AS (
+      INSERT INTO conversation_share_views (share_id, ip_address, user_agent)
+      VALUES ($1, $2, $3)
+      RETURNING viewed_at
+    )
+    UPDATE conversation_shares
+    SET view_count = view_count + 1,
+        last_viewed_at = (SELECT viewed_at FROM recorded)
+    WHERE id = $1
+    `,
+    [shareId, view.ip_address, view.user_agent]
+  )
+}
+
+/**
+ * Most recent views of a conversation's share links, newest first
+ */
+export async function listConversationShareViews(
+  pool: Pool,
+  conversationId: string,
+  limit: number = 50
+): Promise<Array<ConversationShareView & { share_id: string; viewed_at: Date }>> {
+  const result = await pool.query(
+    `
+    SELECT v.share_id, v.viewed_at, v.ip_address, v.user_agent
+    FROM conversation_share_views v
+    INNER JOIN conversation_shares s ON s.id = v.share_id
+    WHERE s.conversation_id = $1
+    ORDER BY v.viewed_at DESC
+    LIMIT $2
+    `,
+    [conversationId, limit]
+  )
+
+  return result.rows
+}
@@ -6,6 +6,38 @@ import type {
   AnthropicCredentialSafe,
   BedrockCredentialSafe,
 } from '../../types/credentials'
+import { decryptSecret } from '../../utils/credential-encryption'
+
+const CREDENTIAL_SECRET_FIELDS = [
+  'oauth_access_token',
+  'oauth_refresh_token',
+  'aws_api_key',
+] as const
+
+/**
+ * Decrypt the secret fields of a credential row read from the database
+ */
+export function decryptCredential<T extends Credential>(credential: T): T {
+  const decrypted: Record<string, unknown> = { ...credential }
+  for (const field of CREDENTIAL_SECRET_FIELDS) {
+    const value = decrypted[field]
+    if (typeof value === 'string') {
+      decrypted[field] = decryptSecret(value)
+    }
+  }
+  return decrypted as T
+}
+
+/**
+ * Preview of a Bedrock API key. Rows may still hold the encrypted value.
+ */
+function previewApiKey(apiKey: string): string {
+  try {
+    return decryptSecret(apiKey).substring(0, 8) + '****'
+  } catch {
+    return '********'
+  }
+}
 
 /**
  * Convert full Anthropic credential to safe version (without tokens)
@@ -53,7 +85,7 @@ function toSafeBedrockCredential(credential: BedrockCredential): BedrockCredenti
     account_name: credential.account_name,
     provider: 'bedrock',
     aws_region: credential.aws_region,
-    aws_api_key_preview: credential.aws_api_key.substring(0, 8) + '****',
+    aws_api_key_preview: previewApiKey(credential.aws_api_key),
     created_at: credential.created_at,
     updated_at: credential.updated_at,
     token_limit_threshold: credential.token_limit_threshold,
@@ -8,6 +8,8 @@ import type {
   CreateBedrockCredentialRequest,
   UpdateCredentialTokensRequest,
 } from '../../types/credentials'
+import { encryptSecret } from '../../utils/credential-encryption'
+import { decryptCredential, toSafeCredential } from './credential-queries-internal'
 
 /**
  * Create a new Anthropic credential
@@ -36,15 +38,15 @@ export async function createAnthropicCredential(
       request.account_id,
       request.account_name,
       request.account_email ?? null,
-      request.oauth_access_token,
-      request.oauth_refresh_token,
+      encryptSecret(request.oauth_access_token),
+      encryptSecret(request.oauth_refresh_token),
       request.oauth_expires_at,
       request.oauth_scopes,
       request.oauth_is_max ?? true,
     ]
   )
 
-  return result.rows[0]
+  return decryptCredential(result.rows[0])
 }
 
 /**
@@ -86,8 +88,8 @@ export async function upsertAnthropicCredential(
       request.account_id,
       request.account_name,
       request.account_email ?? null,
-      request.oauth_access_token,
-      request.oauth_refresh_token,
+      encryptSecret(request.oauth_access_token),
+      encryptSecret(request.oauth_refresh_token),
       request.oauth_expires_at,
       request.oauth_scopes,
       request.oauth_is_max ?? true,
@@ -100,7 +102,7 @@ export async function upsertAnthropicCredential(
     )
   }
 
-  return result.rows[0]
+  return decryptCredential(result.rows[0])
 }
 
 /**
@@ -124,12 +126,12 @@ export async function createBedrockCredential(
     [
       request.account_id,
       request.account_name,
-      request.aws_api_key,
+      encryptSecret(request.aws_api_key),
       request.aws_region ?? 'us-east-1',
     ]
   )
 
-  return result.rows[0]
+  return decryptCredential(result.rows[0])
 }
 
 /**
@@ -138,7 +140,7 @@ export async function createBedrockCredential(
 export async function getCredentialById(pool: Pool, id: string): Promise<Credential | null> {
   const result = await pool.query<Credential>('SELECT * FROM credentials WHERE id = $1', [id])
 
-  return result.rows[0] || null
+  return result.rows[0] ? decryptCredential(result.rows[0]) : null
 }
 
 /**
@@ -152,7 +154,7 @@ export async function getCredentialByAccountId(
     accountId,
   ])
 
-  return result.rows[0] || null
+  return result.rows[0] ? decryptCredential(result.rows[0]) : null
 }
 
 /**
@@ -166,12 +168,11 @@ export async function getCredentialByAccountName(
     accountName,
   ])
 
-  return result.rows[0] || null
+  return result.rows[0] ? decryptCredential(result.rows[0]) : null
 }
 
-// Export toSafeCredential from internal for use in this file and train queries
-import { toSafeCredential } from './credential-queries-internal'
-export { toSafeCredential } from './credential-queries-internal'
+// Export helpers from internal for use in this file and train queries
+export { decryptCredential, toSafeCredential } from './credential-queries-internal'
 
 /**
  * List all Anthropic credentials with OAuth token fields.
@@ -187,7 +188,7 @@ export async function listAnthropicCredentials(pool: Pool): Promise<AnthropicCre
     `
   )
 
-  return result.rows
+  return result.rows.map(decryptCredential)
 }
 
 /**
@@ -230,14 +231,19 @@ export async function updateCredentialTokens(
     WHERE id = $1 AND provider = 'anthropic'
     RETURNING *
     `,
-    [id, request.oauth_access_token, request.oauth_refresh_token, request.oauth_expires_at]
+    [
+      id,
+      encryptSecret(request.oauth_access_token),
+      encryptSecret(request.oauth_refresh_token),
+      request.oauth_expires_at,
+    ]
   )
 
   if (result.rows.length === 0) {
     throw new Error(`Anthropic credential with ID ${id} not found`)
   }
 
-  return result.rows[0]
+  return decryptCredential(result.rows[0])
 }
 
 /**
@@ -2,3 +2,14 @@ export * from './credential-queries'
 export * from './project-queries'
 export * from './api-key-queries'
 export * from './project-member-queries'
+export * from './project-budget-queries'
+export * from './response-cache-queries'
+export * from './webhook-queries'
+export * from './retention-queries'
+export * from './audit-event-queries'
+export * from './user-attribution-queries'
+export * from './org-admin-queries'
+export * from './conversation-share-queries'
+export * from './conversation-annotation-queries'
+export * from './tool-usage-queries'
+export * from './analysis-template-queries'
@@ -0,0 +1,69 @@
+import { Pool } from 'pg'
+import type { OrgAdmin } from '../../types/index.js'
+import { normalizeEmail } from '../../utils/auth.js'
+
+/**
+ * Check if a user is an organization admin
+ */
+export async function isOrgAdmin(pool: Pool, userEmail: string): Promise<boolean> {
+  const email = normalizeEmail(userEmail)
+  if (!email) {
+    return false
+  }
+
+  const result = await pool.query<{ exists: boolean }>(
+    'SELECT EXISTS(SELECT 1 FROM org_admins WHERE user_email = $1) as exists',
+    [email]
+  )
+
+  return result.rows[0]?.exists ?? false
+}
+
+/**
+ * List all organization admins
+ */
+export async function listOrgAdmins(pool: Pool): Promise<OrgAdmin[]> {
+  const result = await pool.query<OrgAdmin>('SELECT * FROM org_admins ORDER BY user_email ASC')
+  return result.rows
+}
+
+/**
+ * Grant organization admin rights (no-op when already granted)
+ */
+export async function addOrgAdmin(
+  pool: Pool,
+  userEmail: string,
+  addedBy: string
+): Promise<OrgAdmin> {
+  const email = normalizeEmail(userEmail)
+  if (!email) {
+    throw new Error('Email is required')
+  }
+
+  const result = await pool.query<OrgAdmin>(
+    `
+    INSERT INTO org_admins (user_email, added_by)
+    VALUES ($1, $2)
+    ON CONFLICT (user_email) DO UPDATE SET user_email = EXCLUDED.user_email
+    RETURNING *
+    `,
+    [email, addedBy]
+  )
+
+  return result.rows[0]
+}
+
+/**
+ * Revoke organization admin rights
+ *
+ * @returns Whether the user was an organization admin
+ */
+export async function removeOrgAdmin(pool: Pool, userEmail: string): Promise<boolean> {
+  const email = normalizeEmail(userEmail)
+  if (!email) {
+    return false
+  }
+
+  const result = await pool.query('DELETE FROM org_admins WHERE user_email = $1', [email])
+  return (result.rowCount ?? 0) > 0
+}
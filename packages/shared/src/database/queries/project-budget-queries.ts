@@ -0,0 +1,185 @@
+import { Pool } from 'pg'
+import type {
+  BudgetAlertKind,
+  BudgetPeriod,
+  BudgetPeriodStatus,
+  ProjectBudgetStatus,
+} from '../../types/project-budgets.js'
+import { calculateRequestCost } from '../../constants/model-pricing.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Get the UTC bounds of the budget period containing `now`
+ */
+export function getBudgetPeriodBounds(
+  period: BudgetPeriod,
+  now: Date = new Date()
+): { start: Date; end: Date } {
+  if (period === 'daily') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    return { start, end: new Date(start.getTime() + DAY_MS) }
+  }
+
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  }
+}
+
+/**
+ * Estimate a project's spend per UTC day since `since`.
+ *
+ * Token counts are aggregated per model and day in SQL and priced here, so
+ * introductory pricing cutovers (which fall on UTC midnight) are honored.
+ * Fallback iterations are not split per model, so this is an estimate. The
+ * scan is covered by idx_api_requests_project_spend (migration 026).
+ */
+export async function getProjectSpendByDay(
+  pool: Pool,
+  projectId: string,
+  since: Date
+): Promise<Map<string, number>> {
+  const result = await pool.query<{
+    model: string | null
+    day: string
+    input_tokens: string
+    output_tokens: string
+    cache_read_tokens: string
+    cache_creation_tokens: string
+  }>(
+    `
+    SELECT
+      model,
+      to_char(timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day,
+      COALESCE(SUM(input_tokens), 0) AS input_tokens,
+      COALESCE(SUM(output_tokens), 0) AS output_tokens,
+      COALESCE(SUM(cache_read_input_tokens), 0) AS cache_read_tokens,
+      COALESCE(SUM(cache_creation_input_tokens), 0) AS cache_creation_tokens
+    FROM api_requests
+    WHERE project_id = $1
+      AND timestamp >= $2
+    GROUP BY model, day
+    `,
+    [projectId, since]
+  )
+
+  const spendByDay = new Map<string, number>()
+  for (const row of result.rows) {
+    const cost = calculateRequestCost(
+      row.model || 'unknown',
+      {
+        inputTokens: Number(row.input_tokens),
+        outputTokens: Number(row.output_tokens),
+        cacheReadTokens: Number(row.cache_read_tokens),
+        cacheCreationTokens: Number(row.cache_creation_tokens),
+      },
+      new Date(`${row.day}T00:00:00Z`)
+    )
+    spendByDay.set(row.day, (spendByDay.get(row.day) ?? 0) + cost)
+  }
+
+  return spendByDay
+}
+
+/**
+ * Get spend-to-date against each configured budget of a project
+ *
+ * @returns null when the project does not exist
+ */
+export async function getProjectBudgetStatus(
+  pool: Pool,
+  projectId: string,
+  now: Date = new Date()
+): Promise<ProjectBudgetStatus | null> {
+  const projectResult = await pool.query<{
+    id: string
+    project_id: string
+    daily_budget_usd: string | null
+    monthly_budget_usd: string | null
+    budget_alert_threshold: string
+  }>(
+    `
+    SELECT id, project_id, daily_budget_usd, monthly_budget_usd, budget_alert_threshold
+    FROM projects
+    WHERE project_id = $1
+    `,
+    [projectId]
+  )
+
+  const project = projectResult.rows[0]
+  if (!project) {
+    return null
+  }
+
+  const alertThreshold = Number(project.budget_alert_threshold)
+  const limits: Array<{ period: BudgetPeriod; limitUsd: number }> = []
+  if (project.daily_budget_usd !== null) {
+    limits.push({ period: 'daily', limitUsd: Number(project.daily_budget_usd) })
+  }
+  if (project.monthly_budget_usd !== null) {
+    limits.push({ period: 'monthly', limitUsd: Number(project.monthly_budget_usd) })
+  }
+
+  if (limits.length === 0) {
+    return { id: project.id, projectId: project.project_id, alertThreshold, periods: [] }
+  }
+
+  // The current day always falls inside the current month, so one query covers both
+  const bounds = limits.map(limit => getBudgetPeriodBounds(limit.period, now))
+  const since = new Date(Math.min(...bounds.map(b => b.start.getTime())))
+  const spendByDay = await getProjectSpendByDay(pool, project.project_id, since)
+
+  const periods: BudgetPeriodStatus[] = limits.map((limit, index) => {
+    const { start, end } = bounds[index]
+    let spentUsd = 0
+    for (const [day, cost] of spendByDay) {
+      if (new Date(`${day}T00:00:00Z`) >= start) {
+        spentUsd += cost
+      }
+    }
+
+    const utilization = limit.limitUsd > 0 ? spentUsd / limit.limitUsd : 0
+    const exceeded = spentUsd >= limit.limitUsd
+    return {
+      period: limit.period,
+      limitUsd: limit.limitUsd,
+      spentUsd,
+      periodStart: start,
+      resetsAt: end,
+      utilization,
+      alert: exceeded || utilization >= alertThreshold,
+      exceeded,
+    }
+  })
+
+  return { id: project.id, projectId: project.project_id, alertThreshold, periods }
+}
+
+/**
+ * Record that a budget alert of `kind` was sent for the current period.
+ * Only one caller per period and kind wins, so replicas don't send duplicate alerts.
+ *
+ * @param projectUuid - projects.id
+ * @returns true if the caller should send the alert
+ */
+export async function claimBudgetAlert(
+  pool: Pool,
+  projectUuid: string,
+  period: BudgetPeriod,
+  periodStart: Date,
+  kind: BudgetAlertKind
+): Promise<boolean> {
+  const column =
+    kind === 'exceeded' ? `${period}_budget_exceeded_alerted_at` : `${period}_budget_alerted_at`
+  const result = await pool.query(
+    `
+    UPDATE projects
+    SET ${column} = NOW()
+    WHERE id = $1
+      AND (${column} IS NULL OR ${column} < $2)
+    `,
+    [projectUuid, periodStart]
+  )
+  return (result.rowCount ?? 0) > 0
+}
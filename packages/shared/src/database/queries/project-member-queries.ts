@@ -1,12 +1,15 @@
 import { Pool } from 'pg'
 import type {
+  ProjectAccess,
   ProjectMember,
   ProjectMemberRole,
+  ProjectPermission,
   Project,
   ProjectWithAccounts,
   Credential,
 } from '../../types/index.js'
 import { toSafeCredential } from './credential-queries.js'
+import { hasProjectPermission } from '../../utils/auth.js'
 
 /**
  * Add a member to a project
@@ -109,7 +112,9 @@ export async function getProjectMembers(pool: Pool, projectId: string): Promise<
     `
     SELECT * FROM project_members
     WHERE project_id = $1
-    ORDER BY role DESC, user_email ASC
+    ORDER BY
+      CASE role WHEN 'owner' THEN 0 WHEN 'member' THEN 1 WHEN 'viewer' THEN 2 ELSE 3 END,
+      user_email ASC
     `,
     [projectId]
   )
@@ -118,15 +123,17 @@ export async function getProjectMembers(pool: Pool, projectId: string): Promise<
 }
 
 /**
- * Get all projects where user is a member or owner
+ * Get all projects where user has a role, or every project for organization admins
  */
 export async function getUserProjects(pool: Pool, userEmail: string): Promise<Project[]> {
   const result = await pool.query<Project>(
     `
     SELECT t.*
     FROM projects t
-    INNER JOIN project_members tm ON tm.project_id = t.id
-    WHERE tm.user_email = $1
+    WHERE EXISTS (
+      SELECT 1 FROM project_members tm WHERE tm.project_id = t.id AND tm.user_email = $1
+    )
+    OR EXISTS (SELECT 1 FROM org_admins oa WHERE oa.user_email = LOWER($1))
     ORDER BY t.name ASC
     `,
     [userEmail]
@@ -136,7 +143,8 @@ export async function getUserProjects(pool: Pool, userEmail: string): Promise<Pr
 }
 
 /**
- * Get all projects where user is a member or owner, with associated accounts
+ * Get all projects where user has a role (every project for organization admins),
+ * with associated accounts
  */
 export async function getUserProjectsWithAccounts(
   pool: Pool,
@@ -196,7 +204,7 @@ export async function isProjectOwner(
 }
 
 /**
- * Check if a user is a member (owner or member) of a project
+ * Check if a user has any role in a project
  */
 export async function isProjectMember(
   pool: Pool,
@@ -216,6 +224,55 @@ export async function isProjectMember(
   return result.rows[0]?.exists ?? false
 }
 
+/**
+ * Get a user's role in a project (by project UUID), whether they are an
+ * organization admin, and the project's privacy
+ *
+ * @returns null if the project does not exist
+ */
+export async function getProjectAccess(
+  pool: Pool,
+  projectId: string,
+  userEmail: string
+): Promise<ProjectAccess | null> {
+  const result = await pool.query<{
+    is_private: boolean
+    role: ProjectMemberRole | null
+    is_org_admin: boolean
+  }>(
+    `
+    SELECT
+      p.is_private,
+      pm.role,
+      EXISTS(SELECT 1 FROM org_admins oa WHERE oa.user_email = LOWER($2)) as is_org_admin
+    FROM projects p
+    LEFT JOIN project_members pm ON pm.project_id = p.id AND pm.user_email = $2
+    WHERE p.id = $1
+    `,
+    [projectId, userEmail]
+  )
+
+  const row = result.rows[0]
+  if (!row) {
+    return null
+  }
+
+  return { role: row.role, isOrgAdmin: row.is_org_admin, isPrivate: row.is_private }
+}
+
+/**
+ * Check if a user holds a permission on a project (by project UUID)
+ */
+export async function checkProjectPermission(
+  pool: Pool,
+  projectId: string,
+  userEmail: string,
+  permission: ProjectPermission
+): Promise<boolean> {
+  const access = await getProjectAccess(pool, projectId, userEmail)
+  return access !== null && hasProjectPermission(access, permission)
+}
+
 /**
  * Update a member's role
  * Throws error if attempting to demote the last owner
@@ -244,7 +301,7 @@ export async function updateProjectMemberRole(
 
     const member = memberResult.rows[0]
 
-    if (member.role === 'owner' && newRole === 'member') {
+    if (member.role === 'owner' && newRole !== 'owner') {
       // Lock all owner rows for this project to prevent concurrent modifications
       await client.query(
         'SELECT 1 FROM project_members WHERE project_id = $1 AND role = $2 FOR UPDATE',
@@ -8,7 +8,10 @@ import type {
   SlackConfig,
 } from '../../types/credentials'
 import type { SystemContentBlock } from '../../types/claude.js'
-import { toSafeCredential } from './credential-queries-internal'
+import type { ProjectTransform } from '../../types/project-transforms.js'
+import type { ModelRoutingPolicy } from '../../types/model-routing.js'
+import type { RedactionSettings } from '../../types/body-redaction.js'
+import { decryptCredential, toSafeCredential } from './credential-queries-internal'
 
 /**
  * Create a new project with a randomly selected default account
@@ -73,6 +76,30 @@ export async function getProjectByProjectId(
   return result.rows[0] || null
 }
 
+/**
+ * Get the project a conversation belongs to (that of its first request)
+ */
+export async function getConversationProject(
+  pool: Pool,
+  conversationId: string
+): Promise<Project | null> {
+  const result = await pool.query<Project>(
+    `
+    SELECT p.*
+    FROM projects p
+    WHERE p.project_id = (
+      SELECT project_id
+      FROM api_requests
+      WHERE conversation_id = $1
+      ORDER BY timestamp ASC
+      LIMIT 1
+    )
+    `,
+    [conversationId]
+  )
+  return result.rows[0] || null
+}
+
 /**
  * Get train with all available accounts
  * All projects have access to all credentials
@@ -201,6 +228,61 @@ export async function updateProject(
     updates.push(`system_prompt = $${paramIndex++}`)
     values.push(request.system_prompt ? JSON.stringify(request.system_prompt) : null)
   }
+  if (request.daily_budget_usd !== undefined) {
+    updates.push(`daily_budget_usd = $${paramIndex++}`)
+    values.push(request.daily_budget_usd)
+    // A new budget deserves fresh alerts
+    updates.push(`daily_budget_alerted_at = NULL`, `daily_budget_exceeded_alerted_at = NULL`)
+  }
+  if (request.monthly_budget_usd !== undefined) {
+    updates.push(`monthly_budget_usd = $${paramIndex++}`)
+    values.push(request.monthly_budget_usd)
+    updates.push(`monthly_budget_alerted_at = NULL`, `monthly_budget_exceeded_alerted_at = NULL`)
+  }
+  if (request.budget_alert_threshold !== undefined) {
+    updates.push(`budget_alert_threshold = $${paramIndex++}`)
+    values.push(request.budget_alert_threshold)
+  }
+  if (request.rate_limit_max_requests !== undefined) {
+    updates.push(`rate_limit_max_requests = $${paramIndex++}`)
+    values.push(request.rate_limit_max_requests)
+  }
+  if (request.rate_limit_max_tokens !== undefined) {
+    updates.push(`rate_limit_max_tokens = $${paramIndex++}`)
+    values.push(request.rate_limit_max_tokens)
+  }
+  if (request.response_cache_enabled !== undefined) {
+    updates.push(`response_cache_enabled = $${paramIndex++}`)
+    values.push(request.response_cache_enabled)
+  }
+  if (request.response_cache_ttl_seconds !== undefined) {
+    updates.push(`response_cache_ttl_seconds = $${paramIndex++}`)
+    values.push(request.response_cache_ttl_seconds)
+  }
+  if (request.transforms !== undefined) {
+    updates.push(`transforms = $${paramIndex++}`)
+    values.push(JSON.stringify(request.transforms))
+  }
+  if (request.model_routing !== undefined) {
+    updates.push(`model_routing = $${paramIndex++}`)
+    values.push(request.model_routing === null ? null : JSON.stringify(request.model_routing))
+  }
+  if (request.retention_body_days !== undefined) {
+    updates.push(`retention_body_days = $${paramIndex++}`)
+    values.push(request.retention_body_days)
+  }
+  if (request.retention_metadata_days !== undefined) {
+    updates.push(`retention_metadata_days = $${paramIndex++}`)
+    values.push(request.retention_metadata_days)
+  }
+  if (request.redaction_enabled !== undefined) {
+    updates.push(`redaction_enabled = $${paramIndex++}`)
+    values.push(request.redaction_enabled)
+  }
+  if (request.redaction_patterns !== undefined) {
+    updates.push(`redaction_patterns = $${paramIndex++}`)
+    values.push(JSON.stringify(request.redaction_patterns))
+  }
 
   if (updates.length === 0) {
     const train = await getProjectById(pool, id)
@@ -273,7 +355,7 @@ export async function getProjectCredentials(pool: Pool, projectId: string): Prom
     [projectId]
   )
 
-  return result.rows
+  return result.rows.map(decryptCredential)
 }
 
 /**
@@ -348,6 +430,86 @@ export async function getProjectSystemPrompt(
   }
 }
 
+/**
+ * Get a project's ordered request/response transforms (empty when none or not found)
+ */
+export async function getProjectTransforms(
+  pool: Pool,
+  projectId: string
+): Promise<ProjectTransform[]> {
+  const result = await pool.query<{ transforms: ProjectTransform[] | null }>(
+    `SELECT transforms FROM projects WHERE project_id = $1`,
+    [projectId]
+  )
+
+  return result.rows[0]?.transforms ?? []
+}
+
+/**
+ * Get a project's stored-body redaction settings (null when not found)
+ */
+export async function getProjectRedactionSettings(
+  pool: Pool,
+  projectId: string
+): Promise<RedactionSettings | null> {
+  const result = await pool.query<{
+    redaction_enabled: boolean
+    redaction_patterns: RedactionSettings['patterns'] | null
+  }>(`SELECT redaction_enabled, redaction_patterns FROM projects WHERE project_id = $1`, [
+    projectId,
+  ])
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  return {
+    enabled: result.rows[0].redaction_enabled,
+    patterns: result.rows[0].redaction_patterns ?? [],
+  }
+}
+
+/**
+ * Get a project's model routing policy (null when none or not found)
+ */
+export async function getProjectModelRouting(
+  pool: Pool,
+  projectId: string
+): Promise<ModelRoutingPolicy | null> {
+  const result = await pool.query<{ model_routing: ModelRoutingPolicy | null }>(
+    `SELECT model_routing FROM projects WHERE project_id = $1`,
+    [projectId]
+  )
+
+  return result.rows[0]?.model_routing ?? null
+}
+
+/**
+ * Get per-project rate limit overrides (null = use the proxy defaults)
+ */
+export async function getProjectRateLimits(
+  pool: Pool,
+  projectId: string
+): Promise<{ maxRequests: number | null; maxTokens: number | null } | null> {
+  const result = await pool.query<{
+    rate_limit_max_requests: number | null
+    rate_limit_max_tokens: string | null
+  }>(`SELECT rate_limit_max_requests, rate_limit_max_tokens FROM projects WHERE project_id = $1`, [
+    projectId,
+  ])
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  // BIGINT comes back as a string
+  const row = result.rows[0]
+  return {
+    maxRequests: row.rate_limit_max_requests,
+    maxTokens: row.rate_limit_max_tokens === null ? null : Number(row.rate_limit_max_tokens),
+  }
+}
+
 /**
  * Get all credentials linked to a project via project_accounts junction table.
  * Used by AccountPoolService to determine pool eligibility (2+ accounts)
@@ -368,7 +530,7 @@ export async function getProjectLinkedCredentials(
     `,
     [projectId]
   )
-  return result.rows
+  return result.rows.map(decryptCredential)
 }
 
 /**
@@ -0,0 +1,210 @@
+import { Pool } from 'pg'
+import type {
+  CachedResponse,
+  ResponseCacheSavings,
+  ResponseCacheSettings,
+} from '../../types/response-cache.js'
+import { calculateRequestCost } from '../../constants/model-pricing.js'
+
+interface CachedResponseRow {
+  project_id: string
+  cache_key: string
+  model: string
+  response_body: Record<string, any>
+  input_tokens: number
+  output_tokens: number
+  cache_creation_input_tokens: number
+  cache_read_input_tokens: number
+  created_at: Date
+  expires_at: Date
+}
+
+function toCachedResponse(row: CachedResponseRow): CachedResponse {
+  return {
+    projectId: row.project_id,
+    cacheKey: row.cache_key,
+    model: row.model,
+    responseBody: row.response_body,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    cacheCreationInputTokens: row.cache_creation_input_tokens,
+    cacheReadInputTokens: row.cache_read_input_tokens,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  }
+}
+
+/**
+ * Get a project's response cache settings
+ *
+ * @returns null when the project does not exist
+ */
+export async function getProjectResponseCacheSettings(
+  pool: Pool,
+  projectId: string
+): Promise<ResponseCacheSettings | null> {
+  const result = await pool.query<{
+    response_cache_enabled: boolean
+    response_cache_ttl_seconds: number
+  }>(
+    `SELECT response_cache_enabled, response_cache_ttl_seconds FROM projects WHERE project_id = $1`,
+    [projectId]
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  return {
+    enabled: result.rows[0].response_cache_enabled,
+    ttlSeconds: result.rows[0].response_cache_ttl_seconds,
+  }
+}
+
+/**
+ * Look up an unexpired cached response and count the hit
+ */
+export async function getCachedResponse(
+  pool: Pool,
+  projectId: string,
+  cacheKey: string,
+  now: Date = new Date()
+): Promise<CachedResponse | null> {
+  const result = await pool.query<CachedResponseRow>(
+    `
+    UPDATE response_cache
+    SET hit_count = hit_count + 1
+    WHERE project_id = $1 AND cache_key = $2 AND expires_at > $3
+    RETURNING project_id, cache_key, model, response_body, input_tokens, output_tokens,
+      cache_creation_input_tokens, cache_read_input_tokens, created_at, expires_at
+    `,
+    [projectId, cacheKey, now]
+  )
+
+  return result.rows.length > 0 ? toCachedResponse(result.rows[0]) : null
+}
+
+/**
+ * Store (or replace) a cached response for `ttlSeconds`
+ */
+export async function storeCachedResponse(
+  pool: Pool,
+  entry: Omit<CachedResponse, 'createdAt' | 'expiresAt'>,
+  ttlSeconds: number
+): Promise<void> {
+  await pool.query(
+    `
+    INSERT INTO response_cache (
+      project_id, cache_key, model, response_body, input_tokens, output_tokens,
+      cache_creation_input_tokens, cache_read_input_tokens, created_at, expires_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW() + make_interval(secs => $9))
+    ON CONFLICT (project_id, cache_key) DO UPDATE SET
+      model = EXCLUDED.model,
+      response_body = EXCLUDED.response_body,
+      input_tokens = EXCLUDED.input_tokens,
+      output_tokens = EXCLUDED.output_tokens,
+      cache_creation_input_tokens = EXCLUDED.cache_creation_input_tokens,
+      cache_read_input_tokens = EXCLUDED.cache_read_input_tokens,
+      hit_count = 0,
+      created_at = EXCLUDED.created_at,
+      expires_at = EXCLUDED.expires_at
+    `,
+    [
+      entry.projectId,
+      entry.cacheKey,
+      entry.model,
+      JSON.stringify(entry.responseBody),
+      entry.inputTokens,
+      entry.outputTokens,
+      entry.cacheCreationInputTokens,
+      entry.cacheReadInputTokens,
+      ttlSeconds,
+    ]
+  )
+}
+
+/**
+ * Delete expired cached responses
+ *
+ * @returns Number of rows removed
+ */
+export async function deleteExpiredCachedResponses(
+  pool: Pool,
+  now: Date = new Date()
+): Promise<number> {
+  const result = await pool.query('DELETE FROM response_cache WHERE expires_at <= $1', [now])
+  return result.rowCount ?? 0
+}
+
+/**
+ * Delete a project's cached responses stored before `before`
+ *
+ * @returns Number of rows removed
+ */
+export async function deleteProjectCachedResponses(
+  pool: Pool,
+  projectId: string,
+  before: Date
+): Promise<number> {
+  const result = await pool.query(
+    'DELETE FROM response_cache WHERE project_id = $1 AND created_at < $2',
+    [projectId, before]
+  )
+  return result.rowCount ?? 0
+}
+
+/**
+ * Summarize what a project's response cache hits saved since `since`
+ */
+export async function getResponseCacheSavings(
+  pool: Pool,
+  projectId: string,
+  since: Date
+): Promise<ResponseCacheSavings> {
+  const result = await pool.query<{
+    model: string | null
+    hits: string
+    saved_input_tokens: string
+    saved_output_tokens: string
+    saved_cache_read_tokens: string
+  }>(
+    `
+    SELECT
+      model,
+      COUNT(*) AS hits,
+      COALESCE(SUM(response_cache_saved_input_tokens), 0) AS saved_input_tokens,
+      COALESCE(SUM(response_cache_saved_output_tokens), 0) AS saved_output_tokens,
+      COALESCE(SUM(response_cache_saved_cache_read_tokens), 0) AS saved_cache_read_tokens
+    FROM api_requests
+    WHERE project_id = $1
+      AND timestamp >= $2
+      AND response_cache_hit = true
+    GROUP BY model
+    `,
+    [projectId, since]
+  )
+
+  const savings: ResponseCacheSavings = {
+    hits: 0,
+    savedInputTokens: 0,
+    savedOutputTokens: 0,
+    savedCacheReadTokens: 0,
+    savedUsd: 0,
+  }
+
+  for (const row of result.rows) {
+    const usage = {
+      inputTokens: Number(row.saved_input_tokens),
+      outputTokens: Number(row.saved_output_tokens),
+      cacheReadTokens: Number(row.saved_cache_read_tokens),
+    }
+    savings.hits += Number(row.hits)
+    savings.savedInputTokens += usage.inputTokens
+    savings.savedOutputTokens += usage.outputTokens
+    savings.savedCacheReadTokens += usage.cacheReadTokens
+    savings.savedUsd += calculateRequestCost(row.model || 'unknown', usage)
+  }
+
+  return savings
+}
@@ -0,0 +1,273 @@
+import { Pool } from 'pg'
+import type { ProjectRetentionPolicy, RetentionPurgePreview } from '../../types/data-retention.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Analyses (`ca`) of project $1's conversation branches with no request at or
+ * after $2. Must run while the requests still exist.
+ */
+const EXPIRED_ANALYSES_CONDITION = `
+  ca.updated_at < $2
+  AND EXISTS (
+    SELECT 1 FROM api_requests r
+    WHERE r.conversation_id = ca.conversation_id
+      AND r.project_id = $1
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM api_requests r
+    WHERE r.conversation_id = ca.conversation_id
+      AND r.branch_id = ca.branch_id
+      AND r.timestamp >= $2
+  )
+`
+
+/**
+ * Requests older than the returned time are past a `days` retention (null = keep forever)
+ */
+export function getRetentionCutoff(days: number | null, now: Date = new Date()): Date | null {
+  return days === null ? null : new Date(now.getTime() - days * DAY_MS)
+}
+
+/**
+ * Projects with a body or metadata retention configured
+ */
+export async function listProjectRetentionPolicies(pool: Pool): Promise<ProjectRetentionPolicy[]> {
+  const result = await pool.query<{
+    project_id: string
+    retention_body_days: number | null
+    retention_metadata_days: number | null
+  }>(
+    `
+    SELECT project_id, retention_body_days, retention_metadata_days
+    FROM projects
+    WHERE retention_body_days IS NOT NULL OR retention_metadata_days IS NOT NULL
+    ORDER BY project_id
+    `
+  )
+
+  return result.rows.map(row => ({
+    projectId: row.project_id,
+    bodyDays: row.retention_body_days,
+    metadataDays: row.retention_metadata_days,
+  }))
+}
+
+/**
+ * Clear the stored request/response bodies of up to `limit` requests older than
+ * `before`. The rows, and with them the token counts, are kept.
+ *
+ * @returns Number of requests whose bodies were purged
+ */
+export async function purgeExpiredRequestBodies(
+  pool: Pool,
+  projectId: string,
+  before: Date,
+  limit: number
+): Promise<number> {
+  const result = await pool.query(
+    `
+    UPDATE api_requests
+    SET body = NULL,
+        response_body = NULL,
+        task_tool_invocation = NULL,
+        body_purged_at = NOW()
+    WHERE request_id IN (
+      SELECT request_id
+      FROM api_requests
+      WHERE project_id = $1
+        AND timestamp < $2
+        AND body_purged_at IS NULL
+      LIMIT $3
+    )
+    `,
+    [projectId, before, limit]
+  )
+
+  return result.rowCount ?? 0
+}
+
+/**
+ * Delete up to `limit` requests older than `before`. Newer requests that point
+ * at a deleted request as their parent are unlinked first.
+ *
+ * @returns Number of requests deleted
+ */
+export async function deleteExpiredRequests(
+  pool: Pool,
+  projectId: string,
+  before: Date,
+  limit: number
+): Promise<number> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const expired = await client.query<{ request_id: string }>(
+      `
+      SELECT request_id
+      FROM api_requests
+      WHERE project_id = $1
+        AND timestamp < $2
+      LIMIT $3
+      FOR UPDATE
+      `,
+      [projectId, before, limit]
+    )
+    const requestIds = expired.rows.map(row => row.request_id)
+
+    if (requestIds.length > 0) {
+      await client.query(
+        `
+        UPDATE api_requests
+        SET parent_request_id = NULL
+        WHERE parent_request_id = ANY($1::uuid[])
+          AND NOT (request_id = ANY($1::uuid[]))
+        `,
+        [requestIds]
+      )
+      await client.query(
+        `
+        UPDATE api_requests
+        SET parent_task_request_id = NULL
+        WHERE parent_task_request_id = ANY($1::uuid[])
+          AND NOT (request_id = ANY($1::uuid[]))
+        `,
+        [requestIds]
+      )
+      await client.query('DELETE FROM api_requests WHERE request_id = ANY($1::uuid[])', [
+        requestIds,
+      ])
+    }
+
+    await client.query('COMMIT')
+    return requestIds.length
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Delete analyses of the project's conversation branches that have no request
+ * newer than `before`, since they summarize transcripts whose bodies are purged
+ *
+ * @returns Number of analyses deleted
+ */
+export async function deleteExpiredAnalyses(
+  pool: Pool,
+  projectId: string,
+  before: Date
+): Promise<number> {
+  const result = await pool.query(
+    `
+    DELETE FROM conversation_analyses ca
+    WHERE ${EXPIRED_ANALYSES_CONDITION}
+    `,
+    [projectId, before]
+  )
+
+  return result.rowCount ?? 0
+}
+
+/**
+ * Record that the purge job ran for a project
+ */
+export async function markProjectRetentionPurged(pool: Pool, projectId: string): Promise<void> {
+  await pool.query('UPDATE projects SET retention_purged_at = NOW() WHERE project_id = $1', [
+    projectId,
+  ])
+}
+
+/**
+ * Count what the purge job will remove for a project on its next run and
+ * within the following 7 days. Null when the project has no retention set.
+ */
+export async function getRetentionPurgePreview(
+  pool: Pool,
+  projectId: string,
+  now: Date = new Date()
+): Promise<RetentionPurgePreview | null> {
+  const projectResult = await pool.query<{
+    retention_body_days: number | null
+    retention_metadata_days: number | null
+    retention_purged_at: Date | null
+  }>(
+    `
+    SELECT retention_body_days, retention_metadata_days, retention_purged_at
+    FROM projects
+    WHERE project_id = $1
+    `,
+    [projectId]
+  )
+  const project = projectResult.rows[0]
+  if (
+    !project ||
+    (project.retention_body_days === null && project.retention_metadata_days === null)
+  ) {
+    return null
+  }
+
+  const bodyCutoff = getRetentionCutoff(project.retention_body_days, now)
+  const metadataCutoff = getRetentionCutoff(project.retention_metadata_days, now)
+  const nextWeek = (cutoff: Date | null) =>
+    cutoff ? new Date(cutoff.getTime() + 7 * DAY_MS) : null
+  // Only rows up to the later of the two windows need to be scanned
+  const scanUntil = [nextWeek(bodyCutoff), nextWeek(metadataCutoff)].reduce<Date | null>(
+    (latest, end) => (end && (!latest || end > latest) ? end : latest),
+    null
+  )
+
+  const countsResult = await pool.query<{
+    bodies_due: string
+    bodies_due_next_week: string
+    requests_due: string
+    requests_due_next_week: string
+  }>(
+    `
+    SELECT
+      COUNT(*) FILTER (WHERE body_purged_at IS NULL AND timestamp < $2) AS bodies_due,
+      COUNT(*) FILTER (WHERE body_purged_at IS NULL AND timestamp >= $2 AND timestamp < $3)
+        AS bodies_due_next_week,
+      COUNT(*) FILTER (WHERE timestamp < $4) AS requests_due,
+      COUNT(*) FILTER (WHERE timestamp >= $4 AND timestamp < $5) AS requests_due_next_week
+    FROM api_requests
+    WHERE project_id = $1
+      AND timestamp < $6
+    `,
+    [
+      projectId,
+      bodyCutoff,
+      nextWeek(bodyCutoff),
+      metadataCutoff,
+      nextWeek(metadataCutoff),
+      scanUntil,
+    ]
+  )
+  const counts = countsResult.rows[0]
+
+  let analysesDue = 0
+  if (bodyCutoff) {
+    const analysesResult = await pool.query<{ count: string }>(
+      `
+      SELECT COUNT(*) AS count
+      FROM conversation_analyses ca
+      WHERE ${EXPIRED_ANALYSES_CONDITION}
+      `,
+      [projectId, bodyCutoff]
+    )
+    analysesDue = Number(analysesResult.rows[0]?.count ?? 0)
+  }
+
+  return {
+    bodiesDue: Number(counts?.bodies_due ?? 0),
+    bodiesDueNextWeek: Number(counts?.bodies_due_next_week ?? 0),
+    requestsDue: Number(counts?.requests_due ?? 0),
+    requestsDueNextWeek: Number(counts?.requests_due_next_week ?? 0),
+    analysesDue,
+    lastPurgedAt: project.retention_purged_at,
+  }
+}
@@ -0,0 +1,124 @@
+import { Pool } from 'pg'
+import type { ToolUsageReport } from '../../types/tool-usage.js'
+import { getProjectPermissionFilter } from '../../utils/auth.js'
+
+/**
+ * Tool calls per tool, top Bash commands and most-edited files over a period
+ *
+ * @param options.principal - When set, only projects whose conversations the user can read count
+ * @param options.limit - Rows of the Bash command and edited file lists (default 20)
+ */
+export async function getToolUsageReport(
+  pool: Pool,
+  options: {
+    since: Date
+    until?: Date
+    projectId?: string
+    userEmail?: string
+    principal?: string
+    limit?: number
+  }
+): Promise<ToolUsageReport> {
+  const conditions = ['tc.timestamp >= $1']
+  const values: unknown[] = [options.since]
+  if (options.until) {
+    values.push(options.until)
+    conditions.push(`tc.timestamp <= $${values.length}`)
+  }
+  if (options.projectId) {
+    values.push(options.projectId)
+    conditions.push(`tc.project_id = $${values.length}`)
+  }
+  if (options.userEmail) {
+    values.push(options.userEmail)
+    conditions.push(`tc.user_email = $${values.length}`)
+  }
+  if (options.principal) {
+    values.push(options.principal.trim().toLowerCase())
+    const param = `$${values.length}`
+    conditions.push(`tc.project_id IN (
+      SELECT p.project_id
+      FROM projects p
+      LEFT JOIN project_members pm ON p.id = pm.project_id AND LOWER(pm.user_email) = ${param}
+      WHERE ${getProjectPermissionFilter('conversations.read', param)}
+    )`)
+  }
+  const where = conditions.join(' AND ')
+  const limitParam = `$${values.length + 1}`
+  const limitedValues = [...values, options.limit ?? 20]
+
+  const [toolsResult, commandsResult, filesResult] = await Promise.all([
+    pool.query<{
+      tool_name: string
+      mcp_server: string | null
+      call_count: string
+      result_count: string
+      error_count: string
+      avg_result_tokens: string | null
+    }>(
+      `
+      SELECT
+        tool_name,
+        mcp_server,
+        COUNT(*) AS call_count,
+        COUNT(result_at) AS result_count,
+        COUNT(*) FILTER (WHERE result_is_error) AS error_count,
+        AVG(result_tokens) AS avg_result_tokens
+      FROM tool_calls tc
+      WHERE ${where}
+      GROUP BY tool_name, mcp_server
+      ORDER BY call_count DESC, tool_name ASC
+      `,
+      values
+    ),
+    pool.query<{ command: string; call_count: string; error_count: string }>(
+      `
+      SELECT
+        command,
+        COUNT(*) AS call_count,
+        COUNT(*) FILTER (WHERE result_is_error) AS error_count
+      FROM tool_calls tc
+      WHERE ${where} AND command IS NOT NULL
+      GROUP BY command
+      ORDER BY call_count DESC, command ASC
+      LIMIT ${limitParam}
+      `,
+      limitedValues
+    ),
+    pool.query<{ file_path: string; edit_count: string; conversation_count: string }>(
+      `
+      SELECT
+        file_path,
+        COUNT(*) AS edit_count,
+        COUNT(DISTINCT conversation_id) AS conversation_count
+      FROM tool_calls tc
+      WHERE ${where} AND file_path IS NOT NULL
+      GROUP BY file_path
+      ORDER BY edit_count DESC, file_path ASC
+      LIMIT ${limitParam}
+      `,
+      limitedValues
+    ),
+  ])
+
+  return {
+    tools: toolsResult.rows.map(row => ({
+      toolName: row.tool_name,
+      mcpServer: row.mcp_server,
+      callCount: Number(row.call_count),
+      resultCount: Number(row.result_count),
+      errorCount: Number(row.error_count),
+      avgResultTokens: row.avg_result_tokens === null ? null : Number(row.avg_result_tokens),
+    })),
+    bashCommands: commandsResult.rows.map(row => ({
+      command: row.command,
+      callCount: Number(row.call_count),
+      errorCount: Number(row.error_count),
+    })),
+    editedFiles: filesResult.rows.map(row => ({
+      filePath: row.file_path,
+      editCount: Number(row.edit_count),
+      conversationCount: Number(row.conversation_count),
+    })),
+  }
+}
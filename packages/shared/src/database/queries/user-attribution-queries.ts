@@ -0,0 +1,246 @@
+import { Pool } from 'pg'
+import type {
+  ProjectUserMapping,
+  UnmappedClientUser,
+  UserUsageSummary,
+} from '../../types/user-attribution.js'
+import { calculateRequestCost } from '../../constants/model-pricing.js'
+import { getProjectPermissionFilter } from '../../utils/auth.js'
+
+/**
+ * List a project's client user ID mappings
+ */
+export async function listProjectUserMappings(
+  pool: Pool,
+  projectUuid: string
+): Promise<ProjectUserMapping[]> {
+  const result = await pool.query<ProjectUserMapping>(
+    `
+    SELECT *
+    FROM project_user_mappings
+    WHERE project_id = $1
+    ORDER BY user_email ASC, client_user_id ASC
+    `,
+    [projectUuid]
+  )
+
+  return result.rows
+}
+
+/**
+ * Map a client user ID to an email, replacing any existing mapping.
+ * Stored requests of the project with that client user ID are re-attributed.
+ */
+export async function upsertProjectUserMapping(
+  pool: Pool,
+  projectUuid: string,
+  mapping: { client_user_id: string; user_email: string; created_by?: string }
+): Promise<ProjectUserMapping> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const result = await client.query<ProjectUserMapping>(
+      `
+      INSERT INTO project_user_mappings (project_id, client_user_id, user_email, created_by)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (project_id, client_user_id)
+      DO UPDATE SET user_email = EXCLUDED.user_email,
+                    created_by = EXCLUDED.created_by,
+                    created_at = NOW()
+      RETURNING *
+      `,
+      [projectUuid, mapping.client_user_id, mapping.user_email, mapping.created_by || null]
+    )
+
+    await client.query(
+      `
+      UPDATE api_requests r
+      SET user_email = $3
+      FROM projects p
+      WHERE p.id = $1
+        AND r.project_id = p.project_id
+        AND r.client_user_id = $2
+      `,
+      [projectUuid, mapping.client_user_id, mapping.user_email]
+    )
+
+    await client.query('COMMIT')
+    return result.rows[0]
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Delete a client user ID mapping. Requests already attributed keep their user.
+ */
+export async function deleteProjectUserMapping(
+  pool: Pool,
+  projectUuid: string,
+  mappingId: string
+): Promise<ProjectUserMapping | null> {
+  const result = await pool.query<ProjectUserMapping>(
+    'DELETE FROM project_user_mappings WHERE id = $2 AND project_id = $1 RETURNING *',
+    [projectUuid, mappingId]
+  )
+
+  return result.rows[0] ?? null
+}
+
+/**
+ * Client user IDs in a project's requests since `since` that have no mapping
+ * and no user from the API key
+ */
+export async function listUnmappedClientUsers(
+  pool: Pool,
+  projectId: string,
+  since: Date
+): Promise<UnmappedClientUser[]> {
+  const result = await pool.query<{
+    client_user_id: string
+    request_count: string
+    last_seen_at: Date
+  }>(
+    `
+    SELECT client_user_id, COUNT(*) AS request_count, MAX(timestamp) AS last_seen_at
+    FROM api_requests
+    WHERE project_id = $1
+      AND timestamp >= $2
+      AND client_user_id IS NOT NULL
+      AND user_email IS NULL
+    GROUP BY client_user_id
+    ORDER BY last_seen_at DESC
+    LIMIT 50
+    `,
+    [projectId, since]
+  )
+
+  return result.rows.map(row => ({
+    clientUserId: row.client_user_id,
+    requestCount: Number(row.request_count),
+    lastSeenAt: row.last_seen_at,
+  }))
+}
+
+/**
+ * Requests, tokens and estimated cost per user since `since`, optionally for
+ * one project. Costs are priced per model and UTC day like project budgets.
+ *
+ * @param options.principal - When set, only projects whose usage the user can read count
+ * @returns Users ordered by estimated cost, unattributed requests as `userEmail: null`
+ */
+export async function getUserUsageSummary(
+  pool: Pool,
+  options: { since: Date; projectId?: string; userEmail?: string; principal?: string }
+): Promise<UserUsageSummary[]> {
+  const conditions = ['timestamp >= $1']
+  const values: unknown[] = [options.since]
+  if (options.projectId) {
+    values.push(options.projectId)
+    conditions.push(`project_id = $${values.length}`)
+  }
+  if (options.userEmail) {
+    values.push(options.userEmail)
+    conditions.push(`user_email = $${values.length}`)
+  }
+  if (options.principal) {
+    values.push(options.principal.trim().toLowerCase())
+    const param = `$${values.length}`
+    conditions.push(`project_id IN (
+      SELECT p.project_id
+      FROM projects p
+      LEFT JOIN project_members pm ON p.id = pm.project_id AND LOWER(pm.user_email) = ${param}
+      WHERE ${getProjectPermissionFilter('usage.read', param)}
+    )`)
+  }
+
+  const [usageResult, activityResult] = await Promise.all([
+    pool.query<{
+      user_email: string | null
+      model: string | null
+      day: string
+      request_count: string
+      input_tokens: string
+      output_tokens: string
+      cache_read_tokens: string
+      cache_creation_tokens: string
+    }>(
+      `
+      SELECT
+        user_email,
+        model,
+        to_char(timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day,
+        COUNT(*) AS request_count,
+        COALESCE(SUM(input_tokens), 0) AS input_tokens,
+        COALESCE(SUM(output_tokens), 0) AS output_tokens,
+        COALESCE(SUM(cache_read_input_tokens), 0) AS cache_read_tokens,
+        COALESCE(SUM(cache_creation_input_tokens), 0) AS cache_creation_tokens
+      FROM api_requests
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY user_email, model, day
+      `,
+      values
+    ),
+    pool.query<{
+      user_email: string | null
+      conversation_count: string
+      last_request_at: Date | null
+    }>(
+      `
+      SELECT
+        user_email,
+        COUNT(DISTINCT conversation_id) AS conversation_count,
+        MAX(timestamp) AS last_request_at
+      FROM api_requests
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY user_email
+      `,
+      values
+    ),
+  ])
+
+  const summaries = new Map<string | null, UserUsageSummary>()
+  for (const row of activityResult.rows) {
+    summaries.set(row.user_email, {
+      userEmail: row.user_email,
+      requestCount: 0,
+      conversationCount: Number(row.conversation_count),
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheCreationTokens: 0,
+      estimatedCostUsd: 0,
+      lastRequestAt: row.last_request_at,
+    })
+  }
+
+  for (const row of usageResult.rows) {
+    const summary = summaries.get(row.user_email)
+    if (!summary) {
+      continue
+    }
+    const tokens = {
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      cacheReadTokens: Number(row.cache_read_tokens),
+      cacheCreationTokens: Number(row.cache_creation_tokens),
+    }
+    summary.requestCount += Number(row.request_count)
+    summary.inputTokens += tokens.inputTokens
+    summary.outputTokens += tokens.outputTokens
+    summary.cacheReadTokens += tokens.cacheReadTokens
+    summary.cacheCreationTokens += tokens.cacheCreationTokens
+    summary.estimatedCostUsd += calculateRequestCost(
+      row.model || 'unknown',
+      tokens,
+      new Date(`${row.day}T00:00:00Z`)
+    )
+  }
+
+  return [...summaries.values()].sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd)
+}
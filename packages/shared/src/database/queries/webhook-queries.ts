@@ -0,0 +1,149 @@
+import { Pool } from 'pg'
+import { randomBytes } from 'crypto'
+import type {
+  CreateProjectWebhookRequest,
+  ProjectWebhook,
+  ProjectWebhookSafe,
+  UpdateProjectWebhookRequest,
+  WebhookEventType,
+} from '../../types/webhooks.js'
+
+const SECRET_PREFIX = 'whsec_'
+
+/**
+ * Generate a webhook signing secret
+ */
+function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('hex')}`
+}
+
+function toSafeWebhook(webhook: ProjectWebhook): ProjectWebhookSafe {
+  const { secret, ...rest } = webhook
+  return {
+    ...rest,
+    secret_preview: `${SECRET_PREFIX}****${secret.slice(-4)}`,
+  }
+}
+
+/**
+ * Create a webhook for a project. The returned row includes the signing
+ * secret, which is shown only once.
+ */
+export async function createProjectWebhook(
+  pool: Pool,
+  projectUuid: string,
+  request: CreateProjectWebhookRequest
+): Promise<ProjectWebhook> {
+  const result = await pool.query<ProjectWebhook>(
+    `
+    INSERT INTO project_webhooks (project_id, url, secret, events, created_by)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *
+    `,
+    [projectUuid, request.url, generateWebhookSecret(), request.events, request.created_by || null]
+  )
+
+  return result.rows[0]
+}
+
+/**
+ * List a project's webhooks (without secrets)
+ */
+export async function listProjectWebhooks(
+  pool: Pool,
+  projectUuid: string
+): Promise<ProjectWebhookSafe[]> {
+  const result = await pool.query<ProjectWebhook>(
+    `
+    SELECT *
+    FROM project_webhooks
+    WHERE project_id = $1
+    ORDER BY created_at ASC
+    `,
+    [projectUuid]
+  )
+
+  return result.rows.map(toSafeWebhook)
+}
+
+/**
+ * Update a webhook's event subscriptions and/or enabled flag
+ */
+export async function updateProjectWebhook(
+  pool: Pool,
+  projectUuid: string,
+  webhookId: string,
+  request: UpdateProjectWebhookRequest
+): Promise<boolean> {
+  const result = await pool.query(
+    `
+    UPDATE project_webhooks
+    SET events = COALESCE($3, events),
+        enabled = COALESCE($4, enabled),
+        updated_at = NOW()
+    WHERE id = $2 AND project_id = $1
+    `,
+    [projectUuid, webhookId, request.events ?? null, request.enabled ?? null]
+  )
+
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Delete a webhook
+ */
+export async function deleteProjectWebhook(
+  pool: Pool,
+  projectUuid: string,
+  webhookId: string
+): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM project_webhooks WHERE id = $2 AND project_id = $1',
+    [projectUuid, webhookId]
+  )
+
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Enabled webhooks of a project (by its project_id string) subscribed to an event
+ */
+export async function getProjectWebhooksForEvent(
+  pool: Pool,
+  projectId: string,
+  event: WebhookEventType
+): Promise<ProjectWebhook[]> {
+  const result = await pool.query<ProjectWebhook>(
+    `
+    SELECT w.*
+    FROM project_webhooks w
+    INNER JOIN projects p ON p.id = w.project_id
+    WHERE p.project_id = $1
+      AND w.enabled = true
+      AND $2 = ANY(w.events)
+    `,
+    [projectId, event]
+  )
+
+  return result.rows
+}
+
+/**
+ * Record the outcome of the latest delivery attempt series
+ */
+export async function recordWebhookDelivery(
+  pool: Pool,
+  webhookId: string,
+  outcome: { status: number | null; error: string | null }
+): Promise<void> {
+  await pool.query(
+    `
+    UPDATE project_webhooks
+    SET last_delivery_at = NOW(),
+        last_delivery_status = $2,
+        last_delivery_error = $3
+    WHERE id = $1
+    `,
+    [webhookId, outcome.status, outcome.error]
+  )
+}
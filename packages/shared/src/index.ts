@@ -1,6 +1,26 @@
 // Re-export all shared modules
 export * from './types/index.js'
 export { validateSystemPrompt } from './utils/validate-system-prompt.js'
+export { validateProjectBudget } from './utils/validate-project-budget.js'
+export { validateProjectRateLimits } from './utils/validate-project-rate-limits.js'
+export { validateProjectResponseCache } from './utils/validate-project-response-cache.js'
+export { validateProjectTransforms } from './utils/validate-project-transforms.js'
+export { validateModelRoutingPolicy } from './utils/validate-model-routing.js'
+export {
+  isPrivateAddress,
+  lookupHostAddresses,
+  validateProjectWebhook,
+  validateWebhookTarget,
+} from './utils/validate-project-webhook.js'
+export {
+  validateProjectRetention,
+  MIN_METADATA_RETENTION_DAYS,
+} from './utils/validate-project-retention.js'
+export {
+  isBacktrackingProne,
+  validateProjectRedaction,
+} from './utils/validate-project-redaction.js'
+export { validateAnalysisTemplate } from './utils/validate-analysis-template.js'
 export * from './config/index.js'
 export * from './logger/index.js'
 export * from './utils/errors.js'
@@ -9,6 +29,20 @@ export * from './utils/conversation-linker.js'
 export * from './utils/system-reminder.js'
 export * from './utils/validation.js'
 export * from './utils/auth.js'
+export * from './utils/credential-encryption.js'
+export { diffAuditChanges } from './utils/audit-changes.js'
+export {
+  validateApiKeyScopes,
+  isIpAllowed,
+  resolveClientIp,
+  apiKeyEndpointForPath,
+  isApiKeyModelAllowed,
+} from './utils/api-key-scopes.js'
+export {
+  normalizeClientUserId,
+  validateUserMapping,
+  UNATTRIBUTED_USER,
+} from './utils/user-attribution.js'
 
 // Re-export specific functions to ensure they're available
 export {
@@ -27,6 +61,7 @@ export {
   hashSystemPrompt,
   extractMessageHashes,
   generateConversationId,
+  hashRequestForCache,
 } from './utils/conversation-hash.js'
 
 export { config } from './config/index.js'
@@ -129,7 +164,10 @@ export {
   buildClaudeAnalysisPrompt,
   buildAnalysisPrompt,
   parseAnalysisResponse,
+  parseCustomFields,
   getAnalysisPromptTemplate,
+  analysisOutputSchemaToZod,
+  type AnalysisPromptTemplate,
   type Message,
   type ClaudeAnalysisMessage,
   type GeminiContent,
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'bun:test'
-import { buildAnalysisPrompt, parseAnalysisResponse } from '../analysis/index'
+import {
+  buildAnalysisPrompt,
+  buildClaudeAnalysisPrompt,
+  getAnalysisPromptTemplate,
+  parseAnalysisResponse,
+  parseCustomFields,
+} from '../analysis/index'
+import type { AnalysisOutputSchema } from '../../types/analysis-templates'
 import type { Message } from '../truncation'
 
 describe('buildAnalysisPrompt', () => {
@@ -316,3 +323,77 @@ describe('parseAnalysisResponse', () => {
     })
   })
 })
+
+describe('project analysis templates', () => {
+  const outputSchema: AnalysisOutputSchema = {
+    type: 'object',
+    properties: {
+      riskLevel: { type: 'string', enum: ['low', 'medium', 'high'] },
+      testCoverage: { type: 'integer', minimum: 0, maximum: 100 },
+      touchedModules: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['riskLevel'],
+  }
+
+  it('should use template instructions with the standard output format and custom fields', () => {
+    const instruction = getAnalysisPromptTemplate(undefined, {
+      instructions: 'Focus on the risk of the code changes.',
+      output_schema: outputSchema,
+    })
+
+    expect(instruction).toStartWith('Focus on the risk of the code changes.')
+    expect(instruction).toContain('## Output Format')
+    expect(instruction).toContain('"conversationQuality"')
+    expect(instruction).toContain('## Custom Fields')
+    expect(instruction).toContain('"riskLevel"')
+    expect(instruction).not.toContain('Example 1')
+  })
+
+  it('should fill placeholders in template instructions', () => {
+    const instruction = getAnalysisPromptTemplate(undefined, {
+      instructions: 'Analyze.\n\n{{JSON_SCHEMA}}\n\n{{EXAMPLES}}',
+      output_schema: null,
+    })
+
+    expect(instruction).not.toContain('## Output Format')
+    expect(instruction).not.toContain('## Custom Fields')
+    expect(instruction).toContain('"keyTopics"')
+    expect(instruction).toContain('Example 1')
+  })
+
+  it('should prefer a custom prompt over the template', () => {
+    const { messages } = buildClaudeAnalysisPrompt([], undefined, 'Custom prompt', {
+      instructions: 'Template instructions',
+      output_schema: null,
+    })
+
+    expect(messages[0].content).toContain('Custom prompt')
+    expect(messages[0].content).not.toContain('Template instructions')
+  })
+
+  it('should parse custom fields against the output schema', () => {
+    const response = `\`\`\`json
+{
+  "analysis": { "summary": "Test" },
+  "customFields": { "riskLevel": "high", "testCoverage": 80, "extra": true }
+}
+\`\`\``
+
+    expect(parseCustomFields(response, outputSchema)).toEqual({
+      riskLevel: 'high',
+      testCoverage: 80,
+    })
+  })
+
+  it('should reject custom fields that do not match the output schema', () => {
+    expect(() =>
+      parseCustomFields('{"customFields": {"riskLevel": "severe"}}', outputSchema)
+    ).toThrow('Invalid custom fields: riskLevel')
+    expect(() =>
+      parseCustomFields('{"customFields": {"riskLevel": "low", "testCoverage": 1.5}}', outputSchema)
+    ).toThrow('Invalid custom fields: testCoverage')
+    expect(() => parseCustomFields('{"analysis": {}}', outputSchema)).toThrow(
+      'Invalid custom fields: customFields'
+    )
+  })
+})
@@ -1,8 +1,10 @@
 import { z } from 'zod'
 import { ConversationAnalysisSchema } from '../../types/ai-analysis.js'
 import { ANALYSIS_PROMPT_CONFIG } from '../../config/ai-analysis.js'
+import type { ProjectAnalysisTemplate } from '../../types/analysis-templates.js'
 import { truncateConversation, type Message } from '../truncation.js'
 import { PROMPT_ASSETS } from './prompt-assets.js'
+import { analysisOutputSchemaToZod } from './output-schema.js'
 
 // Define the structure for Claude API messages
 export interface ClaudeAnalysisMessage {
@@ -10,6 +12,9 @@ export interface ClaudeAnalysisMessage {
   content: string
 }
 
+/** The parts of a project's analysis template that shape the prompt */
+export type AnalysisPromptTemplate = Pick<ProjectAnalysisTemplate, 'instructions' | 'output_schema'>
+
 /** @deprecated Use ClaudeAnalysisMessage instead */
 export type GeminiContent = {
   role: 'user' | 'model'
@@ -173,35 +178,54 @@ function formatExamples(examples: AnalysisExample[]): string {
     .join('\n\n')
 }
 
+/**
+ * Builds the analysis instruction from the prompt assets, or from a project's
+ * template. Template instructions may use the {{JSON_SCHEMA}} and {{EXAMPLES}}
+ * placeholders; without {{JSON_SCHEMA}} the standard output format is appended
+ * so the analysis panel still gets the standard analysis object.
+ */
+function buildAnalysisInstruction(
+  config: typeof ANALYSIS_PROMPT_CONFIG,
+  template?: AnalysisPromptTemplate | null
+): string {
+  const { systemPrompt, examples } = loadPromptAssets(config.PROMPT_VERSION)
+  const jsonSchema = generateJsonSchema()
+
+  let instruction = (template ? template.instructions : systemPrompt)
+    .replace('{{JSON_SCHEMA}}', () => jsonSchema)
+    .replace('{{EXAMPLES}}', () => formatExamples(examples))
+
+  if (template && !template.instructions.includes('{{JSON_SCHEMA}}')) {
+    instruction += `\n\n## Output Format\n\nYou MUST respond with a single JSON object inside a \`json ... \` code block. This JSON object must have a top-level key named \`analysis\`, which contains the full analysis object matching this schema:\n\n${jsonSchema}`
+  }
+
+  if (template?.output_schema) {
+    instruction += `\n\n## Custom Fields\n\nIn addition to \`analysis\`, the JSON object must have a top-level key named \`customFields\`, which contains an object matching this schema:\n\n${JSON.stringify(template.output_schema, null, 2)}`
+  }
+
+  return instruction
+}
+
 /**
  * Builds the analysis prompt for Claude API using messages format with separate system prompt.
  *
  * @param messages - The conversation messages to analyze
  * @param config - Optional configuration override
  * @param customPrompt - Optional custom prompt to override the default
+ * @param template - Optional project analysis template, used when there is no custom prompt
  * @returns Object with system prompt and messages array ready for Claude API submission
  */
 export function buildClaudeAnalysisPrompt(
   messages: Message[],
   config = ANALYSIS_PROMPT_CONFIG,
-  customPrompt?: string
+  customPrompt?: string,
+  template?: AnalysisPromptTemplate | null
 ): { system: string; messages: ClaudeAnalysisMessage[] } {
   // 1. Truncate the conversation if needed
   const truncatedMessages = truncateConversation(messages)
 
-  // 2. Use custom prompt if provided, otherwise load default
-  let finalInstruction: string
-
-  if (customPrompt) {
-    finalInstruction = customPrompt
-  } else {
-    const { systemPrompt, examples } = loadPromptAssets(config.PROMPT_VERSION)
-    const jsonSchema = generateJsonSchema()
-    const formattedExamples = formatExamples(examples)
-    finalInstruction = systemPrompt
-      .replace('{{JSON_SCHEMA}}', jsonSchema)
-      .replace('{{EXAMPLES}}', formattedExamples)
-  }
+  // 2. Use custom prompt if provided, otherwise the project template or default
+  const finalInstruction = customPrompt || buildAnalysisInstruction(config, template)
 
   // 3. Build Claude messages array
   // Map 'model' role to 'assistant' for Claude API compatibility
@@ -285,6 +309,15 @@ const ConversationAnalysisResponseSchema = z.object({
   analysis: ConversationAnalysisSchema,
 })
 
+/**
+ * Parses the JSON of a response, from its ```json code block if present
+ */
+function parseResponseJson(response: string): unknown {
+  const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/)
+  const jsonString = jsonMatch ? jsonMatch[1] : response.trim()
+  return JSON.parse(jsonString)
+}
+
 /**
  * Validates and parses the LLM's response
  *
@@ -295,12 +328,7 @@ export function parseAnalysisResponse(
   response: string
 ): z.infer<typeof ConversationAnalysisSchema> {
   try {
-    // Extract JSON from code block if present
-    const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/)
-    const jsonString = jsonMatch ? jsonMatch[1] : response.trim()
-
-    // Parse JSON
-    const parsed = JSON.parse(jsonString)
+    const parsed = parseResponseJson(response)
 
     // Validate with Zod (expecting the analysis wrapper)
     const validated = ConversationAnalysisResponseSchema.parse(parsed)
@@ -319,22 +347,42 @@ export function parseAnalysisResponse(
   }
 }
 
+/**
+ * Validates and parses the `customFields` of the LLM's response against the
+ * output schema of a project's analysis template
+ *
+ * @param response - The raw response from the LLM
+ * @param schema - The template's output schema
+ * @returns The validated custom fields
+ */
+export function parseCustomFields(
+  response: string,
+  schema: NonNullable<ProjectAnalysisTemplate['output_schema']>
+): Record<string, unknown> {
+  try {
+    const parsed = parseResponseJson(response) as { customFields?: unknown } | null
+    return analysisOutputSchemaToZod(schema).parse(parsed?.customFields) as Record<string, unknown>
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(
+        `Invalid custom fields: ${error.errors.map(e => `${e.path.join('.') || 'customFields'}: ${e.message}`).join(', ')}`
+      )
+    } else if (error instanceof SyntaxError) {
+      throw new Error(`Failed to parse analysis response as JSON: ${error.message}`)
+    }
+    throw error
+  }
+}
+
 /**
  * Gets the analysis prompt template with placeholders
  * This is used to display the prompt in the UI
+ *
+ * @param template - Optional project analysis template to build the prompt from
  */
-export function getAnalysisPromptTemplate(config = ANALYSIS_PROMPT_CONFIG): string {
-  // Load prompt assets
-  const { systemPrompt, examples } = loadPromptAssets(config.PROMPT_VERSION)
-
-  // Generate schema and format examples
-  const jsonSchema = generateJsonSchema()
-  const formattedExamples = formatExamples(examples)
-
-  // Build the final instruction by replacing placeholders
-  const finalInstruction = systemPrompt
-    .replace('{{JSON_SCHEMA}}', jsonSchema)
-    .replace('{{EXAMPLES}}', formattedExamples)
-
-  return finalInstruction
+export function getAnalysisPromptTemplate(
+  config = ANALYSIS_PROMPT_CONFIG,
+  template?: AnalysisPromptTemplate | null
+): string {
+  return buildAnalysisInstruction(config, template)
 }
@@ -0,0 +1,57 @@
+import { z } from 'zod'
+import type { AnalysisFieldSchema, AnalysisOutputSchema } from '../../types/analysis-templates.js'
+
+/**
+ * Zod schema for one field of a project's analysis output schema
+ */
+function fieldToZod(field: AnalysisFieldSchema): z.ZodTypeAny {
+  let schema: z.ZodTypeAny
+  switch (field.type) {
+    case 'string':
+      schema = field.enum?.length ? z.enum(field.enum as [string, ...string[]]) : z.string()
+      break
+    case 'number':
+    case 'integer': {
+      let number = field.type === 'integer' ? z.number().int() : z.number()
+      if (field.minimum !== undefined) {
+        number = number.min(field.minimum)
+      }
+      if (field.maximum !== undefined) {
+        number = number.max(field.maximum)
+      }
+      schema = number
+      break
+    }
+    case 'boolean':
+      schema = z.boolean()
+      break
+    case 'array':
+      schema = z.array(field.items ? fieldToZod(field.items) : z.unknown())
+      break
+    case 'object':
+      schema = propertiesToZod(field.properties ?? {}, field.required)
+      break
+  }
+  return field.description ? schema.describe(field.description) : schema
+}
+
+function propertiesToZod(
+  properties: Record<string, AnalysisFieldSchema>,
+  required: string[] = []
+): z.ZodTypeAny {
+  const shape: Record<string, z.ZodTypeAny> = {}
+  for (const [name, field] of Object.entries(properties)) {
+    const schema = fieldToZod(field)
+    shape[name] = required.includes(name) ? schema : schema.optional()
+  }
+  return z.object(shape)
+}
+
+/**
+ * Builds the Zod schema that validates the `customFields` of an analysis
+ * response from the JSON Schema stored with a project's analysis template.
+ * The schema is expected to have passed validateAnalysisTemplate.
+ */
+export function analysisOutputSchemaToZod(schema: AnalysisOutputSchema): z.ZodTypeAny {
+  return propertiesToZod(schema.properties, schema.required)
+}
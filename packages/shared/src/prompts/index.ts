@@ -6,7 +6,10 @@ export {
   buildClaudeAnalysisPrompt,
   buildAnalysisPrompt,
   parseAnalysisResponse,
+  parseCustomFields,
   getAnalysisPromptTemplate,
+  type AnalysisPromptTemplate,
   type ClaudeAnalysisMessage,
   type GeminiContent,
 } from './analysis/index.js'
+export { analysisOutputSchemaToZod } from './analysis/output-schema.js'
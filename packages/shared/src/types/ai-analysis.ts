@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import { uuidSchema } from '../utils/validation.js'
+import type { AnalysisTemplateRef } from './analysis-templates.js'
 
 // Define the Zod schema for runtime validation
 export const ConversationAnalysisSchema = z.object({
@@ -140,6 +141,9 @@ export interface GetAnalysisResponse {
   status: AnalysisStatus
   content?: string // Markdown formatted analysis
   data?: ConversationAnalysis // Structured data
+  customFields?: Record<string, unknown> // Fields of the project template's output schema
+  template?: AnalysisTemplateRef // Project template version, absent for the default prompt
+  promptVersion?: string // Default prompt version (AI_ANALYSIS_PROMPT_VERSION)
   error?: string // Only present if status is 'failed'
   createdAt: string
   updatedAt: string
@@ -0,0 +1,62 @@
+/**
+ * Project-specific analysis prompt templates (see migration 043)
+ */
+
+/** Types an analysis output field can have */
+export const ANALYSIS_FIELD_TYPES = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'array',
+  'object',
+] as const
+
+export type AnalysisFieldType = (typeof ANALYSIS_FIELD_TYPES)[number]
+
+/** The JSON Schema subset accepted for custom analysis fields */
+export interface AnalysisFieldSchema {
+  type: AnalysisFieldType
+  description?: string
+  /** Allowed values of string fields */
+  enum?: string[]
+  minimum?: number
+  maximum?: number
+  /** Item schema of array fields */
+  items?: AnalysisFieldSchema
+  /** Property schemas of object fields */
+  properties?: Record<string, AnalysisFieldSchema>
+  required?: string[]
+}
+
+/** Schema of the `customFields` object a template asks the model for */
+export interface AnalysisOutputSchema {
+  type: 'object'
+  properties: Record<string, AnalysisFieldSchema>
+  required?: string[]
+}
+
+/** One version of a project's analysis template */
+export interface ProjectAnalysisTemplate {
+  id: string
+  project_id: string
+  version: number
+  /** Replaces the default analysis instructions; may use {{JSON_SCHEMA}} and {{EXAMPLES}} */
+  instructions: string
+  /** Extra structured fields the analysis must return; null = standard analysis only */
+  output_schema: AnalysisOutputSchema | null
+  created_by: string | null
+  created_at: Date
+}
+
+export interface CreateAnalysisTemplateRequest {
+  instructions: string
+  output_schema?: AnalysisOutputSchema | null
+  created_by?: string
+}
+
+/** Template version an analysis was generated with */
+export interface AnalysisTemplateRef {
+  id: string
+  version: number
+}
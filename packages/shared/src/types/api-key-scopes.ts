@@ -0,0 +1,36 @@
+/**
+ * Optional restrictions of project API keys (see migration 037)
+ */
+
+/** Proxy endpoints an API key can be limited to */
+export const API_KEY_ENDPOINTS = [
+  'messages',
+  'count_tokens',
+  'chat_completions',
+  'bedrock',
+] as const
+
+export type ApiKeyEndpoint = (typeof API_KEY_ENDPOINTS)[number]
+
+export const API_KEY_ENDPOINT_DESCRIPTIONS: Record<ApiKeyEndpoint, string> = {
+  messages: 'POST /v1/messages',
+  count_tokens: 'POST /v1/messages/count_tokens',
+  chat_completions: 'OpenAI-compatible POST /v1/chat/completions',
+  bedrock: 'Bedrock native /model/{modelId}/invoke endpoints',
+}
+
+/**
+ * Scopes of an API key. Each null field leaves the key unrestricted.
+ */
+export interface ApiKeyScopes {
+  /** The key is rejected from this time on */
+  expires_at: Date | null
+  /** Requested models the key may use: exact names, or prefixes ending in `*` */
+  allowed_models: string[] | null
+  allowed_endpoints: ApiKeyEndpoint[] | null
+  /** Replace the RATE_LIMIT_* defaults of the per-key rate limiter */
+  rate_limit_max_requests: number | null
+  rate_limit_max_tokens: number | null
+  /** Client IP addresses or CIDR ranges the key may be used from */
+  ip_allowlist: string[] | null
+}
@@ -0,0 +1,87 @@
+/**
+ * Organization-wide audit log of administrative actions (see migration 035)
+ */
+
+export const AUDIT_ACTIONS = [
+  'project.created',
+  'project.updated',
+  'project.deleted',
+  'project.disabled',
+  'project.enabled',
+  'project.privacy_changed',
+  'project.system_prompt_updated',
+  'project.default_account_set',
+  'project.account_linked',
+  'project.account_unlinked',
+  'project.member_added',
+  'project.member_removed',
+  'project.member_role_changed',
+  'project.user_mapping_set',
+  'project.user_mapping_removed',
+  'project.analysis_template_updated',
+  'api_key.created',
+  'api_key.updated',
+  'api_key.revoked',
+  'api_key.deleted',
+  'webhook.created',
+  'webhook.updated',
+  'webhook.deleted',
+  'conversation_share.created',
+  'conversation_share.revoked',
+] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+export type AuditTargetType =
+  | 'project'
+  | 'project_member'
+  | 'project_user_mapping'
+  | 'api_key'
+  | 'credential'
+  | 'webhook'
+  | 'conversation_share'
+
+/** Changed fields with their values before and after the action */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>
+
+export interface AuditEvent {
+  id: string
+  occurred_at: Date
+  /** AuthContext.principal of the dashboard user */
+  actor: string
+  /** How the actor authenticated (dev, sso, alb-oidc) */
+  actor_source: string | null
+  action: AuditAction
+  target_type: AuditTargetType
+  target_id: string | null
+  /** Project string ID (projects.project_id) the action applied to */
+  project_id: string | null
+  changes: AuditChanges | null
+  metadata: Record<string, unknown> | null
+  /** Dashboard request ID (X-Request-ID) */
+  request_id: string | null
+}
+
+export interface CreateAuditEventRequest {
+  actor: string
+  actor_source?: string | null
+  action: AuditAction
+  target_type: AuditTargetType
+  target_id?: string | null
+  project_id?: string | null
+  changes?: AuditChanges | null
+  metadata?: Record<string, unknown> | null
+  request_id?: string | null
+}
+
+export interface AuditEventFilter {
+  actor?: string
+  action?: AuditAction
+  projectId?: string
+  from?: Date
+  to?: Date
+  /** Hide events of private projects this user is not a member of */
+  viewer?: string
+  limit?: number
+  offset?: number
+}
@@ -0,0 +1,25 @@
+/**
+ * Redaction of stored request/response bodies (see migration 039)
+ */
+
+/** Kinds of values the built-in rules redact */
+export const BUILT_IN_REDACTION_KINDS = ['secret', 'email', 'phone'] as const
+
+export type BuiltInRedactionKind = (typeof BUILT_IN_REDACTION_KINDS)[number]
+
+/** A project-defined regular expression, redacted as `[REDACTED:<name>]` */
+export interface RedactionPattern {
+  name: string
+  pattern: string
+}
+
+export interface RedactionSettings {
+  enabled: boolean
+  patterns: RedactionPattern[]
+}
+
+/** Number of redacted values per kind, stored in api_requests.redactions */
+export type RedactionCounts = Record<string, number>
+
+/** Matches the placeholders that replace redacted values in stored bodies */
+export const REDACTION_PLACEHOLDER_REGEX = /\[REDACTED:([a-z0-9_-]{1,32})\]/g
@@ -60,6 +60,7 @@ export interface ClaudeMessagesRequest {
   tool_choice?: {
     type: 'auto' | 'any' | 'tool'
     name?: string
+    disable_parallel_tool_use?: boolean
   }
   thinking?: {
     budget_tokens?: number
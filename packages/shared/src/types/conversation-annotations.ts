@@ -0,0 +1,37 @@
+/**
+ * Tags, notes and bookmarks on conversations, branches and requests (see migration 041)
+ */
+
+export const CONVERSATION_ANNOTATION_KINDS = ['tag', 'note', 'bookmark'] as const
+
+export type ConversationAnnotationKind = (typeof CONVERSATION_ANNOTATION_KINDS)[number]
+
+/** Tags are stored lowercased: a letter or digit, then letters, digits, '.', '_' or '-' */
+export const CONVERSATION_TAG_PATTERN = /^[a-z0-9][a-z0-9._-]{0,47}$/
+
+export const MAX_CONVERSATION_NOTE_LENGTH = 4000
+
+export interface ConversationAnnotation {
+  id: string
+  /** Project UUID (projects.id) */
+  project_id: string
+  conversation_id: string
+  /** Set when the annotation targets one branch; null for the whole conversation */
+  branch_id: string | null
+  /** Set when the annotation targets a single request */
+  request_id: string | null
+  kind: ConversationAnnotationKind
+  /** Tag name or note text; null for bookmarks */
+  body: string | null
+  created_by: string
+  created_at: Date
+}
+
+export interface CreateConversationAnnotationRequest {
+  conversation_id: string
+  branch_id?: string | null
+  request_id?: string | null
+  kind: ConversationAnnotationKind
+  body?: string | null
+  created_by: string
+}
@@ -0,0 +1,39 @@
+/**
+ * Expiring read-only share links for conversations (see migration 040)
+ */
+
+/** Lifetimes offered when creating a share link, in days */
+export const CONVERSATION_SHARE_TTL_DAYS = [1, 7, 30] as const
+
+export const DEFAULT_CONVERSATION_SHARE_TTL_DAYS = 7
+
+export interface ConversationShare {
+  id: string
+  /** Project UUID (projects.id) */
+  project_id: string
+  conversation_id: string
+  branch_id: string
+  /** Replace tool result content with a placeholder in the shared transcript */
+  redact_tool_results: boolean
+  expires_at: Date
+  created_by: string | null
+  created_at: Date
+  revoked_at: Date | null
+  revoked_by: string | null
+  view_count: number
+  last_viewed_at: Date | null
+}
+
+export interface CreateConversationShareRequest {
+  conversation_id: string
+  branch_id: string
+  redact_tool_results: boolean
+  expires_at: Date
+  created_by?: string
+}
+
+/** A recorded view of a share link */
+export interface ConversationShareView {
+  ip_address: string | null
+  user_agent: string | null
+}
@@ -1,5 +1,9 @@
 import type { OAuthUsageWindow } from './oauth-usage.js'
 import type { SystemContentBlock } from './claude.js'
+import type { ProjectTransform } from './project-transforms.js'
+import type { RedactionPattern } from './body-redaction.js'
+import type { ModelRoutingPolicy } from './model-routing.js'
+import type { ApiKeyScopes } from './api-key-scopes.js'
 
 /**
  * Database models for credential and project management
@@ -75,6 +79,40 @@ export interface Project {
   is_private: boolean
   system_prompt_enabled: boolean
   system_prompt: SystemContentBlock[] | null
+  /** USD per UTC day; null = no daily budget */
+  daily_budget_usd: number | null
+  /** USD per UTC calendar month; null = no monthly budget */
+  monthly_budget_usd: number | null
+  /** Fraction of a budget (0-1] at which the Slack alert fires */
+  budget_alert_threshold: number
+  /** When the soft alert was last sent */
+  daily_budget_alerted_at: Date | null
+  monthly_budget_alerted_at: Date | null
+  /** When the "budget reached" alert was last sent */
+  daily_budget_exceeded_alerted_at: Date | null
+  monthly_budget_exceeded_alerted_at: Date | null
+  /** Requests per rate limit window; null = proxy default */
+  rate_limit_max_requests: number | null
+  /** Tokens per rate limit window; null = proxy default */
+  rate_limit_max_tokens: number | null
+  /** Serve repeated deterministic requests from the response cache */
+  response_cache_enabled: boolean
+  response_cache_ttl_seconds: number
+  /** Ordered request/response transforms applied by the proxy */
+  transforms: ProjectTransform[]
+  /** Allowed models, preferred-model rules and fallbacks; null = forward as requested */
+  model_routing: ModelRoutingPolicy | null
+  /** Days to keep request/response bodies; null = keep forever */
+  retention_body_days: number | null
+  /** Days to keep request rows and token counts; null = keep forever */
+  retention_metadata_days: number | null
+  /** Last run of the retention purge job for this project */
+  retention_purged_at: Date | null
+  /** Redact secrets, emails, phone numbers and custom patterns from stored bodies */
+  redaction_enabled: boolean
+  redaction_patterns: RedactionPattern[]
+  /** Active analysis template version; null = default analysis prompt */
+  analysis_template_id: string | null
   created_at: Date
   updated_at: Date
 }
@@ -91,7 +129,7 @@ export interface ProjectAccount {
   created_at: Date
 }
 
-export interface ProjectApiKey {
+export interface ProjectApiKey extends ApiKeyScopes {
   id: string
   project_id: string
   api_key: string
@@ -105,7 +143,7 @@ export interface ProjectApiKey {
   revoked_by: string | null
 }
 
-export interface ProjectApiKeySafe {
+export interface ProjectApiKeySafe extends ApiKeyScopes {
   id: string
   project_id: string
   key_preview: string // prefix + "****" + suffix
@@ -115,7 +153,7 @@ export interface ProjectApiKeySafe {
   last_used_at: Date | null
   revoked_at: Date | null
   revoked_by: string | null
-  status: 'active' | 'revoked'
+  status: 'active' | 'expired' | 'revoked'
 }
 
 export interface CreateAnthropicCredentialRequest {
@@ -164,14 +202,27 @@ export interface UpdateProjectRequest {
   is_private?: boolean
   system_prompt_enabled?: boolean
   system_prompt?: SystemContentBlock[] | null
-}
-
-export interface CreateApiKeyRequest {
+  daily_budget_usd?: number | null
+  monthly_budget_usd?: number | null
+  budget_alert_threshold?: number
+  rate_limit_max_requests?: number | null
+  rate_limit_max_tokens?: number | null
+  response_cache_enabled?: boolean
+  response_cache_ttl_seconds?: number
+  transforms?: ProjectTransform[]
+  model_routing?: ModelRoutingPolicy | null
+  retention_body_days?: number | null
+  retention_metadata_days?: number | null
+  redaction_enabled?: boolean
+  redaction_patterns?: RedactionPattern[]
+}
+
+export interface CreateApiKeyRequest extends Partial<ApiKeyScopes> {
   name?: string
   created_by?: string
 }
 
-export interface UpdateApiKeyRequest {
+export interface UpdateApiKeyRequest extends Partial<ApiKeyScopes> {
   name?: string | null
   revoked?: boolean
 }
@@ -0,0 +1,38 @@
+/**
+ * Per-project data retention (see migration 034)
+ */
+
+export interface DataRetentionSettings {
+  /** Days to keep request/response bodies; null = keep forever */
+  bodyDays: number | null
+  /** Days to keep request rows (metadata and token counts); null = keep forever */
+  metadataDays: number | null
+}
+
+export interface ProjectRetentionPolicy extends DataRetentionSettings {
+  projectId: string
+}
+
+/**
+ * What the purge job removes for a project on its next run, and in the week after
+ */
+export interface RetentionPurgePreview {
+  /** Stored bodies older than the body retention */
+  bodiesDue: number
+  bodiesDueNextWeek: number
+  /** Request rows older than the metadata retention */
+  requestsDue: number
+  requestsDueNextWeek: number
+  /** Analyses of conversations with no request newer than the body retention */
+  analysesDue: number
+  /** Last time the purge job ran for the project */
+  lastPurgedAt: Date | null
+}
+
+export interface RetentionPurgeResult {
+  projectId: string
+  bodiesPurged: number
+  requestsDeleted: number
+  analysesDeleted: number
+  cachedResponsesDeleted: number
+}
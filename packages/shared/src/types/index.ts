@@ -4,3 +4,17 @@ export * from './credentials.js'
 export * from './errors.js'
 export * from './oauth-usage.js'
 export * from './project-members.js'
+export * from './project-budgets.js'
+export * from './response-cache.js'
+export * from './project-transforms.js'
+export * from './model-routing.js'
+export * from './webhooks.js'
+export * from './data-retention.js'
+export * from './audit-events.js'
+export * from './user-attribution.js'
+export * from './api-key-scopes.js'
+export * from './body-redaction.js'
+export * from './conversation-shares.js'
+export * from './conversation-annotations.js'
+export * from './tool-usage.js'
+export * from './analysis-templates.js'
@@ -0,0 +1,43 @@
+import { z } from 'zod'
+
+/**
+ * Per-project model routing policy (see migration 030).
+ * Model names in `allowed_models`, `match` and the routing targets are exact
+ * names, or prefixes ending in `*`.
+ */
+
+export const ModelRoutingRuleSchema = z.object({
+  /** Requested model this rule applies to */
+  match: z.string().min(1),
+  /** Forward this model instead of the requested one */
+  prefer: z.string().min(1).optional(),
+  /** Tried in order when no account is available for the routed model */
+  fallbacks: z.array(z.string().min(1)).max(5).default([]),
+})
+
+export const ModelRoutingPolicySchema = z.object({
+  /** Models that may be forwarded. Empty allows every model */
+  allowed_models: z.array(z.string().min(1)).max(50).default([]),
+  /** The first rule matching the requested model applies */
+  rules: z.array(ModelRoutingRuleSchema).max(50).default([]),
+})
+
+export type ModelRoutingRule = z.infer<typeof ModelRoutingRuleSchema>
+export type ModelRoutingPolicy = z.infer<typeof ModelRoutingPolicySchema>
+
+/**
+ * Whether `model` matches a routing pattern (exact name, or prefix ending in `*`)
+ */
+export function matchesModelPattern(pattern: string, model: string): boolean {
+  return pattern.endsWith('*') ? model.startsWith(pattern.slice(0, -1)) : pattern === model
+}
+
+/**
+ * Whether a policy allows forwarding `model`
+ */
+export function isModelAllowed(policy: ModelRoutingPolicy, model: string): boolean {
+  return (
+    policy.allowed_models.length === 0 ||
+    policy.allowed_models.some(pattern => matchesModelPattern(pattern, model))
+  )
+}
@@ -0,0 +1,34 @@
+/**
+ * Project spend budgets (see migration 026)
+ */
+
+export type BudgetPeriod = 'daily' | 'monthly'
+
+/** Soft alert at the alert threshold, or the alert that the budget is spent */
+export type BudgetAlertKind = 'threshold' | 'exceeded'
+
+export interface BudgetPeriodStatus {
+  period: BudgetPeriod
+  limitUsd: number
+  /** Estimated spend since periodStart, priced with the model pricing table */
+  spentUsd: number
+  /** Start of the current UTC day/month */
+  periodStart: Date
+  /** When the budget resets (start of the next UTC day/month) */
+  resetsAt: Date
+  /** spentUsd / limitUsd (0 when the limit is 0) */
+  utilization: number
+  /** Spend has crossed the soft alert threshold */
+  alert: boolean
+  /** Spend has reached the hard limit */
+  exceeded: boolean
+}
+
+export interface ProjectBudgetStatus {
+  /** Project UUID (projects.id) */
+  id: string
+  projectId: string
+  alertThreshold: number
+  /** One entry per configured budget; empty when the project has no budgets */
+  periods: BudgetPeriodStatus[]
+}
@@ -2,7 +2,59 @@
  * Database models for project membership and ownership
  */
 
-export type ProjectMemberRole = 'owner' | 'member'
+/**
+ * Project roles (see migration 038):
+ * - owner: manages the project (settings, members, credentials) and has every permission
+ * - member: uses the project (API keys, system prompt) and reads its conversations and usage
+ * - viewer: reads conversations only
+ * - billing: reads costs and token usage only
+ */
+export type ProjectMemberRole = 'owner' | 'member' | 'viewer' | 'billing'
+
+export const PROJECT_MEMBER_ROLES: readonly ProjectMemberRole[] = [
+  'owner',
+  'member',
+  'viewer',
+  'billing',
+]
+
+/**
+ * What a user may do with a project
+ * - project.view: see the project page and its member list
+ * - project.use: generate API keys and edit the system prompt
+ * - project.manage: change settings, members, credentials and delete the project
+ * - conversations.read: read conversations and requests
+ * - prompts.read: read the project's system prompt
+ * - usage.read: read costs, budgets and token usage
+ */
+export type ProjectPermission =
+  | 'project.view'
+  | 'project.use'
+  | 'project.manage'
+  | 'conversations.read'
+  | 'prompts.read'
+  | 'usage.read'
+
+/**
+ * A user's standing in a project, from which their permissions follow
+ */
+export interface ProjectAccess {
+  /** The user's project role, or null when they are not a member */
+  role: ProjectMemberRole | null
+  /** Organization admins can see and manage every project */
+  isOrgAdmin: boolean
+  /** Everyone can read the conversations and usage of public projects */
+  isPrivate: boolean
+}
+
+/**
+ * An organization admin (see migration 038)
+ */
+export interface OrgAdmin {
+  user_email: string
+  added_at: Date
+  added_by: string
+}
 
 export interface ProjectMember {
   id: string
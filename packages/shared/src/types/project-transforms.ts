@@ -0,0 +1,76 @@
+import { z } from 'zod'
+
+/**
+ * Per-project request/response transforms (see migration 029).
+ * Transforms run in order on every /v1/messages request of the project.
+ */
+
+const SystemBlockSchema = z.object({
+  type: z.literal('text'),
+  text: z.string().min(1),
+  cache_control: z.object({ type: z.literal('ephemeral') }).optional(),
+})
+
+const ToolDefinitionSchema = z
+  .object({
+    name: z.string().min(1).max(128),
+    description: z.string().optional(),
+    input_schema: z.record(z.unknown()),
+  })
+  .passthrough()
+
+export const ProjectTransformSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('prepend_system'),
+    blocks: z.array(SystemBlockSchema).min(1),
+  }),
+  z.object({
+    type: z.literal('append_system'),
+    blocks: z.array(SystemBlockSchema).min(1),
+  }),
+  z.object({
+    type: z.literal('inject_tools'),
+    /** Replaces any client tool with the same name */
+    tools: z.array(ToolDefinitionSchema).min(1),
+  }),
+  z.object({
+    type: z.literal('strip_tools'),
+    names: z.array(z.string().min(1)).min(1),
+  }),
+  z.object({
+    type: z.literal('max_tokens_ceiling'),
+    max_tokens: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal('rewrite_model'),
+    /** Exact model name, or a prefix ending in `*` */
+    from: z.string().min(1),
+    to: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('redact_response'),
+    /** Regular expression matched against response text */
+    pattern: z.string().min(1).max(500),
+    flags: z
+      .string()
+      .regex(/^[imsu]*$/, 'flags may only contain i, m, s and u')
+      .optional(),
+    replacement: z.string().default('[REDACTED]'),
+  }),
+])
+
+export const ProjectTransformsSchema = z.array(ProjectTransformSchema).max(50)
+
+export type ProjectTransform = z.infer<typeof ProjectTransformSchema>
+export type ProjectTransformType = ProjectTransform['type']
+
+/**
+ * A transform that changed a request or response, recorded on the stored request
+ */
+export interface AppliedTransform {
+  /** Position of the transform in the project's list */
+  index: number
+  type: ProjectTransformType
+  /** Human-readable description of the change */
+  summary: string
+}
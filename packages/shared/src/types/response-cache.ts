@@ -0,0 +1,32 @@
+/**
+ * Project response cache (see migration 028)
+ */
+
+export interface ResponseCacheSettings {
+  enabled: boolean
+  ttlSeconds: number
+}
+
+export interface CachedResponse {
+  projectId: string
+  cacheKey: string
+  model: string
+  /** The upstream response body as returned to the client */
+  responseBody: Record<string, any>
+  /** Token usage of the upstream request that produced the response */
+  inputTokens: number
+  outputTokens: number
+  cacheCreationInputTokens: number
+  cacheReadInputTokens: number
+  createdAt: Date
+  expiresAt: Date
+}
+
+export interface ResponseCacheSavings {
+  hits: number
+  savedInputTokens: number
+  savedOutputTokens: number
+  savedCacheReadTokens: number
+  /** Estimated cost of the avoided upstream requests, priced with the model pricing table */
+  savedUsd: number
+}
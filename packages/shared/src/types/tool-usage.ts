@@ -0,0 +1,43 @@
+/**
+ * Tool usage analytics over the tool_calls table (see migration 042)
+ */
+
+/**
+ * Calls of one tool over a period
+ */
+export interface ToolUsageSummary {
+  toolName: string
+  /** Server of `mcp__<server>__<tool>` tools, null for built-in tools */
+  mcpServer: string | null
+  callCount: number
+  /** Calls whose tool_result has been stored */
+  resultCount: number
+  /** Results flagged with is_error */
+  errorCount: number
+  /** Average tool_result size in tokens, null without results */
+  avgResultTokens: number | null
+}
+
+/**
+ * Calls of one Bash command (program and subcommand, e.g. `git status`)
+ */
+export interface BashCommandUsage {
+  command: string
+  callCount: number
+  errorCount: number
+}
+
+/**
+ * Edits of one file by the Edit, MultiEdit, Write and NotebookEdit tools
+ */
+export interface EditedFileUsage {
+  filePath: string
+  editCount: number
+  conversationCount: number
+}
+
+export interface ToolUsageReport {
+  tools: ToolUsageSummary[]
+  bashCommands: BashCommandUsage[]
+  editedFiles: EditedFileUsage[]
+}
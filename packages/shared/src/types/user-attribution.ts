@@ -0,0 +1,42 @@
+/**
+ * Per-user attribution of requests within a project (see migration 036)
+ */
+
+/**
+ * Maps a client user ID seen in a project's requests to a user's email
+ */
+export interface ProjectUserMapping {
+  id: string
+  /** Project UUID (projects.id) */
+  project_id: string
+  /** Normalized client user ID, e.g. Claude Code's `user_<hash>` */
+  client_user_id: string
+  user_email: string
+  created_by: string | null
+  created_at: Date
+}
+
+/**
+ * A client user ID seen in a project's requests without a mapping
+ */
+export interface UnmappedClientUser {
+  clientUserId: string
+  requestCount: number
+  lastSeenAt: Date
+}
+
+/**
+ * Requests, tokens and estimated cost of one user over a period
+ */
+export interface UserUsageSummary {
+  /** null for requests that could not be attributed to a user */
+  userEmail: string | null
+  requestCount: number
+  conversationCount: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  estimatedCostUsd: number
+  lastRequestAt: Date | null
+}
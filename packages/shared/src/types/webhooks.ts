@@ -0,0 +1,66 @@
+/**
+ * Per-project outgoing webhooks (see migration 032)
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  'request.error',
+  'account_pool.exhausted',
+  'oauth.refresh_failed',
+  'analysis.completed',
+  'budget.threshold',
+] as const
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number]
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEventType, string> = {
+  'request.error': 'A proxied request failed',
+  'account_pool.exhausted': 'No account in the pool was available for a request',
+  'oauth.refresh_failed': 'An OAuth access token could not be refreshed',
+  'analysis.completed': 'A conversation analysis finished',
+  'budget.threshold': 'Spend crossed the budget alert threshold or the budget was reached',
+}
+
+export interface ProjectWebhook {
+  id: string
+  /** Project UUID (projects.id) */
+  project_id: string
+  url: string
+  secret: string
+  events: WebhookEventType[]
+  enabled: boolean
+  created_by: string | null
+  created_at: Date
+  updated_at: Date
+  last_delivery_at: Date | null
+  last_delivery_status: number | null
+  last_delivery_error: string | null
+}
+
+/** Webhook without its signing secret, for listing */
+export interface ProjectWebhookSafe extends Omit<ProjectWebhook, 'secret'> {
+  secret_preview: string
+}
+
+export interface CreateProjectWebhookRequest {
+  url: string
+  events: WebhookEventType[]
+  created_by?: string
+}
+
+export interface UpdateProjectWebhookRequest {
+  events?: WebhookEventType[]
+  enabled?: boolean
+}
+
+/**
+ * JSON body POSTed to webhook endpoints
+ */
+export interface WebhookEventPayload {
+  /** Unique delivery id, also sent as X-PromptTrain-Delivery */
+  id: string
+  type: WebhookEventType
+  /** Project string id (projects.project_id) */
+  projectId: string
+  timestamp: string
+  data: Record<string, unknown>
+}
@@ -0,0 +1,105 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  apiKeyEndpointForPath,
+  isApiKeyModelAllowed,
+  isIpAllowed,
+  resolveClientIp,
+  validateApiKeyScopes,
+} from '../api-key-scopes'
+
+describe('validateApiKeyScopes', () => {
+  const now = new Date('2026-01-15T12:00:00Z')
+
+  test('parses form values and keeps only the fields given', () => {
+    const result = validateApiKeyScopes(
+      {
+        expires_at: '2026-02-01',
+        allowed_models: 'claude-sonnet-4*, claude-3-5-haiku-20241022',
+        allowed_endpoints: ['', 'messages', 'count_tokens'],
+        rate_limit_max_requests: '100',
+        ip_allowlist: '203.0.113.7\n10.0.0.0/8',
+      },
+      now
+    )
+
+    expect(result).toEqual({
+      valid: true,
+      scopes: {
+        expires_at: new Date('2026-02-01T23:59:59.999Z'),
+        allowed_models: ['claude-sonnet-4*', 'claude-3-5-haiku-20241022'],
+        allowed_endpoints: ['messages', 'count_tokens'],
+        rate_limit_max_requests: 100,
+        ip_allowlist: ['203.0.113.7', '10.0.0.0/8'],
+      },
+    })
+  })
+
+  test('clears scopes given as blank values', () => {
+    expect(
+      validateApiKeyScopes({ expires_at: '', allowed_models: [], rate_limit_max_tokens: null }, now)
+    ).toEqual({
+      valid: true,
+      scopes: { expires_at: null, allowed_models: null, rate_limit_max_tokens: null },
+    })
+  })
+
+  test('rejects invalid values', () => {
+    expect(validateApiKeyScopes({ expires_at: '2026-01-01' }, now).valid).toBe(false)
+    expect(validateApiKeyScopes({ expires_at: 'soon' }, now).valid).toBe(false)
+    expect(validateApiKeyScopes({ allowed_endpoints: ['messages', 'admin'] }, now).valid).toBe(
+      false
+    )
+    expect(validateApiKeyScopes({ rate_limit_max_requests: '0' }, now).valid).toBe(false)
+    expect(validateApiKeyScopes({ rate_limit_max_tokens: 1.5 }, now).valid).toBe(false)
+    expect(validateApiKeyScopes({ ip_allowlist: '10.0.0.0/33' }, now).valid).toBe(false)
+    expect(validateApiKeyScopes({ ip_allowlist: 'example.com' }, now).valid).toBe(false)
+  })
+})
+
+describe('isIpAllowed', () => {
+  test('matches addresses and CIDR ranges', () => {
+    const allowlist = ['203.0.113.7', '10.0.0.0/8', '2001:db8::/32']
+    expect(isIpAllowed('203.0.113.7', allowlist)).toBe(true)
+    expect(isIpAllowed('10.20.30.40', allowlist)).toBe(true)
+    expect(isIpAllowed('2001:db8::1', allowlist)).toBe(true)
+    expect(isIpAllowed('203.0.113.8', allowlist)).toBe(false)
+    expect(isIpAllowed('not-an-ip', allowlist)).toBe(false)
+  })
+
+  test('matches IPv4-mapped IPv6 addresses against IPv4 entries', () => {
+    expect(isIpAllowed('::ffff:10.1.2.3', ['10.0.0.0/8'])).toBe(true)
+  })
+})
+
+describe('resolveClientIp', () => {
+  test('uses the socket address unless proxies are trusted', () => {
+    expect(resolveClientIp('203.0.113.7', '198.51.100.1', 0)).toBe('198.51.100.1')
+    expect(resolveClientIp(undefined, '198.51.100.1', 1)).toBe('198.51.100.1')
+  })
+
+  test('skips addresses the client prepended to X-Forwarded-For', () => {
+    expect(resolveClientIp('10.0.0.1, 203.0.113.7', '172.16.0.2', 1)).toBe('203.0.113.7')
+    expect(resolveClientIp('10.0.0.1, 203.0.113.7, 172.16.0.9', '172.16.0.2', 2)).toBe(
+      '203.0.113.7'
+    )
+    expect(resolveClientIp('203.0.113.7', '172.16.0.2', 3)).toBe('203.0.113.7')
+  })
+})
+
+describe('apiKeyEndpointForPath', () => {
+  test('maps proxy paths to endpoint scopes', () => {
+    expect(apiKeyEndpointForPath('/v1/messages')).toBe('messages')
+    expect(apiKeyEndpointForPath('/v1/messages/count_tokens')).toBe('count_tokens')
+    expect(apiKeyEndpointForPath('/v1/chat/completions')).toBe('chat_completions')
+    expect(apiKeyEndpointForPath('/model/anthropic.claude-v2/invoke')).toBe('bedrock')
+    expect(apiKeyEndpointForPath('/v1/models')).toBeNull()
+  })
+})
+
+describe('isApiKeyModelAllowed', () => {
+  test('allows exact names and prefixes', () => {
+    expect(isApiKeyModelAllowed(null, 'claude-opus-4-20250514')).toBe(true)
+    expect(isApiKeyModelAllowed(['claude-sonnet-4*'], 'claude-sonnet-4-20250514')).toBe(true)
+    expect(isApiKeyModelAllowed(['claude-sonnet-4*'], 'claude-opus-4-20250514')).toBe(false)
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'bun:test'
+import { diffAuditChanges } from '../audit-changes'
+
+describe('diffAuditChanges', () => {
+  test('returns only the fields whose value changed', () => {
+    expect(
+      diffAuditChanges(
+        { name: 'Team', is_private: false, daily_budget_usd: 10 },
+        { name: 'Team', is_private: true, daily_budget_usd: 10 }
+      )
+    ).toEqual({ is_private: { before: false, after: true } })
+  })
+
+  test('limits the comparison to the given fields', () => {
+    const before = { name: 'Old', monthly_budget_usd: null, updated_at: '2026-01-01' }
+    const after = { name: 'New', monthly_budget_usd: 500, updated_at: '2026-02-01' }
+
+    expect(diffAuditChanges(before, after, ['monthly_budget_usd'])).toEqual({
+      monthly_budget_usd: { before: null, after: 500 },
+    })
+  })
+
+  test('compares nested values structurally and treats undefined as null', () => {
+    expect(
+      diffAuditChanges(
+        { transforms: [{ type: 'strip_system_reminders' }], model_routing: undefined },
+        { transforms: [{ type: 'strip_system_reminders' }], model_routing: null }
+      )
+    ).toBeNull()
+  })
+
+  test('records created values against an empty before state', () => {
+    expect(
+      diffAuditChanges(null, { url: 'https://example.com/hook', events: ['budget.alert'] })
+    ).toEqual({
+      url: { before: null, after: 'https://example.com/hook' },
+      events: { before: null, after: ['budget.alert'] },
+    })
+  })
+})
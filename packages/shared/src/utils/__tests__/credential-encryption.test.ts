@@ -0,0 +1,83 @@
+import { describe, test, expect } from 'bun:test'
+import { randomBytes } from 'crypto'
+import {
+  CredentialEncryptionError,
+  createCredentialKeyring,
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  needsReencryption,
+  parseMasterKey,
+} from '../credential-encryption'
+
+const oldKey = randomBytes(32).toString('base64')
+const newKey = randomBytes(32).toString('hex')
+
+describe('credential encryption', () => {
+  test('round-trips a secret and uses a fresh data key for each value', () => {
+    const keyring = createCredentialKeyring(oldKey)
+    const first = encryptSecret('sk-ant-oat01-secret', keyring)
+    const second = encryptSecret('sk-ant-oat01-secret', keyring)
+
+    expect(isEncryptedSecret(first)).toBe(true)
+    expect(first).not.toContain('secret')
+    expect(first).not.toBe(second)
+    expect(decryptSecret(first, keyring)).toBe('sk-ant-oat01-secret')
+    expect(decryptSecret(second, keyring)).toBe('sk-ant-oat01-secret')
+  })
+
+  test('leaves values unchanged when no key is configured', () => {
+    const keyring = createCredentialKeyring()
+    expect(encryptSecret('plain', keyring)).toBe('plain')
+    expect(decryptSecret('plain', keyring)).toBe('plain')
+    expect(needsReencryption('plain', keyring)).toBe(false)
+  })
+
+  test('reads plain-text values written before encryption was enabled', () => {
+    const keyring = createCredentialKeyring(oldKey)
+    expect(decryptSecret('legacy-token', keyring)).toBe('legacy-token')
+    expect(needsReencryption('legacy-token', keyring)).toBe(true)
+  })
+
+  test('does not encrypt a value twice', () => {
+    const keyring = createCredentialKeyring(oldKey)
+    const encrypted = encryptSecret('token', keyring)
+    expect(encryptSecret(encrypted, keyring)).toBe(encrypted)
+  })
+
+  test('decrypts values from a previous key after rotation', () => {
+    const encrypted = encryptSecret('token', createCredentialKeyring(oldKey))
+    const rotated = createCredentialKeyring(newKey, [oldKey])
+
+    expect(decryptSecret(encrypted, rotated)).toBe('token')
+    expect(needsReencryption(encrypted, rotated)).toBe(true)
+
+    const reencrypted = encryptSecret(decryptSecret(encrypted, rotated), rotated)
+    expect(needsReencryption(reencrypted, rotated)).toBe(false)
+    expect(decryptSecret(reencrypted, createCredentialKeyring(newKey))).toBe('token')
+  })
+
+  test('fails for values encrypted with an unknown key', () => {
+    const encrypted = encryptSecret('token', createCredentialKeyring(oldKey))
+    expect(() => decryptSecret(encrypted, createCredentialKeyring(newKey))).toThrow(
+      CredentialEncryptionError
+    )
+  })
+
+  test('detects tampered ciphertext', () => {
+    const keyring = createCredentialKeyring(oldKey)
+    const parts = encryptSecret('token', keyring).split(':')
+    const ciphertext = Buffer.from(parts[4], 'base64')
+    ciphertext[ciphertext.length - 1] ^= 1
+    parts[4] = ciphertext.toString('base64')
+
+    expect(() => decryptSecret(parts.join(':'), keyring)).toThrow(CredentialEncryptionError)
+    expect(() => decryptSecret('enc:v1:abc', keyring)).toThrow('Malformed')
+  })
+
+  test('requires 32-byte master keys', () => {
+    expect(parseMasterKey(oldKey)).toHaveLength(32)
+    expect(parseMasterKey(newKey)).toHaveLength(32)
+    expect(() => parseMasterKey('too-short')).toThrow(CredentialEncryptionError)
+  })
+})
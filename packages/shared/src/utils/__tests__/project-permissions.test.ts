@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  getProjectPermissionFilter,
+  getRolesWithPermission,
+  hasProjectPermission,
+  isProjectMemberRole,
+} from '../auth'
+import type { ProjectAccess, ProjectPermission } from '../../types/project-members'
+
+const ALL_PERMISSIONS: ProjectPermission[] = [
+  'project.view',
+  'project.use',
+  'project.manage',
+  'conversations.read',
+  'prompts.read',
+  'usage.read',
+]
+
+function granted(access: ProjectAccess): ProjectPermission[] {
+  return ALL_PERMISSIONS.filter(permission => hasProjectPermission(access, permission))
+}
+
+describe('hasProjectPermission', () => {
+  const privateProject = { isOrgAdmin: false, isPrivate: true }
+
+  test('grants each role its permissions on private projects', () => {
+    expect(granted({ ...privateProject, role: 'owner' })).toEqual(ALL_PERMISSIONS)
+    expect(granted({ ...privateProject, role: 'member' })).toEqual([
+      'project.view',
+      'project.use',
+      'conversations.read',
+      'prompts.read',
+      'usage.read',
+    ])
+    expect(granted({ ...privateProject, role: 'viewer' })).toEqual([
+      'project.view',
+      'conversations.read',
+    ])
+    expect(granted({ ...privateProject, role: 'billing' })).toEqual(['project.view', 'usage.read'])
+    expect(granted({ ...privateProject, role: null })).toEqual([])
+  })
+
+  test('grants organization admins everything without a role', () => {
+    expect(granted({ role: null, isOrgAdmin: true, isPrivate: true })).toEqual(ALL_PERMISSIONS)
+    expect(granted({ role: 'viewer', isOrgAdmin: true, isPrivate: true })).toEqual(ALL_PERMISSIONS)
+  })
+
+  test('lets everyone read public projects but not use or manage them', () => {
+    expect(granted({ role: null, isOrgAdmin: false, isPrivate: false })).toEqual([
+      'project.view',
+      'conversations.read',
+      'prompts.read',
+      'usage.read',
+    ])
+  })
+
+  test('applies a member role on public projects instead of the public permissions', () => {
+    const publicProject = { isOrgAdmin: false, isPrivate: false }
+    expect(granted({ ...publicProject, role: 'viewer' })).toEqual([
+      'project.view',
+      'conversations.read',
+    ])
+    expect(granted({ ...publicProject, role: 'billing' })).toEqual(['project.view', 'usage.read'])
+    expect(granted({ ...publicProject, role: 'member' })).toContain('project.use')
+  })
+})
+
+describe('getRolesWithPermission', () => {
+  test('lists the roles granting a permission', () => {
+    expect(getRolesWithPermission('conversations.read')).toEqual(['owner', 'member', 'viewer'])
+    expect(getRolesWithPermission('usage.read')).toEqual(['owner', 'member', 'billing'])
+    expect(getRolesWithPermission('project.manage')).toEqual(['owner'])
+  })
+})
+
+describe('isProjectMemberRole', () => {
+  test('accepts only known roles', () => {
+    expect(isProjectMemberRole('viewer')).toBe(true)
+    expect(isProjectMemberRole('billing')).toBe(true)
+    expect(isProjectMemberRole('admin')).toBe(false)
+    expect(isProjectMemberRole(undefined)).toBe(false)
+  })
+})
+
+describe('getProjectPermissionFilter', () => {
+  test('includes public projects for non-members for permissions everyone has there', () => {
+    expect(getProjectPermissionFilter('conversations.read', '$2')).toBe(
+      "((p.is_private = false AND pm.role IS NULL) OR (pm.role IS NOT NULL AND pm.role IN ('owner', 'member', 'viewer')) OR EXISTS (SELECT 1 FROM org_admins oa WHERE oa.user_email = LOWER($2)))"
+    )
+  })
+
+  test('requires a role or organization admin otherwise', () => {
+    expect(getProjectPermissionFilter('project.manage', '$1', 't', 'tm')).toBe(
+      "((tm.role IS NOT NULL AND tm.role IN ('owner')) OR EXISTS (SELECT 1 FROM org_admins oa WHERE oa.user_email = LOWER($1)))"
+    )
+  })
+
+  test('rejects anything but a parameter placeholder', () => {
+    expect(() => getProjectPermissionFilter('usage.read', "'x' OR 1=1")).toThrow(
+      'Invalid SQL parameter placeholder'
+    )
+  })
+})
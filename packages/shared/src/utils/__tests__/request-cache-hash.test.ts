@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'bun:test'
+import { hashRequestForCache } from '../conversation-hash.js'
+import type { ClaudeMessagesRequest } from '../../types/index.js'
+
+const baseRequest: ClaudeMessagesRequest = {
+  model: 'claude-haiku-4-5',
+  max_tokens: 256,
+  temperature: 0,
+  system: [{ type: 'text', text: 'Classify the message.' }],
+  messages: [{ role: 'user', content: 'Is this a new topic?' }],
+}
+
+describe('hashRequestForCache', () => {
+  test('is stable across key order, stream and metadata', () => {
+    const reordered: ClaudeMessagesRequest = {
+      messages: baseRequest.messages,
+      system: baseRequest.system,
+      temperature: 0,
+      max_tokens: 256,
+      model: 'claude-haiku-4-5',
+      stream: false,
+      metadata: { user_id: 'session-123' },
+    }
+
+    expect(hashRequestForCache(reordered)).toBe(hashRequestForCache(baseRequest))
+  })
+
+  test('ignores prompt-caching cache_control markers', () => {
+    const withCacheControl: ClaudeMessagesRequest = {
+      ...baseRequest,
+      system: [
+        { type: 'text', text: 'Classify the message.', cache_control: { type: 'ephemeral' } },
+      ],
+    }
+
+    expect(hashRequestForCache(withCacheControl)).toBe(hashRequestForCache(baseRequest))
+  })
+
+  test('changes with anything that affects the response', () => {
+    const baseHash = hashRequestForCache(baseRequest)
+
+    expect(hashRequestForCache({ ...baseRequest, model: 'claude-sonnet-4-5' })).not.toBe(baseHash)
+    expect(hashRequestForCache({ ...baseRequest, max_tokens: 512 })).not.toBe(baseHash)
+    expect(
+      hashRequestForCache({
+        ...baseRequest,
+        messages: [
+          {
+            role: 'user',
+            content: 'Is this a new topic?<system-reminder>Today is Monday</system-reminder>',
+          },
+        ],
+      })
+    ).not.toBe(baseHash)
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, test, expect } from 'bun:test'
+import { normalizeClientUserId, validateUserMapping } from '../user-attribution'
+
+describe('normalizeClientUserId', () => {
+  test('reduces Claude Code user IDs to the per-user hash', () => {
+    expect(
+      normalizeClientUserId(
+        'user_3f9a0c1d_account_6a1e2b7c-0d4f-4e1a-9a51-1b2c3d4e5f60_session_8c7d6e5f-4a3b-2c1d-0e9f-8a7b6c5d4e3f'
+      )
+    ).toBe('user_3f9a0c1d')
+  })
+
+  test('keeps other identifiers as sent', () => {
+    expect(normalizeClientUserId('  ci-runner-42 ')).toBe('ci-runner-42')
+  })
+
+  test('returns null without a usable user ID', () => {
+    expect(normalizeClientUserId(undefined)).toBeNull()
+    expect(normalizeClientUserId('   ')).toBeNull()
+    expect(normalizeClientUserId(42)).toBeNull()
+  })
+})
+
+describe('validateUserMapping', () => {
+  test('accepts a client user ID and an email', () => {
+    expect(validateUserMapping('user_3f9a0c1d', 'dev@example.com')).toEqual({ valid: true })
+  })
+
+  test('rejects a missing client user ID or an invalid email', () => {
+    expect(validateUserMapping('', 'dev@example.com').valid).toBe(false)
+    expect(validateUserMapping('user_3f9a0c1d', 'not-an-email').valid).toBe(false)
+    expect(validateUserMapping('x'.repeat(256), 'dev@example.com').valid).toBe(false)
+  })
+})
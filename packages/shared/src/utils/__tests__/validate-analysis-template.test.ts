@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'bun:test'
+import { validateAnalysisTemplate } from '../validate-analysis-template'
+
+describe('validateAnalysisTemplate', () => {
+  test('accepts instructions with and without an output schema', () => {
+    expect(validateAnalysisTemplate({ instructions: 'Review the code changes.' }).valid).toBe(true)
+    expect(
+      validateAnalysisTemplate({
+        instructions: 'Review the code changes.',
+        output_schema: {
+          type: 'object',
+          properties: {
+            riskLevel: { type: 'string', enum: ['low', 'medium', 'high'] },
+            testCoverage: { type: 'integer', minimum: 0, maximum: 100 },
+            touchedModules: { type: 'array', items: { type: 'string' } },
+            review: {
+              type: 'object',
+              properties: { approved: { type: 'boolean' }, notes: { type: 'string' } },
+              required: ['approved'],
+            },
+          },
+          required: ['riskLevel'],
+        },
+      }).valid
+    ).toBe(true)
+  })
+
+  test('rejects empty and oversized instructions', () => {
+    expect(validateAnalysisTemplate({ instructions: '   ' }).valid).toBe(false)
+    expect(validateAnalysisTemplate({ instructions: 'x'.repeat(20001) }).valid).toBe(false)
+  })
+
+  test('rejects schemas outside the supported subset', () => {
+    const invalid = (output_schema: unknown) =>
+      validateAnalysisTemplate({
+        instructions: 'Analyze.',
+        output_schema: output_schema as never,
+      })
+
+    expect(invalid({ type: 'array', items: { type: 'string' } }).valid).toBe(false)
+    expect(invalid({ type: 'object', properties: {} }).valid).toBe(false)
+    expect(invalid({ type: 'object', properties: { x: { type: 'date' } } }).error).toBe(
+      'output_schema.properties.x.type must be one of: string, number, integer, boolean, array, object'
+    )
+    expect(invalid({ type: 'object', properties: { 'bad name': { type: 'string' } } }).valid).toBe(
+      false
+    )
+    expect(
+      invalid({ type: 'object', properties: { x: { type: 'number', enum: ['a'] } } }).valid
+    ).toBe(false)
+    expect(
+      invalid({ type: 'object', properties: { x: { type: 'number', minimum: 5, maximum: 1 } } })
+        .valid
+    ).toBe(false)
+    expect(invalid({ type: 'object', properties: { x: { type: 'array' } } }).error).toBe(
+      'output_schema.properties.x.items must be an object'
+    )
+    expect(
+      invalid({ type: 'object', properties: { x: { type: 'string' } }, required: ['y'] }).error
+    ).toBe('output_schema.required lists unknown field "y"')
+  })
+
+  test('rejects deeply nested schemas', () => {
+    let field: unknown = { type: 'string' }
+    for (let i = 0; i < 5; i++) {
+      field = { type: 'array', items: field }
+    }
+    expect(
+      validateAnalysisTemplate({
+        instructions: 'Analyze.',
+        output_schema: { type: 'object', properties: { x: field } } as never,
+      }).valid
+    ).toBe(false)
+  })
+})
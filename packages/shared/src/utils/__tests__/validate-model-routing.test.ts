@@ -0,0 +1,52 @@
+import { describe, test, expect } from 'bun:test'
+import { validateModelRoutingPolicy } from '../validate-model-routing'
+
+describe('validateModelRoutingPolicy', () => {
+  test('accepts null (clears the policy)', () => {
+    expect(validateModelRoutingPolicy(null)).toEqual({ valid: true, policy: null })
+  })
+
+  test('applies defaults', () => {
+    expect(validateModelRoutingPolicy({})).toEqual({
+      valid: true,
+      policy: { allowed_models: [], rules: [] },
+    })
+  })
+
+  test('accepts rules whose targets are allowed', () => {
+    const result = validateModelRoutingPolicy({
+      allowed_models: ['claude-opus-*', 'claude-sonnet-*'],
+      rules: [
+        { match: 'claude-opus-4-0', prefer: 'claude-opus-4-1', fallbacks: ['claude-sonnet-4-5'] },
+      ],
+    })
+    expect(result.valid).toBe(true)
+  })
+
+  test('rejects a non-object', () => {
+    expect(validateModelRoutingPolicy(['claude-opus-*']).valid).toBe(false)
+  })
+
+  test('rejects a rule without match', () => {
+    const result = validateModelRoutingPolicy({ rules: [{ prefer: 'claude-sonnet-4-5' }] })
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('rules.0.match')
+  })
+
+  test('rejects targets outside allowed_models', () => {
+    const result = validateModelRoutingPolicy({
+      allowed_models: ['claude-sonnet-*'],
+      rules: [{ match: 'claude-opus-*', fallbacks: ['claude-haiku-4-5'] }],
+    })
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('rules.0.fallbacks.0')
+  })
+
+  test('rejects pattern targets', () => {
+    const result = validateModelRoutingPolicy({
+      rules: [{ match: 'claude-opus-*', prefer: 'claude-sonnet-*' }],
+    })
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('rules.0.prefer')
+  })
+})
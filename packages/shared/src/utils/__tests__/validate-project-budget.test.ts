@@ -0,0 +1,41 @@
+import { describe, test, expect } from 'bun:test'
+import { validateProjectBudget } from '../validate-project-budget'
+
+describe('validateProjectBudget', () => {
+  test('accepts an empty update', () => {
+    expect(validateProjectBudget({})).toEqual({ valid: true })
+  })
+
+  test('accepts null budgets (clears them)', () => {
+    expect(validateProjectBudget({ daily_budget_usd: null, monthly_budget_usd: null })).toEqual({
+      valid: true,
+    })
+  })
+
+  test('accepts zero and positive budgets', () => {
+    expect(
+      validateProjectBudget({
+        daily_budget_usd: 0,
+        monthly_budget_usd: 250.5,
+        budget_alert_threshold: 1,
+      })
+    ).toEqual({ valid: true })
+  })
+
+  test('rejects negative budgets', () => {
+    const result = validateProjectBudget({ monthly_budget_usd: -1 })
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('monthly_budget_usd')
+  })
+
+  test('rejects non-numeric budgets', () => {
+    const result = validateProjectBudget({ daily_budget_usd: '10' as unknown as number })
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('daily_budget_usd')
+  })
+
+  test('rejects alert thresholds outside (0, 1]', () => {
+    expect(validateProjectBudget({ budget_alert_threshold: 0 }).valid).toBe(false)
+    expect(validateProjectBudget({ budget_alert_threshold: 1.5 }).valid).toBe(false)
+  })
+})
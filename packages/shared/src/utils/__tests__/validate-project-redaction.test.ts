@@ -0,0 +1,94 @@
+import { describe, test, expect } from 'bun:test'
+import { isBacktrackingProne, validateProjectRedaction } from '../validate-project-redaction'
+
+describe('validateProjectRedaction', () => {
+  test('accepts named custom patterns', () => {
+    expect(
+      validateProjectRedaction({
+        redaction_enabled: true,
+        redaction_patterns: [
+          { name: 'customer-id', pattern: 'CUST-\\d{6}' },
+          { name: 'ticket', pattern: '[A-Z]+-\\d+' },
+        ],
+      }).valid
+    ).toBe(true)
+    expect(validateProjectRedaction({ redaction_enabled: false }).valid).toBe(true)
+    expect(validateProjectRedaction({}).valid).toBe(true)
+  })
+
+  test('rejects invalid and empty-matching patterns', () => {
+    const invalid = validateProjectRedaction({
+      redaction_patterns: [{ name: 'broken', pattern: '(unclosed' }],
+    })
+    expect(invalid.valid).toBe(false)
+    expect(invalid.error).toStartWith('0.pattern:')
+
+    expect(
+      validateProjectRedaction({ redaction_patterns: [{ name: 'everything', pattern: '.*' }] })
+        .valid
+    ).toBe(false)
+    expect(
+      validateProjectRedaction({ redaction_patterns: [{ name: 'empty', pattern: '' }] }).valid
+    ).toBe(false)
+  })
+
+  test('rejects names that cannot appear in a placeholder', () => {
+    for (const name of ['', 'Customer', 'has space', 'x'.repeat(33), 'a]b']) {
+      expect(
+        validateProjectRedaction({ redaction_patterns: [{ name, pattern: 'secret' }] }).valid
+      ).toBe(false)
+    }
+  })
+
+  test('rejects non-boolean flags and too many patterns', () => {
+    expect(validateProjectRedaction({ redaction_enabled: 'yes' as unknown as boolean }).valid).toBe(
+      false
+    )
+    expect(
+      validateProjectRedaction({
+        redaction_patterns: Array.from({ length: 21 }, (_, i) => ({
+          name: `p${i}`,
+          pattern: `value${i}`,
+        })),
+      }).valid
+    ).toBe(false)
+  })
+
+  test('rejects patterns that can backtrack catastrophically', () => {
+    const nested = validateProjectRedaction({
+      redaction_patterns: [{ name: 'nested', pattern: '(a+)+b' }],
+    })
+    expect(nested.valid).toBe(false)
+    expect(nested.error).toStartWith('0.pattern must not repeat')
+  })
+})
+
+describe('isBacktrackingProne', () => {
+  test('flags nested repeats and backreferences', () => {
+    for (const pattern of [
+      '(a+)+b',
+      '(?:\\w*\\s?)*$',
+      '((ab)*c)+',
+      '(x{2,})*',
+      '(a|b+){1,}',
+      '(\\w)\\1',
+      '(?<q>.)\\k<q>',
+    ]) {
+      expect(isBacktrackingProne(pattern)).toBe(true)
+    }
+  })
+
+  test('allows single-level repeats', () => {
+    for (const pattern of [
+      'CUST-\\d{6}',
+      '[A-Z]+-\\d+',
+      '(?:foo|bar)+',
+      '(ab{3})*',
+      '([+*(]+)x',
+      '\\(a+\\)+',
+      '\\b\\d{3}-\\d{4}\\b',
+    ]) {
+      expect(isBacktrackingProne(pattern)).toBe(false)
+    }
+  })
+})
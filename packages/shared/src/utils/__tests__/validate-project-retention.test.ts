@@ -0,0 +1,50 @@
+import { describe, test, expect } from 'bun:test'
+import { validateProjectRetention } from '../validate-project-retention'
+
+describe('validateProjectRetention', () => {
+  test('accepts body and metadata retention in days, or none', () => {
+    expect(
+      validateProjectRetention({ retention_body_days: 30, retention_metadata_days: 365 }).valid
+    ).toBe(true)
+    expect(
+      validateProjectRetention({ retention_body_days: 30, retention_metadata_days: null }).valid
+    ).toBe(true)
+    expect(
+      validateProjectRetention({ retention_body_days: null, retention_metadata_days: null }).valid
+    ).toBe(true)
+    expect(validateProjectRetention({}).valid).toBe(true)
+  })
+
+  test('rejects fractional, zero and out-of-range values', () => {
+    expect(validateProjectRetention({ retention_body_days: 1.5 }).valid).toBe(false)
+    expect(validateProjectRetention({ retention_body_days: 0 }).valid).toBe(false)
+    expect(validateProjectRetention({ retention_body_days: 4000 }).valid).toBe(false)
+    expect(validateProjectRetention({ retention_body_days: Number.NaN }).valid).toBe(false)
+  })
+
+  test('keeps metadata long enough for monthly budgets', () => {
+    const result = validateProjectRetention({
+      retention_body_days: 7,
+      retention_metadata_days: 14,
+    })
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('between 31')
+  })
+
+  test('requires metadata to outlive bodies', () => {
+    const result = validateProjectRetention({
+      retention_body_days: 90,
+      retention_metadata_days: 60,
+    })
+    expect(result).toEqual({
+      valid: false,
+      error: 'retention_metadata_days must be at least retention_body_days',
+    })
+  })
+
+  test('requires a body retention when metadata is purged', () => {
+    expect(
+      validateProjectRetention({ retention_body_days: null, retention_metadata_days: 365 }).valid
+    ).toBe(false)
+  })
+})
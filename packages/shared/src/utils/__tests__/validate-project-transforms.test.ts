@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'bun:test'
+import { validateProjectTransforms } from '../validate-project-transforms'
+
+describe('validateProjectTransforms', () => {
+  test('accepts an empty list', () => {
+    expect(validateProjectTransforms([])).toEqual({ valid: true, transforms: [] })
+  })
+
+  test('accepts every transform type', () => {
+    const result = validateProjectTransforms([
+      { type: 'prepend_system', blocks: [{ type: 'text', text: 'Policy' }] },
+      { type: 'append_system', blocks: [{ type: 'text', text: 'Be brief' }] },
+      { type: 'inject_tools', tools: [{ name: 'search', input_schema: { type: 'object' } }] },
+      { type: 'strip_tools', names: ['bash'] },
+      { type: 'max_tokens_ceiling', max_tokens: 4096 },
+      { type: 'rewrite_model', from: 'claude-opus-*', to: 'claude-sonnet-4-5' },
+      { type: 'redact_response', pattern: 'sk-[a-z0-9]+' },
+    ])
+    expect(result.valid).toBe(true)
+    expect(result.transforms).toHaveLength(7)
+  })
+
+  test('applies the default redaction replacement', () => {
+    const result = validateProjectTransforms([{ type: 'redact_response', pattern: 'secret' }])
+    expect(result.transforms?.[0]).toEqual({
+      type: 'redact_response',
+      pattern: 'secret',
+      replacement: '[REDACTED]',
+    })
+  })
+
+  test('rejects a non-array', () => {
+    expect(validateProjectTransforms({ type: 'strip_tools' }).valid).toBe(false)
+  })
+
+  test('rejects unknown transform types', () => {
+    const result = validateProjectTransforms([{ type: 'delete_everything' }])
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('0.type')
+  })
+
+  test('rejects a non-positive max_tokens ceiling', () => {
+    const result = validateProjectTransforms([
+      { type: 'strip_tools', names: ['bash'] },
+      { type: 'max_tokens_ceiling', max_tokens: 0 },
+    ])
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('1.max_tokens')
+  })
+
+  test('rejects invalid regular expressions and flags', () => {
+    const badPattern = validateProjectTransforms([{ type: 'redact_response', pattern: '([a-z' }])
+    expect(badPattern.valid).toBe(false)
+    expect(badPattern.error).toContain('0.pattern')
+
+    const badFlags = validateProjectTransforms([
+      { type: 'redact_response', pattern: 'secret', flags: 'g' },
+    ])
+    expect(badFlags.valid).toBe(false)
+    expect(badFlags.error).toContain('0.flags')
+  })
+})
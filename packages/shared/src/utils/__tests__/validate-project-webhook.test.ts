@@ -0,0 +1,95 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  isPrivateAddress,
+  validateProjectWebhook,
+  validateWebhookTarget,
+} from '../validate-project-webhook'
+
+describe('validateProjectWebhook', () => {
+  test('accepts an https URL with known events', () => {
+    expect(
+      validateProjectWebhook(' https://hooks.example.com/a ', ['request.error', 'budget.threshold'])
+    ).toEqual({
+      valid: true,
+      url: 'https://hooks.example.com/a',
+      events: ['request.error', 'budget.threshold'],
+    })
+  })
+
+  test('accepts a single event from a form field and no events at all', () => {
+    expect(
+      validateProjectWebhook('https://hooks.example.com', 'analysis.completed').events
+    ).toEqual(['analysis.completed'])
+    expect(validateProjectWebhook('https://hooks.example.com', undefined).events).toEqual([])
+  })
+
+  test('removes duplicate events', () => {
+    expect(
+      validateProjectWebhook('https://hooks.example.com', ['request.error', 'request.error']).events
+    ).toEqual(['request.error'])
+  })
+
+  test('rejects missing, malformed and non-http URLs', () => {
+    expect(validateProjectWebhook('', []).valid).toBe(false)
+    expect(validateProjectWebhook(undefined, []).valid).toBe(false)
+    expect(validateProjectWebhook('not a url', []).error).toBe('Webhook URL is not a valid URL')
+    expect(validateProjectWebhook('ftp://example.com', []).error).toBe(
+      'Webhook URL must use http or https'
+    )
+    expect(validateProjectWebhook(`https://example.com/${'a'.repeat(2048)}`, []).valid).toBe(false)
+  })
+
+  test('rejects unknown events', () => {
+    expect(validateProjectWebhook('https://hooks.example.com', ['request.error', 'nope'])).toEqual({
+      valid: false,
+      error: 'Unknown webhook event: nope',
+    })
+  })
+
+  test('rejects localhost and private IP addresses', () => {
+    for (const url of [
+      'http://localhost:9000',
+      'http://api.localhost',
+      'http://127.0.0.1:8080',
+      'http://0x7f000001',
+      'http://10.0.0.1',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]',
+      'http://[::ffff:127.0.0.1]',
+      'http://[fd00::1]',
+    ]) {
+      expect(validateProjectWebhook(url, []).error).toBe(
+        'Webhook URL must not point to a private, loopback or link-local address'
+      )
+    }
+  })
+})
+
+describe('isPrivateAddress', () => {
+  test('classifies addresses', () => {
+    for (const address of [
+      '192.168.1.1',
+      '172.16.0.1',
+      '100.64.0.1',
+      'fe80::1',
+      '64:ff9b::a00:1',
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true)
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address)).toBe(false)
+    }
+  })
+})
+
+describe('validateWebhookTarget', () => {
+  test('rejects hosts resolving to any private address', async () => {
+    const lookup = (hostname: string) =>
+      Promise.resolve(
+        hostname === 'rebind.example.com' ? ['93.184.216.34', '127.0.0.1'] : ['93.184.216.34']
+      )
+
+    expect((await validateWebhookTarget('https://hooks.example.com/a', lookup)).valid).toBe(true)
+    expect((await validateWebhookTarget('https://rebind.example.com', lookup)).valid).toBe(false)
+  })
+})
@@ -0,0 +1,220 @@
+import { BlockList, isIP } from 'net'
+import {
+  API_KEY_ENDPOINTS,
+  type ApiKeyEndpoint,
+  type ApiKeyScopes,
+} from '../types/api-key-scopes.js'
+import { matchesModelPattern } from '../types/model-routing.js'
+
+interface ValidationResult {
+  valid: boolean
+  error?: string
+  /** Parsed values of the scope fields present in the input */
+  scopes?: Partial<ApiKeyScopes>
+}
+
+const MAX_LIST_ENTRIES = 50
+const MAX_REQUESTS_LIMIT = 2_147_483_647 // INTEGER
+const MAX_TOKENS_LIMIT = Number.MAX_SAFE_INTEGER
+
+/**
+ * Lists come as arrays (JSON API) or comma/newline separated text (forms).
+ * Empty lists are stored as NULL, i.e. unrestricted.
+ */
+function parseList(value: unknown): string[] | null {
+  const items = Array.isArray(value)
+    ? value.map(item => String(item))
+    : typeof value === 'string'
+      ? value.split(/[\s,]+/)
+      : []
+  const list = [...new Set(items.map(item => item.trim()).filter(Boolean))]
+  return list.length > 0 ? list : null
+}
+
+function parseLimit(
+  field: string,
+  value: unknown,
+  max: number
+): { value: number | null } | { error: string } {
+  if (value === null || value === '') {
+    return { value: null }
+  }
+  const limit = typeof value === 'string' ? Number(value.trim()) : value
+  if (typeof limit !== 'number' || !Number.isInteger(limit)) {
+    return { error: `${field} must be a whole number or empty` }
+  }
+  if (limit < 1 || limit > max) {
+    return { error: `${field} must be between 1 and ${max}` }
+  }
+  return { value: limit }
+}
+
+function parseCidr(entry: string): { address: string; prefix: number | null } | null {
+  const [address, prefixText, ...rest] = entry.split('/')
+  const version = isIP(address)
+  if (!version || rest.length > 0) {
+    return null
+  }
+  if (prefixText === undefined) {
+    return { address, prefix: null }
+  }
+  const prefix = Number(prefixText)
+  const maxPrefix = version === 4 ? 32 : 128
+  if (!/^\d+$/.test(prefixText) || prefix > maxPrefix) {
+    return null
+  }
+  return { address, prefix }
+}
+
+/**
+ * Validate the scope fields present in `input`. Blank values clear a scope.
+ */
+export function validateApiKeyScopes(
+  input: Partial<Record<keyof ApiKeyScopes, unknown>>,
+  now = new Date()
+): ValidationResult {
+  const scopes: Partial<ApiKeyScopes> = {}
+
+  if (input.expires_at !== undefined) {
+    const value = input.expires_at
+    if (value === null || value === '') {
+      scopes.expires_at = null
+    } else {
+      const expiresAt =
+        value instanceof Date
+          ? value
+          : typeof value === 'string'
+            ? // Date inputs expire at the end of that day (UTC)
+              new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value)
+            : null
+      if (!expiresAt || isNaN(expiresAt.getTime())) {
+        return { valid: false, error: 'expires_at must be a date' }
+      }
+      if (expiresAt <= now) {
+        return { valid: false, error: 'expires_at must be in the future' }
+      }
+      scopes.expires_at = expiresAt
+    }
+  }
+
+  if (input.allowed_models !== undefined) {
+    const models = parseList(input.allowed_models)
+    if (models && models.length > MAX_LIST_ENTRIES) {
+      return { valid: false, error: `At most ${MAX_LIST_ENTRIES} allowed models` }
+    }
+    scopes.allowed_models = models
+  }
+
+  if (input.allowed_endpoints !== undefined) {
+    const endpoints = parseList(input.allowed_endpoints)
+    const unknown = endpoints?.find(
+      endpoint => !API_KEY_ENDPOINTS.includes(endpoint as ApiKeyEndpoint)
+    )
+    if (unknown !== undefined) {
+      return { valid: false, error: `Unknown endpoint: ${unknown}` }
+    }
+    scopes.allowed_endpoints = endpoints as ApiKeyEndpoint[] | null
+  }
+
+  const limits: Array<['rate_limit_max_requests' | 'rate_limit_max_tokens', number]> = [
+    ['rate_limit_max_requests', MAX_REQUESTS_LIMIT],
+    ['rate_limit_max_tokens', MAX_TOKENS_LIMIT],
+  ]
+  for (const [field, max] of limits) {
+    if (input[field] === undefined) {
+      continue
+    }
+    const result = parseLimit(field, input[field], max)
+    if ('error' in result) {
+      return { valid: false, error: result.error }
+    }
+    scopes[field] = result.value
+  }
+
+  if (input.ip_allowlist !== undefined) {
+    const entries = parseList(input.ip_allowlist)
+    if (entries && entries.length > MAX_LIST_ENTRIES) {
+      return { valid: false, error: `At most ${MAX_LIST_ENTRIES} IP allowlist entries` }
+    }
+    const invalid = entries?.find(entry => !parseCidr(entry))
+    if (invalid !== undefined) {
+      return { valid: false, error: `Invalid IP address or CIDR range: ${invalid}` }
+    }
+    scopes.ip_allowlist = entries
+  }
+
+  return { valid: true, scopes }
+}
+
+/**
+ * Whether `ip` is in one of the allowlist's addresses or CIDR ranges.
+ * IPv4-mapped IPv6 addresses match IPv4 entries.
+ */
+export function isIpAllowed(ip: string, allowlist: readonly string[]): boolean {
+  const version = isIP(ip)
+  if (!version) {
+    return false
+  }
+
+  const blockList = new BlockList()
+  for (const entry of allowlist) {
+    const cidr = parseCidr(entry)
+    if (!cidr) {
+      continue
+    }
+    const type = isIP(cidr.address) === 4 ? 'ipv4' : 'ipv6'
+    if (cidr.prefix === null) {
+      blockList.addAddress(cidr.address, type)
+    } else {
+      blockList.addSubnet(cidr.address, cidr.prefix, type)
+    }
+  }
+  return blockList.check(ip, version === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Client address of a request. X-Forwarded-For is only read behind
+ * `trustedProxyHops` trusted proxies, each of which appends the address it
+ * received the request from; entries before those were sent by the client and
+ * are ignored. Without trusted proxies the socket address is used.
+ */
+export function resolveClientIp(
+  forwardedFor: string | undefined,
+  socketAddress: string | null,
+  trustedProxyHops: number
+): string | null {
+  if (trustedProxyHops > 0 && forwardedFor) {
+    const hops = forwardedFor
+      .split(',')
+      .map(hop => hop.trim())
+      .filter(Boolean)
+    if (hops.length > 0) {
+      return hops[Math.max(0, hops.length - trustedProxyHops)]
+    }
+  }
+  return socketAddress
+}
+
+/**
+ * The scoped endpoint a proxy path belongs to; null for other endpoints,
+ * which keys with an endpoint scope cannot call
+ */
+export function apiKeyEndpointForPath(path: string): ApiKeyEndpoint | null {
+  if (path === '/v1/messages') {
+    return 'messages'
+  }
+  if (path === '/v1/messages/count_tokens') {
+    return 'count_tokens'
+  }
+  if (path === '/v1/chat/completions') {
+    return 'chat_completions'
+  }
+  return path.startsWith('/model/') ? 'bedrock' : null
+}
+
+/**
+ * Whether a key's model scope allows `model` (exact names, or prefixes ending in `*`)
+ */
+export function isApiKeyModelAllowed(allowedModels: readonly string[] | null, model: string) {
+  return !allowedModels || allowedModels.some(pattern => matchesModelPattern(pattern, model))
+}
@@ -0,0 +1,30 @@
+import type { AuditChanges } from '../types/audit-events.js'
+
+/**
+ * Fields that differ between `before` and `after`, compared as JSON.
+ * Only keys present in `after` are considered, so partial updates diff cleanly.
+ *
+ * @returns null when nothing changed
+ */
+export function diffAuditChanges(
+  before: object | null | undefined,
+  after: object,
+  fields?: readonly string[]
+): AuditChanges | null {
+  const previous = (before ?? {}) as Record<string, unknown>
+  const next = after as Record<string, unknown>
+  const changes: AuditChanges = {}
+
+  for (const field of fields ?? Object.keys(next)) {
+    if (!(field in next)) {
+      continue
+    }
+    const beforeValue = previous[field] ?? null
+    const afterValue = next[field] ?? null
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue }
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null
+}
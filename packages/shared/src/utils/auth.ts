@@ -2,6 +2,64 @@
  * Authentication and authorization utilities
  */
 
+import {
+  PROJECT_MEMBER_ROLES,
+  type ProjectAccess,
+  type ProjectMemberRole,
+  type ProjectPermission,
+} from '../types/project-members.js'
+
+const ROLE_PERMISSIONS: Record<ProjectMemberRole, readonly ProjectPermission[]> = {
+  owner: [
+    'project.view',
+    'project.use',
+    'project.manage',
+    'conversations.read',
+    'prompts.read',
+    'usage.read',
+  ],
+  member: ['project.view', 'project.use', 'conversations.read', 'prompts.read', 'usage.read'],
+  viewer: ['project.view', 'conversations.read'],
+  billing: ['project.view', 'usage.read'],
+}
+
+/** What every authenticated non-member may read in a public project */
+const PUBLIC_PROJECT_PERMISSIONS: readonly ProjectPermission[] = [
+  'project.view',
+  'conversations.read',
+  'prompts.read',
+  'usage.read',
+]
+
+export function isProjectMemberRole(value: unknown): value is ProjectMemberRole {
+  return PROJECT_MEMBER_ROLES.includes(value as ProjectMemberRole)
+}
+
+/**
+ * Project roles that grant a permission
+ */
+export function getRolesWithPermission(permission: ProjectPermission): ProjectMemberRole[] {
+  return PROJECT_MEMBER_ROLES.filter(role => ROLE_PERMISSIONS[role].includes(permission))
+}
+
+/**
+ * Whether a user with the given project access holds a permission.
+ * Organization admins hold every permission on every project. A member's role
+ * is final; only non-members get the public project permissions.
+ */
+export function hasProjectPermission(
+  access: ProjectAccess,
+  permission: ProjectPermission
+): boolean {
+  if (access.isOrgAdmin) {
+    return true
+  }
+  if (access.role) {
+    return ROLE_PERMISSIONS[access.role].includes(permission)
+  }
+  return !access.isPrivate && PUBLIC_PROJECT_PERMISSIONS.includes(permission)
+}
+
 /**
  * Normalize email address for consistent comparison
  * - Converts to lowercase
@@ -47,6 +105,48 @@ export function getProjectPrivacyFilter(projectAlias = 'p', memberAlias = 'pm'):
   return `(${projectAlias}.is_private = false OR ${memberAlias}.user_email IS NOT NULL)`
 }
 
+/**
+ * SQL fragment filtering projects to those where the user holds a permission:
+ * public projects where the user is not a member (for permissions everyone has
+ * there), projects where the user's role grants it, and every project for
+ * organization admins.
+ * Requires the project_members join from getProjectMemberJoin.
+ *
+ * @param permission - The permission to filter on
+ * @param userEmailParam - The SQL parameter placeholder for user email (e.g., '$3')
+ * @param projectAlias - The alias used for the projects table (default: 'p')
+ * @param memberAlias - The alias used for the project_members table (default: 'pm')
+ * @returns SQL WHERE clause fragment
+ *
+ * @example
+ * const query = `
+ *   SELECT * FROM api_requests ar
+ *   JOIN projects p ON ar.project_id = p.project_id
+ *   ${getProjectMemberJoin('$1')}
+ *   WHERE ${getProjectPermissionFilter('conversations.read', '$1')}
+ * `;
+ */
+export function getProjectPermissionFilter(
+  permission: ProjectPermission,
+  userEmailParam: string,
+  projectAlias = 'p',
+  memberAlias = 'pm'
+): string {
+  assertPgPlaceholder(userEmailParam)
+  const roles = getRolesWithPermission(permission)
+    .map(role => `'${role}'`)
+    .join(', ')
+  // Never NULL, so the fragment can also be negated
+  const conditions = [
+    `(${memberAlias}.role IS NOT NULL AND ${memberAlias}.role IN (${roles}))`,
+    `EXISTS (SELECT 1 FROM org_admins oa WHERE oa.user_email = LOWER(${userEmailParam}))`,
+  ]
+  if (PUBLIC_PROJECT_PERMISSIONS.includes(permission)) {
+    conditions.unshift(`(${projectAlias}.is_private = false AND ${memberAlias}.role IS NULL)`)
+  }
+  return `(${conditions.join(' OR ')})`
+}
+
 /**
  * SQL fragment for joining project_members table for privacy checks
  *
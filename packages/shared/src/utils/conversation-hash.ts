@@ -7,12 +7,13 @@
  * - hashMessagesOnly: Wrapper around ConversationLinker.computeMessageHash
  * - extractMessageHashes: Dual hash system for conversation tracking
  * - generateConversationId: UUID generation for new conversations
+ * - hashRequestForCache: Exact request hash used as the response cache key
  *
  * Test-only functions have been moved to test-utilities/conversation-hash-test-utils.ts
  */
 
 import { createHash } from 'crypto'
-import type { ClaudeMessage } from '../types/claude.js'
+import type { ClaudeMessage, ClaudeMessagesRequest } from '../types/claude.js'
 import { stripSystemReminder } from './system-reminder.js'
 import { ConversationLinker } from './conversation-linker.js'
 
@@ -260,6 +261,50 @@ export function hashSystemPrompt(system?: string | any[]): string | null {
   return createHash('sha256').update(stableSystemContent, 'utf8').digest('hex')
 }
 
+// Request fields that do not change the generated response
+const CACHE_KEY_IGNORED_FIELDS = new Set(['stream', 'metadata'])
+
+/**
+ * Canonical form of a request value for hashing: object keys are sorted and
+ * prompt-caching `cache_control` markers are dropped (they change cost, not output)
+ */
+function canonicalizeForCache(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalizeForCache)
+  }
+  if (value && typeof value === 'object') {
+    const canonical: Record<string, unknown> = {}
+    for (const key of Object.keys(value).sort()) {
+      if (key !== 'cache_control') {
+        canonical[key] = canonicalizeForCache((value as Record<string, unknown>)[key])
+      }
+    }
+    return canonical
+  }
+  return value
+}
+
+/**
+ * Hashes everything in a Messages API request that determines the response,
+ * for use as a response cache key. Unlike the conversation hashes this is
+ * exact: system reminders and environment details are kept, since they can
+ * change the answer.
+ * @param request - The request as it will be forwarded upstream
+ * @returns A SHA-256 hex digest
+ */
+export function hashRequestForCache(request: ClaudeMessagesRequest): string {
+  const relevant: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(request)) {
+    if (value !== undefined && !CACHE_KEY_IGNORED_FIELDS.has(key)) {
+      relevant[key] = value
+    }
+  }
+
+  return createHash('sha256')
+    .update(JSON.stringify(canonicalizeForCache(relevant)), 'utf8')
+    .digest('hex')
+}
+
 /**
  * Extracts the current and parent conversation state hashes (dual hash system)
  *
@@ -0,0 +1,182 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { readFileSync } from 'fs'
+import { config } from '../config/index.js'
+
+/**
+ * Envelope encryption for credential secrets stored in the database
+ * (OAuth access/refresh tokens and Bedrock API keys).
+ *
+ * Each value is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is wrapped with the master key (AES-256-GCM). Stored values look like
+ * `enc:v1:<master key id>:<wrapped data key>:<ciphertext>`, so values encrypted
+ * with a previous master key stay readable while keys are rotated.
+ */
+
+const ENCRYPTED_PREFIX = 'enc:v1:'
+const ALGORITHM = 'aes-256-gcm'
+const KEY_BYTES = 32
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+export class CredentialEncryptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CredentialEncryptionError'
+  }
+}
+
+interface MasterKey {
+  id: string
+  key: Buffer
+}
+
+export interface CredentialKeyring {
+  /** Key used for new values; null when encryption is not configured */
+  current: MasterKey | null
+  /** Current and previous keys by id, for decryption */
+  keys: Map<string, MasterKey>
+}
+
+/**
+ * Parse a 32-byte master key given as base64 or hex
+ */
+export function parseMasterKey(value: string): Buffer {
+  const trimmed = value.trim()
+  const key = /^[0-9a-f]{64}$/i.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64')
+  if (key.length !== KEY_BYTES) {
+    throw new CredentialEncryptionError(
+      `Credential encryption keys must be ${KEY_BYTES} bytes, encoded as base64 or hex`
+    )
+  }
+  return key
+}
+
+function toMasterKey(value: string): MasterKey {
+  const key = parseMasterKey(value)
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key }
+}
+
+/**
+ * Build a keyring from the current master key and any previous keys that
+ * existing values may still be encrypted with
+ */
+export function createCredentialKeyring(
+  currentKey?: string,
+  previousKeys: string[] = []
+): CredentialKeyring {
+  const current = currentKey ? toMasterKey(currentKey) : null
+  const keys = new Map<string, MasterKey>()
+  for (const masterKey of [
+    ...(current ? [current] : []),
+    ...previousKeys.filter(Boolean).map(toMasterKey),
+  ]) {
+    keys.set(masterKey.id, masterKey)
+  }
+  return { current, keys }
+}
+
+/**
+ * Load the keyring from CREDENTIAL_ENCRYPTION_KEY (or CREDENTIAL_ENCRYPTION_KEY_FILE)
+ * and CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS
+ */
+export function loadCredentialKeyring(): CredentialKeyring {
+  const { key, keyFile, previousKeys } = config.credentialEncryption
+  const currentKey = key || (keyFile ? readFileSync(keyFile, 'utf-8').trim() : '')
+  return createCredentialKeyring(currentKey || undefined, previousKeys)
+}
+
+let activeKeyring: CredentialKeyring | undefined
+
+function getKeyring(): CredentialKeyring {
+  activeKeyring ??= loadCredentialKeyring()
+  return activeKeyring
+}
+
+/**
+ * Replace the keyring used by the query layer (scripts and tests).
+ * Passing nothing reloads it from the environment on next use.
+ */
+export function setCredentialKeyring(keyring?: CredentialKeyring): void {
+  activeKeyring = keyring
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX)
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): Buffer {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  cipher.setAAD(Buffer.from(aad))
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+}
+
+function open(key: Buffer, sealed: Buffer, aad: string): Buffer {
+  const iv = sealed.subarray(0, IV_BYTES)
+  const tag = sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES)
+  const decipher = createDecipheriv(ALGORITHM, key, iv)
+  decipher.setAAD(Buffer.from(aad))
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()])
+}
+
+/**
+ * Encrypt a secret with the current master key. Without a configured key the
+ * value is returned unchanged, so deployments can opt in.
+ */
+export function encryptSecret(plaintext: string, keyring = getKeyring()): string {
+  const masterKey = keyring.current
+  if (!masterKey || isEncryptedSecret(plaintext)) {
+    return plaintext
+  }
+
+  const header = `${ENCRYPTED_PREFIX}${masterKey.id}`
+  const dataKey = randomBytes(KEY_BYTES)
+  const wrappedKey = seal(masterKey.key, dataKey, header)
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, 'utf-8'), header)
+  return `${header}:${wrappedKey.toString('base64')}:${ciphertext.toString('base64')}`
+}
+
+/**
+ * Decrypt a value written by encryptSecret. Plain-text values from before
+ * encryption was enabled are returned unchanged.
+ */
+export function decryptSecret(value: string, keyring = getKeyring()): string {
+  if (!isEncryptedSecret(value)) {
+    return value
+  }
+
+  const [keyId, wrappedKey, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':')
+  if (!keyId || !wrappedKey || !ciphertext) {
+    throw new CredentialEncryptionError('Malformed encrypted credential value')
+  }
+
+  const masterKey = keyring.keys.get(keyId)
+  if (!masterKey) {
+    throw new CredentialEncryptionError(
+      `Credential is encrypted with unknown key ${keyId}; set CREDENTIAL_ENCRYPTION_KEY or add it to CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS`
+    )
+  }
+
+  const header = `${ENCRYPTED_PREFIX}${keyId}`
+  try {
+    const dataKey = open(masterKey.key, Buffer.from(wrappedKey, 'base64'), header)
+    return open(dataKey, Buffer.from(ciphertext, 'base64'), header).toString('utf-8')
+  } catch {
+    throw new CredentialEncryptionError(`Failed to decrypt credential encrypted with key ${keyId}`)
+  }
+}
+
+/**
+ * Whether a stored value should be (re-)encrypted with the current master key:
+ * plain-text values and values encrypted with a previous key
+ */
+export function needsReencryption(value: string, keyring = getKeyring()): boolean {
+  if (!keyring.current) {
+    return false
+  }
+  return !value.startsWith(`${ENCRYPTED_PREFIX}${keyring.current.id}:`)
+}
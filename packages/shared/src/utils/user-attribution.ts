@@ -0,0 +1,54 @@
+interface ValidationResult {
+  valid: boolean
+  error?: string
+}
+
+const MAX_IDENTIFIER_LENGTH = 255
+
+/** Group key for requests without an attributed user in per-user usage views */
+export const UNATTRIBUTED_USER = 'unattributed'
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/
+
+/**
+ * Claude Code sends `user_<hash>_account_<uuid>_session_<uuid>`; only the
+ * `user_<hash>` part identifies the person across sessions
+ */
+const CLAUDE_CODE_USER_ID_PATTERN = /^(user_[0-9a-f]+)_account_/i
+
+/**
+ * Reduce a request's `metadata.user_id` to the part that is stable per user.
+ * Identifiers in other formats are kept as sent (truncated to the column size).
+ *
+ * @returns null when the request carries no user ID
+ */
+export function normalizeClientUserId(userId: unknown): string | null {
+  if (typeof userId !== 'string' || !userId.trim()) {
+    return null
+  }
+
+  const trimmed = userId.trim()
+  const match = trimmed.match(CLAUDE_CODE_USER_ID_PATTERN)
+  return (match ? match[1] : trimmed).slice(0, MAX_IDENTIFIER_LENGTH)
+}
+
+/**
+ * Validate a client user ID → email mapping
+ */
+export function validateUserMapping(clientUserId: unknown, userEmail: unknown): ValidationResult {
+  if (typeof clientUserId !== 'string' || !clientUserId.trim()) {
+    return { valid: false, error: 'Client user ID is required' }
+  }
+  if (clientUserId.trim().length > MAX_IDENTIFIER_LENGTH) {
+    return {
+      valid: false,
+      error: `Client user ID must be at most ${MAX_IDENTIFIER_LENGTH} characters`,
+    }
+  }
+  if (typeof userEmail !== 'string' || !EMAIL_PATTERN.test(userEmail.trim())) {
+    return { valid: false, error: 'A valid email address is required' }
+  }
+  if (userEmail.trim().length > MAX_IDENTIFIER_LENGTH) {
+    return { valid: false, error: `Email must be at most ${MAX_IDENTIFIER_LENGTH} characters` }
+  }
+  return { valid: true }
+}
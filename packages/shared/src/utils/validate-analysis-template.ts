@@ -0,0 +1,136 @@
+import {
+  ANALYSIS_FIELD_TYPES,
+  type CreateAnalysisTemplateRequest,
+} from '../types/analysis-templates.js'
+
+const MAX_INSTRUCTIONS_LENGTH = 20000
+const MAX_PROPERTIES = 30
+const MAX_DEPTH = 4
+const FIELD_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/
+
+interface ValidationResult {
+  valid: boolean
+  error?: string
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateProperties(
+  path: string,
+  properties: unknown,
+  required: unknown,
+  depth: number
+): string | null {
+  if (!isRecord(properties)) {
+    return `${path}.properties must be an object`
+  }
+  const names = Object.keys(properties)
+  if (names.length === 0 || names.length > MAX_PROPERTIES) {
+    return `${path}.properties must define 1-${MAX_PROPERTIES} fields`
+  }
+  for (const name of names) {
+    if (!FIELD_NAME_REGEX.test(name)) {
+      return `${path}.properties.${name}: names must be letters, digits or '_' and start with a letter or '_'`
+    }
+    const error = validateField(`${path}.properties.${name}`, properties[name], depth + 1)
+    if (error) {
+      return error
+    }
+  }
+
+  if (required !== undefined) {
+    if (!Array.isArray(required)) {
+      return `${path}.required must be an array`
+    }
+    const missing = required.find(name => typeof name !== 'string' || !(name in properties))
+    if (missing !== undefined) {
+      return `${path}.required lists unknown field ${JSON.stringify(missing)}`
+    }
+  }
+  return null
+}
+
+function validateField(path: string, field: unknown, depth: number): string | null {
+  if (!isRecord(field)) {
+    return `${path} must be an object`
+  }
+  if (depth > MAX_DEPTH) {
+    return `${path} is nested deeper than ${MAX_DEPTH} levels`
+  }
+
+  const type = field.type
+  if (!ANALYSIS_FIELD_TYPES.includes(type as (typeof ANALYSIS_FIELD_TYPES)[number])) {
+    return `${path}.type must be one of: ${ANALYSIS_FIELD_TYPES.join(', ')}`
+  }
+  if (field.description !== undefined && typeof field.description !== 'string') {
+    return `${path}.description must be a string`
+  }
+
+  if (field.enum !== undefined) {
+    if (type !== 'string') {
+      return `${path}.enum is only supported on string fields`
+    }
+    if (
+      !Array.isArray(field.enum) ||
+      field.enum.length === 0 ||
+      field.enum.some(value => typeof value !== 'string')
+    ) {
+      return `${path}.enum must be a non-empty array of strings`
+    }
+  }
+
+  for (const bound of ['minimum', 'maximum'] as const) {
+    if (field[bound] === undefined) {
+      continue
+    }
+    if (type !== 'number' && type !== 'integer') {
+      return `${path}.${bound} is only supported on number and integer fields`
+    }
+    if (typeof field[bound] !== 'number' || !Number.isFinite(field[bound])) {
+      return `${path}.${bound} must be a number`
+    }
+  }
+  if (
+    typeof field.minimum === 'number' &&
+    typeof field.maximum === 'number' &&
+    field.minimum > field.maximum
+  ) {
+    return `${path}.minimum must not be greater than maximum`
+  }
+
+  if (type === 'array') {
+    return validateField(`${path}.items`, field.items, depth + 1)
+  }
+  if (type === 'object') {
+    return validateProperties(path, field.properties, field.required, depth)
+  }
+  return null
+}
+
+export function validateAnalysisTemplate(
+  request: Pick<CreateAnalysisTemplateRequest, 'instructions' | 'output_schema'>
+): ValidationResult {
+  const instructions = request.instructions
+  if (typeof instructions !== 'string' || instructions.trim().length === 0) {
+    return { valid: false, error: 'instructions must be a non-empty string' }
+  }
+  if (instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+    return {
+      valid: false,
+      error: `instructions must be at most ${MAX_INSTRUCTIONS_LENGTH} characters`,
+    }
+  }
+
+  const schema: unknown = request.output_schema
+  if (schema === undefined || schema === null) {
+    return { valid: true }
+  }
+  if (!isRecord(schema) || schema.type !== 'object') {
+    return { valid: false, error: 'output_schema must be an object schema ("type": "object")' }
+  }
+
+  const error = validateProperties('output_schema', schema.properties, schema.required, 0)
+  return error ? { valid: false, error } : { valid: true }
+}
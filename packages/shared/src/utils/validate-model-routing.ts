@@ -0,0 +1,50 @@
+import {
+  ModelRoutingPolicySchema,
+  isModelAllowed,
+  type ModelRoutingPolicy,
+} from '../types/model-routing.js'
+
+interface ValidationResult {
+  valid: boolean
+  error?: string
+  /** The parsed policy, with defaults applied (null clears the policy) */
+  policy?: ModelRoutingPolicy | null
+}
+
+export function validateModelRoutingPolicy(value: unknown): ValidationResult {
+  if (value === null) {
+    return { valid: true, policy: null }
+  }
+
+  const result = ModelRoutingPolicySchema.safeParse(value)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''
+    return { valid: false, error: `${path}${issue.message}` }
+  }
+
+  const policy = result.data
+  for (let i = 0; i < policy.rules.length; i++) {
+    const rule = policy.rules[i]
+    const targets = [
+      ...(rule.prefer ? [{ path: 'prefer', model: rule.prefer }] : []),
+      ...rule.fallbacks.map((model, j) => ({ path: `fallbacks.${j}`, model })),
+    ]
+    for (const target of targets) {
+      if (target.model.endsWith('*')) {
+        return {
+          valid: false,
+          error: `rules.${i}.${target.path}: must be an exact model name, not a pattern`,
+        }
+      }
+      if (!isModelAllowed(policy, target.model)) {
+        return {
+          valid: false,
+          error: `rules.${i}.${target.path}: "${target.model}" is not in allowed_models`,
+        }
+      }
+    }
+  }
+
+  return { valid: true, policy }
+}
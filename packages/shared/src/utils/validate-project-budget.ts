@@ -0,0 +1,43 @@
+import type { UpdateProjectRequest } from '../types/credentials.js'
+
+const MAX_BUDGET_USD = 9_999_999_999.99 // DECIMAL(12,2)
+
+interface ValidationResult {
+  valid: boolean
+  error?: string
+}
+
+export function validateProjectBudget(
+  request: Pick<
+    UpdateProjectRequest,
+    'daily_budget_usd' | 'monthly_budget_usd' | 'budget_alert_threshold'
+  >
+): ValidationResult {
+  const budgets: Array<[string, number | null | undefined]> = [
+    ['daily_budget_usd', request.daily_budget_usd],
+    ['monthly_budget_usd', request.monthly_budget_usd],
+  ]
+  for (const [field, value] of budgets) {
+    if (value === null || value === undefined) {
+      continue
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return { valid: false, error: `${field} must be a number or null` }
+    }
+    if (value < 0 || value > MAX_BUDGET_USD) {
+      return { valid: false, error: `${field} must be between 0 and ${MAX_BUDGET_USD}` }
+    }
+  }
+
+  const threshold = request.budget_alert_threshold
+  if (threshold !== undefined) {
+    if (typeof threshold !== 'number' || !Number.isFinite(threshold)) {
+      return { valid: false, error: 'budget_alert_threshold must be a number' }
+    }
+    if (threshold <= 0 || threshold > 1) {
+      return { valid: false, error: 'budget_alert_threshold must be greater than 0 and at most 1' }
+    }
+  }
+
+  return { valid: true }
+}
@@ -0,0 +1,32 @@
+import type { UpdateProjectRequest } from '../types/credentials.js'
+
+const MAX_REQUESTS_LIMIT = 2_147_483_647 // INTEGER
+const MAX_TOKENS_LIMIT = Number.MAX_SAFE_INTEGER
+
+interface ValidationResult {
+  valid: boolean
+  error?: string
+}
+
+export function validateProjectRateLimits(
+  request: Pick<UpdateProjectRequest, 'rate_limit_max_requests' | 'rate_limit_max_tokens'>
+): ValidationResult {
+  const limits: Array<[string, number | null | undefined, number]> = [
+    ['rate_limit_max_requests', request.rate_limit_max_requests, MAX_REQUESTS_LIMIT],
+    ['rate_limit_max_tokens', request.rate_limit_max_tokens, MAX_TOKENS_LIMIT],
+  ]
+
+  for (const [field, value, max] of limits) {
+    if (value === null || value === undefined) {
+      continue
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      return { valid: false, error: `${field} must be a whole number or null` }
+    }
+    if (value < 1 || value > max) {
+      return { valid: false, error: `${field} must be between 1 and ${max}` }
+    }
+  }
+
+  return { valid: true }
+}
@@ -0,0 +1,160 @@
+import type { UpdateProjectRequest } from '../types/credentials.js'
+
+const MAX_PATTERNS = 20
+const MAX_PATTERN_LENGTH = 500
+const PATTERN_NAME_REGEX = /^[a-z0-9_-]{1,32}$/
+
+interface ValidationResult {
+  valid: boolean
+  error?: string
+}
+
+/**
+ * Length of the quantifier at `index` when it can repeat without bound or a
+ * variable number of times (`*`, `+`, `{n,}`, `{n,m}` with m > n), else 0
+ */
+function repeatingQuantifierLength(pattern: string, index: number): number {
+  const char = pattern[index]
+  if (char === '*' || char === '+') {
+    return 1
+  }
+  if (char !== '{') {
+    return 0
+  }
+  const match = /^\{(\d+),(\d*)\}/.exec(pattern.slice(index))
+  if (!match || (match[2] !== '' && Number(match[2]) <= Number(match[1]))) {
+    return 0
+  }
+  return match[0].length
+}
+
+/**
+ * Whether a pattern can backtrack catastrophically: a repeated group that
+ * itself contains a repeating quantifier (`(a+)+`, `(?:\w*\s?)*`) or a
+ * backreference. Regular expressions run against every stored body, so such
+ * patterns are rejected rather than run.
+ */
+export function isBacktrackingProne(pattern: string): boolean {
+  // Per open group: whether it contains a repeating quantifier
+  const groups: boolean[] = []
+  let closedGroupRepeats = false
+  let i = 0
+
+  while (i < pattern.length) {
+    const char = pattern[i]
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return true
+      }
+      i += 2
+      closedGroupRepeats = false
+      continue
+    }
+
+    if (char === '[') {
+      i++
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1
+      }
+      i++
+      closedGroupRepeats = false
+      continue
+    }
+
+    if (char === '(') {
+      groups.push(false)
+      i++
+      closedGroupRepeats = false
+      continue
+    }
+
+    if (char === ')') {
+      closedGroupRepeats = groups.pop() ?? false
+      if (closedGroupRepeats && groups.length > 0) {
+        groups[groups.length - 1] = true
+      }
+      i++
+      continue
+    }
+
+    const quantifierLength = repeatingQuantifierLength(pattern, i)
+    if (quantifierLength > 0) {
+      if (closedGroupRepeats) {
+        return true
+      }
+      if (groups.length > 0) {
+        groups[groups.length - 1] = true
+      }
+      i += quantifierLength
+      continue
+    }
+
+    i++
+    closedGroupRepeats = false
+  }
+
+  return false
+}
+
+export function validateProjectRedaction(
+  request: Pick<UpdateProjectRequest, 'redaction_enabled' | 'redaction_patterns'>
+): ValidationResult {
+  const enabled = request.redaction_enabled
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return { valid: false, error: 'redaction_enabled must be a boolean' }
+  }
+
+  const patterns = request.redaction_patterns
+  if (patterns === undefined) {
+    return { valid: true }
+  }
+  if (!Array.isArray(patterns)) {
+    return { valid: false, error: 'redaction_patterns must be an array' }
+  }
+  if (patterns.length > MAX_PATTERNS) {
+    return { valid: false, error: `redaction_patterns allows at most ${MAX_PATTERNS} patterns` }
+  }
+
+  for (let i = 0; i < patterns.length; i++) {
+    const { name, pattern } = (patterns[i] ?? {}) as { name?: unknown; pattern?: unknown }
+    if (typeof name !== 'string' || !PATTERN_NAME_REGEX.test(name)) {
+      return {
+        valid: false,
+        error: `${i}.name must be 1-32 lowercase letters, digits, '_' or '-'`,
+      }
+    }
+    if (typeof pattern !== 'string' || pattern.length === 0) {
+      return { valid: false, error: `${i}.pattern must be a non-empty string` }
+    }
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      return {
+        valid: false,
+        error: `${i}.pattern must be at most ${MAX_PATTERN_LENGTH} characters`,
+      }
+    }
+
+    let regex: RegExp
+    try {
+      regex = new RegExp(pattern)
+    } catch (error) {
+      return {
+        valid: false,
+        error: `${i}.pattern: ${error instanceof Error ? error.message : 'invalid regular expression'}`,
+      }
+    }
+    if (isBacktrackingProne(pattern)) {
+      return {
+        valid: false,
+        error: `${i}.pattern must not repeat a group that contains a repeat, or use backreferences`,
+      }
+    }
+
+    // A pattern matching the empty string would insert placeholders between every character
+    if (regex.test('')) {
+      return { valid: false, error: `${i}.pattern must not match an empty string` }
+    }
+  }
+
+  return { valid: true }
+}
@@ -0,0 +1,32 @@
+import type { UpdateProjectRequest } from '../types/credentials.js'
+
+const MAX_TTL_SECONDS = 86_400 // 1 day
+
+interface ValidationResult {
+  valid: boolean
+  error?: string
+}
+
+export function validateProjectResponseCache(
+  request: Pick<UpdateProjectRequest, 'response_cache_enabled' | 'response_cache_ttl_seconds'>
+): ValidationResult {
+  const enabled = request.response_cache_enabled
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return { valid: false, error: 'response_cache_enabled must be a boolean' }
+  }
+
+  const ttl = request.response_cache_ttl_seconds
+  if (ttl !== undefined) {
+    if (typeof ttl !== 'number' || !Number.isInteger(ttl)) {
+      return { valid: false, error: 'response_cache_ttl_seconds must be a whole number' }
+    }
+    if (ttl < 1 || ttl > MAX_TTL_SECONDS) {
+      return {
+        valid: false,
+        error: `response_cache_ttl_seconds must be between 1 and ${MAX_TTL_SECONDS}`,
+      }
+    }
+  }
+
+  return { valid: true }
+}
@@ -0,0 +1,47 @@
+import type { UpdateProjectRequest } from '../types/credentials.js'
+
+const MAX_RETENTION_DAYS = 3650 // 10 years
+/** Monthly budgets and usage charts read request rows from the current calendar month */
+export const MIN_METADATA_RETENTION_DAYS = 31
+
+interface ValidationResult {
+  valid: boolean
+  error?: string
+}
+
+export function validateProjectRetention(
+  request: Pick<UpdateProjectRequest, 'retention_body_days' | 'retention_metadata_days'>
+): ValidationResult {
+  const limits: Array<[string, number | null | undefined, number]> = [
+    ['retention_body_days', request.retention_body_days, 1],
+    ['retention_metadata_days', request.retention_metadata_days, MIN_METADATA_RETENTION_DAYS],
+  ]
+
+  for (const [field, value, min] of limits) {
+    if (value === null || value === undefined) {
+      continue
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      return { valid: false, error: `${field} must be a whole number of days or null` }
+    }
+    if (value < min || value > MAX_RETENTION_DAYS) {
+      return { valid: false, error: `${field} must be between ${min} and ${MAX_RETENTION_DAYS}` }
+    }
+  }
+
+  const { retention_body_days: bodyDays, retention_metadata_days: metadataDays } = request
+  if (typeof bodyDays === 'number' && typeof metadataDays === 'number' && metadataDays < bodyDays) {
+    return {
+      valid: false,
+      error: 'retention_metadata_days must be at least retention_body_days',
+    }
+  }
+  if (bodyDays === null && typeof metadataDays === 'number') {
+    return {
+      valid: false,
+      error: 'retention_body_days must be set when retention_metadata_days is set',
+    }
+  }
+
+  return { valid: true }
+}
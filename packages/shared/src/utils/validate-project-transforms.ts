@@ -0,0 +1,33 @@
+import { ProjectTransformsSchema, type ProjectTransform } from '../types/project-transforms.js'
+
+interface ValidationResult {
+  valid: boolean
+  error?: string
+  /** The parsed transforms, with defaults applied */
+  transforms?: ProjectTransform[]
+}
+
+export function validateProjectTransforms(value: unknown): ValidationResult {
+  const result = ProjectTransformsSchema.safeParse(value)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''
+    return { valid: false, error: `${path}${issue.message}` }
+  }
+
+  for (let i = 0; i < result.data.length; i++) {
+    const transform = result.data[i]
+    if (transform.type === 'redact_response') {
+      try {
+        new RegExp(transform.pattern, transform.flags)
+      } catch (error) {
+        return {
+          valid: false,
+          error: `${i}.pattern: ${error instanceof Error ? error.message : 'invalid regular expression'}`,
+        }
+      }
+    }
+  }
+
+  return { valid: true, transforms: result.data }
+}
@@ -0,0 +1,168 @@
+import { lookup } from 'dns/promises'
+import { isIPv4, isIPv6 } from 'net'
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from '../types/webhooks.js'
+
+interface ValidationResult {
+  valid: boolean
+  error?: string
+  url?: string
+  events?: WebhookEventType[]
+}
+
+const MAX_URL_LENGTH = 2048
+
+const PRIVATE_TARGET_ERROR =
+  'Webhook URL must not point to a private, loopback or link-local address'
+
+/** IPv4 ranges that are not publicly routable, as [network, prefix length] */
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  // Multicast and reserved
+  ['224.0.0.0', 3],
+]
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0)
+}
+
+function isPrivateIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address)
+  return PRIVATE_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix)
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size)
+  })
+}
+
+/** The eight 16-bit groups of an IPv6 address */
+function ipv6Groups(address: string): number[] {
+  let normalized = address.toLowerCase()
+  const embeddedIpv4 = /(\d+\.\d+\.\d+\.\d+)$/.exec(normalized)
+  if (embeddedIpv4) {
+    const value = ipv4ToNumber(embeddedIpv4[1])
+    normalized =
+      normalized.slice(0, embeddedIpv4.index) +
+      `${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`
+  }
+
+  const [head, tail] = normalized.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+  const zeros = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill('0')
+  return [...headGroups, ...zeros, ...tailGroups].map(group => parseInt(group, 16))
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, carrier-grade NAT,
+ * multicast or otherwise not publicly routable. IPv4-mapped and NAT64 IPv6
+ * addresses are judged by their IPv4 address.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (isIPv4(address)) {
+    return isPrivateIpv4(address)
+  }
+  if (!isIPv6(address)) {
+    return false
+  }
+
+  const groups = ipv6Groups(address)
+  const embeddedIpv4 = () =>
+    [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.')
+
+  // ::, ::1 and IPv4-compatible/-mapped addresses
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return groups[5] === 0 && groups[6] === 0 ? groups[7] <= 1 : isPrivateIpv4(embeddedIpv4())
+  }
+  // NAT64 (64:ff9b::/96)
+  if (
+    groups[0] === 0x64 &&
+    groups[1] === 0xff9b &&
+    groups.slice(2, 6).every(group => group === 0)
+  ) {
+    return isPrivateIpv4(embeddedIpv4())
+  }
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // Unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local
+    (groups[0] & 0xff00) === 0xff00 // Multicast
+  )
+}
+
+/** Host of a URL without the brackets around IPv6 literals */
+function urlHostname(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1')
+}
+
+/**
+ * Resolve a hostname to all of its addresses. IP literals resolve to themselves.
+ */
+export async function lookupHostAddresses(hostname: string): Promise<string[]> {
+  const entries = await lookup(hostname, { all: true, verbatim: true })
+  return entries.map(entry => entry.address)
+}
+
+/**
+ * Check that a webhook URL's host resolves only to public addresses, so
+ * endpoints cannot reach internal services. Run when a webhook is created and
+ * before every delivery; lookup failures are thrown.
+ */
+export async function validateWebhookTarget(
+  url: string,
+  lookupAddresses: (hostname: string) => Promise<string[]> = lookupHostAddresses
+): Promise<ValidationResult> {
+  const addresses = await lookupAddresses(urlHostname(new URL(url)))
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return { valid: false, error: PRIVATE_TARGET_ERROR }
+  }
+  return { valid: true }
+}
+
+/**
+ * Validate a webhook endpoint and its event subscriptions.
+ * Endpoints must be http(s) URLs that are not localhost or a private IP
+ * address; unknown event types are rejected. Hostnames are checked after DNS
+ * resolution by validateWebhookTarget.
+ */
+export function validateProjectWebhook(url: unknown, events: unknown): ValidationResult {
+  if (typeof url !== 'string' || !url.trim()) {
+    return { valid: false, error: 'Webhook URL is required' }
+  }
+
+  const trimmed = url.trim()
+  if (trimmed.length > MAX_URL_LENGTH) {
+    return { valid: false, error: `Webhook URL must be at most ${MAX_URL_LENGTH} characters` }
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(trimmed)
+  } catch {
+    return { valid: false, error: 'Webhook URL is not a valid URL' }
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return { valid: false, error: 'Webhook URL must use http or https' }
+  }
+  const hostname = urlHostname(parsed).toLowerCase()
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+    return { valid: false, error: PRIVATE_TARGET_ERROR }
+  }
+
+  const eventList = events === undefined ? [] : Array.isArray(events) ? events : [events]
+  const unknown = eventList.find(event => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType))
+  if (unknown !== undefined) {
+    return { valid: false, error: `Unknown webhook event: ${String(unknown)}` }
+  }
+
+  return {
+    valid: true,
+    url: trimmed,
+    events: [...new Set(eventList as WebhookEventType[])],
+  }
+}
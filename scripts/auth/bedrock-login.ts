@@ -1,5 +1,6 @@
 #!/usr/bin/env bun
 import { Pool } from 'pg'
+import { encryptSecret } from '../../packages/shared/src/utils/credential-encryption.js'
 
 const BEDROCK_API_KEY_URL =
   'https://us-east-1.console.aws.amazon.com/bedrock/home?region=us-east-1#/api-keys/long-term/create'
@@ -50,7 +51,7 @@ async function createBedrockCredential(
         aws_api_key, aws_region
       ) VALUES ($1, $2, 'bedrock', $3, $4)
       RETURNING id, account_id, account_name, provider, aws_region, created_at`,
-      [data.account_id, data.account_name, data.aws_api_key, data.aws_region]
+      [data.account_id, data.account_name, encryptSecret(data.aws_api_key), data.aws_region]
     )
 
     await client.query('COMMIT')
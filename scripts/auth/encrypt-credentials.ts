@@ -0,0 +1,107 @@
+#!/usr/bin/env bun
+import { Pool } from 'pg'
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  loadCredentialKeyring,
+  needsReencryption,
+} from '../../packages/shared/src/utils/credential-encryption.js'
+
+const SECRET_COLUMNS = ['oauth_access_token', 'oauth_refresh_token', 'aws_api_key'] as const
+
+type CredentialSecrets = { id: string; account_id: string } & Record<
+  (typeof SECRET_COLUMNS)[number],
+  string | null
+>
+
+/**
+ * Encrypt plain-text credential secrets with CREDENTIAL_ENCRYPTION_KEY and
+ * re-encrypt secrets still using a key from CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS.
+ * Run after rotating the key; once it reports nothing left to re-encrypt, the
+ * previous keys can be removed.
+ */
+async function encryptCredentials() {
+  const dryRun = process.argv.includes('--dry-run')
+
+  console.log('Credential Encryption Tool')
+  console.log('==========================')
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes will be made)' : 'LIVE'}\n`)
+
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const keyring = loadCredentialKeyring()
+  if (!keyring.current) {
+    console.error('CREDENTIAL_ENCRYPTION_KEY (or CREDENTIAL_ENCRYPTION_KEY_FILE) is required')
+    process.exit(1)
+  }
+
+  console.log(`Current key: ${keyring.current.id}`)
+  console.log(`Keys available for decryption: ${[...keyring.keys.keys()].join(', ')}\n`)
+
+  const pool = new Pool({ connectionString: databaseUrl })
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const result = await client.query<CredentialSecrets>(
+      `SELECT id, account_id, ${SECRET_COLUMNS.join(', ')} FROM credentials ORDER BY account_id FOR UPDATE`
+    )
+
+    let updated = 0
+    for (const row of result.rows) {
+      const pending = SECRET_COLUMNS.filter(column => {
+        const value = row[column]
+        return value !== null && needsReencryption(value, keyring)
+      })
+      if (pending.length === 0) {
+        console.log(`  ✓ ${row.account_id}: up to date`)
+        continue
+      }
+
+      const values = SECRET_COLUMNS.map(column => {
+        const value = row[column]
+        return value !== null && pending.includes(column)
+          ? encryptSecret(decryptSecret(value, keyring), keyring)
+          : value
+      })
+      const action = pending.some(column => isEncryptedSecret(row[column] ?? ''))
+        ? 're-encrypting'
+        : 'encrypting'
+      console.log(`  → ${row.account_id}: ${action} ${pending.join(', ')}`)
+
+      if (!dryRun) {
+        await client.query(
+          `
+          UPDATE credentials
+          SET ${SECRET_COLUMNS.map((column, index) => `${column} = $${index + 2}`).join(', ')},
+              updated_at = NOW()
+          WHERE id = $1
+          `,
+          [row.id, ...values]
+        )
+      }
+      updated++
+    }
+
+    await client.query(dryRun ? 'ROLLBACK' : 'COMMIT')
+
+    console.log(
+      `\n${dryRun ? 'Would update' : 'Updated'} ${updated} of ${result.rows.length} credential(s)`
+    )
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Failed to encrypt credentials:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  } finally {
+    client.release()
+    await pool.end()
+  }
+}
+
+encryptCredentials()
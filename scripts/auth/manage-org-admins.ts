@@ -0,0 +1,95 @@
+#!/usr/bin/env bun
+
+/**
+ * Grant, revoke and list organization admins
+ *
+ * Organization admins can see and manage every project in the dashboard and
+ * read all project data through the dashboard API, whatever their project roles.
+ *
+ * Usage:
+ *   bun run scripts/auth/manage-org-admins.ts --list
+ *   bun run scripts/auth/manage-org-admins.ts --add <email>
+ *   bun run scripts/auth/manage-org-admins.ts --remove <email>
+ *
+ * Requires DATABASE_URL environment variable.
+ */
+
+import { Pool } from 'pg'
+import {
+  addOrgAdmin,
+  listOrgAdmins,
+  removeOrgAdmin,
+} from '@agent-prompttrain/shared/database/queries'
+
+function printHelp(): void {
+  console.log(`
+Manage Organization Admins
+
+Usage:
+  bun run scripts/auth/manage-org-admins.ts --list             List organization admins
+  bun run scripts/auth/manage-org-admins.ts --add <email>      Grant organization admin rights
+  bun run scripts/auth/manage-org-admins.ts --remove <email>   Revoke organization admin rights
+  bun run scripts/auth/manage-org-admins.ts --help             Show this help message
+
+Requires DATABASE_URL environment variable.
+`)
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const action = args[0]
+
+  if (!action || action === '--help' || action === '-h') {
+    printHelp()
+    process.exit(0)
+  }
+
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    if (action === '--list') {
+      const admins = await listOrgAdmins(pool)
+      if (admins.length === 0) {
+        console.log('\nNo organization admins.')
+        return
+      }
+      console.log(`\nOrganization admins (${admins.length}):`)
+      for (const admin of admins) {
+        console.log(
+          `  - ${admin.user_email} (added by ${admin.added_by} on ${admin.added_at.toISOString()})`
+        )
+      }
+      return
+    }
+
+    const email = args[1]
+    if ((action !== '--add' && action !== '--remove') || !email) {
+      printHelp()
+      process.exit(1)
+    }
+
+    if (action === '--add') {
+      const admin = await addOrgAdmin(pool, email, process.env.USER || 'cli')
+      console.log(`\n✅ ${admin.user_email} is an organization admin.`)
+    } else if (await removeOrgAdmin(pool, email)) {
+      console.log(`\n✅ ${email} is no longer an organization admin.`)
+    } else {
+      console.log(`\n${email} was not an organization admin.`)
+    }
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main()
+}
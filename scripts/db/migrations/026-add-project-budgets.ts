@@ -0,0 +1,176 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add spend budgets to projects table
+ *
+ * Adds optional daily and monthly USD budgets per project. The proxy estimates
+ * spend-to-date from api_requests using the model pricing table and:
+ * - sends a one-off Slack alert once spend crosses budget_alert_threshold
+ *   (fraction of the budget, default 0.80)
+ * - rejects new requests with a budget_exceeded error once the budget is spent
+ *
+ * The *_budget_alerted_at columns record when the soft alert was last sent, and
+ * *_budget_exceeded_alerted_at when the "budget reached" alert was, so that only
+ * one replica sends each alert per budget period.
+ *
+ * idx_api_requests_project_spend covers the spend-to-date aggregation (project,
+ * time range and token columns), so it is answered from the index alone.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    console.log('Adding budget columns to projects table...')
+
+    // Step 1: Add budget columns (idempotent)
+    await client.query(`
+      ALTER TABLE projects
+        ADD COLUMN IF NOT EXISTS daily_budget_usd DECIMAL(12,2),
+        ADD COLUMN IF NOT EXISTS monthly_budget_usd DECIMAL(12,2),
+        ADD COLUMN IF NOT EXISTS budget_alert_threshold DECIMAL(3,2) NOT NULL DEFAULT 0.80,
+        ADD COLUMN IF NOT EXISTS daily_budget_alerted_at TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS monthly_budget_alerted_at TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS daily_budget_exceeded_alerted_at TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS monthly_budget_exceeded_alerted_at TIMESTAMPTZ
+    `)
+    console.log('✓ Added budget columns')
+
+    // Step 2: Add constraints
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint WHERE conname = 'chk_projects_budgets_non_negative'
+        ) THEN
+          ALTER TABLE projects
+            ADD CONSTRAINT chk_projects_budgets_non_negative
+            CHECK (
+              (daily_budget_usd IS NULL OR daily_budget_usd >= 0)
+              AND (monthly_budget_usd IS NULL OR monthly_budget_usd >= 0)
+            );
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint WHERE conname = 'chk_projects_budget_alert_threshold'
+        ) THEN
+          ALTER TABLE projects
+            ADD CONSTRAINT chk_projects_budget_alert_threshold
+            CHECK (budget_alert_threshold > 0 AND budget_alert_threshold <= 1);
+        END IF;
+      END $$;
+    `)
+    console.log('✓ Added budget constraints')
+
+    // Step 3: Cover the spend aggregation (idempotent)
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_api_requests_project_spend
+      ON api_requests (project_id, timestamp)
+      INCLUDE (model, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens)
+    `)
+    console.log('✓ Added spend index')
+
+    // Step 4: Verify columns were added
+    const result = await client.query(`
+      SELECT column_name
+      FROM information_schema.columns
+      WHERE table_name = 'projects'
+        AND table_schema = 'public'
+        AND column_name IN ('daily_budget_usd', 'monthly_budget_usd', 'budget_alert_threshold')
+    `)
+
+    if (result.rows.length !== 3) {
+      throw new Error('Verification failed: budget columns not found in projects table')
+    }
+
+    console.log('✓ Verified columns exist')
+
+    await client.query('COMMIT')
+    console.log('✅ Budget columns added to projects table successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to add budget columns:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    console.log('Removing budget columns from projects table...')
+
+    await client.query('DROP INDEX IF EXISTS idx_api_requests_project_spend')
+    console.log('✓ Dropped spend index')
+
+    await client.query(`
+      ALTER TABLE projects
+        DROP CONSTRAINT IF EXISTS chk_projects_budgets_non_negative,
+        DROP CONSTRAINT IF EXISTS chk_projects_budget_alert_threshold
+    `)
+    console.log('✓ Dropped budget constraints')
+
+    await client.query(`
+      ALTER TABLE projects
+        DROP COLUMN IF EXISTS daily_budget_usd,
+        DROP COLUMN IF EXISTS monthly_budget_usd,
+        DROP COLUMN IF EXISTS budget_alert_threshold,
+        DROP COLUMN IF EXISTS daily_budget_alerted_at,
+        DROP COLUMN IF EXISTS monthly_budget_alerted_at,
+        DROP COLUMN IF EXISTS daily_budget_exceeded_alerted_at,
+        DROP COLUMN IF EXISTS monthly_budget_exceeded_alerted_at
+    `)
+    console.log('✓ Dropped budget columns')
+
+    await client.query('COMMIT')
+    console.log('✅ Budget columns removed from projects table successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove budget columns:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Main execution
+async function main() {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      console.error(`❌ Unknown action: ${action}. Use 'up' or 'down'`)
+      process.exit(1)
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  } finally {
+    await pool.end()
+  }
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  main()
+}
@@ -0,0 +1,127 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Move proxy rate limiting onto PostgreSQL.
+ *
+ * Adds rate_limit_windows, a shared counter table for the API-key and project
+ * request/token limiters (one row per limiter key and fixed window; the proxy
+ * combines the current and previous window into a sliding-window estimate),
+ * and optional per-project limit overrides on projects.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS rate_limit_windows (
+        limiter_key VARCHAR(255) NOT NULL,
+        window_start TIMESTAMPTZ NOT NULL,
+        requests INTEGER NOT NULL DEFAULT 0 CHECK (requests >= 0),
+        tokens BIGINT NOT NULL DEFAULT 0 CHECK (tokens >= 0),
+        expires_at TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (limiter_key, window_start)
+      )
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_rate_limit_windows_expires
+      ON rate_limit_windows (expires_at)
+    `)
+
+    await client.query(`
+      ALTER TABLE projects
+        ADD COLUMN IF NOT EXISTS rate_limit_max_requests INTEGER,
+        ADD COLUMN IF NOT EXISTS rate_limit_max_tokens BIGINT
+    `)
+
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint
+          WHERE conname = 'projects_rate_limit_max_requests_check'
+        ) THEN
+          ALTER TABLE projects
+            ADD CONSTRAINT projects_rate_limit_max_requests_check
+            CHECK (rate_limit_max_requests IS NULL OR rate_limit_max_requests > 0);
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint
+          WHERE conname = 'projects_rate_limit_max_tokens_check'
+        ) THEN
+          ALTER TABLE projects
+            ADD CONSTRAINT projects_rate_limit_max_tokens_check
+            CHECK (rate_limit_max_tokens IS NULL OR rate_limit_max_tokens > 0);
+        END IF;
+      END $$
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Distributed rate limit schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create distributed rate limit schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('DROP TABLE IF EXISTS rate_limit_windows')
+    await client.query(`
+      ALTER TABLE projects
+        DROP CONSTRAINT IF EXISTS projects_rate_limit_max_requests_check,
+        DROP CONSTRAINT IF EXISTS projects_rate_limit_max_tokens_check,
+        DROP COLUMN IF EXISTS rate_limit_max_requests,
+        DROP COLUMN IF EXISTS rate_limit_max_tokens
+    `)
+    await client.query('COMMIT')
+    console.log('✅ Distributed rate limit schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove distributed rate limit schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,145 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add the opt-in response cache for deterministic requests.
+ *
+ * Projects can enable a cache of non-streaming, temperature-0 responses keyed
+ * on a canonical hash of the request. Cached responses live in response_cache
+ * until their TTL expires; requests served from the cache are flagged on
+ * api_requests together with the tokens they would have consumed.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      ALTER TABLE projects
+        ADD COLUMN IF NOT EXISTS response_cache_enabled BOOLEAN NOT NULL DEFAULT false,
+        ADD COLUMN IF NOT EXISTS response_cache_ttl_seconds INTEGER NOT NULL DEFAULT 300
+    `)
+
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint
+          WHERE conname = 'projects_response_cache_ttl_seconds_check'
+        ) THEN
+          ALTER TABLE projects
+            ADD CONSTRAINT projects_response_cache_ttl_seconds_check
+            CHECK (response_cache_ttl_seconds > 0 AND response_cache_ttl_seconds <= 86400);
+        END IF;
+      END $$
+    `)
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS response_cache (
+        project_id VARCHAR(255) NOT NULL,
+        cache_key CHAR(64) NOT NULL,
+        model VARCHAR(255) NOT NULL,
+        response_body JSONB NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+        hit_count INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (project_id, cache_key)
+      )
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_response_cache_expires
+      ON response_cache (expires_at)
+    `)
+
+    await client.query(`
+      ALTER TABLE api_requests
+        ADD COLUMN IF NOT EXISTS response_cache_hit BOOLEAN NOT NULL DEFAULT false,
+        ADD COLUMN IF NOT EXISTS response_cache_saved_input_tokens INTEGER,
+        ADD COLUMN IF NOT EXISTS response_cache_saved_output_tokens INTEGER,
+        ADD COLUMN IF NOT EXISTS response_cache_saved_cache_read_tokens INTEGER
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_api_requests_response_cache_hits
+      ON api_requests (project_id, timestamp)
+      WHERE response_cache_hit = true
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Response cache schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create response cache schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('DROP INDEX IF EXISTS idx_api_requests_response_cache_hits')
+    await client.query(`
+      ALTER TABLE api_requests
+        DROP COLUMN IF EXISTS response_cache_hit,
+        DROP COLUMN IF EXISTS response_cache_saved_input_tokens,
+        DROP COLUMN IF EXISTS response_cache_saved_output_tokens,
+        DROP COLUMN IF EXISTS response_cache_saved_cache_read_tokens
+    `)
+    await client.query('DROP TABLE IF EXISTS response_cache')
+    await client.query(`
+      ALTER TABLE projects
+        DROP CONSTRAINT IF EXISTS projects_response_cache_ttl_seconds_check,
+        DROP COLUMN IF EXISTS response_cache_enabled,
+        DROP COLUMN IF EXISTS response_cache_ttl_seconds
+    `)
+    await client.query('COMMIT')
+    console.log('✅ Response cache schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove response cache schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
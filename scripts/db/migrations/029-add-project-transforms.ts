@@ -0,0 +1,87 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add per-project request/response transforms.
+ *
+ * projects.transforms holds an ordered JSON list of declarative transforms
+ * (system block insertion, tool injection/stripping, max_tokens ceilings,
+ * model rewrites, response redaction) applied by the proxy. The transforms
+ * that changed a request are recorded in api_requests.applied_transforms.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      ALTER TABLE projects
+        ADD COLUMN IF NOT EXISTS transforms JSONB NOT NULL DEFAULT '[]'::jsonb
+    `)
+
+    await client.query(`
+      ALTER TABLE api_requests
+        ADD COLUMN IF NOT EXISTS applied_transforms JSONB
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Project transforms schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create project transforms schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('ALTER TABLE api_requests DROP COLUMN IF EXISTS applied_transforms')
+    await client.query('ALTER TABLE projects DROP COLUMN IF EXISTS transforms')
+    await client.query('COMMIT')
+    console.log('✅ Project transforms schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove project transforms schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
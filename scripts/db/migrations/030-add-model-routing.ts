@@ -0,0 +1,92 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add per-project model routing policies.
+ *
+ * projects.model_routing holds the allowed models, preferred-model rules and
+ * fallbacks used when the account pool is exhausted. The model a client
+ * requested and the reason it was rerouted are recorded on api_requests
+ * (api_requests.model keeps the model that was actually forwarded).
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      ALTER TABLE projects
+        ADD COLUMN IF NOT EXISTS model_routing JSONB
+    `)
+
+    await client.query(`
+      ALTER TABLE api_requests
+        ADD COLUMN IF NOT EXISTS requested_model VARCHAR(100),
+        ADD COLUMN IF NOT EXISTS routing_reason TEXT
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Model routing schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create model routing schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query(`
+      ALTER TABLE api_requests
+        DROP COLUMN IF EXISTS routing_reason,
+        DROP COLUMN IF EXISTS requested_model
+    `)
+    await client.query('ALTER TABLE projects DROP COLUMN IF EXISTS model_routing')
+    await client.query('COMMIT')
+    console.log('✅ Model routing schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove model routing schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
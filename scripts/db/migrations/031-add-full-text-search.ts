@@ -0,0 +1,112 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add full-text search over stored requests.
+ *
+ * api_request_search_text() extracts the searchable text of a request: the
+ * newest user turn (prompt text and tool results) plus the assistant text,
+ * tool names and tool inputs of the response. Earlier messages are left out
+ * because every request repeats the whole history.
+ *
+ * A GIN expression index on its tsvector backs /api/search. The index is kept
+ * up to date by PostgreSQL, so the proxy writer does not change. Each part is
+ * truncated so that large tool inputs cannot exceed the tsvector size limit.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      CREATE OR REPLACE FUNCTION api_request_search_text(body JSONB, response_body JSONB)
+      RETURNS TEXT
+      LANGUAGE SQL
+      IMMUTABLE
+      PARALLEL SAFE
+      AS $$
+        SELECT COALESCE(LEFT(STRING_AGG(LEFT(part #>> '{}', 20000), E'\\n'), 200000), '')
+        FROM
+          (SELECT COALESCE(body, '{}'::jsonb) AS b, COALESCE(response_body, '{}'::jsonb) AS r) d,
+          jsonb_array_elements(
+            jsonb_path_query_array(b, '$.messages[last] ? (@.role == "user").content ? (@.type() == "string")')
+            || jsonb_path_query_array(b, '$.messages[last] ? (@.role == "user").content[*] ? (@.type == "text").text')
+            || jsonb_path_query_array(b, '$.messages[last] ? (@.role == "user").content[*] ? (@.type == "tool_result").content ? (@.type() == "string")')
+            || jsonb_path_query_array(b, '$.messages[last] ? (@.role == "user").content[*] ? (@.type == "tool_result").content[*] ? (@.type == "text").text')
+            || jsonb_path_query_array(r, '$.content[*] ? (@.type == "text").text')
+            || jsonb_path_query_array(r, '$.content[*] ? (@.type == "tool_use").name')
+            || jsonb_path_query_array(r, '$.content[*] ? (@.type == "tool_use").input')
+          ) AS part
+      $$
+    `)
+
+    console.log('Creating full-text search index on api_requests (this may take a while)...')
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_api_requests_search
+        ON api_requests
+        USING GIN (to_tsvector('english', api_request_search_text(body, response_body)))
+    `)
+
+    await client.query('COMMIT')
+
+    await pool.query('ANALYZE api_requests')
+    console.log('✅ Full-text search schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create full-text search schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('DROP INDEX IF EXISTS idx_api_requests_search')
+    await client.query('DROP FUNCTION IF EXISTS api_request_search_text(JSONB, JSONB)')
+    await client.query('COMMIT')
+    console.log('✅ Full-text search schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove full-text search schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
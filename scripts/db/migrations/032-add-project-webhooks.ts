@@ -0,0 +1,98 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add per-project outgoing webhooks.
+ *
+ * Each project_webhooks row is an endpoint that receives the subscribed event
+ * types (request errors, account pool exhaustion, OAuth refresh failures,
+ * analysis completion, budget thresholds) as JSON POSTs signed with its secret.
+ * The outcome of the latest delivery is kept on the row for the project page.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS project_webhooks (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        url TEXT NOT NULL,
+        secret VARCHAR(255) NOT NULL,
+        events TEXT[] NOT NULL DEFAULT '{}',
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        created_by VARCHAR(255),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_delivery_at TIMESTAMPTZ,
+        last_delivery_status INTEGER,
+        last_delivery_error TEXT
+      )
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_project_webhooks_project_id
+        ON project_webhooks(project_id)
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Project webhooks schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create project webhooks schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('DROP TABLE IF EXISTS project_webhooks')
+    await client.query('COMMIT')
+    console.log('✅ Project webhooks schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove project webhooks schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
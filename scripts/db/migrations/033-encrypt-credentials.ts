@@ -0,0 +1,140 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Encrypt stored credential secrets.
+ *
+ * Encrypts credentials.oauth_access_token, oauth_refresh_token and aws_api_key
+ * with CREDENTIAL_ENCRYPTION_KEY (envelope encryption, see
+ * packages/shared/src/utils/credential-encryption.ts). Values already encrypted
+ * with a previous key are re-encrypted with the current one. Without a key the
+ * migration makes no changes, so it can be re-run after encryption is enabled.
+ *
+ * `down` decrypts all values back to plain text.
+ */
+
+import { Pool, type PoolClient } from 'pg'
+import {
+  decryptSecret,
+  encryptSecret,
+  loadCredentialKeyring,
+  needsReencryption,
+  type CredentialKeyring,
+} from '../../../packages/shared/src/utils/credential-encryption.js'
+
+const SECRET_COLUMNS = ['oauth_access_token', 'oauth_refresh_token', 'aws_api_key'] as const
+
+type CredentialSecrets = { id: string } & Record<(typeof SECRET_COLUMNS)[number], string | null>
+
+async function rewriteSecrets(
+  client: PoolClient,
+  transform: (value: string) => string | null
+): Promise<number> {
+  const result = await client.query<CredentialSecrets>(
+    `SELECT id, ${SECRET_COLUMNS.join(', ')} FROM credentials FOR UPDATE`
+  )
+
+  let updated = 0
+  for (const row of result.rows) {
+    const values = SECRET_COLUMNS.map(column => {
+      const value = row[column]
+      return value === null ? null : transform(value)
+    })
+    if (values.every(value => value === null)) {
+      continue
+    }
+
+    await client.query(
+      `
+      UPDATE credentials
+      SET ${SECRET_COLUMNS.map((column, index) => `${column} = COALESCE($${index + 2}, ${column})`).join(', ')}
+      WHERE id = $1
+      `,
+      [row.id, ...values]
+    )
+    updated++
+  }
+  return updated
+}
+
+async function up(pool: Pool, keyring: CredentialKeyring = loadCredentialKeyring()): Promise<void> {
+  if (!keyring.current) {
+    console.log('ℹ️  CREDENTIAL_ENCRYPTION_KEY is not set, credentials are left unencrypted')
+    return
+  }
+
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const updated = await rewriteSecrets(client, value =>
+      needsReencryption(value, keyring)
+        ? encryptSecret(decryptSecret(value, keyring), keyring)
+        : null
+    )
+
+    await client.query('COMMIT')
+    console.log(`✅ Encrypted secrets of ${updated} credential(s)`)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to encrypt credentials:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(
+  pool: Pool,
+  keyring: CredentialKeyring = loadCredentialKeyring()
+): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const updated = await rewriteSecrets(client, value => {
+      const plaintext = decryptSecret(value, keyring)
+      return plaintext === value ? null : plaintext
+    })
+
+    await client.query('COMMIT')
+    console.log(`✅ Decrypted secrets of ${updated} credential(s)`)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to decrypt credentials:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
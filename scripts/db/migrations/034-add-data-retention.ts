@@ -0,0 +1,115 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add per-project data retention.
+ *
+ * projects.retention_body_days controls how long request/response bodies are
+ * kept; the proxy's purge job then clears them but keeps the request row, so
+ * token counts and usage charts are unaffected. projects.retention_metadata_days
+ * controls when request rows are deleted altogether. NULL keeps data forever.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      ALTER TABLE projects
+        ADD COLUMN IF NOT EXISTS retention_body_days INTEGER,
+        ADD COLUMN IF NOT EXISTS retention_metadata_days INTEGER,
+        ADD COLUMN IF NOT EXISTS retention_purged_at TIMESTAMPTZ
+    `)
+
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint
+          WHERE conname = 'projects_retention_days_check'
+        ) THEN
+          ALTER TABLE projects
+            ADD CONSTRAINT projects_retention_days_check
+            CHECK (
+              (retention_body_days IS NULL OR retention_body_days > 0) AND
+              (retention_metadata_days IS NULL OR retention_metadata_days > 0) AND
+              (retention_body_days IS NULL OR retention_metadata_days IS NULL OR
+                retention_metadata_days >= retention_body_days)
+            );
+        END IF;
+      END $$
+    `)
+
+    await client.query(`
+      ALTER TABLE api_requests
+        ADD COLUMN IF NOT EXISTS body_purged_at TIMESTAMPTZ
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Data retention schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create data retention schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('ALTER TABLE api_requests DROP COLUMN IF EXISTS body_purged_at')
+    await client.query(
+      'ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_retention_days_check'
+    )
+    await client.query(`
+      ALTER TABLE projects
+        DROP COLUMN IF EXISTS retention_purged_at,
+        DROP COLUMN IF EXISTS retention_metadata_days,
+        DROP COLUMN IF EXISTS retention_body_days
+    `)
+    await client.query('COMMIT')
+    console.log('✅ Data retention schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove data retention schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
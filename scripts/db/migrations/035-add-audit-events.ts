@@ -0,0 +1,106 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add the organization-wide audit log.
+ *
+ * audit_events records administrative actions taken through the dashboard and
+ * its API (projects, accounts, API keys, members, settings): who did it, what
+ * it targeted, the before/after values of changed fields and the dashboard
+ * request ID. project_id is the project's string ID without a foreign key, so
+ * events outlive deleted projects.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id BIGSERIAL PRIMARY KEY,
+        occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        actor VARCHAR(255) NOT NULL,
+        actor_source VARCHAR(50),
+        action VARCHAR(100) NOT NULL,
+        target_type VARCHAR(50) NOT NULL,
+        target_id VARCHAR(255),
+        project_id VARCHAR(255),
+        changes JSONB,
+        metadata JSONB,
+        request_id VARCHAR(64)
+      )
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_audit_events_occurred_at
+      ON audit_events (occurred_at DESC)
+    `)
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_audit_events_project
+      ON audit_events (project_id, occurred_at DESC)
+    `)
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_audit_events_actor
+      ON audit_events (actor, occurred_at DESC)
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Audit events schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create audit events schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('DROP TABLE IF EXISTS audit_events')
+    await client.query('COMMIT')
+    console.log('✅ Audit events schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove audit events schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
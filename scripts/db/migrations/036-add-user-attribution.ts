@@ -0,0 +1,113 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add per-user attribution of requests.
+ *
+ * api_requests.client_user_id keeps the client's user identifier
+ * (Claude Code's `metadata.user_id`, reduced to its stable `user_<hash>` part)
+ * and api_requests.user_email the resolved user: a project mapping of that
+ * client user ID, or else the creator of the API key the request was sent with.
+ * project_user_mappings holds the per-project client user ID → email mappings.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      ALTER TABLE api_requests
+      ADD COLUMN IF NOT EXISTS client_user_id VARCHAR(255),
+      ADD COLUMN IF NOT EXISTS user_email VARCHAR(255)
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_api_requests_user_email
+      ON api_requests (user_email, timestamp DESC)
+      WHERE user_email IS NOT NULL
+    `)
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_api_requests_client_user_id
+      ON api_requests (project_id, client_user_id)
+      WHERE client_user_id IS NOT NULL
+    `)
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS project_user_mappings (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        client_user_id VARCHAR(255) NOT NULL,
+        user_email VARCHAR(255) NOT NULL,
+        created_by VARCHAR(255),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT project_user_mappings_unique UNIQUE (project_id, client_user_id)
+      )
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ User attribution schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create user attribution schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('DROP TABLE IF EXISTS project_user_mappings')
+    await client.query('DROP INDEX IF EXISTS idx_api_requests_client_user_id')
+    await client.query('DROP INDEX IF EXISTS idx_api_requests_user_email')
+    await client.query(`
+      ALTER TABLE api_requests
+      DROP COLUMN IF EXISTS user_email,
+      DROP COLUMN IF EXISTS client_user_id
+    `)
+    await client.query('COMMIT')
+    console.log('✅ User attribution schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove user attribution schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
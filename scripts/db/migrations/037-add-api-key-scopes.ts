@@ -0,0 +1,121 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add scopes to project API keys.
+ *
+ * Every scope column is nullable and NULL leaves the key unrestricted:
+ * - expires_at: the key is rejected from this time on
+ * - allowed_models: requested models the key may use (exact names or `prefix*`)
+ * - allowed_endpoints: proxy endpoints the key may call (messages, count_tokens, bedrock)
+ * - rate_limit_max_requests / rate_limit_max_tokens: per-key limits for the
+ *   API key rate limiter window, instead of the RATE_LIMIT_* defaults
+ * - ip_allowlist: client IP addresses or CIDR ranges the key may be used from
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      ALTER TABLE project_api_keys
+        ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+        ADD COLUMN IF NOT EXISTS allowed_models TEXT[],
+        ADD COLUMN IF NOT EXISTS allowed_endpoints TEXT[],
+        ADD COLUMN IF NOT EXISTS rate_limit_max_requests INTEGER,
+        ADD COLUMN IF NOT EXISTS rate_limit_max_tokens BIGINT,
+        ADD COLUMN IF NOT EXISTS ip_allowlist TEXT[]
+    `)
+
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint
+          WHERE conname = 'project_api_keys_rate_limit_max_requests_check'
+        ) THEN
+          ALTER TABLE project_api_keys
+            ADD CONSTRAINT project_api_keys_rate_limit_max_requests_check
+            CHECK (rate_limit_max_requests IS NULL OR rate_limit_max_requests > 0);
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint
+          WHERE conname = 'project_api_keys_rate_limit_max_tokens_check'
+        ) THEN
+          ALTER TABLE project_api_keys
+            ADD CONSTRAINT project_api_keys_rate_limit_max_tokens_check
+            CHECK (rate_limit_max_tokens IS NULL OR rate_limit_max_tokens > 0);
+        END IF;
+      END $$
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ API key scope columns added successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to add API key scope columns:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query(`
+      ALTER TABLE project_api_keys
+        DROP CONSTRAINT IF EXISTS project_api_keys_rate_limit_max_tokens_check,
+        DROP CONSTRAINT IF EXISTS project_api_keys_rate_limit_max_requests_check,
+        DROP COLUMN IF EXISTS ip_allowlist,
+        DROP COLUMN IF EXISTS rate_limit_max_tokens,
+        DROP COLUMN IF EXISTS rate_limit_max_requests,
+        DROP COLUMN IF EXISTS allowed_endpoints,
+        DROP COLUMN IF EXISTS allowed_models,
+        DROP COLUMN IF EXISTS expires_at
+    `)
+    await client.query('COMMIT')
+    console.log('✅ API key scope columns removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove API key scope columns:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,100 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add viewer and billing project roles, and organization admins.
+ *
+ * - project_members.role additionally accepts 'viewer' (reads conversations only)
+ *   and 'billing' (reads costs and token usage only)
+ * - org_admins lists users who can see and manage every project
+ *
+ * Organization admins are granted with `bun run scripts/auth/manage-org-admins.ts`.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      ALTER TABLE project_members
+        DROP CONSTRAINT IF EXISTS project_members_role_check,
+        ADD CONSTRAINT project_members_role_check
+          CHECK (role IN ('owner', 'member', 'viewer', 'billing'))
+    `)
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS org_admins (
+        user_email VARCHAR(255) PRIMARY KEY,
+        added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        added_by VARCHAR(255) NOT NULL,
+        CONSTRAINT org_admins_email_lowercase CHECK (user_email = LOWER(user_email))
+      )
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Project roles and organization admins added successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to add project roles and organization admins:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('DROP TABLE IF EXISTS org_admins')
+    // Viewers and billing members lose access rather than being promoted
+    await client.query(`DELETE FROM project_members WHERE role IN ('viewer', 'billing')`)
+    await client.query(`
+      ALTER TABLE project_members
+        DROP CONSTRAINT IF EXISTS project_members_role_check,
+        ADD CONSTRAINT project_members_role_check CHECK (role IN ('owner', 'member'))
+    `)
+    await client.query('COMMIT')
+    console.log('✅ Project roles and organization admins removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove project roles and organization admins:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,93 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add per-project redaction of stored request/response bodies.
+ *
+ * When projects.redaction_enabled is set, the proxy replaces secrets, email
+ * addresses, phone numbers and the project's custom patterns
+ * (projects.redaction_patterns) with `[REDACTED:<kind>]` before storing
+ * bodies. api_requests.redactions records how many values of each kind were
+ * removed from the request.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      ALTER TABLE projects
+        ADD COLUMN IF NOT EXISTS redaction_enabled BOOLEAN NOT NULL DEFAULT false,
+        ADD COLUMN IF NOT EXISTS redaction_patterns JSONB NOT NULL DEFAULT '[]'::jsonb
+    `)
+
+    await client.query(`
+      ALTER TABLE api_requests
+        ADD COLUMN IF NOT EXISTS redactions JSONB
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Body redaction schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create body redaction schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('ALTER TABLE api_requests DROP COLUMN IF EXISTS redactions')
+    await client.query(`
+      ALTER TABLE projects
+        DROP COLUMN IF EXISTS redaction_patterns,
+        DROP COLUMN IF EXISTS redaction_enabled
+    `)
+    await client.query('COMMIT')
+    console.log('✅ Body redaction schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove body redaction schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,113 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add expiring read-only share links for conversations.
+ *
+ * Each conversation_shares row lets anyone holding its signed link read one
+ * branch of a conversation until it expires or is revoked, optionally with tool
+ * results hidden. Every view of a link is recorded in conversation_share_views.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS conversation_shares (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        conversation_id UUID NOT NULL,
+        branch_id VARCHAR(255) NOT NULL DEFAULT 'main',
+        redact_tool_results BOOLEAN NOT NULL DEFAULT false,
+        expires_at TIMESTAMPTZ NOT NULL,
+        created_by VARCHAR(255),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        revoked_at TIMESTAMPTZ,
+        revoked_by VARCHAR(255),
+        view_count INTEGER NOT NULL DEFAULT 0,
+        last_viewed_at TIMESTAMPTZ
+      )
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_conversation_shares_conversation_id
+        ON conversation_shares(conversation_id)
+    `)
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS conversation_share_views (
+        id BIGSERIAL PRIMARY KEY,
+        share_id UUID NOT NULL REFERENCES conversation_shares(id) ON DELETE CASCADE,
+        viewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        ip_address VARCHAR(64),
+        user_agent TEXT
+      )
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_conversation_share_views_share_id
+        ON conversation_share_views(share_id, viewed_at DESC)
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Conversation shares schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create conversation shares schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('DROP TABLE IF EXISTS conversation_share_views')
+    await client.query('DROP TABLE IF EXISTS conversation_shares')
+    await client.query('COMMIT')
+    console.log('✅ Conversation shares schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove conversation shares schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,117 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add tags, notes and bookmarks on conversations.
+ *
+ * A conversation_annotations row targets a whole conversation, one of its
+ * branches (branch_id) or a single request (request_id). Tags and notes keep
+ * their text in body; bookmarks are one star per user and target.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS conversation_annotations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        conversation_id UUID NOT NULL,
+        branch_id VARCHAR(255),
+        request_id UUID,
+        kind VARCHAR(16) NOT NULL CHECK (kind IN ('tag', 'note', 'bookmark')),
+        body TEXT,
+        created_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CHECK ((kind = 'bookmark') = (body IS NULL))
+      )
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_conversation_annotations_conversation_id
+        ON conversation_annotations(conversation_id, created_at)
+    `)
+
+    // Tag filters on the conversation and request lists
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_conversation_annotations_tags
+        ON conversation_annotations(body, conversation_id)
+        WHERE kind = 'tag'
+    `)
+
+    // A tag once per target, a bookmark once per target and user
+    await client.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_annotations_unique_tag
+        ON conversation_annotations(conversation_id, branch_id, request_id, body)
+        NULLS NOT DISTINCT
+        WHERE kind = 'tag'
+    `)
+
+    await client.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_annotations_unique_bookmark
+        ON conversation_annotations(conversation_id, branch_id, request_id, created_by)
+        NULLS NOT DISTINCT
+        WHERE kind = 'bookmark'
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Conversation annotations schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create conversation annotations schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('DROP TABLE IF EXISTS conversation_annotations')
+    await client.query('COMMIT')
+    console.log('✅ Conversation annotations schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove conversation annotations schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,113 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add per-call tool usage for tool analytics.
+ *
+ * One tool_calls row is written for every tool_use block of a stored response,
+ * with the MCP server of `mcp__<server>__<tool>` tools, the command of Bash
+ * calls and the file of edits. When the next request carries the matching
+ * tool_result, its error flag and size in tokens are filled in.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS tool_calls (
+        id BIGSERIAL PRIMARY KEY,
+        request_id UUID NOT NULL REFERENCES api_requests(request_id) ON DELETE CASCADE,
+        tool_use_id VARCHAR(255) NOT NULL,
+        project_id VARCHAR(255) NOT NULL,
+        user_email VARCHAR(255),
+        conversation_id UUID,
+        timestamp TIMESTAMPTZ NOT NULL,
+        tool_name VARCHAR(255) NOT NULL,
+        mcp_server VARCHAR(255),
+        command VARCHAR(255),
+        file_path TEXT,
+        result_is_error BOOLEAN,
+        result_tokens INTEGER,
+        result_at TIMESTAMPTZ,
+        CONSTRAINT tool_calls_request_tool_use_unique UNIQUE (request_id, tool_use_id)
+      )
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_tool_calls_project_timestamp
+        ON tool_calls(project_id, timestamp DESC)
+    `)
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_tool_calls_timestamp
+        ON tool_calls(timestamp DESC)
+    `)
+
+    // Results arrive with the next request and are matched by tool_use_id
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_tool_calls_pending_results
+        ON tool_calls(tool_use_id)
+        WHERE result_at IS NULL
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Tool calls schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create tool calls schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query('DROP TABLE IF EXISTS tool_calls')
+    await client.query('COMMIT')
+    console.log('✅ Tool calls schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove tool calls schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,115 @@
+#!/usr/bin/env bun
+
+/**
+ * Migration: Add project-specific analysis prompt templates.
+ *
+ * A project can replace the default analysis instructions with its own and
+ * ask for extra structured fields, described by a JSON Schema. Templates are
+ * versioned: saving creates a new version, projects.analysis_template_id
+ * points at the active one, and each conversation analysis records the
+ * template version and prompt version it was generated with, along with the
+ * validated custom fields.
+ */
+
+import { Pool } from 'pg'
+
+async function up(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS project_analysis_templates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        instructions TEXT NOT NULL,
+        output_schema JSONB,
+        created_by VARCHAR(255),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT project_analysis_templates_project_version_unique UNIQUE (project_id, version)
+      )
+    `)
+
+    // NULL keeps the default analysis prompt
+    await client.query(`
+      ALTER TABLE projects
+        ADD COLUMN IF NOT EXISTS analysis_template_id UUID
+          REFERENCES project_analysis_templates(id) ON DELETE SET NULL
+    `)
+
+    await client.query(`
+      ALTER TABLE conversation_analyses
+        ADD COLUMN IF NOT EXISTS template_id UUID
+          REFERENCES project_analysis_templates(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS template_version INTEGER,
+        ADD COLUMN IF NOT EXISTS prompt_version VARCHAR(50),
+        ADD COLUMN IF NOT EXISTS custom_fields JSONB
+    `)
+
+    await client.query('COMMIT')
+    console.log('✅ Analysis templates schema created successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to create analysis templates schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function down(pool: Pool): Promise<void> {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    await client.query(`
+      ALTER TABLE conversation_analyses
+        DROP COLUMN IF EXISTS custom_fields,
+        DROP COLUMN IF EXISTS prompt_version,
+        DROP COLUMN IF EXISTS template_version,
+        DROP COLUMN IF EXISTS template_id
+    `)
+    await client.query('ALTER TABLE projects DROP COLUMN IF EXISTS analysis_template_id')
+    await client.query('DROP TABLE IF EXISTS project_analysis_templates')
+    await client.query('COMMIT')
+    console.log('✅ Analysis templates schema removed successfully')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('❌ Failed to remove analysis templates schema:', error)
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL environment variable is required')
+    process.exit(1)
+  }
+
+  const pool = new Pool({ connectionString: databaseUrl })
+
+  try {
+    const action = process.argv[2] || 'up'
+    if (action === 'up') {
+      await up(pool)
+    } else if (action === 'down') {
+      await down(pool)
+    } else {
+      throw new Error(`Unknown action: ${action}. Use 'up' or 'down'`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
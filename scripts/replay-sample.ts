@@ -28,6 +28,7 @@
 import { promises as fs } from 'fs'
 import { Pool } from 'pg'
 import { config } from 'dotenv'
+import { decryptSecret, encryptSecret } from '../packages/shared/src/utils/credential-encryption.js'
 
 config()
 
@@ -114,7 +115,14 @@ async function getCredential(pool: Pool, accountName?: string): Promise<Credenti
       throw new Error('No Anthropic credentials found in the database')
     }
   }
-  return result.rows[0]
+  const credential = result.rows[0]
+  return {
+    ...credential,
+    oauth_access_token:
+      credential.oauth_access_token && decryptSecret(credential.oauth_access_token),
+    oauth_refresh_token:
+      credential.oauth_refresh_token && decryptSecret(credential.oauth_refresh_token),
+  }
 }
 
 async function ensureFreshToken(pool: Pool, credential: Credential): Promise<string> {
@@ -154,7 +162,7 @@ async function ensureFreshToken(pool: Pool, credential: Credential): Promise<str
      SET oauth_access_token = $2, oauth_refresh_token = $3, oauth_expires_at = $4,
          updated_at = NOW(), last_refresh_at = NOW()
      WHERE id = $1`,
-    [credential.id, newAccessToken, newRefreshToken, newExpiresAt]
+    [credential.id, encryptSecret(newAccessToken), encryptSecret(newRefreshToken), newExpiresAt]
   )
 
   console.log('Token refreshed successfully.')
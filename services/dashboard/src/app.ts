@@ -17,11 +17,17 @@ import { analyticsPartialRoutes } from './routes/partials/analytics.js'
 import { analyticsConversationPartialRoutes } from './routes/partials/analytics-conversation.js'
 import { csrfProtection } from './middleware/csrf.js'
 import { publicTokenUsageRoutes } from './routes/public-token-usage.js'
+import { publicConversationShareRoutes } from './routes/public-conversation-share.js'
+import { oidcAuthRoutes } from './routes/oidc-auth.js'
+import { getAlbOidcEnabled, getAlbOidcSignerArn, getOidcLoginConfig } from './config.js'
 import credentialsRoutes from './routes/credentials.js'
 import projectsRoutes from './routes/projects.js'
 import apiKeysRoutes from './routes/api-keys.js'
 import projectMembersRoutes from './routes/project-members.js'
-import { getProjectByProjectId, isProjectMember } from '@agent-prompttrain/shared/database/queries'
+import {
+  checkProjectPermission,
+  getProjectByProjectId,
+} from '@agent-prompttrain/shared/database/queries'
 
 /**
  * Create and configure the Dashboard application
@@ -69,11 +75,27 @@ export async function createDashboardApp(): Promise<DashboardApp> {
 
   // Public routes — no authentication required
   app.route('/public', publicTokenUsageRoutes)
+  app.route('/public', publicConversationShareRoutes)
 
-  // Apply auth middleware to all routes except /public/* and /health
+  // ALB OIDC needs the signer ARN (throws at startup when missing)
+  if (getAlbOidcEnabled()) {
+    getAlbOidcSignerArn()
+  }
+
+  // Native OIDC login (throws at startup when misconfigured)
+  const oidcLoginEnabled = Boolean(getOidcLoginConfig())
+  if (oidcLoginEnabled) {
+    app.route('/auth', oidcAuthRoutes)
+  }
+
+  // Apply auth middleware to all routes except /public/*, /auth/* and /health
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   app.use('/*', async (c: any, next: any) => {
-    if (c.req.path.startsWith('/public/') || c.req.path === '/health') {
+    if (
+      c.req.path.startsWith('/public/') ||
+      c.req.path === '/health' ||
+      (oidcLoginEnabled && c.req.path.startsWith('/auth/'))
+    ) {
       return next()
     }
     return dashboardAuth(c, next)
@@ -87,9 +109,12 @@ export async function createDashboardApp(): Promise<DashboardApp> {
     return csrfProtection()(c, next)
   })
 
-  // Pass API client to routes instead of database pool
+  // Pass API client to routes instead of database pool, acting for the signed-in
+  // user so the proxy applies their project roles
   app.use('/*', async (c, next) => {
-    c.set('apiClient', container.getApiClient())
+    const auth = c.get('auth')
+    const apiClient = container.getApiClient()
+    c.set('apiClient', auth?.isAuthenticated ? apiClient.forPrincipal(auth.principal) : apiClient)
     return next()
   })
 
@@ -173,12 +198,9 @@ export async function createDashboardApp(): Promise<DashboardApp> {
         return c.json({ error: 'Project not found' }, 404)
       }
 
-      // Allow access if project is public OR user is a member
-      if (project.is_private) {
-        const isMember = await isProjectMember(pool, project.id, auth.principal)
-        if (!isMember) {
-          return c.json({ error: 'Access denied' }, 403)
-        }
+      // Allow access if project is public OR the user's role can read conversations
+      if (!(await checkProjectPermission(pool, project.id, auth.principal, 'conversations.read'))) {
+        return c.json({ error: 'Access denied' }, 403)
       }
 
       return c.json({
@@ -210,11 +232,8 @@ export async function createDashboardApp(): Promise<DashboardApp> {
         return c.json({ error: 'Project not found' }, 404)
       }
 
-      if (project.is_private) {
-        const isMember = await isProjectMember(pool, project.id, auth.principal)
-        if (!isMember) {
-          return c.json({ error: 'Access denied' }, 403)
-        }
+      if (!(await checkProjectPermission(pool, project.id, auth.principal, 'usage.read'))) {
+        return c.json({ error: 'Access denied' }, 403)
       }
     }
 
@@ -318,11 +337,10 @@ export async function createDashboardApp(): Promise<DashboardApp> {
           return c.json({ error: 'Project not found' }, 404)
         }
 
-        if (project.is_private) {
-          const isMember = await isProjectMember(pool, project.id, auth.principal)
-          if (!isMember) {
-            return c.json({ error: 'Access denied' }, 403)
-          }
+        if (
+          !(await checkProjectPermission(pool, project.id, auth.principal, 'conversations.read'))
+        ) {
+          return c.json({ error: 'Access denied' }, 403)
         }
       }
 
@@ -2,6 +2,8 @@
  * Dashboard-specific configuration
  */
 
+import { hkdfSync } from 'crypto'
+
 /**
  * Get the development user email for local development bypass
  * When set, this email will be used instead of requiring oauth2-proxy headers
@@ -59,6 +61,108 @@ export const getAlbOidcEnabled = (): boolean => {
   return raw.toLowerCase() === 'true' || raw === '1'
 }
 
+/**
+ * AWS region of the ALB, used to fetch its OIDC signing keys from
+ * https://public-keys.auth.elb.<region>.amazonaws.com/<kid>
+ */
+export const getAlbOidcRegion = (): string | undefined =>
+  process.env.DASHBOARD_ALB_OIDC_REGION || process.env.AWS_REGION || undefined
+
+/**
+ * JSON file with the ALB signing keys (key ID → PEM, or a JWKS), used instead of
+ * the public key endpoint in air-gapped deployments and tests
+ */
+export const getAlbOidcKeysFile = (): string | undefined =>
+  process.env.DASHBOARD_ALB_OIDC_KEYS_FILE || undefined
+
+/**
+ * ARN of the load balancer that must have signed the x-amzn-oidc-data JWT. Required
+ * with ALB OIDC: the public key endpoint is regional, so any ALB in the region
+ * (including one in another AWS account) can mint a token that verifies.
+ *
+ * @throws Error when unset
+ */
+export const getAlbOidcSignerArn = (): string => {
+  const signerArn = process.env.DASHBOARD_ALB_OIDC_SIGNER_ARN?.trim()
+  if (!signerArn) {
+    throw new Error(
+      'DASHBOARD_ALB_OIDC_SIGNER_ARN is required when DASHBOARD_ALB_OIDC_ENABLED is set'
+    )
+  }
+  return signerArn
+}
+
+/**
+ * Optional issuer (the IdP's `iss`) the x-amzn-oidc-data JWT must carry
+ */
+export const getAlbOidcIssuer = (): string | undefined =>
+  process.env.DASHBOARD_ALB_OIDC_ISSUER || undefined
+
+export interface OidcLoginConfig {
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  /** Callback URL registered with the IdP; derived from the request when unset */
+  redirectUri?: string
+  scopes: string
+  /** JWKS file used instead of the issuer's jwks_uri */
+  keysFile?: string
+  sessionSecret: string
+  sessionTtlSeconds: number
+}
+
+/**
+ * Native OIDC login (authorization code flow). Enabled when DASHBOARD_OIDC_ISSUER
+ * and DASHBOARD_OIDC_CLIENT_ID are set.
+ *
+ * @throws Error when enabled without a DASHBOARD_SESSION_SECRET
+ */
+export const getOidcLoginConfig = (): OidcLoginConfig | null => {
+  const issuer = process.env.DASHBOARD_OIDC_ISSUER?.trim()
+  const clientId = process.env.DASHBOARD_OIDC_CLIENT_ID?.trim()
+  if (!issuer || !clientId) {
+    return null
+  }
+
+  const sessionSecret = process.env.DASHBOARD_SESSION_SECRET
+  if (!sessionSecret || sessionSecret.length < 32) {
+    throw new Error(
+      'DASHBOARD_SESSION_SECRET (at least 32 characters) is required when DASHBOARD_OIDC_ISSUER is set'
+    )
+  }
+
+  const ttlHours = Number(process.env.DASHBOARD_SESSION_TTL_HOURS || '12')
+
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.DASHBOARD_OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.DASHBOARD_OIDC_REDIRECT_URI || undefined,
+    scopes: process.env.DASHBOARD_OIDC_SCOPES || 'openid email profile',
+    keysFile: process.env.DASHBOARD_OIDC_KEYS_FILE || undefined,
+    sessionSecret,
+    sessionTtlSeconds: Math.round((ttlHours > 0 ? ttlHours : 12) * 3600),
+  }
+}
+
+/**
+ * Secret that signs conversation share links: DASHBOARD_SHARE_LINK_SECRET, or else
+ * a key derived from DASHBOARD_SESSION_SECRET with HKDF, so share links and
+ * session cookies never share a key. Sharing is disabled without a 32+ character secret.
+ */
+export const getShareLinkSecret = (): string | null => {
+  const shareLinkSecret = process.env.DASHBOARD_SHARE_LINK_SECRET
+  if (shareLinkSecret) {
+    return shareLinkSecret.length >= 32 ? shareLinkSecret : null
+  }
+
+  const sessionSecret = process.env.DASHBOARD_SESSION_SECRET
+  if (!sessionSecret || sessionSecret.length < 32) {
+    return null
+  }
+  return Buffer.from(hkdfSync('sha256', sessionSecret, '', 'share-links', 32)).toString('hex')
+}
+
 /**
  * Export configuration flags for easy access
  */
@@ -220,10 +220,13 @@ export const layout = (
             <div class="space-x-4" style="display: flex; align-items: center;">
               <a href="/dashboard" class="text-sm text-blue-600">Dashboard</a>
               <a href="/dashboard/requests" class="text-sm text-blue-600">Requests</a>
+              <a href="/dashboard/search" class="text-sm text-blue-600">Search</a>
               <a href="/dashboard/usage" class="text-sm text-blue-600">Project Usage</a>
               <a href="/dashboard/token-usage" class="text-sm text-blue-600">Token Usage</a>
+              <a href="/dashboard/tools" class="text-sm text-blue-600">Tool Usage</a>
               <a href="/dashboard/credentials" class="text-sm text-blue-600">Credentials</a>
               <a href="/dashboard/projects" class="text-sm text-blue-600">Projects</a>
+              <a href="/dashboard/audit" class="text-sm text-blue-600">Audit Log</a>
               ${auth.principal
                 ? html`<span
                     class="text-sm text-gray-600"
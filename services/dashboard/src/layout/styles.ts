@@ -1029,6 +1029,13 @@ export const dashboardStyles = `
     color: var(--color-info-text);
   }
 
+  /* Placeholder for values redacted from stored bodies */
+  .redacted-badge {
+    padding: 0 0.35rem;
+    font-size: 0.7rem;
+    vertical-align: baseline;
+  }
+
   /* Tool result images styling */
   .tool-result-image {
     display: block;
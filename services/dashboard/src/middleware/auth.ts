@@ -1,60 +1,56 @@
 import { Context, Next, MiddlewareHandler } from 'hono'
+import { getSignedCookie } from 'hono/cookie'
 import {
   getDevUserEmail,
   getSsoHeaderNames,
   getSsoAllowedDomains,
   getAlbOidcEnabled,
+  getOidcLoginConfig,
 } from '../config.js'
+import { verifyAlbOidcData } from '../services/alb-oidc.js'
+import { OIDC_SESSION_COOKIE, decodeCookieValue, type OidcSession } from '../services/oidc-login.js'
+import { logger } from './logger.js'
+import { getErrorMessage } from '@agent-prompttrain/shared'
 
 export type AuthContext = {
   isAuthenticated: boolean
   principal: string
-  source: 'dev' | 'sso' | 'alb-oidc'
+  source: 'dev' | 'sso' | 'alb-oidc' | 'oidc'
 }
 
 /**
- * Decode AWS ALB OIDC JWT payload without verification
- * This extracts the email claim from the x-amzn-oidc-data header
- *
- * Security note: This implementation does NOT verify the JWT signature.
- * In production, you should verify the JWT using the public key from:
- * https://public-keys.auth.elb.<region>.amazonaws.com/<kid>
- *
- * @param jwt - The JWT token from x-amzn-oidc-data header
- * @returns The email claim if found, null otherwise
+ * Whether an email-style principal is in the allowed domains (all domains when
+ * no allow list is configured)
  */
-function decodeAlbOidcJwt(jwt: string): string | null {
-  try {
-    // JWT format: header.payload.signature
-    const parts = jwt.split('.')
-    if (parts.length !== 3) {
-      return null
-    }
-
-    // Decode the payload (second part)
-    const payload = parts[1]
-    // Base64URL decode - replace URL-safe characters and add padding if needed
-    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/')
-    const paddedBase64 = base64 + '==='.slice((base64.length + 3) % 4)
-    const decodedPayload = Buffer.from(paddedBase64, 'base64').toString('utf8')
-
-    // Parse JSON payload
-    const claims = JSON.parse(decodedPayload)
+export function isEmailDomainAllowed(email: string, allowedDomains: string[]): boolean {
+  if (allowedDomains.length === 0) {
+    return true
+  }
+  const domain = email.split('@').pop()?.toLowerCase()
+  return Boolean(domain && allowedDomains.includes(domain))
+}
 
-    // Extract email claim (standard OIDC claim)
-    return claims.email || null
-  } catch {
-    // Invalid JWT format or decoding error
+/**
+ * Read the signed-in user from the native OIDC session cookie
+ */
+async function getOidcSessionPrincipal(c: Context, sessionSecret: string): Promise<string | null> {
+  const session = decodeCookieValue<OidcSession>(
+    await getSignedCookie(c, sessionSecret, OIDC_SESSION_COOKIE)
+  )
+  if (!session?.email || typeof session.exp !== 'number' || session.exp * 1000 <= Date.now()) {
     return null
   }
+  return session.email
 }
 
 /**
  * Dashboard authentication middleware
  * Supports multiple authentication methods:
  * 1. Development bypass via DASHBOARD_DEV_USER_EMAIL
- * 2. AWS ALB OIDC via x-amzn-oidc-data header
- * 3. OAuth2-proxy via forwarded headers (X-Auth-Request-Email, etc.)
+ * 2. Native OIDC login session (DASHBOARD_OIDC_ISSUER), which replaces forwarded headers
+ * 3. AWS ALB OIDC via the signed x-amzn-oidc-data header
+ * 4. OAuth2-proxy via forwarded headers (X-Auth-Request-Email, etc.), only when
+ *    neither native OIDC nor ALB OIDC is enabled
  */
 export const dashboardAuth: MiddlewareHandler<{ Variables: { auth: AuthContext } }> = async (
   c,
@@ -64,6 +60,7 @@ export const dashboardAuth: MiddlewareHandler<{ Variables: { auth: AuthContext }
   const ssoHeaderNames = getSsoHeaderNames()
   const allowedDomains = getSsoAllowedDomains()
   const albOidcEnabled = getAlbOidcEnabled()
+  const oidcLogin = getOidcLoginConfig()
 
   // Development mode: use email from environment variable
   if (devUserEmail) {
@@ -75,32 +72,62 @@ export const dashboardAuth: MiddlewareHandler<{ Variables: { auth: AuthContext }
     return next()
   }
 
-  // AWS ALB OIDC mode: extract email from x-amzn-oidc-data JWT
+  // Native OIDC mode: the session cookie set by /auth/callback
+  if (oidcLogin) {
+    const email = await getOidcSessionPrincipal(c, oidcLogin.sessionSecret)
+    if (email) {
+      if (!isEmailDomainAllowed(email, allowedDomains)) {
+        return c.json({ error: 'Forbidden: Domain not allowed' }, 403)
+      }
+
+      c.set('auth', {
+        isAuthenticated: true,
+        principal: email,
+        source: 'oidc',
+      })
+      return next()
+    }
+  }
+
+  // AWS ALB OIDC mode: extract email from the verified x-amzn-oidc-data JWT
   if (albOidcEnabled) {
     const albOidcData = c.req.header('x-amzn-oidc-data')
     if (albOidcData) {
-      const email = decodeAlbOidcJwt(albOidcData)
-      if (email) {
-        // If allow list is configured, enforce it
-        if (allowedDomains.length > 0) {
-          const domain = email.split('@').pop()?.toLowerCase()
-          if (!domain || !allowedDomains.includes(domain)) {
-            return c.json({ error: 'Forbidden: Domain not allowed' }, 403)
-          }
-        }
-
-        c.set('auth', {
-          isAuthenticated: true,
-          principal: email,
-          source: 'alb-oidc',
+      let email: string | null = null
+      try {
+        const claims = await verifyAlbOidcData(albOidcData)
+        email = typeof claims.email === 'string' && claims.email ? claims.email : null
+      } catch (error) {
+        logger.warn('Rejected x-amzn-oidc-data header', {
+          path: c.req.path,
+          metadata: { error: getErrorMessage(error) },
         })
-        return next()
+        return c.json({ error: 'Unauthorized: Invalid ALB OIDC token' }, 401)
+      }
+
+      if (!email) {
+        return c.json({ error: 'Unauthorized: ALB OIDC token has no email claim' }, 401)
+      }
+
+      // If allow list is configured, enforce it
+      if (!isEmailDomainAllowed(email, allowedDomains)) {
+        return c.json({ error: 'Forbidden: Domain not allowed' }, 403)
       }
+
+      c.set('auth', {
+        isAuthenticated: true,
+        principal: email,
+        source: 'alb-oidc',
+      })
+      return next()
     }
   }
 
   // OAuth2-proxy mode: extract user email from forwarded headers
-  const headerValues = ssoHeaderNames.map(headerName => ({
+  // (not trusted once the dashboard runs its own OIDC login or sits behind an ALB,
+  // where a caller reaching the dashboard directly could set them)
+  const trustSsoHeaders = !oidcLogin && !albOidcEnabled
+  const headerValues = (trustSsoHeaders ? ssoHeaderNames : []).map(headerName => ({
     name: headerName,
     value: c.req.header(headerName),
   }))
@@ -113,11 +140,11 @@ export const dashboardAuth: MiddlewareHandler<{ Variables: { auth: AuthContext }
     const normalizedIdentity = forwardedIdentity.value.trim()
 
     // If allow list is configured, enforce it for email-style principals
-    if (allowedDomains.length > 0 && normalizedIdentity.includes('@')) {
-      const domain = normalizedIdentity.split('@').pop()?.toLowerCase()
-      if (!domain || !allowedDomains.includes(domain)) {
-        return c.json({ error: 'Forbidden: Domain not allowed' }, 403)
-      }
+    if (
+      normalizedIdentity.includes('@') &&
+      !isEmailDomainAllowed(normalizedIdentity, allowedDomains)
+    ) {
+      return c.json({ error: 'Forbidden: Domain not allowed' }, 403)
     }
 
     c.set('auth', {
@@ -131,6 +158,11 @@ export const dashboardAuth: MiddlewareHandler<{ Variables: { auth: AuthContext }
 
   // No valid authentication found
   const acceptHeader = c.req.header('Accept') || ''
+  if (oidcLogin && acceptHeader.includes('text/html') && c.req.method === 'GET') {
+    const url = new URL(c.req.url)
+    return c.redirect(`/auth/login?returnTo=${encodeURIComponent(`${url.pathname}${url.search}`)}`)
+  }
+
   if (acceptHeader.includes('text/html')) {
     return c.html(
       `
@@ -1,60 +1,98 @@
 import type { MiddlewareHandler } from 'hono'
-import { isProjectOwner, isProjectMember } from '@agent-prompttrain/shared/database/queries'
+import type { ProjectPermission } from '@agent-prompttrain/shared'
+import {
+  checkProjectPermission,
+  getConversationProject,
+  getProjectByProjectId,
+} from '@agent-prompttrain/shared/database/queries'
 import { container } from '../container.js'
 import type { AuthContext } from './auth.js'
 
+const PERMISSION_DENIED_MESSAGES: Record<ProjectPermission, string> = {
+  'project.view': 'Access denied: You are not a member of this project',
+  'project.use': 'Access denied: Your project role does not allow this action',
+  'project.manage': 'Only project owners can perform this action',
+  'conversations.read': 'Access denied: Your project role cannot read conversations',
+  'prompts.read': 'Access denied: Your project role cannot read prompts',
+  'usage.read': 'Access denied: Your project role cannot read usage',
+}
+
 /**
- * Middleware to require project ownership
- * Returns 403 if the authenticated user is not an owner of the project
+ * Middleware factory requiring a project permission (see ProjectPermission)
+ * Returns 403 if the authenticated user's project role, or organization admin
+ * status, does not grant it
  */
-export const requireProjectOwner: MiddlewareHandler<{
-  Variables: { auth: AuthContext }
-}> = async (c, next) => {
-  const projectId = c.req.param('id')
-  if (!projectId) {
-    return c.json({ error: 'Project ID is required' }, 400)
-  }
+export function requireProjectPermission(
+  permission: ProjectPermission
+): MiddlewareHandler<{ Variables: { auth: AuthContext } }> {
+  return async (c, next) => {
+    const projectId = c.req.param('id')
+    if (!projectId) {
+      return c.json({ error: 'Project ID is required' }, 400)
+    }
 
-  const auth = c.get('auth')
+    const auth = c.get('auth')
 
-  if (!auth.isAuthenticated) {
-    return c.json({ error: 'Unauthorized' }, 401)
-  }
+    if (!auth.isAuthenticated) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
 
-  const pool = container.getPool()
-  const isOwner = await isProjectOwner(pool, projectId, auth.principal)
+    const pool = container.getPool()
+    const allowed = await checkProjectPermission(pool, projectId, auth.principal, permission)
 
-  if (!isOwner) {
-    return c.json({ error: 'Only project owners can perform this action' }, 403)
-  }
+    if (!allowed) {
+      return c.json({ error: PERMISSION_DENIED_MESSAGES[permission] }, 403)
+    }
 
-  await next()
+    await next()
+  }
 }
 
 /**
- * Middleware to require project membership (owner or member)
- * Returns 403 if the authenticated user is not a member of the project
+ * Middleware to require project ownership (or organization admin)
+ * Returns 403 if the authenticated user cannot manage the project
  */
-export const requireProjectMembership: MiddlewareHandler<{
-  Variables: { auth: AuthContext }
-}> = async (c, next) => {
-  const projectId = c.req.param('id')
-  if (!projectId) {
-    return c.json({ error: 'Project ID is required' }, 400)
-  }
+export const requireProjectOwner = requireProjectPermission('project.manage')
 
-  const auth = c.get('auth')
+/**
+ * Middleware to require project membership (any role, or organization admin)
+ * Returns 403 if the authenticated user cannot view the project
+ */
+export const requireProjectMembership = requireProjectPermission('project.view')
 
-  if (!auth.isAuthenticated) {
-    return c.json({ error: 'Unauthorized' }, 401)
+/**
+ * Whether a user holds a permission on a project's data (identified by its
+ * project_id string). Public projects are readable by everyone; private ones
+ * according to the user's role.
+ */
+export async function canReadProject(
+  projectId: string,
+  principal: string,
+  permission: ProjectPermission = 'conversations.read'
+): Promise<boolean> {
+  const pool = container.getPool()
+  const project = await getProjectByProjectId(pool, projectId)
+  if (!project) {
+    return false
   }
 
-  const pool = container.getPool()
-  const isMember = await isProjectMember(pool, projectId, auth.principal)
+  return checkProjectPermission(pool, project.id, principal, permission)
+}
 
-  if (!isMember) {
-    return c.json({ error: 'Access denied: You are not a member of this project' }, 403)
+/**
+ * Whether a user holds a permission on the project of a conversation; false when
+ * the conversation is unknown
+ */
+export async function canReadConversation(
+  conversationId: string,
+  principal: string,
+  permission: ProjectPermission = 'conversations.read'
+): Promise<boolean> {
+  const pool = container.getPool()
+  const project = await getConversationProject(pool, conversationId)
+  if (!project) {
+    return false
   }
 
-  await next()
+  return checkProjectPermission(pool, project.id, principal, permission)
 }
@@ -1,7 +1,11 @@
-import { describe, it, expect, beforeEach, mock } from 'bun:test'
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test'
 import { Hono } from 'hono'
+import type { Pool } from 'pg'
+import * as queries from '@agent-prompttrain/shared/database/queries'
 import { analysisRoutes } from '../analysis-api.js'
 import { ProxyApiClient } from '../../services/api-client.js'
+import { container } from '../../container.js'
+import type { AuthContext } from '../../middleware/auth.js'
 import type {
   CreateAnalysisResponse,
   GetAnalysisResponse,
@@ -13,11 +17,24 @@ describe('Analysis API Routes', () => {
   let app: Hono<{
     Variables: {
       apiClient?: ProxyApiClient
+      auth?: AuthContext
     }
   }>
   let mockApiClient: Partial<ProxyApiClient>
+  let spies: Array<{ mockRestore(): void }>
+  let mockCheckPermission: ReturnType<typeof spyOn<typeof queries, 'checkProjectPermission'>>
 
   beforeEach(() => {
+    mockCheckPermission = spyOn(queries, 'checkProjectPermission').mockResolvedValue(true)
+    spies = [
+      mockCheckPermission,
+      spyOn(container, 'getPool').mockReturnValue({} as Pool),
+      spyOn(queries, 'getConversationProject').mockResolvedValue({
+        id: 'uuid-alpha',
+        project_id: 'alpha',
+      } as any),
+    ]
+
     // Create a new Hono app and mount the routes
     app = new Hono()
 
@@ -30,6 +47,7 @@ describe('Analysis API Routes', () => {
     // Add middleware to inject the API client
     app.use('*', async (c, next) => {
       c.set('apiClient', mockApiClient as ProxyApiClient)
+      c.set('auth', { isAuthenticated: true, principal: 'member@example.com', source: 'dev' })
       await next()
     })
 
@@ -37,6 +55,50 @@ describe('Analysis API Routes', () => {
     app.route('/api', analysisRoutes)
   })
 
+  afterEach(() => {
+    spies.forEach(spy => spy.mockRestore())
+  })
+
+  describe('project access', () => {
+    const conversationPath = '/api/analyses/550e8400-e29b-41d4-a716-446655440000/main'
+
+    it('rejects users whose project role cannot read conversations', async () => {
+      mockCheckPermission.mockResolvedValue(false)
+
+      const create = await app.request('/api/analyses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId: '550e8400-e29b-41d4-a716-446655440000' }),
+      })
+      const status = await app.request(conversationPath)
+      const regenerate = await app.request(`${conversationPath}/regenerate`, { method: 'POST' })
+
+      expect([create.status, status.status, regenerate.status]).toEqual([403, 403, 403])
+      expect(mockCheckPermission).toHaveBeenCalledWith(
+        {} as Pool,
+        'uuid-alpha',
+        'member@example.com',
+        'conversations.read'
+      )
+      expect(mockApiClient.get).not.toHaveBeenCalled()
+      expect(mockApiClient.post).not.toHaveBeenCalled()
+    })
+
+    it('rejects requests without a signed-in user', async () => {
+      const appNoAuth = new Hono<{ Variables: { apiClient?: ProxyApiClient } }>()
+      appNoAuth.use('*', async (c, next) => {
+        c.set('apiClient', mockApiClient as ProxyApiClient)
+        await next()
+      })
+      appNoAuth.route('/api', analysisRoutes)
+
+      const response = await appNoAuth.request(conversationPath)
+
+      expect(response.status).toBe(401)
+      expect(mockApiClient.get).not.toHaveBeenCalled()
+    })
+  })
+
   describe('POST /api/analyses', () => {
     it('should create analysis request successfully', async () => {
       const mockResponse: CreateAnalysisResponse = {
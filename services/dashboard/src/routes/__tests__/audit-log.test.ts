@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test'
+import { escapeCsvField } from '../audit-log.js'
+
+describe('escapeCsvField', () => {
+  test('quotes fields with separators, quotes and newlines', () => {
+    expect(escapeCsvField('plain')).toBe('plain')
+    expect(escapeCsvField('a,b')).toBe('"a,b"')
+    expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCsvField(null)).toBe('')
+    expect(escapeCsvField(new Date('2026-10-18T00:00:00Z'))).toBe('2026-10-18T00:00:00.000Z')
+    expect(escapeCsvField({ name: 'x' })).toBe('"{""name"":""x""}"')
+  })
+
+  test('neutralizes values a spreadsheet would run as a formula', () => {
+    expect(escapeCsvField('=HYPERLINK("http://evil.example","x")')).toBe(
+      `"'=HYPERLINK(""http://evil.example"",""x"")"`
+    )
+    expect(escapeCsvField('+1')).toBe("'+1")
+    expect(escapeCsvField('-2+3')).toBe("'-2+3")
+    expect(escapeCsvField('@SUM(A1)')).toBe("'@SUM(A1)")
+    expect(escapeCsvField('\tcmd')).toBe("'\tcmd")
+    expect(escapeCsvField('\rcmd')).toBe(`"'\rcmd"`)
+  })
+})
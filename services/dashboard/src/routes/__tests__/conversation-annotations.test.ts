@@ -0,0 +1,153 @@
+import { afterAll, afterEach, beforeAll, describe, expect, spyOn, test } from 'bun:test'
+import { Hono } from 'hono'
+import type { Pool } from 'pg'
+import type { ConversationAnnotation, Project } from '@agent-prompttrain/shared'
+import * as queries from '@agent-prompttrain/shared/database/queries'
+import { conversationDetailRoutes } from '../conversation-detail.js'
+import { container } from '../../container.js'
+import type { StorageReader } from '../../storage/reader.js'
+
+const conversationId = 'c0ffee00-0000-4000-8000-000000000002'
+const projectUuid = 'b6a3f0a2-0000-4000-8000-000000000001'
+const principal = 'reader@example.com'
+
+const note: ConversationAnnotation = {
+  id: 'a1a1a1a1-0000-4000-8000-000000000003',
+  project_id: projectUuid,
+  conversation_id: conversationId,
+  branch_id: null,
+  request_id: 'req-1',
+  kind: 'note',
+  body: 'Good use of a plan before editing',
+  created_by: 'mentor@example.com',
+  created_at: new Date(),
+}
+
+describe('conversation annotations', () => {
+  const app = new Hono<{ Variables: { auth: { principal: string; dashboardKey: string } } }>()
+  app.use('*', async (c, next) => {
+    c.set('auth', { principal, dashboardKey: '' })
+    await next()
+  })
+  app.route('/dashboard', conversationDetailRoutes)
+
+  const storage = {
+    getConversationById: async () => ({
+      requests: [
+        { request_id: 'req-1', projectId: 'onboarding', branch_id: 'main' },
+        { request_id: 'req-2', projectId: 'onboarding', branch_id: 'branch_1' },
+      ],
+    }),
+  }
+
+  const spies: Array<{ mockRestore: () => void }> = []
+  const perTest: Array<{ mockRestore: () => void }> = []
+
+  beforeAll(() => {
+    spies.push(spyOn(container, 'getPool').mockReturnValue({} as Pool))
+    spies.push(
+      spyOn(container, 'getStorageService').mockReturnValue(storage as unknown as StorageReader)
+    )
+    spies.push(
+      spyOn(queries, 'getProjectByProjectId').mockResolvedValue({
+        id: projectUuid,
+        project_id: 'onboarding',
+      } as Project)
+    )
+    // Readers of the conversation, but not project managers
+    spies.push(
+      spyOn(queries, 'checkProjectPermission').mockImplementation(
+        async (_pool, _project, _user, permission) => permission === 'conversations.read'
+      )
+    )
+  })
+
+  afterEach(() => {
+    perTest.splice(0).forEach(spy => spy.mockRestore())
+  })
+
+  afterAll(() => {
+    spies.forEach(spy => spy.mockRestore())
+  })
+
+  function post(path: string, form: Record<string, string>) {
+    return app.request(`/dashboard/conversation/${conversationId}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Cookie: 'csrf_token=test-token',
+        'X-CSRF-Token': 'test-token',
+      },
+      body: new URLSearchParams(form).toString(),
+    })
+  }
+
+  function mockAnnotations(annotations: ConversationAnnotation[]) {
+    const list = spyOn(queries, 'listConversationAnnotations').mockResolvedValue(annotations)
+    const create = spyOn(queries, 'createConversationAnnotation').mockResolvedValue(null)
+    const remove = spyOn(queries, 'deleteConversationAnnotation').mockResolvedValue(true)
+    perTest.push(list, create, remove)
+    return { create, remove }
+  }
+
+  test('adds a lowercased tag to a branch', async () => {
+    const { create } = mockAnnotations([])
+
+    const response = await post('/annotations', {
+      kind: 'tag',
+      branch: 'branch_1',
+      body: '  Good-Prompting ',
+    })
+
+    expect(response.status).toBe(200)
+    expect(await response.text()).toContain('id="conversation-annotations"')
+    expect(create).toHaveBeenCalledWith({}, projectUuid, {
+      conversation_id: conversationId,
+      branch_id: 'branch_1',
+      request_id: null,
+      kind: 'tag',
+      body: 'good-prompting',
+      created_by: principal,
+    })
+  })
+
+  test('rejects invalid tags and requests from other conversations', async () => {
+    const { create } = mockAnnotations([])
+
+    const badTag = await (await post('/annotations', { kind: 'tag', body: 'two words' })).text()
+    const otherRequest = await (
+      await post('/annotations', { kind: 'note', request_id: 'req-9', body: 'hi' })
+    ).text()
+
+    expect(badTag).toContain('Tags are up to 48 lowercase letters')
+    expect(otherRequest).toContain('Request req-9 is not part of this conversation')
+    expect(create).not.toHaveBeenCalled()
+  })
+
+  test('toggles off an existing bookmark', async () => {
+    const bookmark: ConversationAnnotation = {
+      ...note,
+      id: 'b2b2b2b2-0000-4000-8000-000000000004',
+      request_id: null,
+      kind: 'bookmark',
+      body: null,
+      created_by: principal,
+    }
+    const { create, remove } = mockAnnotations([bookmark])
+
+    await post('/annotations', { kind: 'bookmark' })
+
+    expect(remove).toHaveBeenCalledWith({}, conversationId, bookmark.id)
+    expect(create).not.toHaveBeenCalled()
+  })
+
+  test("only lets project managers remove other users' notes", async () => {
+    const { remove } = mockAnnotations([note])
+
+    const body = await (await post(`/annotations/${note.id}/delete`, {})).text()
+
+    expect(body).toContain('Only its author or a project owner can remove this')
+    expect(body).toContain('Good use of a plan before editing')
+    expect(remove).not.toHaveBeenCalled()
+  })
+})
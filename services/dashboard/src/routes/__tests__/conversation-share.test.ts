@@ -0,0 +1,226 @@
+import { afterAll, afterEach, beforeAll, describe, expect, spyOn, test } from 'bun:test'
+import { Hono } from 'hono'
+import type { Pool } from 'pg'
+import type { ConversationShare } from '@agent-prompttrain/shared'
+import * as queries from '@agent-prompttrain/shared/database/queries'
+import { publicConversationShareRoutes } from '../public-conversation-share.js'
+import { container } from '../../container.js'
+import { getShareLinkSecret } from '../../config.js'
+import type { StorageReader } from '../../storage/reader.js'
+import {
+  HIDDEN_TOOL_RESULT,
+  createShareToken,
+  hideToolResults,
+  verifyShareToken,
+} from '../../services/share-links.js'
+
+const secret = 'share-link-secret-for-tests-0123456789'
+const shareId = '5f0c6b1e-7d3a-4c2b-9e8f-1a2b3c4d5e6f'
+const expiresAt = new Date('2026-10-25T12:00:00.000Z')
+
+describe('share link tokens', () => {
+  test('round-trips the share ID and expiry', () => {
+    const token = createShareToken(shareId, expiresAt, secret)
+    expect(verifyShareToken(token, secret, new Date('2026-10-18T12:00:00Z'))).toEqual({
+      shareId,
+      expiresAt,
+    })
+  })
+
+  test('rejects altered, foreign, expired and malformed tokens', () => {
+    const now = new Date('2026-10-18T12:00:00Z')
+    const token = createShareToken(shareId, expiresAt, secret)
+    const [id, expiry, signature] = token.split('.')
+
+    expect(verifyShareToken(`${id}.${Number(expiry) + 86400}.${signature}`, secret, now)).toBeNull()
+    expect(verifyShareToken(token, 'another-secret-that-is-long-enough-0000', now)).toBeNull()
+    expect(verifyShareToken(token, secret, new Date('2026-10-26T00:00:00Z'))).toBeNull()
+    expect(verifyShareToken(`${id}.${expiry}`, secret, now)).toBeNull()
+    expect(verifyShareToken(`../etc.${expiry}.${signature}`, secret, now)).toBeNull()
+  })
+
+  test('hides tool result content only', () => {
+    const body = {
+      messages: [
+        { role: 'user', content: 'list files' },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: 'secret.txt' },
+            { type: 'text', text: 'thanks' },
+          ],
+        },
+      ],
+    }
+
+    expect(hideToolResults(body).messages[1].content).toEqual([
+      { type: 'tool_result', tool_use_id: 'toolu_1', content: HIDDEN_TOOL_RESULT },
+      { type: 'text', text: 'thanks' },
+    ])
+    expect(body.messages[1].content[0]).toHaveProperty('content', 'secret.txt')
+  })
+})
+
+describe('getShareLinkSecret', () => {
+  afterEach(() => {
+    delete process.env.DASHBOARD_SHARE_LINK_SECRET
+    delete process.env.DASHBOARD_SESSION_SECRET
+  })
+
+  test('uses the dedicated secret', () => {
+    process.env.DASHBOARD_SHARE_LINK_SECRET = secret
+    process.env.DASHBOARD_SESSION_SECRET = 's'.repeat(32)
+    expect(getShareLinkSecret()).toBe(secret)
+  })
+
+  test('derives a separate key from the session secret', () => {
+    process.env.DASHBOARD_SESSION_SECRET = 's'.repeat(32)
+    const derived = getShareLinkSecret()
+    expect(derived).toMatch(/^[0-9a-f]{64}$/)
+    expect(derived).not.toBe('s'.repeat(32))
+  })
+
+  test('disables sharing without a long enough secret', () => {
+    expect(getShareLinkSecret()).toBeNull()
+    process.env.DASHBOARD_SHARE_LINK_SECRET = 'short'
+    process.env.DASHBOARD_SESSION_SECRET = 's'.repeat(32)
+    expect(getShareLinkSecret()).toBeNull()
+  })
+})
+
+describe('GET /public/share/:token', () => {
+  const app = new Hono()
+  app.route('/public', publicConversationShareRoutes)
+
+  const future = new Date(Math.floor(Date.now() / 1000 + 86400) * 1000)
+  const share: ConversationShare = {
+    id: shareId,
+    project_id: 'b6a3f0a2-0000-4000-8000-000000000001',
+    conversation_id: 'c0ffee00-0000-4000-8000-000000000002',
+    branch_id: 'main',
+    redact_tool_results: true,
+    expires_at: future,
+    created_by: 'owner@example.com',
+    created_at: new Date(),
+    revoked_at: null,
+    revoked_by: null,
+    view_count: 0,
+    last_viewed_at: null,
+  }
+  const storage = {
+    getConversationById: async () => ({
+      requests: [{ request_id: 'req-1', branch_id: 'main', timestamp: new Date().toISOString() }],
+    }),
+    getRequestDetails: async () => ({
+      request_body: {
+        system: 'Internal system prompt',
+        messages: [
+          { role: 'user', content: 'What is in the config?' },
+          {
+            role: 'assistant',
+            content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: {} }],
+          },
+          {
+            role: 'user',
+            content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'DB_PASSWORD=x' }],
+          },
+        ],
+      },
+      response_body: { role: 'assistant', content: [{ type: 'text', text: 'It sets the DB.' }] },
+    }),
+  }
+
+  const spies: Array<{ mockRestore: () => void }> = []
+  let recordView: ReturnType<typeof spyOn<typeof queries, 'recordConversationShareView'>>
+
+  beforeAll(() => {
+    process.env.DASHBOARD_SHARE_LINK_SECRET = secret
+    process.env.TRUSTED_PROXY_HOPS = '1'
+    spies.push(spyOn(container, 'getPool').mockReturnValue({} as Pool))
+    spies.push(spyOn(container, 'getStorageService').mockReturnValue(storage as unknown as StorageReader))
+  })
+
+  afterEach(() => {
+    recordView?.mockRestore()
+  })
+
+  afterAll(() => {
+    delete process.env.DASHBOARD_SHARE_LINK_SECRET
+    delete process.env.TRUSTED_PROXY_HOPS
+    spies.forEach(spy => spy.mockRestore())
+  })
+
+  test('renders the transcript without system prompt or tool results and records the view', async () => {
+    const getShare = spyOn(queries, 'getConversationShare').mockResolvedValue(share)
+    recordView = spyOn(queries, 'recordConversationShareView').mockResolvedValue()
+    try {
+      const response = await app.request(
+        `/public/share/${createShareToken(shareId, future, secret)}`,
+        {
+          headers: { 'x-forwarded-for': '198.51.100.1, 203.0.113.7', 'user-agent': 'curl/8.0' },
+        }
+      )
+      const body = await response.text()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('cache-control')).toBe('no-store')
+      expect(body).toContain('What is in the config?')
+      expect(body).toContain('It sets the DB.')
+      expect(body).toContain(HIDDEN_TOOL_RESULT)
+      expect(body).not.toContain('DB_PASSWORD')
+      expect(body).not.toContain('Internal system prompt')
+      expect(recordView).toHaveBeenCalledWith({}, shareId, {
+        ip_address: '203.0.113.7',
+        user_agent: 'curl/8.0',
+      })
+    } finally {
+      getShare.mockRestore()
+    }
+  })
+
+  test('ignores X-Forwarded-For without trusted proxies', async () => {
+    const getShare = spyOn(queries, 'getConversationShare').mockResolvedValue(share)
+    recordView = spyOn(queries, 'recordConversationShareView').mockResolvedValue()
+    delete process.env.TRUSTED_PROXY_HOPS
+    try {
+      await app.request(`/public/share/${createShareToken(shareId, future, secret)}`, {
+        headers: { 'x-forwarded-for': '203.0.113.7', 'user-agent': 'curl/8.0' },
+      })
+
+      expect(recordView.mock.calls[0][2].ip_address).toBeNull()
+    } finally {
+      process.env.TRUSTED_PROXY_HOPS = '1'
+      getShare.mockRestore()
+    }
+  })
+
+  test('rejects revoked shares without recording a view', async () => {
+    const getShare = spyOn(queries, 'getConversationShare').mockResolvedValue({
+      ...share,
+      revoked_at: new Date(),
+    })
+    recordView = spyOn(queries, 'recordConversationShareView').mockResolvedValue()
+    try {
+      const response = await app.request(
+        `/public/share/${createShareToken(shareId, future, secret)}`
+      )
+
+      expect(response.status).toBe(404)
+      expect(recordView).not.toHaveBeenCalled()
+    } finally {
+      getShare.mockRestore()
+    }
+  })
+
+  test('rejects tokens that do not verify before reading the database', async () => {
+    const getShare = spyOn(queries, 'getConversationShare')
+    try {
+      const response = await app.request(`/public/share/${shareId}.9999999999.forged`)
+
+      expect(response.status).toBe(404)
+      expect(getShare).not.toHaveBeenCalled()
+    } finally {
+      getShare.mockRestore()
+    }
+  })
+})
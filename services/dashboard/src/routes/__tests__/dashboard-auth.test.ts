@@ -0,0 +1,289 @@
+import { afterAll, afterEach, beforeAll, describe, expect, spyOn, test } from 'bun:test'
+import { Hono } from 'hono'
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { dashboardAuth, type AuthContext } from '../../middleware/auth.js'
+import { getAlbOidcSignerArn } from '../../config.js'
+import { oidcAuthRoutes } from '../oidc-auth.js'
+import { resetAlbOidcKeys } from '../../services/alb-oidc.js'
+import { resetOidcLoginCache } from '../../services/oidc-login.js'
+
+const ENV_KEYS = [
+  'DASHBOARD_DEV_USER_EMAIL',
+  'DASHBOARD_ALB_OIDC_ENABLED',
+  'DASHBOARD_ALB_OIDC_KEYS_FILE',
+  'DASHBOARD_ALB_OIDC_SIGNER_ARN',
+  'DASHBOARD_OIDC_ISSUER',
+  'DASHBOARD_OIDC_CLIENT_ID',
+  'DASHBOARD_OIDC_KEYS_FILE',
+  'DASHBOARD_SESSION_SECRET',
+  'DASHBOARD_SSO_ALLOWED_DOMAINS',
+]
+const SIGNER_ARN = 'arn:aws:elasticloadbalancing:us-east-1:123456789012:loadbalancer/app/dash/1'
+const ISSUER = 'https://idp.example.com'
+
+function createJwt(
+  privateKey: KeyObject,
+  header: Record<string, unknown>,
+  claims: Record<string, unknown>
+): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  const signingInput = `${encode(header)}.${encode(claims)}`
+  const signature =
+    header.alg === 'ES256'
+      ? sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+      : sign('sha256', Buffer.from(signingInput), privateKey)
+  return `${signingInput}.${signature.toString('base64url')}`
+}
+
+function createApp() {
+  const app = new Hono<{ Variables: { auth: AuthContext } }>()
+  app.route('/auth', oidcAuthRoutes)
+  app.use('/dashboard/*', dashboardAuth)
+  app.get('/dashboard/whoami', c => c.json(c.get('auth')))
+  return app
+}
+
+describe('dashboardAuth', () => {
+  const savedEnv: Record<string, string | undefined> = {}
+  const albKeys = generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+  const idpKeys = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  let keysDir: string
+  const now = () => Math.floor(Date.now() / 1000)
+
+  beforeAll(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key]
+    }
+    keysDir = mkdtempSync(join(tmpdir(), 'dashboard-auth-'))
+    writeFileSync(
+      join(keysDir, 'alb-keys.json'),
+      JSON.stringify({
+        'alb-key-1': albKeys.publicKey.export({ type: 'spki', format: 'pem' }),
+      })
+    )
+    writeFileSync(
+      join(keysDir, 'idp-jwks.json'),
+      JSON.stringify({
+        keys: [{ ...idpKeys.publicKey.export({ format: 'jwk' }), kid: 'idp-key-1', use: 'sig' }],
+      })
+    )
+  })
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = savedEnv[key]
+      }
+    }
+    resetAlbOidcKeys()
+    resetOidcLoginCache()
+  })
+
+  afterAll(() => {
+    rmSync(keysDir, { recursive: true, force: true })
+  })
+
+  describe('ALB OIDC', () => {
+    const albToken = (claims: Record<string, unknown> = {}, header: Record<string, unknown> = {}) =>
+      createJwt(
+        albKeys.privateKey,
+        { alg: 'ES256', kid: 'alb-key-1', signer: SIGNER_ARN, ...header },
+        { email: 'dev@example.com', exp: now() + 60, ...claims }
+      )
+
+    const enableAlbOidc = () => {
+      delete process.env.DASHBOARD_DEV_USER_EMAIL
+      process.env.DASHBOARD_ALB_OIDC_ENABLED = 'true'
+      process.env.DASHBOARD_ALB_OIDC_KEYS_FILE = join(keysDir, 'alb-keys.json')
+      process.env.DASHBOARD_ALB_OIDC_SIGNER_ARN = SIGNER_ARN
+    }
+
+    test('accepts a token signed by the configured load balancer', async () => {
+      enableAlbOidc()
+
+      const res = await createApp().request('/dashboard/whoami', {
+        headers: { 'x-amzn-oidc-data': albToken() },
+      })
+
+      expect(res.status).toBe(200)
+      expect(await res.json()).toEqual({
+        isAuthenticated: true,
+        principal: 'dev@example.com',
+        source: 'alb-oidc',
+      })
+    })
+
+    test('rejects forged, expired and foreign tokens', async () => {
+      enableAlbOidc()
+      const forged = generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+      const tokens = [
+        createJwt(
+          forged.privateKey,
+          { alg: 'ES256', kid: 'alb-key-1', signer: SIGNER_ARN },
+          { email: 'admin@example.com', exp: now() + 60 }
+        ),
+        albToken({ exp: now() - 120 }),
+        albToken({}, { signer: 'arn:aws:elasticloadbalancing:us-east-1:999999999999:other' }),
+        albToken({}, { kid: 'unknown-key' }),
+        `${albToken().split('.').slice(0, 2).join('.')}.`,
+      ]
+
+      for (const token of tokens) {
+        const res = await createApp().request('/dashboard/whoami', {
+          headers: { 'x-amzn-oidc-data': token },
+        })
+        expect(res.status).toBe(401)
+      }
+    })
+
+    test('ignores forwarded identity headers without or beside the ALB token', async () => {
+      enableAlbOidc()
+
+      const withoutToken = await createApp().request('/dashboard/whoami', {
+        headers: { 'X-Auth-Request-Email': 'admin@example.com' },
+      })
+      expect(withoutToken.status).toBe(401)
+
+      const withoutEmail = await createApp().request('/dashboard/whoami', {
+        headers: {
+          'x-amzn-oidc-data': albToken({ email: undefined }),
+          'X-Auth-Request-Email': 'admin@example.com',
+        },
+      })
+      expect(withoutEmail.status).toBe(401)
+    })
+
+    test('requires the signer ARN', async () => {
+      enableAlbOidc()
+      delete process.env.DASHBOARD_ALB_OIDC_SIGNER_ARN
+
+      expect(() => getAlbOidcSignerArn()).toThrow('DASHBOARD_ALB_OIDC_SIGNER_ARN')
+      const res = await createApp().request('/dashboard/whoami', {
+        headers: { 'x-amzn-oidc-data': albToken() },
+      })
+      expect(res.status).toBe(401)
+    })
+  })
+
+  describe('native OIDC login', () => {
+    const enableOidc = () => {
+      delete process.env.DASHBOARD_DEV_USER_EMAIL
+      process.env.DASHBOARD_OIDC_ISSUER = ISSUER
+      process.env.DASHBOARD_OIDC_CLIENT_ID = 'dashboard'
+      process.env.DASHBOARD_OIDC_KEYS_FILE = join(keysDir, 'idp-jwks.json')
+      process.env.DASHBOARD_SESSION_SECRET = 'x'.repeat(32)
+    }
+
+    const mockIdentityProvider = (claims: () => Record<string, unknown>) =>
+      spyOn(globalThis, 'fetch').mockImplementation((async (input: RequestInfo | URL) => {
+        const url = String(input)
+        if (url === `${ISSUER}/.well-known/openid-configuration`) {
+          return Response.json({
+            issuer: ISSUER,
+            authorization_endpoint: `${ISSUER}/authorize`,
+            token_endpoint: `${ISSUER}/token`,
+          })
+        }
+        if (url === `${ISSUER}/token`) {
+          return Response.json({
+            id_token: createJwt(
+              idpKeys.privateKey,
+              { alg: 'RS256', kid: 'idp-key-1' },
+              { iss: ISSUER, aud: 'dashboard', exp: now() + 300, ...claims() }
+            ),
+          })
+        }
+        return new Response('Not found', { status: 404 })
+      }) as typeof fetch)
+
+    test('redirects browsers to the login route', async () => {
+      enableOidc()
+
+      const res = await createApp().request('/dashboard/whoami?x=1', {
+        headers: { Accept: 'text/html' },
+      })
+
+      expect(res.status).toBe(302)
+      expect(res.headers.get('Location')).toBe('/auth/login?returnTo=%2Fdashboard%2Fwhoami%3Fx%3D1')
+    })
+
+    test('signs in through the authorization code flow', async () => {
+      enableOidc()
+      const app = createApp()
+      let nonce: string | null = null
+      const fetchSpy = mockIdentityProvider(() => ({ email: 'dev@example.com', nonce }))
+
+      try {
+        const login = await app.request('/auth/login?returnTo=/dashboard/whoami')
+        expect(login.status).toBe(302)
+        const authorizeUrl = new URL(login.headers.get('Location') ?? '')
+        expect(`${authorizeUrl.origin}${authorizeUrl.pathname}`).toBe(`${ISSUER}/authorize`)
+        expect(authorizeUrl.searchParams.get('code_challenge_method')).toBe('S256')
+        nonce = authorizeUrl.searchParams.get('nonce')
+        const loginCookie = (login.headers.get('Set-Cookie') ?? '').split(';')[0]
+
+        const callback = await app.request(
+          `/auth/callback?code=abc&state=${authorizeUrl.searchParams.get('state')}`,
+          { headers: { Cookie: loginCookie } }
+        )
+        expect(callback.status).toBe(302)
+        expect(callback.headers.get('Location')).toBe('/dashboard/whoami')
+
+        const sessionCookie = callback.headers
+          .getSetCookie()
+          .find(cookie => cookie.startsWith('dashboard_session='))
+          ?.split(';')[0]
+        expect(sessionCookie).toBeDefined()
+
+        const res = await app.request('/dashboard/whoami', {
+          headers: { Cookie: sessionCookie ?? '' },
+        })
+        expect(await res.json()).toEqual({
+          isAuthenticated: true,
+          principal: 'dev@example.com',
+          source: 'oidc',
+        })
+      } finally {
+        fetchSpy.mockRestore()
+      }
+    })
+
+    test('rejects callbacks whose ID token nonce does not match', async () => {
+      enableOidc()
+      const app = createApp()
+      const fetchSpy = mockIdentityProvider(() => ({ email: 'dev@example.com', nonce: 'other' }))
+
+      try {
+        const login = await app.request('/auth/login')
+        const state = new URL(login.headers.get('Location') ?? '').searchParams.get('state')
+        const loginCookie = (login.headers.get('Set-Cookie') ?? '').split(';')[0]
+
+        const callback = await app.request(`/auth/callback?code=abc&state=${state}`, {
+          headers: { Cookie: loginCookie },
+        })
+
+        expect(callback.status).toBe(401)
+        expect(
+          callback.headers.getSetCookie().some(cookie => cookie.startsWith('dashboard_session='))
+        ).toBe(false)
+      } finally {
+        fetchSpy.mockRestore()
+      }
+    })
+
+    test('ignores forwarded identity headers', async () => {
+      enableOidc()
+
+      const res = await createApp().request('/dashboard/whoami', {
+        headers: { 'X-Auth-Request-Email': 'admin@example.com' },
+      })
+
+      expect(res.status).toBe(401)
+    })
+  })
+})
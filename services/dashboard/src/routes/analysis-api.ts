@@ -1,4 +1,4 @@
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import { ProxyApiClient } from '../services/api-client.js'
 import { logger } from '../middleware/logger.js'
 import {
@@ -10,12 +10,34 @@ import {
   isValidUUID,
 } from '@agent-prompttrain/shared'
 import { HttpError } from '../errors/HttpError.js'
+import { canReadConversation } from '../middleware/project-ownership.js'
+import type { AuthContext } from '../middleware/auth.js'
 
-export const analysisRoutes = new Hono<{
+type AnalysisEnv = {
   Variables: {
     apiClient?: ProxyApiClient
+    auth?: AuthContext
   }
-}>()
+}
+
+export const analysisRoutes = new Hono<AnalysisEnv>()
+
+/**
+ * Error response unless the signed-in user can read the conversation's project
+ */
+async function checkConversationAccess(
+  c: Context<AnalysisEnv>,
+  conversationId: string
+): Promise<Response | null> {
+  const auth = c.get('auth')
+  if (!auth?.principal) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  if (!(await canReadConversation(conversationId, auth.principal))) {
+    return c.json({ error: 'Access denied: Your project role cannot read conversations' }, 403)
+  }
+  return null
+}
 
 /**
  * POST /api/analyses
@@ -42,6 +64,11 @@ analysisRoutes.post('/analyses', async c => {
       )
     }
 
+    const denied = await checkConversationAccess(c, parseResult.data.conversationId)
+    if (denied) {
+      return denied
+    }
+
     // Forward to proxy service
     const response = await apiClient.post<CreateAnalysisResponse>('/api/analyses', parseResult.data)
 
@@ -78,6 +105,11 @@ analysisRoutes.get('/analyses/:conversationId/:branchId', async c => {
     return c.json({ error: 'Invalid conversation ID format' }, 400)
   }
 
+  const denied = await checkConversationAccess(c, conversationId)
+  if (denied) {
+    return denied
+  }
+
   try {
     // Forward to proxy service
     const response = await apiClient.get<GetAnalysisResponse>(
@@ -115,6 +147,11 @@ analysisRoutes.post('/analyses/:conversationId/:branchId/regenerate', async c =>
     return c.json({ error: 'Invalid conversation ID format' }, 400)
   }
 
+  const denied = await checkConversationAccess(c, conversationId)
+  if (denied) {
+    return denied
+  }
+
   try {
     // Forward to proxy service
     const response = await apiClient.post<RegenerateAnalysisResponse>(
@@ -5,18 +5,25 @@ import {
   createTrainApiKey,
   revokeTrainApiKey,
   updateTrainApiKeyName,
+  updateTrainApiKeyScopes,
   getProjectByProjectId,
   getTrainApiKeySafe,
-  isProjectOwner,
-  isProjectMember,
+  checkProjectPermission,
   deleteTrainApiKey,
 } from '@agent-prompttrain/shared/database/queries'
-import type { CreateApiKeyRequest, UpdateApiKeyRequest } from '@agent-prompttrain/shared'
+import {
+  diffAuditChanges,
+  validateApiKeyScopes,
+  type AuditChanges,
+  type CreateApiKeyRequest,
+  type UpdateApiKeyRequest,
+} from '@agent-prompttrain/shared'
 import type { AuthContext } from '../middleware/auth.js'
+import { recordAudit } from '../utils/audit.js'
 
 const apiKeys = new Hono<{ Variables: { auth: AuthContext } }>()
 
-// GET /api/projects/:projectId/api-keys - List project API keys (members only, filtered by ownership)
+// GET /api/projects/:projectId/api-keys - List project API keys (owners and members, filtered by ownership)
 apiKeys.get('/:projectId/api-keys', async c => {
   try {
     const pool = container.getPool()
@@ -33,14 +40,17 @@ apiKeys.get('/:projectId/api-keys', async c => {
       return c.json({ error: 'Project not found' }, 404)
     }
 
-    // Check project membership
-    const isMember = await isProjectMember(pool, train.id, auth.principal)
+    // Viewers and billing members cannot use API keys
+    const isMember = await checkProjectPermission(pool, train.id, auth.principal, 'project.use')
     if (!isMember) {
-      return c.json({ error: 'Access denied: You are not a member of this project' }, 403)
+      return c.json(
+        { error: 'Access denied: Your project role does not allow managing API keys' },
+        403
+      )
     }
 
-    // Check if user is project owner
-    const isOwner = await isProjectOwner(pool, train.id, auth.principal)
+    // Check if user can manage the project (owner or org admin)
+    const isOwner = await checkProjectPermission(pool, train.id, auth.principal, 'project.manage')
 
     const allKeys = await listTrainApiKeys(pool, train.id)
 
@@ -54,7 +64,7 @@ apiKeys.get('/:projectId/api-keys', async c => {
   }
 })
 
-// POST /api/projects/:projectId/api-keys - Generate new API key (members only)
+// POST /api/projects/:projectId/api-keys - Generate new API key (owners and members)
 apiKeys.post('/:projectId/api-keys', async c => {
   try {
     const pool = container.getPool()
@@ -71,20 +81,37 @@ apiKeys.post('/:projectId/api-keys', async c => {
       return c.json({ error: 'Project not found' }, 404)
     }
 
-    // Check project membership
-    const isMember = await isProjectMember(pool, train.id, auth.principal)
+    // Viewers and billing members cannot use API keys
+    const isMember = await checkProjectPermission(pool, train.id, auth.principal, 'project.use')
     if (!isMember) {
-      return c.json({ error: 'Access denied: You are not a member of this project' }, 403)
+      return c.json(
+        { error: 'Access denied: Your project role does not allow managing API keys' },
+        403
+      )
     }
 
     const body = await c.req.json<CreateApiKeyRequest>()
 
+    const scopeResult = validateApiKeyScopes(body)
+    if (!scopeResult.valid) {
+      return c.json({ error: scopeResult.error }, 400)
+    }
+
     // Add creator to the request
     const generatedKey = await createTrainApiKey(pool, train.id, {
       ...body,
+      ...scopeResult.scopes,
       created_by: auth.principal,
     })
 
+    await recordAudit(c, {
+      action: 'api_key.created',
+      target_type: 'api_key',
+      target_id: generatedKey.id,
+      project_id: train.project_id,
+      metadata: { name: generatedKey.name, key_preview: generatedKey.key_preview },
+    })
+
     return c.json({ api_key: generatedKey }, 201)
   } catch (error) {
     console.error('Failed to create API key:', error)
@@ -92,7 +119,7 @@ apiKeys.post('/:projectId/api-keys', async c => {
   }
 })
 
-// PATCH /api/projects/:projectId/api-keys/:keyId - Update API key name (owner or key creator only)
+// PATCH /api/projects/:projectId/api-keys/:keyId - Update API key name or scopes (owner or key creator only)
 apiKeys.patch('/:projectId/api-keys/:keyId', async c => {
   try {
     const pool = container.getPool()
@@ -110,10 +137,13 @@ apiKeys.patch('/:projectId/api-keys/:keyId', async c => {
       return c.json({ error: 'Project not found' }, 404)
     }
 
-    // Check project membership
-    const isMember = await isProjectMember(pool, train.id, auth.principal)
+    // Viewers and billing members cannot use API keys
+    const isMember = await checkProjectPermission(pool, train.id, auth.principal, 'project.use')
     if (!isMember) {
-      return c.json({ error: 'Access denied: You are not a member of this project' }, 403)
+      return c.json(
+        { error: 'Access denied: Your project role does not allow managing API keys' },
+        403
+      )
     }
 
     // Get the API key to check ownership
@@ -128,7 +158,7 @@ apiKeys.patch('/:projectId/api-keys/:keyId', async c => {
     }
 
     // Check if user is project owner OR key creator
-    const isOwner = await isProjectOwner(pool, train.id, auth.principal)
+    const isOwner = await checkProjectPermission(pool, train.id, auth.principal, 'project.manage')
     const isKeyCreator = apiKey.created_by === auth.principal
 
     if (!isOwner && !isKeyCreator) {
@@ -160,10 +190,44 @@ apiKeys.patch('/:projectId/api-keys/:keyId', async c => {
         return c.json({ error: 'Failed to revoke API key' }, 500)
       }
 
+      await recordAudit(c, {
+        action: 'api_key.revoked',
+        target_type: 'api_key',
+        target_id: keyId,
+        project_id: train.project_id,
+        metadata: { name: apiKey.name, key_preview: apiKey.key_preview },
+      })
+
       const updatedKey = await getTrainApiKeySafe(pool, keyId)
       return c.json({ api_key: updatedKey })
     }
 
+    const scopeResult = validateApiKeyScopes(body)
+    if (!scopeResult.valid) {
+      return c.json({ error: scopeResult.error }, 400)
+    }
+
+    const scopes = scopeResult.scopes ?? {}
+    const changes: AuditChanges = {}
+
+    if (Object.keys(scopes).length > 0) {
+      if (apiKey.revoked_at) {
+        return c.json({ error: 'Cannot change the scopes of a revoked API key' }, 400)
+      }
+
+      const success = await updateTrainApiKeyScopes(pool, keyId, scopes)
+      if (!success) {
+        return c.json({ error: 'API key not found or update failed' }, 404)
+      }
+
+      Object.assign(changes, diffAuditChanges(apiKey, scopes))
+
+      // Scope-only updates leave the name as it is
+      if (!('name' in body)) {
+        body.name = apiKey.name
+      }
+    }
+
     // Validate name if provided
     if (body.name !== undefined && body.name !== null && typeof body.name === 'string') {
       if (body.name.trim().length === 0) {
@@ -181,6 +245,20 @@ apiKeys.patch('/:projectId/api-keys/:keyId', async c => {
       return c.json({ error: 'API key not found or update failed' }, 404)
     }
 
+    if ((body.name ?? null) !== apiKey.name) {
+      changes.name = { before: apiKey.name, after: body.name ?? null }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await recordAudit(c, {
+        action: 'api_key.updated',
+        target_type: 'api_key',
+        target_id: keyId,
+        project_id: train.project_id,
+        changes,
+      })
+    }
+
     // Return the updated key
     const updatedKey = await getTrainApiKeySafe(pool, keyId)
     return c.json({ api_key: updatedKey })
@@ -208,10 +286,13 @@ apiKeys.delete('/:projectId/api-keys/:keyId', async c => {
       return c.json({ error: 'Project not found' }, 404)
     }
 
-    // Check project membership
-    const isMember = await isProjectMember(pool, train.id, auth.principal)
+    // Viewers and billing members cannot use API keys
+    const isMember = await checkProjectPermission(pool, train.id, auth.principal, 'project.use')
     if (!isMember) {
-      return c.json({ error: 'Access denied: You are not a member of this project' }, 403)
+      return c.json(
+        { error: 'Access denied: Your project role does not allow managing API keys' },
+        403
+      )
     }
 
     // Get the API key
@@ -226,7 +307,7 @@ apiKeys.delete('/:projectId/api-keys/:keyId', async c => {
     }
 
     // Check if user is project owner OR key creator
-    const isOwner = await isProjectOwner(pool, train.id, auth.principal)
+    const isOwner = await checkProjectPermission(pool, train.id, auth.principal, 'project.manage')
     const isKeyCreator = apiKey.created_by === auth.principal
 
     if (!isOwner && !isKeyCreator) {
@@ -247,6 +328,14 @@ apiKeys.delete('/:projectId/api-keys/:keyId', async c => {
       return c.json({ error: 'Failed to delete API key' }, 500)
     }
 
+    await recordAudit(c, {
+      action: 'api_key.deleted',
+      target_type: 'api_key',
+      target_id: keyId,
+      project_id: train.project_id,
+      metadata: { name: apiKey.name, key_preview: apiKey.key_preview },
+    })
+
     return c.json({ success: true })
   } catch (error) {
     console.error('Failed to delete API key:', error)
@@ -0,0 +1,366 @@
+import { Hono, type Context } from 'hono'
+import { html } from 'hono/html'
+import { AUDIT_ACTIONS, getErrorMessage } from '@agent-prompttrain/shared'
+import type { AuditAction, AuditEvent, AuditEventFilter } from '@agent-prompttrain/shared/types'
+import { listAuditActors, listAuditEvents } from '@agent-prompttrain/shared/database/queries'
+import { container } from '../container.js'
+import { layout } from '../layout/index.js'
+import { logger } from '../middleware/logger.js'
+import type { AuthContext } from '../middleware/auth.js'
+
+const EVENTS_PER_PAGE = 50
+const EXPORT_BATCH_SIZE = 1000
+const EXPORT_MAX_ROWS = 50000
+
+export const auditLogRoutes = new Hono<{
+  Variables: {
+    auth?: AuthContext
+  }
+}>()
+
+interface AuditFilterParams {
+  actor: string
+  action: string
+  projectId: string
+  dateFrom: string
+  dateTo: string
+}
+
+function readFilterParams(c: Context): AuditFilterParams {
+  return {
+    actor: (c.req.query('actor') || '').trim(),
+    action: c.req.query('action') || '',
+    projectId: (c.req.query('projectId') || '').trim(),
+    dateFrom: c.req.query('dateFrom') || '',
+    dateTo: c.req.query('dateTo') || '',
+  }
+}
+
+function toAuditFilter(params: AuditFilterParams, viewer: string): AuditEventFilter {
+  const from = params.dateFrom ? new Date(`${params.dateFrom}T00:00:00Z`) : undefined
+  // Date inputs are inclusive of the whole day
+  const to = params.dateTo ? new Date(`${params.dateTo}T00:00:00Z`) : undefined
+  to?.setUTCDate(to.getUTCDate() + 1)
+
+  return {
+    actor: params.actor || undefined,
+    action: (AUDIT_ACTIONS as readonly string[]).includes(params.action)
+      ? (params.action as AuditAction)
+      : undefined,
+    projectId: params.projectId || undefined,
+    from: from && !isNaN(from.getTime()) ? from : undefined,
+    to: to && !isNaN(to.getTime()) ? to : undefined,
+    viewer,
+  }
+}
+
+function filterQueryString(params: AuditFilterParams, extra: Record<string, string> = {}): string {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries({ ...params, ...extra })) {
+    if (value) {
+      query.set(key, value)
+    }
+  }
+  return query.toString()
+}
+
+function formatChangeValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '—'
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function renderChanges(event: AuditEvent) {
+  const entries = Object.entries(event.changes ?? {})
+  if (entries.length === 0) {
+    return ''
+  }
+  return html`
+    <ul style="margin: 0; padding-left: 1rem; font-size: 0.75rem;">
+      ${entries.map(
+        ([field, change]) => html`
+          <li style="word-break: break-word;">
+            <code>${field}</code>:
+            <span class="text-gray-500">${formatChangeValue(change.before)}</span>
+            → ${formatChangeValue(change.after)}
+          </li>
+        `
+      )}
+    </ul>
+  `
+}
+
+function renderEventRow(event: AuditEvent) {
+  const occurredAt = new Date(event.occurred_at)
+  return html`
+    <tr>
+      <td style="white-space: nowrap;" title="${occurredAt.toISOString()}">
+        ${occurredAt.toISOString().replace('T', ' ').slice(0, 19)}
+      </td>
+      <td>
+        ${event.actor}
+        ${event.actor_source
+          ? html`<div class="text-sm text-gray-500">${event.actor_source}</div>`
+          : ''}
+      </td>
+      <td><code>${event.action}</code></td>
+      <td>
+        ${event.project_id
+          ? html`<a
+              href="/dashboard/audit?${filterQueryString({
+                actor: '',
+                action: '',
+                projectId: event.project_id,
+                dateFrom: '',
+                dateTo: '',
+              })}"
+              class="text-blue-600"
+              >${event.project_id}</a
+            >`
+          : '—'}
+      </td>
+      <td>
+        <span class="text-sm text-gray-600">${event.target_type}</span>
+        ${event.target_id ? html`<div style="word-break: break-all;">${event.target_id}</div>` : ''}
+      </td>
+      <td>${renderChanges(event)}</td>
+      <td style="font-family: monospace; font-size: 0.75rem;">${event.request_id ?? ''}</td>
+    </tr>
+  `
+}
+
+/**
+ * Format a value as a CSV field. Values that a spreadsheet would evaluate as a
+ * formula (leading `=`, `+`, `-`, `@`, tab or CR) are prefixed with `'`.
+ */
+export function escapeCsvField(value: unknown): string {
+  let text =
+    value === null || value === undefined
+      ? ''
+      : typeof value === 'string'
+        ? value
+        : value instanceof Date
+          ? value.toISOString()
+          : JSON.stringify(value)
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const CSV_COLUMNS: Array<keyof AuditEvent> = [
+  'occurred_at',
+  'actor',
+  'actor_source',
+  'action',
+  'project_id',
+  'target_type',
+  'target_id',
+  'changes',
+  'metadata',
+  'request_id',
+]
+
+/**
+ * Audit log page - administrative actions across all projects
+ */
+auditLogRoutes.get('/audit', async c => {
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(
+      layout(
+        'Error',
+        html`<div class="error-banner"><strong>Error:</strong> Database not configured</div>`
+      )
+    )
+  }
+
+  if (!auth?.isAuthenticated) {
+    return c.html(
+      layout(
+        'Error',
+        html`<div class="error-banner"><strong>Error:</strong> Unauthorized - please log in</div>`
+      )
+    )
+  }
+
+  const params = readFilterParams(c)
+  const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1)
+
+  let events: AuditEvent[] = []
+  let total = 0
+  let actors: string[] = []
+  let error: string | null = null
+
+  try {
+    const [result, actorList] = await Promise.all([
+      listAuditEvents(pool, {
+        ...toAuditFilter(params, auth.principal),
+        limit: EVENTS_PER_PAGE,
+        offset: (page - 1) * EVENTS_PER_PAGE,
+      }),
+      listAuditActors(pool),
+    ])
+    events = result.events
+    total = result.total
+    actors = actorList
+  } catch (err) {
+    logger.error('Failed to load audit events', { error: getErrorMessage(err) })
+    error = 'Failed to load audit events.'
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / EVENTS_PER_PAGE))
+
+  const content = html`
+    ${error ? html`<div class="error-banner">${error}</div>` : ''}
+
+    <div class="mb-6">
+      <a href="/dashboard" class="text-blue-600">← Back to Dashboard</a>
+    </div>
+
+    <div class="section">
+      <div class="section-header">Audit log</div>
+      <div class="section-content">
+        <form
+          method="get"
+          action="/dashboard/audit"
+          style="display: flex; gap: 0.75rem; flex-wrap: wrap; align-items: center;"
+        >
+          <select name="actor">
+            <option value="">All actors</option>
+            ${actors.map(
+              actor =>
+                html`<option value="${actor}" ${params.actor === actor ? 'selected' : ''}>
+                  ${actor}
+                </option>`
+            )}
+          </select>
+          <select name="action">
+            <option value="">All actions</option>
+            ${AUDIT_ACTIONS.map(
+              action =>
+                html`<option value="${action}" ${params.action === action ? 'selected' : ''}>
+                  ${action}
+                </option>`
+            )}
+          </select>
+          <input
+            type="text"
+            name="projectId"
+            value="${params.projectId}"
+            placeholder="Project ID"
+          />
+          <label class="text-sm text-gray-600"
+            >From <input type="date" name="dateFrom" value="${params.dateFrom}"
+          /></label>
+          <label class="text-sm text-gray-600"
+            >To <input type="date" name="dateTo" value="${params.dateTo}"
+          /></label>
+          <button type="submit" class="btn">Filter</button>
+          <a
+            href="/dashboard/audit/export.csv?${filterQueryString(params)}"
+            class="btn btn-secondary"
+            >Export CSV</a
+          >
+        </form>
+      </div>
+    </div>
+
+    <div class="section">
+      <div class="section-header">
+        Events
+        <span class="text-sm text-gray-500" style="margin-left: 0.5rem;"
+          >${total} total · page ${page} of ${totalPages}</span
+        >
+      </div>
+      <div class="section-content" style="overflow-x: auto;">
+        ${events.length === 0
+          ? html`<p class="text-gray-500">No audit events match these filters.</p>`
+          : html`
+              <table>
+                <thead>
+                  <tr>
+                    <th>Time (UTC)</th>
+                    <th>Actor</th>
+                    <th>Action</th>
+                    <th>Project</th>
+                    <th>Target</th>
+                    <th>Changes</th>
+                    <th>Request ID</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${events.map(renderEventRow)}
+                </tbody>
+              </table>
+            `}
+        <div style="display: flex; justify-content: space-between; margin-top: 1rem;">
+          ${page > 1
+            ? html`<a
+                href="/dashboard/audit?${filterQueryString(params, { page: String(page - 1) })}"
+                class="btn btn-secondary"
+                >← Previous</a
+              >`
+            : html`<span></span>`}
+          ${page < totalPages
+            ? html`<a
+                href="/dashboard/audit?${filterQueryString(params, { page: String(page + 1) })}"
+                class="btn btn-secondary"
+                >Next →</a
+              >`
+            : ''}
+        </div>
+      </div>
+    </div>
+  `
+
+  return c.html(layout('Audit Log', content, '', c))
+})
+
+/**
+ * CSV export of the audit events matching the page filters
+ */
+auditLogRoutes.get('/audit/export.csv', async c => {
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.text('Database not configured', 503)
+  }
+
+  if (!auth?.isAuthenticated) {
+    return c.text('Unauthorized', 401)
+  }
+
+  const filter = toAuditFilter(readFilterParams(c), auth.principal)
+  const lines = [CSV_COLUMNS.join(',')]
+
+  try {
+    for (let offset = 0; offset < EXPORT_MAX_ROWS; offset += EXPORT_BATCH_SIZE) {
+      const { events } = await listAuditEvents(pool, {
+        ...filter,
+        limit: EXPORT_BATCH_SIZE,
+        offset,
+      })
+      for (const event of events) {
+        lines.push(CSV_COLUMNS.map(column => escapeCsvField(event[column])).join(','))
+      }
+      if (events.length < EXPORT_BATCH_SIZE) {
+        break
+      }
+    }
+  } catch (err) {
+    logger.error('Failed to export audit events', { error: getErrorMessage(err) })
+    return c.text('Failed to export audit events', 500)
+  }
+
+  c.header('Content-Type', 'text/csv; charset=utf-8')
+  c.header(
+    'Content-Disposition',
+    `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`
+  )
+  return c.body(`${lines.join('\r\n')}\r\n`)
+})
@@ -1,13 +1,17 @@
 import { Hono } from 'hono'
 import { html } from 'hono/html'
+import { deleteCookie } from 'hono/cookie'
+import { OIDC_SESSION_COOKIE } from '../services/oidc-login.js'
 
 export const authRoutes = new Hono()
 
 /**
  * Logout - clears any local state and redirects to dashboard
- * Note: With oauth2-proxy, the user will be immediately re-authenticated
+ * Note: With oauth2-proxy, the user will be immediately re-authenticated.
+ * With native OIDC login, this ends the dashboard session (not the identity provider's).
  */
 authRoutes.get('/logout', c => {
+  deleteCookie(c, OIDC_SESSION_COOKIE, { path: '/' })
   return c.html(html`
     <!DOCTYPE html>
     <html lang="en">
@@ -1,6 +1,28 @@
 import { Hono } from 'hono'
 import { html, raw } from 'hono/html'
-import { getErrorMessage } from '@agent-prompttrain/shared'
+import {
+  getErrorMessage,
+  CONVERSATION_ANNOTATION_KINDS,
+  CONVERSATION_SHARE_TTL_DAYS,
+  CONVERSATION_TAG_PATTERN,
+  DEFAULT_CONVERSATION_SHARE_TTL_DAYS,
+  MAX_CONVERSATION_NOTE_LENGTH,
+  type ConversationAnnotation,
+  type ConversationAnnotationKind,
+  type ConversationShare,
+  type ConversationShareView,
+} from '@agent-prompttrain/shared'
+import {
+  checkProjectPermission,
+  createConversationAnnotation,
+  createConversationShare,
+  deleteConversationAnnotation,
+  getProjectByProjectId,
+  listConversationAnnotations,
+  listConversationShareViews,
+  listConversationShares,
+  revokeConversationShare,
+} from '@agent-prompttrain/shared/database/queries'
 import { csrfProtection } from '../middleware/csrf.js'
 import {
   ConversationGraph,
@@ -14,10 +36,24 @@ import {
   calculateConversationMetrics,
   formatDuration as formatMetricDuration,
 } from '../utils/conversation-metrics.js'
+import {
+  diffBranches,
+  type BranchDiff,
+  type BranchDiffStep,
+  type BranchDiffTotals,
+} from '../utils/branch-diff.js'
 import type { ConversationRequest } from '../types/conversation.js'
+import { ProxyApiClient } from '../services/api-client.js'
+import { HttpError } from '../errors/HttpError.js'
+import { logger } from '../middleware/logger.js'
+import { canReadProject } from '../middleware/project-ownership.js'
+import { getShareLinkSecret } from '../config.js'
+import { getSharePath } from '../services/share-links.js'
+import { recordAudit } from '../utils/audit.js'
 
 export const conversationDetailRoutes = new Hono<{
   Variables: {
+    apiClient?: ProxyApiClient
     csrfToken?: string
     auth?: {
       principal: string
@@ -585,6 +621,8 @@ conversationDetailRoutes.get('/conversation/:id', async c => {
       }
     }
 
+    const requestAnnotations = await loadRequestAnnotations(conversationId)
+
     const content = html`
       <div class="mb-6">
         <a href="/dashboard" class="text-blue-600">← Back to Dashboard</a>
@@ -787,6 +825,70 @@ conversationDetailRoutes.get('/conversation/:id', async c => {
         )}
       </div>
 
+      <!-- Export the selected branch (main when all branches are shown) -->
+      <div class="branch-filter" id="conversation-export">
+        <span class="text-sm text-gray-600">Export ${selectedBranch || 'main'}:</span>
+        ${raw(
+          [
+            ['markdown', 'Markdown'],
+            ['json', 'JSON'],
+            ['jsonl', 'Claude Code JSONL'],
+          ]
+            .map(
+              ([format, label]) => `
+            <a href="/dashboard/conversation/${conversationId}/export?branch=${encodeURIComponent(selectedBranch || 'main')}&format=${format}"
+               class="branch-chip" download>${label}</a>
+          `
+            )
+            .join('')
+        )}
+      </div>
+
+      <!-- Tags, notes and bookmarks (loaded for users who can read the conversation) -->
+      <div
+        id="conversation-annotations"
+        hx-get="/dashboard/conversation/${conversationId}/annotations"
+        hx-trigger="load"
+        hx-swap="outerHTML"
+      ></div>
+
+      <!-- Share links (loaded for users who can manage the project) -->
+      <div
+        id="conversation-shares"
+        hx-get="/dashboard/conversation/${conversationId}/shares"
+        hx-trigger="load"
+        hx-swap="outerHTML"
+      ></div>
+
+      <!-- Compare the selected branch (or the first fork) against main -->
+      ${Object.keys(branchStats).length > 1
+        ? html`
+            <div class="branch-filter" id="branch-compare">
+              <span class="text-sm text-gray-600">Compare:</span>
+              <a
+                href="/dashboard/conversation/${conversationId}/diff?left=main&right=${encodeURIComponent(
+                  selectedBranch && selectedBranch !== 'main'
+                    ? selectedBranch
+                    : Object.keys(branchStats).find(branch => branch !== 'main') || ''
+                )}"
+                class="branch-chip"
+                >Branch diff</a
+              >
+            </div>
+          `
+        : ''}
+
+      <!-- Live activity notice (filled by the live event stream below) -->
+      <div
+        id="live-activity"
+        style="display: none; background: #eff6ff; border: 1px solid #bfdbfe; color: #1e40af; padding: 0.5rem 0.75rem; border-radius: 0.25rem; margin-bottom: 1rem; font-size: 0.875rem;"
+      >
+        <span id="live-activity-text"></span>
+        <a href="" onclick="window.location.reload(); return false;" style="margin-left: 0.5rem;"
+          >Reload graph and stats</a
+        >
+      </div>
+
       <!-- Tab Navigation -->
       <div class="tab-container" style="margin: 1.5rem 0; border-bottom: 1px solid #e5e7eb;">
         <div style="display: flex; gap: 0;">
@@ -868,7 +970,14 @@ conversationDetailRoutes.get('/conversation/:id', async c => {
           class="conversation-timeline"
           style="display: ${view === 'timeline' ? 'block' : 'none'};"
         >
-          ${raw(renderConversationMessages(filteredRequests, conversation.branches, subtasksMap))}
+          ${raw(
+            renderConversationMessages(
+              filteredRequests,
+              conversation.branches,
+              subtasksMap,
+              requestAnnotations
+            )
+          )}
         </div>
 
         <!-- AI Analysis -->
@@ -951,6 +1060,15 @@ conversationDetailRoutes.get('/conversation/:id', async c => {
             })
           })
 
+          // Highlight the message linked from search results (#message-<requestId>)
+          if (window.location.hash.startsWith('#message-')) {
+            const target = document.getElementById(window.location.hash.slice(1))
+            if (target) {
+              target.style.outline = '2px solid #3b82f6'
+              target.scrollIntoView({ block: 'center' })
+            }
+          }
+
           // Add hover functionality for sub-task tooltips
           const subtaskGroups = document.querySelectorAll('.subtask-node-group')
 
@@ -1102,9 +1220,45 @@ conversationDetailRoutes.get('/conversation/:id', async c => {
       </script>
     `
 
+    // Follow new requests in this conversation while the page is open. The timeline
+    // is refreshed in place; the graph and stats are server-rendered, so offer a reload.
+    const liveScript = `<script>
+      (function () {
+        if (!window.EventSource) return
+        var conversationId = ${JSON.stringify(conversationId).replace(/</g, '\\u003c')}
+        var branch = ${JSON.stringify(selectedBranch || '').replace(/</g, '\\u003c')}
+        var newRequests = 0
+        var refreshTimer = null
+        var source = new EventSource(
+          '/dashboard/live/events?conversationId=' + encodeURIComponent(conversationId)
+        )
+        source.addEventListener('conversation', function (event) {
+          var update = JSON.parse(event.data)
+          if (branch && update.branchId && update.branchId !== branch) return
+          newRequests++
+          document.getElementById('live-activity-text').textContent =
+            newRequests + ' new request' + (newRequests === 1 ? '' : 's') + ' since page load.'
+          document.getElementById('live-activity').style.display = 'block'
+          if (!window.htmx) return
+          clearTimeout(refreshTimer)
+          refreshTimer = setTimeout(function () {
+            htmx.ajax(
+              'GET',
+              '/dashboard/conversation/' + encodeURIComponent(conversationId) + '/messages' +
+                (branch ? '?branch=' + encodeURIComponent(branch) : ''),
+              { target: '#timeline-panel', swap: 'innerHTML' }
+            )
+          }, 1000)
+        })
+        window.addEventListener('beforeunload', function () {
+          source.close()
+        })
+      })()
+    </script>`
+
     // Use the shared layout
     const { layout } = await import('../layout/index.js')
-    return c.html(layout('Conversation Detail', content, '', c))
+    return c.html(layout('Conversation Detail', content, raw(liveScript), c))
   } catch (error) {
     console.error('Error loading conversation detail:', error)
     const { layout } = await import('../layout/index.js')
@@ -1123,6 +1277,114 @@ conversationDetailRoutes.get('/conversation/:id', async c => {
   }
 })
 
+/**
+ * Side-by-side comparison of two branches from the point where they fork
+ */
+conversationDetailRoutes.get('/conversation/:id/diff', async c => {
+  const conversationId = c.req.param('id')
+  const auth = c.get('auth')
+  const { layout } = await import('../layout/index.js')
+
+  // Get storage service from container
+  const { container } = await import('../container.js')
+  const storageService = container.getStorageService()
+
+  const errorPage = (message: string) =>
+    c.html(
+      layout(
+        'Error',
+        html`<div class="error-banner"><strong>Error:</strong> ${message}</div>`,
+        '',
+        c
+      )
+    )
+
+  try {
+    const conversation = await storageService.getConversationById(conversationId)
+
+    if (!conversation) {
+      return errorPage('Conversation not found')
+    }
+
+    // Check if user has access to this conversation's project
+    if (auth?.principal && conversation.requests.length > 0) {
+      const projectId = conversation.requests[0].projectId
+      const hasAccess = await storageService.checkUserProjectAccess(auth.principal, projectId)
+
+      if (!hasAccess) {
+        return errorPage("Access denied. You don't have permission to view this conversation.")
+      }
+    }
+
+    const branches = [...new Set(conversation.requests.map(r => r.branch_id || 'main'))]
+    const left = c.req.query('left') || 'main'
+    const right = c.req.query('right') || branches.find(branch => branch !== left) || left
+
+    if (left === right) {
+      return errorPage('Select two different branches to compare.')
+    }
+
+    const diff = diffBranches(conversation.requests, left, right)
+    if (!diff) {
+      return errorPage(
+        `Branch ${!branches.includes(left) ? left : right} not found in this conversation.`
+      )
+    }
+
+    const branchOptions = (selected: string) =>
+      raw(
+        branches
+          .map(
+            branch =>
+              `<option value="${escapeHtml(branch)}"${branch === selected ? ' selected' : ''}>${escapeHtml(branch)}</option>`
+          )
+          .join('')
+      )
+
+    const content = html`
+      <div class="mb-6">
+        <a href="/dashboard/conversation/${conversationId}" class="text-blue-600"
+          >← Back to Conversation</a
+        >
+      </div>
+
+      <h3 style="margin: 0 0 1rem 0; font-size: 1.25rem; font-weight: 600;">Compare Branches</h3>
+
+      <form
+        method="get"
+        action="/dashboard/conversation/${conversationId}/diff"
+        class="branch-filter"
+        id="branch-diff-form"
+      >
+        <select name="left">
+          ${branchOptions(left)}
+        </select>
+        <span class="text-sm text-gray-600">vs</span>
+        <select name="right">
+          ${branchOptions(right)}
+        </select>
+        <button type="submit" class="btn btn-secondary">Compare</button>
+      </form>
+
+      <p class="text-sm text-gray-600" style="margin: 1rem 0;">
+        ${diff.forkRequestId
+          ? raw(
+              `${diff.shared.length} shared request${diff.shared.length === 1 ? '' : 's'}; the branches fork after <a href="/dashboard/request/${diff.forkRequestId}" class="text-blue-600">${diff.forkRequestId}</a>.`
+            )
+          : 'The branches share no requests.'}
+        Totals below cover only the requests after the fork.
+      </p>
+
+      ${raw(renderBranchDiff(diff))}
+    `
+
+    return c.html(layout('Compare Branches', content, '', c))
+  } catch (error) {
+    console.error('Error loading branch diff:', error)
+    return errorPage(getErrorMessage(error) || 'Failed to compare branches')
+  }
+})
+
 /**
  * HTMX endpoint for updating just the messages part
  */
@@ -1182,13 +1444,509 @@ conversationDetailRoutes.get('/conversation/:id/messages', async c => {
       filteredRequests = conversation.requests.filter(r => r.branch_id === 'main' || !r.branch_id)
     }
 
-    return c.html(renderConversationMessages(filteredRequests, conversation.branches))
+    return c.html(
+      renderConversationMessages(
+        filteredRequests,
+        conversation.branches,
+        undefined,
+        await loadRequestAnnotations(conversationId)
+      )
+    )
   } catch (error) {
     console.error('Error loading conversation messages:', error)
     return c.html(html`<div class="error-banner">Failed to load messages</div>`)
   }
 })
 
+/**
+ * Download a conversation branch as Markdown, JSON or Claude Code JSONL.
+ * The export is built by the proxy; private projects are only exported to members.
+ */
+conversationDetailRoutes.get('/conversation/:id/export', async c => {
+  const conversationId = c.req.param('id')
+  const apiClient = c.get('apiClient')
+  const auth = c.get('auth')
+
+  if (!auth?.principal) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  if (!apiClient) {
+    return c.json({ error: 'API client not configured' }, 503)
+  }
+
+  try {
+    const upstream = await apiClient.exportConversation(conversationId, {
+      branch: c.req.query('branch') || 'main',
+      format: c.req.query('format') || 'markdown',
+      userEmail: auth.principal,
+    })
+
+    const projectId = upstream.headers.get('X-Project-Id')
+    if (!projectId || !(await canReadProject(projectId, auth.principal))) {
+      return c.json({ error: 'Access denied: You are not a member of this project' }, 403)
+    }
+
+    return new Response(upstream.body, {
+      status: 200,
+      headers: {
+        'Content-Type': upstream.headers.get('Content-Type') || 'application/octet-stream',
+        'Content-Disposition': upstream.headers.get('Content-Disposition') || 'attachment',
+      },
+    })
+  } catch (error) {
+    if (HttpError.isHttpError(error) && [400, 403, 404].includes(error.status)) {
+      return c.json({ error: error.message }, error.status as 400 | 403 | 404)
+    }
+    logger.error('Failed to export conversation', {
+      error: getErrorMessage(error),
+      metadata: { conversationId },
+    })
+    return c.json({ error: 'Failed to export conversation' }, 502)
+  }
+})
+
+/**
+ * Resolve a conversation's project for share link management, which is limited
+ * to users who can manage the project (owners and organization admins)
+ */
+async function loadShareableConversation(
+  conversationId: string,
+  principal: string | undefined
+): Promise<{ projectUuid: string; projectId: string; branches: string[] } | { error: string }> {
+  const { container } = await import('../container.js')
+  const pool = container.getPool()
+  const conversation = await container.getStorageService().getConversationById(conversationId)
+
+  if (!conversation || conversation.requests.length === 0) {
+    return { error: 'Conversation not found' }
+  }
+  const project = await getProjectByProjectId(pool, conversation.requests[0].projectId)
+  if (
+    !principal ||
+    !project ||
+    !(await checkProjectPermission(pool, project.id, principal, 'project.manage'))
+  ) {
+    return { error: 'Only project owners can share conversations' }
+  }
+
+  return {
+    projectUuid: project.id,
+    projectId: project.project_id,
+    branches: [...new Set(conversation.requests.map(r => r.branch_id || 'main'))],
+  }
+}
+
+async function renderSharesForConversation(
+  conversationId: string,
+  branches: string[],
+  origin: string
+) {
+  const { container } = await import('../container.js')
+  const pool = container.getPool()
+  const [shares, views] = await Promise.all([
+    listConversationShares(pool, conversationId),
+    listConversationShareViews(pool, conversationId),
+  ])
+  return renderSharesSection(conversationId, branches, shares, views, origin)
+}
+
+/**
+ * Share links panel of the conversation page; empty for users who cannot share
+ */
+conversationDetailRoutes.get('/conversation/:id/shares', async c => {
+  const conversationId = c.req.param('id')
+
+  try {
+    const shareable = await loadShareableConversation(conversationId, c.get('auth')?.principal)
+    if ('error' in shareable) {
+      return c.html('')
+    }
+    return c.html(
+      await renderSharesForConversation(
+        conversationId,
+        shareable.branches,
+        new URL(c.req.url).origin
+      )
+    )
+  } catch (error) {
+    logger.error('Failed to load conversation shares', {
+      error: getErrorMessage(error),
+      metadata: { conversationId },
+    })
+    return c.html(html`<div class="error-banner">Failed to load share links</div>`)
+  }
+})
+
+/**
+ * Create a share link for one branch (owner only)
+ */
+conversationDetailRoutes.post('/conversation/:id/shares', async c => {
+  const conversationId = c.req.param('id')
+
+  try {
+    const shareable = await loadShareableConversation(conversationId, c.get('auth')?.principal)
+    if ('error' in shareable) {
+      return c.html(
+        html`<div class="error-banner"><strong>Error:</strong> ${shareable.error}</div>`
+      )
+    }
+    if (!getShareLinkSecret()) {
+      return c.html(
+        html`<div class="error-banner"><strong>Error:</strong> Share links are disabled</div>`
+      )
+    }
+
+    const formData = await c.req.parseBody()
+    const branchId = String(formData['branch'] || 'main')
+    const ttlDays = Number(formData['ttl_days'] || DEFAULT_CONVERSATION_SHARE_TTL_DAYS)
+    if (!shareable.branches.includes(branchId)) {
+      return c.html(
+        html`<div class="error-banner"><strong>Error:</strong> Unknown branch ${branchId}</div>`
+      )
+    }
+    if (!(CONVERSATION_SHARE_TTL_DAYS as readonly number[]).includes(ttlDays)) {
+      return c.html(
+        html`<div class="error-banner">
+          <strong>Error:</strong> Links can expire after ${CONVERSATION_SHARE_TTL_DAYS.join(', ')}
+          days
+        </div>`
+      )
+    }
+
+    const { container } = await import('../container.js')
+    // Whole seconds, as signed into the link token
+    const expiresAt = new Date(Math.floor(Date.now() / 1000 + ttlDays * 24 * 60 * 60) * 1000)
+    const share = await createConversationShare(container.getPool(), shareable.projectUuid, {
+      conversation_id: conversationId,
+      branch_id: branchId,
+      redact_tool_results: formData['redact_tool_results'] === 'on',
+      expires_at: expiresAt,
+      created_by: c.get('auth')?.principal,
+    })
+    await recordAudit(c, {
+      action: 'conversation_share.created',
+      target_type: 'conversation_share',
+      target_id: share.id,
+      project_id: shareable.projectId,
+      metadata: {
+        conversationId,
+        branchId,
+        expiresAt: expiresAt.toISOString(),
+        redactToolResults: share.redact_tool_results,
+      },
+    })
+
+    return c.html(
+      await renderSharesForConversation(
+        conversationId,
+        shareable.branches,
+        new URL(c.req.url).origin
+      )
+    )
+  } catch (error) {
+    logger.error('Failed to create conversation share', {
+      error: getErrorMessage(error),
+      metadata: { conversationId },
+    })
+    return c.html(html`<div class="error-banner">Error: ${getErrorMessage(error)}</div>`)
+  }
+})
+
+/**
+ * Revoke a share link (owner only)
+ */
+conversationDetailRoutes.post('/conversation/:id/shares/:shareId/revoke', async c => {
+  const conversationId = c.req.param('id')
+  const shareId = c.req.param('shareId')
+  const principal = c.get('auth')?.principal
+
+  try {
+    const shareable = await loadShareableConversation(conversationId, principal)
+    if ('error' in shareable || !principal) {
+      return c.html(
+        html`<div class="error-banner">
+          <strong>Error:</strong> ${'error' in shareable ? shareable.error : 'Unauthorized'}
+        </div>`
+      )
+    }
+
+    const { container } = await import('../container.js')
+    if (await revokeConversationShare(container.getPool(), conversationId, shareId, principal)) {
+      await recordAudit(c, {
+        action: 'conversation_share.revoked',
+        target_type: 'conversation_share',
+        target_id: shareId,
+        project_id: shareable.projectId,
+        metadata: { conversationId },
+      })
+    }
+
+    return c.html(
+      await renderSharesForConversation(
+        conversationId,
+        shareable.branches,
+        new URL(c.req.url).origin
+      )
+    )
+  } catch (error) {
+    logger.error('Failed to revoke conversation share', {
+      error: getErrorMessage(error),
+      metadata: { conversationId, shareId },
+    })
+    return c.html(html`<div class="error-banner">Error: ${getErrorMessage(error)}</div>`)
+  }
+})
+
+/**
+ * Resolve a conversation's project for tags, notes and bookmarks, which anyone
+ * who can read the conversation may add. Project managers may remove anyone's.
+ */
+async function loadAnnotatableConversation(
+  conversationId: string,
+  principal: string | undefined
+): Promise<
+  | { projectUuid: string; branches: string[]; requestIds: Set<string>; canManage: boolean }
+  | { error: string }
+> {
+  const { container } = await import('../container.js')
+  const pool = container.getPool()
+  const conversation = await container.getStorageService().getConversationById(conversationId)
+
+  if (!conversation || conversation.requests.length === 0) {
+    return { error: 'Conversation not found' }
+  }
+  const project = await getProjectByProjectId(pool, conversation.requests[0].projectId)
+  if (
+    !principal ||
+    !project ||
+    !(await checkProjectPermission(pool, project.id, principal, 'conversations.read'))
+  ) {
+    return { error: 'Access denied' }
+  }
+
+  return {
+    projectUuid: project.id,
+    branches: [...new Set(conversation.requests.map(r => r.branch_id || 'main'))],
+    requestIds: new Set(conversation.requests.map(r => r.request_id)),
+    canManage: await checkProjectPermission(pool, project.id, principal, 'project.manage'),
+  }
+}
+
+async function renderAnnotationsForConversation(
+  conversationId: string,
+  branches: string[],
+  principal: string,
+  canManage: boolean,
+  error?: string
+) {
+  const { container } = await import('../container.js')
+  const annotations = await listConversationAnnotations(container.getPool(), conversationId)
+  return renderAnnotationsSection(
+    conversationId,
+    branches,
+    annotations,
+    principal,
+    canManage,
+    error
+  )
+}
+
+/**
+ * Annotations of a conversation's requests by request ID, shown inline in the
+ * timeline. Failures only hide them.
+ */
+async function loadRequestAnnotations(
+  conversationId: string
+): Promise<Map<string, ConversationAnnotation[]>> {
+  const byRequest = new Map<string, ConversationAnnotation[]>()
+  try {
+    const { container } = await import('../container.js')
+    const annotations = await listConversationAnnotations(container.getPool(), conversationId)
+    for (const annotation of annotations) {
+      if (annotation.request_id) {
+        byRequest.set(annotation.request_id, [
+          ...(byRequest.get(annotation.request_id) || []),
+          annotation,
+        ])
+      }
+    }
+  } catch (error) {
+    logger.warn('Failed to load request annotations', {
+      error: getErrorMessage(error),
+      metadata: { conversationId },
+    })
+  }
+  return byRequest
+}
+
+/**
+ * Tags, notes and bookmarks panel of the conversation page; empty for users who cannot read it
+ */
+conversationDetailRoutes.get('/conversation/:id/annotations', async c => {
+  const conversationId = c.req.param('id')
+  const principal = c.get('auth')?.principal
+
+  try {
+    const annotatable = await loadAnnotatableConversation(conversationId, principal)
+    if ('error' in annotatable || !principal) {
+      return c.html('')
+    }
+    return c.html(
+      await renderAnnotationsForConversation(
+        conversationId,
+        annotatable.branches,
+        principal,
+        annotatable.canManage
+      )
+    )
+  } catch (error) {
+    logger.error('Failed to load conversation annotations', {
+      error: getErrorMessage(error),
+      metadata: { conversationId },
+    })
+    return c.html(html`<div class="error-banner">Failed to load tags and notes</div>`)
+  }
+})
+
+/**
+ * Add a tag or note, or toggle the user's bookmark, on the conversation, a branch or a request
+ */
+conversationDetailRoutes.post('/conversation/:id/annotations', async c => {
+  const conversationId = c.req.param('id')
+  const principal = c.get('auth')?.principal
+
+  try {
+    const annotatable = await loadAnnotatableConversation(conversationId, principal)
+    if ('error' in annotatable || !principal) {
+      return c.html(
+        html`<div class="error-banner">
+          <strong>Error:</strong> ${'error' in annotatable ? annotatable.error : 'Unauthorized'}
+        </div>`
+      )
+    }
+    const rerender = (error?: string) =>
+      renderAnnotationsForConversation(
+        conversationId,
+        annotatable.branches,
+        principal,
+        annotatable.canManage,
+        error
+      )
+
+    const formData = await c.req.parseBody()
+    const kind = String(formData['kind'] || '')
+    const branchId = String(formData['branch'] || '') || null
+    const requestId = String(formData['request_id'] || '').trim() || null
+    let body = String(formData['body'] || '').trim()
+
+    if (!(CONVERSATION_ANNOTATION_KINDS as readonly string[]).includes(kind)) {
+      return c.html(await rerender('Choose a tag, note or bookmark'))
+    }
+    if (requestId && !annotatable.requestIds.has(requestId)) {
+      return c.html(await rerender(`Request ${requestId} is not part of this conversation`))
+    }
+    if (!requestId && branchId && !annotatable.branches.includes(branchId)) {
+      return c.html(await rerender(`Unknown branch ${branchId}`))
+    }
+    if (kind === 'tag') {
+      body = body.toLowerCase()
+      if (!CONVERSATION_TAG_PATTERN.test(body)) {
+        return c.html(
+          await rerender(
+            "Tags are up to 48 lowercase letters, digits, '.', '_' or '-', starting with a letter or digit"
+          )
+        )
+      }
+    }
+    if (kind === 'note' && (!body || body.length > MAX_CONVERSATION_NOTE_LENGTH)) {
+      return c.html(await rerender(`Notes are 1-${MAX_CONVERSATION_NOTE_LENGTH} characters`))
+    }
+
+    const { container } = await import('../container.js')
+    const pool = container.getPool()
+    const target = { branch_id: requestId ? null : branchId, request_id: requestId }
+
+    if (kind === 'bookmark') {
+      // Bookmarks toggle: a second click removes the user's star
+      const existing = (await listConversationAnnotations(pool, conversationId)).find(
+        annotation =>
+          annotation.kind === 'bookmark' &&
+          annotation.created_by === principal &&
+          annotation.branch_id === target.branch_id &&
+          annotation.request_id === target.request_id
+      )
+      if (existing) {
+        await deleteConversationAnnotation(pool, conversationId, existing.id)
+        return c.html(await rerender())
+      }
+    }
+
+    await createConversationAnnotation(pool, annotatable.projectUuid, {
+      conversation_id: conversationId,
+      ...target,
+      kind: kind as ConversationAnnotationKind,
+      body: kind === 'bookmark' ? null : body,
+      created_by: principal,
+    })
+
+    return c.html(await rerender())
+  } catch (error) {
+    logger.error('Failed to add conversation annotation', {
+      error: getErrorMessage(error),
+      metadata: { conversationId },
+    })
+    return c.html(html`<div class="error-banner">Error: ${getErrorMessage(error)}</div>`)
+  }
+})
+
+/**
+ * Remove a tag, note or bookmark (its author or a project manager)
+ */
+conversationDetailRoutes.post('/conversation/:id/annotations/:annotationId/delete', async c => {
+  const conversationId = c.req.param('id')
+  const annotationId = c.req.param('annotationId')
+  const principal = c.get('auth')?.principal
+
+  try {
+    const annotatable = await loadAnnotatableConversation(conversationId, principal)
+    if ('error' in annotatable || !principal) {
+      return c.html(
+        html`<div class="error-banner">
+          <strong>Error:</strong> ${'error' in annotatable ? annotatable.error : 'Unauthorized'}
+        </div>`
+      )
+    }
+
+    const { container } = await import('../container.js')
+    const pool = container.getPool()
+    const annotation = (await listConversationAnnotations(pool, conversationId)).find(
+      candidate => candidate.id === annotationId
+    )
+    let error: string | undefined
+    if (annotation && annotation.created_by !== principal && !annotatable.canManage) {
+      error = 'Only its author or a project owner can remove this'
+    } else if (annotation) {
+      await deleteConversationAnnotation(pool, conversationId, annotationId)
+    }
+
+    return c.html(
+      await renderAnnotationsForConversation(
+        conversationId,
+        annotatable.branches,
+        principal,
+        annotatable.canManage,
+        error
+      )
+    )
+  } catch (error) {
+    logger.error('Failed to remove conversation annotation', {
+      error: getErrorMessage(error),
+      metadata: { conversationId, annotationId },
+    })
+    return c.html(html`<div class="error-banner">Error: ${getErrorMessage(error)}</div>`)
+  }
+})
+
 /**
  * Helper to extract the last message content from a request
  */
@@ -1322,7 +2080,8 @@ function getResponseSummary(req: ConversationRequest): string {
 function renderConversationMessages(
   requests: ConversationRequest[],
   _branches: string[],
-  subtasksMap?: Map<string, any[]>
+  subtasksMap?: Map<string, any[]>,
+  annotationsByRequest?: Map<string, ConversationAnnotation[]>
 ) {
   // Sort requests by timestamp in descending order (newest first)
   const sortedRequests = [...requests].sort(
@@ -1342,6 +2101,13 @@ function renderConversationMessages(
             const hasTaskInvocation =
               taskInvocations && Array.isArray(taskInvocations) && taskInvocations.length > 0
 
+            const annotations = annotationsByRequest?.get(req.request_id) || []
+            const tags = annotations.filter(annotation => annotation.kind === 'tag')
+            const notes = annotations.filter(annotation => annotation.kind === 'note')
+            const bookmarkCount = annotations.filter(
+              annotation => annotation.kind === 'bookmark'
+            ).length
+
             return `
           <div class="section" id="message-${req.request_id}">
             <div class="section-header" style="display: flex; justify-content: space-between; align-items: center; padding: 0.625rem 1rem;">
@@ -1376,6 +2142,19 @@ function renderConversationMessages(
                     ? `<span style="margin-left: 0.5rem; font-size: 0.875rem;" title="Has sub-tasks">📋 (${taskInvocations.length})</span>`
                     : ''
                 }
+                ${
+                  bookmarkCount > 0
+                    ? `<span style="margin-left: 0.5rem; font-size: 0.875rem; color: #d97706;" title="Bookmarked">★ ${bookmarkCount}</span>`
+                    : ''
+                }
+                ${tags
+                  .map(
+                    tag => `
+                  <a href="/dashboard/requests?tag=${encodeURIComponent(tag.body || '')}" style="font-size: 0.7rem; background: #eef2ff; color: #4338ca; padding: 0.125rem 0.375rem; border-radius: 0.25rem; text-decoration: none;">
+                    #${escapeHtml(tag.body || '')}
+                  </a>`
+                  )
+                  .join('')}
               </div>
               <div style="display: flex; gap: 0.75rem; align-items: center;">
                 <span class="text-sm text-gray-600">${req.message_count || 0} messages</span>
@@ -1395,6 +2174,9 @@ function renderConversationMessages(
                   </div>
                 </div>
                 <div style="display: flex; gap: 1rem; align-items: center;">
+                  <button onclick="annotateRequest('${req.request_id}')" class="text-sm text-blue-600" style="cursor: pointer; background: none; border: none; padding: 0;" title="Tag, note or bookmark this request">
+                    Annotate
+                  </button>
                   ${
                     req.parent_task_request_id
                       ? `<a href="/dashboard/request/${req.parent_task_request_id}" class="text-sm text-blue-600" title="View parent task">
@@ -1442,6 +2224,15 @@ function renderConversationMessages(
                     </div>`
                   : ''
               }
+              ${notes
+                .map(
+                  note => `
+                <div style="margin-top: 0.5rem; padding: 0.5rem 0.75rem; background: #fffbeb; border-left: 3px solid #f59e0b; border-radius: 0.25rem; font-size: 0.875rem;">
+                  <div style="font-size: 0.75rem; color: #92400e;">📝 ${escapeHtml(note.created_by)} · ${new Date(note.created_at).toLocaleString()}</div>
+                  <div style="white-space: pre-wrap; color: #374151;">${escapeHtml(note.body || '')}</div>
+                </div>`
+                )
+                .join('')}
             </div>
           </div>
         `
@@ -1451,6 +2242,16 @@ function renderConversationMessages(
     </div>
 
     <script>
+      function annotateRequest(requestId) {
+        const requestInput = document.getElementById('annotation-request-id')
+        const bodyInput = document.getElementById('annotation-body')
+        if (requestInput && bodyInput) {
+          requestInput.value = requestId
+          bodyInput.scrollIntoView({ block: 'center' })
+          bodyInput.focus()
+        }
+      }
+
       function toggleSubtasks(requestId) {
         const subtasksDiv = document.getElementById('subtasks-' + requestId)
         if (subtasksDiv) {
@@ -1460,3 +2261,381 @@ function renderConversationMessages(
     </script>
   `
 }
+
+/**
+ * Helper to render one side of a branch diff row
+ */
+function renderBranchDiffStep(step: BranchDiffStep | undefined): string {
+  if (!step) {
+    return '<div class="section" style="border-style: dashed; color: #9ca3af; padding: 0.75rem 1rem;">No request</div>'
+  }
+
+  const block = (label: string, text: string) => `
+    <div style="margin-top: 0.5rem;">
+      <div class="text-sm text-gray-600">${label}</div>
+      <div style="white-space: pre-wrap; word-break: break-word; max-height: 16rem; overflow-y: auto; font-size: 0.875rem;">${escapeHtml(text)}</div>
+    </div>
+  `
+
+  return `
+    <div class="section">
+      <div class="section-header" style="display: flex; justify-content: space-between; align-items: center; padding: 0.625rem 1rem;">
+        <a href="/dashboard/request/${step.requestId}" class="request-id-link" style="font-size: 0.75rem; font-family: monospace;">${step.requestId}</a>
+        <span class="text-sm text-gray-600">
+          ${formatNumber(step.totalTokens)} tokens · $${step.cost.toFixed(4)}
+          ${step.error ? '<span style="color: #ef4444; margin-left: 0.5rem;">Error</span>' : ''}
+        </span>
+      </div>
+      <div class="section-content" style="padding: 0.5rem 1rem 0.75rem;">
+        ${step.userPrompt ? block('👤 User', step.userPrompt) : ''}
+        ${step.toolResultCount > 0 ? `<div class="text-sm text-gray-600" style="margin-top: 0.5rem;">✅ ${step.toolResultCount} tool result${step.toolResultCount === 1 ? '' : 's'}</div>` : ''}
+        ${step.assistantText ? block('🤖 Assistant', step.assistantText) : ''}
+        ${step.toolCalls.map(call => block(`🔧 ${escapeHtml(call.name)}`, call.input)).join('')}
+      </div>
+    </div>
+  `
+}
+
+/**
+ * Helper to render the totals and aligned steps of a branch diff
+ */
+function renderBranchDiff(diff: BranchDiff): string {
+  const totalsCard = (branch: string, totals: BranchDiffTotals) => {
+    const color = getBranchColor(branch)
+    return `
+      <div class="section">
+        <div class="section-header" style="padding: 0.625rem 1rem; color: ${color}; font-weight: 600;">
+          ${escapeHtml(branch)}
+        </div>
+        <div class="section-content conversation-stats-grid" style="padding: 0.75rem 1rem;">
+          <div class="conversation-stat-card">
+            <span class="conversation-stat-label">Requests:</span>
+            <span class="conversation-stat-value">${totals.requests}</span>
+          </div>
+          <div class="conversation-stat-card">
+            <span class="conversation-stat-label">Input Tokens:</span>
+            <span class="conversation-stat-value">${formatNumber(totals.inputTokens)}</span>
+          </div>
+          <div class="conversation-stat-card">
+            <span class="conversation-stat-label">Output Tokens:</span>
+            <span class="conversation-stat-value">${formatNumber(totals.outputTokens)}</span>
+          </div>
+          <div class="conversation-stat-card">
+            <span class="conversation-stat-label">Tool Calls:</span>
+            <span class="conversation-stat-value">${totals.toolCalls}</span>
+          </div>
+          <div class="conversation-stat-card">
+            <span class="conversation-stat-label">Estimated Cost:</span>
+            <span class="conversation-stat-value">$${totals.cost.toFixed(4)}</span>
+          </div>
+        </div>
+      </div>
+    `
+  }
+
+  return `
+    <div id="branch-diff" style="display: grid; grid-template-columns: 1fr 1fr; gap: 0.5rem 1rem;">
+      ${totalsCard(diff.left, diff.leftTotals)}
+      ${totalsCard(diff.right, diff.rightTotals)}
+      ${
+        diff.rows.length === 0
+          ? '<div class="text-sm text-gray-600" style="grid-column: 1 / -1;">Both branches end at the fork.</div>'
+          : diff.rows
+              .map(row => renderBranchDiffStep(row.left) + renderBranchDiffStep(row.right))
+              .join('')
+      }
+    </div>
+  `
+}
+
+/**
+ * Renders the share links panel: existing links with their status and views,
+ * recent views, and the form to create a link
+ */
+function renderSharesSection(
+  conversationId: string,
+  branches: string[],
+  shares: ConversationShare[],
+  views: Array<ConversationShareView & { share_id: string; viewed_at: Date }>,
+  origin: string
+) {
+  const secret = getShareLinkSecret()
+  const now = new Date()
+
+  return html`
+    <div class="section" id="conversation-shares" style="margin-bottom: 1rem;">
+      <div class="section-header" style="padding: 0.625rem 1rem; font-weight: 600;">
+        Share Links
+        <span class="text-sm text-gray-600" style="font-weight: 400; margin-left: 0.5rem;"
+          >Read-only, expiring links to one branch. Anyone with the link can read it; system
+          prompts are never included.</span
+        >
+      </div>
+      <div class="section-content" style="padding: 0.75rem 1rem;">
+        ${!secret
+          ? html`<p class="text-sm text-gray-600">
+              Share links are disabled. Set <code>DASHBOARD_SHARE_LINK_SECRET</code> (32+
+              characters) to enable them.
+            </p>`
+          : ''}
+        ${shares.map(share => {
+          const expired = new Date(share.expires_at) <= now
+          const status = share.revoked_at ? 'Revoked' : expired ? 'Expired' : 'Active'
+          const link =
+            secret && status === 'Active'
+              ? `${origin}${getSharePath(share.id, new Date(share.expires_at), secret)}`
+              : null
+          return html`
+            <div
+              style="display: flex; justify-content: space-between; align-items: center; gap: 0.5rem; padding: 0.5rem 0; border-bottom: 1px solid #f3f4f6;"
+            >
+              <div style="min-width: 0; font-size: 0.875rem;">
+                <div>
+                  <strong>${share.branch_id}</strong> · ${status} · expires
+                  ${new Date(share.expires_at).toLocaleString()}
+                  ${share.redact_tool_results ? ' · tool results hidden' : ''}
+                </div>
+                <div class="text-sm text-gray-600">
+                  Created by ${share.created_by || 'unknown'} · ${share.view_count}
+                  view${share.view_count === 1 ? '' : 's'}${share.last_viewed_at
+                    ? `, last ${new Date(share.last_viewed_at).toLocaleString()}`
+                    : ''}
+                  ${share.revoked_by ? ` · revoked by ${share.revoked_by}` : ''}
+                </div>
+                ${link
+                  ? html`<input
+                      type="text"
+                      readonly
+                      value="${link}"
+                      onclick="this.select()"
+                      style="width: 100%; font-family: monospace; font-size: 0.75rem; margin-top: 0.25rem;"
+                    />`
+                  : ''}
+              </div>
+              ${!share.revoked_at && !expired
+                ? html`<button
+                    class="btn btn-secondary"
+                    hx-post="/dashboard/conversation/${conversationId}/shares/${share.id}/revoke"
+                    hx-confirm="Revoke this share link?"
+                    hx-target="#conversation-shares"
+                    hx-swap="outerHTML"
+                  >
+                    Revoke
+                  </button>`
+                : ''}
+            </div>
+          `
+        })}
+        ${views.length > 0
+          ? html`<details style="margin-top: 0.5rem;">
+              <summary class="text-sm text-gray-600">Recent views (${views.length})</summary>
+              <table style="width: 100%; font-size: 0.75rem;">
+                ${views.map(
+                  view => html`<tr>
+                    <td>${new Date(view.viewed_at).toLocaleString()}</td>
+                    <td>
+                      ${shares.find(share => share.id === view.share_id)?.branch_id ?? ''}
+                    </td>
+                    <td>${view.ip_address || '-'}</td>
+                    <td style="word-break: break-all;">${view.user_agent || '-'}</td>
+                  </tr>`
+                )}
+              </table>
+            </details>`
+          : ''}
+        ${secret
+          ? html`<form
+              hx-post="/dashboard/conversation/${conversationId}/shares"
+              hx-target="#conversation-shares"
+              hx-swap="outerHTML"
+              class="branch-filter"
+              style="margin-top: 0.75rem;"
+            >
+              <select name="branch">
+                ${branches.map(branch => html`<option value="${branch}">${branch}</option>`)}
+              </select>
+              <select name="ttl_days">
+                ${CONVERSATION_SHARE_TTL_DAYS.map(
+                  days =>
+                    html`<option
+                      value="${days}"
+                      ${days === DEFAULT_CONVERSATION_SHARE_TTL_DAYS ? 'selected' : ''}
+                    >
+                      ${days} day${days === 1 ? '' : 's'}
+                    </option>`
+                )}
+              </select>
+              <label class="text-sm">
+                <input type="checkbox" name="redact_tool_results" /> Hide tool results
+              </label>
+              <button type="submit" class="btn btn-secondary">Create Link</button>
+            </form>`
+          : ''}
+      </div>
+    </div>
+  `
+}
+
+/**
+ * Label of what an annotation is attached to
+ */
+function renderAnnotationTarget(annotation: ConversationAnnotation) {
+  if (annotation.request_id) {
+    return html`request
+      <a href="#message-${annotation.request_id}" style="font-family: monospace;"
+        >${annotation.request_id.slice(0, 8)}</a
+      >`
+  }
+  return annotation.branch_id ? html`branch ${annotation.branch_id}` : html`conversation`
+}
+
+/**
+ * Renders the tags, notes and bookmarks panel: every annotation with its
+ * target, and the form to add one
+ */
+function renderAnnotationsSection(
+  conversationId: string,
+  branches: string[],
+  annotations: ConversationAnnotation[],
+  principal: string,
+  canManage: boolean,
+  error?: string
+) {
+  const tags = annotations.filter(annotation => annotation.kind === 'tag')
+  const notes = annotations.filter(annotation => annotation.kind === 'note')
+  const bookmarks = annotations.filter(annotation => annotation.kind === 'bookmark')
+  const conversationBookmarks = bookmarks.filter(
+    annotation => !annotation.branch_id && !annotation.request_id
+  )
+  const bookmarked = conversationBookmarks.some(annotation => annotation.created_by === principal)
+  const canRemove = (annotation: ConversationAnnotation) =>
+    canManage || annotation.created_by === principal
+  const removeButton = (annotation: ConversationAnnotation, label: string) =>
+    canRemove(annotation)
+      ? html`<button
+          type="button"
+          title="Remove"
+          hx-post="/dashboard/conversation/${conversationId}/annotations/${annotation.id}/delete"
+          hx-target="#conversation-annotations"
+          hx-swap="outerHTML"
+          style="background: none; border: none; cursor: pointer; color: #9ca3af; padding: 0 0.125rem;"
+        >
+          ${label}
+        </button>`
+      : ''
+
+  return html`
+    <div class="section" id="conversation-annotations" style="margin-bottom: 1rem;">
+      <div
+        class="section-header"
+        style="display: flex; justify-content: space-between; align-items: center; padding: 0.625rem 1rem; font-weight: 600;"
+      >
+        <span>
+          Tags, Notes &amp; Bookmarks
+          <span class="text-sm text-gray-600" style="font-weight: 400; margin-left: 0.5rem;"
+            >Curate good examples; tags can be filtered on the conversation and request
+            lists.</span
+          >
+        </span>
+        <form
+          hx-post="/dashboard/conversation/${conversationId}/annotations"
+          hx-target="#conversation-annotations"
+          hx-swap="outerHTML"
+          style="margin: 0;"
+        >
+          <input type="hidden" name="kind" value="bookmark" />
+          <button
+            type="submit"
+            class="btn btn-secondary"
+            title="${bookmarked ? 'Remove your bookmark' : 'Bookmark this conversation'}"
+          >
+            ${bookmarked ? '★ Bookmarked' : '☆ Bookmark'} (${conversationBookmarks.length})
+          </button>
+        </form>
+      </div>
+      <div class="section-content" style="padding: 0.75rem 1rem;">
+        ${error
+          ? html`<div
+              style="background: #fee2e2; border: 1px solid #fecaca; color: #991b1b; padding: 0.5rem 0.75rem; border-radius: 0.375rem; margin-bottom: 0.75rem; font-size: 0.875rem;"
+            >
+              ${error}
+            </div>`
+          : ''}
+        ${tags.length > 0
+          ? html`<div class="branch-filter" style="margin-bottom: 0.5rem;">
+              ${tags.map(
+                tag => html`<span
+                  class="branch-chip"
+                  title="${tag.branch_id || tag.request_id
+                    ? `On ${tag.request_id ? `request ${tag.request_id}` : `branch ${tag.branch_id}`}, `
+                    : ''}added by ${tag.created_by}"
+                >
+                  <a href="/dashboard?tag=${encodeURIComponent(tag.body || '')}">#${tag.body}</a>
+                  ${tag.request_id ? '· request' : tag.branch_id ? `· ${tag.branch_id}` : ''}
+                  ${removeButton(tag, '×')}
+                </span>`
+              )}
+            </div>`
+          : ''}
+        ${notes.map(
+          note => html`
+            <div style="padding: 0.5rem 0; border-bottom: 1px solid #f3f4f6; font-size: 0.875rem;">
+              <div class="text-sm text-gray-600">
+                ${note.created_by} · ${new Date(note.created_at).toLocaleString()} · on
+                ${renderAnnotationTarget(note)} ${removeButton(note, 'Remove')}
+              </div>
+              <div style="white-space: pre-wrap;">${note.body}</div>
+            </div>
+          `
+        )}
+        ${bookmarks.length > conversationBookmarks.length
+          ? html`<div class="text-sm text-gray-600" style="margin-top: 0.5rem;">
+              ★
+              ${bookmarks
+                .filter(annotation => annotation.branch_id || annotation.request_id)
+                .map(
+                  annotation =>
+                    html`<span style="margin-right: 0.75rem;"
+                      >${renderAnnotationTarget(annotation)} by
+                      ${annotation.created_by}${removeButton(annotation, '×')}</span
+                    >`
+                )}
+            </div>`
+          : ''}
+        <form
+          hx-post="/dashboard/conversation/${conversationId}/annotations"
+          hx-target="#conversation-annotations"
+          hx-swap="outerHTML"
+          class="branch-filter"
+          style="margin-top: 0.75rem; align-items: flex-start;"
+        >
+          <select name="kind">
+            <option value="tag">Tag</option>
+            <option value="note">Note</option>
+            <option value="bookmark">Bookmark</option>
+          </select>
+          <select name="branch" title="Attach to the whole conversation or one branch">
+            <option value="">Whole conversation</option>
+            ${branches.map(branch => html`<option value="${branch}">Branch ${branch}</option>`)}
+          </select>
+          <input
+            type="text"
+            id="annotation-request-id"
+            name="request_id"
+            placeholder="Request ID (optional)"
+            style="font-family: monospace; font-size: 0.75rem; width: 17rem;"
+          />
+          <textarea
+            id="annotation-body"
+            name="body"
+            rows="1"
+            maxlength="${MAX_CONVERSATION_NOTE_LENGTH}"
+            placeholder="tag-name or note text"
+            style="flex: 1; min-width: 12rem; font-size: 0.875rem;"
+          ></textarea>
+          <button type="submit" class="btn btn-secondary">Add</button>
+        </form>
+      </div>
+    </div>
+  `
+}
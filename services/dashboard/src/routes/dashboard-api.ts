@@ -10,6 +10,10 @@ import { tokenUsageRoutes } from './token-usage.js'
 import { requestUsageRoutes } from './request-usage.js'
 import { credentialsUIRoutes } from './credentials-ui.js'
 import { trainsUIRoutes } from './projects-ui.js'
+import { liveEventsRoutes } from './live-events.js'
+import { searchRoutes } from './search.js'
+import { toolUsageRoutes } from './tool-usage.js'
+import { auditLogRoutes } from './audit-log.js'
 
 export const dashboardRoutes = new Hono<{
   Variables: {
@@ -25,5 +29,9 @@ dashboardRoutes.route('/', requestsRoutes)
 dashboardRoutes.route('/', requestDetailsRoutes)
 dashboardRoutes.route('/', tokenUsageRoutes)
 dashboardRoutes.route('/', requestUsageRoutes)
+dashboardRoutes.route('/', liveEventsRoutes)
+dashboardRoutes.route('/', searchRoutes)
+dashboardRoutes.route('/', toolUsageRoutes)
+dashboardRoutes.route('/', auditLogRoutes)
 dashboardRoutes.route('/credentials', credentialsUIRoutes)
 dashboardRoutes.route('/projects', trainsUIRoutes)
@@ -0,0 +1,58 @@
+import { Hono } from 'hono'
+import { getErrorMessage } from '@agent-prompttrain/shared'
+import { ProxyApiClient } from '../services/api-client.js'
+import { HttpError } from '../errors/HttpError.js'
+import { logger } from '../middleware/logger.js'
+import type { AuthContext } from '../middleware/auth.js'
+
+export const liveEventsRoutes = new Hono<{
+  Variables: {
+    apiClient?: ProxyApiClient
+    auth?: AuthContext
+  }
+}>()
+
+/**
+ * Live event stream for the browser.
+ * Relays the proxy's /api/events SSE stream, scoped to the signed-in user so
+ * private projects stay hidden from non-members.
+ */
+liveEventsRoutes.get('/live/events', async c => {
+  const apiClient = c.get('apiClient')
+  const auth = c.get('auth')
+
+  if (!auth?.isAuthenticated) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  if (!apiClient) {
+    return c.json({ error: 'API client not configured' }, 503)
+  }
+
+  // Close the upstream stream as soon as the browser goes away
+  const upstreamAbort = new AbortController()
+  c.req.raw.signal.addEventListener('abort', () => upstreamAbort.abort(), { once: true })
+
+  try {
+    const upstream = await apiClient.openLiveEventStream({
+      projectId: c.req.query('projectId') || undefined,
+      conversationId: c.req.query('conversationId') || undefined,
+      userEmail: auth.principal,
+      signal: upstreamAbort.signal,
+    })
+
+    return new Response(upstream.body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    upstreamAbort.abort()
+    logger.error('Failed to open live event stream', { error: getErrorMessage(error) })
+    const status = HttpError.isHttpError(error) ? error.status : 502
+    return c.json({ error: 'Live updates unavailable' }, status as 502)
+  }
+})
@@ -0,0 +1,143 @@
+import { Hono, type Context } from 'hono'
+import { html } from 'hono/html'
+import { deleteCookie, getSignedCookie, setSignedCookie } from 'hono/cookie'
+import { getErrorMessage } from '@agent-prompttrain/shared'
+import { getOidcLoginConfig, getSsoAllowedDomains, type OidcLoginConfig } from '../config.js'
+import { isEmailDomainAllowed } from '../middleware/auth.js'
+import { logger } from '../middleware/logger.js'
+import {
+  OIDC_LOGIN_COOKIE,
+  OIDC_SESSION_COOKIE,
+  completeAuthorization,
+  createAuthorizationRequest,
+  decodeCookieValue,
+  encodeCookieValue,
+  principalFromClaims,
+  safeReturnTo,
+  type OidcLoginState,
+  type OidcSession,
+} from '../services/oidc-login.js'
+
+const LOGIN_STATE_MAX_AGE_SECONDS = 10 * 60
+
+/**
+ * Native OIDC login routes (mounted at /auth, outside the auth middleware)
+ */
+export const oidcAuthRoutes = new Hono()
+
+function getRedirectUri(c: Context, config: OidcLoginConfig): string {
+  return config.redirectUri ?? `${new URL(c.req.url).origin}/auth/callback`
+}
+
+function cookieOptions(maxAge: number, path = '/') {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax, so the cookies are sent on the redirect back from the identity provider
+    sameSite: 'Lax' as const,
+    path,
+    maxAge,
+  }
+}
+
+function loginError(c: Context, message: string, status: 400 | 401 | 403 | 502) {
+  return c.html(
+    html`
+      <div style="text-align: center; padding: 50px; font-family: sans-serif;">
+        <h1>Sign-in failed</h1>
+        <p>${message}</p>
+        <p><a href="/auth/login">Try again</a></p>
+      </div>
+    `,
+    status
+  )
+}
+
+/**
+ * Start the authorization code flow
+ */
+oidcAuthRoutes.get('/login', async c => {
+  const config = getOidcLoginConfig()
+  if (!config) {
+    return c.notFound()
+  }
+
+  try {
+    const { url, loginState } = await createAuthorizationRequest(
+      config,
+      getRedirectUri(c, config),
+      safeReturnTo(c.req.query('returnTo'))
+    )
+    await setSignedCookie(
+      c,
+      OIDC_LOGIN_COOKIE,
+      encodeCookieValue(loginState),
+      config.sessionSecret,
+      cookieOptions(LOGIN_STATE_MAX_AGE_SECONDS, '/auth')
+    )
+    return c.redirect(url)
+  } catch (error) {
+    logger.error('Failed to start OIDC login', { error: getErrorMessage(error) })
+    return loginError(c, 'The identity provider is not reachable.', 502)
+  }
+})
+
+/**
+ * Identity provider callback: verify the ID token and start a dashboard session
+ */
+oidcAuthRoutes.get('/callback', async c => {
+  const config = getOidcLoginConfig()
+  if (!config) {
+    return c.notFound()
+  }
+
+  const loginState = decodeCookieValue<OidcLoginState>(
+    await getSignedCookie(c, config.sessionSecret, OIDC_LOGIN_COOKIE)
+  )
+  deleteCookie(c, OIDC_LOGIN_COOKIE, { path: '/auth' })
+
+  const providerError = c.req.query('error')
+  if (providerError) {
+    return loginError(
+      c,
+      `The identity provider returned an error: ${c.req.query('error_description') || providerError}`,
+      401
+    )
+  }
+
+  const code = c.req.query('code')
+  if (!loginState || !code || c.req.query('state') !== loginState.state) {
+    return loginError(c, 'The sign-in request expired or did not match. Please try again.', 400)
+  }
+
+  let email: string | null
+  try {
+    const claims = await completeAuthorization(config, code, getRedirectUri(c, config), loginState)
+    email = principalFromClaims(claims)
+  } catch (error) {
+    logger.warn('OIDC login failed', { error: getErrorMessage(error) })
+    return loginError(c, 'The identity provider response could not be verified.', 401)
+  }
+
+  if (!email) {
+    return loginError(c, 'Your account has no verified email address.', 403)
+  }
+  if (!isEmailDomainAllowed(email, getSsoAllowedDomains())) {
+    return loginError(c, 'Your email domain is not allowed to use this dashboard.', 403)
+  }
+
+  const session: OidcSession = {
+    email,
+    exp: Math.floor(Date.now() / 1000) + config.sessionTtlSeconds,
+  }
+  await setSignedCookie(
+    c,
+    OIDC_SESSION_COOKIE,
+    encodeCookieValue(session),
+    config.sessionSecret,
+    cookieOptions(config.sessionTtlSeconds)
+  )
+
+  logger.info('OIDC login', { metadata: { email } })
+  return c.redirect(safeReturnTo(loginState.returnTo))
+})
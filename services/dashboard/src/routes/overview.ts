@@ -75,6 +75,8 @@ overviewRoutes.get('/partials/weekly-conversations', async c => {
  */
 overviewRoutes.get('/', async c => {
   const projectId = c.req.query('projectId')
+  const userFilter = c.req.query('user') || ''
+  const tagFilter = (c.req.query('tag') || '').trim().toLowerCase()
   const page = parseInt(c.req.query('page') || '1')
   const perPage = parseInt(c.req.query('per_page') || '50')
   const rawSearchQuery = c.req.query('search') || ''
@@ -119,6 +121,8 @@ overviewRoutes.get('/', async c => {
       apiClient.getDashboardStats({ projectId }),
       apiClient.getConversations({
         projectId,
+        user: userFilter || undefined,
+        tag: tagFilter || undefined,
         limit: itemsPerPage,
         offset: searchQuery ? 0 : offset, // Search still filters the loaded page client-side
         userEmail: auth?.principal, // Pass the authenticated user for privacy filtering
@@ -140,6 +144,7 @@ overviewRoutes.get('/', async c => {
       conversationId: string
       accountIds: string[]
       trainIds: string[]
+      userEmails: string[]
       branch: string
       branchCount: number
       subtaskBranchCount: number
@@ -166,6 +171,7 @@ overviewRoutes.get('/', async c => {
         conversationId: conv.conversationId,
         accountIds: conv.accountIds || [],
         trainIds: conv.trainIds || [],
+        userEmails: conv.userEmails || [],
         branch: 'main', // API doesn't return branch info yet
         branchCount: conv.branchCount || 1,
         subtaskBranchCount: conv.subtaskBranchCount || 0,
@@ -221,6 +227,10 @@ overviewRoutes.get('/', async c => {
       ? groupedConversations.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage)
       : groupedConversations
 
+    const filterQuery =
+      (userFilter ? `&user=${encodeURIComponent(userFilter)}` : '') +
+      (tagFilter ? `&tag=${encodeURIComponent(tagFilter)}` : '')
+
     const content = html`
       <div
         style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 1.5rem;"
@@ -232,6 +242,12 @@ overviewRoutes.get('/', async c => {
             ${projectId
               ? html`<input type="hidden" name="projectId" value="${escapeHtml(projectId)}" />`
               : ''}
+            ${userFilter
+              ? html`<input type="hidden" name="user" value="${escapeHtml(userFilter)}" />`
+              : ''}
+            ${tagFilter
+              ? html`<input type="hidden" name="tag" value="${escapeHtml(tagFilter)}" />`
+              : ''}
             <input type="hidden" name="page" value="1" />
             <input type="hidden" name="per_page" value="${itemsPerPage}" />
             <input
@@ -282,6 +298,46 @@ overviewRoutes.get('/', async c => {
               .join('')
           )}
         </select>
+        <form
+          action="/dashboard"
+          method="get"
+          style="display: inline-flex; gap: 0.5rem; align-items: center; margin-left: 1.5rem;"
+        >
+          ${projectId
+            ? html`<input type="hidden" name="projectId" value="${escapeHtml(projectId)}" />`
+            : ''}
+          <input type="hidden" name="per_page" value="${itemsPerPage}" />
+          <label class="text-sm text-gray-600" for="user-filter">Filter by User:</label>
+          <input
+            id="user-filter"
+            type="search"
+            name="user"
+            placeholder="user@example.com"
+            value="${escapeHtml(userFilter)}"
+            style="padding: 0.5rem; border: 1px solid #d1d5db; border-radius: 0.375rem; font-size: 0.875rem;"
+          />
+          <label class="text-sm text-gray-600" for="tag-filter">Tag:</label>
+          <input
+            id="tag-filter"
+            type="search"
+            name="tag"
+            placeholder="good-prompting"
+            value="${escapeHtml(tagFilter)}"
+            style="padding: 0.5rem; border: 1px solid #d1d5db; border-radius: 0.375rem; font-size: 0.875rem; width: 160px;"
+          />
+          <button type="submit" class="btn btn-secondary" style="font-size: 0.875rem;">
+            Apply
+          </button>
+          ${userFilter || tagFilter
+            ? html`<a
+                href="/dashboard?page=1&per_page=${itemsPerPage}${projectId
+                  ? `&projectId=${encodeURIComponent(projectId)}`
+                  : ''}"
+                class="text-sm text-blue-600"
+                >Clear</a
+              >`
+            : ''}
+        </form>
       </div>
 
       <!-- Stats Summary -->
@@ -473,6 +529,7 @@ overviewRoutes.get('/', async c => {
                       <th>Conversation</th>
                       <th>Branches</th>
                       <th>Accounts</th>
+                      <th>Users</th>
                       <th>Project ID</th>
                       <th>Requests</th>
                       <th>Tokens</th>
@@ -563,6 +620,23 @@ overviewRoutes.get('/', async c => {
                                     : '<span class="text-gray-400">N/A</span>'
                                 }
                               </td>
+                              <td class="text-sm" style="line-height: 1.4;">
+                                ${
+                                  branch.userEmails.length > 0
+                                    ? branch.userEmails
+                                        .map(
+                                          email =>
+                                            `<a href="/dashboard?user=${encodeURIComponent(email)}"
+                                               class="text-blue-600"
+                                               style="font-size: 0.75rem; display: block;"
+                                               title="Show conversations of ${escapeHtml(email)}">
+                                              ${escapeHtml(email)}
+                                            </a>`
+                                        )
+                                        .join('')
+                                    : '<span class="text-gray-400">-</span>'
+                                }
+                              </td>
                               <td class="text-sm">
                                 ${escapeHtml(branch.projectId)}
                                 ${branch.isPrivate ? '<span style="margin-left: 0.25rem;" title="Private project">🔒</span>' : ''}
@@ -631,7 +705,7 @@ overviewRoutes.get('/', async c => {
                               <a
                                 href="?page=${currentPage - 1}${projectId
                                   ? `&projectId=${projectId}`
-                                  : ''}&per_page=${itemsPerPage}${searchQuery
+                                  : ''}${filterQuery}&per_page=${itemsPerPage}${searchQuery
                                   ? `&search=${encodeURIComponent(c.req.query('search') || '')}`
                                   : ''}"
                                 class="pagination-link"
@@ -651,7 +725,7 @@ overviewRoutes.get('/', async c => {
                                     <a
                                       href="?page=${pageNum}${projectId
                                         ? `&projectId=${projectId}`
-                                        : ''}&per_page=${itemsPerPage}${searchQuery
+                                        : ''}${filterQuery}&per_page=${itemsPerPage}${searchQuery
                                         ? `&search=${encodeURIComponent(c.req.query('search') || '')}`
                                         : ''}"
                                       class="pagination-link"
@@ -667,7 +741,7 @@ overviewRoutes.get('/', async c => {
                               <a
                                 href="?page=${currentPage + 1}${projectId
                                   ? `&projectId=${projectId}`
-                                  : ''}&per_page=${itemsPerPage}${searchQuery
+                                  : ''}${filterQuery}&per_page=${itemsPerPage}${searchQuery
                                   ? `&search=${encodeURIComponent(c.req.query('search') || '')}`
                                   : ''}"
                                 class="pagination-link"
@@ -682,7 +756,7 @@ overviewRoutes.get('/', async c => {
                           <select
                             onchange="window.location.href='?page=1${projectId
                               ? `&projectId=${projectId}`
-                              : ''}&per_page=' + this.value + '${searchQuery
+                              : ''}${filterQuery}&per_page=' + this.value + '${searchQuery
                               ? `&search=${encodeURIComponent(c.req.query('search') || '')}`
                               : ''}'"
                             style="margin-left: 0.5rem; padding: 0.25rem 0.5rem; border: 1px solid #e5e7eb; border-radius: 0.375rem;"
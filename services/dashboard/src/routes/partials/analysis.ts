@@ -6,10 +6,12 @@ import {
   type GetAnalysisResponse,
   getAnalysisPromptTemplate,
 } from '@agent-prompttrain/shared'
+import { getConversationAnalysisTemplate } from '@agent-prompttrain/shared/database/queries'
 import { container } from '../../container.js'
 import { logger } from '../../middleware/logger.js'
 import { escapeHtml, escapeHtmlArray } from '../../utils/html.js'
 import { csrfProtection } from '../../middleware/csrf.js'
+import { canReadConversation } from '../../middleware/project-ownership.js'
 
 import { ProxyApiClient } from '../../services/api-client.js'
 
@@ -24,6 +26,7 @@ const ICONS = {
   technicalDetails: `<svg xmlns="http://www.w3.org/2000/svg" style="width: 1.25rem; height: 1.25rem; color: #6b7280;" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>`,
   conversationQuality: `<svg xmlns="http://www.w3.org/2000/svg" style="width: 1.25rem; height: 1.25rem; color: #6b7280;" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>`,
   promptingTips: `<svg xmlns="http://www.w3.org/2000/svg" style="width: 1.25rem; height: 1.25rem; color: #6b7280;" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>`,
+  customFields: `<svg xmlns="http://www.w3.org/2000/svg" style="width: 1.25rem; height: 1.25rem; color: #6b7280;" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>`,
   interactionPatterns: `<svg xmlns="http://www.w3.org/2000/svg" style="width: 1.25rem; height: 1.25rem; color: #6b7280;" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M7 12l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>`,
 }
 
@@ -38,6 +41,34 @@ export const analysisPartialsRoutes = new Hono<{
 // Apply CSRF protection to all routes
 analysisPartialsRoutes.use('*', csrfProtection())
 
+/**
+ * Analysis prompt for a conversation: its project's active template, or the default prompt
+ */
+async function getConversationPrompt(conversationId: string): Promise<string> {
+  try {
+    const template = await getConversationAnalysisTemplate(container.getPool(), conversationId)
+    return getAnalysisPromptTemplate(undefined, template)
+  } catch (error) {
+    logger.warn('Failed to load analysis template, using the default prompt', {
+      error: getErrorMessage(error),
+      metadata: { conversationId },
+    })
+    return getAnalysisPromptTemplate()
+  }
+}
+
+const ACCESS_DENIED_MESSAGE = 'Access denied: Your project role cannot read conversations'
+
+/**
+ * Whether the signed-in user can read the conversation's project, and so its analysis
+ */
+async function canAnalyzeConversation(
+  auth: { principal: string } | undefined,
+  conversationId: string
+): Promise<boolean> {
+  return !!auth?.principal && (await canReadConversation(conversationId, auth.principal))
+}
+
 /**
  * Get the current status of an analysis and render the appropriate partial
  */
@@ -47,6 +78,10 @@ analysisPartialsRoutes.get('/status/:conversationId/:branchId', async c => {
   const apiClient = c.get('apiClient') || container.getApiClient()
   const auth = c.get('auth') || { isAuthenticated: false, principal: '', source: 'sso' as const }
 
+  if (!(await canAnalyzeConversation(auth, conversationId))) {
+    return c.html(renderErrorPanel(ACCESS_DENIED_MESSAGE))
+  }
+
   try {
     // Get analysis status from API
     const response = await apiClient.get<GetAnalysisResponse>(
@@ -73,16 +108,33 @@ analysisPartialsRoutes.get('/status/:conversationId/:branchId', async c => {
       case 'processing':
         return c.html(renderProcessingPanel(conversationId, branchId, pollCount))
       case 'completed':
-        return c.html(renderCompletedPanel(conversationId, branchId, response, auth))
+        return c.html(
+          renderCompletedPanel(
+            conversationId,
+            branchId,
+            response,
+            auth,
+            await getConversationPrompt(conversationId)
+          )
+        )
       case 'failed':
         return c.html(renderFailedPanel(conversationId, branchId, response.error, auth))
       default:
-        return c.html(renderIdlePanel(conversationId, branchId, auth))
+        return c.html(
+          renderIdlePanel(
+            conversationId,
+            branchId,
+            auth,
+            await getConversationPrompt(conversationId)
+          )
+        )
     }
   } catch (error: any) {
     // If it's a 404, the analysis doesn't exist yet - show idle panel
     if (error?.status === 404) {
-      return c.html(renderIdlePanel(conversationId, branchId, auth))
+      return c.html(
+        renderIdlePanel(conversationId, branchId, auth, await getConversationPrompt(conversationId))
+      )
     }
 
     logger.error('Failed to get analysis status', {
@@ -103,6 +155,10 @@ analysisPartialsRoutes.post('/generate/:conversationId/:branchId', async c => {
   const { conversationId, branchId } = c.req.param()
   const apiClient = c.get('apiClient') || container.getApiClient()
 
+  if (!(await canAnalyzeConversation(c.get('auth'), conversationId))) {
+    return c.html(renderErrorPanel(ACCESS_DENIED_MESSAGE))
+  }
+
   try {
     // Get form data
     const formData = await c.req.parseBody()
@@ -131,7 +187,15 @@ analysisPartialsRoutes.post('/generate/:conversationId/:branchId', async c => {
         if (analysis.status === 'pending' || analysis.status === 'processing') {
           return c.html(renderProcessingPanel(conversationId, branchId, 0))
         } else if (analysis.status === 'completed') {
-          return c.html(renderCompletedPanel(conversationId, branchId, analysis))
+          return c.html(
+            renderCompletedPanel(
+              conversationId,
+              branchId,
+              analysis,
+              undefined,
+              await getConversationPrompt(conversationId)
+            )
+          )
         }
       }
       throw postError
@@ -155,6 +219,10 @@ analysisPartialsRoutes.post('/regenerate/:conversationId/:branchId', async c =>
   const { conversationId, branchId } = c.req.param()
   const apiClient = c.get('apiClient') || container.getApiClient()
 
+  if (!(await canAnalyzeConversation(c.get('auth'), conversationId))) {
+    return c.html(renderErrorPanel(ACCESS_DENIED_MESSAGE))
+  }
+
   try {
     // Get form data
     const formData = await c.req.parseBody()
@@ -185,9 +253,9 @@ analysisPartialsRoutes.post('/regenerate/:conversationId/:branchId', async c =>
 function renderIdlePanel(
   conversationId: string,
   branchId: string,
-  _auth?: { isAuthenticated: boolean; principal: string; source: 'dev' | 'sso' }
+  _auth?: { isAuthenticated: boolean; principal: string; source: 'dev' | 'sso' },
+  defaultPrompt = getAnalysisPromptTemplate()
 ) {
-  const defaultPrompt = getAnalysisPromptTemplate()
   const promptId = `prompt-${conversationId}-${branchId}`.replace(/[^a-zA-Z0-9-]/g, '-')
 
   return html`
@@ -340,6 +408,44 @@ function renderProcessingPanel(conversationId: string, branchId: string, pollCou
   `
 }
 
+/** `riskLevel` or `risk_level` -> `Risk Level` */
+function formatFieldLabel(name: string): string {
+  return name
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/^./, first => first.toUpperCase())
+}
+
+function renderCustomFieldValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '<span style="color: #9ca3af;">—</span>'
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0
+      ? '<span style="color: #9ca3af;">None</span>'
+      : `<ul style="margin: 0; padding-left: 1.25rem;">${value.map(item => `<li>${renderCustomFieldValue(item)}</li>`).join('')}</ul>`
+  }
+  if (typeof value === 'object') {
+    return renderCustomFields(value as Record<string, unknown>)
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No'
+  }
+  return escapeHtml(String(value))
+}
+
+/**
+ * Renders the custom fields of a project's analysis template, whatever its output schema
+ */
+function renderCustomFields(fields: Record<string, unknown>): string {
+  return `<dl style="margin: 0;">${Object.entries(fields)
+    .map(
+      ([name, value]) =>
+        `<dt style="font-weight: 500; color: #374151;">${escapeHtml(formatFieldLabel(name))}</dt><dd style="margin: 0 0 0.5rem 0;">${renderCustomFieldValue(value)}</dd>`
+    )
+    .join('')}</dl>`
+}
+
 // Helper function to render a section with consistent styling
 function renderAnalysisSection(icon: string, title: string, content: any): string {
   if (!content) {
@@ -365,7 +471,8 @@ function renderCompletedPanel(
   conversationId: string,
   branchId: string,
   analysisResponse: GetAnalysisResponse,
-  _auth?: { isAuthenticated: boolean; principal: string; source: 'dev' | 'sso' }
+  _auth?: { isAuthenticated: boolean; principal: string; source: 'dev' | 'sso' },
+  defaultPrompt = getAnalysisPromptTemplate()
 ) {
   const formatDate = (date: string | Date) => {
     const d = new Date(date)
@@ -380,12 +487,12 @@ function renderCompletedPanel(
 
   // Type guard to ensure we have a completed response
   if (analysisResponse.status !== 'completed') {
-    return renderIdlePanel(conversationId, branchId)
+    return renderIdlePanel(conversationId, branchId, undefined, defaultPrompt)
   }
 
   // Check if we have analysis data
   if (!analysisResponse.data && !analysisResponse.content) {
-    return renderIdlePanel(conversationId, branchId)
+    return renderIdlePanel(conversationId, branchId, undefined, defaultPrompt)
   }
 
   const analysisData = analysisResponse.data
@@ -482,7 +589,7 @@ function renderCompletedPanel(
           style="width: 100%; padding: 0.75rem; border: 1px solid #d1d5db; border-radius: 0.375rem; font-size: 0.875rem; font-family: monospace; resize: vertical;"
           placeholder="Enter custom analysis prompt..."
         >
-${getAnalysisPromptTemplate()}</textarea
+${defaultPrompt}</textarea
         >
         <p style="margin-top: 0.5rem; font-size: 0.75rem; color: #6b7280;">
           Customize the prompt to focus on specific aspects or change the output format for
@@ -954,6 +1061,15 @@ ${getAnalysisPromptTemplate()}</textarea
               )
             )
           : ''}
+        ${analysisResponse.customFields && Object.keys(analysisResponse.customFields).length > 0
+          ? raw(
+              renderAnalysisSection(
+                ICONS.customFields,
+                'Custom Fields',
+                renderCustomFields(analysisResponse.customFields)
+              )
+            )
+          : ''}
         ${!analysisData && analysisResponse.content
           ? html`
               <div style="background: #f9fafb; border-radius: 0.5rem; padding: 1rem;">
@@ -1010,6 +1126,15 @@ ${getAnalysisPromptTemplate()}</textarea
               </svg>
               <span>Generated: ${formatDate(analysisResponse.completedAt || new Date())}</span>
             </div>
+            ${analysisResponse.template || analysisResponse.promptVersion
+              ? html`<span
+                  >${analysisResponse.template
+                    ? `Template v${analysisResponse.template.version}`
+                    : 'Default prompt'}${analysisResponse.promptVersion
+                    ? ` · Prompt ${analysisResponse.promptVersion}`
+                    : ''}</span
+                >`
+              : ''}
           </div>
         </div>
       </div>
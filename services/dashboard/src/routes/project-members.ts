@@ -5,9 +5,16 @@ import {
   removeProjectMember,
   updateProjectMemberRole,
   getProjectById,
+  getProjectMembers,
 } from '@agent-prompttrain/shared/database/queries'
-import type { AddProjectMemberRequest, UpdateProjectMemberRequest } from '@agent-prompttrain/shared'
+import {
+  PROJECT_MEMBER_ROLES,
+  isProjectMemberRole,
+  type AddProjectMemberRequest,
+  type UpdateProjectMemberRequest,
+} from '@agent-prompttrain/shared'
 import { requireProjectOwner } from '../middleware/project-ownership.js'
+import { recordAudit } from '../utils/audit.js'
 
 const trainMembers = new Hono()
 
@@ -29,8 +36,8 @@ trainMembers.post('/:id/members', requireProjectOwner, async c => {
       return c.json({ error: 'user_email and role are required' }, 400)
     }
 
-    if (body.role !== 'owner' && body.role !== 'member') {
-      return c.json({ error: 'role must be "owner" or "member"' }, 400)
+    if (!isProjectMemberRole(body.role)) {
+      return c.json({ error: `role must be one of: ${PROJECT_MEMBER_ROLES.join(', ')}` }, 400)
     }
 
     const member = await addProjectMember(
@@ -41,6 +48,14 @@ trainMembers.post('/:id/members', requireProjectOwner, async c => {
       auth.principal
     )
 
+    await recordAudit(c, {
+      action: 'project.member_added',
+      target_type: 'project_member',
+      target_id: member.user_email,
+      project_id: train.project_id,
+      changes: { role: { before: null, after: member.role } },
+    })
+
     return c.json({ member }, 201)
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } catch (error: any) {
@@ -65,7 +80,17 @@ trainMembers.delete('/:id/members/:email', requireProjectOwner, async c => {
       return c.json({ error: 'Project not found' }, 404)
     }
 
+    const members = await getProjectMembers(pool, projectId)
+    const previous = members.find(m => m.user_email === userEmail)
+
     await removeProjectMember(pool, projectId, userEmail)
+    await recordAudit(c, {
+      action: 'project.member_removed',
+      target_type: 'project_member',
+      target_id: userEmail,
+      project_id: train.project_id,
+      changes: { role: { before: previous?.role ?? null, after: null } },
+    })
     return c.json({ success: true })
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } catch (error: any) {
@@ -98,11 +123,23 @@ trainMembers.patch('/:id/members/:email', requireProjectOwner, async c => {
       return c.json({ error: 'role is required' }, 400)
     }
 
-    if (body.role !== 'owner' && body.role !== 'member') {
-      return c.json({ error: 'role must be "owner" or "member"' }, 400)
+    if (!isProjectMemberRole(body.role)) {
+      return c.json({ error: `role must be one of: ${PROJECT_MEMBER_ROLES.join(', ')}` }, 400)
     }
 
+    const members = await getProjectMembers(pool, projectId)
+    const previous = members.find(m => m.user_email === userEmail)
+
     const member = await updateProjectMemberRole(pool, projectId, userEmail, body.role)
+    if (previous?.role !== member.role) {
+      await recordAudit(c, {
+        action: 'project.member_role_changed',
+        target_type: 'project_member',
+        target_id: userEmail,
+        project_id: train.project_id,
+        changes: { role: { before: previous?.role ?? null, after: member.role } },
+      })
+    }
     return c.json({ member })
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } catch (error: any) {
@@ -1,5 +1,6 @@
 import { Hono } from 'hono'
 import { html, raw } from 'hono/html'
+import type { Pool } from 'pg'
 import { layout } from '../layout/index.js'
 import { container } from '../container.js'
 import {
@@ -14,21 +15,92 @@ import {
   getProjectMembers,
   addProjectMember,
   deleteProject,
-  isProjectOwner,
-  isProjectMember,
+  checkProjectPermission,
+  getProjectAccess,
   getProjectStats,
   getProjectWithAccounts,
   getProjectById,
   updateProject,
   addProjectAccount,
   removeProjectAccount,
+  getProjectBudgetStatus,
+  getResponseCacheSavings,
+  listProjectWebhooks,
+  createProjectWebhook,
+  updateProjectWebhook,
+  deleteProjectWebhook,
+  getRetentionPurgePreview,
+  listProjectUserMappings,
+  listUnmappedClientUsers,
+  upsertProjectUserMapping,
+  deleteProjectUserMapping,
+  updateTrainApiKeyScopes,
+  listAnalysisTemplates,
+  createAnalysisTemplate,
+  setActiveAnalysisTemplate,
 } from '@agent-prompttrain/shared/database/queries'
-import { getErrorMessage } from '@agent-prompttrain/shared'
-import type { CredentialSafe, ProjectApiKeySafe } from '@agent-prompttrain/shared/types'
+import {
+  diffAuditChanges,
+  getErrorMessage,
+  validateProjectBudget,
+  validateProjectRateLimits,
+  validateProjectResponseCache,
+  validateProjectTransforms,
+  validateModelRoutingPolicy,
+  validateProjectWebhook,
+  validateWebhookTarget,
+  validateProjectRetention,
+  validateProjectRedaction,
+  validateAnalysisTemplate,
+  validateUserMapping,
+  validateApiKeyScopes,
+  normalizeClientUserId,
+  API_KEY_ENDPOINTS,
+  API_KEY_ENDPOINT_DESCRIPTIONS,
+  MIN_METADATA_RETENTION_DAYS,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  PROJECT_MEMBER_ROLES,
+  hasProjectPermission,
+  isProjectMemberRole,
+} from '@agent-prompttrain/shared'
+import type {
+  AnalysisOutputSchema,
+  ApiKeyScopes,
+  BudgetPeriodStatus,
+  CredentialSafe,
+  Project,
+  ProjectAnalysisTemplate,
+  ProjectApiKeySafe,
+  ProjectBudgetStatus,
+  ProjectMemberRole,
+  ProjectUserMapping,
+  ProjectWebhook,
+  ProjectWebhookSafe,
+  RedactionPattern,
+  ResponseCacheSavings,
+  RetentionPurgePreview,
+  UnmappedClientUser,
+  WebhookEventType,
+} from '@agent-prompttrain/shared/types'
 import type { AuthContext } from '../middleware/auth.js'
+import { recordAudit, recordProjectUpdate } from '../utils/audit.js'
 
 export const trainsUIRoutes = new Hono<{ Variables: { auth: AuthContext } }>()
 
+/** Window for the response cache savings shown on the project page */
+const RESPONSE_CACHE_SAVINGS_DAYS = 30
+
+/** Window for the unattributed client user IDs shown on the project page */
+const UNMAPPED_CLIENT_USERS_DAYS = 30
+
+const MEMBER_ROLE_COLORS: Record<ProjectMemberRole, string> = {
+  owner: '#3b82f6',
+  member: '#6b7280',
+  viewer: '#8b5cf6',
+  billing: '#f59e0b',
+}
+
 /**
  * Projects management UI page - Table view
  */
@@ -61,7 +133,9 @@ trainsUIRoutes.get('/', async c => {
         const [stats, members, isOwner] = await Promise.all([
           getProjectStats(pool, train.id),
           getProjectMembers(pool, train.id),
-          auth.isAuthenticated ? isProjectOwner(pool, train.id, auth.principal) : false,
+          auth.isAuthenticated
+            ? checkProjectPermission(pool, train.id, auth.principal, 'project.manage')
+            : false,
         ])
 
         const firstOwner = members.find(m => m.role === 'owner')
@@ -462,12 +536,32 @@ trainsUIRoutes.get('/:projectId/view', async c => {
       )
     }
 
-    const [isOwner, isMember] = auth.isAuthenticated
-      ? await Promise.all([
-          isProjectOwner(pool, train.id, auth.principal),
-          isProjectMember(pool, train.id, auth.principal),
-        ])
-      : [false, false]
+    const access = auth.isAuthenticated
+      ? await getProjectAccess(pool, train.id, auth.principal)
+      : null
+    const isOwner = access !== null && hasProjectPermission(access, 'project.manage')
+    const isMember = access !== null && hasProjectPermission(access, 'project.use')
+    const canReadUsage = access !== null && hasProjectPermission(access, 'usage.read')
+
+    const [
+      budgetStatus,
+      responseCacheSavings,
+      webhooks,
+      retentionPreview,
+      userMappings,
+      analysisTemplates,
+    ] = await Promise.all([
+      getProjectBudgetStatus(pool, train.project_id),
+      getResponseCacheSavings(
+        pool,
+        train.project_id,
+        new Date(Date.now() - RESPONSE_CACHE_SAVINGS_DAYS * 24 * 60 * 60 * 1000)
+      ),
+      isOwner ? listProjectWebhooks(pool, train.id) : Promise.resolve([]),
+      getRetentionPurgePreview(pool, train.project_id),
+      isOwner ? loadUserAttribution(pool, train) : Promise.resolve(null),
+      listAnalysisTemplates(pool, train.id),
+    ])
 
     const content = html`
       <div style="margin-bottom: 2rem;">
@@ -533,6 +627,38 @@ trainsUIRoutes.get('/:projectId/view', async c => {
           </div>
         </div>
 
+        <!-- Budget Section (Usage Readers Only) -->
+        ${canReadUsage ? renderBudgetSection(train, budgetStatus, isOwner) : ''}
+
+        <!-- Rate Limits Section -->
+        ${renderRateLimitSection(train, isOwner)}
+
+        <!-- Response Cache Section (Usage Readers Only) -->
+        ${canReadUsage ? renderResponseCacheSection(train, responseCacheSavings, isOwner) : ''}
+
+        <!-- Request Transforms Section -->
+        ${renderTransformsSection(train, isOwner)}
+
+        <!-- Model Routing Section -->
+        ${renderModelRoutingSection(train, isOwner)}
+
+        <!-- Data Retention Section -->
+        ${renderDataRetentionSection(train, retentionPreview, isOwner)}
+
+        <!-- Body Redaction Section -->
+        ${renderRedactionSection(train, isOwner)}
+
+        <!-- Analysis Template Section -->
+        ${renderAnalysisTemplateSection(train, analysisTemplates, isOwner)}
+
+        <!-- Webhooks Section (Owner Only) -->
+        ${isOwner ? renderWebhooksSection(train.id, webhooks) : ''}
+
+        <!-- User Attribution Section (Owner Only) -->
+        ${userMappings
+          ? renderUserAttributionSection(train.id, userMappings.mappings, userMappings.unmapped)
+          : ''}
+
         <!-- Privacy Settings Section (Owner Only) -->
         ${isOwner
           ? html`
@@ -855,6 +981,8 @@ ${train.system_prompt ? JSON.stringify(train.system_prompt, null, 2) : ''}</text
                       style="width: 100%; padding: 0.375rem; border: 1px solid #d1d5db; border-radius: 0.25rem; font-size: 0.875rem;"
                     >
                       <option value="member">Member</option>
+                      <option value="viewer">Viewer (conversations only)</option>
+                      <option value="billing">Billing (costs and usage only)</option>
                       <option value="owner">Owner</option>
                     </select>
                   </div>
@@ -893,7 +1021,7 @@ ${train.system_prompt ? JSON.stringify(train.system_prompt, null, 2) : ''}</text
                 <form
                   hx-post="/dashboard/projects/${train.id}/generate-api-key"
                   hx-swap="beforebegin"
-                  style="margin-bottom: 1rem; display: flex; gap: 0.5rem; align-items: end;"
+                  style="margin-bottom: 1rem; display: flex; flex-wrap: wrap; gap: 0.5rem; align-items: end;"
                 >
                   <div style="flex: 1;">
                     <label
@@ -916,6 +1044,12 @@ ${train.system_prompt ? JSON.stringify(train.system_prompt, null, 2) : ''}</text
                   >
                     Generate API Key
                   </button>
+                  <details style="flex-basis: 100%; font-size: 0.875rem;">
+                    <summary style="cursor: pointer; color: #374151;">
+                      Restrictions (optional)
+                    </summary>
+                    ${renderApiKeyScopeFields(`new-${train.id}`)}
+                  </details>
                 </form>
               `
             : ''}
@@ -965,256 +1099,2685 @@ ${train.system_prompt ? JSON.stringify(train.system_prompt, null, 2) : ''}</text
 })
 
 /**
- * Renders the API keys list HTML fragment.
- * Used by the api-keys-list GET endpoint and the revoke/delete PATCH/DELETE endpoints.
+ * Renders spend-to-date against the project's daily/monthly budgets,
+ * with the budget form for owners.
  */
-function renderApiKeysList(
-  apiKeys: ProjectApiKeySafe[],
-  projectId: string,
-  auth: AuthContext,
+function renderBudgetSection(
+  train: Project,
+  budgetStatus: ProjectBudgetStatus | null,
   userIsOwner: boolean
 ) {
-  if (apiKeys.length === 0) {
+  const periods = budgetStatus?.periods ?? []
+  const alertPercent = Math.round(Number(train.budget_alert_threshold) * 100)
+
+  const renderPeriod = (budget: BudgetPeriodStatus) => {
+    const percent = budget.utilization * 100
+    const barColor = budget.exceeded ? '#ef4444' : budget.alert ? '#f59e0b' : '#22c55e'
+    const bgColor = budget.exceeded ? '#fee2e2' : budget.alert ? '#fef3c7' : '#dcfce7'
+
     return html`
-      <div
-        style="background: #f9fafb; border: 1px solid #e5e7eb; padding: 0.75rem; border-radius: 0.25rem; color: #6b7280; text-align: center;"
-      >
-        No API keys generated yet
+      <div style="background: #f9fafb; border: 1px solid #e5e7eb; padding: 0.75rem; border-radius: 0.25rem;">
+        <div
+          style="display: flex; justify-content: space-between; align-items: baseline; margin-bottom: 0.5rem;"
+        >
+          <div style="font-weight: 600; font-size: 0.875rem;">
+            ${budget.period === 'daily' ? 'Today' : 'This month'}
+            ${budget.exceeded
+              ? html`<span
+                  style="background: #fee2e2; color: #991b1b; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-size: 0.75rem; margin-left: 0.5rem;"
+                  >Budget reached - requests rejected</span
+                >`
+              : ''}
+          </div>
+          <div style="font-size: 0.875rem;">
+            <strong>$${budget.spentUsd.toFixed(2)}</strong>
+            <span style="color: #6b7280;">of $${budget.limitUsd.toFixed(2)}</span>
+          </div>
+        </div>
+        <div style="height: 8px; background: ${bgColor}; border-radius: 4px; overflow: hidden;">
+          <div
+            style="height: 100%; width: ${Math.min(percent, 100)}%; background: ${barColor}; border-radius: 4px;"
+          ></div>
+        </div>
+        <div style="font-size: 0.75rem; color: #6b7280; margin-top: 0.25rem;">
+          ${percent.toFixed(0)}% used · resets ${budget.resetsAt.toISOString().replace('T', ' ').slice(0, 16)}
+          UTC
+        </div>
       </div>
     `
   }
 
   return html`
-    <div style="display: flex; flex-direction: column; gap: 0.5rem;">
-      ${apiKeys.map(
-        key => html`
-          <div
-            data-testid="api-key-item"
-            style="background: #f9fafb; border: 1px solid #e5e7eb; padding: 0.75rem; border-radius: 0.25rem;"
-          >
+    <div
+      style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+      id="budget-settings"
+    >
+      <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 0.25rem;">Budget</h3>
+      <p style="font-size: 0.75rem; color: #6b7280; margin-bottom: 1rem;">
+        Estimated spend from stored requests at list pricing. A Slack alert is sent at
+        ${alertPercent}% of a budget; once it is spent, requests are rejected with a
+        <code>budget_exceeded</code> error until the period resets (UTC).
+      </p>
+
+      ${periods.length === 0
+        ? html`
             <div
-              style="display: flex; justify-content: space-between; align-items: start; margin-bottom: 0.25rem;"
+              style="background: #f9fafb; border: 1px solid #e5e7eb; padding: 0.75rem; border-radius: 0.25rem; color: #6b7280; text-align: center; font-size: 0.875rem;"
             >
-              <div>
-                <div style="font-weight: 600; font-size: 0.875rem;">
-                  ${key.name || 'Unnamed API Key'}
-                </div>
-                <div style="font-size: 0.75rem; color: #6b7280;">
-                  <code
-                    style="background: white; padding: 0.125rem 0.25rem; border-radius: 0.125rem;"
-                    >${key.key_preview}...</code
-                  >
-                </div>
-              </div>
-              <div style="display: flex; align-items: center; gap: 0.5rem;">
-                ${key.revoked_at
-                  ? html`<span
-                        style="background: #ef4444; color: white; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-size: 0.75rem;"
-                        >REVOKED</span
-                      >
-                      ${userIsOwner || (auth.isAuthenticated && key.created_by === auth.principal)
-                        ? html`
-                            <form
-                              data-testid="delete-api-key-form"
-                              hx-delete="/dashboard/projects/${projectId}/delete-api-key/${key.id}"
-                              hx-confirm="Are you sure you want to permanently delete this API key? This action cannot be undone."
-                              hx-target="#api-keys-${projectId}"
-                              hx-swap="innerHTML"
-                              style="margin: 0;"
-                            >
-                              <button
-                                type="submit"
-                                data-testid="delete-api-key-button"
-                                title="Delete API key permanently"
-                                style="background: #ef4444; color: white; padding: 0.25rem 0.375rem; border-radius: 0.25rem; border: none; cursor: pointer; line-height: 1; display: flex; align-items: center;"
-                              >
-                                <svg
-                                  xmlns="http://www.w3.org/2000/svg"
-                                  width="14"
-                                  height="14"
-                                  viewBox="0 0 24 24"
-                                  fill="none"
-                                  stroke="currentColor"
-                                  stroke-width="2"
-                                  stroke-linecap="round"
-                                  stroke-linejoin="round"
-                                >
-                                  <polyline points="3 6 5 6 21 6"></polyline>
-                                  <path
-                                    d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"
-                                  ></path>
-                                  <line x1="10" y1="11" x2="10" y2="17"></line>
-                                  <line x1="14" y1="11" x2="14" y2="17"></line>
-                                </svg>
-                              </button>
-                            </form>
-                          `
-                        : ''}`
-                  : html`<span
-                        style="background: #10b981; color: white; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-size: 0.75rem;"
-                        >ACTIVE</span
-                      >
-                      ${auth.isAuthenticated &&
-                      !key.revoked_at &&
-                      (userIsOwner || key.created_by === auth.principal)
-                        ? html`
-                            <form
-                              data-testid="revoke-api-key-form"
-                              hx-patch="/dashboard/projects/${projectId}/revoke-api-key/${key.id}"
-                              hx-confirm="Are you sure you want to revoke this API key? This action cannot be undone."
-                              hx-target="#api-keys-${projectId}"
-                              hx-swap="innerHTML"
-                              style="margin: 0;"
-                            >
-                              <button
-                                type="submit"
-                                data-testid="revoke-api-key-button"
-                                style="background: #ef4444; color: white; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.75rem;"
-                              >
-                                Revoke
-                              </button>
-                            </form>
-                          `
-                        : ''}`}
-              </div>
+              No budget configured
             </div>
-            <div style="font-size: 0.75rem; color: #6b7280;">
-              Owner: ${key.created_by || 'Unknown'} • Created:
-              ${new Date(key.created_at).toLocaleString()}
-              ${key.last_used_at
-                ? html`• Last used: ${new Date(key.last_used_at).toLocaleString()}`
-                : html`• Never used`}
+          `
+        : html`
+            <div style="display: flex; flex-direction: column; gap: 0.5rem;">
+              ${periods.map(renderPeriod)}
             </div>
-          </div>
-        `
-      )}
+          `}
+      ${userIsOwner
+        ? html`
+            <form
+              hx-put="/dashboard/projects/${train.id}/budget"
+              hx-swap="outerHTML"
+              hx-target="#budget-settings"
+              style="display: flex; gap: 0.75rem; align-items: end; flex-wrap: wrap; margin-top: 1rem;"
+            >
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                Daily budget (USD)
+                <input
+                  type="number"
+                  name="daily_budget_usd"
+                  min="0"
+                  step="0.01"
+                  value="${train.daily_budget_usd ?? ''}"
+                  placeholder="No limit"
+                  style="display: block; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; width: 9rem;"
+                />
+              </label>
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                Monthly budget (USD)
+                <input
+                  type="number"
+                  name="monthly_budget_usd"
+                  min="0"
+                  step="0.01"
+                  value="${train.monthly_budget_usd ?? ''}"
+                  placeholder="No limit"
+                  style="display: block; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; width: 9rem;"
+                />
+              </label>
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                Alert at (%)
+                <input
+                  type="number"
+                  name="budget_alert_percent"
+                  min="1"
+                  max="100"
+                  step="1"
+                  value="${alertPercent}"
+                  style="display: block; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; width: 6rem;"
+                />
+              </label>
+              <button
+                type="submit"
+                style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+              >
+                Save Budget
+              </button>
+            </form>
+          `
+        : ''}
     </div>
   `
 }
 
 /**
- * HTMX endpoint to load API keys for a specific train
+ * Renders the project's request/token rate limits, with the override form for owners.
  */
-trainsUIRoutes.get('/:projectId/api-keys-list', async c => {
-  const projectId = c.req.param('projectId')
-  const pool = container.getPool()
-  const auth = c.get('auth')
+function renderRateLimitSection(train: Project, userIsOwner: boolean) {
+  const formatLimit = (value: number | null) =>
+    value === null ? 'Proxy default' : Number(value).toLocaleString()
 
-  if (!pool) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        Database not configured
+  return html`
+    <div
+      style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+      id="rate-limit-settings"
+    >
+      <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 0.25rem;">Rate Limits</h3>
+      <p style="font-size: 0.75rem; color: #6b7280; margin-bottom: 1rem;">
+        Sliding-window limits shared by all proxy instances. Leave a field empty to use the
+        proxy's <code>DOMAIN_RATE_LIMIT_*</code> defaults. Changes apply within a minute.
+      </p>
+
+      <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 1rem;">
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Requests per window
+          </div>
+          <div style="font-size: 0.875rem;">${formatLimit(train.rate_limit_max_requests)}</div>
+        </div>
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Tokens per window
+          </div>
+          <div style="font-size: 0.875rem;">${formatLimit(train.rate_limit_max_tokens)}</div>
+        </div>
       </div>
-    `)
-  }
 
-  try {
-    const apiKeys = await listTrainApiKeys(pool, projectId)
-
-    // Determine if user is project owner (can revoke any key)
-    const userIsOwner =
-      auth.isAuthenticated && (await isProjectOwner(pool, projectId, auth.principal))
-
-    return c.html(renderApiKeysList(apiKeys, projectId, auth, userIsOwner))
-  } catch (error) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        Error: ${getErrorMessage(error)}
-      </div>
-    `)
-  }
-})
+      ${userIsOwner
+        ? html`
+            <form
+              hx-put="/dashboard/projects/${train.id}/rate-limits"
+              hx-swap="outerHTML"
+              hx-target="#rate-limit-settings"
+              style="display: flex; gap: 0.75rem; align-items: end; flex-wrap: wrap; margin-top: 1rem;"
+            >
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                Max requests
+                <input
+                  type="number"
+                  name="rate_limit_max_requests"
+                  min="1"
+                  step="1"
+                  value="${train.rate_limit_max_requests ?? ''}"
+                  placeholder="Proxy default"
+                  style="display: block; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; width: 10rem;"
+                />
+              </label>
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                Max tokens
+                <input
+                  type="number"
+                  name="rate_limit_max_tokens"
+                  min="1"
+                  step="1"
+                  value="${train.rate_limit_max_tokens ?? ''}"
+                  placeholder="Proxy default"
+                  style="display: block; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; width: 10rem;"
+                />
+              </label>
+              <button
+                type="submit"
+                style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+              >
+                Save Rate Limits
+              </button>
+            </form>
+          `
+        : ''}
+    </div>
+  `
+}
 
 /**
- * Revoke an API key (HTMX form submission - owner or key creator only)
- * Returns the refreshed api-keys-list HTML after revoking
+ * Renders the response cache settings and what cache hits saved recently,
+ * with the settings form for owners.
  */
-trainsUIRoutes.patch('/:projectId/revoke-api-key/:keyId', async c => {
-  const projectId = c.req.param('projectId')
-  const keyId = c.req.param('keyId')
-  const pool = container.getPool()
-  const auth = c.get('auth')
+function renderResponseCacheSection(
+  train: Project,
+  savings: ResponseCacheSavings,
+  userIsOwner: boolean
+) {
+  const savedTokens =
+    savings.savedInputTokens + savings.savedOutputTokens + savings.savedCacheReadTokens
+  const enabled = train.response_cache_enabled
 
-  if (!pool) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        Database not configured
+  return html`
+    <div
+      style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+      id="response-cache-settings"
+    >
+      <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 0.25rem;">
+        Response Cache
+        <span
+          style="background: ${enabled ? '#dcfce7' : '#f3f4f6'}; color: ${enabled
+            ? '#166534'
+            : '#6b7280'}; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-size: 0.75rem; margin-left: 0.5rem;"
+          >${enabled ? 'Enabled' : 'Disabled'}</span
+        >
+      </h3>
+      <p style="font-size: 0.75rem; color: #6b7280; margin-bottom: 1rem;">
+        Identical non-streaming requests with <code>temperature: 0</code> are answered from the
+        cache for ${train.response_cache_ttl_seconds} seconds after the first response, marked with
+        an <code>x-prompttrain-cache: hit</code> header. The cache is not used while body redaction
+        is enabled.
+      </p>
+
+      <div style="display: grid; grid-template-columns: repeat(3, 1fr); gap: 1rem;">
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Cache hits (${RESPONSE_CACHE_SAVINGS_DAYS}d)
+          </div>
+          <div style="font-size: 0.875rem;">${savings.hits.toLocaleString()}</div>
+        </div>
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Tokens saved
+          </div>
+          <div style="font-size: 0.875rem;">${savedTokens.toLocaleString()}</div>
+        </div>
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Estimated savings
+          </div>
+          <div style="font-size: 0.875rem;">$${savings.savedUsd.toFixed(2)}</div>
+        </div>
       </div>
-    `)
-  }
 
-  if (!auth.isAuthenticated) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> Unauthorized - please log in
-      </div>
-    `)
-  }
+      ${userIsOwner
+        ? html`
+            <form
+              hx-put="/dashboard/projects/${train.id}/response-cache"
+              hx-swap="outerHTML"
+              hx-target="#response-cache-settings"
+              style="display: flex; gap: 0.75rem; align-items: end; flex-wrap: wrap; margin-top: 1rem;"
+            >
+              <label
+                style="font-size: 0.875rem; color: #374151; display: flex; align-items: center; gap: 0.5rem;"
+              >
+                <input
+                  type="checkbox"
+                  name="response_cache_enabled"
+                  value="true"
+                  ${enabled ? 'checked' : ''}
+                />
+                Enable response cache
+              </label>
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                TTL (seconds)
+                <input
+                  type="number"
+                  name="response_cache_ttl_seconds"
+                  min="1"
+                  max="86400"
+                  step="1"
+                  value="${train.response_cache_ttl_seconds}"
+                  style="display: block; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; width: 8rem;"
+                />
+              </label>
+              <button
+                type="submit"
+                style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+              >
+                Save Cache Settings
+              </button>
+            </form>
+          `
+        : ''}
+    </div>
+  `
+}
 
-  // Check project membership
-  const isMember = await isProjectMember(pool, projectId, auth.principal)
-  if (!isMember) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> You are not a member of this project
-      </div>
-    `)
-  }
+/**
+ * Renders the project's request/response transforms, with the JSON editor for owners.
+ */
+function renderTransformsSection(train: Project, userIsOwner: boolean) {
+  const transforms = train.transforms ?? []
+
+  return html`
+    <div
+      style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+      id="transforms-settings"
+    >
+      <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 0.25rem;">
+        Request Transforms
+        <span style="color: #6b7280; font-size: 0.875rem; font-weight: 400; margin-left: 0.5rem;"
+          >${transforms.length > 0 ? `${transforms.length} configured` : 'none'}</span
+        >
+      </h3>
+      <p style="font-size: 0.75rem; color: #6b7280; margin-bottom: 1rem;">
+        Applied in order to every request of this project, after the system prompt override.
+        Supported types: <code>prepend_system</code>, <code>append_system</code>,
+        <code>inject_tools</code>, <code>strip_tools</code>, <code>max_tokens_ceiling</code>,
+        <code>rewrite_model</code> and <code>redact_response</code>. Applied transforms are
+        recorded on each stored request.
+      </p>
+
+      ${transforms.length > 0
+        ? html`
+            <ol style="font-size: 0.875rem; margin: 0 0 1rem 1.25rem; padding: 0;">
+              ${transforms.map(transform => html`<li><code>${transform.type}</code></li>`)}
+            </ol>
+          `
+        : ''}
+      ${userIsOwner
+        ? html`
+            <form
+              hx-put="/dashboard/projects/${train.id}/transforms"
+              hx-swap="outerHTML"
+              hx-target="#transforms-settings"
+            >
+              <textarea
+                name="transforms"
+                rows="10"
+                style="width: 100%; font-family: monospace; font-size: 0.8125rem; padding: 0.75rem; border: 1px solid #d1d5db; border-radius: 0.25rem; resize: vertical; box-sizing: border-box;"
+                placeholder='[{"type": "max_tokens_ceiling", "max_tokens": 4096}]'
+              >
+${transforms.length > 0 ? JSON.stringify(transforms, null, 2) : ''}</textarea
+              >
+              <div style="display: flex; justify-content: flex-end; margin-top: 0.5rem;">
+                <button
+                  type="submit"
+                  style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+                >
+                  Save Transforms
+                </button>
+              </div>
+            </form>
+          `
+        : ''}
+    </div>
+  `
+}
+
+/**
+ * Renders the project's model routing policy, with the JSON editor for owners.
+ */
+function renderModelRoutingSection(train: Project, userIsOwner: boolean) {
+  const policy = train.model_routing
+
+  return html`
+    <div
+      style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+      id="model-routing-settings"
+    >
+      <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 0.25rem;">
+        Model Routing
+        <span style="color: #6b7280; font-size: 0.875rem; font-weight: 400; margin-left: 0.5rem;"
+          >${policy ? `${policy.rules.length} rule(s)` : 'not configured'}</span
+        >
+      </h3>
+      <p style="font-size: 0.75rem; color: #6b7280; margin-bottom: 1rem;">
+        Requests for models outside <code>allowed_models</code> are rejected. The first rule whose
+        <code>match</code> fits the requested model forwards its <code>prefer</code> model instead,
+        and tries its <code>fallbacks</code> in order when no account is available. Model names may
+        end in <code>*</code> to match a prefix.
+      </p>
+
+      ${policy && policy.allowed_models.length > 0
+        ? html`
+            <div style="font-size: 0.875rem; margin-bottom: 1rem;">
+              <strong>Allowed models:</strong>
+              ${policy.allowed_models.map(model => html`<code>${model}</code> `)}
+            </div>
+          `
+        : ''}
+      ${userIsOwner
+        ? html`
+            <form
+              hx-put="/dashboard/projects/${train.id}/model-routing"
+              hx-swap="outerHTML"
+              hx-target="#model-routing-settings"
+            >
+              <textarea
+                name="model_routing"
+                rows="10"
+                style="width: 100%; font-family: monospace; font-size: 0.8125rem; padding: 0.75rem; border: 1px solid #d1d5db; border-radius: 0.25rem; resize: vertical; box-sizing: border-box;"
+                placeholder='{"allowed_models": ["claude-sonnet-*", "claude-opus-*"], "rules": [{"match": "claude-opus-*", "fallbacks": ["claude-sonnet-4-5"]}]}'
+              >
+${policy ? JSON.stringify(policy, null, 2) : ''}</textarea
+              >
+              <div style="display: flex; justify-content: flex-end; margin-top: 0.5rem;">
+                <button
+                  type="submit"
+                  style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+                >
+                  Save Model Routing
+                </button>
+              </div>
+            </form>
+          `
+        : ''}
+    </div>
+  `
+}
+
+function renderWebhookEventCheckboxes(selected: readonly WebhookEventType[]) {
+  return WEBHOOK_EVENT_TYPES.map(
+    event => html`
+      <label
+        style="display: flex; align-items: baseline; gap: 0.375rem; font-size: 0.8125rem;"
+        title="${WEBHOOK_EVENT_DESCRIPTIONS[event]}"
+      >
+        <input
+          type="checkbox"
+          name="events"
+          value="${event}"
+          ${selected.includes(event) ? 'checked' : ''}
+        />
+        <code>${event}</code>
+      </label>
+    `
+  )
+}
+
+/**
+ * Renders the webhooks section (owner only). A newly created webhook's
+ * signing secret is passed in once and never shown again.
+ */
+function renderWebhooksSection(
+  projectUuid: string,
+  webhooks: ProjectWebhookSafe[],
+  createdWebhook?: ProjectWebhook
+) {
+  return html`
+    <div
+      style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+      id="webhook-settings"
+    >
+      <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 0.25rem;">
+        Webhooks
+        <span style="color: #6b7280; font-size: 0.875rem; font-weight: 400; margin-left: 0.5rem;"
+          >${webhooks.length > 0 ? `${webhooks.length} endpoint(s)` : 'not configured'}</span
+        >
+      </h3>
+      <p style="font-size: 0.75rem; color: #6b7280; margin-bottom: 1rem;">
+        Subscribed events are POSTed as JSON to each enabled endpoint and retried with backoff on
+        network errors, 429 and 5xx responses. Every request carries an
+        <code>X-PromptTrain-Signature: t=&lt;timestamp&gt;,v1=&lt;hex&gt;</code> header, the
+        HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;body&gt;</code> keyed with the webhook secret.
+      </p>
+
+      ${createdWebhook
+        ? html`
+            <div
+              style="background: #d1fae5; border: 1px solid #10b981; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+            >
+              <p style="font-weight: 600; margin-bottom: 0.5rem;">Webhook created</p>
+              <p style="font-size: 0.875rem; margin-bottom: 0.5rem;">
+                Copy the signing secret now. It will not be shown again.
+              </p>
+              <code
+                style="display: block; background: white; padding: 0.5rem; border-radius: 0.25rem; word-break: break-all;"
+                >${createdWebhook.secret}</code
+              >
+            </div>
+          `
+        : ''}
+      ${webhooks.map(
+        webhook => html`
+          <div
+            style="background: #f9fafb; border: 1px solid #e5e7eb; padding: 0.75rem; border-radius: 0.25rem; margin-bottom: 0.75rem;"
+          >
+            <div
+              style="display: flex; justify-content: space-between; align-items: start; gap: 0.5rem;"
+            >
+              <div style="min-width: 0;">
+                <div style="font-weight: 600; font-size: 0.875rem; word-break: break-all;">
+                  ${webhook.url}
+                </div>
+                <div style="font-size: 0.75rem; color: #6b7280;">
+                  Secret: <code>${webhook.secret_preview}</code>
+                  ${webhook.last_delivery_at
+                    ? html`• Last delivery:
+                      ${new Date(webhook.last_delivery_at).toLocaleString()}
+                      (${webhook.last_delivery_error
+                        ? html`<span style="color: #dc2626;">${webhook.last_delivery_error}</span>`
+                        : webhook.last_delivery_status})`
+                    : html`• No deliveries yet`}
+                </div>
+              </div>
+              <form
+                hx-delete="/dashboard/projects/${projectUuid}/webhooks/${webhook.id}"
+                hx-confirm="Delete this webhook?"
+                hx-target="#webhook-settings"
+                hx-swap="outerHTML"
+                style="margin: 0;"
+              >
+                <button
+                  type="submit"
+                  style="background: #ef4444; color: white; padding: 0.25rem 0.5rem; border-radius: 0.25rem; border: none; cursor: pointer; font-size: 0.75rem;"
+                >
+                  Delete
+                </button>
+              </form>
+            </div>
+            <form
+              hx-put="/dashboard/projects/${projectUuid}/webhooks/${webhook.id}"
+              hx-target="#webhook-settings"
+              hx-swap="outerHTML"
+              style="margin-top: 0.5rem;"
+            >
+              <div style="display: flex; flex-wrap: wrap; gap: 0.25rem 1rem;">
+                ${renderWebhookEventCheckboxes(webhook.events)}
+              </div>
+              <div
+                style="display: flex; justify-content: space-between; align-items: center; margin-top: 0.5rem;"
+              >
+                <label
+                  style="display: flex; align-items: center; gap: 0.375rem; font-size: 0.875rem;"
+                >
+                  <input type="checkbox" name="enabled" ${webhook.enabled ? 'checked' : ''} />
+                  Enabled
+                </label>
+                <button
+                  type="submit"
+                  style="background: #3b82f6; color: white; padding: 0.25rem 0.75rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.75rem;"
+                >
+                  Save
+                </button>
+              </div>
+            </form>
+          </div>
+        `
+      )}
+
+      <form
+        hx-post="/dashboard/projects/${projectUuid}/webhooks"
+        hx-target="#webhook-settings"
+        hx-swap="outerHTML"
+        style="background: #f3f4f6; padding: 1rem; border-radius: 0.25rem;"
+      >
+        <input
+          type="url"
+          name="url"
+          required
+          placeholder="https://example.com/hooks/prompttrain"
+          style="width: 100%; padding: 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; box-sizing: border-box; margin-bottom: 0.5rem;"
+        />
+        <div style="display: flex; flex-wrap: wrap; gap: 0.25rem 1rem;">
+          ${renderWebhookEventCheckboxes(WEBHOOK_EVENT_TYPES)}
+        </div>
+        <div style="display: flex; justify-content: flex-end; margin-top: 0.5rem;">
+          <button
+            type="submit"
+            style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+          >
+            Add Webhook
+          </button>
+        </div>
+      </form>
+    </div>
+  `
+}
+
+async function loadUserAttribution(pool: Pool, train: Project) {
+  const [mappings, unmapped] = await Promise.all([
+    listProjectUserMappings(pool, train.id),
+    listUnmappedClientUsers(
+      pool,
+      train.project_id,
+      new Date(Date.now() - UNMAPPED_CLIENT_USERS_DAYS * 24 * 60 * 60 * 1000)
+    ),
+  ])
+  return { mappings, unmapped }
+}
+
+/**
+ * Renders the client user ID → email mappings (owner only), with the client
+ * user IDs seen in recent requests that no mapping or API key attributes yet.
+ */
+function renderUserAttributionSection(
+  projectUuid: string,
+  mappings: ProjectUserMapping[],
+  unmapped: UnmappedClientUser[]
+) {
+  return html`
+    <div
+      style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+      id="user-attribution-settings"
+    >
+      <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 0.25rem;">
+        User Attribution
+        <span style="color: #6b7280; font-size: 0.875rem; font-weight: 400; margin-left: 0.5rem;"
+          >${mappings.length} mapping(s)</span
+        >
+      </h3>
+      <p style="font-size: 0.75rem; color: #6b7280; margin-bottom: 1rem;">
+        Requests are attributed to the user mapped to their <code>metadata.user_id</code>, or else
+        to the creator of the API key they were sent with. Adding a mapping also attributes the
+        stored requests of that client user ID. Clients choose their <code>metadata.user_id</code>,
+        so mapped attribution is advisory; give users their own API keys where it must hold.
+      </p>
+
+      ${mappings.length > 0
+        ? html`
+            <table style="width: 100%; font-size: 0.875rem; margin-bottom: 1rem;">
+              <thead>
+                <tr>
+                  <th style="text-align: left;">Client user ID</th>
+                  <th style="text-align: left;">User</th>
+                  <th style="text-align: left;">Added by</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                ${mappings.map(
+                  mapping => html`
+                    <tr>
+                      <td style="font-family: monospace; font-size: 0.75rem; word-break: break-all;">
+                        ${mapping.client_user_id}
+                      </td>
+                      <td>${mapping.user_email}</td>
+                      <td style="color: #6b7280;">${mapping.created_by ?? '—'}</td>
+                      <td style="text-align: right;">
+                        <form
+                          hx-delete="/dashboard/projects/${projectUuid}/user-mappings/${mapping.id}"
+                          hx-confirm="Remove this mapping? Requests already attributed keep their user."
+                          hx-target="#user-attribution-settings"
+                          hx-swap="outerHTML"
+                          style="margin: 0;"
+                        >
+                          <button
+                            type="submit"
+                            style="background: #ef4444; color: white; padding: 0.25rem 0.5rem; border-radius: 0.25rem; border: none; cursor: pointer; font-size: 0.75rem;"
+                          >
+                            Remove
+                          </button>
+                        </form>
+                      </td>
+                    </tr>
+                  `
+                )}
+              </tbody>
+            </table>
+          `
+        : ''}
+      ${unmapped.length > 0
+        ? html`
+            <div style="font-size: 0.75rem; color: #6b7280; margin-bottom: 0.5rem;">
+              Unattributed client user IDs (last ${UNMAPPED_CLIENT_USERS_DAYS} days):
+            </div>
+            <ul style="font-size: 0.75rem; margin: 0 0 1rem 1rem; padding: 0;">
+              ${unmapped.map(
+                user => html`
+                  <li>
+                    <code>${user.clientUserId}</code> — ${user.requestCount} request(s), last seen
+                    ${new Date(user.lastSeenAt).toLocaleString()}
+                  </li>
+                `
+              )}
+            </ul>
+          `
+        : ''}
+
+      <form
+        hx-post="/dashboard/projects/${projectUuid}/user-mappings"
+        hx-target="#user-attribution-settings"
+        hx-swap="outerHTML"
+        style="background: #f3f4f6; padding: 1rem; border-radius: 0.25rem; display: flex; gap: 0.5rem; flex-wrap: wrap;"
+      >
+        <input
+          type="text"
+          name="client_user_id"
+          required
+          list="unmapped-client-users"
+          placeholder="Client user ID (user_...)"
+          style="flex: 1; min-width: 200px; padding: 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem;"
+        />
+        <datalist id="unmapped-client-users">
+          ${unmapped.map(user => html`<option value="${user.clientUserId}"></option>`)}
+        </datalist>
+        <input
+          type="email"
+          name="user_email"
+          required
+          placeholder="user@example.com"
+          style="flex: 1; min-width: 200px; padding: 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem;"
+        />
+        <button
+          type="submit"
+          style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+        >
+          Map User
+        </button>
+      </form>
+    </div>
+  `
+}
+
+/**
+ * Renders the project's data retention settings and what the purge job removes
+ * next, with the settings form for owners.
+ */
+function renderDataRetentionSection(
+  train: Project,
+  preview: RetentionPurgePreview | null,
+  userIsOwner: boolean
+) {
+  const formatDays = (days: number | null) => (days === null ? 'Forever' : `${days} days`)
+  const enabled = train.retention_body_days !== null || train.retention_metadata_days !== null
+
+  return html`
+    <div
+      style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+      id="data-retention-settings"
+    >
+      <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 0.25rem;">
+        Data Retention
+      </h3>
+      <p style="font-size: 0.75rem; color: #6b7280; margin-bottom: 1rem;">
+        Request and response bodies older than the body retention are cleared by the proxy's purge
+        job; token counts are kept, so usage charts and budgets are unaffected. Requests older than
+        the metadata retention are deleted entirely. Leave a field empty to keep data forever.
+      </p>
+
+      <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 1rem;">
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Keep bodies
+          </div>
+          <div style="font-size: 0.875rem;">${formatDays(train.retention_body_days)}</div>
+        </div>
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Keep metadata and token counts
+          </div>
+          <div style="font-size: 0.875rem;">${formatDays(train.retention_metadata_days)}</div>
+        </div>
+      </div>
+
+      ${enabled && preview
+        ? html`
+            <table style="width: 100%; font-size: 0.875rem; margin-top: 1rem;">
+              <thead>
+                <tr style="text-align: left; color: #6b7280; font-size: 0.75rem;">
+                  <th style="padding: 0.25rem 0;">Purged next</th>
+                  <th style="padding: 0.25rem 0;">On the next run</th>
+                  <th style="padding: 0.25rem 0;">Within 7 days</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td style="padding: 0.25rem 0;">Request/response bodies</td>
+                  <td>${preview.bodiesDue.toLocaleString()}</td>
+                  <td>${preview.bodiesDueNextWeek.toLocaleString()}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 0.25rem 0;">Conversation analyses</td>
+                  <td>${preview.analysesDue.toLocaleString()}</td>
+                  <td>-</td>
+                </tr>
+                <tr>
+                  <td style="padding: 0.25rem 0;">Requests (deleted)</td>
+                  <td>${preview.requestsDue.toLocaleString()}</td>
+                  <td>${preview.requestsDueNextWeek.toLocaleString()}</td>
+                </tr>
+              </tbody>
+            </table>
+            <div style="font-size: 0.75rem; color: #6b7280; margin-top: 0.5rem;">
+              Last purge:
+              ${preview.lastPurgedAt ? new Date(preview.lastPurgedAt).toLocaleString() : 'never'}
+            </div>
+          `
+        : ''}
+      ${userIsOwner
+        ? html`
+            <form
+              hx-put="/dashboard/projects/${train.id}/retention"
+              hx-swap="outerHTML"
+              hx-target="#data-retention-settings"
+              style="display: flex; gap: 0.75rem; align-items: end; flex-wrap: wrap; margin-top: 1rem;"
+            >
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                Body retention (days)
+                <input
+                  type="number"
+                  name="retention_body_days"
+                  min="1"
+                  step="1"
+                  value="${train.retention_body_days ?? ''}"
+                  placeholder="Forever"
+                  style="display: block; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; width: 10rem;"
+                />
+              </label>
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                Metadata retention (days)
+                <input
+                  type="number"
+                  name="retention_metadata_days"
+                  min="${MIN_METADATA_RETENTION_DAYS}"
+                  step="1"
+                  value="${train.retention_metadata_days ?? ''}"
+                  placeholder="Forever"
+                  style="display: block; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; width: 10rem;"
+                />
+              </label>
+              <button
+                type="submit"
+                style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+              >
+                Save Retention
+              </button>
+            </form>
+          `
+        : ''}
+    </div>
+  `
+}
+
+/**
+ * Renders the project's stored-body redaction settings, with the settings form for owners.
+ * Custom patterns are edited one per line as `name: regex`.
+ */
+function renderRedactionSection(train: Project, userIsOwner: boolean) {
+  const patterns = train.redaction_patterns ?? []
+
+  return html`
+    <div
+      style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+      id="redaction-settings"
+    >
+      <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 0.25rem;">
+        Body Redaction
+      </h3>
+      <p style="font-size: 0.75rem; color: #6b7280; margin-bottom: 1rem;">
+        When enabled, secrets (API keys, tokens, private keys, connection-string passwords), email
+        addresses, phone numbers and the custom patterns below are replaced with
+        <code>[REDACTED:kind]</code> in stored request and response bodies. Requests are forwarded
+        unchanged; bodies stored earlier are not rewritten. The response cache is not used while
+        redaction is enabled, since cached responses are replayed unredacted.
+      </p>
+
+      <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 1rem;">
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Status
+          </div>
+          <div style="font-size: 0.875rem;">
+            ${train.redaction_enabled ? 'Enabled' : 'Disabled'}
+          </div>
+        </div>
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Custom patterns
+          </div>
+          <div style="font-size: 0.875rem;">
+            ${patterns.length === 0
+              ? 'None'
+              : patterns.map(
+                  pattern =>
+                    html`<div><code>${pattern.name}</code>: <code>${pattern.pattern}</code></div>`
+                )}
+          </div>
+        </div>
+      </div>
+
+      ${userIsOwner
+        ? html`
+            <form
+              hx-put="/dashboard/projects/${train.id}/redaction"
+              hx-swap="outerHTML"
+              hx-target="#redaction-settings"
+              style="display: flex; flex-direction: column; gap: 0.75rem; margin-top: 1rem;"
+            >
+              <label style="font-size: 0.875rem; display: flex; align-items: center; gap: 0.5rem;">
+                <input
+                  type="checkbox"
+                  name="redaction_enabled"
+                  value="true"
+                  ${train.redaction_enabled ? 'checked' : ''}
+                />
+                Redact stored bodies
+              </label>
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                Custom patterns (one per line, <code>name: regular expression</code>)
+                <textarea
+                  name="redaction_patterns"
+                  rows="4"
+                  placeholder="customer-id: CUST-\d{6}"
+                  style="display: block; width: 100%; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; font-family: monospace; font-size: 0.8rem;"
+                >
+${patterns.map(pattern => `${pattern.name}: ${pattern.pattern}`).join('\n')}</textarea
+                >
+              </label>
+              <div>
+                <button
+                  type="submit"
+                  style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+                >
+                  Save Redaction
+                </button>
+              </div>
+            </form>
+          `
+        : ''}
+    </div>
+  `
+}
+
+/**
+ * Parse the `name: regex` lines of the redaction patterns textarea
+ */
+function parseRedactionPatterns(value: unknown): RedactionPattern[] {
+  const text = typeof value === 'string' ? value : ''
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const separator = line.indexOf(':')
+      return separator === -1
+        ? { name: line, pattern: '' }
+        : { name: line.slice(0, separator).trim(), pattern: line.slice(separator + 1).trim() }
+    })
+}
+
+/**
+ * Renders the project's analysis prompt template: the active version, the
+ * editor for owners (saving creates a new version) and the version history.
+ */
+function renderAnalysisTemplateSection(
+  train: Project,
+  templates: ProjectAnalysisTemplate[],
+  userIsOwner: boolean
+) {
+  const active = templates.find(template => template.id === train.analysis_template_id) ?? null
+
+  return html`
+    <div
+      style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+      id="analysis-template-settings"
+    >
+      <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 0.25rem;">
+        Analysis Template
+      </h3>
+      <p style="font-size: 0.75rem; color: #6b7280; margin-bottom: 1rem;">
+        Instructions that replace the default conversation analysis prompt for this project. They
+        may use <code>{{JSON_SCHEMA}}</code> and <code>{{EXAMPLES}}</code>; without
+        <code>{{JSON_SCHEMA}}</code> the standard output format is appended. An optional output
+        schema (JSON Schema of an object) adds custom fields to every analysis.
+      </p>
+
+      <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 1rem;">
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Active template
+          </div>
+          <div style="font-size: 0.875rem;">
+            ${active ? `Version ${active.version}` : 'Default prompt'}
+          </div>
+        </div>
+        <div>
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.25rem;">
+            Custom fields
+          </div>
+          <div style="font-size: 0.875rem;">
+            ${active?.output_schema
+              ? Object.keys(active.output_schema.properties).map(
+                  name => html`<code style="margin-right: 0.5rem;">${name}</code>`
+                )
+              : 'None'}
+          </div>
+        </div>
+      </div>
+
+      ${userIsOwner
+        ? html`
+            <form
+              hx-post="/dashboard/projects/${train.id}/analysis-template"
+              hx-swap="outerHTML"
+              hx-target="#analysis-template-settings"
+              style="display: flex; flex-direction: column; gap: 0.75rem; margin-top: 1rem;"
+            >
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                Instructions
+                <textarea
+                  name="instructions"
+                  rows="8"
+                  placeholder="Analyze this conversation with a focus on code review quality..."
+                  style="display: block; width: 100%; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; font-family: monospace; font-size: 0.8rem;"
+                >
+${active?.instructions ?? ''}</textarea
+                >
+              </label>
+              <label style="font-size: 0.75rem; font-weight: 600; color: #374151;">
+                Output schema (optional JSON Schema)
+                <textarea
+                  name="output_schema"
+                  rows="6"
+                  placeholder='{"type": "object", "properties": {"riskLevel": {"type": "string", "enum": ["low", "medium", "high"]}}, "required": ["riskLevel"]}'
+                  style="display: block; width: 100%; margin-top: 0.25rem; padding: 0.375rem 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem; font-family: monospace; font-size: 0.8rem;"
+                >
+${active?.output_schema ? JSON.stringify(active.output_schema, null, 2) : ''}</textarea
+                >
+              </label>
+              <div>
+                <button
+                  type="submit"
+                  style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+                >
+                  Save as New Version
+                </button>
+              </div>
+            </form>
+            ${active
+              ? html`
+                  <form
+                    hx-put="/dashboard/projects/${train.id}/analysis-template/active"
+                    hx-swap="outerHTML"
+                    hx-target="#analysis-template-settings"
+                    style="margin-top: 0.5rem;"
+                  >
+                    <input type="hidden" name="template_id" value="" />
+                    <button
+                      type="submit"
+                      style="background: white; color: #374151; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: 1px solid #d1d5db; cursor: pointer; font-size: 0.875rem;"
+                    >
+                      Use Default Prompt
+                    </button>
+                  </form>
+                `
+              : ''}
+          `
+        : ''}
+      ${templates.length > 0
+        ? html`
+            <table style="width: 100%; margin-top: 1rem; font-size: 0.875rem;">
+              <thead>
+                <tr>
+                  <th style="text-align: left;">Version</th>
+                  <th style="text-align: left;">Custom fields</th>
+                  <th style="text-align: left;">Created</th>
+                  <th style="text-align: left;">Created by</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                ${templates.map(
+                  template => html`
+                    <tr>
+                      <td>v${template.version}</td>
+                      <td>
+                        ${template.output_schema
+                          ? Object.keys(template.output_schema.properties).length
+                          : 0}
+                      </td>
+                      <td>${new Date(template.created_at).toLocaleString()}</td>
+                      <td>${template.created_by ?? '—'}</td>
+                      <td style="text-align: right;">
+                        ${template.id === active?.id
+                          ? html`<span style="color: #10b981; font-weight: 600;">Active</span>`
+                          : userIsOwner
+                            ? html`
+                                <form
+                                  hx-put="/dashboard/projects/${train.id}/analysis-template/active"
+                                  hx-swap="outerHTML"
+                                  hx-target="#analysis-template-settings"
+                                  style="margin: 0;"
+                                >
+                                  <input type="hidden" name="template_id" value="${template.id}" />
+                                  <button
+                                    type="submit"
+                                    style="background: none; border: none; color: #3b82f6; cursor: pointer; font-size: 0.875rem;"
+                                  >
+                                    Activate
+                                  </button>
+                                </form>
+                              `
+                            : ''}
+                      </td>
+                    </tr>
+                  `
+                )}
+              </tbody>
+            </table>
+          `
+        : ''}
+    </div>
+  `
+}
+
+/**
+ * Parse the output schema textarea; empty means no custom fields
+ */
+function parseAnalysisOutputSchema(value: unknown): AnalysisOutputSchema | null {
+  const text = typeof value === 'string' ? value.trim() : ''
+  if (!text) {
+    return null
+  }
+  try {
+    return JSON.parse(text) as AnalysisOutputSchema
+  } catch (error) {
+    throw new Error(`output_schema is not valid JSON: ${getErrorMessage(error)}`)
+  }
+}
+
+/**
+ * Version number of a project's active analysis template, for audit changes
+ */
+function getActiveTemplateVersion(
+  project: Project | null,
+  templates: ProjectAnalysisTemplate[]
+): number | null {
+  return templates.find(template => template.id === project?.analysis_template_id)?.version ?? null
+}
+
+const API_KEY_SCOPE_FIELDS = [
+  'expires_at',
+  'allowed_models',
+  'allowed_endpoints',
+  'rate_limit_max_requests',
+  'rate_limit_max_tokens',
+  'ip_allowlist',
+] as const
+
+/**
+ * Read the scope fields of an API key form (parsed with `all: true`)
+ */
+function readApiKeyScopeForm(
+  formData: Record<string, unknown>
+): Partial<Record<keyof ApiKeyScopes, unknown>> {
+  const input: Partial<Record<keyof ApiKeyScopes, unknown>> = {}
+  for (const field of API_KEY_SCOPE_FIELDS) {
+    input[field] = formData[field] ?? ''
+  }
+  return input
+}
+
+/**
+ * Scope inputs shared by the create and edit API key forms
+ */
+function renderApiKeyScopeFields(idPrefix: string, key?: ApiKeyScopes) {
+  const labelStyle =
+    'display: block; font-size: 0.75rem; font-weight: 600; margin-bottom: 0.25rem; color: #374151;'
+  const inputStyle =
+    'width: 100%; padding: 0.375rem; border: 1px solid #d1d5db; border-radius: 0.25rem; font-size: 0.875rem;'
+
+  return html`
+    <div
+      style="display: grid; grid-template-columns: repeat(auto-fit, minmax(14rem, 1fr)); gap: 0.75rem; margin-top: 0.75rem;"
+    >
+      <div>
+        <label for="${idPrefix}-expires-at" style="${labelStyle}">Expires on (UTC)</label>
+        <input
+          type="date"
+          id="${idPrefix}-expires-at"
+          name="expires_at"
+          value="${key?.expires_at ? new Date(key.expires_at).toISOString().slice(0, 10) : ''}"
+          style="${inputStyle}"
+        />
+      </div>
+      <div>
+        <label for="${idPrefix}-models" style="${labelStyle}">Allowed models</label>
+        <input
+          type="text"
+          id="${idPrefix}-models"
+          name="allowed_models"
+          value="${key?.allowed_models?.join(', ') ?? ''}"
+          placeholder="e.g., claude-sonnet-4*, claude-3-5-haiku-20241022"
+          style="${inputStyle}"
+        />
+      </div>
+      <div>
+        <label for="${idPrefix}-max-requests" style="${labelStyle}"
+          >Max requests per window</label
+        >
+        <input
+          type="number"
+          min="1"
+          id="${idPrefix}-max-requests"
+          name="rate_limit_max_requests"
+          value="${key?.rate_limit_max_requests ?? ''}"
+          placeholder="Proxy default"
+          style="${inputStyle}"
+        />
+      </div>
+      <div>
+        <label for="${idPrefix}-max-tokens" style="${labelStyle}">Max tokens per window</label>
+        <input
+          type="number"
+          min="1"
+          id="${idPrefix}-max-tokens"
+          name="rate_limit_max_tokens"
+          value="${key?.rate_limit_max_tokens ?? ''}"
+          placeholder="Proxy default"
+          style="${inputStyle}"
+        />
+      </div>
+      <div>
+        <label for="${idPrefix}-ips" style="${labelStyle}">IP allowlist</label>
+        <textarea
+          id="${idPrefix}-ips"
+          name="ip_allowlist"
+          rows="2"
+          placeholder="e.g., 203.0.113.7, 10.0.0.0/8"
+          style="${inputStyle}"
+        >
+${key?.ip_allowlist?.join('\n') ?? ''}</textarea
+        >
+      </div>
+      <div>
+        <span style="${labelStyle}">Allowed endpoints</span>
+        <input type="hidden" name="allowed_endpoints" value="" />
+        ${API_KEY_ENDPOINTS.map(
+          endpoint => html`
+            <label
+              style="display: flex; align-items: baseline; gap: 0.375rem; font-size: 0.8125rem;"
+            >
+              <input
+                type="checkbox"
+                name="allowed_endpoints"
+                value="${endpoint}"
+                ${key?.allowed_endpoints?.includes(endpoint) ? 'checked' : ''}
+              />
+              ${API_KEY_ENDPOINT_DESCRIPTIONS[endpoint]}
+            </label>
+          `
+        )}
+      </div>
+    </div>
+    <p style="font-size: 0.75rem; color: #6b7280; margin-top: 0.5rem;">
+      Leave a field empty (or no endpoint checked) to leave the key unrestricted there.
+    </p>
+  `
+}
+
+/**
+ * One-line summary of the restrictions on an API key
+ */
+function describeApiKeyScopes(key: ProjectApiKeySafe): string[] {
+  const restrictions: string[] = []
+  if (key.expires_at) {
+    restrictions.push(
+      `${key.status === 'expired' ? 'Expired' : 'Expires'}: ${new Date(key.expires_at).toLocaleString()}`
+    )
+  }
+  if (key.allowed_models) {
+    restrictions.push(`Models: ${key.allowed_models.join(', ')}`)
+  }
+  if (key.allowed_endpoints) {
+    restrictions.push(`Endpoints: ${key.allowed_endpoints.join(', ')}`)
+  }
+  if (key.rate_limit_max_requests || key.rate_limit_max_tokens) {
+    restrictions.push(
+      `Limits: ${key.rate_limit_max_requests ?? 'default'} requests / ${key.rate_limit_max_tokens ?? 'default'} tokens per window`
+    )
+  }
+  if (key.ip_allowlist) {
+    restrictions.push(`IPs: ${key.ip_allowlist.join(', ')}`)
+  }
+  return restrictions
+}
+
+/**
+ * Renders the API keys list HTML fragment.
+ * Used by the api-keys-list GET endpoint and the revoke/delete PATCH/DELETE endpoints.
+ */
+function renderApiKeysList(
+  apiKeys: ProjectApiKeySafe[],
+  projectId: string,
+  auth: AuthContext,
+  userIsOwner: boolean
+) {
+  if (apiKeys.length === 0) {
+    return html`
+      <div
+        style="background: #f9fafb; border: 1px solid #e5e7eb; padding: 0.75rem; border-radius: 0.25rem; color: #6b7280; text-align: center;"
+      >
+        No API keys generated yet
+      </div>
+    `
+  }
+
+  return html`
+    <div style="display: flex; flex-direction: column; gap: 0.5rem;">
+      ${apiKeys.map(
+        key => html`
+          <div
+            data-testid="api-key-item"
+            style="background: #f9fafb; border: 1px solid #e5e7eb; padding: 0.75rem; border-radius: 0.25rem;"
+          >
+            <div
+              style="display: flex; justify-content: space-between; align-items: start; margin-bottom: 0.25rem;"
+            >
+              <div>
+                <div style="font-weight: 600; font-size: 0.875rem;">
+                  ${key.name || 'Unnamed API Key'}
+                </div>
+                <div style="font-size: 0.75rem; color: #6b7280;">
+                  <code
+                    style="background: white; padding: 0.125rem 0.25rem; border-radius: 0.125rem;"
+                    >${key.key_preview}...</code
+                  >
+                </div>
+              </div>
+              <div style="display: flex; align-items: center; gap: 0.5rem;">
+                ${key.revoked_at
+                  ? html`<span
+                        style="background: #ef4444; color: white; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-size: 0.75rem;"
+                        >REVOKED</span
+                      >
+                      ${userIsOwner || (auth.isAuthenticated && key.created_by === auth.principal)
+                        ? html`
+                            <form
+                              data-testid="delete-api-key-form"
+                              hx-delete="/dashboard/projects/${projectId}/delete-api-key/${key.id}"
+                              hx-confirm="Are you sure you want to permanently delete this API key? This action cannot be undone."
+                              hx-target="#api-keys-${projectId}"
+                              hx-swap="innerHTML"
+                              style="margin: 0;"
+                            >
+                              <button
+                                type="submit"
+                                data-testid="delete-api-key-button"
+                                title="Delete API key permanently"
+                                style="background: #ef4444; color: white; padding: 0.25rem 0.375rem; border-radius: 0.25rem; border: none; cursor: pointer; line-height: 1; display: flex; align-items: center;"
+                              >
+                                <svg
+                                  xmlns="http://www.w3.org/2000/svg"
+                                  width="14"
+                                  height="14"
+                                  viewBox="0 0 24 24"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  stroke-width="2"
+                                  stroke-linecap="round"
+                                  stroke-linejoin="round"
+                                >
+                                  <polyline points="3 6 5 6 21 6"></polyline>
+                                  <path
+                                    d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"
+                                  ></path>
+                                  <line x1="10" y1="11" x2="10" y2="17"></line>
+                                  <line x1="14" y1="11" x2="14" y2="17"></line>
+                                </svg>
+                              </button>
+                            </form>
+                          `
+                        : ''}`
+                  : html`${key.status === 'expired'
+                        ? html`<span
+                            style="background: #f59e0b; color: white; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-size: 0.75rem;"
+                            >EXPIRED</span
+                          >`
+                        : html`<span
+                            style="background: #10b981; color: white; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-size: 0.75rem;"
+                            >ACTIVE</span
+                          >`}
+                      ${auth.isAuthenticated &&
+                      !key.revoked_at &&
+                      (userIsOwner || key.created_by === auth.principal)
+                        ? html`
+                            <form
+                              data-testid="revoke-api-key-form"
+                              hx-patch="/dashboard/projects/${projectId}/revoke-api-key/${key.id}"
+                              hx-confirm="Are you sure you want to revoke this API key? This action cannot be undone."
+                              hx-target="#api-keys-${projectId}"
+                              hx-swap="innerHTML"
+                              style="margin: 0;"
+                            >
+                              <button
+                                type="submit"
+                                data-testid="revoke-api-key-button"
+                                style="background: #ef4444; color: white; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.75rem;"
+                              >
+                                Revoke
+                              </button>
+                            </form>
+                          `
+                        : ''}`}
+              </div>
+            </div>
+            <div style="font-size: 0.75rem; color: #6b7280;">
+              Owner: ${key.created_by || 'Unknown'} • Created:
+              ${new Date(key.created_at).toLocaleString()}
+              ${key.last_used_at
+                ? html`• Last used: ${new Date(key.last_used_at).toLocaleString()}`
+                : html`• Never used`}
+            </div>
+            ${describeApiKeyScopes(key).map(
+              restriction =>
+                html`<div style="font-size: 0.75rem; color: #6b7280;">${restriction}</div>`
+            )}
+            ${!key.revoked_at &&
+            auth.isAuthenticated &&
+            (userIsOwner || key.created_by === auth.principal)
+              ? html`
+                  <details style="margin-top: 0.5rem; font-size: 0.875rem;">
+                    <summary style="cursor: pointer; color: #374151;">Edit restrictions</summary>
+                    <form
+                      data-testid="api-key-scopes-form"
+                      hx-put="/dashboard/projects/${projectId}/api-keys/${key.id}/scopes"
+                      hx-target="#api-keys-${projectId}"
+                      hx-swap="innerHTML"
+                    >
+                      ${renderApiKeyScopeFields(`key-${key.id}`, key)}
+                      <button
+                        type="submit"
+                        style="background: #3b82f6; color: white; padding: 0.375rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem; margin-top: 0.5rem;"
+                      >
+                        Save restrictions
+                      </button>
+                    </form>
+                  </details>
+                `
+              : ''}
+          </div>
+        `
+      )}
+    </div>
+  `
+}
+
+/**
+ * HTMX endpoint to load API keys for a specific train
+ */
+trainsUIRoutes.get('/:projectId/api-keys-list', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  try {
+    const apiKeys = await listTrainApiKeys(pool, projectId)
+
+    // Determine if user is project owner (can revoke any key)
+    const userIsOwner =
+      auth.isAuthenticated &&
+      (await checkProjectPermission(pool, projectId, auth.principal, 'project.manage'))
+
+    return c.html(renderApiKeysList(apiKeys, projectId, auth, userIsOwner))
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Revoke an API key (HTMX form submission - owner or key creator only)
+ * Returns the refreshed api-keys-list HTML after revoking
+ */
+trainsUIRoutes.patch('/:projectId/revoke-api-key/:keyId', async c => {
+  const projectId = c.req.param('projectId')
+  const keyId = c.req.param('keyId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  // Viewers and billing members cannot use API keys
+  const isMember = await checkProjectPermission(pool, projectId, auth.principal, 'project.use')
+  if (!isMember) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Your project role does not allow managing API keys
+      </div>
+    `)
+  }
 
   // Get the API key to check ownership
   const apiKey = await getTrainApiKeySafe(pool, keyId)
   if (!apiKey) {
     return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> API key not found or already revoked
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> API key not found or already revoked
+      </div>
+    `)
+  }
+
+  // Check if key belongs to this project
+  if (apiKey.project_id !== projectId) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> API key does not belong to this project
+      </div>
+    `)
+  }
+
+  // Check if user is project owner OR key creator
+  const userIsOwner = await checkProjectPermission(
+    pool,
+    projectId,
+    auth.principal,
+    'project.manage'
+  )
+  const isKeyCreator = apiKey.created_by === auth.principal
+
+  if (!userIsOwner && !isKeyCreator) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Only project owners or key creators can revoke API keys
+      </div>
+    `)
+  }
+
+  try {
+    const success = await revokeTrainApiKey(pool, keyId, auth.principal)
+
+    if (!success) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> API key not found or already revoked
+        </div>
+      `)
+    }
+
+    await recordAudit(c, {
+      action: 'api_key.revoked',
+      target_type: 'api_key',
+      target_id: keyId,
+      projectUuid: projectId,
+      metadata: { name: apiKey.name, key_preview: apiKey.key_preview },
+    })
+
+    // Return refreshed api-keys-list by redirecting HTMX to reload
+    c.header('HX-Trigger', 'api-key-revoked')
+    // Re-fetch and return the updated list
+    const apiKeys = await listTrainApiKeys(pool, projectId)
+
+    return c.html(html`
+      <div
+        style="background: #d1fae5; color: #065f46; padding: 0.5rem 0.75rem; border-radius: 0.25rem; margin-bottom: 0.5rem; font-size: 0.875rem;"
+      >
+        API key revoked successfully
+      </div>
+      ${renderApiKeysList(apiKeys, projectId, auth, userIsOwner)}
+    `)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Delete a revoked API key permanently (HTMX form submission - owner only)
+ * Returns the refreshed api-keys-list HTML after deletion
+ */
+trainsUIRoutes.delete('/:projectId/delete-api-key/:keyId', async c => {
+  const projectId = c.req.param('projectId')
+  const keyId = c.req.param('keyId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  // Viewers and billing members cannot use API keys
+  const isMember = await checkProjectPermission(pool, projectId, auth.principal, 'project.use')
+  if (!isMember) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Your project role does not allow managing API keys
+      </div>
+    `)
+  }
+
+  // Get the API key
+  const apiKey = await getTrainApiKeySafe(pool, keyId)
+  if (!apiKey) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> API key not found
+      </div>
+    `)
+  }
+
+  // Check if key belongs to this project
+  if (apiKey.project_id !== projectId) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> API key does not belong to this project
+      </div>
+    `)
+  }
+
+  // Check if user is project owner OR key creator
+  const userIsOwner = await checkProjectPermission(
+    pool,
+    projectId,
+    auth.principal,
+    'project.manage'
+  )
+  const isKeyCreator = apiKey.created_by === auth.principal
+
+  if (!userIsOwner && !isKeyCreator) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Only project owners or key creators can delete API keys
+      </div>
+    `)
+  }
+
+  // Key must be revoked before deletion
+  if (!apiKey.revoked_at) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> API key must be revoked before it can be deleted
+      </div>
+    `)
+  }
+
+  try {
+    const success = await deleteTrainApiKey(pool, keyId)
+
+    if (!success) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Failed to delete API key
+        </div>
+      `)
+    }
+
+    await recordAudit(c, {
+      action: 'api_key.deleted',
+      target_type: 'api_key',
+      target_id: keyId,
+      projectUuid: projectId,
+      metadata: { name: apiKey.name, key_preview: apiKey.key_preview },
+    })
+
+    c.header('HX-Trigger', 'api-key-deleted')
+    const apiKeys = await listTrainApiKeys(pool, projectId)
+
+    // Re-render key list with success message
+    // userIsOwner is always true since we checked above
+    return c.html(html`
+      <div
+        style="background: #d1fae5; color: #065f46; padding: 0.5rem 0.75rem; border-radius: 0.25rem; margin-bottom: 0.5rem; font-size: 0.875rem;"
+      >
+        API key deleted successfully
+      </div>
+      ${renderApiKeysList(apiKeys, projectId, auth, userIsOwner)}
+    `)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Update the restrictions of an API key (HTMX form submission - owner or key creator only)
+ * Returns the refreshed api-keys-list HTML
+ */
+trainsUIRoutes.put('/:projectId/api-keys/:keyId/scopes', async c => {
+  const projectId = c.req.param('projectId')
+  const keyId = c.req.param('keyId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  const apiKey = await getTrainApiKeySafe(pool, keyId)
+  if (!apiKey || apiKey.project_id !== projectId) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> API key not found
+      </div>
+    `)
+  }
+
+  const userIsOwner = await checkProjectPermission(
+    pool,
+    projectId,
+    auth.principal,
+    'project.manage'
+  )
+  if (!userIsOwner && apiKey.created_by !== auth.principal) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Only project owners or key creators can change API key restrictions
+      </div>
+    `)
+  }
+
+  try {
+    const formData = await c.req.parseBody({ all: true })
+    const scopeResult = validateApiKeyScopes(readApiKeyScopeForm(formData))
+    const success =
+      scopeResult.valid &&
+      (await updateTrainApiKeyScopes(pool, keyId, scopeResult.scopes ?? {}))
+
+    const changes = success ? diffAuditChanges(apiKey, scopeResult.scopes ?? {}) : null
+    if (changes) {
+      await recordAudit(c, {
+        action: 'api_key.updated',
+        target_type: 'api_key',
+        target_id: keyId,
+        projectUuid: projectId,
+        changes,
+        metadata: { name: apiKey.name, key_preview: apiKey.key_preview },
+      })
+    }
+
+    const apiKeys = await listTrainApiKeys(pool, projectId)
+    return c.html(html`
+      ${success
+        ? html`<div
+            style="background: #d1fae5; color: #065f46; padding: 0.5rem 0.75rem; border-radius: 0.25rem; margin-bottom: 0.5rem; font-size: 0.875rem;"
+          >
+            API key restrictions saved
+          </div>`
+        : html`<div
+            style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem; margin-bottom: 0.5rem;"
+          >
+            <strong>Error:</strong> ${scopeResult.error ?? 'Revoked API keys cannot be changed'}
+          </div>`}
+      ${renderApiKeysList(apiKeys, projectId, auth, userIsOwner)}
+    `)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * HTMX endpoint to load members for a specific train
+ */
+trainsUIRoutes.get('/:projectId/members-list', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  try {
+    const members = await getProjectMembers(pool, projectId)
+
+    if (members.length === 0) {
+      return c.html(html`
+        <div
+          style="background: #fef3c7; border: 1px solid #f59e0b; padding: 0.75rem; border-radius: 0.25rem; color: #92400e;"
+        >
+          ⚠️ No members found. This train should have at least one owner.
+        </div>
+      `)
+    }
+
+    return c.html(html`
+      <div style="display: flex; flex-direction: column; gap: 0.5rem;">
+        ${members.map(
+          member => html`
+            <div
+              style="background: #f9fafb; border: 1px solid #e5e7eb; padding: 0.75rem; border-radius: 0.25rem; display: flex; justify-content: space-between; align-items: center;"
+            >
+              <div>
+                <div style="font-weight: 600; font-size: 0.875rem;">${member.user_email}</div>
+                <div style="font-size: 0.75rem; color: #6b7280;">
+                  <span
+                    style="background: ${MEMBER_ROLE_COLORS[member.role]}; color: white; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-size: 0.75rem; text-transform: uppercase;"
+                  >
+                    ${member.role}
+                  </span>
+                  • Added: ${new Date(member.added_at).toLocaleDateString()} by ${member.added_by}
+                </div>
+              </div>
+            </div>
+          `
+        )}
+      </div>
+    `)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Generate a new API key for a project (HTMX form submission - owner only)
+ */
+trainsUIRoutes.post('/:projectId/generate-api-key', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div
+        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+      >
+        <strong>Error:</strong> Database not configured
+      </div>
+    `)
+  }
+
+  // Check authentication
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div
+        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+      >
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  // Check project membership (owners and members can create API keys)
+  const isMember = await checkProjectPermission(pool, projectId, auth.principal, 'project.use')
+  if (!isMember) {
+    return c.html(html`
+      <div
+        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+      >
+        <strong>Error:</strong> Only project members can generate API keys
+      </div>
+    `)
+  }
+
+  try {
+    const formData = await c.req.parseBody({ all: true })
+    const name = (formData.name as string) || undefined
+
+    const scopeResult = validateApiKeyScopes(readApiKeyScopeForm(formData))
+    if (!scopeResult.valid) {
+      return c.html(html`
+        <div
+          style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+        >
+          <strong>Error:</strong> ${scopeResult.error}
+        </div>
+      `)
+    }
+
+    const generatedKey = await createTrainApiKey(pool, projectId, {
+      name,
+      ...scopeResult.scopes,
+      created_by: auth.principal,
+    })
+
+    await recordAudit(c, {
+      action: 'api_key.created',
+      target_type: 'api_key',
+      target_id: generatedKey.id,
+      projectUuid: projectId,
+      metadata: { name: generatedKey.name, key_preview: generatedKey.key_preview },
+    })
+
+    return c.html(html`
+      <div
+        style="background: #d1fae5; border: 2px solid #10b981; padding: 1.5rem; border-radius: 0.5rem; margin-bottom: 1.5rem;"
+      >
+        <div style="margin-bottom: 1rem;">
+          <strong style="color: #065f46; font-size: 1rem;"
+            >✅ API Key Generated Successfully!</strong
+          >
+        </div>
+        <div style="margin-bottom: 0.5rem;">
+          <strong style="color: #065f46;">⚠️ Important:</strong>
+          <span style="color: #065f46;">
+            Copy this key now. It will not be shown again for security reasons.
+          </span>
+        </div>
+        <div
+          style="background: white; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem; border: 1px solid #10b981;"
+        >
+          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.5rem;">
+            ${generatedKey.name || 'Unnamed API Key'}
+          </div>
+          <code
+            style="background: #f3f4f6; padding: 0.5rem; border-radius: 0.25rem; font-size: 0.875rem; word-break: break-all; display: block; color: #111827; font-family: monospace;"
+            >${generatedKey.api_key}</code
+          >
+        </div>
+        <button
+          data-api-key="${generatedKey.api_key}"
+          onclick="navigator.clipboard.writeText(this.getAttribute('data-api-key')); this.textContent='✅ Copied!'; setTimeout(() => this.textContent='Copy to Clipboard', 2000)"
+          style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; margin-right: 0.5rem;"
+        >
+          Copy to Clipboard
+        </button>
+        <button
+          onclick="location.reload()"
+          style="background: #6b7280; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer;"
+        >
+          Done
+        </button>
+      </div>
+      <script>
+        setTimeout(() => location.reload(), 10000)
+      </script>
+    `)
+  } catch (error) {
+    return c.html(html`
+      <div
+        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+      >
+        <strong>Error:</strong> ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Set default account for a project (HTMX form submission - owner only)
+ */
+trainsUIRoutes.post('/:projectId/set-default-account', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  // Check authentication
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  // Check ownership
+  const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+  if (!isOwner) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Only train owners can change the default account
+      </div>
+    `)
+  }
+
+  try {
+    const formData = await c.req.parseBody()
+    const credentialId = formData.credential_id as string
+
+    const before = await getProjectById(pool, projectId)
+    const after = await setProjectDefaultAccount(pool, projectId, credentialId)
+    await recordProjectUpdate(
+      c,
+      before,
+      after,
+      ['default_account_id'],
+      'project.default_account_set'
+    )
+
+    // Reload the credentials section
+    return c.html(html`
+      <div
+        style="background: #d1fae5; color: #065f46; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+      >
+        <strong>✅ Success!</strong> Default account updated.
+      </div>
+      <script>
+        setTimeout(() => location.reload(), 1500)
+      </script>
+    `)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Link an account to a project's pool (HTMX form submission - owner only)
+ */
+trainsUIRoutes.post('/:projectId/link-account', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+  if (!isOwner) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Only project owners can manage the account pool
+      </div>
+    `)
+  }
+
+  try {
+    const formData = await c.req.parseBody()
+    const credentialId = formData.credential_id as string
+
+    if (await addProjectAccount(pool, projectId, credentialId)) {
+      await recordAudit(c, {
+        action: 'project.account_linked',
+        target_type: 'credential',
+        target_id: credentialId,
+        projectUuid: projectId,
+      })
+    }
+
+    return c.html(html`
+      <div
+        style="background: #d1fae5; color: #065f46; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+      >
+        <strong>Account linked to pool.</strong>
+      </div>
+      <script>
+        setTimeout(() => location.reload(), 1500)
+      </script>
+    `)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Unlink an account from a project's pool (HTMX form submission - owner only)
+ */
+trainsUIRoutes.delete('/:projectId/unlink-account/:credentialId', async c => {
+  const projectId = c.req.param('projectId')
+  const credentialId = c.req.param('credentialId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+  if (!isOwner) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Only project owners can manage the account pool
+      </div>
+    `)
+  }
+
+  try {
+    // Prevent unlinking the default account
+    const project = await getProjectById(pool, projectId)
+    if (project?.default_account_id === credentialId) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Cannot unlink the default account. Change the default first.
+        </div>
+      `)
+    }
+
+    if (await removeProjectAccount(pool, projectId, credentialId)) {
+      await recordAudit(c, {
+        action: 'project.account_unlinked',
+        target_type: 'credential',
+        target_id: credentialId,
+        project_id: project?.project_id,
+        projectUuid: projectId,
+      })
+    }
+
+    return c.html(html`
+      <div
+        style="background: #d1fae5; color: #065f46; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+      >
+        <strong>Account removed from pool.</strong>
+      </div>
+      <script>
+        setTimeout(() => location.reload(), 1500)
+      </script>
+    `)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * GET /:projectId/account-utilization/:accountId - Returns HTML fragment with 7d utilization bar
+ * Used by HTMX lazy loading in the project accounts section
+ */
+trainsUIRoutes.get('/:projectId/account-utilization/:accountId', async c => {
+  const accountId = c.req.param('accountId')
+  const apiClient = container.getApiClient()
+
+  if (!apiClient) {
+    return c.html(html`<span style="font-size: 0.75rem; color: #9ca3af;">Usage unavailable</span>`)
+  }
+
+  try {
+    const usage = await apiClient.getOAuthUsage(accountId)
+
+    if (!usage || !usage.available || usage.windows.length === 0) {
+      return c.html(html`<span style="font-size: 0.75rem; color: #9ca3af;">No usage data</span>`)
+    }
+
+    // Find 7-day window utilization
+    const sevenDay = usage.windows.find(w => w.short_name === '7d')
+    const utilization = sevenDay ? sevenDay.utilization : 0
+    const resetsAt = sevenDay ? sevenDay.resets_at : ''
+
+    // Color based on utilization level
+    const barColor = utilization >= 80 ? '#ef4444' : utilization >= 50 ? '#f59e0b' : '#22c55e'
+    const bgColor = utilization >= 80 ? '#fee2e2' : utilization >= 50 ? '#fef3c7' : '#dcfce7'
+
+    return c.html(html`
+      <div
+        style="display: flex; align-items: center; gap: 0.5rem; min-width: 140px;"
+        title="7-day utilization: ${utilization.toFixed(1)}%${resetsAt
+          ? ` · Resets: ${resetsAt}`
+          : ''}${usage.is_estimated ? ' (estimated)' : ''}"
+      >
+        <div
+          style="flex: 1; height: 8px; background: ${bgColor}; border-radius: 4px; overflow: hidden; min-width: 80px;"
+        >
+          <div
+            style="height: 100%; width: ${Math.min(
+              utilization,
+              100
+            )}%; background: ${barColor}; border-radius: 4px; transition: width 0.3s ease;"
+          ></div>
+        </div>
+        <span
+          style="font-size: 0.7rem; font-weight: 600; color: ${barColor}; white-space: nowrap; min-width: 32px; text-align: right;"
+          >${utilization.toFixed(0)}%</span
+        >
+      </div>
+    `)
+  } catch {
+    return c.html(html`<span style="font-size: 0.75rem; color: #9ca3af;">—</span>`)
+  }
+})
+
+/**
+ * Toggle project disabled state (HTMX form submission - owner only)
+ */
+trainsUIRoutes.post('/:projectId/toggle-disabled', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  try {
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners can disable/enable projects
+        </div>
+      `)
+    }
+
+    const project = await getProjectById(pool, projectId)
+    if (!project) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          Project not found
+        </div>
+      `)
+    }
+
+    const newDisabled = !project.disabled
+    const updated = await updateProject(pool, projectId, { disabled: newDisabled })
+    await recordProjectUpdate(
+      c,
+      project,
+      updated,
+      ['disabled'],
+      newDisabled ? 'project.disabled' : 'project.enabled'
+    )
+
+    // Return updated row via HX-Redirect to refresh the page
+    c.header('HX-Redirect', '/dashboard/projects')
+    return c.html(html``)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Delete a project (HTMX form submission - owner only)
+ */
+trainsUIRoutes.delete('/:projectId/delete', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  // Check authentication
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  try {
+    // Check ownership
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only train owners can delete projects
+        </div>
+      `)
+    }
+
+    const project = await getProjectById(pool, projectId)
+    const success = await deleteProject(pool, projectId)
+
+    if (!success) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          Project not found
+        </div>
+      `)
+    }
+
+    await recordAudit(c, {
+      action: 'project.deleted',
+      target_type: 'project',
+      target_id: project?.project_id,
+      project_id: project?.project_id,
+      metadata: { name: project?.name },
+    })
+
+    // Return empty HTML to remove the project row via HTMX swap
+    return c.html(html``)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Add a member to a project (HTMX form submission - owner only)
+ */
+trainsUIRoutes.post('/:projectId/add-member', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  // Check authentication
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  // Check ownership
+  const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+  if (!isOwner) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Only train owners can add members
+      </div>
+    `)
+  }
+
+  try {
+    const formData = await c.req.parseBody()
+    const userEmail = formData.user_email as string
+    const role = formData.role
+
+    if (!isProjectMemberRole(role)) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Role must be one of: ${PROJECT_MEMBER_ROLES.join(', ')}
+        </div>
+      `)
+    }
+
+    await addProjectMember(pool, projectId, userEmail, role, auth.principal)
+    await recordAudit(c, {
+      action: 'project.member_added',
+      target_type: 'project_member',
+      target_id: userEmail,
+      projectUuid: projectId,
+      changes: { role: { before: null, after: role } },
+    })
+
+    return c.html(html`
+      <div
+        style="background: #d1fae5; color: #065f46; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+      >
+        <strong>✅ Success!</strong> Member ${userEmail} added as ${role}.
+      </div>
+      <script>
+        setTimeout(() => location.reload(), 1500)
+      </script>
+    `)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Create a new train (HTMX form submission)
+ */
+trainsUIRoutes.post('/create', async c => {
+  const pool = container.getPool()
+
+  if (!pool) {
+    return c.html(html`
+      <div
+        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+      >
+        <strong>Error:</strong> Database not configured
       </div>
     `)
   }
 
-  // Check if key belongs to this project
-  if (apiKey.project_id !== projectId) {
+  const auth = c.get('auth')
+  const client = await pool.connect()
+
+  try {
+    const formData = await c.req.parseBody()
+    const projectId = formData.project_id as string
+    const name = formData.name as string
+    const isPrivate = formData.is_private === 'true'
+
+    // Validate train ID format
+    if (!/^[a-z0-9-]+$/.test(projectId)) {
+      client.release()
+      return c.html(html`
+        <div
+          style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+        >
+          <strong>Error:</strong> Project ID must be lowercase alphanumeric with hyphens only
+        </div>
+        <div style="text-align: center;">
+          <button
+            onclick="location.reload()"
+            style="background: #3b82f6; color: white; padding: 0.5rem 1.5rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer;"
+          >
+            Try Again
+          </button>
+        </div>
+      `)
+    }
+
+    // Create train and auto-assign creator as owner in a transaction
+    await client.query('BEGIN')
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const train = await createProject(client as any, {
+        project_id: projectId,
+        name: name,
+        is_private: isPrivate,
+      })
+
+      // Add the creator as an owner
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await addProjectMember(client as any, train.id, auth.principal, 'owner', auth.principal)
+
+      await client.query('COMMIT')
+
+      await recordAudit(c, {
+        action: 'project.created',
+        target_type: 'project',
+        target_id: train.project_id,
+        project_id: train.project_id,
+        metadata: { name: train.name, is_private: train.is_private },
+      })
+
+      return c.html(html`
+        <div
+          style="background: #d1fae5; color: #065f46; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+        >
+          <strong>✅ Success!</strong> Project "${train.project_id}" created successfully.
+        </div>
+        <script>
+          setTimeout(() => location.reload(), 1500)
+        </script>
+      `)
+    } catch (innerError) {
+      await client.query('ROLLBACK')
+      throw innerError
+    }
+  } catch (error) {
+    const errorMessage = getErrorMessage(error)
+    const isDuplicate = errorMessage.includes('unique') || errorMessage.includes('duplicate')
+
     return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> API key does not belong to this project
+      <div
+        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
+      >
+        <strong>Error:</strong>
+        ${isDuplicate ? 'A train with this ID already exists' : errorMessage}
       </div>
+      <script>
+        setTimeout(() => location.reload(), 2000)
+      </script>
     `)
+  } finally {
+    client.release()
   }
+})
 
-  // Check if user is project owner OR key creator
-  const userIsOwner = await isProjectOwner(pool, projectId, auth.principal)
-  const isKeyCreator = apiKey.created_by === auth.principal
+/**
+ * Toggle project privacy (HTMX form submission - owner only)
+ */
+trainsUIRoutes.post('/:projectId/toggle-privacy', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
 
-  if (!userIsOwner && !isKeyCreator) {
+  if (!pool) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> Only project owners or key creators can revoke API keys
+        Database not configured
+      </div>
+    `)
+  }
+
+  // Check authentication
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
       </div>
     `)
   }
 
   try {
-    const success = await revokeTrainApiKey(pool, keyId, auth.principal)
+    // Check ownership
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners can change privacy settings
+        </div>
+      `)
+    }
 
-    if (!success) {
+    // Get current project state using the numeric ID
+    const project = await getProjectById(pool, projectId)
+    if (!project) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          <strong>Error:</strong> API key not found or already revoked
+          Project not found
         </div>
       `)
     }
 
-    // Return refreshed api-keys-list by redirecting HTMX to reload
-    c.header('HX-Trigger', 'api-key-revoked')
-    // Re-fetch and return the updated list
-    const apiKeys = await listTrainApiKeys(pool, projectId)
+    // Toggle privacy
+    const newPrivacySetting = !project.is_private
+    const updated = await updateProject(pool, projectId, { is_private: newPrivacySetting })
+    await recordProjectUpdate(c, project, updated, ['is_private'], 'project.privacy_changed')
 
+    // Return updated privacy settings section
     return c.html(html`
       <div
-        style="background: #d1fae5; color: #065f46; padding: 0.5rem 0.75rem; border-radius: 0.25rem; margin-bottom: 0.5rem; font-size: 0.875rem;"
+        style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
+        id="privacy-settings"
       >
-        API key revoked successfully
+        <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 1rem;">
+          Privacy Settings
+        </h3>
+        <div style="background: #f3f4f6; padding: 1rem; border-radius: 0.25rem;">
+          <form
+            hx-post="/dashboard/projects/${projectId}/toggle-privacy"
+            hx-swap="outerHTML"
+            hx-target="#privacy-settings"
+            style="display: flex; align-items: center; justify-content: space-between;"
+          >
+            <div>
+              <div style="font-weight: 600; font-size: 0.875rem; margin-bottom: 0.25rem;">
+                Project Privacy: ${newPrivacySetting ? '🔒 Private' : '🌐 Public'}
+              </div>
+              <div style="font-size: 0.75rem; color: #6b7280;">
+                ${newPrivacySetting
+                  ? 'Only project members can view conversations and requests from this project.'
+                  : 'All authenticated users can view conversations and requests from this project.'}
+              </div>
+            </div>
+            <button
+              type="submit"
+              style="background: ${newPrivacySetting
+                ? '#10b981'
+                : '#f59e0b'}; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
+              onclick="return confirm('Are you sure you want to make this project ${newPrivacySetting
+                ? 'public'
+                : 'private'}? This will affect who can see conversations and requests.');"
+            >
+              Make ${newPrivacySetting ? 'Public' : 'Private'}
+            </button>
+          </form>
+        </div>
+        ${newPrivacySetting
+          ? html`
+              <div
+                style="background: #fef3c7; border: 1px solid #f59e0b; padding: 0.75rem; border-radius: 0.25rem; margin-top: 0.75rem;"
+              >
+                <p style="margin: 0; color: #92400e; font-size: 0.75rem;">
+                  <strong>⚠️ Note:</strong> While this project is private, only members listed below
+                  can view its conversations and requests. The project name and member list remain
+                  visible to all authenticated users.
+                </p>
+              </div>
+            `
+          : ''}
+        <div
+          style="background: #d1fae5; color: #065f46; padding: 0.75rem; border-radius: 0.25rem; margin-top: 0.75rem;"
+        >
+          <strong>✅ Success!</strong> Project privacy has been updated to
+          ${newPrivacySetting ? 'Private' : 'Public'}.
+        </div>
       </div>
-      ${renderApiKeysList(apiKeys, projectId, auth, userIsOwner)}
     `)
   } catch (error) {
     return c.html(html`
@@ -1226,12 +3789,74 @@ trainsUIRoutes.patch('/:projectId/revoke-api-key/:keyId', async c => {
 })
 
 /**
- * Delete a revoked API key permanently (HTMX form submission - owner only)
- * Returns the refreshed api-keys-list HTML after deletion
+ * Toggle system prompt enabled/disabled
  */
-trainsUIRoutes.delete('/:projectId/delete-api-key/:keyId', async c => {
+trainsUIRoutes.post('/:projectId/toggle-system-prompt', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
+
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
+  try {
+    const isMember = await checkProjectPermission(pool, projectId, auth.principal, 'project.use')
+    if (!isMember) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners and members can change system prompt settings
+        </div>
+      `)
+    }
+
+    const project = await getProjectById(pool, projectId)
+    if (!project) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          Project not found
+        </div>
+      `)
+    }
+
+    const newEnabled = !project.system_prompt_enabled
+    const updated = await updateProject(pool, projectId, { system_prompt_enabled: newEnabled })
+    await recordProjectUpdate(
+      c,
+      project,
+      updated,
+      ['system_prompt_enabled'],
+      'project.system_prompt_updated'
+    )
+
+    // Redirect to reload the page with updated data
+    return c.redirect(`/dashboard/projects/${updated.project_id}/view`)
+  } catch (error) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
+      </div>
+    `)
+  }
+})
+
+/**
+ * Save system prompt content
+ */
+trainsUIRoutes.put('/:projectId/system-prompt', async c => {
   const projectId = c.req.param('projectId')
-  const keyId = c.req.param('keyId')
   const pool = container.getPool()
   const auth = c.get('auth')
 
@@ -1251,80 +3876,129 @@ trainsUIRoutes.delete('/:projectId/delete-api-key/:keyId', async c => {
     `)
   }
 
-  // Check project membership
-  const isMember = await isProjectMember(pool, projectId, auth.principal)
-  if (!isMember) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> You are not a member of this project
-      </div>
-    `)
-  }
+  try {
+    const isMember = await checkProjectPermission(pool, projectId, auth.principal, 'project.use')
+    if (!isMember) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners and members can update the system prompt
+        </div>
+      `)
+    }
 
-  // Get the API key
-  const apiKey = await getTrainApiKeySafe(pool, keyId)
-  if (!apiKey) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> API key not found
-      </div>
-    `)
-  }
+    const formData = await c.req.parseBody()
+    const rawJson = formData['system_prompt'] as string
 
-  // Check if key belongs to this project
-  if (apiKey.project_id !== projectId) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let systemPrompt: any[] | null = null
+    if (rawJson && rawJson.trim()) {
+      try {
+        systemPrompt = JSON.parse(rawJson)
+      } catch {
+        return c.html(html`
+          <div
+            style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;"
+          >
+            <strong>Error:</strong> Invalid JSON. Please ensure the system prompt is valid JSON.
+          </div>
+        `)
+      }
+    }
+
+    // Validate using shared validation
+    const { validateSystemPrompt } = await import('@agent-prompttrain/shared')
+    const validation = validateSystemPrompt(systemPrompt)
+    if (!validation.valid) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> ${validation.error}
+        </div>
+      `)
+    }
+
+    const before = await getProjectById(pool, projectId)
+    const updated = await updateProject(pool, projectId, { system_prompt: systemPrompt })
+    await recordProjectUpdate(
+      c,
+      before,
+      updated,
+      ['system_prompt'],
+      'project.system_prompt_updated'
+    )
+
+    // Redirect to reload the page with updated data
+    return c.redirect(`/dashboard/projects/${updated.project_id}/view`)
+  } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> API key does not belong to this project
+        Error: ${getErrorMessage(error)}
       </div>
     `)
   }
+})
 
-  // Check if user is project owner OR key creator
-  const userIsOwner = await isProjectOwner(pool, projectId, auth.principal)
-  const isKeyCreator = apiKey.created_by === auth.principal
+/**
+ * Save project budgets (owner only)
+ */
+trainsUIRoutes.put('/:projectId/budget', async c => {
+  const projectId = c.req.param('projectId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
 
-  if (!userIsOwner && !isKeyCreator) {
+  if (!pool) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> Only project owners or key creators can delete API keys
+        Database not configured
       </div>
     `)
   }
 
-  // Key must be revoked before deletion
-  if (!apiKey.revoked_at) {
+  if (!auth.isAuthenticated) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> API key must be revoked before it can be deleted
+        <strong>Error:</strong> Unauthorized - please log in
       </div>
     `)
   }
 
   try {
-    const success = await deleteTrainApiKey(pool, keyId)
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners can change the budget
+        </div>
+      `)
+    }
 
-    if (!success) {
+    const formData = await c.req.parseBody()
+    const parseAmount = (value: unknown): number | null => {
+      const raw = typeof value === 'string' ? value.trim() : ''
+      return raw === '' ? null : Number(raw)
+    }
+
+    const alertPercent = parseAmount(formData['budget_alert_percent'])
+    const update = {
+      daily_budget_usd: parseAmount(formData['daily_budget_usd']),
+      monthly_budget_usd: parseAmount(formData['monthly_budget_usd']),
+      budget_alert_threshold: alertPercent === null ? undefined : alertPercent / 100,
+    }
+
+    const validation = validateProjectBudget(update)
+    if (!validation.valid) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          <strong>Error:</strong> Failed to delete API key
+          <strong>Error:</strong> ${validation.error}
         </div>
       `)
     }
 
-    c.header('HX-Trigger', 'api-key-deleted')
-    const apiKeys = await listTrainApiKeys(pool, projectId)
+    const before = await getProjectById(pool, projectId)
+    const updated = await updateProject(pool, projectId, update)
+    await recordProjectUpdate(c, before, updated, Object.keys(update))
 
-    // Re-render key list with success message
-    // userIsOwner is always true since we checked above
-    return c.html(html`
-      <div
-        style="background: #d1fae5; color: #065f46; padding: 0.5rem 0.75rem; border-radius: 0.25rem; margin-bottom: 0.5rem; font-size: 0.875rem;"
-      >
-        API key deleted successfully
-      </div>
-      ${renderApiKeysList(apiKeys, projectId, auth, userIsOwner)}
-    `)
+    // Redirect to reload the page with updated data
+    return c.redirect(`/dashboard/projects/${updated.project_id}/view`)
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1335,11 +4009,12 @@ trainsUIRoutes.delete('/:projectId/delete-api-key/:keyId', async c => {
 })
 
 /**
- * HTMX endpoint to load members for a specific train
+ * Save project rate limit overrides (owner only)
  */
-trainsUIRoutes.get('/:projectId/members-list', async c => {
+trainsUIRoutes.put('/:projectId/rate-limits', async c => {
   const projectId = c.req.param('projectId')
   const pool = container.getPool()
+  const auth = c.get('auth')
 
   if (!pool) {
     return c.html(html`
@@ -1349,44 +4024,50 @@ trainsUIRoutes.get('/:projectId/members-list', async c => {
     `)
   }
 
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
+
   try {
-    const members = await getProjectMembers(pool, projectId)
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners can change rate limits
+        </div>
+      `)
+    }
 
-    if (members.length === 0) {
+    const formData = await c.req.parseBody()
+    const parseLimit = (value: unknown): number | null => {
+      const raw = typeof value === 'string' ? value.trim() : ''
+      return raw === '' ? null : Number(raw)
+    }
+
+    const update = {
+      rate_limit_max_requests: parseLimit(formData['rate_limit_max_requests']),
+      rate_limit_max_tokens: parseLimit(formData['rate_limit_max_tokens']),
+    }
+
+    const validation = validateProjectRateLimits(update)
+    if (!validation.valid) {
       return c.html(html`
-        <div
-          style="background: #fef3c7; border: 1px solid #f59e0b; padding: 0.75rem; border-radius: 0.25rem; color: #92400e;"
-        >
-          ⚠️ No members found. This train should have at least one owner.
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> ${validation.error}
         </div>
       `)
     }
 
-    return c.html(html`
-      <div style="display: flex; flex-direction: column; gap: 0.5rem;">
-        ${members.map(
-          member => html`
-            <div
-              style="background: #f9fafb; border: 1px solid #e5e7eb; padding: 0.75rem; border-radius: 0.25rem; display: flex; justify-content: space-between; align-items: center;"
-            >
-              <div>
-                <div style="font-weight: 600; font-size: 0.875rem;">${member.user_email}</div>
-                <div style="font-size: 0.75rem; color: #6b7280;">
-                  <span
-                    style="background: ${member.role === 'owner'
-                      ? '#3b82f6'
-                      : '#6b7280'}; color: white; padding: 0.125rem 0.5rem; border-radius: 0.25rem; font-size: 0.75rem; text-transform: uppercase;"
-                  >
-                    ${member.role}
-                  </span>
-                  • Added: ${new Date(member.added_at).toLocaleDateString()} by ${member.added_by}
-                </div>
-              </div>
-            </div>
-          `
-        )}
-      </div>
-    `)
+    const before = await getProjectById(pool, projectId)
+    const updated = await updateProject(pool, projectId, update)
+    await recordProjectUpdate(c, before, updated, Object.keys(update))
+
+    // Redirect to reload the page with updated data
+    return c.redirect(`/dashboard/projects/${updated.project_id}/view`)
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1397,114 +4078,76 @@ trainsUIRoutes.get('/:projectId/members-list', async c => {
 })
 
 /**
- * Generate a new API key for a project (HTMX form submission - owner only)
+ * Save project response cache settings (owner only)
  */
-trainsUIRoutes.post('/:projectId/generate-api-key', async c => {
+trainsUIRoutes.put('/:projectId/response-cache', async c => {
   const projectId = c.req.param('projectId')
   const pool = container.getPool()
   const auth = c.get('auth')
 
   if (!pool) {
     return c.html(html`
-      <div
-        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-      >
-        <strong>Error:</strong> Database not configured
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
       </div>
     `)
   }
 
-  // Check authentication
   if (!auth.isAuthenticated) {
     return c.html(html`
-      <div
-        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-      >
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
         <strong>Error:</strong> Unauthorized - please log in
       </div>
     `)
   }
 
-  // Check project membership (owners and members can create API keys)
-  const isMember = await isProjectMember(pool, projectId, auth.principal)
-  if (!isMember) {
-    return c.html(html`
-      <div
-        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-      >
-        <strong>Error:</strong> Only project members can generate API keys
-      </div>
-    `)
-  }
-
   try {
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners can change the response cache
+        </div>
+      `)
+    }
+
     const formData = await c.req.parseBody()
-    const name = (formData.name as string) || undefined
+    const ttlValue = formData['response_cache_ttl_seconds']
+    const ttl = typeof ttlValue === 'string' ? ttlValue.trim() : ''
 
-    const generatedKey = await createTrainApiKey(pool, projectId, {
-      name,
-      created_by: auth.principal,
-    })
+    const update = {
+      response_cache_enabled: formData['response_cache_enabled'] === 'true',
+      response_cache_ttl_seconds: ttl === '' ? undefined : Number(ttl),
+    }
 
-    return c.html(html`
-      <div
-        style="background: #d1fae5; border: 2px solid #10b981; padding: 1.5rem; border-radius: 0.5rem; margin-bottom: 1.5rem;"
-      >
-        <div style="margin-bottom: 1rem;">
-          <strong style="color: #065f46; font-size: 1rem;"
-            >✅ API Key Generated Successfully!</strong
-          >
-        </div>
-        <div style="margin-bottom: 0.5rem;">
-          <strong style="color: #065f46;">⚠️ Important:</strong>
-          <span style="color: #065f46;">
-            Copy this key now. It will not be shown again for security reasons.
-          </span>
-        </div>
-        <div
-          style="background: white; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem; border: 1px solid #10b981;"
-        >
-          <div style="font-size: 0.75rem; font-weight: 600; color: #6b7280; margin-bottom: 0.5rem;">
-            ${generatedKey.name || 'Unnamed API Key'}
-          </div>
-          <code
-            style="background: #f3f4f6; padding: 0.5rem; border-radius: 0.25rem; font-size: 0.875rem; word-break: break-all; display: block; color: #111827; font-family: monospace;"
-            >${generatedKey.api_key}</code
-          >
+    const validation = validateProjectResponseCache(update)
+    if (!validation.valid) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> ${validation.error}
         </div>
-        <button
-          data-api-key="${generatedKey.api_key}"
-          onclick="navigator.clipboard.writeText(this.getAttribute('data-api-key')); this.textContent='✅ Copied!'; setTimeout(() => this.textContent='Copy to Clipboard', 2000)"
-          style="background: #3b82f6; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; margin-right: 0.5rem;"
-        >
-          Copy to Clipboard
-        </button>
-        <button
-          onclick="location.reload()"
-          style="background: #6b7280; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer;"
-        >
-          Done
-        </button>
-      </div>
-      <script>
-        setTimeout(() => location.reload(), 10000)
-      </script>
-    `)
+      `)
+    }
+
+    const before = await getProjectById(pool, projectId)
+    const updated = await updateProject(pool, projectId, update)
+    await recordProjectUpdate(c, before, updated, Object.keys(update))
+
+    // Redirect to reload the page with updated data
+    return c.redirect(`/dashboard/projects/${updated.project_id}/view`)
   } catch (error) {
-    return c.html(html`
-      <div
-        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-      >
-        <strong>Error:</strong> ${getErrorMessage(error)}
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
       </div>
     `)
   }
 })
 
 /**
- * Set default account for a project (HTMX form submission - owner only)
+ * Save project request/response transforms (owner only)
  */
-trainsUIRoutes.post('/:projectId/set-default-account', async c => {
+trainsUIRoutes.put('/:projectId/transforms', async c => {
   const projectId = c.req.param('projectId')
   const pool = container.getPool()
   const auth = c.get('auth')
@@ -1517,7 +4160,6 @@ trainsUIRoutes.post('/:projectId/set-default-account', async c => {
     `)
   }
 
-  // Check authentication
   if (!auth.isAuthenticated) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1526,33 +4168,49 @@ trainsUIRoutes.post('/:projectId/set-default-account', async c => {
     `)
   }
 
-  // Check ownership
-  const isOwner = await isProjectOwner(pool, projectId, auth.principal)
-  if (!isOwner) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> Only train owners can change the default account
-      </div>
-    `)
-  }
-
   try {
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners can change transforms
+        </div>
+      `)
+    }
+
     const formData = await c.req.parseBody()
-    const credentialId = formData.credential_id as string
+    const rawJson = formData['transforms']
+
+    let transforms: unknown = []
+    if (typeof rawJson === 'string' && rawJson.trim()) {
+      try {
+        transforms = JSON.parse(rawJson)
+      } catch {
+        return c.html(html`
+          <div
+            style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;"
+          >
+            <strong>Error:</strong> Invalid JSON. Transforms must be a JSON array.
+          </div>
+        `)
+      }
+    }
 
-    await setProjectDefaultAccount(pool, projectId, credentialId)
+    const validation = validateProjectTransforms(transforms)
+    if (!validation.valid) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> ${validation.error}
+        </div>
+      `)
+    }
 
-    // Reload the credentials section
-    return c.html(html`
-      <div
-        style="background: #d1fae5; color: #065f46; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-      >
-        <strong>✅ Success!</strong> Default account updated.
-      </div>
-      <script>
-        setTimeout(() => location.reload(), 1500)
-      </script>
-    `)
+    const before = await getProjectById(pool, projectId)
+    const updated = await updateProject(pool, projectId, { transforms: validation.transforms })
+    await recordProjectUpdate(c, before, updated, ['transforms'])
+
+    // Redirect to reload the page with updated data
+    return c.redirect(`/dashboard/projects/${updated.project_id}/view`)
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1563,9 +4221,9 @@ trainsUIRoutes.post('/:projectId/set-default-account', async c => {
 })
 
 /**
- * Link an account to a project's pool (HTMX form submission - owner only)
+ * Save project model routing policy (owner only)
  */
-trainsUIRoutes.post('/:projectId/link-account', async c => {
+trainsUIRoutes.put('/:projectId/model-routing', async c => {
   const projectId = c.req.param('projectId')
   const pool = container.getPool()
   const auth = c.get('auth')
@@ -1586,31 +4244,49 @@ trainsUIRoutes.post('/:projectId/link-account', async c => {
     `)
   }
 
-  const isOwner = await isProjectOwner(pool, projectId, auth.principal)
-  if (!isOwner) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> Only project owners can manage the account pool
-      </div>
-    `)
-  }
-
   try {
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners can change model routing
+        </div>
+      `)
+    }
+
     const formData = await c.req.parseBody()
-    const credentialId = formData.credential_id as string
+    const rawJson = formData['model_routing']
 
-    await addProjectAccount(pool, projectId, credentialId)
+    let policy: unknown = null
+    if (typeof rawJson === 'string' && rawJson.trim()) {
+      try {
+        policy = JSON.parse(rawJson)
+      } catch {
+        return c.html(html`
+          <div
+            style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;"
+          >
+            <strong>Error:</strong> Invalid JSON. Model routing must be a JSON object.
+          </div>
+        `)
+      }
+    }
 
-    return c.html(html`
-      <div
-        style="background: #d1fae5; color: #065f46; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-      >
-        <strong>Account linked to pool.</strong>
-      </div>
-      <script>
-        setTimeout(() => location.reload(), 1500)
-      </script>
-    `)
+    const validation = validateModelRoutingPolicy(policy)
+    if (!validation.valid) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> ${validation.error}
+        </div>
+      `)
+    }
+
+    const before = await getProjectById(pool, projectId)
+    const updated = await updateProject(pool, projectId, { model_routing: validation.policy })
+    await recordProjectUpdate(c, before, updated, ['model_routing'])
+
+    // Redirect to reload the page with updated data
+    return c.redirect(`/dashboard/projects/${updated.project_id}/view`)
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1621,11 +4297,11 @@ trainsUIRoutes.post('/:projectId/link-account', async c => {
 })
 
 /**
- * Unlink an account from a project's pool (HTMX form submission - owner only)
+ * Add a webhook (owner only). Responds with the webhooks section, which shows
+ * the new signing secret once.
  */
-trainsUIRoutes.delete('/:projectId/unlink-account/:credentialId', async c => {
+trainsUIRoutes.post('/:projectId/webhooks', async c => {
   const projectId = c.req.param('projectId')
-  const credentialId = c.req.param('credentialId')
   const pool = container.getPool()
   const auth = c.get('auth')
 
@@ -1645,38 +4321,52 @@ trainsUIRoutes.delete('/:projectId/unlink-account/:credentialId', async c => {
     `)
   }
 
-  const isOwner = await isProjectOwner(pool, projectId, auth.principal)
-  if (!isOwner) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> Only project owners can manage the account pool
-      </div>
-    `)
-  }
-
   try {
-    // Prevent unlinking the default account
-    const project = await getProjectById(pool, projectId)
-    if (project?.default_account_id === credentialId) {
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          <strong>Error:</strong> Cannot unlink the default account. Change the default first.
+          <strong>Error:</strong> Only project owners can manage webhooks
+        </div>
+      `)
+    }
+
+    const formData = await c.req.parseBody({ all: true })
+    const validation = validateProjectWebhook(formData['url'], formData['events'])
+    if (!validation.valid || !validation.url) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> ${validation.error}
+        </div>
+      `)
+    }
+    const target = await validateWebhookTarget(validation.url).catch(() => ({
+      valid: false,
+      error: 'Webhook URL host could not be resolved',
+    }))
+    if (!target.valid) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> ${target.error}
         </div>
       `)
     }
 
-    await removeProjectAccount(pool, projectId, credentialId)
+    const webhook = await createProjectWebhook(pool, projectId, {
+      url: validation.url,
+      events: validation.events ?? [],
+      created_by: auth.principal,
+    })
+    await recordAudit(c, {
+      action: 'webhook.created',
+      target_type: 'webhook',
+      target_id: webhook.id,
+      projectUuid: projectId,
+      changes: diffAuditChanges(null, { url: webhook.url, events: webhook.events }),
+    })
 
-    return c.html(html`
-      <div
-        style="background: #d1fae5; color: #065f46; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-      >
-        <strong>Account removed from pool.</strong>
-      </div>
-      <script>
-        setTimeout(() => location.reload(), 1500)
-      </script>
-    `)
+    const webhooks = await listProjectWebhooks(pool, projectId)
+    return c.html(renderWebhooksSection(projectId, webhooks, webhook))
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1687,66 +4377,94 @@ trainsUIRoutes.delete('/:projectId/unlink-account/:credentialId', async c => {
 })
 
 /**
- * GET /:projectId/account-utilization/:accountId - Returns HTML fragment with 7d utilization bar
- * Used by HTMX lazy loading in the project accounts section
+ * Update a webhook's event subscriptions and enabled flag (owner only)
  */
-trainsUIRoutes.get('/:projectId/account-utilization/:accountId', async c => {
-  const accountId = c.req.param('accountId')
-  const apiClient = container.getApiClient()
+trainsUIRoutes.put('/:projectId/webhooks/:webhookId', async c => {
+  const projectId = c.req.param('projectId')
+  const webhookId = c.req.param('webhookId')
+  const pool = container.getPool()
+  const auth = c.get('auth')
 
-  if (!apiClient) {
-    return c.html(html`<span style="font-size: 0.75rem; color: #9ca3af;">Usage unavailable</span>`)
+  if (!pool) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
+      </div>
+    `)
+  }
+
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
   }
 
   try {
-    const usage = await apiClient.getOAuthUsage(accountId)
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners can manage webhooks
+        </div>
+      `)
+    }
 
-    if (!usage || !usage.available || usage.windows.length === 0) {
-      return c.html(html`<span style="font-size: 0.75rem; color: #9ca3af;">No usage data</span>`)
+    const formData = await c.req.parseBody({ all: true })
+    const webhooks = await listProjectWebhooks(pool, projectId)
+    const webhook = webhooks.find(w => w.id === webhookId)
+    if (!webhook) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Webhook not found
+        </div>
+      `)
     }
 
-    // Find 7-day window utilization
-    const sevenDay = usage.windows.find(w => w.short_name === '7d')
-    const utilization = sevenDay ? sevenDay.utilization : 0
-    const resetsAt = sevenDay ? sevenDay.resets_at : ''
+    const validation = validateProjectWebhook(webhook.url, formData['events'])
+    if (!validation.valid) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> ${validation.error}
+        </div>
+      `)
+    }
 
-    // Color based on utilization level
-    const barColor = utilization >= 80 ? '#ef4444' : utilization >= 50 ? '#f59e0b' : '#22c55e'
-    const bgColor = utilization >= 80 ? '#fee2e2' : utilization >= 50 ? '#fef3c7' : '#dcfce7'
+    const update = {
+      events: validation.events,
+      enabled: formData['enabled'] === 'on',
+    }
+    await updateProjectWebhook(pool, projectId, webhookId, update)
+    const changes = diffAuditChanges(webhook, update)
+    if (changes) {
+      await recordAudit(c, {
+        action: 'webhook.updated',
+        target_type: 'webhook',
+        target_id: webhookId,
+        projectUuid: projectId,
+        changes,
+        metadata: { url: webhook.url },
+      })
+    }
 
+    const updatedWebhooks = await listProjectWebhooks(pool, projectId)
+    return c.html(renderWebhooksSection(projectId, updatedWebhooks))
+  } catch (error) {
     return c.html(html`
-      <div
-        style="display: flex; align-items: center; gap: 0.5rem; min-width: 140px;"
-        title="7-day utilization: ${utilization.toFixed(1)}%${resetsAt
-          ? ` · Resets: ${resetsAt}`
-          : ''}${usage.is_estimated ? ' (estimated)' : ''}"
-      >
-        <div
-          style="flex: 1; height: 8px; background: ${bgColor}; border-radius: 4px; overflow: hidden; min-width: 80px;"
-        >
-          <div
-            style="height: 100%; width: ${Math.min(
-              utilization,
-              100
-            )}%; background: ${barColor}; border-radius: 4px; transition: width 0.3s ease;"
-          ></div>
-        </div>
-        <span
-          style="font-size: 0.7rem; font-weight: 600; color: ${barColor}; white-space: nowrap; min-width: 32px; text-align: right;"
-          >${utilization.toFixed(0)}%</span
-        >
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
       </div>
     `)
-  } catch {
-    return c.html(html`<span style="font-size: 0.75rem; color: #9ca3af;">—</span>`)
   }
 })
 
 /**
- * Toggle project disabled state (HTMX form submission - owner only)
+ * Delete a webhook (owner only)
  */
-trainsUIRoutes.post('/:projectId/toggle-disabled', async c => {
+trainsUIRoutes.delete('/:projectId/webhooks/:webhookId', async c => {
   const projectId = c.req.param('projectId')
+  const webhookId = c.req.param('webhookId')
   const pool = container.getPool()
   const auth = c.get('auth')
 
@@ -1767,30 +4485,28 @@ trainsUIRoutes.post('/:projectId/toggle-disabled', async c => {
   }
 
   try {
-    const isOwner = await isProjectOwner(pool, projectId, auth.principal)
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
     if (!isOwner) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          <strong>Error:</strong> Only project owners can disable/enable projects
+          <strong>Error:</strong> Only project owners can manage webhooks
         </div>
       `)
     }
 
-    const project = await getProjectById(pool, projectId)
-    if (!project) {
-      return c.html(html`
-        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          Project not found
-        </div>
-      `)
+    const webhook = (await listProjectWebhooks(pool, projectId)).find(w => w.id === webhookId)
+    if (await deleteProjectWebhook(pool, projectId, webhookId)) {
+      await recordAudit(c, {
+        action: 'webhook.deleted',
+        target_type: 'webhook',
+        target_id: webhookId,
+        projectUuid: projectId,
+        metadata: { url: webhook?.url },
+      })
     }
 
-    const newDisabled = !project.disabled
-    await updateProject(pool, projectId, { disabled: newDisabled })
-
-    // Return updated row via HX-Redirect to refresh the page
-    c.header('HX-Redirect', '/dashboard/projects')
-    return c.html(html``)
+    const webhooks = await listProjectWebhooks(pool, projectId)
+    return c.html(renderWebhooksSection(projectId, webhooks))
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1801,9 +4517,9 @@ trainsUIRoutes.post('/:projectId/toggle-disabled', async c => {
 })
 
 /**
- * Delete a project (HTMX form submission - owner only)
+ * Map a client user ID to a user email (owner only)
  */
-trainsUIRoutes.delete('/:projectId/delete', async c => {
+trainsUIRoutes.post('/:projectId/user-mappings', async c => {
   const projectId = c.req.param('projectId')
   const pool = container.getPool()
   const auth = c.get('auth')
@@ -1816,7 +4532,6 @@ trainsUIRoutes.delete('/:projectId/delete', async c => {
     `)
   }
 
-  // Check authentication
   if (!auth.isAuthenticated) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1826,28 +4541,48 @@ trainsUIRoutes.delete('/:projectId/delete', async c => {
   }
 
   try {
-    // Check ownership
-    const isOwner = await isProjectOwner(pool, projectId, auth.principal)
-    if (!isOwner) {
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    const train = await getProjectById(pool, projectId)
+    if (!isOwner || !train) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          <strong>Error:</strong> Only train owners can delete projects
+          <strong>Error:</strong> Only project owners can manage user attribution
         </div>
       `)
     }
 
-    const success = await deleteProject(pool, projectId)
-
-    if (!success) {
+    const formData = await c.req.parseBody()
+    const clientUserId = normalizeClientUserId(formData['client_user_id'])
+    const validation = validateUserMapping(clientUserId, formData['user_email'])
+    if (!validation.valid || !clientUserId) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          Project not found
+          <strong>Error:</strong> ${validation.error}
         </div>
       `)
     }
 
-    // Return empty HTML to remove the project row via HTMX swap
-    return c.html(html``)
+    const previous = (await listProjectUserMappings(pool, projectId)).find(
+      m => m.client_user_id === clientUserId
+    )
+    const mapping = await upsertProjectUserMapping(pool, projectId, {
+      client_user_id: clientUserId,
+      user_email: String(formData['user_email']).trim().toLowerCase(),
+      created_by: auth.principal,
+    })
+    await recordAudit(c, {
+      action: 'project.user_mapping_set',
+      target_type: 'project_user_mapping',
+      target_id: mapping.client_user_id,
+      project_id: train.project_id,
+      changes: diffAuditChanges(
+        { user_email: previous?.user_email ?? null },
+        { user_email: mapping.user_email }
+      ),
+    })
+
+    const { mappings, unmapped } = await loadUserAttribution(pool, train)
+    return c.html(renderUserAttributionSection(projectId, mappings, unmapped))
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1858,10 +4593,11 @@ trainsUIRoutes.delete('/:projectId/delete', async c => {
 })
 
 /**
- * Add a member to a project (HTMX form submission - owner only)
+ * Remove a client user ID mapping (owner only)
  */
-trainsUIRoutes.post('/:projectId/add-member', async c => {
+trainsUIRoutes.delete('/:projectId/user-mappings/:mappingId', async c => {
   const projectId = c.req.param('projectId')
+  const mappingId = c.req.param('mappingId')
   const pool = container.getPool()
   const auth = c.get('auth')
 
@@ -1873,7 +4609,6 @@ trainsUIRoutes.post('/:projectId/add-member', async c => {
     `)
   }
 
-  // Check authentication
   if (!auth.isAuthenticated) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1882,33 +4617,30 @@ trainsUIRoutes.post('/:projectId/add-member', async c => {
     `)
   }
 
-  // Check ownership
-  const isOwner = await isProjectOwner(pool, projectId, auth.principal)
-  if (!isOwner) {
-    return c.html(html`
-      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-        <strong>Error:</strong> Only train owners can add members
-      </div>
-    `)
-  }
-
   try {
-    const formData = await c.req.parseBody()
-    const userEmail = formData.user_email as string
-    const role = formData.role as 'owner' | 'member'
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    const train = await getProjectById(pool, projectId)
+    if (!isOwner || !train) {
+      return c.html(html`
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners can manage user attribution
+        </div>
+      `)
+    }
 
-    await addProjectMember(pool, projectId, userEmail, role, auth.principal)
+    const mapping = await deleteProjectUserMapping(pool, projectId, mappingId)
+    if (mapping) {
+      await recordAudit(c, {
+        action: 'project.user_mapping_removed',
+        target_type: 'project_user_mapping',
+        target_id: mapping.client_user_id,
+        project_id: train.project_id,
+        changes: diffAuditChanges({ user_email: mapping.user_email }, { user_email: null }),
+      })
+    }
 
-    return c.html(html`
-      <div
-        style="background: #d1fae5; color: #065f46; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-      >
-        <strong>✅ Success!</strong> Member ${userEmail} added as ${role}.
-      </div>
-      <script>
-        setTimeout(() => location.reload(), 1500)
-      </script>
-    `)
+    const { mappings, unmapped } = await loadUserAttribution(pool, train)
+    return c.html(renderUserAttributionSection(projectId, mappings, unmapped))
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -1919,104 +4651,77 @@ trainsUIRoutes.post('/:projectId/add-member', async c => {
 })
 
 /**
- * Create a new train (HTMX form submission)
+ * Save project data retention settings (owner only)
  */
-trainsUIRoutes.post('/create', async c => {
+trainsUIRoutes.put('/:projectId/retention', async c => {
+  const projectId = c.req.param('projectId')
   const pool = container.getPool()
+  const auth = c.get('auth')
 
   if (!pool) {
     return c.html(html`
-      <div
-        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-      >
-        <strong>Error:</strong> Database not configured
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Database not configured
       </div>
     `)
   }
 
-  const auth = c.get('auth')
-  const client = await pool.connect()
+  if (!auth.isAuthenticated) {
+    return c.html(html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Unauthorized - please log in
+      </div>
+    `)
+  }
 
   try {
-    const formData = await c.req.parseBody()
-    const projectId = formData.project_id as string
-    const name = formData.name as string
-    const isPrivate = formData.is_private === 'true'
-
-    // Validate train ID format
-    if (!/^[a-z0-9-]+$/.test(projectId)) {
-      client.release()
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
       return c.html(html`
-        <div
-          style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-        >
-          <strong>Error:</strong> Project ID must be lowercase alphanumeric with hyphens only
-        </div>
-        <div style="text-align: center;">
-          <button
-            onclick="location.reload()"
-            style="background: #3b82f6; color: white; padding: 0.5rem 1.5rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer;"
-          >
-            Try Again
-          </button>
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> Only project owners can change data retention
         </div>
       `)
     }
 
-    // Create train and auto-assign creator as owner in a transaction
-    await client.query('BEGIN')
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const train = await createProject(client as any, {
-        project_id: projectId,
-        name: name,
-        is_private: isPrivate,
-      })
-
-      // Add the creator as an owner
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await addProjectMember(client as any, train.id, auth.principal, 'owner', auth.principal)
+    const formData = await c.req.parseBody()
+    const parseDays = (value: unknown): number | null => {
+      const raw = typeof value === 'string' ? value.trim() : ''
+      return raw === '' ? null : Number(raw)
+    }
 
-      await client.query('COMMIT')
+    const update = {
+      retention_body_days: parseDays(formData['retention_body_days']),
+      retention_metadata_days: parseDays(formData['retention_metadata_days']),
+    }
 
+    const validation = validateProjectRetention(update)
+    if (!validation.valid) {
       return c.html(html`
-        <div
-          style="background: #d1fae5; color: #065f46; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-        >
-          <strong>✅ Success!</strong> Project "${train.project_id}" created successfully.
+        <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+          <strong>Error:</strong> ${validation.error}
         </div>
-        <script>
-          setTimeout(() => location.reload(), 1500)
-        </script>
       `)
-    } catch (innerError) {
-      await client.query('ROLLBACK')
-      throw innerError
     }
-  } catch (error) {
-    const errorMessage = getErrorMessage(error)
-    const isDuplicate = errorMessage.includes('unique') || errorMessage.includes('duplicate')
 
+    const before = await getProjectById(pool, projectId)
+    const project = await updateProject(pool, projectId, update)
+    await recordProjectUpdate(c, before, project, Object.keys(update))
+    const preview = await getRetentionPurgePreview(pool, project.project_id)
+    return c.html(renderDataRetentionSection(project, preview, true))
+  } catch (error) {
     return c.html(html`
-      <div
-        style="background: #fee2e2; color: #991b1b; padding: 1rem; border-radius: 0.25rem; margin-bottom: 1rem;"
-      >
-        <strong>Error:</strong>
-        ${isDuplicate ? 'A train with this ID already exists' : errorMessage}
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        Error: ${getErrorMessage(error)}
       </div>
-      <script>
-        setTimeout(() => location.reload(), 2000)
-      </script>
     `)
-  } finally {
-    client.release()
   }
 })
 
 /**
- * Toggle project privacy (HTMX form submission - owner only)
+ * Save project body redaction settings (owner only)
  */
-trainsUIRoutes.post('/:projectId/toggle-privacy', async c => {
+trainsUIRoutes.put('/:projectId/redaction', async c => {
   const projectId = c.req.param('projectId')
   const pool = container.getPool()
   const auth = c.get('auth')
@@ -2029,7 +4734,6 @@ trainsUIRoutes.post('/:projectId/toggle-privacy', async c => {
     `)
   }
 
-  // Check authentication
   if (!auth.isAuthenticated) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -2039,90 +4743,34 @@ trainsUIRoutes.post('/:projectId/toggle-privacy', async c => {
   }
 
   try {
-    // Check ownership
-    const isOwner = await isProjectOwner(pool, projectId, auth.principal)
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
     if (!isOwner) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          <strong>Error:</strong> Only project owners can change privacy settings
+          <strong>Error:</strong> Only project owners can change body redaction
         </div>
       `)
     }
 
-    // Get current project state using the numeric ID
-    const project = await getProjectById(pool, projectId)
-    if (!project) {
+    const formData = await c.req.parseBody()
+    const update = {
+      redaction_enabled: formData['redaction_enabled'] === 'true',
+      redaction_patterns: parseRedactionPatterns(formData['redaction_patterns']),
+    }
+
+    const validation = validateProjectRedaction(update)
+    if (!validation.valid) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          Project not found
+          <strong>Error:</strong> ${validation.error}
         </div>
       `)
     }
 
-    // Toggle privacy
-    const newPrivacySetting = !project.is_private
-    await updateProject(pool, projectId, { is_private: newPrivacySetting })
-
-    // Return updated privacy settings section
-    return c.html(html`
-      <div
-        style="background: white; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1.5rem;"
-        id="privacy-settings"
-      >
-        <h3 style="font-size: 1.125rem; font-weight: bold; margin-bottom: 1rem;">
-          Privacy Settings
-        </h3>
-        <div style="background: #f3f4f6; padding: 1rem; border-radius: 0.25rem;">
-          <form
-            hx-post="/dashboard/projects/${projectId}/toggle-privacy"
-            hx-swap="outerHTML"
-            hx-target="#privacy-settings"
-            style="display: flex; align-items: center; justify-content: space-between;"
-          >
-            <div>
-              <div style="font-weight: 600; font-size: 0.875rem; margin-bottom: 0.25rem;">
-                Project Privacy: ${newPrivacySetting ? '🔒 Private' : '🌐 Public'}
-              </div>
-              <div style="font-size: 0.75rem; color: #6b7280;">
-                ${newPrivacySetting
-                  ? 'Only project members can view conversations and requests from this project.'
-                  : 'All authenticated users can view conversations and requests from this project.'}
-              </div>
-            </div>
-            <button
-              type="submit"
-              style="background: ${newPrivacySetting
-                ? '#10b981'
-                : '#f59e0b'}; color: white; padding: 0.5rem 1rem; border-radius: 0.25rem; font-weight: 600; border: none; cursor: pointer; font-size: 0.875rem;"
-              onclick="return confirm('Are you sure you want to make this project ${newPrivacySetting
-                ? 'public'
-                : 'private'}? This will affect who can see conversations and requests.');"
-            >
-              Make ${newPrivacySetting ? 'Public' : 'Private'}
-            </button>
-          </form>
-        </div>
-        ${newPrivacySetting
-          ? html`
-              <div
-                style="background: #fef3c7; border: 1px solid #f59e0b; padding: 0.75rem; border-radius: 0.25rem; margin-top: 0.75rem;"
-              >
-                <p style="margin: 0; color: #92400e; font-size: 0.75rem;">
-                  <strong>⚠️ Note:</strong> While this project is private, only members listed below
-                  can view its conversations and requests. The project name and member list remain
-                  visible to all authenticated users.
-                </p>
-              </div>
-            `
-          : ''}
-        <div
-          style="background: #d1fae5; color: #065f46; padding: 0.75rem; border-radius: 0.25rem; margin-top: 0.75rem;"
-        >
-          <strong>✅ Success!</strong> Project privacy has been updated to
-          ${newPrivacySetting ? 'Private' : 'Public'}.
-        </div>
-      </div>
-    `)
+    const before = await getProjectById(pool, projectId)
+    const project = await updateProject(pool, projectId, update)
+    await recordProjectUpdate(c, before, project, Object.keys(update))
+    return c.html(renderRedactionSection(project, true))
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -2133,9 +4781,27 @@ trainsUIRoutes.post('/:projectId/toggle-privacy', async c => {
 })
 
 /**
- * Toggle system prompt enabled/disabled
+ * Re-render the analysis template section after a change
  */
-trainsUIRoutes.post('/:projectId/toggle-system-prompt', async c => {
+async function renderAnalysisTemplateUpdate(pool: Pool, projectId: string) {
+  const [project, templates] = await Promise.all([
+    getProjectById(pool, projectId),
+    listAnalysisTemplates(pool, projectId),
+  ])
+  if (!project) {
+    return html`
+      <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
+        <strong>Error:</strong> Project not found
+      </div>
+    `
+  }
+  return renderAnalysisTemplateSection(project, templates, true)
+}
+
+/**
+ * Save a new version of the project's analysis template and activate it (owner only)
+ */
+trainsUIRoutes.post('/:projectId/analysis-template', async c => {
   const projectId = c.req.param('projectId')
   const pool = container.getPool()
   const auth = c.get('auth')
@@ -2157,30 +4823,50 @@ trainsUIRoutes.post('/:projectId/toggle-system-prompt', async c => {
   }
 
   try {
-    const isMember = await isProjectMember(pool, projectId, auth.principal)
-    if (!isMember) {
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          <strong>Error:</strong> Only project members can change system prompt settings
+          <strong>Error:</strong> Only project owners can change the analysis template
         </div>
       `)
     }
 
-    const project = await getProjectById(pool, projectId)
-    if (!project) {
+    const formData = await c.req.parseBody()
+    const request = {
+      instructions: typeof formData['instructions'] === 'string' ? formData['instructions'] : '',
+      output_schema: parseAnalysisOutputSchema(formData['output_schema']),
+    }
+
+    const validation = validateAnalysisTemplate(request)
+    if (!validation.valid) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          Project not found
+          <strong>Error:</strong> ${validation.error}
         </div>
       `)
     }
 
-    const newEnabled = !project.system_prompt_enabled
-    await updateProject(pool, projectId, { system_prompt_enabled: newEnabled })
+    const [before, templates] = await Promise.all([
+      getProjectById(pool, projectId),
+      listAnalysisTemplates(pool, projectId),
+    ])
+    const template = await createAnalysisTemplate(pool, projectId, {
+      ...request,
+      created_by: auth.principal,
+    })
+    await recordAudit(c, {
+      action: 'project.analysis_template_updated',
+      target_type: 'project',
+      target_id: projectId,
+      projectUuid: projectId,
+      changes: diffAuditChanges(
+        { analysis_template_version: getActiveTemplateVersion(before, templates) },
+        { analysis_template_version: template.version }
+      ),
+    })
 
-    // Redirect to reload the page with updated data
-    const updatedProject = await getProjectById(pool, projectId)
-    return c.redirect(`/dashboard/projects/${updatedProject!.project_id}/view`)
+    return c.html(await renderAnalysisTemplateUpdate(pool, projectId))
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -2191,9 +4877,10 @@ trainsUIRoutes.post('/:projectId/toggle-system-prompt', async c => {
 })
 
 /**
- * Save system prompt content
+ * Activate a version of the analysis template, or the default prompt with an
+ * empty template_id (owner only)
  */
-trainsUIRoutes.put('/:projectId/system-prompt', async c => {
+trainsUIRoutes.put('/:projectId/analysis-template/active', async c => {
   const projectId = c.req.param('projectId')
   const pool = container.getPool()
   const auth = c.get('auth')
@@ -2215,50 +4902,51 @@ trainsUIRoutes.put('/:projectId/system-prompt', async c => {
   }
 
   try {
-    const isMember = await isProjectMember(pool, projectId, auth.principal)
-    if (!isMember) {
+    const isOwner = await checkProjectPermission(pool, projectId, auth.principal, 'project.manage')
+    if (!isOwner) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          <strong>Error:</strong> Only project members can update the system prompt
+          <strong>Error:</strong> Only project owners can change the analysis template
         </div>
       `)
     }
 
     const formData = await c.req.parseBody()
-    const rawJson = formData['system_prompt'] as string
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let systemPrompt: any[] | null = null
-    if (rawJson && rawJson.trim()) {
-      try {
-        systemPrompt = JSON.parse(rawJson)
-      } catch {
-        return c.html(html`
-          <div
-            style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;"
-          >
-            <strong>Error:</strong> Invalid JSON. Please ensure the system prompt is valid JSON.
-          </div>
-        `)
-      }
-    }
-
-    // Validate using shared validation
-    const { validateSystemPrompt } = await import('@agent-prompttrain/shared')
-    const validation = validateSystemPrompt(systemPrompt)
-    if (!validation.valid) {
+    const templateId =
+      typeof formData['template_id'] === 'string' && formData['template_id']
+        ? formData['template_id']
+        : null
+
+    const [before, templates] = await Promise.all([
+      getProjectById(pool, projectId),
+      listAnalysisTemplates(pool, projectId),
+    ])
+    if (!(await setActiveAnalysisTemplate(pool, projectId, templateId))) {
       return c.html(html`
         <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
-          <strong>Error:</strong> ${validation.error}
+          <strong>Error:</strong> Template not found
         </div>
       `)
     }
 
-    await updateProject(pool, projectId, { system_prompt: systemPrompt })
+    const changes = diffAuditChanges(
+      { analysis_template_version: getActiveTemplateVersion(before, templates) },
+      {
+        analysis_template_version:
+          templates.find(template => template.id === templateId)?.version ?? null,
+      }
+    )
+    if (changes) {
+      await recordAudit(c, {
+        action: 'project.analysis_template_updated',
+        target_type: 'project',
+        target_id: projectId,
+        projectUuid: projectId,
+        changes,
+      })
+    }
 
-    // Redirect to reload the page with updated data
-    const project = await getProjectById(pool, projectId)
-    return c.redirect(`/dashboard/projects/${project!.project_id}/view`)
+    return c.html(await renderAnalysisTemplateUpdate(pool, projectId))
   } catch (error) {
     return c.html(html`
       <div style="background: #fee2e2; color: #991b1b; padding: 0.75rem; border-radius: 0.25rem;">
@@ -11,14 +11,27 @@ import {
   addProjectAccount,
   removeProjectAccount,
   getProjectById,
+  checkProjectPermission,
 } from '@agent-prompttrain/shared/database/queries'
 import {
   validateSystemPrompt,
+  validateProjectBudget,
+  validateProjectRateLimits,
+  validateProjectResponseCache,
+  validateProjectRetention,
+  validateProjectRedaction,
+  validateProjectTransforms,
+  validateModelRoutingPolicy,
   type CreateProjectRequest,
   type UpdateProjectRequest,
 } from '@agent-prompttrain/shared'
 import type { AuthContext } from '../middleware/auth.js'
-import { requireProjectOwner, requireProjectMembership } from '../middleware/project-ownership.js'
+import {
+  requireProjectOwner,
+  requireProjectMembership,
+  requireProjectPermission,
+} from '../middleware/project-ownership.js'
+import { recordAudit, recordProjectUpdate } from '../utils/audit.js'
 
 const projects = new Hono<{ Variables: { auth: AuthContext } }>()
 
@@ -36,18 +49,24 @@ projects.get('/', async c => {
   }
 })
 
-// GET /api/projects/:projectId - Get train details with accounts (member only)
-projects.get('/:projectId', requireProjectMembership, async c => {
+// GET /api/projects/:id - Get train details with accounts (any project role)
+projects.get('/:id', requireProjectMembership, async c => {
   try {
     const pool = container.getPool()
+    const auth = c.get('auth')
 
-    const projectId = c.req.param('projectId')
+    const projectId = c.req.param('id')
     const train = await getProjectWithAccounts(pool, projectId)
 
     if (!train) {
       return c.json({ error: 'Project not found' }, 404)
     }
 
+    // Viewers and billing members do not see the system prompt
+    if (!(await checkProjectPermission(pool, train.id, auth.principal, 'prompts.read'))) {
+      return c.json({ train: { ...train, system_prompt: null } })
+    }
+
     return c.json({ train })
   } catch (error) {
     console.error('Failed to get train:', error)
@@ -73,6 +92,14 @@ projects.post('/', async c => {
       await addProjectMember(client as any, train.id, auth.principal, 'owner', auth.principal)
       await client.query('COMMIT')
 
+      await recordAudit(c, {
+        action: 'project.created',
+        target_type: 'project',
+        target_id: train.project_id,
+        project_id: train.project_id,
+        metadata: { name: train.name, is_private: train.is_private },
+      })
+
       return c.json({ train }, 201)
     } catch (innerError) {
       await client.query('ROLLBACK')
@@ -98,7 +125,51 @@ projects.put('/:id', requireProjectOwner, async c => {
 
     const id = c.req.param('id')
     const body = await c.req.json<UpdateProjectRequest>()
+
+    const budgetValidation = validateProjectBudget(body)
+    if (!budgetValidation.valid) {
+      return c.json({ error: `Invalid budget: ${budgetValidation.error}` }, 400)
+    }
+
+    const rateLimitValidation = validateProjectRateLimits(body)
+    if (!rateLimitValidation.valid) {
+      return c.json({ error: `Invalid rate limits: ${rateLimitValidation.error}` }, 400)
+    }
+
+    const responseCacheValidation = validateProjectResponseCache(body)
+    if (!responseCacheValidation.valid) {
+      return c.json({ error: `Invalid response cache: ${responseCacheValidation.error}` }, 400)
+    }
+
+    const retentionValidation = validateProjectRetention(body)
+    if (!retentionValidation.valid) {
+      return c.json({ error: `Invalid retention: ${retentionValidation.error}` }, 400)
+    }
+
+    const redactionValidation = validateProjectRedaction(body)
+    if (!redactionValidation.valid) {
+      return c.json({ error: `Invalid redaction: ${redactionValidation.error}` }, 400)
+    }
+
+    if (body.transforms !== undefined) {
+      const transformsValidation = validateProjectTransforms(body.transforms)
+      if (!transformsValidation.valid) {
+        return c.json({ error: `Invalid transforms: ${transformsValidation.error}` }, 400)
+      }
+      body.transforms = transformsValidation.transforms
+    }
+
+    if (body.model_routing !== undefined) {
+      const routingValidation = validateModelRoutingPolicy(body.model_routing)
+      if (!routingValidation.valid) {
+        return c.json({ error: `Invalid model routing: ${routingValidation.error}` }, 400)
+      }
+      body.model_routing = routingValidation.policy
+    }
+
+    const before = await getProjectById(pool, id)
     const train = await updateProject(pool, id, body)
+    await recordProjectUpdate(c, before, train, Object.keys(body))
 
     return c.json({ train })
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -119,7 +190,15 @@ projects.put('/:id/default-account', requireProjectOwner, async c => {
     const projectId = c.req.param('id')
     const { credential_id } = await c.req.json<{ credential_id: string }>()
 
+    const before = await getProjectById(pool, projectId)
     const train = await setProjectDefaultAccount(pool, projectId, credential_id)
+    await recordProjectUpdate(
+      c,
+      before,
+      train,
+      ['default_account_id'],
+      'project.default_account_set'
+    )
 
     return c.json({ train })
   } catch (error) {
@@ -128,8 +207,8 @@ projects.put('/:id/default-account', requireProjectOwner, async c => {
   }
 })
 
-// PUT /api/projects/:id/system-prompt - Update system prompt (member only)
-projects.put('/:id/system-prompt', requireProjectMembership, async c => {
+// PUT /api/projects/:id/system-prompt - Update system prompt (owner or member)
+projects.put('/:id/system-prompt', requireProjectPermission('project.use'), async c => {
   try {
     const pool = container.getPool()
     const id = c.req.param('id')
@@ -147,10 +226,18 @@ projects.put('/:id/system-prompt', requireProjectMembership, async c => {
       }
     }
 
+    const before = await getProjectById(pool, id)
     const train = await updateProject(pool, id, {
       system_prompt_enabled: body.system_prompt_enabled,
       system_prompt: body.system_prompt,
     })
+    await recordProjectUpdate(
+      c,
+      before,
+      train,
+      Object.keys(body).filter(key => key === 'system_prompt_enabled' || key === 'system_prompt'),
+      'project.system_prompt_updated'
+    )
 
     return c.json({ train })
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -169,12 +256,21 @@ projects.delete('/:id', requireProjectOwner, async c => {
     const pool = container.getPool()
     const id = c.req.param('id')
 
+    const project = await getProjectById(pool, id)
     const success = await deleteProject(pool, id)
 
     if (!success) {
       return c.json({ error: 'Project not found' }, 404)
     }
 
+    await recordAudit(c, {
+      action: 'project.deleted',
+      target_type: 'project',
+      target_id: project?.project_id,
+      project_id: project?.project_id,
+      metadata: { name: project?.name },
+    })
+
     return c.json({ success: true })
   } catch (error) {
     console.error('Failed to delete train:', error)
@@ -194,6 +290,14 @@ projects.post('/:id/accounts', requireProjectOwner, async c => {
     }
 
     const added = await addProjectAccount(pool, projectId, credential_id)
+    if (added) {
+      await recordAudit(c, {
+        action: 'project.account_linked',
+        target_type: 'credential',
+        target_id: credential_id,
+        projectUuid: projectId,
+      })
+    }
     return c.json({ linked: added }, added ? 201 : 200)
   } catch (error: any) {
     console.error('Failed to link account:', error)
@@ -222,6 +326,14 @@ projects.delete('/:id/accounts/:credentialId', requireProjectOwner, async c => {
       return c.json({ error: 'Account was not linked to this project' }, 404)
     }
 
+    await recordAudit(c, {
+      action: 'project.account_unlinked',
+      target_type: 'credential',
+      target_id: credentialId,
+      project_id: project?.project_id,
+      projectUuid: projectId,
+    })
+
     return c.json({ success: true })
   } catch (error) {
     console.error('Failed to unlink account:', error)
@@ -0,0 +1,227 @@
+import { Hono, type Context } from 'hono'
+import { getConnInfo } from 'hono/bun'
+import { html, raw } from 'hono/html'
+import { getErrorMessage, resolveClientIp } from '@agent-prompttrain/shared'
+import { config } from '@agent-prompttrain/shared/config'
+import {
+  getConversationShare,
+  recordConversationShareView,
+} from '@agent-prompttrain/shared/database/queries'
+import { container } from '../container.js'
+import { getShareLinkSecret } from '../config.js'
+import { logger } from '../middleware/logger.js'
+import { hideToolResults, verifyShareToken } from '../services/share-links.js'
+import { parseConversation } from '../utils/conversation.js'
+import { escapeHtml } from '../utils/formatters.js'
+
+export const publicConversationShareRoutes = new Hono()
+
+/**
+ * Viewer IP: the socket address, or the X-Forwarded-For hop set by the first of
+ * TRUSTED_PROXY_HOPS trusted proxies
+ */
+function getViewerIp(c: Context): string | null {
+  let socketAddress: string | null = null
+  try {
+    socketAddress = getConnInfo(c).remote.address ?? null
+  } catch {
+    socketAddress = null
+  }
+  return resolveClientIp(
+    c.req.header('x-forwarded-for'),
+    socketAddress,
+    config.server.trustedProxyHops
+  )
+}
+
+function renderPage(title: string, body: string) {
+  return html`<!doctype html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <meta name="robots" content="noindex, nofollow" />
+        <title>${title}</title>
+        <style>
+          * {
+            box-sizing: border-box;
+          }
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            background: #f9fafb;
+            color: #1f2937;
+            margin: 0;
+            padding: 16px;
+          }
+          main {
+            max-width: 960px;
+            margin: 0 auto;
+          }
+          h1 {
+            font-size: 18px;
+            margin: 0 0 4px 0;
+          }
+          .meta {
+            font-size: 12px;
+            color: #6b7280;
+            margin-bottom: 16px;
+          }
+          .message {
+            background: #fff;
+            border: 1px solid #e5e7eb;
+            border-left-width: 4px;
+            border-radius: 6px;
+            padding: 10px 12px;
+            margin-bottom: 8px;
+            overflow-x: auto;
+          }
+          .message-user {
+            border-left-color: #3b82f6;
+          }
+          .message-assistant {
+            border-left-color: #10b981;
+          }
+          .message-tool {
+            border-left-color: #9ca3af;
+            font-size: 13px;
+          }
+          .role {
+            font-size: 11px;
+            font-weight: 600;
+            text-transform: uppercase;
+            color: #6b7280;
+            margin-bottom: 4px;
+          }
+          pre {
+            white-space: pre-wrap;
+            word-break: break-word;
+          }
+          .notice {
+            background: #fef2f2;
+            border: 1px solid #fecaca;
+            border-radius: 6px;
+            padding: 12px;
+            color: #991b1b;
+            font-size: 13px;
+          }
+        </style>
+      </head>
+      <body>
+        <main>${raw(body)}</main>
+      </body>
+    </html>`
+}
+
+function notFound(c: Context) {
+  c.header('Cache-Control', 'no-store')
+  return c.html(
+    renderPage(
+      'Shared Conversation',
+      '<div class="notice">This share link is invalid, has expired or has been revoked.</div>'
+    ),
+    404
+  )
+}
+
+/**
+ * Read-only transcript of a shared conversation branch — no authentication
+ * required. The signed token identifies the share; every successful view is
+ * recorded against it. System prompts are never included.
+ */
+publicConversationShareRoutes.get('/share/:token', async c => {
+  const secret = getShareLinkSecret()
+  const claims = secret ? verifyShareToken(c.req.param('token'), secret) : null
+  if (!claims) {
+    return notFound(c)
+  }
+
+  const pool = container.getPool()
+  const storageService = container.getStorageService()
+
+  try {
+    // The row decides: a revoked share, or a token minted for another expiry, is rejected
+    const share = await getConversationShare(pool, claims.shareId)
+    if (
+      !share ||
+      share.revoked_at ||
+      new Date(share.expires_at) <= new Date() ||
+      Math.floor(new Date(share.expires_at).getTime() / 1000) !== claims.expiresAt.getTime() / 1000
+    ) {
+      return notFound(c)
+    }
+
+    const conversation = await storageService.getConversationById(share.conversation_id)
+    const tip = conversation?.requests
+      .filter(r => (r.branch_id || 'main') === share.branch_id)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .at(-1)
+    if (!tip) {
+      return notFound(c)
+    }
+
+    const details = await storageService.getRequestDetails(tip.request_id)
+    const requestBody = share.redact_tool_results
+      ? hideToolResults(details.request_body)
+      : details.request_body
+    const transcript = await parseConversation({
+      request_body: requestBody ? { ...requestBody, system: undefined } : requestBody,
+      response_body: details.response_body,
+      timestamp: tip.timestamp,
+    })
+
+    await recordConversationShareView(pool, share.id, {
+      ip_address: getViewerIp(c),
+      user_agent: c.req.header('user-agent') || null,
+    })
+
+    const visibleMessages = transcript.messages.filter(msg => msg.role !== 'system')
+    const messages = visibleMessages
+      .map(msg => {
+        const kind = msg.isToolUse || msg.isToolResult ? 'tool' : msg.role
+        const label = msg.isToolUse
+          ? `Tool call${msg.toolName ? `: ${escapeHtml(msg.toolName)}` : ''}`
+          : msg.isToolResult
+            ? 'Tool result'
+            : msg.role === 'assistant'
+              ? 'Assistant'
+              : 'User'
+        return `
+          <div class="message message-${kind}">
+            <div class="role">${label}</div>
+            <div>${msg.htmlContent}</div>
+          </div>`
+      })
+      .join('')
+
+    const expiry = new Date(share.expires_at).toISOString().replace('T', ' ').slice(0, 16)
+    c.header('Cache-Control', 'no-store')
+    c.header('Referrer-Policy', 'no-referrer')
+    return c.html(
+      renderPage(
+        'Shared Conversation',
+        `
+          <h1>Shared Conversation</h1>
+          <div class="meta">
+            Branch ${escapeHtml(share.branch_id)} · ${visibleMessages.length} messages ·
+            ${escapeHtml(transcript.model || tip.model)} · link expires ${expiry} UTC
+            ${share.redact_tool_results ? ' · tool results hidden' : ''}
+          </div>
+          ${messages}
+        `
+      )
+    )
+  } catch (error) {
+    logger.error('Failed to render shared conversation', {
+      error: getErrorMessage(error),
+      metadata: { shareId: claims.shareId },
+    })
+    c.header('Cache-Control', 'no-store')
+    return c.html(
+      renderPage(
+        'Shared Conversation',
+        '<div class="notice"><strong>Error:</strong> Unable to load this conversation. Please try again later.</div>'
+      ),
+      500
+    )
+  }
+})
@@ -87,6 +87,10 @@ requestDetailsRoutes.get('/request/:id', async c => {
       conversationId: requestDetails.request.conversation_id,
       branchId: requestDetails.request.branch_id,
       parentRequestId: requestDetails.request.parent_request_id,
+      appliedTransforms: requestDetails.request.applied_transforms ?? [],
+      redactions: requestDetails.request.redactions ?? null,
+      requestedModel: requestDetails.request.requested_model,
+      routingReason: requestDetails.request.routing_reason,
       requestBody: requestDetails.request_body,
       responseBody: requestDetails.response_body,
       streamingChunks: requestDetails.chunks.map(chunk => ({
@@ -464,6 +468,20 @@ requestDetailsRoutes.get('/request/:id', async c => {
               <dt class="text-gray-600">Model:</dt>
               <dd>${conversation.model}</dd>
 
+              ${details.requestedModel
+                ? html`
+                    <dt class="text-gray-600">Requested model:</dt>
+                    <dd>
+                      ${details.requestedModel}
+                      ${details.routingReason
+                        ? html`<span class="text-gray-600" style="font-size: 0.8rem;"
+                            >(${details.routingReason})</span
+                          >`
+                        : ''}
+                    </dd>
+                  `
+                : ''}
+
               <dt class="text-gray-600">Timestamp:</dt>
               <dd>${new Date(details.timestamp).toLocaleString()}</dd>
 
@@ -489,6 +507,33 @@ requestDetailsRoutes.get('/request/:id', async c => {
 
               <dt class="text-gray-600">Status:</dt>
               <dd>${details.responseStatus}</dd>
+
+              ${details.appliedTransforms.length > 0
+                ? html`
+                    <dt class="text-gray-600">Transforms:</dt>
+                    <dd>
+                      ${details.appliedTransforms.map(
+                        transform =>
+                          html`<div style="font-size: 0.8rem;">
+                            <code>${transform.type}</code> ${transform.summary}
+                          </div>`
+                      )}
+                    </dd>
+                  `
+                : ''}
+              ${details.redactions
+                ? html`
+                    <dt class="text-gray-600">Redacted:</dt>
+                    <dd>
+                      <span class="badge badge-warning redacted-badge">[redacted]</span>
+                      <span style="font-size: 0.8rem;">
+                        ${Object.entries(details.redactions)
+                          .map(([kind, count]) => `${count} ${kind}`)
+                          .join(', ')}
+                      </span>
+                    </dd>
+                  `
+                : ''}
             </dl>
           </div>
 
@@ -2,6 +2,7 @@ import { Hono } from 'hono'
 import { html, raw } from 'hono/html'
 import { ProxyApiClient } from '../services/api-client.js'
 import { getErrorMessage } from '@agent-prompttrain/shared'
+import { escapeHtml } from '../utils/formatters.js'
 import { layout } from '../layout/index.js'
 import { logger } from '../middleware/logger.js'
 
@@ -20,6 +21,8 @@ interface HourlyUsageResponse {
   data: Record<string, HourlyDataPoint[]>
   query: {
     projectId: string | null
+    user: string | null
+    groupBy: 'project' | 'user'
     days: number
   }
 }
@@ -84,6 +87,8 @@ function getTrainColor(projectId: string): string {
 requestUsageRoutes.get('/usage', async c => {
   const apiClient = c.get('apiClient')
   const selectedTrainId = c.req.query('projectId')
+  const groupBy = c.req.query('groupBy') === 'user' ? 'user' : 'project'
+  const selectedUser = c.req.query('user') || null
 
   if (!apiClient) {
     return c.html(
@@ -107,22 +112,42 @@ requestUsageRoutes.get('/usage', async c => {
     const displayTrainId = selectedTrainId || null
 
     // Fetch hourly usage data
-    const usageParams = new URLSearchParams({ days: '7' })
+    const usageParams = new URLSearchParams({ days: '7', groupBy })
     if (displayTrainId) {
       usageParams.append('projectId', displayTrainId)
     }
+    if (selectedUser) {
+      usageParams.append('user', selectedUser)
+    }
+
+    // A single series when one project (or one user) is selected, stacked otherwise
+    const seriesKey = groupBy === 'user' ? selectedUser : displayTrainId
+
     const usageResponse = await apiClient.get<HourlyUsageResponse>(
       `/api/usage/requests/hourly?${usageParams}`
     )
     const usageData = usageResponse.data || {}
-    const chartData = displayTrainId ? usageData[displayTrainId] || [] : usageData
+    const chartData = seriesKey ? usageData[seriesKey] || [] : usageData
 
     // Fetch hourly token usage data
     const tokenResponse = await apiClient.get<HourlyUsageResponse>(
       `/api/usage/tokens/hourly?${usageParams}`
     )
     const tokenData = tokenResponse.data || {}
-    const tokenChartData = displayTrainId ? tokenData[displayTrainId] || [] : tokenData
+    const tokenChartData = seriesKey ? tokenData[seriesKey] || [] : tokenData
+
+    // Per-user totals for the user filter and the usage by user table
+    const { users } = await apiClient.getUserUsage({
+      days: 7,
+      projectId: displayTrainId || undefined,
+    })
+    const userEmails = users.flatMap(user => (user.userEmail ? [user.userEmail] : []))
+
+    const seriesNames =
+      groupBy === 'user'
+        ? [...new Set([...userEmails, ...Object.keys(usageData), ...Object.keys(tokenData)])]
+        : trainIds.map(d => d.projectId)
+    const seriesColors = Object.fromEntries(seriesNames.map(name => [name, getTrainColor(name)]))
 
     const content = html`
       <div class="mb-6">
@@ -135,32 +160,114 @@ requestUsageRoutes.get('/usage', async c => {
       <div class="section">
         <div class="section-header">Select Project ID</div>
         <div class="section-content">
-          <select
-            id="train-selector"
-            name="projectId"
-            style="padding: 8px 12px; border: 1px solid #e5e7eb; border-radius: 0.375rem; font-size: 14px;"
-            onchange="window.location.href = '/dashboard/usage' + (this.value ? '?projectId=' + encodeURIComponent(this.value) : '')"
+          <form
+            method="get"
+            action="/dashboard/usage"
+            style="display: flex; gap: 0.75rem; flex-wrap: wrap; align-items: center;"
           >
-            <option value="" ${!selectedTrainId ? 'selected' : ''}>
-              All Projects (${formatNumber(trainIds.reduce((sum, d) => sum + d.requestCount, 0))}
-              requests)
-            </option>
-            ${trainIds.length > 0
-              ? raw(
-                  trainIds
-                    .map(
-                      (d: TrainIdInfo) =>
-                        `<option
-                          value="${d.projectId}"
-                          ${d.projectId === displayTrainId ? 'selected' : ''}
-                        >
-                          ${d.projectId} (${formatNumber(d.requestCount)} requests)
-                        </option>`
-                    )
-                    .join('')
-                )
-              : ''}
-          </select>
+            <select
+              id="train-selector"
+              name="projectId"
+              style="padding: 8px 12px; border: 1px solid #e5e7eb; border-radius: 0.375rem; font-size: 14px;"
+              onchange="this.form.submit()"
+            >
+              <option value="" ${!selectedTrainId ? 'selected' : ''}>
+                All Projects (${formatNumber(trainIds.reduce((sum, d) => sum + d.requestCount, 0))}
+                requests)
+              </option>
+              ${trainIds.length > 0
+                ? raw(
+                    trainIds
+                      .map(
+                        (d: TrainIdInfo) =>
+                          `<option
+                            value="${d.projectId}"
+                            ${d.projectId === displayTrainId ? 'selected' : ''}
+                          >
+                            ${d.projectId} (${formatNumber(d.requestCount)} requests)
+                          </option>`
+                      )
+                      .join('')
+                  )
+                : ''}
+            </select>
+            <label class="text-sm text-gray-600"
+              >Group by
+              <select name="groupBy" onchange="this.form.submit()">
+                <option value="project" ${groupBy === 'project' ? 'selected' : ''}>Project</option>
+                <option value="user" ${groupBy === 'user' ? 'selected' : ''}>User</option>
+              </select>
+            </label>
+            <label class="text-sm text-gray-600"
+              >User
+              <select name="user" onchange="this.form.submit()">
+                <option value="">All users</option>
+                ${userEmails.map(
+                  email =>
+                    html`<option value="${email}" ${email === selectedUser ? 'selected' : ''}>
+                      ${email}
+                    </option>`
+                )}
+              </select>
+            </label>
+          </form>
+        </div>
+      </div>
+
+      <!-- Usage by User -->
+      <div class="section">
+        <div class="section-header">
+          Usage by User - Last 7 Days
+          <span class="text-sm text-gray-500">(${displayTrainId || 'All Projects'})</span>
+        </div>
+        <div class="section-content" style="overflow-x: auto;">
+          ${users.length === 0
+            ? html`<p class="text-gray-500">No requests in the last 7 days.</p>`
+            : html`
+                <table>
+                  <thead>
+                    <tr>
+                      <th>User</th>
+                      <th style="text-align: right;">Requests</th>
+                      <th style="text-align: right;">Conversations</th>
+                      <th style="text-align: right;">Input Tokens</th>
+                      <th style="text-align: right;">Output Tokens</th>
+                      <th style="text-align: right;">Estimated Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    ${users.map(
+                      user => html`
+                        <tr>
+                          <td>
+                            ${user.userEmail
+                              ? html`<a
+                                  href="/dashboard?user=${encodeURIComponent(user.userEmail)}${displayTrainId
+                                    ? `&projectId=${encodeURIComponent(displayTrainId)}`
+                                    : ''}"
+                                  class="text-blue-600"
+                                  title="Show conversations"
+                                  >${user.userEmail}</a
+                                >`
+                              : html`<span class="text-gray-500">Unattributed</span>`}
+                          </td>
+                          <td style="text-align: right;">${formatNumber(user.requestCount)}</td>
+                          <td style="text-align: right;">
+                            ${formatNumber(user.conversationCount)}
+                          </td>
+                          <td style="text-align: right;">
+                            ${formatNumber(
+                              user.inputTokens + user.cacheReadTokens + user.cacheCreationTokens
+                            )}
+                          </td>
+                          <td style="text-align: right;">${formatNumber(user.outputTokens)}</td>
+                          <td style="text-align: right;">$${user.estimatedCostUsd.toFixed(2)}</td>
+                        </tr>
+                      `
+                    )}
+                  </tbody>
+                </table>
+              `}
         </div>
       </div>
 
@@ -171,10 +278,13 @@ requestUsageRoutes.get('/usage', async c => {
           ${displayTrainId
             ? html`<span class="text-sm text-gray-500">(${displayTrainId})</span>`
             : html`<span class="text-sm text-gray-500">(All Projects)</span>`}
+          ${groupBy === 'user'
+            ? html`<span class="text-sm text-gray-500">by ${selectedUser || 'user'}</span>`
+            : ''}
         </div>
         <div class="section-content">
-          ${(displayTrainId && Array.isArray(chartData) && chartData.length > 0) ||
-          (!displayTrainId && !Array.isArray(chartData) && Object.keys(chartData).length > 0)
+          ${(seriesKey && Array.isArray(chartData) && chartData.length > 0) ||
+          (!seriesKey && !Array.isArray(chartData) && Object.keys(chartData).length > 0)
             ? html`
                 <canvas
                   id="hourlyChart"
@@ -186,13 +296,8 @@ requestUsageRoutes.get('/usage', async c => {
                   <script>
                     // Chart data from API
                     const chartData = ${JSON.stringify(chartData)};
-                    const displayTrainId = ${JSON.stringify(displayTrainId)};
-                    const trainColors = ${JSON.stringify(
-                      trainIds.reduce((acc: Record<string, string>, d: TrainIdInfo) => {
-                        acc[d.projectId] = getTrainColor(d.projectId)
-                        return acc
-                      }, {})
-                    )};
+                    const seriesKey = ${JSON.stringify(seriesKey)};
+                    const trainColors = ${JSON.stringify(seriesColors)};
                     
                     // Helper to format numbers with commas
                     function formatNumber(num) {
@@ -471,26 +576,26 @@ requestUsageRoutes.get('/usage', async c => {
                 `)}
 
                 <!-- Legend for multi-projectId view -->
-                ${!displayTrainId
+                ${!seriesKey
                   ? html`
                       <div
                         style="margin-top: 20px; padding: 16px; background: #f9fafb; border-radius: 8px;"
                       >
                         <div style="font-weight: 600; margin-bottom: 12px; color: #1f2937;">
-                          Project IDs:
+                          ${groupBy === 'user' ? 'Users:' : 'Project IDs:'}
                         </div>
                         <div style="display: flex; flex-wrap: wrap; gap: 16px;">
                           ${raw(
-                            trainIds
+                            seriesNames
                               .map(
-                                (d: TrainIdInfo) => `
+                                name => `
                                   <div style="display: flex; align-items: center; gap: 8px;">
                                     <div
                                       style="width: 16px; height: 16px; border-radius: 4px; background: ${getTrainColor(
-                                        d.projectId
+                                        name
                                       )};"
                                     ></div>
-                                    <span style="font-size: 14px; color: #4b5563;">${d.projectId}</span>
+                                    <span style="font-size: 14px; color: #4b5563;">${escapeHtml(name)}</span>
                                   </div>
                                 `
                               )
@@ -501,7 +606,7 @@ requestUsageRoutes.get('/usage', async c => {
                     `
                   : ''}
               `
-            : displayTrainId
+            : seriesKey
               ? html`<p class="text-gray-500">
                   No request data available for the selected projectId in the last 7 days.
                 </p>`
@@ -512,15 +617,15 @@ requestUsageRoutes.get('/usage', async c => {
       </div>
 
       <!-- Summary Statistics -->
-      ${(displayTrainId && Array.isArray(chartData) && chartData.length > 0) ||
-      (!displayTrainId && !Array.isArray(chartData) && Object.keys(chartData).length > 0)
+      ${(seriesKey && Array.isArray(chartData) && chartData.length > 0) ||
+      (!seriesKey && !Array.isArray(chartData) && Object.keys(chartData).length > 0)
         ? (() => {
             let totalRequests = 0
             let avgPerHour = 0
             let peakHour = { hour: '', count: 0 }
             let activeHours = 0
 
-            if (displayTrainId && Array.isArray(chartData)) {
+            if (seriesKey && Array.isArray(chartData)) {
               // Single projectId stats
               totalRequests = chartData.reduce(
                 (sum: number, point: HourlyDataPoint) => sum + point.count,
@@ -595,10 +700,13 @@ requestUsageRoutes.get('/usage', async c => {
           ${displayTrainId
             ? html`<span class="text-sm text-gray-500">(${displayTrainId})</span>`
             : html`<span class="text-sm text-gray-500">(All Projects)</span>`}
+          ${groupBy === 'user'
+            ? html`<span class="text-sm text-gray-500">by ${selectedUser || 'user'}</span>`
+            : ''}
         </div>
         <div class="section-content">
-          ${(displayTrainId && Array.isArray(tokenChartData) && tokenChartData.length > 0) ||
-          (!displayTrainId &&
+          ${(seriesKey && Array.isArray(tokenChartData) && tokenChartData.length > 0) ||
+          (!seriesKey &&
             !Array.isArray(tokenChartData) &&
             Object.keys(tokenChartData).length > 0)
             ? html`
@@ -612,13 +720,8 @@ requestUsageRoutes.get('/usage', async c => {
                   <script>
                     // Token chart data from API
                     const tokenChartData = ${JSON.stringify(tokenChartData)};
-                    const tokenDisplayTrainId = ${JSON.stringify(displayTrainId)};
-                    const tokenTrainColors = ${JSON.stringify(
-                      trainIds.reduce((acc: Record<string, string>, d: TrainIdInfo) => {
-                        acc[d.projectId] = getTrainColor(d.projectId)
-                        return acc
-                      }, {})
-                    )};
+                    const tokenDisplayTrainId = ${JSON.stringify(seriesKey)};
+                    const tokenTrainColors = ${JSON.stringify(seriesColors)};
                     
                     // Helper to format numbers with commas
                     function formatTokenNumber(num) {
@@ -896,7 +999,7 @@ requestUsageRoutes.get('/usage', async c => {
                   </script>
                 `)}
               `
-            : displayTrainId
+            : seriesKey
               ? html`<p class="text-gray-500">
                   No token usage data available for the selected projectId in the last 7 days.
                 </p>`
@@ -17,6 +17,7 @@ export const requestsRoutes = new Hono<{
 requestsRoutes.get('/requests', async c => {
   const apiClient = c.get('apiClient')
   const projectId = c.req.query('projectId')
+  const tagFilter = (c.req.query('tag') || '').trim().toLowerCase()
 
   if (!apiClient) {
     return c.html(
@@ -45,7 +46,7 @@ requestsRoutes.get('/requests', async c => {
   // Fetch data from Proxy API with individual error handling
   const results = await Promise.allSettled([
     apiClient.getStats({ projectId }),
-    apiClient.getRequests({ projectId, limit: 20 }),
+    apiClient.getRequests({ projectId, tag: tagFilter || undefined, limit: 20 }),
     apiClient.getTrainIds(),
   ])
 
@@ -107,6 +108,35 @@ requestsRoutes.get('/requests', async c => {
             .join('')
         )}
       </select>
+      <form
+        action="/dashboard/requests"
+        method="get"
+        style="display: inline-flex; gap: 0.5rem; align-items: center; margin-left: 1.5rem;"
+      >
+        ${projectId
+          ? html`<input type="hidden" name="projectId" value="${escapeHtml(projectId)}" />`
+          : ''}
+        <label class="text-sm text-gray-600" for="tag-filter">Tag:</label>
+        <input
+          id="tag-filter"
+          type="search"
+          name="tag"
+          placeholder="good-prompting"
+          value="${escapeHtml(tagFilter)}"
+        />
+        <button type="submit" class="btn btn-secondary" style="font-size: 0.875rem;">
+          Apply
+        </button>
+        ${tagFilter
+          ? html`<a
+              href="/dashboard/requests${projectId
+                ? `?projectId=${encodeURIComponent(projectId)}`
+                : ''}"
+              class="text-sm text-blue-600"
+              >Clear</a
+            >`
+          : ''}
+      </form>
     </div>
 
     <!-- Stats Cards -->
@@ -136,35 +166,48 @@ requestsRoutes.get('/requests', async c => {
     <!-- Recent Requests -->
     <div class="section">
       <div class="section-header">
-        Recent Requests
+        Recent Requests${tagFilter ? html` tagged ${tagFilter}` : ''}
+        ${tagFilter
+          ? ''
+          : html`<span
+              id="live-status"
+              class="text-sm"
+              style="margin-left: 0.75rem; color: #9ca3af;"
+              >○ Connecting…</span
+            >`}
         <a
-          href="/dashboard/requests${projectId ? '?projectId=' + projectId : ''}"
+          href="/dashboard/requests${projectId ? '?projectId=' + projectId : ''}${tagFilter
+            ? `${projectId ? '&' : '?'}tag=${encodeURIComponent(tagFilter)}`
+            : ''}"
           class="btn btn-secondary"
           style="float: right; font-size: 0.75rem; padding: 0.25rem 0.75rem;"
           >Refresh</a
         >
       </div>
       <div class="section-content">
-        ${recentRequests.length === 0
-          ? html` <p class="text-gray-500">No requests found</p> `
-          : html`
-              <table>
-                <thead>
-                  <tr>
-                    <th>Time</th>
-                    <th>Project ID</th>
-                    <th>Account</th>
-                    <th>Model</th>
-                    <th>Tokens</th>
-                    <th>Status</th>
-                    <th>Details</th>
+        <table>
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Project ID</th>
+              <th>Account</th>
+              <th>Model</th>
+              <th>Tokens</th>
+              <th>Status</th>
+              <th>Details</th>
+            </tr>
+          </thead>
+          <tbody id="requests-tbody">
+            ${recentRequests.length === 0
+              ? html`
+                  <tr class="empty-row">
+                    <td colspan="7" class="text-gray-500">No requests found</td>
                   </tr>
-                </thead>
-                <tbody>
-                  ${raw(
-                    recentRequests
-                      .map(
-                        req => `
+                `
+              : raw(
+                  recentRequests
+                    .map(
+                      req => `
                 <tr>
                   <td class="text-sm">${formatRelativeTime(req.timestamp)}</td>
                   <td class="text-sm">${escapeHtml(req.projectId || 'unknown')}</td>
@@ -177,15 +220,62 @@ requestsRoutes.get('/requests', async c => {
                   </td>
                 </tr>
               `
-                      )
-                      .join('')
-                  )}
-                </tbody>
-              </table>
-            `}
+                    )
+                    .join('')
+                )}
+          </tbody>
+        </table>
       </div>
     </div>
   `
 
-  return c.html(layout('Requests', content, '', c))
+  // Prepend requests as they are stored, instead of polling with the Refresh button.
+  // New requests carry no tags yet, so a tag-filtered list is not live.
+  const liveScript = `<script>
+    (function () {
+      if (!window.EventSource) return
+      var MAX_ROWS = 50
+      var projectId = ${JSON.stringify(projectId || '').replace(/</g, '\\u003c')}
+      var tbody = document.getElementById('requests-tbody')
+      var status = document.getElementById('live-status')
+      var escapeHtml = function (value) {
+        return String(value == null ? '' : value).replace(/[&<>"']/g, function (ch) {
+          return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]
+        })
+      }
+      var source = new EventSource(
+        '/dashboard/live/events' + (projectId ? '?projectId=' + encodeURIComponent(projectId) : '')
+      )
+      source.addEventListener('ready', function () {
+        status.textContent = '● Live'
+        status.style.color = '#10b981'
+      })
+      source.onerror = function () {
+        status.textContent = '○ Reconnecting…'
+        status.style.color = '#9ca3af'
+      }
+      source.addEventListener('request', function (event) {
+        var req = JSON.parse(event.data)
+        var empty = tbody.querySelector('.empty-row')
+        if (empty) empty.remove()
+        var row = document.createElement('tr')
+        row.innerHTML =
+          '<td class="text-sm">just now</td>' +
+          '<td class="text-sm">' + escapeHtml(req.projectId || 'unknown') + '</td>' +
+          '<td class="text-sm">' + escapeHtml(req.accountId || 'N/A') + '</td>' +
+          '<td class="text-sm">' + escapeHtml(req.model || 'N/A') + '</td>' +
+          '<td class="text-sm">' + Number(req.totalTokens || 0).toLocaleString() + '</td>' +
+          '<td class="text-sm">' + escapeHtml(req.status || 'N/A') + '</td>' +
+          '<td class="text-sm"><a href="/dashboard/request/' + encodeURIComponent(req.requestId) +
+          '" class="text-blue-600">View</a></td>'
+        tbody.insertBefore(row, tbody.firstChild)
+        while (tbody.children.length > MAX_ROWS) tbody.removeChild(tbody.lastChild)
+      })
+      window.addEventListener('beforeunload', function () {
+        source.close()
+      })
+    })()
+  </script>`
+
+  return c.html(layout('Requests', content, tagFilter ? '' : raw(liveScript), c))
 })
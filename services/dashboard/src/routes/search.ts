@@ -0,0 +1,207 @@
+import { Hono } from 'hono'
+import { html, raw } from 'hono/html'
+import { getErrorMessage } from '@agent-prompttrain/shared'
+import { ProxyApiClient, type SearchResult } from '../services/api-client.js'
+import { escapeHtml, formatRelativeTime } from '../utils/formatters.js'
+import { layout } from '../layout/index.js'
+import { logger } from '../middleware/logger.js'
+import type { AuthContext } from '../middleware/auth.js'
+
+const RESULTS_PER_PAGE = 20
+
+export const searchRoutes = new Hono<{
+  Variables: {
+    apiClient?: ProxyApiClient
+    auth?: AuthContext
+  }
+}>()
+
+/**
+ * Link to the matching message in the conversation timeline, or to the
+ * request details for requests outside a conversation
+ */
+function resultLink(result: SearchResult): string {
+  if (!result.conversationId) {
+    return `/dashboard/request/${encodeURIComponent(result.requestId)}`
+  }
+  return `/dashboard/conversation/${encodeURIComponent(result.conversationId)}?view=timeline#message-${encodeURIComponent(result.requestId)}`
+}
+
+function renderSnippet(result: SearchResult): string {
+  return result.snippet
+    .map(segment =>
+      segment.match ? `<mark>${escapeHtml(segment.text)}</mark>` : escapeHtml(segment.text)
+    )
+    .join('')
+}
+
+function renderResult(result: SearchResult): string {
+  return `
+    <div style="padding: 0.75rem 0; border-bottom: 1px solid #e5e7eb;">
+      <div style="display: flex; gap: 0.75rem; align-items: baseline; flex-wrap: wrap;">
+        <a href="${resultLink(result)}" class="text-blue-600" style="font-family: monospace; font-size: 0.8125rem;">
+          ${escapeHtml(result.conversationId ? `${result.conversationId.slice(0, 8)}… / ${result.branchId}` : result.requestId)}
+        </a>
+        <span class="text-sm text-gray-600">${escapeHtml(result.projectId)}</span>
+        <span class="text-sm text-gray-600">${escapeHtml(result.model)}</span>
+        <span class="text-sm text-gray-600" title="${escapeHtml(new Date(result.timestamp).toISOString())}">
+          ${formatRelativeTime(result.timestamp)}
+        </span>
+      </div>
+      <div class="text-sm text-gray-700" style="margin-top: 0.375rem; white-space: pre-wrap; word-break: break-word;">
+        ${renderSnippet(result) || '<span class="text-gray-500">No preview</span>'}
+      </div>
+    </div>
+  `
+}
+
+/**
+ * Search page - full-text search across prompts, responses and tool calls
+ */
+searchRoutes.get('/search', async c => {
+  const apiClient = c.get('apiClient')
+  const auth = c.get('auth')
+
+  const q = (c.req.query('q') || '').trim()
+  const projectId = c.req.query('projectId') || ''
+  const model = (c.req.query('model') || '').trim()
+  const dateFrom = c.req.query('dateFrom') || ''
+  const dateTo = c.req.query('dateTo') || ''
+  const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1)
+
+  if (!apiClient) {
+    return c.html(
+      layout(
+        'Error',
+        html`
+          <div class="error-banner">
+            <strong>Error:</strong> API client not configured. Please check your configuration.
+          </div>
+        `
+      )
+    )
+  }
+
+  let results: SearchResult[] = []
+  let hasMore = false
+  let error: string | null = null
+  let trainIds: Array<{ projectId: string; requestCount: number }> = []
+
+  const [trainIdsResult, searchResult] = await Promise.allSettled([
+    apiClient.getTrainIds(),
+    q
+      ? apiClient.searchRequests({
+          q,
+          projectId: projectId || undefined,
+          model: model || undefined,
+          dateFrom: dateFrom ? new Date(`${dateFrom}T00:00:00Z`).toISOString() : undefined,
+          // Date inputs are inclusive of the whole day
+          dateTo: dateTo ? new Date(`${dateTo}T23:59:59.999Z`).toISOString() : undefined,
+          limit: RESULTS_PER_PAGE,
+          offset: (page - 1) * RESULTS_PER_PAGE,
+          userEmail: auth?.principal,
+        })
+      : Promise.resolve(null),
+  ])
+
+  if (trainIdsResult.status === 'fulfilled') {
+    trainIds = trainIdsResult.value.trainIds ?? []
+  }
+
+  if (searchResult.status === 'fulfilled') {
+    results = searchResult.value?.results ?? []
+    hasMore = searchResult.value?.pagination.hasMore ?? false
+  } else {
+    logger.error('Search failed', { error: getErrorMessage(searchResult.reason) })
+    error = 'Search failed. Check the query and filters and try again.'
+  }
+
+  const pageUrl = (targetPage: number) => {
+    const params = new URLSearchParams({ q })
+    if (projectId) {
+      params.set('projectId', projectId)
+    }
+    if (model) {
+      params.set('model', model)
+    }
+    if (dateFrom) {
+      params.set('dateFrom', dateFrom)
+    }
+    if (dateTo) {
+      params.set('dateTo', dateTo)
+    }
+    params.set('page', String(targetPage))
+    return `/dashboard/search?${params.toString()}`
+  }
+
+  const content = html`
+    ${error ? html`<div class="error-banner">${error}</div>` : ''}
+
+    <div class="mb-6">
+      <a href="/dashboard" class="text-blue-600">← Back to Dashboard</a>
+    </div>
+
+    <div class="section">
+      <div class="section-header">Search conversations</div>
+      <div class="section-content">
+        <form method="get" action="/dashboard/search" style="display: grid; gap: 0.75rem;">
+          <input
+            type="search"
+            name="q"
+            value="${q}"
+            placeholder='Search prompts, responses and tool calls, e.g. "connection refused" -test'
+            autofocus
+            style="width: 100%; padding: 0.5rem; border: 1px solid #d1d5db; border-radius: 0.25rem;"
+          />
+          <div style="display: flex; gap: 0.75rem; flex-wrap: wrap; align-items: center;">
+            <select name="projectId">
+              <option value="">All Projects</option>
+              ${raw(
+                trainIds
+                  .map(
+                    d =>
+                      `<option value="${escapeHtml(d.projectId)}" ${projectId === d.projectId ? 'selected' : ''}>${escapeHtml(d.projectId)}</option>`
+                  )
+                  .join('')
+              )}
+            </select>
+            <input type="text" name="model" value="${model}" placeholder="Model or prefix" />
+            <label class="text-sm text-gray-600"
+              >From <input type="date" name="dateFrom" value="${dateFrom}"
+            /></label>
+            <label class="text-sm text-gray-600"
+              >To <input type="date" name="dateTo" value="${dateTo}"
+            /></label>
+            <button type="submit" class="btn">Search</button>
+          </div>
+        </form>
+      </div>
+    </div>
+
+    ${q
+      ? html`
+          <div class="section">
+            <div class="section-header">
+              Results
+              <span class="text-sm text-gray-500" style="margin-left: 0.5rem;"
+                >Page ${page}${results.length === 0 ? ' · no matches' : ''}</span
+              >
+            </div>
+            <div class="section-content">
+              ${raw(results.map(renderResult).join(''))}
+              <div style="display: flex; justify-content: space-between; margin-top: 1rem;">
+                ${page > 1
+                  ? html`<a href="${pageUrl(page - 1)}" class="btn btn-secondary">← Previous</a>`
+                  : html`<span></span>`}
+                ${hasMore
+                  ? html`<a href="${pageUrl(page + 1)}" class="btn btn-secondary">Next →</a>`
+                  : ''}
+              </div>
+            </div>
+          </div>
+        `
+      : ''}
+  `
+
+  return c.html(layout('Search', content, '', c))
+})
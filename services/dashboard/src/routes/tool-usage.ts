@@ -0,0 +1,301 @@
+import { Hono } from 'hono'
+import { html, raw } from 'hono/html'
+import {
+  getErrorMessage,
+  type ToolUsageReport,
+  type ToolUsageSummary,
+} from '@agent-prompttrain/shared'
+import { ProxyApiClient } from '../services/api-client.js'
+import { escapeHtml } from '../utils/formatters.js'
+import { layout } from '../layout/index.js'
+import { logger } from '../middleware/logger.js'
+import type { AuthContext } from '../middleware/auth.js'
+
+export const toolUsageRoutes = new Hono<{
+  Variables: {
+    apiClient?: ProxyApiClient
+    auth?: AuthContext
+  }
+}>()
+
+function formatNumber(num: number): string {
+  return num.toLocaleString()
+}
+
+function formatErrorRate(errorCount: number, resultCount: number): string {
+  return resultCount > 0 ? `${((errorCount / resultCount) * 100).toFixed(1)}%` : '—'
+}
+
+/**
+ * Totals of several tools, e.g. all tools of one MCP server
+ */
+function sumTools(toolName: string, tools: ToolUsageSummary[]): ToolUsageSummary {
+  let callCount = 0
+  let resultCount = 0
+  let errorCount = 0
+  let resultTokens = 0
+  for (const tool of tools) {
+    callCount += tool.callCount
+    resultCount += tool.resultCount
+    errorCount += tool.errorCount
+    resultTokens += (tool.avgResultTokens ?? 0) * tool.resultCount
+  }
+  return {
+    toolName,
+    mcpServer: null,
+    callCount,
+    resultCount,
+    errorCount,
+    avgResultTokens: resultCount > 0 ? resultTokens / resultCount : null,
+  }
+}
+
+function renderToolRow(tool: ToolUsageSummary, label: string, style = ''): string {
+  return `
+    <tr${style ? ` style="${style}"` : ''}>
+      <td>${label}</td>
+      <td style="text-align: right;">${formatNumber(tool.callCount)}</td>
+      <td style="text-align: right;">${formatNumber(tool.resultCount)}</td>
+      <td style="text-align: right;">${formatErrorRate(tool.errorCount, tool.resultCount)}</td>
+      <td style="text-align: right;">${
+        tool.avgResultTokens === null ? '—' : formatNumber(Math.round(tool.avgResultTokens))
+      }</td>
+    </tr>
+  `
+}
+
+/**
+ * Built-in tools one per row; MCP tools under a total row for their server
+ */
+function renderToolRows(tools: ToolUsageSummary[]): string {
+  const builtIn = tools.filter(tool => !tool.mcpServer)
+  const servers = new Map<string, ToolUsageSummary[]>()
+  for (const tool of tools) {
+    if (tool.mcpServer) {
+      servers.set(tool.mcpServer, [...(servers.get(tool.mcpServer) ?? []), tool])
+    }
+  }
+
+  const serverRows = [...servers.entries()]
+    .map(([server, serverTools]) => sumTools(server, serverTools))
+    .sort((a, b) => b.callCount - a.callCount)
+    .map(server => {
+      const serverTools = servers.get(server.toolName) ?? []
+      return [
+        renderToolRow(
+          server,
+          `<strong>MCP: ${escapeHtml(server.toolName)}</strong> <span class="text-sm text-gray-500">(${serverTools.length} tools)</span>`,
+          'background: #f9fafb;'
+        ),
+        ...serverTools.map(tool =>
+          renderToolRow(
+            tool,
+            `<span style="padding-left: 1.25rem; font-family: monospace;">${escapeHtml(
+              tool.toolName.slice(`mcp__${server.toolName}__`.length)
+            )}</span>`
+          )
+        ),
+      ].join('')
+    })
+
+  return [
+    ...builtIn.map(tool =>
+      renderToolRow(
+        tool,
+        `<span style="font-family: monospace;">${escapeHtml(tool.toolName)}</span>`
+      )
+    ),
+    ...serverRows,
+  ].join('')
+}
+
+/**
+ * Tool usage page - calls per tool, error rates, result sizes, top Bash
+ * commands and most-edited files across the projects the user can read
+ */
+toolUsageRoutes.get('/tools', async c => {
+  const apiClient = c.get('apiClient')
+
+  const projectId = c.req.query('projectId') || ''
+  const user = (c.req.query('user') || '').trim()
+  const dateFrom = c.req.query('dateFrom') || ''
+  const dateTo = c.req.query('dateTo') || ''
+
+  if (!apiClient) {
+    return c.html(
+      layout(
+        'Error',
+        html`
+          <div class="error-banner">
+            <strong>Error:</strong> API client not configured. Please check your configuration.
+          </div>
+        `
+      )
+    )
+  }
+
+  let report: ToolUsageReport = { tools: [], bashCommands: [], editedFiles: [] }
+  let error: string | null = null
+  let trainIds: Array<{ projectId: string; requestCount: number }> = []
+
+  const [trainIdsResult, reportResult] = await Promise.allSettled([
+    apiClient.getTrainIds(),
+    apiClient.getToolUsage({
+      projectId: projectId || undefined,
+      user: user || undefined,
+      dateFrom: dateFrom ? new Date(`${dateFrom}T00:00:00Z`).toISOString() : undefined,
+      // Date inputs are inclusive of the whole day
+      dateTo: dateTo ? new Date(`${dateTo}T23:59:59.999Z`).toISOString() : undefined,
+    }),
+  ])
+
+  if (trainIdsResult.status === 'fulfilled') {
+    trainIds = trainIdsResult.value.trainIds ?? []
+  }
+
+  if (reportResult.status === 'fulfilled') {
+    report = reportResult.value
+  } else {
+    logger.error('Failed to load tool usage', { error: getErrorMessage(reportResult.reason) })
+    error = 'Failed to load tool usage. Check the filters and try again.'
+  }
+
+  const totalCalls = report.tools.reduce((sum, tool) => sum + tool.callCount, 0)
+  const period = dateFrom || dateTo ? `${dateFrom || '…'} – ${dateTo || 'today'}` : 'Last 7 Days'
+
+  const content = html`
+    ${error ? html`<div class="error-banner">${error}</div>` : ''}
+
+    <div class="mb-6">
+      <a href="/dashboard" class="text-blue-600">← Back to Dashboard</a>
+    </div>
+
+    <h2 style="margin: 0 0 1.5rem 0;">Tool Usage</h2>
+
+    <div class="section">
+      <div class="section-header">Filters</div>
+      <div class="section-content">
+        <form
+          method="get"
+          action="/dashboard/tools"
+          style="display: flex; gap: 0.75rem; flex-wrap: wrap; align-items: center;"
+        >
+          <select name="projectId">
+            <option value="">All Projects</option>
+            ${raw(
+              trainIds
+                .map(
+                  d =>
+                    `<option value="${escapeHtml(d.projectId)}" ${projectId === d.projectId ? 'selected' : ''}>${escapeHtml(d.projectId)}</option>`
+                )
+                .join('')
+            )}
+          </select>
+          <input type="text" name="user" value="${user}" placeholder="User email" />
+          <label class="text-sm text-gray-600"
+            >From <input type="date" name="dateFrom" value="${dateFrom}"
+          /></label>
+          <label class="text-sm text-gray-600"
+            >To <input type="date" name="dateTo" value="${dateTo}"
+          /></label>
+          <button type="submit" class="btn">Apply</button>
+        </form>
+      </div>
+    </div>
+
+    <div class="section">
+      <div class="section-header">
+        Tools - ${period}
+        <span class="text-sm text-gray-500"
+          >(${projectId || 'All Projects'} · ${formatNumber(totalCalls)} calls)</span
+        >
+      </div>
+      <div class="section-content" style="overflow-x: auto;">
+        ${report.tools.length === 0
+          ? html`<p class="text-gray-500">No tool calls in this period.</p>`
+          : html`
+              <table>
+                <thead>
+                  <tr>
+                    <th>Tool</th>
+                    <th style="text-align: right;">Calls</th>
+                    <th style="text-align: right;">Results</th>
+                    <th style="text-align: right;">Error Rate</th>
+                    <th style="text-align: right;">Avg Result Tokens</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${raw(renderToolRows(report.tools))}
+                </tbody>
+              </table>
+            `}
+      </div>
+    </div>
+
+    <div class="section">
+      <div class="section-header">Top Bash Commands</div>
+      <div class="section-content" style="overflow-x: auto;">
+        ${report.bashCommands.length === 0
+          ? html`<p class="text-gray-500">No Bash commands in this period.</p>`
+          : html`
+              <table>
+                <thead>
+                  <tr>
+                    <th>Command</th>
+                    <th style="text-align: right;">Calls</th>
+                    <th style="text-align: right;">Errors</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${report.bashCommands.map(
+                    command => html`
+                      <tr>
+                        <td style="font-family: monospace;">${command.command}</td>
+                        <td style="text-align: right;">${formatNumber(command.callCount)}</td>
+                        <td style="text-align: right;">${formatNumber(command.errorCount)}</td>
+                      </tr>
+                    `
+                  )}
+                </tbody>
+              </table>
+            `}
+      </div>
+    </div>
+
+    <div class="section">
+      <div class="section-header">Most-Edited Files</div>
+      <div class="section-content" style="overflow-x: auto;">
+        ${report.editedFiles.length === 0
+          ? html`<p class="text-gray-500">No file edits in this period.</p>`
+          : html`
+              <table>
+                <thead>
+                  <tr>
+                    <th>File</th>
+                    <th style="text-align: right;">Edits</th>
+                    <th style="text-align: right;">Conversations</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${report.editedFiles.map(
+                    file => html`
+                      <tr>
+                        <td style="font-family: monospace; word-break: break-all;">
+                          ${file.filePath}
+                        </td>
+                        <td style="text-align: right;">${formatNumber(file.editCount)}</td>
+                        <td style="text-align: right;">
+                          ${formatNumber(file.conversationCount)}
+                        </td>
+                      </tr>
+                    `
+                  )}
+                </tbody>
+              </table>
+            `}
+      </div>
+    </div>
+  `
+
+  return c.html(layout('Tool Usage', content, '', c))
+})
@@ -0,0 +1,110 @@
+import type { KeyObject } from 'crypto'
+import {
+  getAlbOidcIssuer,
+  getAlbOidcKeysFile,
+  getAlbOidcRegion,
+  getAlbOidcSignerArn,
+} from '../config.js'
+import {
+  JwtVerificationError,
+  loadPublicKeyFile,
+  toPublicKey,
+  verifyJwt,
+  type JwtClaims,
+  type JwtHeader,
+} from '../utils/jwt.js'
+import { logger } from '../middleware/logger.js'
+
+const KEY_FETCH_TIMEOUT_MS = 5000
+// ALB key IDs are UUIDs; anything else never reaches the key endpoint
+const KEY_ID_PATTERN = /^[A-Za-z0-9-]{1,128}$/
+const MAX_CACHED_KEYS = 100
+
+/**
+ * Signing keys of the ALB, by key ID. A key ID always refers to the same key,
+ * so fetched keys are kept for the life of the process.
+ */
+const keyCache = new Map<string, KeyObject>()
+let fileKeys: { path: string; keys: Map<string, KeyObject> } | undefined
+
+async function fetchAlbPublicKey(region: string, kid: string): Promise<KeyObject | null> {
+  const url = `https://public-keys.auth.elb.${region}.amazonaws.com/${kid}`
+  const response = await fetch(url, { signal: AbortSignal.timeout(KEY_FETCH_TIMEOUT_MS) })
+  if (!response.ok) {
+    logger.warn('Failed to fetch ALB OIDC public key', {
+      metadata: { kid, region, status: response.status },
+    })
+    return null
+  }
+  return toPublicKey(await response.text())
+}
+
+async function getAlbPublicKey(header: JwtHeader): Promise<KeyObject | null> {
+  const kid = header.kid
+  if (!kid || !KEY_ID_PATTERN.test(kid)) {
+    return null
+  }
+
+  const keysFile = getAlbOidcKeysFile()
+  if (keysFile) {
+    if (fileKeys?.path !== keysFile) {
+      fileKeys = { path: keysFile, keys: loadPublicKeyFile(keysFile) }
+    }
+    return fileKeys.keys.get(kid) ?? null
+  }
+
+  const cached = keyCache.get(kid)
+  if (cached) {
+    return cached
+  }
+
+  const region = getAlbOidcRegion()
+  if (!region) {
+    logger.error(
+      'ALB OIDC is enabled but neither DASHBOARD_ALB_OIDC_REGION (or AWS_REGION) nor DASHBOARD_ALB_OIDC_KEYS_FILE is set'
+    )
+    return null
+  }
+
+  const key = await fetchAlbPublicKey(region, kid)
+  if (key) {
+    if (keyCache.size >= MAX_CACHED_KEYS) {
+      keyCache.delete(keyCache.keys().next().value as string)
+    }
+    keyCache.set(kid, key)
+  }
+  return key
+}
+
+/**
+ * Clear cached ALB keys (tests, or after changing DASHBOARD_ALB_OIDC_KEYS_FILE contents)
+ */
+export function resetAlbOidcKeys(): void {
+  keyCache.clear()
+  fileKeys = undefined
+}
+
+/**
+ * Verify the x-amzn-oidc-data JWT set by an AWS ALB: ES256 signature against the
+ * ALB public key, expiry, the configured signer ARN and the optional issuer
+ *
+ * @returns The user claims
+ * @throws JwtVerificationError when the token is not valid
+ */
+export async function verifyAlbOidcData(token: string, now = new Date()): Promise<JwtClaims> {
+  const signerArn = getAlbOidcSignerArn()
+
+  return verifyJwt(token, {
+    algorithms: ['ES256'],
+    issuer: getAlbOidcIssuer(),
+    now,
+    getKey: async header => {
+      if (header.signer !== signerArn) {
+        throw new JwtVerificationError(
+          `JWT was signed by an unexpected load balancer: ${String(header.signer)}`
+        )
+      }
+      return getAlbPublicKey(header)
+    },
+  })
+}
@@ -1,5 +1,5 @@
 import { logger } from '../middleware/logger.js'
-import { getErrorMessage, OAuthUsageDisplay } from '@agent-prompttrain/shared'
+import { getErrorMessage, OAuthUsageDisplay, type ToolUsageReport } from '@agent-prompttrain/shared'
 import { HttpError } from '../errors/HttpError.js'
 
 interface StatsResponse {
@@ -107,6 +107,7 @@ interface ConversationSummary {
   conversationId: string
   trainIds: string[]
   accountIds: string[]
+  userEmails?: string[]
   // Backward compatibility - deprecated
   projectId: string
   accountId?: string
@@ -130,21 +131,67 @@ interface ConversationSummary {
   isPrivate?: boolean
 }
 
+/** Per-user usage as returned by /api/usage/users (dates serialized) */
+export interface UserUsageSummary {
+  userEmail: string | null
+  requestCount: number
+  conversationCount: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  estimatedCostUsd: number
+  lastRequestAt: string | null
+}
+
+export interface SearchResult {
+  requestId: string
+  conversationId: string | null
+  branchId: string
+  projectId: string
+  model: string
+  timestamp: string
+  rank: number
+  /** Snippet text, with `match` set on the segments matching the query */
+  snippet: Array<{ text: string; match: boolean }>
+}
+
+interface SearchResponse {
+  query: string
+  results: SearchResult[]
+  pagination: {
+    limit: number
+    offset: number
+    hasMore: boolean
+  }
+}
+
 /**
  * API client for communicating with the Proxy service
  */
 export class ProxyApiClient {
   private baseUrl: string
   private apiKey: string | undefined
+  private principal: string | undefined
 
-  constructor(baseUrl?: string, apiKey?: string) {
+  constructor(baseUrl?: string, apiKey?: string, principal?: string) {
     this.baseUrl = baseUrl || process.env.PROXY_API_URL || 'http://localhost:3000'
     this.apiKey = apiKey || process.env.DASHBOARD_API_KEY || process.env.INTERNAL_API_KEY
+    this.principal = principal
+  }
+
+  /**
+   * A client acting for a signed-in user: every request carries X-Auth-Principal,
+   * so the proxy applies the user's project roles
+   */
+  forPrincipal(principal: string): ProxyApiClient {
+    return new ProxyApiClient(this.baseUrl, this.apiKey, principal)
   }
 
   private getHeaders(extraHeaders?: Record<string, string>): Record<string, string> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
+      ...(this.principal ? { 'X-Auth-Principal': this.principal } : {}),
       ...extraHeaders,
     }
 
@@ -192,6 +239,7 @@ export class ProxyApiClient {
    */
   async getRequests(params?: {
     projectId?: string
+    tag?: string // Tag on the request, its branch or its conversation
     limit?: number
     offset?: number
   }): Promise<RequestsResponse> {
@@ -200,6 +248,9 @@ export class ProxyApiClient {
       if (params?.projectId) {
         url.searchParams.set('projectId', params.projectId)
       }
+      if (params?.tag) {
+        url.searchParams.set('tag', params.tag)
+      }
       if (params?.limit) {
         url.searchParams.set('limit', params.limit.toString())
       }
@@ -662,6 +713,8 @@ export class ProxyApiClient {
   async getConversations(params?: {
     projectId?: string
     accountId?: string
+    user?: string // Attributed user of the requests
+    tag?: string // Tag anywhere in the conversation
     limit?: number
     offset?: number
     dateFrom?: string
@@ -686,6 +739,12 @@ export class ProxyApiClient {
       if (params?.accountId) {
         url.searchParams.set('accountId', params.accountId)
       }
+      if (params?.user) {
+        url.searchParams.set('user', params.user)
+      }
+      if (params?.tag) {
+        url.searchParams.set('tag', params.tag)
+      }
       if (params?.limit) {
         url.searchParams.set('limit', params.limit.toString())
       }
@@ -727,6 +786,56 @@ export class ProxyApiClient {
     }
   }
 
+  /**
+   * Full-text search over stored requests
+   */
+  async searchRequests(params: {
+    q: string
+    projectId?: string
+    model?: string
+    dateFrom?: string
+    dateTo?: string
+    limit?: number
+    offset?: number
+    userEmail?: string
+  }): Promise<SearchResponse> {
+    const url = new URL('/api/search', this.baseUrl)
+    url.searchParams.set('q', params.q)
+    if (params.projectId) {
+      url.searchParams.set('projectId', params.projectId)
+    }
+    if (params.model) {
+      url.searchParams.set('model', params.model)
+    }
+    if (params.dateFrom) {
+      url.searchParams.set('dateFrom', params.dateFrom)
+    }
+    if (params.dateTo) {
+      url.searchParams.set('dateTo', params.dateTo)
+    }
+    if (params.limit) {
+      url.searchParams.set('limit', params.limit.toString())
+    }
+    if (params.offset) {
+      url.searchParams.set('offset', params.offset.toString())
+    }
+
+    const headers: Record<string, string> = {}
+    // Pass the authenticated user email in the header for privacy filtering
+    if (params.userEmail) {
+      headers['X-Auth-Principal'] = params.userEmail
+    }
+
+    const response = await fetch(url.toString(), {
+      headers: this.getHeaders(headers),
+    })
+    if (!response.ok) {
+      throw await HttpError.fromResponse(response)
+    }
+
+    return (await response.json()) as SearchResponse
+  }
+
   /**
    * Get aggregated dashboard statistics
    */
@@ -852,6 +961,84 @@ export class ProxyApiClient {
     }
   }
 
+  /**
+   * Get requests, tokens and estimated cost per attributed user
+   */
+  async getUserUsage(params?: {
+    days?: number
+    projectId?: string
+    user?: string
+  }): Promise<{ users: UserUsageSummary[] }> {
+    try {
+      const url = new URL('/api/usage/users', this.baseUrl)
+      if (params?.days) {
+        url.searchParams.set('days', params.days.toString())
+      }
+      if (params?.projectId) {
+        url.searchParams.set('projectId', params.projectId)
+      }
+      if (params?.user) {
+        url.searchParams.set('user', params.user)
+      }
+
+      const response = await fetch(url.toString(), {
+        headers: this.getHeaders(),
+      })
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} ${response.statusText}`)
+      }
+
+      return (await response.json()) as { users: UserUsageSummary[] }
+    } catch (error) {
+      logger.error('Failed to fetch per-user usage from proxy API', {
+        error: getErrorMessage(error),
+        params,
+      })
+      throw error
+    }
+  }
+
+  /**
+   * Get tool calls per tool, top Bash commands and most-edited files
+   */
+  async getToolUsage(params?: {
+    projectId?: string
+    user?: string
+    dateFrom?: string
+    dateTo?: string
+  }): Promise<ToolUsageReport> {
+    try {
+      const url = new URL('/api/usage/tools', this.baseUrl)
+      if (params?.projectId) {
+        url.searchParams.set('projectId', params.projectId)
+      }
+      if (params?.user) {
+        url.searchParams.set('user', params.user)
+      }
+      if (params?.dateFrom) {
+        url.searchParams.set('dateFrom', params.dateFrom)
+      }
+      if (params?.dateTo) {
+        url.searchParams.set('dateTo', params.dateTo)
+      }
+
+      const response = await fetch(url.toString(), {
+        headers: this.getHeaders(),
+      })
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} ${response.statusText}`)
+      }
+
+      return (await response.json()) as ToolUsageReport
+    } catch (error) {
+      logger.error('Failed to fetch tool usage from proxy API', {
+        error: getErrorMessage(error),
+        params,
+      })
+      throw error
+    }
+  }
+
   /**
    * Get OAuth usage from Anthropic API for an account
    */
@@ -893,6 +1080,80 @@ export class ProxyApiClient {
     }
   }
 
+  /**
+   * Open the proxy's live event stream (server-sent events).
+   * The caller owns the returned response body and should abort via `signal`.
+   */
+  async openLiveEventStream(params: {
+    projectId?: string
+    conversationId?: string
+    userEmail?: string
+    signal?: AbortSignal
+  }): Promise<Response> {
+    const url = new URL('/api/events', this.baseUrl)
+    if (params.projectId) {
+      url.searchParams.set('projectId', params.projectId)
+    }
+    if (params.conversationId) {
+      url.searchParams.set('conversationId', params.conversationId)
+    }
+
+    const headers: Record<string, string> = { Accept: 'text/event-stream' }
+    // Pass the authenticated user email in the header for privacy filtering
+    if (params.userEmail) {
+      headers['X-Auth-Principal'] = params.userEmail
+    }
+
+    const response = await fetch(url.toString(), {
+      headers: this.getHeaders(headers),
+      signal: params.signal,
+    })
+    if (!response.ok || !response.body) {
+      throw await HttpError.fromResponse(response)
+    }
+
+    return response
+  }
+
+  /**
+   * Download a conversation branch export (markdown, json or jsonl).
+   * The caller relays the returned response body.
+   */
+  async exportConversation(
+    conversationId: string,
+    params: {
+      branch?: string
+      format?: string
+      userEmail?: string
+    }
+  ): Promise<Response> {
+    const url = new URL(
+      `/api/conversations/${encodeURIComponent(conversationId)}/export`,
+      this.baseUrl
+    )
+    if (params.branch) {
+      url.searchParams.set('branch', params.branch)
+    }
+    if (params.format) {
+      url.searchParams.set('format', params.format)
+    }
+
+    const headers: Record<string, string> = {}
+    // Pass the authenticated user email in the header for privacy filtering
+    if (params.userEmail) {
+      headers['X-Auth-Principal'] = params.userEmail
+    }
+
+    const response = await fetch(url.toString(), {
+      headers: this.getHeaders(headers),
+    })
+    if (!response.ok) {
+      throw await HttpError.fromResponse(response)
+    }
+
+    return response
+  }
+
   /**
    * Convert API response to dashboard format for backward compatibility
    */
@@ -0,0 +1,265 @@
+import { createHash, randomBytes, type JsonWebKey, type KeyObject } from 'crypto'
+import type { OidcLoginConfig } from '../config.js'
+import {
+  JwtVerificationError,
+  loadPublicKeyFile,
+  toPublicKey,
+  verifyJwt,
+  type JwtClaims,
+  type JwtHeader,
+} from '../utils/jwt.js'
+
+/**
+ * Native OIDC login for the dashboard: authorization code flow with PKCE against
+ * any OpenID Connect issuer, so no oauth2-proxy is needed in front.
+ */
+
+const FETCH_TIMEOUT_MS = 5000
+const DISCOVERY_TTL_MS = 60 * 60 * 1000
+// Unknown key IDs trigger a JWKS refresh (key rotation), at most this often
+const JWKS_REFRESH_INTERVAL_MS = 60 * 1000
+
+export const OIDC_SESSION_COOKIE = 'dashboard_session'
+export const OIDC_LOGIN_COOKIE = 'dashboard_oidc_login'
+
+interface OidcProviderMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri?: string
+  end_session_endpoint?: string
+}
+
+/** State kept in a short-lived cookie between the login redirect and the callback */
+export interface OidcLoginState {
+  state: string
+  nonce: string
+  codeVerifier: string
+  returnTo: string
+}
+
+export interface OidcSession {
+  email: string
+  /** Expiry, in seconds since the epoch */
+  exp: number
+}
+
+let discoveryCache: { issuer: string; metadata: OidcProviderMetadata; fetchedAt: number } | null =
+  null
+let jwksCache: { uri: string; keys: Map<string, KeyObject>; fetchedAt: number } | null = null
+let fileKeys: { path: string; keys: Map<string, KeyObject> } | undefined
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) })
+  if (!response.ok) {
+    throw new Error(`${init?.method ?? 'GET'} ${url} failed with status ${response.status}`)
+  }
+  return (await response.json()) as T
+}
+
+/**
+ * The issuer's discovery document, cached for an hour
+ */
+export async function getOidcProviderMetadata(
+  config: OidcLoginConfig
+): Promise<OidcProviderMetadata> {
+  if (
+    discoveryCache?.issuer === config.issuer &&
+    Date.now() - discoveryCache.fetchedAt < DISCOVERY_TTL_MS
+  ) {
+    return discoveryCache.metadata
+  }
+
+  const metadata = await fetchJson<OidcProviderMetadata>(
+    `${config.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`
+  )
+  if (metadata.issuer !== config.issuer) {
+    throw new Error(
+      `OIDC discovery issuer ${metadata.issuer} does not match DASHBOARD_OIDC_ISSUER ${config.issuer}`
+    )
+  }
+
+  discoveryCache = { issuer: config.issuer, metadata, fetchedAt: Date.now() }
+  return metadata
+}
+
+async function getSigningKey(
+  config: OidcLoginConfig,
+  metadata: OidcProviderMetadata,
+  header: JwtHeader
+): Promise<KeyObject | null> {
+  if (config.keysFile) {
+    if (fileKeys?.path !== config.keysFile) {
+      fileKeys = { path: config.keysFile, keys: loadPublicKeyFile(config.keysFile) }
+    }
+    return pickKey(fileKeys.keys, header.kid)
+  }
+
+  if (!metadata.jwks_uri) {
+    throw new Error('OIDC issuer has no jwks_uri; set DASHBOARD_OIDC_KEYS_FILE')
+  }
+
+  if (jwksCache?.uri === metadata.jwks_uri) {
+    const known = pickKey(jwksCache.keys, header.kid)
+    if (known || Date.now() - jwksCache.fetchedAt < JWKS_REFRESH_INTERVAL_MS) {
+      return known
+    }
+  }
+
+  const jwks = await fetchJson<{ keys: Array<JsonWebKey & { kid?: string; use?: string }> }>(
+    metadata.jwks_uri
+  )
+  const keys = new Map<string, KeyObject>()
+  for (const jwk of jwks.keys ?? []) {
+    if (jwk.use && jwk.use !== 'sig') {
+      continue
+    }
+    try {
+      keys.set(jwk.kid ?? '', toPublicKey(jwk))
+    } catch {
+      // Skip key types this runtime cannot import
+    }
+  }
+  jwksCache = { uri: metadata.jwks_uri, keys, fetchedAt: Date.now() }
+  return pickKey(keys, header.kid)
+}
+
+function pickKey(keys: Map<string, KeyObject>, kid: string | undefined): KeyObject | null {
+  if (kid !== undefined) {
+    return keys.get(kid) ?? null
+  }
+  // Tokens without a key ID are only accepted from single-key sets
+  return keys.size === 1 ? [...keys.values()][0] : null
+}
+
+/**
+ * Clear cached discovery documents and keys (tests)
+ */
+export function resetOidcLoginCache(): void {
+  discoveryCache = null
+  jwksCache = null
+  fileKeys = undefined
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+/**
+ * Build the authorization request the login route redirects to
+ */
+export async function createAuthorizationRequest(
+  config: OidcLoginConfig,
+  redirectUri: string,
+  returnTo: string
+): Promise<{ url: string; loginState: OidcLoginState }> {
+  const metadata = await getOidcProviderMetadata(config)
+  const loginState: OidcLoginState = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    returnTo,
+  }
+
+  const url = new URL(metadata.authorization_endpoint)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', config.clientId)
+  url.searchParams.set('redirect_uri', redirectUri)
+  url.searchParams.set('scope', config.scopes)
+  url.searchParams.set('state', loginState.state)
+  url.searchParams.set('nonce', loginState.nonce)
+  url.searchParams.set(
+    'code_challenge',
+    createHash('sha256').update(loginState.codeVerifier).digest('base64url')
+  )
+  url.searchParams.set('code_challenge_method', 'S256')
+
+  return { url: url.toString(), loginState }
+}
+
+/**
+ * Exchange the callback's authorization code for tokens and verify the ID token
+ *
+ * @returns The ID token claims
+ * @throws JwtVerificationError when the ID token is not valid for this login
+ */
+export async function completeAuthorization(
+  config: OidcLoginConfig,
+  code: string,
+  redirectUri: string,
+  loginState: OidcLoginState
+): Promise<JwtClaims> {
+  const metadata = await getOidcProviderMetadata(config)
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: loginState.codeVerifier,
+  })
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  }
+  if (config.clientSecret) {
+    // client_secret_basic, the default token endpoint auth method
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+  } else {
+    body.set('client_id', config.clientId)
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers,
+    body,
+  })
+  if (!tokens.id_token) {
+    throw new JwtVerificationError('Token response has no id_token')
+  }
+
+  const claims = await verifyJwt(tokens.id_token, {
+    issuer: config.issuer,
+    audience: config.clientId,
+    getKey: header => getSigningKey(config, metadata, header),
+  })
+  if (claims.nonce !== loginState.nonce) {
+    throw new JwtVerificationError('ID token nonce does not match the login request')
+  }
+  return claims
+}
+
+/**
+ * The signed-in principal from ID token claims: the email, when present and not
+ * explicitly unverified
+ */
+export function principalFromClaims(claims: JwtClaims): string | null {
+  if (typeof claims.email !== 'string' || !claims.email || claims.email_verified === false) {
+    return null
+  }
+  return claims.email.trim()
+}
+
+/**
+ * Only same-origin paths are allowed as post-login destinations
+ */
+export function safeReturnTo(value: string | undefined): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.includes('\\')
+    ? value
+    : '/dashboard'
+}
+
+export function encodeCookieValue(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+export function decodeCookieValue<T>(value: string | false | undefined): T | null {
+  if (!value) {
+    return null
+  }
+  try {
+    return JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as T
+  } catch {
+    return null
+  }
+}
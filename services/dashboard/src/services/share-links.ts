@@ -0,0 +1,92 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * Signed conversation share links.
+ *
+ * A link token is `<share id>.<expiry in unix seconds>.<HMAC-SHA256 signature>`,
+ * so forged, altered or expired links are rejected before the database is
+ * read. The conversation_shares row stays the source of truth for expiry and
+ * revocation.
+ */
+
+const SHARE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Placeholder for tool result content in shares created with tool results hidden */
+export const HIDDEN_TOOL_RESULT = '[tool result hidden]'
+
+export interface ShareTokenClaims {
+  shareId: string
+  expiresAt: Date
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+/**
+ * Create the link token for a share
+ */
+export function createShareToken(shareId: string, expiresAt: Date, secret: string): string {
+  const payload = `${shareId}.${Math.floor(expiresAt.getTime() / 1000)}`
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * Path of the public page for a share
+ */
+export function getSharePath(shareId: string, expiresAt: Date, secret: string): string {
+  return `/public/share/${createShareToken(shareId, expiresAt, secret)}`
+}
+
+/**
+ * Verify a link token's signature and expiry
+ *
+ * @returns The share ID and expiry, or null for invalid or expired tokens
+ */
+export function verifyShareToken(
+  token: string,
+  secret: string,
+  now: Date = new Date()
+): ShareTokenClaims | null {
+  const [shareId, expiry, signature, ...rest] = token.split('.')
+  if (rest.length > 0 || !signature || !SHARE_ID_PATTERN.test(shareId) || !/^\d+$/.test(expiry)) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(`${shareId}.${expiry}`, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  const expiresAt = new Date(Number(expiry) * 1000)
+  if (expiresAt <= now) {
+    return null
+  }
+
+  return { shareId, expiresAt }
+}
+
+/**
+ * Copy of a request body with the content of every tool result replaced by a placeholder
+ */
+export function hideToolResults<T>(body: T): T {
+  const request = body as { messages?: Array<{ content?: unknown }> } | null
+  if (!request || !Array.isArray(request.messages)) {
+    return body
+  }
+
+  return {
+    ...request,
+    messages: request.messages.map(message =>
+      Array.isArray(message.content)
+        ? {
+            ...message,
+            content: message.content.map(block =>
+              block?.type === 'tool_result' ? { ...block, content: HIDDEN_TOOL_RESULT } : block
+            ),
+          }
+        : message
+    ),
+  } as T
+}
@@ -1,7 +1,12 @@
 import { Pool } from 'pg'
 import NodeCache from 'node-cache'
 import { logger } from '../middleware/logger.js'
-import { getErrorMessage } from '@agent-prompttrain/shared'
+import {
+  getErrorMessage,
+  getProjectPermissionFilter,
+  type AppliedTransform,
+  type RedactionCounts,
+} from '@agent-prompttrain/shared'
 
 interface ApiRequest {
   request_id: string
@@ -27,6 +32,10 @@ interface ApiRequest {
   body?: any
   last_message?: any
   response_body?: any
+  applied_transforms?: AppliedTransform[] | null
+  requested_model?: string | null
+  routing_reason?: string | null
+  redactions?: RedactionCounts | null
 }
 
 interface RequestDetails {
@@ -146,13 +155,13 @@ export class StorageReader {
            JOIN projects p ON ar.project_id = p.project_id
            LEFT JOIN project_members pm ON p.id = pm.project_id AND LOWER(pm.user_email) = LOWER($3)
            WHERE ar.project_id = $1
-           AND (p.is_private = false OR pm.user_email IS NOT NULL)
+           AND ${getProjectPermissionFilter('conversations.read', '$3')}
            ORDER BY ar.timestamp DESC
            LIMIT $2`
         : `SELECT ar.* FROM api_requests ar
            JOIN projects p ON ar.project_id = p.project_id
            LEFT JOIN project_members pm ON p.id = pm.project_id AND LOWER(pm.user_email) = LOWER($2)
-           WHERE (p.is_private = false OR pm.user_email IS NOT NULL)
+           WHERE ${getProjectPermissionFilter('conversations.read', '$2')}
            ORDER BY ar.timestamp DESC
            LIMIT $1`
 
@@ -216,7 +225,8 @@ export class StorageReader {
         SELECT
           request_id, project_id, timestamp, model, input_tokens, output_tokens,
           total_tokens, duration_ms, error, request_type, tool_call_count,
-          conversation_id, branch_id, parent_request_id, body, response_body
+          conversation_id, branch_id, parent_request_id, body, response_body,
+          applied_transforms, requested_model, routing_reason, redactions
         FROM api_requests
         WHERE request_id = $1
       `
@@ -246,6 +256,10 @@ export class StorageReader {
         conversation_id: row.conversation_id,
         branch_id: row.branch_id,
         parent_request_id: row.parent_request_id,
+        applied_transforms: row.applied_transforms,
+        requested_model: row.requested_model,
+        routing_reason: row.routing_reason,
+        redactions: row.redactions,
       }
 
       const details: RequestDetails = {
@@ -415,7 +429,7 @@ export class StorageReader {
            JOIN projects p ON ar.project_id = p.project_id
            LEFT JOIN project_members pm ON p.id = pm.project_id AND LOWER(pm.user_email) = LOWER($3)
            WHERE ar.project_id = $1 AND ar.conversation_id IS NOT NULL
-           AND (p.is_private = false OR pm.user_email IS NOT NULL)
+           AND ${getProjectPermissionFilter('conversations.read', '$3')}
            GROUP BY ar.conversation_id
            ORDER BY MAX(ar.timestamp) DESC
            LIMIT $2`
@@ -433,7 +447,7 @@ export class StorageReader {
            JOIN projects p ON ar.project_id = p.project_id
            LEFT JOIN project_members pm ON p.id = pm.project_id AND LOWER(pm.user_email) = LOWER($2)
            WHERE ar.conversation_id IS NOT NULL
-           AND (p.is_private = false OR pm.user_email IS NOT NULL)
+           AND ${getProjectPermissionFilter('conversations.read', '$2')}
            GROUP BY ar.conversation_id
            ORDER BY MAX(ar.timestamp) DESC
            LIMIT $1`
@@ -788,7 +802,7 @@ export class StorageReader {
              JOIN projects p ON ar.project_id = p.project_id
              LEFT JOIN project_members pm ON p.id = pm.project_id AND LOWER(pm.user_email) = LOWER($3)
              WHERE ar.project_id = $1
-             AND (p.is_private = false OR pm.user_email IS NOT NULL)
+             AND ${getProjectPermissionFilter('conversations.read', '$3')}
            ),
            conversation_summary AS (
              SELECT
@@ -849,7 +863,7 @@ export class StorageReader {
              FROM api_requests ar
              JOIN projects p ON ar.project_id = p.project_id
              LEFT JOIN project_members pm ON p.id = pm.project_id AND LOWER(pm.user_email) = LOWER($2)
-             WHERE (p.is_private = false OR pm.user_email IS NOT NULL)
+             WHERE ${getProjectPermissionFilter('conversations.read', '$2')}
            ),
            conversation_summary AS (
              SELECT
@@ -1118,7 +1132,7 @@ export class StorageReader {
         FROM projects p
         LEFT JOIN project_members pm ON p.id = pm.project_id AND LOWER(pm.user_email) = LOWER($1)
         WHERE p.project_id = $2
-          AND (p.is_private = false OR pm.user_email IS NOT NULL)
+          AND ${getProjectPermissionFilter('conversations.read', '$1')}
         LIMIT 1
       `
 
@@ -0,0 +1,77 @@
+import type { Context } from 'hono'
+import { getProjectById, recordAuditEvent } from '@agent-prompttrain/shared/database/queries'
+import { diffAuditChanges, getErrorMessage } from '@agent-prompttrain/shared'
+import type { AuditAction, CreateAuditEventRequest, Project } from '@agent-prompttrain/shared/types'
+import { container } from '../container.js'
+import type { AuthContext } from '../middleware/auth.js'
+import { logger } from '../middleware/logger.js'
+
+export type AuditEventInput = Omit<
+  CreateAuditEventRequest,
+  'actor' | 'actor_source' | 'request_id'
+> & {
+  /** Project UUID, resolved to its project ID when project_id is not given */
+  projectUuid?: string
+}
+
+/**
+ * Record an administrative action in the audit log, attributed to the
+ * authenticated dashboard user and the current request ID.
+ *
+ * Audit failures are logged and never fail the action itself.
+ */
+export async function recordAudit(c: Context, event: AuditEventInput): Promise<void> {
+  const pool = container.getPool()
+  const auth = c.get('auth') as AuthContext | undefined
+  const requestId = c.get('requestId') as string | undefined
+  if (!pool || !auth?.isAuthenticated) {
+    return
+  }
+
+  const { projectUuid, ...rest } = event
+
+  try {
+    let projectId = rest.project_id ?? null
+    if (!projectId && projectUuid) {
+      projectId = (await getProjectById(pool, projectUuid))?.project_id ?? null
+    }
+
+    await recordAuditEvent(pool, {
+      ...rest,
+      project_id: projectId,
+      actor: auth.principal,
+      actor_source: auth.source,
+      request_id: requestId ?? null,
+    })
+  } catch (error) {
+    logger.warn('Failed to record audit event', {
+      requestId,
+      metadata: { action: event.action, error: getErrorMessage(error) },
+    })
+  }
+}
+
+/**
+ * Record a project settings change with the before/after values of `fields`.
+ * Nothing is recorded when none of them changed.
+ */
+export async function recordProjectUpdate(
+  c: Context,
+  before: Project | null,
+  after: Project,
+  fields: readonly string[],
+  action: AuditAction = 'project.updated'
+): Promise<void> {
+  const changes = diffAuditChanges(before, after, fields)
+  if (!changes) {
+    return
+  }
+
+  await recordAudit(c, {
+    action,
+    target_type: 'project',
+    target_id: after.project_id,
+    project_id: after.project_id,
+    changes,
+  })
+}
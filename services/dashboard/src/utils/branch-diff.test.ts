@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'bun:test'
+import { diffBranches, getBranchPath, type BranchDiff } from './branch-diff'
+import type { ConversationRequest } from '../types/conversation'
+
+function request(
+  id: string,
+  minute: number,
+  parent: string | undefined,
+  branch: string,
+  overrides: Partial<ConversationRequest> = {}
+): ConversationRequest {
+  return {
+    request_id: id,
+    timestamp: new Date(Date.UTC(2026, 9, 18, 12, minute)).toISOString(),
+    branch_id: branch,
+    model: 'claude-sonnet-4-5-20250929',
+    total_tokens: 150,
+    parent_request_id: parent,
+    last_message: { role: 'user', content: `prompt ${id}` },
+    response_body: {
+      content: [{ type: 'text', text: `answer ${id}` }],
+      usage: { input_tokens: 100, output_tokens: 50 },
+    },
+    ...overrides,
+  }
+}
+
+// r1 → r2 → r3 → r4 on main; r2 → b1 → b2 on branch_1
+const requests = [
+  request('r1', 0, undefined, 'main'),
+  request('r2', 1, 'r1', 'main'),
+  request('r3', 2, 'r2', 'main'),
+  request('b1', 3, 'r2', 'branch_1', {
+    last_message: { role: 'user', content: 'try another way' },
+    response_body: {
+      content: [
+        { type: 'text', text: 'Running the tests.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'bun test' } },
+      ],
+      usage: { input_tokens: 10, output_tokens: 20, cache_read_input_tokens: 1000 },
+    },
+  }),
+  request('r4', 4, 'r3', 'main'),
+  request('b2', 5, 'b1', 'branch_1', {
+    last_message: {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'ok' }],
+    },
+  }),
+]
+
+function diff(left: string, right: string, from = requests): BranchDiff {
+  const result = diffBranches(from, left, right)
+  if (!result) {
+    throw new Error(`no diff for ${left} and ${right}`)
+  }
+  return result
+}
+
+describe('getBranchPath', () => {
+  it('follows the branch tip back to the root', () => {
+    expect(getBranchPath(requests, 'branch_1').map(r => r.request_id)).toEqual([
+      'r1',
+      'r2',
+      'b1',
+      'b2',
+    ])
+    expect(getBranchPath(requests, 'main').map(r => r.request_id)).toEqual(['r1', 'r2', 'r3', 'r4'])
+  })
+
+  it('falls back to the parent message hash', () => {
+    const linkedByHash = [
+      request('a', 0, undefined, 'main', { current_message_hash: 'h1' }),
+      request('b', 1, undefined, 'main', { parent_message_hash: 'h1' }),
+    ]
+    expect(getBranchPath(linkedByHash, 'main').map(r => r.request_id)).toEqual(['a', 'b'])
+  })
+})
+
+describe('diffBranches', () => {
+  it('aligns both branches from the fork point', () => {
+    const result = diff('main', 'branch_1')
+
+    expect(result.forkRequestId).toBe('r2')
+    expect(result.shared.map(step => step.requestId)).toEqual(['r1', 'r2'])
+    expect(result.rows.map(row => [row.left?.requestId, row.right?.requestId])).toEqual([
+      ['r3', 'b1'],
+      ['r4', 'b2'],
+    ])
+
+    const [first, second] = result.rows
+    expect(first.right?.userPrompt).toBe('try another way')
+    expect(first.right?.assistantText).toBe('Running the tests.')
+    expect(first.right?.toolCalls).toEqual([{ name: 'Bash', input: '{"command":"bun test"}' }])
+    expect(second.right?.userPrompt).toBeNull()
+    expect(second.right?.toolResultCount).toBe(1)
+  })
+
+  it('totals only the requests after the fork', () => {
+    const result = diff('main', 'branch_1')
+
+    expect(result.leftTotals).toMatchObject({
+      requests: 2,
+      inputTokens: 200,
+      outputTokens: 100,
+      totalTokens: 300,
+      toolCalls: 0,
+    })
+    expect(result.rightTotals).toMatchObject({
+      requests: 2,
+      inputTokens: 1110,
+      outputTokens: 70,
+      toolCalls: 1,
+    })
+    expect(result.leftTotals.cost).toBeGreaterThan(0)
+  })
+
+  it('pads the shorter branch and rejects unknown branches', () => {
+    const short = diff('main', 'branch_1', requests.slice(0, 4))
+    expect(short.rows).toHaveLength(1)
+
+    const longer = diff('branch_1', 'main')
+    expect(longer.rows.map(row => row.left?.requestId)).toEqual(['b1', 'b2'])
+
+    const uneven = diff('main', 'branch_1', requests.slice(0, 5))
+    expect(uneven.rows[1].left?.requestId).toBe('r4')
+    expect(uneven.rows[1].right).toBeUndefined()
+
+    expect(diffBranches(requests, 'main', 'branch_9')).toBeNull()
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Branch-to-branch comparison for the conversation diff view
+ */
+
+import { calculateUsageCost, type RawUsage } from '@agent-prompttrain/shared'
+import type { ConversationRequest } from '../types/conversation.js'
+
+const MAX_TEXT_LENGTH = 2000
+
+interface ContentBlock {
+  type?: string
+  text?: string
+  name?: string
+  input?: unknown
+}
+
+export interface BranchDiffToolCall {
+  name: string
+  input: string
+}
+
+/** One request on a branch path. Input tokens include cache reads and writes. */
+export interface BranchDiffStep {
+  requestId: string
+  timestamp: string
+  branchId: string
+  model: string
+  userPrompt: string | null
+  toolResultCount: number
+  assistantText: string | null
+  toolCalls: BranchDiffToolCall[]
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  cost: number
+  error: boolean
+}
+
+export interface BranchDiffTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  toolCalls: number
+  cost: number
+}
+
+export interface BranchDiffRow {
+  left?: BranchDiffStep
+  right?: BranchDiffStep
+}
+
+export interface BranchDiff {
+  left: string
+  right: string
+  /** Requests both branches share, oldest first */
+  shared: BranchDiffStep[]
+  /** The last shared request, i.e. where the branches fork (null if they share nothing) */
+  forkRequestId: string | null
+  /** Steps after the fork, paired by position */
+  rows: BranchDiffRow[]
+  leftTotals: BranchDiffTotals
+  rightTotals: BranchDiffTotals
+}
+
+function byTimestamp(a: ConversationRequest, b: ConversationRequest) {
+  return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+}
+
+/**
+ * Resolve the path of a branch: the latest request on the branch followed back
+ * to the root through parent_request_id (or the parent message hash for rows
+ * linked before parent_request_id was recorded). Returns oldest first.
+ */
+export function getBranchPath(
+  requests: ConversationRequest[],
+  branchId: string
+): ConversationRequest[] {
+  const branchRequests = requests
+    .filter(r => (r.branch_id || 'main') === branchId)
+    .sort(byTimestamp)
+  const tip = branchRequests.at(-1)
+  if (!tip) {
+    return []
+  }
+
+  const byId = new Map(requests.map(r => [r.request_id, r]))
+  const path: ConversationRequest[] = []
+  const visited = new Set<string>()
+  let current: ConversationRequest | undefined = tip
+
+  while (current && !visited.has(current.request_id)) {
+    visited.add(current.request_id)
+    path.push(current)
+
+    const child: ConversationRequest = current
+    current = child.parent_request_id ? byId.get(child.parent_request_id) : undefined
+    if (!current && child.parent_message_hash) {
+      current = requests
+        .filter(
+          r =>
+            r.current_message_hash === child.parent_message_hash &&
+            new Date(r.timestamp) < new Date(child.timestamp)
+        )
+        .sort(byTimestamp)
+        .at(-1)
+    }
+  }
+
+  return path.reverse()
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? text.substring(0, MAX_TEXT_LENGTH - 3) + '...' : text
+}
+
+function joinText(content: unknown): string | null {
+  if (typeof content === 'string') {
+    return content.trim() ? truncate(content.trim()) : null
+  }
+  if (!Array.isArray(content)) {
+    return null
+  }
+  const text = content
+    .filter(block => block?.type === 'text' && typeof block.text === 'string')
+    .map(block => block.text.trim())
+    .filter(Boolean)
+    .join('\n\n')
+  return text ? truncate(text) : null
+}
+
+/**
+ * Summarize one request for the diff: the prompt it sent (the last message of
+ * the request) and what the assistant answered, with its token usage and cost
+ */
+export function toBranchDiffStep(req: ConversationRequest): BranchDiffStep {
+  const lastMessage = req.last_message
+  const userContent = lastMessage?.role === 'user' ? lastMessage.content : undefined
+  const responseContent: ContentBlock[] = Array.isArray(req.response_body?.content)
+    ? req.response_body.content
+    : []
+  const usage = req.response_body?.usage as RawUsage | undefined
+
+  return {
+    requestId: req.request_id,
+    timestamp: req.timestamp,
+    branchId: req.branch_id || 'main',
+    model: req.model,
+    userPrompt: joinText(userContent),
+    toolResultCount: Array.isArray(userContent)
+      ? userContent.filter(block => block?.type === 'tool_result').length
+      : 0,
+    assistantText: joinText(req.response_body?.content),
+    toolCalls: responseContent
+      .filter(block => block?.type === 'tool_use')
+      .map(block => ({
+        name: block.name || 'unknown',
+        input: truncate(JSON.stringify(block.input ?? {})),
+      })),
+    inputTokens:
+      (usage?.input_tokens ?? 0) +
+      (usage?.cache_read_input_tokens ?? 0) +
+      (usage?.cache_creation_input_tokens ?? 0),
+    outputTokens: usage?.output_tokens ?? 0,
+    totalTokens: req.total_tokens || 0,
+    cost: usage ? calculateUsageCost(req.model, usage, new Date(req.timestamp)) : 0,
+    error: Boolean(req.error),
+  }
+}
+
+function sumSteps(steps: BranchDiffStep[]): BranchDiffTotals {
+  return steps.reduce(
+    (totals, step) => ({
+      requests: totals.requests + 1,
+      inputTokens: totals.inputTokens + step.inputTokens,
+      outputTokens: totals.outputTokens + step.outputTokens,
+      totalTokens: totals.totalTokens + step.totalTokens,
+      toolCalls: totals.toolCalls + step.toolCalls.length,
+      cost: totals.cost + step.cost,
+    }),
+    { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, toolCalls: 0, cost: 0 }
+  )
+}
+
+/**
+ * Compare two branches of a conversation. Both paths are resolved back to the
+ * root, the common prefix is split off as shared history, and the remaining
+ * steps are paired up from the fork point. Totals only cover the steps after
+ * the fork, since the shared history is the same on both sides.
+ *
+ * @returns null when either branch has no requests
+ */
+export function diffBranches(
+  requests: ConversationRequest[],
+  left: string,
+  right: string
+): BranchDiff | null {
+  const leftPath = getBranchPath(requests, left)
+  const rightPath = getBranchPath(requests, right)
+  if (leftPath.length === 0 || rightPath.length === 0) {
+    return null
+  }
+
+  let forkIndex = 0
+  while (
+    forkIndex < leftPath.length &&
+    forkIndex < rightPath.length &&
+    leftPath[forkIndex].request_id === rightPath[forkIndex].request_id
+  ) {
+    forkIndex++
+  }
+
+  const leftSteps = leftPath.slice(forkIndex).map(toBranchDiffStep)
+  const rightSteps = rightPath.slice(forkIndex).map(toBranchDiffStep)
+  const rows: BranchDiffRow[] = []
+  for (let i = 0; i < Math.max(leftSteps.length, rightSteps.length); i++) {
+    rows.push({ left: leftSteps[i], right: rightSteps[i] })
+  }
+
+  return {
+    left,
+    right,
+    shared: leftPath.slice(0, forkIndex).map(toBranchDiffStep),
+    forkRequestId: forkIndex > 0 ? leftPath[forkIndex - 1].request_id : null,
+    rows,
+    leftTotals: sumSteps(leftSteps),
+    rightTotals: sumSteps(rightSteps),
+  }
+}
@@ -125,4 +125,37 @@ describe('conversation parsing', () => {
     expect(systemMessage.htmlContent).toContain('<strong>honest</strong>')
     expect(systemMessage.htmlContent).toContain('<code>code blocks</code>')
   })
+
+  it('should show redaction placeholders as badges', async () => {
+    const requestData = {
+      request_body: {
+        messages: [
+          {
+            role: 'user',
+            content: 'Email me at [REDACTED:email], customer [REDACTED:customer-id]',
+          },
+        ],
+      },
+      response_body: {
+        content: 'Done',
+        role: 'assistant',
+      },
+      request_tokens: 50,
+      response_tokens: 10,
+      model: 'claude-3-opus',
+      timestamp: new Date().toISOString(),
+    }
+
+    const result = await parseConversation(requestData)
+
+    const userMessage = result.messages[0]
+    expect(userMessage.content).toBe(
+      'Email me at [REDACTED:email], customer [REDACTED:customer-id]'
+    )
+    expect(userMessage.htmlContent).toContain(
+      '<span class="badge badge-warning redacted-badge" title="Redacted email">[redacted]</span>'
+    )
+    expect(userMessage.htmlContent).toContain('title="Redacted customer-id"')
+    expect(userMessage.htmlContent).not.toContain('[REDACTED:')
+  })
 })
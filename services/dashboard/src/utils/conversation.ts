@@ -1,5 +1,6 @@
 import { marked } from 'marked'
 import sanitizeHtml from 'sanitize-html'
+import { REDACTION_PLACEHOLDER_REGEX } from '@agent-prompttrain/shared'
 import { formatDuration as formatDurationUtil } from './formatters.js'
 import { isSparkRecommendation, parseSparkRecommendation } from './spark.js'
 
@@ -43,6 +44,18 @@ export interface ConversationData {
 
 const MESSAGE_TRUNCATE_LENGTH = 300
 
+/**
+ * Shows the `[REDACTED:<kind>]` placeholders of redacted stored bodies as badges.
+ * Runs on sanitized HTML; kinds are limited to `[a-z0-9_-]`.
+ */
+function renderRedactionBadges(html: string): string {
+  return html.replace(
+    REDACTION_PLACEHOLDER_REGEX,
+    (_, kind: string) =>
+      `<span class="badge badge-warning redacted-badge" title="Redacted ${kind}">[redacted]</span>`
+  )
+}
+
 /**
  * Escapes XML/HTML tags that are not in the allowed tags list
  * so they display as text instead of being stripped by sanitize-html
@@ -555,9 +568,9 @@ async function parseMessage(
   return {
     role: msg.role,
     content,
-    htmlContent,
+    htmlContent: renderRedactionBadges(htmlContent),
     isLong,
-    truncatedHtml,
+    truncatedHtml: truncatedHtml && renderRedactionBadges(truncatedHtml),
     hiddenLineCount,
     isToolUse,
     isToolResult,
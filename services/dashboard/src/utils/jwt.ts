@@ -0,0 +1,170 @@
+import { readFileSync } from 'fs'
+import { createPublicKey, verify, type JsonWebKey, type KeyObject } from 'crypto'
+
+/**
+ * Minimal JWS (compact JWT) verification for the identity tokens the dashboard
+ * accepts: AWS ALB `x-amzn-oidc-data` headers (ES256) and OIDC ID tokens
+ * (usually RS256).
+ */
+
+export class JwtVerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JwtVerificationError'
+  }
+}
+
+export interface JwtHeader {
+  alg: string
+  kid?: string
+  [key: string]: unknown
+}
+
+export type JwtClaims = Record<string, unknown> & {
+  iss?: string
+  sub?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  iat?: number
+  email?: string
+}
+
+const ALGORITHMS: Record<string, { hash: string; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { hash: 'sha512', dsaEncoding: 'ieee-p1363' },
+}
+
+export interface VerifyJwtOptions {
+  /** Resolve the public key for the token header (by `kid`); null rejects the token */
+  getKey: (header: JwtHeader) => Promise<KeyObject | null>
+  algorithms?: readonly string[]
+  issuer?: string
+  audience?: string
+  /** Seconds of clock skew allowed for exp/nbf */
+  clockTolerance?: number
+  now?: Date
+}
+
+function decodeSegment(segment: string): Buffer {
+  // base64url, tolerating the `=` padding ALB adds
+  return Buffer.from(segment.replace(/=+$/, ''), 'base64url')
+}
+
+function parseJson<T>(segment: string, part: string): T {
+  try {
+    const value = JSON.parse(decodeSegment(segment).toString('utf8'))
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('not an object')
+    }
+    return value as T
+  } catch {
+    throw new JwtVerificationError(`Malformed JWT ${part}`)
+  }
+}
+
+/**
+ * Parse a PEM public key or a JWK into a key object
+ */
+export function toPublicKey(key: string | JsonWebKey): KeyObject {
+  return typeof key === 'string' ? createPublicKey(key) : createPublicKey({ key, format: 'jwk' })
+}
+
+/**
+ * Load public keys by key ID from a JSON file, for deployments that cannot reach
+ * the key endpoints. The file is either a JWKS (`{ "keys": [{ "kid": ... }] }`)
+ * or an object mapping key IDs to PEM public keys.
+ */
+export function loadPublicKeyFile(path: string): Map<string, KeyObject> {
+  const content = JSON.parse(readFileSync(path, 'utf-8')) as
+    | { keys: Array<JsonWebKey & { kid?: string }> }
+    | Record<string, string>
+  const keys = new Map<string, KeyObject>()
+
+  if (Array.isArray(content.keys)) {
+    for (const jwk of content.keys as Array<JsonWebKey & { kid?: string }>) {
+      if (jwk.kid) {
+        keys.set(jwk.kid, toPublicKey(jwk))
+      }
+    }
+    return keys
+  }
+
+  for (const [kid, pem] of Object.entries(content as Record<string, string>)) {
+    keys.set(kid, toPublicKey(pem))
+  }
+  return keys
+}
+
+/**
+ * Verify a compact JWT's signature and standard claims
+ *
+ * @returns The token claims
+ * @throws JwtVerificationError when the token is malformed, unsigned, expired or
+ *   does not match the expected issuer/audience
+ */
+export async function verifyJwt(token: string, options: VerifyJwtOptions): Promise<JwtClaims> {
+  const parts = token.trim().split('.')
+  if (parts.length !== 3 || parts.some(part => part.length === 0)) {
+    throw new JwtVerificationError('Malformed JWT')
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts
+
+  const header = parseJson<JwtHeader>(encodedHeader, 'header')
+  const claims = parseJson<JwtClaims>(encodedPayload, 'payload')
+
+  const allowed = options.algorithms ?? Object.keys(ALGORITHMS)
+  const algorithm = ALGORITHMS[header.alg]
+  if (!algorithm || !allowed.includes(header.alg)) {
+    throw new JwtVerificationError(`Unsupported JWT algorithm: ${String(header.alg)}`)
+  }
+
+  const key = await options.getKey(header)
+  if (!key) {
+    throw new JwtVerificationError(`No public key for JWT key ID ${header.kid ?? '(none)'}`)
+  }
+
+  let valid = false
+  try {
+    valid = verify(
+      algorithm.hash,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      algorithm.dsaEncoding ? { key, dsaEncoding: algorithm.dsaEncoding } : key,
+      decodeSegment(encodedSignature)
+    )
+  } catch {
+    valid = false
+  }
+  if (!valid) {
+    throw new JwtVerificationError('Invalid JWT signature')
+  }
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000)
+  const tolerance = options.clockTolerance ?? 60
+  if (typeof claims.exp !== 'number') {
+    throw new JwtVerificationError('JWT has no expiry')
+  }
+  if (claims.exp + tolerance <= now) {
+    throw new JwtVerificationError('JWT has expired')
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+    throw new JwtVerificationError('JWT is not valid yet')
+  }
+
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    throw new JwtVerificationError(`Unexpected JWT issuer: ${String(claims.iss)}`)
+  }
+
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (!audiences.includes(options.audience)) {
+      throw new JwtVerificationError('JWT audience does not match')
+    }
+  }
+
+  return claims
+}
@@ -5,15 +5,24 @@ import { config, validateConfig, isProxyMode, isApiMode } from '@agent-prompttra
 import { loggingMiddleware, logger } from './middleware/logger.js'
 import { requestIdMiddleware } from './middleware/request-id.js'
 import { validationMiddleware } from './middleware/validation.js'
-import { createRateLimiter, createTrainRateLimiter } from './middleware/rate-limit.js'
+import {
+  createApiKeyRateLimiter,
+  createRateLimiter,
+  createTrainRateLimiter,
+} from './middleware/rate-limit.js'
 import { createHealthRoutes } from './routes/health.js'
 import { apiRoutes } from './routes/api.js'
 import { sparkApiRoutes } from './routes/spark-api.js'
 import { analysisRoutes } from './routes/analyses.js'
+import { liveEventsRoutes } from './routes/live-events.js'
 import { initializeAnalysisRateLimiters } from './middleware/analysis-rate-limit.js'
 import { initializeSlack } from './services/slack.js'
+import { proxyMetrics } from './services/proxy-metrics.js'
+import { OPENMETRICS_CONTENT_TYPE } from './services/openmetrics.js'
 import { initializeDatabase } from './storage/writer.js'
+import { liveEventBus } from './dashboard/sse.js'
 import { apiAuthMiddleware } from './middleware/api-auth.js'
+import { projectAccessMiddleware } from './middleware/project-access.js'
 import { projectIdExtractorMiddleware } from './middleware/project-id-extractor.js'
 import { clientAuthMiddleware } from './middleware/client-auth.js'
 import { HonoVariables, HonoBindings, MSL_PROJECT_ID_HEADER_LOWER } from '@agent-prompttrain/shared'
@@ -100,6 +109,9 @@ export async function createProxyApp(): Promise<
     if (config.features.enableMetrics) {
       app.use('/v1/*', createRateLimiter())
       app.use('/v1/*', createTrainRateLimiter())
+    } else {
+      // Limits set on an API key apply without the default limiters too
+      app.use('/v1/*', createApiKeyRateLimiter())
     }
 
     // Silent OK handler for event_logging endpoints (no auth, no rate limiting)
@@ -122,6 +134,17 @@ export async function createProxyApp(): Promise<
   })
   app.route('/health', healthRoutes)
 
+  // Prometheus/OpenMetrics scrape endpoint
+  app.get('/metrics', async c => {
+    const { getRefreshMetrics } = await import('./credentials.js')
+    const body = await proxyMetrics.render({
+      pool: container.getDbPool(),
+      accountPoolState: isProxyMode() ? container.getUsageCacheService()?.stateService : undefined,
+      oauthRefresh: isProxyMode() ? getRefreshMetrics() : undefined,
+    })
+    return c.body(body, 200, { 'Content-Type': OPENMETRICS_CONTENT_TYPE })
+  })
+
   if (isProxyMode()) {
     // Token stats endpoint (proxy mode)
     app.get('/token-stats', c => {
@@ -164,6 +187,8 @@ export async function createProxyApp(): Promise<
       c.set('pool', pool)
       await next()
     })
+    // Project roles of the dashboard user, for project-scoped requests
+    app.use('/api/*', projectAccessMiddleware())
     app.route('/api', apiRoutes)
 
     // Spark API routes (protected by same auth as dashboard API)
@@ -171,6 +196,9 @@ export async function createProxyApp(): Promise<
 
     // AI Analysis routes (protected by same auth as dashboard API)
     app.route('/api/analyses', analysisRoutes)
+
+    // Live event stream for the dashboard (protected by same auth as dashboard API)
+    app.route('/api', liveEventsRoutes)
   }
 
   if (isProxyMode()) {
@@ -229,6 +257,11 @@ export async function createProxyApp(): Promise<
     app.post('/v1/messages', c => messageController.handle(c))
     app.options('/v1/messages', c => messageController.handleOptions(c))
 
+    // OpenAI-compatible endpoint, translated to /v1/messages
+    const chatCompletionsController = container.getChatCompletionsController()
+    app.post('/v1/chat/completions', c => chatCompletionsController.handle(c))
+    app.options('/v1/chat/completions', c => chatCompletionsController.handleOptions(c))
+
     // Native Bedrock Runtime API endpoints
     // These support direct Bedrock-style requests without transformation
     // Client authentication is applied for project ID tracking
@@ -241,6 +274,8 @@ export async function createProxyApp(): Promise<
     if (config.features.enableMetrics) {
       app.use('/model/*', createRateLimiter())
       app.use('/model/*', createTrainRateLimiter())
+    } else {
+      app.use('/model/*', createApiKeyRateLimiter())
     }
 
     const bedrockNativeController = container.getBedrockNativeController()
@@ -266,6 +301,7 @@ export async function createProxyApp(): Promise<
     // Add mode-specific endpoints
     if (isProxyMode()) {
       endpoints.api = '/v1/messages'
+      endpoints['openai-compatible'] = '/v1/chat/completions'
       endpoints['bedrock-native'] = {
         invoke: '/model/{modelId}/invoke',
         'invoke-stream': '/model/{modelId}/invoke-with-response-stream',
@@ -299,11 +335,13 @@ export async function createProxyApp(): Promise<
         },
         spark: '/api/spark/*',
         analyses: '/api/analyses/*',
+        'live-events': '/api/events',
       }
     }
 
     // Always available
     endpoints.health = '/health'
+    endpoints.metrics = '/metrics'
 
     return c.json({
       service: 'agent-prompttrain',
@@ -335,6 +373,9 @@ async function initializeExternalServices(): Promise<void> {
         throw error // Fatal if storage is required
       }
     }
+
+    // Fan live dashboard events out across replicas via LISTEN/NOTIFY
+    liveEventBus.attach(pool)
   }
 
   // Initialize Slack if configured
@@ -1,5 +1,6 @@
 import { Pool } from 'pg'
 import { MessageController } from './controllers/MessageController.js'
+import { ChatCompletionsController } from './controllers/ChatCompletionsController.js'
 import { GenericProxyController } from './controllers/GenericProxyController.js'
 import { BedrockNativeController } from './controllers/BedrockNativeController.js'
 import { ProxyService } from './services/ProxyService.js'
@@ -9,11 +10,14 @@ import { BedrockApiClient } from './services/BedrockApiClient.js'
 import { BedrockEmulationService } from './services/BedrockEmulationService.js'
 import { MetricsService } from './services/MetricsService.js'
 import { NotificationService } from './services/NotificationService.js'
+import { WebhookService } from './services/webhook-service.js'
 import { StorageAdapter } from './storage/StorageAdapter.js'
 import { TokenUsageService } from './services/TokenUsageService.js'
 import { config } from '@agent-prompttrain/shared/config'
 import { logger } from './middleware/logger.js'
 import { UsageCacheService } from './services/usage-cache-service.js'
+import { BudgetService } from './services/budget-service.js'
+import { ResponseCacheService } from './services/response-cache-service.js'
 
 /**
  * Dependency injection container for the proxy service
@@ -30,9 +34,12 @@ class Container {
   private bedrockEmulationService?: BedrockEmulationService
   private proxyService?: ProxyService
   private messageController?: MessageController
+  private chatCompletionsController?: ChatCompletionsController
   private genericProxyController?: GenericProxyController
   private bedrockNativeController?: BedrockNativeController
   private usageCacheService?: UsageCacheService
+  private budgetService?: BudgetService
+  private responseCacheService?: ResponseCacheService
   private initialized = false
   private initializationPromise?: Promise<void>
 
@@ -119,7 +126,10 @@ class Container {
       config.telemetry.endpoint,
       this.tokenUsageService
     )
-    this.notificationService = new NotificationService()
+    this.notificationService = new NotificationService(
+      undefined,
+      this.pool ? new WebhookService(this.pool) : undefined
+    )
 
     // AuthenticationService requires database pool
     if (!this.pool) {
@@ -136,17 +146,23 @@ class Container {
       timeout: config.api.claudeTimeout,
     })
     this.bedrockEmulationService = new BedrockEmulationService()
+    this.budgetService = new BudgetService(this.pool, this.notificationService)
+    this.responseCacheService = new ResponseCacheService(this.pool)
 
     // Wire up dependencies
     this.proxyService = new ProxyService(
       this.authenticationService,
       this.claudeApiClient,
+      this.bedrockApiClient,
       this.notificationService,
       this.metricsService,
-      this.storageService
+      this.storageService,
+      this.budgetService,
+      this.responseCacheService
     )
 
     this.messageController = new MessageController(this.proxyService)
+    this.chatCompletionsController = new ChatCompletionsController(this.proxyService)
     this.genericProxyController = new GenericProxyController(
       this.authenticationService,
       this.claudeApiClient,
@@ -213,6 +229,13 @@ class Container {
     return this.messageController
   }
 
+  getChatCompletionsController(): ChatCompletionsController {
+    if (!this.chatCompletionsController) {
+      throw new Error('ChatCompletionsController not initialized')
+    }
+    return this.chatCompletionsController
+  }
+
   getGenericProxyController(): GenericProxyController {
     if (!this.genericProxyController) {
       throw new Error('GenericProxyController not initialized')
@@ -252,9 +275,12 @@ class Container {
     this.bedrockEmulationService = undefined
     this.proxyService = undefined
     this.messageController = undefined
+    this.chatCompletionsController = undefined
     this.genericProxyController = undefined
     this.bedrockNativeController = undefined
     this.usageCacheService = undefined
+    this.budgetService = undefined
+    this.responseCacheService = undefined
   }
 }
 
@@ -310,6 +336,10 @@ class LazyContainer {
     return this.ensureInstance().getMessageController()
   }
 
+  getChatCompletionsController(): ChatCompletionsController {
+    return this.ensureInstance().getChatCompletionsController()
+  }
+
   getGenericProxyController(): GenericProxyController {
     return this.ensureInstance().getGenericProxyController()
   }
@@ -0,0 +1,189 @@
+import { Context } from 'hono'
+import { ProxyService } from '../services/ProxyService'
+import { RequestContext } from '../domain/value-objects/RequestContext'
+import {
+  ValidationError,
+  UpstreamError,
+  type ClaudeMessagesResponse,
+} from '@agent-prompttrain/shared'
+import { getRequestLogger } from '../middleware/logger'
+import { AccountPoolExhaustedError } from '../services/account-pool-service'
+import { BudgetExceededError } from '../services/budget-service'
+import {
+  createChatCompletionStream,
+  toChatCompletion,
+  toChatCompletionChunks,
+  toClaudeRequest,
+  validateChatCompletionRequest,
+} from '../services/openai-compat'
+
+/** Response headers of the proxied Claude response passed on to OpenAI clients */
+const FORWARDED_HEADERS = ['x-prompttrain-cache', 'retry-after', 'request-id', 'x-request-id']
+
+/**
+ * Controller for the OpenAI-compatible /v1/chat/completions endpoint.
+ * Requests are translated to Claude Messages and handled by the same
+ * ProxyService pipeline as /v1/messages; responses and errors are translated
+ * back to the OpenAI format.
+ */
+export class ChatCompletionsController {
+  constructor(private proxyService: ProxyService) {}
+
+  /**
+   * Handle POST /v1/chat/completions
+   */
+  async handle(c: Context): Promise<Response> {
+    const logger = getRequestLogger(c)
+    const requestContext = RequestContext.fromHono(c)
+    let model: string | undefined
+    let streaming = false
+
+    try {
+      const body = await c.req.json().catch(() => {
+        throw new ValidationError('Request body must be valid JSON')
+      })
+      validateChatCompletionRequest(body)
+      model = body.model
+      streaming = body.stream === true
+      const includeUsage = body.stream_options?.include_usage === true
+
+      const claudeRequest = toClaudeRequest(body)
+
+      logger.debug('Processing chat completion request', {
+        model: claudeRequest.model,
+        messageCount: claudeRequest.messages.length,
+        streaming,
+        toolCount: claudeRequest.tools?.length ?? 0,
+      })
+
+      const response = await this.proxyService.handleRequest(claudeRequest, requestContext)
+
+      const headers = new Headers()
+      for (const name of FORWARDED_HEADERS) {
+        const value = response.headers.get(name)
+        if (value) {
+          headers.set(name, value)
+        }
+      }
+      headers.set('Access-Control-Allow-Origin', '*')
+
+      if (!response.ok) {
+        const errorBody = (await response.json().catch(() => null)) as {
+          error?: { type?: string; message?: string }
+        } | null
+        return this.errorResponse(
+          response.status,
+          errorBody?.error?.type ?? 'api_error',
+          errorBody?.error?.message ?? `Request failed with status ${response.status}`,
+          headers
+        )
+      }
+
+      const isEventStream = response.headers.get('content-type')?.includes('text/event-stream')
+
+      if (streaming) {
+        headers.set('Content-Type', 'text/event-stream')
+        headers.set('Cache-Control', 'no-cache')
+        headers.set('Connection', 'keep-alive')
+
+        if (isEventStream && response.body) {
+          return new Response(
+            response.body.pipeThrough(
+              createChatCompletionStream(claudeRequest.model, includeUsage)
+            ),
+            { status: 200, headers }
+          )
+        }
+        const completeResponse = (await response.json()) as ClaudeMessagesResponse
+        return new Response(toChatCompletionChunks(completeResponse, includeUsage), {
+          status: 200,
+          headers,
+        })
+      }
+
+      const claudeResponse = (await response.json()) as ClaudeMessagesResponse
+      headers.set('Content-Type', 'application/json')
+      return new Response(JSON.stringify(toChatCompletion(claudeResponse)), {
+        status: 200,
+        headers,
+      })
+    } catch (error) {
+      logger.error('Chat completion request failed', error instanceof Error ? error : undefined, {
+        model,
+        streaming,
+      })
+      return this.handleError(error)
+    }
+  }
+
+  /**
+   * Handle OPTIONS /v1/chat/completions (CORS preflight)
+   */
+  async handleOptions(_c: Context): Promise<Response> {
+    return new Response('', {
+      status: 204,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Max-Age': '86400',
+      },
+    })
+  }
+
+  /**
+   * Map proxy errors to OpenAI error responses, keeping the status codes and
+   * Retry-After headers of /v1/messages
+   */
+  private handleError(error: unknown): Response {
+    const headers = new Headers({ 'Access-Control-Allow-Origin': '*' })
+
+    if (error instanceof AccountPoolExhaustedError) {
+      if (error.retryAfterSeconds !== null) {
+        headers.set('Retry-After', String(error.retryAfterSeconds))
+      }
+      return this.errorResponse(429, 'rate_limit_error', error.message, headers)
+    }
+
+    if (error instanceof BudgetExceededError) {
+      headers.set('Retry-After', String(error.retryAfterSeconds))
+      return this.errorResponse(429, 'budget_exceeded', error.message, headers)
+    }
+
+    if (error instanceof UpstreamError) {
+      for (const [name, value] of Object.entries(error.upstreamHeaders ?? {})) {
+        const normalized = name.toLowerCase()
+        if (normalized === 'retry-after' || normalized === 'request-id') {
+          headers.set(name, value)
+        }
+      }
+      const upstream = error.upstreamResponse as { error?: { type?: string; message?: string } }
+      return this.errorResponse(
+        error.upstreamStatus ?? 502,
+        upstream?.error?.type ?? 'api_error',
+        upstream?.error?.message ?? error.message,
+        headers
+      )
+    }
+
+    if (error instanceof ValidationError) {
+      return this.errorResponse(400, 'invalid_request_error', error.message, headers)
+    }
+
+    const statusCode = (error as { statusCode?: number })?.statusCode ?? 500
+    return this.errorResponse(
+      statusCode,
+      statusCode >= 500 ? 'server_error' : 'invalid_request_error',
+      error instanceof Error ? error.message : String(error),
+      headers
+    )
+  }
+
+  private errorResponse(status: number, type: string, message: string, headers: Headers) {
+    headers.set('Content-Type', 'application/json')
+    return new Response(JSON.stringify({ error: { message, type, param: null, code: type } }), {
+      status,
+      headers,
+    })
+  }
+}
@@ -9,6 +9,7 @@ import {
 } from '@agent-prompttrain/shared'
 import { getRequestLogger } from '../middleware/logger'
 import { AccountPoolExhaustedError } from '../services/account-pool-service'
+import { BudgetExceededError } from '../services/budget-service'
 
 /**
  * Controller for handling /v1/messages endpoint
@@ -75,6 +76,26 @@ export class MessageController {
         )
       }
 
+      // Project spend budget reached: 429 with its own error type so clients can tell it
+      // apart from upstream rate limits
+      if (error instanceof BudgetExceededError) {
+        c.header('Retry-After', String(error.retryAfterSeconds))
+        return c.json(
+          {
+            type: 'error',
+            error: {
+              type: 'budget_exceeded',
+              message: error.message,
+              period: error.budget.period,
+              limit_usd: error.budget.limitUsd,
+              spent_usd: Number(error.budget.spentUsd.toFixed(4)),
+              resets_at: error.budget.resetsAt.toISOString(),
+            },
+          },
+          429
+        )
+      }
+
       // Serialize error for response
       const errorObj = error instanceof Error ? error : new Error(String(error))
       const errorResponse = serializeError(errorObj)
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test'
+import { Hono } from 'hono'
+import { UpstreamError, type ClaudeMessagesRequest } from '@agent-prompttrain/shared'
+import { ChatCompletionsController } from '../ChatCompletionsController'
+import { AccountPoolExhaustedError } from '../../services/account-pool-service'
+
+type TestEnv = { Variables: { requestId: string; projectId: string } }
+
+function createApp(handleRequest: (request: ClaudeMessagesRequest) => Promise<Response>) {
+  const controller = new ChatCompletionsController({ handleRequest } as any)
+  const app = new Hono<TestEnv>()
+  app.use('*', async (context, next) => {
+    context.set('requestId', 'req-1')
+    context.set('projectId', 'project-1')
+    await next()
+  })
+  app.post('/v1/chat/completions', context => controller.handle(context))
+  return app
+}
+
+function post(app: Hono<TestEnv>, body: unknown) {
+  return app.request('/v1/chat/completions', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+const body = {
+  model: 'claude-sonnet-4-5-20250929',
+  messages: [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', content: 'hello' },
+  ],
+}
+
+describe('ChatCompletionsController', () => {
+  test('sends the translated request through the proxy pipeline', async () => {
+    let received: ClaudeMessagesRequest | undefined
+    const app = createApp(async request => {
+      received = request
+      return new Response(
+        JSON.stringify({
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          model: request.model,
+          content: [{ type: 'text', text: 'Hi!' }],
+          stop_reason: 'end_turn',
+          stop_sequence: null,
+          usage: { input_tokens: 8, output_tokens: 2 },
+        }),
+        { headers: { 'content-type': 'application/json', 'x-prompttrain-cache': 'miss' } }
+      )
+    })
+
+    const response = await post(app, body)
+    const completion = (await response.json()) as any
+
+    expect(received?.system).toBe('Be brief.')
+    expect(received?.messages).toEqual([{ role: 'user', content: 'hello' }])
+    expect(response.status).toBe(200)
+    expect(response.headers.get('x-prompttrain-cache')).toBe('miss')
+    expect(completion.object).toBe('chat.completion')
+    expect(completion.choices[0].message).toEqual({ role: 'assistant', content: 'Hi!' })
+    expect(completion.usage.total_tokens).toBe(10)
+  })
+
+  test('returns OpenAI-format errors', async () => {
+    const invalid = await post(
+      createApp(async () => new Response()),
+      { ...body, n: 3 }
+    )
+    expect(invalid.status).toBe(400)
+    expect(await invalid.json()).toEqual({
+      error: {
+        message: 'Only n = 1 is supported',
+        type: 'invalid_request_error',
+        param: null,
+        code: 'invalid_request_error',
+      },
+    })
+
+    const upstream = await post(
+      createApp(async () => {
+        throw new UpstreamError(
+          'overloaded',
+          529,
+          undefined,
+          { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+          { 'retry-after': '30' }
+        )
+      }),
+      body
+    )
+    expect(upstream.status).toBe(529)
+    expect(upstream.headers.get('retry-after')).toBe('30')
+    expect(((await upstream.json()) as any).error.message).toBe('Overloaded')
+
+    const exhausted = await post(
+      createApp(async () => {
+        throw new AccountPoolExhaustedError('pool exhausted', null)
+      }),
+      body
+    )
+    expect(exhausted.status).toBe(429)
+    expect(((await exhausted.json()) as any).error.type).toBe('rate_limit_error')
+  })
+})
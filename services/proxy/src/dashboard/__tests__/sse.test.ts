@@ -0,0 +1,128 @@
+import { describe, test, expect, beforeEach, mock } from 'bun:test'
+import { EventEmitter } from 'events'
+
+mock.module('../../middleware/logger', () => ({
+  logger: {
+    info: () => {},
+    warn: () => {},
+    debug: () => {},
+    error: () => {},
+  },
+}))
+
+import { LiveEventBus, LIVE_EVENTS_CHANNEL, type LiveEvent } from '../sse'
+
+function makeRequestEvent(projectId = 'project-1'): LiveEvent {
+  return {
+    type: 'request',
+    projectId,
+    data: {
+      requestId: '00000000-0000-0000-0000-000000000001',
+      projectId,
+      model: 'claude-sonnet-4-5',
+      inputTokens: 10,
+      outputTokens: 5,
+      totalTokens: 15,
+      durationMs: 120,
+      status: 200,
+      conversationId: 'conv-1',
+      branchId: 'main',
+      timestamp: new Date().toISOString(),
+    },
+  }
+}
+
+/**
+ * Minimal pg Pool stand-in that loops NOTIFY back to LISTENing clients
+ */
+function makeFakePool() {
+  const client = Object.assign(new EventEmitter(), {
+    query: mock(async (_sql: string) => ({ rows: [] })),
+    release: mock(() => {}),
+  })
+  const pool = {
+    connect: mock(async () => client),
+    query: mock(async (_sql: string, params: [string, string]) => {
+      client.emit('notification', { channel: params[0], payload: params[1] })
+      return { rows: [] }
+    }),
+  }
+  return { pool, client }
+}
+
+describe('LiveEventBus', () => {
+  let bus: LiveEventBus
+
+  beforeEach(() => {
+    bus = new LiveEventBus()
+  })
+
+  test('delivers events in-process when no pool is attached', async () => {
+    const received: LiveEvent[] = []
+    bus.subscribe(event => received.push(event))
+
+    await bus.publish(makeRequestEvent())
+
+    expect(received).toHaveLength(1)
+    expect(received[0].type).toBe('request')
+  })
+
+  test('stops delivering after unsubscribe', async () => {
+    const received: LiveEvent[] = []
+    const unsubscribe = bus.subscribe(event => received.push(event))
+    unsubscribe()
+
+    await bus.publish(makeRequestEvent())
+
+    expect(received).toHaveLength(0)
+    expect(bus.subscriberCount).toBe(0)
+  })
+
+  test('a failing listener does not block other listeners', async () => {
+    const received: LiveEvent[] = []
+    bus.subscribe(() => {
+      throw new Error('boom')
+    })
+    bus.subscribe(event => received.push(event))
+
+    await bus.publish(makeRequestEvent())
+
+    expect(received).toHaveLength(1)
+  })
+
+  test('publishes through pg_notify and dispatches notifications when a pool is attached', async () => {
+    const { pool, client } = makeFakePool()
+    const received: LiveEvent[] = []
+
+    bus.attach(pool as any)
+    bus.subscribe(event => received.push(event))
+    // Let the LISTEN connection settle
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(client.query).toHaveBeenCalledWith(`LISTEN ${LIVE_EVENTS_CHANNEL}`)
+
+    const event = makeRequestEvent('project-2')
+    await bus.publish(event)
+
+    expect(pool.query).toHaveBeenCalledTimes(1)
+    expect(received).toEqual([event])
+
+    await bus.close()
+    expect(client.release).toHaveBeenCalled()
+  })
+
+  test('falls back to local delivery when NOTIFY fails', async () => {
+    const { pool } = makeFakePool()
+    pool.query.mockImplementation(async () => {
+      throw new Error('connection refused')
+    })
+    const received: LiveEvent[] = []
+
+    bus.attach(pool as any)
+    bus.subscribe(event => received.push(event))
+    await bus.publish(makeRequestEvent())
+
+    expect(received).toHaveLength(1)
+    await bus.close()
+  })
+})
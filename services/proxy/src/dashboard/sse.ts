@@ -1,12 +1,235 @@
-// Stub functions for SSE broadcasting in proxy service
-// The actual SSE implementation is in the dashboard service
+import type { Pool, PoolClient, Notification } from 'pg'
+import { logger } from '../middleware/logger.js'
 
-export function broadcastConversation(_data: any): void {
-  // No-op in proxy service
-  // Dashboard service will handle its own SSE
+/**
+ * Live event bus feeding the dashboard SSE stream.
+ *
+ * Events are published through PostgreSQL NOTIFY when a pool is attached so that
+ * every proxy replica (and the API-mode instance serving the dashboard) sees
+ * requests handled anywhere in the cluster. Without a pool, events are delivered
+ * in-process only.
+ */
+
+export const LIVE_EVENTS_CHANNEL = 'prompttrain_live_events'
+
+/** NOTIFY payloads are capped at 8000 bytes by PostgreSQL */
+const MAX_NOTIFY_PAYLOAD_BYTES = 7900
+const LISTENER_RECONNECT_DELAY_MS = 5000
+
+export interface LiveRequestEvent {
+  requestId: string
+  projectId: string
+  accountId?: string
+  model: string
+  requestType?: string
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  durationMs: number
+  status: number
+  conversationId?: string
+  branchId?: string
+  timestamp: string
+}
+
+export interface LiveConversationEvent {
+  id: string
+  projectId: string
+  conversationId?: string
+  branchId?: string
+  model: string
+  tokens: number
+  timestamp: string
+}
+
+export interface LiveMetricsEvent {
+  projectId: string
+  requests: number
+  tokens: number
+  activeUsers: number
+}
+
+export type LiveEvent =
+  | { type: 'request'; projectId: string; data: LiveRequestEvent }
+  | { type: 'conversation'; projectId: string; data: LiveConversationEvent }
+  | { type: 'metrics'; projectId: string; data: LiveMetricsEvent }
+
+export type LiveEventListener = (event: LiveEvent) => void
+
+export class LiveEventBus {
+  private listeners = new Set<LiveEventListener>()
+  private pool?: Pool
+  private listenerClient?: PoolClient
+  private connecting?: Promise<void>
+  private reconnectTimer?: NodeJS.Timeout
+  private closed = false
+
+  /**
+   * Route events through PostgreSQL NOTIFY so they reach every replica
+   */
+  attach(pool: Pool): void {
+    this.pool = pool
+    this.closed = false
+    if (this.listeners.size > 0) {
+      void this.ensureListening()
+    }
+  }
+
+  /**
+   * Register a listener. Returns a function that removes it again.
+   */
+  subscribe(listener: LiveEventListener): () => void {
+    this.listeners.add(listener)
+    if (this.pool) {
+      void this.ensureListening()
+    }
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  get subscriberCount(): number {
+    return this.listeners.size
+  }
+
+  async publish(event: LiveEvent): Promise<void> {
+    if (!this.pool || this.closed) {
+      this.dispatch(event)
+      return
+    }
+
+    const payload = JSON.stringify(event)
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD_BYTES) {
+      logger.debug('Live event too large for NOTIFY, delivering locally', {
+        metadata: { type: event.type, size: payload.length },
+      })
+      this.dispatch(event)
+      return
+    }
+
+    try {
+      await this.pool.query('SELECT pg_notify($1, $2)', [LIVE_EVENTS_CHANNEL, payload])
+    } catch (error) {
+      logger.debug('Failed to publish live event, delivering locally', {
+        metadata: { error: error instanceof Error ? error.message : String(error) },
+      })
+      this.dispatch(event)
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = undefined
+    }
+    const client = this.listenerClient
+    this.listenerClient = undefined
+    this.pool = undefined
+    if (client) {
+      try {
+        await client.query(`UNLISTEN ${LIVE_EVENTS_CHANNEL}`)
+      } catch {
+        // Connection may already be gone
+      }
+      client.release()
+    }
+  }
+
+  private dispatch(event: LiveEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        logger.debug('Live event listener failed', {
+          metadata: { error: error instanceof Error ? error.message : String(error) },
+        })
+      }
+    }
+  }
+
+  private ensureListening(): Promise<void> {
+    if (this.listenerClient || this.closed || !this.pool) {
+      return Promise.resolve()
+    }
+    if (!this.connecting) {
+      this.connecting = this.connectListener().finally(() => {
+        this.connecting = undefined
+      })
+    }
+    return this.connecting
+  }
+
+  private async connectListener(): Promise<void> {
+    const pool = this.pool
+    if (!pool) {
+      return
+    }
+
+    try {
+      const client = await pool.connect()
+      client.on('notification', (message: Notification) => {
+        if (message.channel !== LIVE_EVENTS_CHANNEL || !message.payload) {
+          return
+        }
+        try {
+          this.dispatch(JSON.parse(message.payload) as LiveEvent)
+        } catch {
+          // Ignore malformed payloads
+        }
+      })
+      client.on('error', error => {
+        logger.warn('Live event listener connection lost', {
+          metadata: { error: error.message },
+        })
+        this.dropListener(client)
+      })
+      await client.query(`LISTEN ${LIVE_EVENTS_CHANNEL}`)
+      this.listenerClient = client
+    } catch (error) {
+      logger.warn('Failed to start live event listener', {
+        metadata: { error: error instanceof Error ? error.message : String(error) },
+      })
+      this.scheduleReconnect()
+    }
+  }
+
+  private dropListener(client: PoolClient): void {
+    if (this.listenerClient !== client) {
+      return
+    }
+    this.listenerClient = undefined
+    client.release(true)
+    this.scheduleReconnect()
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer || this.listeners.size === 0) {
+      return
+    }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined
+      void this.ensureListening()
+    }, LISTENER_RECONNECT_DELAY_MS)
+  }
+}
+
+export const liveEventBus = new LiveEventBus()
+
+function publishSafely(event: LiveEvent): void {
+  liveEventBus.publish(event).catch(() => {
+    // publish() already falls back to local delivery
+  })
+}
+
+export function broadcastRequest(data: LiveRequestEvent): void {
+  publishSafely({ type: 'request', projectId: data.projectId, data })
+}
+
+export function broadcastConversation(data: LiveConversationEvent): void {
+  publishSafely({ type: 'conversation', projectId: data.projectId, data })
 }
 
-export function broadcastMetrics(_data: any): void {
-  // No-op in proxy service
-  // Dashboard service will handle its own SSE
+export function broadcastMetrics(data: LiveMetricsEvent): void {
+  publishSafely({ type: 'metrics', projectId: data.projectId, data })
 }
@@ -1,4 +1,8 @@
-import { ClaudeMessagesRequest, countSystemMessages } from '@agent-prompttrain/shared'
+import {
+  ClaudeMessagesRequest,
+  countSystemMessages,
+  type AppliedTransform,
+} from '@agent-prompttrain/shared'
 
 export type RequestType = 'query_evaluation' | 'inference' | 'quota' | 'internal_operation'
 
@@ -9,19 +13,47 @@ export type RequestType = 'query_evaluation' | 'inference' | 'quota' | 'internal
 export class ProxyRequest {
   private _requestType: RequestType | null = null
   private _hasCustomSystemPrompt = false
+  private _appliedTransforms: AppliedTransform[] = []
+  private _routingReason: string | null = null
+  /** Model the client asked for, before transforms and model routing */
+  public readonly requestedModel: string
 
   constructor(
     public readonly raw: ClaudeMessagesRequest,
     public readonly projectId: string,
     public readonly requestId: string,
     public readonly apiKey?: string
-  ) {}
+  ) {
+    this.requestedModel = raw.model
+  }
 
   /** Whether this request had a project-level system prompt override applied */
   get hasCustomSystemPrompt(): boolean {
     return this._hasCustomSystemPrompt
   }
 
+  /** Project transforms that changed this request or its response */
+  get appliedTransforms(): AppliedTransform[] {
+    return this._appliedTransforms
+  }
+
+  recordAppliedTransforms(applied: AppliedTransform[]): void {
+    this._appliedTransforms.push(...applied)
+  }
+
+  /** Why model routing changed the forwarded model, if it did */
+  get routingReason(): string | null {
+    return this._routingReason
+  }
+
+  /**
+   * Forward `model` instead of the current one, recording why
+   */
+  rerouteModel(model: string, reason: string): void {
+    this.raw.model = model
+    this._routingReason = reason
+  }
+
   get isStreaming(): boolean {
     return this.raw.stream === true
   }
@@ -16,6 +16,11 @@ export class ProxyResponse {
   private _toolCalls: Array<{ name: string; id?: string; input?: any }> = []
   private _currentToolIndex: number = -1
   private _toolInputAccumulator: string = ''
+  private _responseCacheSavings: {
+    inputTokens: number
+    outputTokens: number
+    cacheReadTokens: number
+  } | null = null
 
   constructor(
     public readonly requestId: string,
@@ -58,6 +63,11 @@ export class ProxyResponse {
     return this._fullUsageData
   }
 
+  /** Whether the response was served from the response cache */
+  get isResponseCacheHit(): boolean {
+    return this._responseCacheSavings !== null
+  }
+
   /**
    * Process a non-streaming response
    */
@@ -98,6 +108,42 @@ export class ProxyResponse {
         .join('\n') || ''
   }
 
+  /**
+   * Process a response served from the response cache. Nothing was billed, so
+   * token usage stays at zero; the original usage is recorded as savings, with
+   * the prompt counted as a prompt-cache read since an identical repeat request
+   * would have been served from the upstream prompt cache.
+   */
+  processCachedResponse(
+    response: ClaudeMessagesResponse,
+    originalUsage: {
+      inputTokens: number
+      outputTokens: number
+      cacheCreationInputTokens: number
+      cacheReadInputTokens: number
+    }
+  ): void {
+    this.processResponse(response)
+
+    this._inputTokens = 0
+    this._outputTokens = 0
+    this._cacheCreationInputTokens = 0
+    this._cacheReadInputTokens = 0
+    this._fullUsageData = null
+    this._responseCacheSavings = {
+      inputTokens: originalUsage.inputTokens,
+      outputTokens: originalUsage.outputTokens,
+      cacheReadTokens: originalUsage.cacheCreationInputTokens + originalUsage.cacheReadInputTokens,
+    }
+  }
+
+  /**
+   * Rewrite the accumulated text content (used by response redaction)
+   */
+  redactContent(redact: (text: string) => string): void {
+    this._content = redact(this._content)
+  }
+
   /**
    * Process a streaming event
    */
@@ -235,6 +281,7 @@ export class ProxyResponse {
       toolCallCount: this._toolCallCount,
       hasContent: this._content.length > 0,
       fullUsageData: this._fullUsageData,
+      responseCacheSavings: this._responseCacheSavings,
     }
   }
 
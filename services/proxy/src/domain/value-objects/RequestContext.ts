@@ -16,7 +16,9 @@ export class RequestContext {
     public readonly headers: Record<string, string>,
     public readonly apiKey?: string,
     public readonly honoContext?: Context,
-    public readonly account?: string
+    public readonly account?: string,
+    /** Creator of the client API key the request was authenticated with */
+    public readonly apiKeyUser?: string
   ) {}
 
   /**
@@ -58,7 +60,8 @@ export class RequestContext {
       headers,
       apiKey,
       c,
-      trainAccount
+      trainAccount,
+      c.get('apiKeyUser') || undefined
     )
   }
 
@@ -13,13 +13,17 @@ import { join, dirname } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import { config as dotenvConfig } from 'dotenv'
 import { tokenTracker } from './services/tokenTracker.js'
-import { initializeContainer, disposeContainer } from './container.js'
+import { container, initializeContainer, disposeContainer } from './container.js'
 import { closeRateLimitStores } from './middleware/rate-limit.js'
+import { freeToolResultTokenizer } from './services/tool-usage.js'
+import { clearProjectSettingsCaches } from './services/project-settings-cache.js'
+import { liveEventBus } from './dashboard/sse.js'
 import { CredentialStatusService } from './services/CredentialStatusService.js'
 import { CredentialManager } from './services/CredentialManager.js'
 import { config } from '@agent-prompttrain/shared'
 import { startAnalysisWorker } from './workers/ai-analysis/index.js'
 import type { AnalysisWorker } from './workers/ai-analysis/AnalysisWorker.js'
+import { DataRetentionService } from './services/data-retention-service.js'
 
 // Load .env file from multiple possible locations
 const __dirname = dirname(fileURLToPath(import.meta.url))
@@ -165,6 +169,7 @@ if (hostIndex !== -1 && args[hostIndex + 1]) {
 // Main function
 async function main() {
   let analysisWorker: AnalysisWorker | null = null
+  let dataRetentionService: DataRetentionService | null = null
 
   try {
     await initializeContainer()
@@ -270,6 +275,14 @@ async function main() {
       // Non-fatal - continue without analysis worker
     }
 
+    // Start data retention purge job (applies per-project retention settings)
+    const dbPool = container.getDbPool()
+    if (dbPool && config.retention.purgeEnabled) {
+      dataRetentionService = new DataRetentionService(dbPool)
+      dataRetentionService.start()
+      console.log('✓ Data retention purge job started')
+    }
+
     // Create the app
     const app = await createProxyApp()
 
@@ -360,9 +373,23 @@ async function main() {
         // Close rate limit stores
         closeRateLimitStores()
 
+        // Drop cached project settings
+        clearProjectSettingsCaches()
+
+        // Release the tool result tokenizer
+        freeToolResultTokenizer()
+
+        // Stop listening for live dashboard events
+        await liveEventBus.close()
+
         // Stop credential manager cleanup
         credentialManager.stopPeriodicCleanup()
 
+        // Stop data retention purge job
+        if (dataRetentionService) {
+          await dataRetentionService.stop()
+        }
+
         // Stop analysis worker
         if (analysisWorker) {
           console.log('Stopping AI Analysis Worker...')
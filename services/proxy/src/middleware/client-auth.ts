@@ -1,7 +1,81 @@
 import { Context, Next } from 'hono'
+import { getConnInfo } from 'hono/bun'
 import { logger } from './logger.js'
 import { container } from '../container.js'
 import { verifyApiKeyAndGetTrain } from '@agent-prompttrain/shared/database/queries'
+import {
+  apiKeyEndpointForPath,
+  isApiKeyModelAllowed,
+  isIpAllowed,
+  resolveClientIp,
+  type ProjectApiKey,
+} from '@agent-prompttrain/shared'
+import { config } from '@agent-prompttrain/shared/config'
+
+/**
+ * Client IP: the socket address, or the X-Forwarded-For hop set by the first of
+ * TRUSTED_PROXY_HOPS load balancers in front of the proxy
+ */
+function getClientIp(c: Context): string | null {
+  let socketAddress: string | null = null
+  try {
+    socketAddress = getConnInfo(c).remote.address ?? null
+  } catch {
+    socketAddress = null
+  }
+  return resolveClientIp(
+    c.req.header('x-forwarded-for'),
+    socketAddress,
+    config.server.trustedProxyHops
+  )
+}
+
+/**
+ * Model requested on a scoped endpoint: the body's `model`, or the Bedrock
+ * model ID from the path
+ */
+async function getRequestedModel(c: Context): Promise<string | null> {
+  if (c.req.path.startsWith('/model/')) {
+    const modelId = c.req.path.split('/')[2]
+    try {
+      return modelId ? decodeURIComponent(modelId) : null
+    } catch {
+      return modelId
+    }
+  }
+  const body = await c.req.json<{ model?: unknown }>().catch(() => null)
+  return typeof body?.model === 'string' ? body.model : null
+}
+
+/**
+ * Check a key's endpoint, IP and model scopes for this request
+ *
+ * @returns Why the request is not allowed, or null when it is
+ */
+async function checkApiKeyScopes(c: Context, key: ProjectApiKey): Promise<string | null> {
+  if (key.allowed_endpoints) {
+    const endpoint = apiKeyEndpointForPath(c.req.path)
+    if (!endpoint || !key.allowed_endpoints.includes(endpoint)) {
+      return `This API key is not allowed to call ${c.req.path}`
+    }
+  }
+
+  if (key.ip_allowlist) {
+    const ip = getClientIp(c)
+    if (!ip || !isIpAllowed(ip, key.ip_allowlist)) {
+      return `This API key is not allowed from ${ip ?? 'an unknown address'}`
+    }
+  }
+
+  if (key.allowed_models && c.req.method === 'POST') {
+    const model = await getRequestedModel(c)
+    if (model && !isApiKeyModelAllowed(key.allowed_models, model)) {
+      return `This API key is not allowed to use model "${model}". Allowed models: ${key.allowed_models.join(', ')}`
+    }
+  }
+
+  return null
+}
 
 /**
  * Client API Authentication Middleware
@@ -87,8 +161,38 @@ export function clientAuthMiddleware() {
         )
       }
 
+      const key = verification.trainApiKey
+      const scopeError = key ? await checkApiKeyScopes(c, key) : null
+      if (scopeError) {
+        logger.warn('Client auth middleware: Request outside API key scope', {
+          requestId,
+          path: c.req.path,
+          metadata: { apiKeyId: key?.id, reason: scopeError },
+        })
+        return c.json(
+          {
+            error: {
+              type: 'permission_error',
+              message: scopeError,
+            },
+          },
+          403
+        )
+      }
+
       // Set the project ID in context based on the API key
       c.set('projectId', verification.projectId)
+      if (key?.rate_limit_max_requests || key?.rate_limit_max_tokens) {
+        c.set('apiKeyRateLimits', {
+          maxRequests: key.rate_limit_max_requests,
+          maxTokens: key.rate_limit_max_tokens,
+        })
+      }
+      // Requests are attributed to the key's creator unless the client user ID is mapped
+      const keyCreator = key?.created_by
+      if (keyCreator) {
+        c.set('apiKeyUser', keyCreator)
+      }
 
       // Authentication successful, proceed to next middleware
       await next()
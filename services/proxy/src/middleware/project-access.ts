@@ -0,0 +1,168 @@
+import { Context, Next } from 'hono'
+import type { Pool } from 'pg'
+import { getErrorMessage, type ProjectPermission } from '@agent-prompttrain/shared'
+import {
+  checkProjectPermission,
+  getProjectByProjectId,
+} from '@agent-prompttrain/shared/database/queries'
+import { logger } from './logger.js'
+
+/**
+ * Dashboard API paths and the project permission they need, by path prefix
+ */
+const API_PATH_PERMISSIONS: Array<{ prefix: string; permission: ProjectPermission }> = [
+  { prefix: '/api/stats', permission: 'usage.read' },
+  { prefix: '/api/dashboard/stats', permission: 'usage.read' },
+  { prefix: '/api/token-usage/', permission: 'usage.read' },
+  { prefix: '/api/usage/', permission: 'usage.read' },
+  { prefix: '/api/analytics/token-usage/', permission: 'usage.read' },
+  { prefix: '/api/train-ids', permission: 'usage.read' },
+  { prefix: '/api/oauth-usage/', permission: 'usage.read' },
+  { prefix: '/api/requests', permission: 'conversations.read' },
+  { prefix: '/api/conversations', permission: 'conversations.read' },
+  { prefix: '/api/search', permission: 'conversations.read' },
+  { prefix: '/api/analytics/conversations/', permission: 'conversations.read' },
+  { prefix: '/api/events', permission: 'conversations.read' },
+  { prefix: '/api/analyses', permission: 'conversations.read' },
+]
+
+/**
+ * The project permission a dashboard API path needs, if it serves project data
+ */
+export function getApiPathPermission(path: string): ProjectPermission | null {
+  return API_PATH_PERMISSIONS.find(entry => path.startsWith(entry.prefix))?.permission ?? null
+}
+
+const REQUEST_PATH = /^\/api\/requests\/([^/]+)$/
+const CONVERSATION_PATH = /^\/api\/(?:conversations|analyses)\/([^/]+)(?:\/|$)/
+const OAUTH_USAGE_PATH = /^\/api\/oauth-usage\/([^/]+)$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Projects of the request, conversation or account a path names
+ * (/api/requests/:id, /api/conversations/:conversationId/...,
+ * /api/analyses/:conversationId/..., /api/oauth-usage/:accountId); empty for list
+ * and aggregate paths, which filter by role in their queries
+ */
+export async function getPathResourceProjectIds(pool: Pool, path: string): Promise<string[]> {
+  const requestId = REQUEST_PATH.exec(path)?.[1]
+  if (requestId) {
+    if (!UUID_PATTERN.test(requestId)) {
+      return []
+    }
+    const result = await pool.query<{ project_id: string }>(
+      'SELECT project_id FROM api_requests WHERE request_id = $1',
+      [requestId]
+    )
+    return result.rows.map(row => row.project_id)
+  }
+
+  const conversationId = CONVERSATION_PATH.exec(path)?.[1]
+  if (conversationId) {
+    return getConversationProjectIds(pool, conversationId)
+  }
+
+  const accountId = OAUTH_USAGE_PATH.exec(path)?.[1]
+  if (accountId) {
+    const result = await pool.query<{ project_id: string }>(
+      `SELECT DISTINCT p.project_id
+       FROM project_accounts pa
+       JOIN projects p ON p.id = pa.project_id
+       JOIN credentials cr ON cr.id = pa.credential_id
+       WHERE cr.account_id = $1`,
+      [decodeURIComponent(accountId)]
+    )
+    return result.rows.map(row => row.project_id)
+  }
+
+  return []
+}
+
+async function getConversationProjectIds(pool: Pool, conversationId: string): Promise<string[]> {
+  if (!UUID_PATTERN.test(conversationId)) {
+    return []
+  }
+  const result = await pool.query<{ project_id: string }>(
+    'SELECT DISTINCT project_id FROM api_requests WHERE conversation_id = $1',
+    [conversationId]
+  )
+  return result.rows.map(row => row.project_id)
+}
+
+/**
+ * Projects a request is scoped to: its ?projectId=, the conversation named in the
+ * body of an analysis request (POST /api/analyses), or the resource its path names
+ */
+async function getRequestProjectIds(c: Context, pool: Pool): Promise<string[]> {
+  const queryProjectId = c.req.query('projectId')
+  if (queryProjectId) {
+    return [queryProjectId]
+  }
+
+  if (c.req.method === 'POST' && c.req.path === '/api/analyses') {
+    const body = await c.req.json().catch(() => null)
+    const conversationId = body?.conversationId
+    return typeof conversationId === 'string' ? getConversationProjectIds(pool, conversationId) : []
+  }
+
+  return getPathResourceProjectIds(pool, c.req.path)
+}
+
+/**
+ * Project Access Middleware
+ * When the dashboard forwards the signed-in user (X-Auth-Principal), checks the
+ * user's project role grants the permission the endpoint needs on the project the
+ * request is scoped to (?projectId=), or else on the projects of the request,
+ * conversation or account it names. Requests without a principal are trusted service
+ * calls, authorized by the dashboard API key alone.
+ */
+export function projectAccessMiddleware() {
+  return async (c: Context, next: Next) => {
+    const userEmail = c.req.header('X-Auth-Principal')?.trim().toLowerCase()
+    const permission = getApiPathPermission(c.req.path)
+    const pool = c.get('pool') as Pool | undefined
+
+    if (!userEmail || !permission || !pool) {
+      return next()
+    }
+
+    try {
+      const projectIds = await getRequestProjectIds(c, pool)
+
+      for (const projectId of projectIds) {
+        const project = await getProjectByProjectId(pool, projectId)
+        if (project && !(await checkProjectPermission(pool, project.id, userEmail, permission))) {
+          logger.warn('Dashboard API request denied by project role', {
+            path: c.req.path,
+            metadata: { userEmail, projectId, permission },
+          })
+          return c.json(
+            {
+              error: {
+                code: 'forbidden',
+                message: `Your project role does not grant ${permission} on ${projectId}`,
+              },
+            },
+            403
+          )
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to check project access', {
+        path: c.req.path,
+        error: getErrorMessage(error),
+      })
+      return c.json(
+        {
+          error: {
+            code: 'internal_error',
+            message: 'Failed to check project access',
+          },
+        },
+        500
+      )
+    }
+
+    await next()
+  }
+}
@@ -1,6 +1,17 @@
+import { createHash } from 'crypto'
 import { Context, Next } from 'hono'
-import { RateLimitError, MSL_PROJECT_ID_HEADER_LOWER } from '@agent-prompttrain/shared'
-import { getRequestLogger } from './logger'
+import { MSL_PROJECT_ID_HEADER_LOWER } from '@agent-prompttrain/shared'
+import { config } from '@agent-prompttrain/shared/config'
+import { getProjectRateLimits } from '@agent-prompttrain/shared/database/queries'
+import { getRequestLogger, logger } from './logger'
+import { container } from '../container.js'
+import {
+  RateLimitStore,
+  computeRetryAfterMs,
+  estimateSlidingCount,
+  type WindowCounts,
+} from '../services/rate-limit-store.js'
+import { createSharedProjectSettingsCache } from '../services/project-settings-cache.js'
 
 // Rate limit configuration
 interface RateLimitConfig {
@@ -8,280 +19,345 @@ interface RateLimitConfig {
   maxRequests: number // Max requests per window
   maxTokens: number // Max tokens per window
   keyGenerator: (c: Context) => string // Function to generate rate limit key
-  skipSuccessfulRequests?: boolean // Don't count successful requests
   skipFailedRequests?: boolean // Don't count failed requests
 }
 
-// Rate limit store entry
-interface RateLimitEntry {
-  requests: number
-  tokens: number
+interface RateLimits {
+  maxRequests: number
+  maxTokens: number
+}
+
+// A window this request was counted in; tokens are added once the response is done
+interface CountedWindow {
+  key: string
   windowStart: number
-  blocked: boolean
-  blockExpiry?: number
+  windowMs: number
 }
 
-// In-memory rate limit store (use Redis in production)
-class RateLimitStore {
-  private store = new Map<string, RateLimitEntry>()
-  private cleanupInterval: NodeJS.Timeout
+interface RateLimitStatus {
+  limit: number
+  remaining: number
+  reset: number
+  tokens: number
+}
 
-  constructor() {
-    // Clean up expired entries every minute
-    this.cleanupInterval = setInterval(() => this.cleanup(), 60000)
+const CLEANUP_INTERVAL_MS = 60_000
+
+// Shared counters (PostgreSQL when the proxy has a pool)
+let store: RateLimitStore | undefined
+let cleanupInterval: NodeJS.Timeout | undefined
+
+const projectLimitsCache = createSharedProjectSettingsCache<{
+  maxRequests: number | null
+  maxTokens: number | null
+} | null>()
+
+function getStore(): RateLimitStore {
+  if (!store) {
+    const rateLimitStore = new RateLimitStore(container.getDbPool())
+    store = rateLimitStore
+    cleanupInterval = setInterval(() => {
+      rateLimitStore.cleanup().catch(error => {
+        logger.warn('Failed to clean up rate limit windows', {
+          metadata: { error: error instanceof Error ? error.message : String(error) },
+        })
+      })
+    }, CLEANUP_INTERVAL_MS)
+    cleanupInterval.unref?.()
   }
+  return store
+}
 
-  get(key: string): RateLimitEntry | undefined {
-    return this.store.get(key)
+// Default configurations
+function defaultApiKeyConfig(): RateLimitConfig {
+  return {
+    windowMs: config.rateLimit.windowMs,
+    maxRequests: config.rateLimit.maxRequests,
+    maxTokens: config.rateLimit.maxTokens,
+    keyGenerator: c => {
+      const apiKey =
+        c.req.header('x-api-key') ||
+        c.req.header('authorization')?.replace('Bearer ', '') ||
+        'default'
+      // Hash the whole key: keys share a common prefix, and raw keys must not reach the database
+      return `api:${createHash('sha256').update(apiKey).digest('hex').substring(0, 32)}`
+    },
   }
+}
 
-  set(key: string, entry: RateLimitEntry): void {
-    this.store.set(key, entry)
+function defaultTrainConfig(): RateLimitConfig {
+  return {
+    windowMs: config.rateLimit.domainWindowMs,
+    maxRequests: config.rateLimit.domainMaxRequests,
+    maxTokens: config.rateLimit.domainMaxTokens,
+    keyGenerator: c => {
+      const projectId = c.get('projectId') || c.req.header(MSL_PROJECT_ID_HEADER_LOWER) || 'unknown'
+      return `train:${projectId}`
+    },
   }
+}
 
-  delete(key: string): void {
-    this.store.delete(key)
+/**
+ * Per-project overrides from the projects table, falling back to the defaults
+ */
+async function resolveProjectLimits(c: Context, defaults: RateLimits): Promise<RateLimits> {
+  const projectId: string | undefined =
+    c.get('projectId') || c.req.header(MSL_PROJECT_ID_HEADER_LOWER)
+  const pool = container.getDbPool()
+  if (!projectId || !pool) {
+    return defaults
   }
 
-  cleanup(): void {
-    const now = Date.now()
-    for (const [key, entry] of this.store.entries()) {
-      // Remove entries older than 2x the window
-      if (now - entry.windowStart > 2 * 3600000) {
-        // 2 hours
-        this.store.delete(key)
-      }
-    }
-  }
+  const limits = await projectLimitsCache.get(projectId, () =>
+    getProjectRateLimits(pool, projectId)
+  )
 
-  close(): void {
-    clearInterval(this.cleanupInterval)
+  return {
+    maxRequests: limits?.maxRequests ?? defaults.maxRequests,
+    maxTokens: limits?.maxTokens ?? defaults.maxTokens,
   }
 }
 
-// Global rate limit stores
-const apiKeyStore = new RateLimitStore()
-const trainStore = new RateLimitStore()
-
-// Default configurations
-const defaultApiKeyConfig: RateLimitConfig = {
-  windowMs: 3600000, // 1 hour
-  maxRequests: 1000, // 1000 requests per hour
-  maxTokens: 1000000, // 1M tokens per hour
-  keyGenerator: c => {
-    const apiKey =
-      c.req.header('x-api-key') ||
-      c.req.header('authorization')?.replace('Bearer ', '') ||
-      'default'
-    return `api:${apiKey.substring(0, 10)}`
-  },
-}
-
-const defaultTrainConfig: RateLimitConfig = {
-  windowMs: 3600000, // 1 hour
-  maxRequests: 5000, // 5000 requests per hour
-  maxTokens: 5000000, // 5M tokens per hour
-  keyGenerator: c => {
-    const projectId = c.get('projectId') || c.req.header(MSL_PROJECT_ID_HEADER_LOWER) || 'unknown'
-    return `train:${projectId}`
-  },
-}
-
-// Rate limiting middleware factory
-export function createRateLimiter(config: Partial<RateLimitConfig> = {}) {
-  const finalConfig = { ...defaultApiKeyConfig, ...config }
+/**
+ * Sliding-window limiter over the shared store. Store failures are logged and
+ * the request is let through rather than failing the proxy. Requests for which
+ * resolveLimits returns null are not limited.
+ */
+function createSlidingWindowLimiter(
+  finalConfig: RateLimitConfig,
+  resolveLimits: (c: Context) => Promise<RateLimits | null>,
+  label: string
+) {
+  const { windowMs } = finalConfig
 
   return async (c: Context, next: Next) => {
-    const logger = getRequestLogger(c)
+    const log = getRequestLogger(c)
     const key = finalConfig.keyGenerator(c)
     const now = Date.now()
+    const rateLimitStore = getStore()
 
-    // Get or create rate limit entry
-    let entry = apiKeyStore.get(key)
-
-    if (!entry || now - entry.windowStart >= finalConfig.windowMs) {
-      // Create new window
-      entry = {
-        requests: 0,
-        tokens: 0,
-        windowStart: now,
-        blocked: false,
+    let limits: RateLimits | null
+    let counts: WindowCounts
+    try {
+      limits = await resolveLimits(c)
+      if (!limits) {
+        return next()
       }
-      apiKeyStore.set(key, entry)
-    }
-
-    // Check if currently blocked
-    if (entry.blocked && entry.blockExpiry && now < entry.blockExpiry) {
-      const retryAfter = Math.ceil((entry.blockExpiry - now) / 1000)
-      logger.warn('Rate limit exceeded - blocked', {
+      counts = await rateLimitStore.increment(key, windowMs, now)
+    } catch (error) {
+      log.warn(`${label} check failed, allowing request`, {
         key,
-        retryAfter,
-        requests: entry.requests,
-        maxRequests: finalConfig.maxRequests,
+        error: error instanceof Error ? error.message : String(error),
       })
-
-      c.header('X-RateLimit-Limit', String(finalConfig.maxRequests))
-      c.header('X-RateLimit-Remaining', '0')
-      c.header('X-RateLimit-Reset', String(Math.ceil(entry.blockExpiry / 1000)))
-      c.header('Retry-After', String(retryAfter))
-
-      throw new RateLimitError('Rate limit exceeded', retryAfter)
+      return next()
     }
 
-    // Check request count
-    if (entry.requests >= finalConfig.maxRequests) {
-      entry.blocked = true
-      entry.blockExpiry = entry.windowStart + finalConfig.windowMs
-
-      const retryAfter = Math.ceil((entry.blockExpiry - now) / 1000)
-      logger.warn('Rate limit exceeded - request count', {
+    const elapsed = now - counts.windowStart
+    const requestEstimate = estimateSlidingCount(
+      counts.requests,
+      counts.previousRequests,
+      elapsed,
+      windowMs
+    )
+    const tokenEstimate = estimateSlidingCount(
+      counts.tokens,
+      counts.previousTokens,
+      elapsed,
+      windowMs
+    )
+    const requestsExceeded = requestEstimate > limits.maxRequests
+    const tokensExceeded = tokenEstimate >= limits.maxTokens
+
+    if (requestsExceeded || tokensExceeded) {
+      // Rejected requests don't count toward the limit
+      await rateLimitStore.decrement(key, counts.windowStart).catch(() => {})
+
+      const retryAfterMs = Math.max(
+        requestsExceeded
+          ? computeRetryAfterMs(
+              counts.requests - 1,
+              counts.previousRequests,
+              limits.maxRequests,
+              elapsed,
+              windowMs
+            )
+          : 0,
+        tokensExceeded
+          ? computeRetryAfterMs(
+              counts.tokens,
+              counts.previousTokens,
+              limits.maxTokens,
+              elapsed,
+              windowMs
+            )
+          : 0
+      )
+      const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000))
+      const reason = requestsExceeded ? 'request count' : 'token count'
+
+      log.warn(`${label} exceeded - ${reason}`, {
         key,
-        requests: entry.requests,
-        maxRequests: finalConfig.maxRequests,
+        requests: Math.round(requestEstimate),
+        maxRequests: limits.maxRequests,
+        tokens: Math.round(tokenEstimate),
+        maxTokens: limits.maxTokens,
         retryAfter,
       })
 
-      c.header('X-RateLimit-Limit', String(finalConfig.maxRequests))
+      c.header('X-RateLimit-Limit', String(limits.maxRequests))
       c.header('X-RateLimit-Remaining', '0')
-      c.header('X-RateLimit-Reset', String(Math.ceil(entry.blockExpiry / 1000)))
+      c.header('X-RateLimit-Reset', String(Math.ceil(now / 1000) + retryAfter))
       c.header('Retry-After', String(retryAfter))
 
-      throw new RateLimitError('Rate limit exceeded', retryAfter)
+      return c.json(
+        {
+          type: 'error',
+          error: {
+            type: 'rate_limit_error',
+            message: `${label} exceeded (${reason}). Retry after ${retryAfter} seconds.`,
+          },
+        },
+        429
+      )
     }
 
-    // Increment request count
-    entry.requests++
-
     // Set rate limit headers
-    const remaining = Math.max(0, finalConfig.maxRequests - entry.requests)
-    const reset = Math.ceil((entry.windowStart + finalConfig.windowMs) / 1000)
-
-    c.header('X-RateLimit-Limit', String(finalConfig.maxRequests))
-    c.header('X-RateLimit-Remaining', String(remaining))
-    c.header('X-RateLimit-Reset', String(reset))
+    const status: RateLimitStatus = {
+      limit: limits.maxRequests,
+      remaining: Math.max(0, Math.floor(limits.maxRequests - requestEstimate)),
+      reset: Math.ceil((counts.windowStart + windowMs) / 1000),
+      tokens: Math.round(tokenEstimate),
+    }
+    c.header('X-RateLimit-Limit', String(status.limit))
+    c.header('X-RateLimit-Remaining', String(status.remaining))
+    c.header('X-RateLimit-Reset', String(status.reset))
 
-    // Store entry reference for token counting
-    c.set('rateLimitEntry', entry)
-    c.set('rateLimitConfig', finalConfig)
+    // Remember the window for token accounting (see recordRateLimitTokens)
+    const windows: CountedWindow[] = c.get('rateLimitWindows') || []
+    windows.push({ key, windowStart: counts.windowStart, windowMs })
+    c.set('rateLimitWindows', windows)
+    c.set('rateLimitStatus', status)
 
+    let failed = false
     try {
       await next()
-
-      // Update token count after successful request
-      const inputTokens = c.get('inputTokens') || 0
-      const outputTokens = c.get('outputTokens') || 0
-      entry.tokens += inputTokens + outputTokens
-
-      // Check token limit
-      if (entry.tokens > finalConfig.maxTokens) {
-        logger.warn('Token limit exceeded', {
-          key,
-          tokens: entry.tokens,
-          maxTokens: finalConfig.maxTokens,
-        })
-        // Mark for blocking on next request
-        entry.blocked = true
-        entry.blockExpiry = entry.windowStart + finalConfig.windowMs
-      }
+      failed = c.res.status >= 400
     } catch (error) {
-      // Handle based on skip configuration
-      if (finalConfig.skipFailedRequests) {
-        entry.requests--
-      }
+      failed = true
       throw error
+    } finally {
+      if (failed && finalConfig.skipFailedRequests) {
+        await rateLimitStore.decrement(key, counts.windowStart).catch(() => {})
+      }
     }
   }
 }
 
+// Rate limiting middleware factory (per API key, with limits set on the key by client auth)
+export function createRateLimiter(config: Partial<RateLimitConfig> = {}) {
+  const finalConfig = { ...defaultApiKeyConfig(), ...config }
+
+  return createSlidingWindowLimiter(
+    finalConfig,
+    async c => {
+      const keyLimits = getApiKeyRateLimits(c)
+      return {
+        maxRequests: keyLimits?.maxRequests ?? finalConfig.maxRequests,
+        maxTokens: keyLimits?.maxTokens ?? finalConfig.maxTokens,
+      }
+    },
+    'Rate limit'
+  )
+}
+
+/**
+ * Per API key limiter for keys with their own rate limit only, for proxies that
+ * run without the default limiters (ENABLE_METRICS=false)
+ */
+export function createApiKeyRateLimiter(config: Partial<RateLimitConfig> = {}) {
+  const finalConfig = { ...defaultApiKeyConfig(), ...config }
+
+  return createSlidingWindowLimiter(
+    finalConfig,
+    async c => {
+      const keyLimits = getApiKeyRateLimits(c)
+      if (!keyLimits) {
+        return null
+      }
+      return {
+        maxRequests: keyLimits.maxRequests ?? finalConfig.maxRequests,
+        maxTokens: keyLimits.maxTokens ?? finalConfig.maxTokens,
+      }
+    },
+    'Rate limit'
+  )
+}
+
+function getApiKeyRateLimits(
+  c: Context
+): { maxRequests: number | null; maxTokens: number | null } | undefined {
+  return c.get('apiKeyRateLimits')
+}
+
 // Project-based rate limiter
 export function createTrainRateLimiter(config: Partial<RateLimitConfig> = {}) {
+  const defaults = defaultTrainConfig()
   const finalConfig = {
-    ...defaultTrainConfig,
+    ...defaults,
     ...config,
-    keyGenerator: config.keyGenerator ?? defaultTrainConfig.keyGenerator,
+    keyGenerator: config.keyGenerator ?? defaults.keyGenerator,
   }
 
-  return async (c: Context, next: Next) => {
-    const logger = getRequestLogger(c)
-    const key = finalConfig.keyGenerator(c)
-    const now = Date.now()
-
-    let entry = trainStore.get(key)
-
-    if (!entry || now - entry.windowStart >= finalConfig.windowMs) {
-      entry = {
-        requests: 0,
-        tokens: 0,
-        windowStart: now,
-        blocked: false,
-      }
-      trainStore.set(key, entry)
-    }
-
-    if (entry.blocked && entry.blockExpiry && now < entry.blockExpiry) {
-      const retryAfter = Math.ceil((entry.blockExpiry - now) / 1000)
-      logger.warn('Project rate limit exceeded', {
-        key,
-        retryAfter,
-      })
-
-      throw new RateLimitError('Project rate limit exceeded', retryAfter)
-    }
-
-    if (entry.requests >= finalConfig.maxRequests) {
-      entry.blocked = true
-      entry.blockExpiry = entry.windowStart + finalConfig.windowMs
-
-      const retryAfter = Math.ceil((entry.blockExpiry - now) / 1000)
-      logger.warn('Project rate limit exceeded', {
-        key,
-        requests: entry.requests,
+  return createSlidingWindowLimiter(
+    finalConfig,
+    c =>
+      resolveProjectLimits(c, {
         maxRequests: finalConfig.maxRequests,
-      })
-
-      throw new RateLimitError('Project rate limit exceeded', retryAfter)
-    }
-
-    entry.requests++
-
-    await next()
-
-    // Update token count
-    const inputTokens = c.get('inputTokens') || 0
-    const outputTokens = c.get('outputTokens') || 0
-    entry.tokens += inputTokens + outputTokens
+        maxTokens: finalConfig.maxTokens,
+      }),
+    'Project rate limit'
+  )
+}
 
-    if (entry.tokens > finalConfig.maxTokens) {
-      entry.blocked = true
-      entry.blockExpiry = entry.windowStart + finalConfig.windowMs
-    }
+/**
+ * Add a completed request's tokens to every window it was counted in.
+ * Called once usage is known, which for streaming responses is after the
+ * middleware chain has returned.
+ */
+export async function recordRateLimitTokens(c: Context, tokens: number): Promise<void> {
+  const windows = c.get('rateLimitWindows') as CountedWindow[] | undefined
+  if (!windows || windows.length === 0 || tokens <= 0) {
+    return
   }
+
+  const rateLimitStore = getStore()
+  await Promise.all(
+    windows.map(window =>
+      rateLimitStore
+        .addTokens(window.key, window.windowStart, window.windowMs, tokens)
+        .catch(error => {
+          logger.warn('Failed to record rate limit tokens', {
+            metadata: {
+              key: window.key,
+              error: error instanceof Error ? error.message : String(error),
+            },
+          })
+        })
+    )
+  )
 }
 
 // Helper to get current rate limit status
-export function getRateLimitStatus(c: Context): {
-  limit: number
-  remaining: number
-  reset: number
-  tokens: number
-} | null {
-  const entry = c.get('rateLimitEntry') as RateLimitEntry | undefined
-  const config = c.get('rateLimitConfig') as RateLimitConfig | undefined
-
-  if (!entry || !config) {
-    return null
-  }
-
-  return {
-    limit: config.maxRequests,
-    remaining: Math.max(0, config.maxRequests - entry.requests),
-    reset: Math.ceil((entry.windowStart + config.windowMs) / 1000),
-    tokens: entry.tokens,
-  }
+export function getRateLimitStatus(c: Context): RateLimitStatus | null {
+  return (c.get('rateLimitStatus') as RateLimitStatus | undefined) ?? null
 }
 
 // Cleanup function for graceful shutdown
 export function closeRateLimitStores(): void {
-  apiKeyStore.close()
-  trainStore.close()
+  if (cleanupInterval) {
+    clearInterval(cleanupInterval)
+    cleanupInterval = undefined
+  }
+  store = undefined
+  projectLimitsCache.clear()
 }
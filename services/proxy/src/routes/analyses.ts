@@ -11,7 +11,8 @@ import {
   conversationBranchParamsSchema,
   MSL_PROJECT_ID_HEADER_LOWER,
 } from '@agent-prompttrain/shared'
-import { ANTHROPIC_ANALYSIS_CONFIG } from '@agent-prompttrain/shared/config'
+import { getConversationAnalysisTemplate } from '@agent-prompttrain/shared/database/queries'
+import { ANALYSIS_PROMPT_CONFIG, ANTHROPIC_ANALYSIS_CONFIG } from '@agent-prompttrain/shared/config'
 
 // Request/Response schemas
 const createAnalysisSchema = z.object({
@@ -57,6 +58,18 @@ async function auditLog(
   }
 }
 
+/**
+ * Template version and prompt version a new analysis job is generated with
+ */
+async function resolveAnalysisTemplate(pool: Pool, conversationId: string) {
+  const template = await getConversationAnalysisTemplate(pool, conversationId)
+  return {
+    templateId: template?.id ?? null,
+    templateVersion: template?.version ?? null,
+    promptVersion: ANALYSIS_PROMPT_CONFIG.PROMPT_VERSION,
+  }
+}
+
 export const analysisRoutes = new Hono<{
   Variables: {
     pool?: Pool
@@ -125,10 +138,15 @@ analysisRoutes.post('/', rateLimitAnalysisCreation(), async c => {
     }
 
     // Create new analysis request
+    const { templateId, templateVersion, promptVersion } = await resolveAnalysisTemplate(
+      pool,
+      conversationId
+    )
     const insertResult = await pool.query(
       `INSERT INTO conversation_analyses
-       (conversation_id, branch_id, status, model_used, custom_prompt, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+       (conversation_id, branch_id, status, model_used, custom_prompt,
+        template_id, template_version, prompt_version, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
        RETURNING id`,
       [
         conversationId,
@@ -136,6 +154,9 @@ analysisRoutes.post('/', rateLimitAnalysisCreation(), async c => {
         ConversationAnalysisStatus.PENDING,
         ANTHROPIC_ANALYSIS_CONFIG.MODEL_NAME,
         customPrompt || null,
+        templateId,
+        templateVersion,
+        promptVersion,
       ]
     )
 
@@ -214,7 +235,11 @@ analysisRoutes.get('/:conversationId/:branchId', rateLimitAnalysisRetrieval(), a
         updated_at,
         completed_at,
         prompt_tokens,
-        completion_tokens
+        completion_tokens,
+        custom_fields,
+        template_id,
+        template_version,
+        prompt_version
        FROM conversation_analyses
        WHERE conversation_id = $1 AND branch_id = $2`,
       [conversationId, branchId]
@@ -251,6 +276,11 @@ analysisRoutes.get('/:conversationId/:branchId', rateLimitAnalysisRetrieval(), a
       status: analysis.status,
       content: analysis.analysis_content,
       data: analysis.analysis_data,
+      customFields: analysis.custom_fields ?? undefined,
+      template: analysis.template_id
+        ? { id: analysis.template_id, version: analysis.template_version }
+        : undefined,
+      promptVersion: analysis.prompt_version ?? undefined,
       error: analysis.error_message,
       createdAt: analysis.created_at,
       updatedAt: analysis.updated_at,
@@ -336,27 +366,37 @@ analysisRoutes.post(
       )
 
       let analysisId: string
+      // Re-analyses record the template version that is active now
+      const { templateId, templateVersion, promptVersion } = await resolveAnalysisTemplate(
+        pool,
+        conversationId
+      )
 
       if (existingResult.rows.length > 0) {
         // Update existing analysis to pending
         analysisId = existingResult.rows[0].id
         await pool.query(
           `UPDATE conversation_analyses
-         SET status = $1, model_used = $3, updated_at = NOW(), retry_count = retry_count + 1, custom_prompt = $4
+         SET status = $1, model_used = $3, updated_at = NOW(), retry_count = retry_count + 1, custom_prompt = $4,
+             template_id = $5, template_version = $6, prompt_version = $7
          WHERE id = $2`,
           [
             ConversationAnalysisStatus.PENDING,
             analysisId,
             ANTHROPIC_ANALYSIS_CONFIG.MODEL_NAME,
             customPrompt || null,
+            templateId,
+            templateVersion,
+            promptVersion,
           ]
         )
       } else {
         // Create new analysis
         const insertResult = await pool.query(
           `INSERT INTO conversation_analyses
-         (conversation_id, branch_id, status, model_used, custom_prompt, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+         (conversation_id, branch_id, status, model_used, custom_prompt,
+          template_id, template_version, prompt_version, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
          RETURNING id`,
           [
             conversationId,
@@ -364,6 +404,9 @@ analysisRoutes.post(
             ConversationAnalysisStatus.PENDING,
             ANTHROPIC_ANALYSIS_CONFIG.MODEL_NAME,
             customPrompt || null,
+            templateId,
+            templateVersion,
+            promptVersion,
           ]
         )
         analysisId = insertResult.rows[0].id
@@ -1,10 +1,30 @@
-import { Hono } from 'hono'
+import { Context, Hono } from 'hono'
 import { z } from 'zod'
 import { Pool } from 'pg'
 import { logger } from '../middleware/logger.js'
-import { getErrorMessage, getErrorStack, type AnthropicCredential } from '@agent-prompttrain/shared'
+import {
+  getErrorMessage,
+  getErrorStack,
+  getProjectPermissionFilter,
+  UNATTRIBUTED_USER,
+  type AnthropicCredential,
+  type ProjectPermission,
+} from '@agent-prompttrain/shared'
 import { container } from '../container.js'
 import { apiResponseCache } from '../services/response-cache.js'
+import { exportConversation, type ExportedRequest } from '../services/conversation-export.js'
+import {
+  parseHeadline,
+  SEARCH_DOCUMENT_SQL,
+  SEARCH_HEADLINE_OPTIONS,
+  SEARCH_VECTOR_SQL,
+} from '../services/conversation-search.js'
+import {
+  checkProjectPermission,
+  getProjectByProjectId,
+  getToolUsageReport,
+  getUserUsageSummary,
+} from '@agent-prompttrain/shared/database/queries'
 
 // Query parameter schemas
 const statsQuerySchema = z.object({
@@ -14,6 +34,8 @@ const statsQuerySchema = z.object({
 
 const requestsQuerySchema = z.object({
   projectId: z.string().optional(),
+  /** Tag on the request, its branch or its conversation (see conversation_annotations) */
+  tag: z.string().trim().toLowerCase().min(1).optional(),
   limit: z.string().regex(/^\d+$/).transform(Number).default('100'),
   offset: z.string().regex(/^\d+$/).transform(Number).default('0'),
 })
@@ -21,12 +43,50 @@ const requestsQuerySchema = z.object({
 const conversationsQuerySchema = z.object({
   projectId: z.string().optional(),
   accountId: z.string().optional(),
+  /** Attributed user email (see project_user_mappings) */
+  user: z.string().optional(),
+  /** Tag anywhere in the conversation (see conversation_annotations) */
+  tag: z.string().trim().toLowerCase().min(1).optional(),
   limit: z.string().regex(/^\d+$/).transform(Number).default('50'),
   offset: z.string().regex(/^\d+$/).transform(Number).default('0'),
   dateFrom: z.string().optional(),
   dateTo: z.string().optional(),
 })
 
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  projectId: z.string().optional(),
+  model: z.string().optional(),
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(100))
+    .default('20'),
+  offset: z.string().regex(/^\d+$/).transform(Number).default('0'),
+})
+
+const toolUsageQuerySchema = z.object({
+  projectId: z.string().optional(),
+  /** Attributed user email (see project_user_mappings) */
+  user: z.string().optional(),
+  dateFrom: z.string().datetime().optional(),
+  dateTo: z.string().datetime().optional(),
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(100))
+    .default('20'),
+})
+
+const conversationExportQuerySchema = z.object({
+  branch: z.string().min(1).default('main'),
+  format: z.enum(['markdown', 'json', 'jsonl']).default('markdown'),
+})
+
 // Response types
 interface StatsResponse {
   totalRequests: number
@@ -78,6 +138,31 @@ export const apiRoutes = new Hono<{
   }
 }>()
 
+/**
+ * SQL condition limiting api_requests rows to projects where the dashboard user
+ * (X-Auth-Principal) holds a permission. Adds the user to `values`; null for
+ * trusted service calls without a principal.
+ */
+function getPrincipalProjectCondition(
+  c: Context,
+  permission: ProjectPermission,
+  values: unknown[]
+): string | null {
+  const userEmail = c.req.header('X-Auth-Principal')?.trim().toLowerCase()
+  if (!userEmail) {
+    return null
+  }
+
+  values.push(userEmail)
+  const param = `$${values.length}`
+  return `project_id IN (
+        SELECT p.project_id
+        FROM projects p
+        LEFT JOIN project_members pm ON p.id = pm.project_id AND LOWER(pm.user_email) = ${param}
+        WHERE ${getProjectPermissionFilter(permission, param)}
+      )`
+}
+
 /**
  * GET /api/stats - Get aggregated statistics
  */
@@ -106,7 +191,7 @@ apiRoutes.get('/stats', async c => {
     const params = statsQuerySchema.parse(query)
 
     const conditions = []
-    const values = []
+    const values: unknown[] = []
     let paramCount = 0
 
     if (params.projectId) {
@@ -114,6 +199,12 @@ apiRoutes.get('/stats', async c => {
       values.push(params.projectId)
     }
 
+    const accessCondition = getPrincipalProjectCondition(c, 'usage.read', values)
+    if (accessCondition) {
+      conditions.push(accessCondition)
+      paramCount = values.length
+    }
+
     if (params.since) {
       conditions.push(`timestamp > $${++paramCount}`)
       values.push(params.since)
@@ -231,10 +322,16 @@ apiRoutes.get('/dashboard/stats', async c => {
       values.push(accountId)
     }
 
+    const accessCondition = getPrincipalProjectCondition(c, 'usage.read', values)
+    if (accessCondition) {
+      conditions.push(accessCondition)
+    }
+
     const whereClause = `WHERE ${conditions.join(' AND ')}`
 
-    // Check cache (30s TTL - stats don't need to be real-time)
-    const cacheKey = `dashboard-stats:${statsDays}:${projectId || ''}:${accountId || ''}`
+    // Check cache (30s TTL - stats don't need to be real-time), per principal
+    const principal = c.req.header('X-Auth-Principal')?.trim().toLowerCase() || ''
+    const cacheKey = `dashboard-stats:${statsDays}:${projectId || ''}:${accountId || ''}:${principal}`
     const cached = apiResponseCache.get<object>(cacheKey)
     if (cached) {
       return c.json(cached)
@@ -375,7 +472,8 @@ apiRoutes.get('/analytics/conversations/weekly', async c => {
     const days = query.days ? Math.min(Math.max(parseInt(query.days) || 0, 0), 365) : 0
     const projectId = query.projectId
 
-    const cacheKey = `weekly-conversations:${weeks}:${days}:${projectId || ''}`
+    const principal = c.req.header('X-Auth-Principal')?.trim().toLowerCase() || ''
+    const cacheKey = `weekly-conversations:${weeks}:${days}:${projectId || ''}:${principal}`
     const cached = apiResponseCache.get<object>(cacheKey)
     if (cached) {
       return c.json(cached)
@@ -389,6 +487,8 @@ apiRoutes.get('/analytics/conversations/weekly', async c => {
     if (projectId) {
       values.push(projectId)
     }
+    const accessCondition = getPrincipalProjectCondition(c, 'conversations.read', values)
+    const accessFilter = accessCondition ? `AND ${accessCondition}` : ''
 
     // Count conversations by the week they were truly CREATED (first message
     // across all time), then only include those created within the window.
@@ -413,6 +513,7 @@ apiRoutes.get('/analytics/conversations/weekly', async c => {
         FROM api_requests
         WHERE conversation_id IS NOT NULL
           ${projectFilter}
+          ${accessFilter}
         GROUP BY conversation_id
         ${timeFilter}
       )
@@ -469,7 +570,7 @@ apiRoutes.get('/requests', async c => {
     const params = requestsQuerySchema.parse(query)
 
     const conditions = []
-    const values = []
+    const values: unknown[] = []
     let paramCount = 0
 
     if (params.projectId) {
@@ -477,6 +578,29 @@ apiRoutes.get('/requests', async c => {
       values.push(params.projectId)
     }
 
+    const accessCondition = getPrincipalProjectCondition(c, 'conversations.read', values)
+    if (accessCondition) {
+      conditions.push(accessCondition)
+      paramCount = values.length
+    }
+
+    if (params.tag) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM conversation_annotations ca
+        WHERE ca.kind = 'tag'
+          AND ca.body = $${++paramCount}
+          AND (
+            ca.request_id = api_requests.request_id
+            OR (
+              ca.request_id IS NULL
+              AND ca.conversation_id = api_requests.conversation_id
+              AND (ca.branch_id IS NULL OR ca.branch_id = api_requests.branch_id)
+            )
+          )
+      )`)
+      values.push(params.tag)
+    }
+
     // Add limit and offset
     values.push(params.limit)
     values.push(params.offset)
@@ -653,15 +777,18 @@ apiRoutes.get('/train-ids', async c => {
   }
 
   try {
+    const values: unknown[] = []
+    const principalCondition = getPrincipalProjectCondition(c, 'usage.read', values)
     const query = `
       SELECT DISTINCT project_id, COUNT(*) as request_count
       FROM api_requests
       WHERE timestamp > NOW() - INTERVAL '7 days'
+      ${principalCondition ? `AND ${principalCondition}` : ''}
       GROUP BY project_id
       ORDER BY request_count DESC
     `
 
-    const result = await pool.query(query)
+    const result = await pool.query(query, values)
     const trainIds = result.rows.map(row => ({
       projectId: row.project_id,
       requestCount: parseInt(row.request_count),
@@ -728,6 +855,18 @@ apiRoutes.get('/conversations', async c => {
       values.push(params.accountId)
     }
 
+    if (params.user) {
+      conditions.push(`ar.user_email = $${++paramCount}`)
+      values.push(params.user)
+    }
+
+    if (params.tag) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM conversation_annotations ca WHERE ca.conversation_id = ar.conversation_id AND ca.kind = 'tag' AND ca.body = $${++paramCount})`
+      )
+      values.push(params.tag)
+    }
+
     if (params.dateFrom) {
       conditions.push(`ar.timestamp >= $${++paramCount}`)
       values.push(params.dateFrom)
@@ -739,8 +878,9 @@ apiRoutes.get('/conversations', async c => {
     }
 
     const needsRows = params.offset + params.limit
+    // Tagged conversations are curated examples, so older ones must not drop out
     const useTimeBound =
-      !normalizedUserEmail && !params.dateFrom && !params.dateTo && needsRows <= 200
+      !normalizedUserEmail && !params.dateFrom && !params.dateTo && !params.tag && needsRows <= 200
     const baseFilters = ['ar.conversation_id IS NOT NULL', ...conditions]
     if (useTimeBound) {
       baseFilters.push(`ar.timestamp >= NOW() - INTERVAL '7 days'`)
@@ -755,7 +895,7 @@ apiRoutes.get('/conversations', async c => {
         LEFT JOIN project_members pm
           ON p.id = pm.project_id
           AND LOWER(pm.user_email) = $1
-        WHERE (p.is_private = false OR pm.user_email IS NOT NULL)
+        WHERE ${getProjectPermissionFilter('conversations.read', '$1')}
       ),
     `
       : ''
@@ -768,6 +908,8 @@ apiRoutes.get('/conversations', async c => {
       normalizedUserEmail || 'public',
       params.projectId || '',
       params.accountId || '',
+      params.user || '',
+      params.tag || '',
       params.dateFrom || '',
       params.dateTo || '',
       params.limit,
@@ -810,6 +952,7 @@ apiRoutes.get('/conversations', async c => {
           ar.conversation_id,
           ARRAY_AGG(DISTINCT ar.project_id) FILTER (WHERE ar.project_id IS NOT NULL) AS train_ids,
           ARRAY_AGG(DISTINCT ar.account_id) FILTER (WHERE ar.account_id IS NOT NULL) AS account_ids,
+          ARRAY_AGG(DISTINCT ar.user_email) FILTER (WHERE ar.user_email IS NOT NULL) AS user_emails,
           MIN(ar.timestamp) AS first_message_time,
           MAX(ar.timestamp) AS last_message_time,
           COUNT(*) AS message_count,
@@ -882,7 +1025,7 @@ apiRoutes.get('/conversations', async c => {
         LEFT JOIN project_members pm
           ON p.id = pm.project_id
           AND LOWER(pm.user_email) = $1
-        WHERE (p.is_private = false OR pm.user_email IS NOT NULL)
+        WHERE ${getProjectPermissionFilter('conversations.read', '$1')}
       )
       SELECT COUNT(DISTINCT ar.conversation_id) AS total
       FROM api_requests ar
@@ -920,6 +1063,7 @@ apiRoutes.get('/conversations', async c => {
           conversationId: row.conversation_id,
           trainIds: row.train_ids || [],
           accountIds: row.account_ids || [],
+          userEmails: row.user_emails || [],
           // Keep backward compatibility with single projectId/accountId (use first one)
           projectId: (row.train_ids && row.train_ids[0]) || '',
           accountId: (row.account_ids && row.account_ids[0]) || null,
@@ -981,6 +1125,238 @@ const tokenUsageDailySchema = z.object({
     .default('false'),
 })
 
+/**
+ * GET /api/conversations/:conversationId/export - Download a conversation branch
+ * as Markdown, JSON (all requests and responses) or Claude Code JSONL
+ */
+apiRoutes.get('/conversations/:conversationId/export', async c => {
+  let pool = c.get('pool')
+
+  if (!pool) {
+    const { container } = await import('../container.js')
+    pool = container.getDbPool()
+
+    if (!pool) {
+      return c.json({ error: 'Database not configured' }, 503)
+    }
+  }
+
+  const conversationId = c.req.param('conversationId')
+
+  try {
+    const params = conversationExportQuerySchema.parse(c.req.query())
+
+    const result = await pool.query(
+      `
+      SELECT
+        request_id,
+        project_id,
+        timestamp,
+        model,
+        branch_id,
+        parent_request_id,
+        COALESCE(input_tokens, 0) as input_tokens,
+        COALESCE(output_tokens, 0) as output_tokens,
+        body,
+        response_body
+      FROM api_requests
+      WHERE conversation_id = $1 AND COALESCE(branch_id, 'main') = $2
+      ORDER BY timestamp ASC
+      `,
+      [conversationId, params.branch]
+    )
+
+    if (result.rows.length === 0) {
+      return c.json({ error: 'Conversation branch not found' }, 404)
+    }
+
+    // Private projects are only exported to roles that can read conversations
+    // (principal passed by the dashboard)
+    const userEmail = c.req.header('X-Auth-Principal')?.trim().toLowerCase()
+    if (userEmail) {
+      const project = await getProjectByProjectId(pool, result.rows[0].project_id)
+      if (
+        project &&
+        !(await checkProjectPermission(pool, project.id, userEmail, 'conversations.read'))
+      ) {
+        return c.json({ error: 'Access denied: Your project role cannot read conversations' }, 403)
+      }
+    }
+
+    const requests: ExportedRequest[] = result.rows.map(row => ({
+      requestId: row.request_id,
+      projectId: row.project_id,
+      timestamp: new Date(row.timestamp),
+      model: row.model,
+      branchId: row.branch_id || 'main',
+      parentRequestId: row.parent_request_id,
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      body: row.body,
+      responseBody: row.response_body,
+    }))
+
+    const exported = exportConversation(conversationId, params.branch, requests, params.format)
+
+    return c.body(exported.content, 200, {
+      'Content-Type': exported.contentType,
+      'Content-Disposition': `attachment; filename="${exported.filename}"`,
+      'X-Project-Id': requests[0].projectId,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid parameters', details: error.errors }, 400)
+    }
+    logger.error('Failed to export conversation', {
+      error: getErrorMessage(error),
+      stack: getErrorStack(error),
+      metadata: { conversationId },
+    })
+    return c.json({ error: 'Failed to export conversation' }, 500)
+  }
+})
+
+/**
+ * GET /api/search - Full-text search over user messages, tool results,
+ * assistant text, tool names and tool inputs (see migration 031).
+ * `q` uses web search syntax ("quoted phrases", -excluded, OR).
+ */
+apiRoutes.get('/search', async c => {
+  let pool = c.get('pool')
+
+  if (!pool) {
+    const { container } = await import('../container.js')
+    pool = container.getDbPool()
+
+    if (!pool) {
+      return c.json({ error: 'Database not configured' }, 503)
+    }
+  }
+
+  try {
+    const params = searchQuerySchema.parse(c.req.query())
+
+    // Get the authenticated user's email from the header (passed by dashboard)
+    const normalizedUserEmail = c.req.header('X-Auth-Principal')?.trim().toLowerCase()
+    const values: unknown[] = []
+    let paramCount = 0
+
+    if (normalizedUserEmail) {
+      values.push(normalizedUserEmail)
+      paramCount++
+    }
+
+    values.push(params.q)
+    const queryParam = `$${++paramCount}`
+    const conditions = [`${SEARCH_VECTOR_SQL} @@ websearch_to_tsquery('english', ${queryParam})`]
+
+    if (params.projectId) {
+      conditions.push(`ar.project_id = $${++paramCount}`)
+      values.push(params.projectId)
+    }
+
+    // Model name or prefix, so "claude-opus" matches every dated Opus release
+    if (params.model) {
+      conditions.push(`starts_with(ar.model, $${++paramCount})`)
+      values.push(params.model)
+    }
+
+    if (params.dateFrom) {
+      conditions.push(`ar.timestamp >= $${++paramCount}`)
+      values.push(params.dateFrom)
+    }
+
+    if (params.dateTo) {
+      conditions.push(`ar.timestamp <= $${++paramCount}`)
+      values.push(params.dateTo)
+    }
+
+    const privacyCte = normalizedUserEmail
+      ? `
+      WITH accessible_projects AS (
+        SELECT DISTINCT p.project_id
+        FROM projects p
+        LEFT JOIN project_members pm
+          ON p.id = pm.project_id
+          AND LOWER(pm.user_email) = $1
+        WHERE ${getProjectPermissionFilter('conversations.read', '$1')}
+      )
+    `
+      : ''
+    const privacyJoin = normalizedUserEmail
+      ? 'JOIN accessible_projects ap ON ar.project_id = ap.project_id'
+      : ''
+
+    // Fetch one extra row to tell whether there is a next page
+    const limitParam = `$${++paramCount}`
+    values.push(params.limit + 1)
+    const offsetParam = `$${++paramCount}`
+    values.push(params.offset)
+    const headlineOptionsParam = `$${++paramCount}`
+    values.push(SEARCH_HEADLINE_OPTIONS)
+
+    const result = await pool.query(
+      `
+      ${privacyCte}
+      SELECT
+        matches.*,
+        ts_headline(
+          'english',
+          ${SEARCH_DOCUMENT_SQL},
+          websearch_to_tsquery('english', ${queryParam}),
+          ${headlineOptionsParam}
+        ) AS headline
+      FROM (
+        SELECT
+          ar.request_id,
+          ar.conversation_id,
+          ar.branch_id,
+          ar.project_id,
+          ar.model,
+          ar.timestamp,
+          ts_rank(${SEARCH_VECTOR_SQL}, websearch_to_tsquery('english', ${queryParam})) AS rank
+        FROM api_requests ar
+        ${privacyJoin}
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY rank DESC, ar.timestamp DESC
+        LIMIT ${limitParam}
+        OFFSET ${offsetParam}
+      ) matches
+      JOIN api_requests ar ON ar.request_id = matches.request_id
+      ORDER BY matches.rank DESC, matches.timestamp DESC
+      `,
+      values
+    )
+
+    const rows = result.rows.slice(0, params.limit)
+
+    return c.json({
+      query: params.q,
+      results: rows.map(row => ({
+        requestId: row.request_id,
+        conversationId: row.conversation_id,
+        branchId: row.branch_id || 'main',
+        projectId: row.project_id,
+        model: row.model,
+        timestamp: row.timestamp,
+        rank: Number(row.rank),
+        snippet: parseHeadline(row.headline || ''),
+      })),
+      pagination: {
+        limit: params.limit,
+        offset: params.offset,
+        hasMore: result.rows.length > params.limit,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid parameters', details: error.errors }, 400)
+    }
+    logger.error('Failed to search requests', { error: getErrorMessage(error) })
+    return c.json({ error: 'Failed to search requests' }, 500)
+  }
+})
+
 /**
  * GET /api/token-usage/current - Get current window token usage
  */
@@ -1362,7 +1738,15 @@ apiRoutes.get('/token-usage/accounts', async c => {
 })
 
 /**
- * GET /api/usage/requests/hourly - Get hourly request counts by train ID
+ * Series key for the hourly usage endpoints: the project (default) or the
+ * attributed user, with unattributed requests grouped together
+ */
+function hourlyUsageGroupColumn(groupBy: string | undefined): string {
+  return groupBy === 'user' ? `COALESCE(user_email, '${UNATTRIBUTED_USER}')` : 'project_id'
+}
+
+/**
+ * GET /api/usage/requests/hourly - Get hourly request counts by train ID or user
  */
 apiRoutes.get('/usage/requests/hourly', async c => {
   let pool = c.get('pool')
@@ -1377,6 +1761,8 @@ apiRoutes.get('/usage/requests/hourly', async c => {
   try {
     const query = c.req.query()
     const projectId = query.projectId
+    const user = query.user
+    const groupBy = query.groupBy === 'user' ? 'user' : 'project'
     const days = parseInt(query.days || '7')
 
     // Validate days parameter
@@ -1385,7 +1771,7 @@ apiRoutes.get('/usage/requests/hourly', async c => {
     }
 
     const conditions = []
-    const values = []
+    const values: unknown[] = []
     let paramCount = 0
 
     // Base condition for time range - using parameterized query for security
@@ -1398,12 +1784,22 @@ apiRoutes.get('/usage/requests/hourly', async c => {
       values.push(projectId)
     }
 
+    if (user) {
+      conditions.push(`user_email = $${++paramCount}`)
+      values.push(user)
+    }
+
+    const accessCondition = getPrincipalProjectCondition(c, 'usage.read', values)
+    if (accessCondition) {
+      conditions.push(accessCondition)
+    }
+
     const whereClause = conditions.join(' AND ')
 
     // Query to get hourly request counts grouped by train ID
     const hourlyQuery = `
       SELECT
-        project_id,
+        ${hourlyUsageGroupColumn(groupBy)} as group_key,
         DATE_TRUNC('hour', timestamp AT TIME ZONE 'UTC') as hour,
         COUNT(*) as request_count
       FROM
@@ -1411,10 +1807,10 @@ apiRoutes.get('/usage/requests/hourly', async c => {
       WHERE
         ${whereClause}
       GROUP BY
-        project_id,
+        group_key,
         hour
       ORDER BY
-        project_id,
+        group_key,
         hour
     `
 
@@ -1424,7 +1820,7 @@ apiRoutes.get('/usage/requests/hourly', async c => {
     const data: Record<string, Array<{ hour: string; count: number }>> = {}
 
     result.rows.forEach(row => {
-      const trainKey = row.project_id || 'unknown'
+      const trainKey = row.group_key || 'unknown'
       if (!data[trainKey]) {
         data[trainKey] = []
       }
@@ -1438,6 +1834,8 @@ apiRoutes.get('/usage/requests/hourly', async c => {
       data,
       query: {
         projectId: projectId || null,
+        user: user || null,
+        groupBy,
         days,
       },
     })
@@ -1451,7 +1849,7 @@ apiRoutes.get('/usage/requests/hourly', async c => {
 })
 
 /**
- * GET /api/usage/tokens/hourly - Get hourly token counts by train ID (output tokens only)
+ * GET /api/usage/tokens/hourly - Get hourly token counts by train ID or user (output tokens only)
  */
 apiRoutes.get('/usage/tokens/hourly', async c => {
   let pool = c.get('pool')
@@ -1466,6 +1864,8 @@ apiRoutes.get('/usage/tokens/hourly', async c => {
   try {
     const query = c.req.query()
     const projectId = query.projectId
+    const user = query.user
+    const groupBy = query.groupBy === 'user' ? 'user' : 'project'
     const days = parseInt(query.days || '7')
 
     // Validate days parameter
@@ -1474,7 +1874,7 @@ apiRoutes.get('/usage/tokens/hourly', async c => {
     }
 
     const conditions = []
-    const values = []
+    const values: unknown[] = []
     let paramCount = 0
 
     // Base condition for time range
@@ -1487,12 +1887,22 @@ apiRoutes.get('/usage/tokens/hourly', async c => {
       values.push(projectId)
     }
 
+    if (user) {
+      conditions.push(`user_email = $${++paramCount}`)
+      values.push(user)
+    }
+
+    const accessCondition = getPrincipalProjectCondition(c, 'usage.read', values)
+    if (accessCondition) {
+      conditions.push(accessCondition)
+    }
+
     const whereClause = conditions.join(' AND ')
 
     // Query to get hourly token sums grouped by train ID (output tokens only)
     const hourlyQuery = `
       SELECT
-        project_id,
+        ${hourlyUsageGroupColumn(groupBy)} as group_key,
         DATE_TRUNC('hour', timestamp AT TIME ZONE 'UTC') as hour,
         COALESCE(SUM(output_tokens), 0) as token_count
       FROM
@@ -1500,10 +1910,10 @@ apiRoutes.get('/usage/tokens/hourly', async c => {
       WHERE
         ${whereClause}
       GROUP BY
-        project_id,
+        group_key,
         hour
       ORDER BY
-        project_id,
+        group_key,
         hour
     `
 
@@ -1513,7 +1923,7 @@ apiRoutes.get('/usage/tokens/hourly', async c => {
     const data: Record<string, Array<{ hour: string; count: number }>> = {}
 
     for (const row of rows) {
-      const trainName = row.project_id || 'unknown'
+      const trainName = row.group_key || 'unknown'
       if (!data[trainName]) {
         data[trainName] = []
       }
@@ -1528,6 +1938,8 @@ apiRoutes.get('/usage/tokens/hourly', async c => {
       data,
       query: {
         projectId: projectId || null,
+        user: user || null,
+        groupBy,
         days,
       },
     })
@@ -1537,6 +1949,95 @@ apiRoutes.get('/usage/tokens/hourly', async c => {
   }
 })
 
+/**
+ * GET /api/usage/users - Requests, tokens and estimated cost per attributed user
+ */
+apiRoutes.get('/usage/users', async c => {
+  let pool = c.get('pool')
+
+  if (!pool) {
+    pool = container.getDbPool()
+    if (!pool) {
+      return c.json({ error: 'Database not configured' }, 503)
+    }
+  }
+
+  try {
+    const query = c.req.query()
+    const days = parseInt(query.days || '7')
+
+    if (isNaN(days) || days < 1 || days > 90) {
+      return c.json({ error: 'Days parameter must be between 1 and 90' }, 400)
+    }
+
+    const users = await getUserUsageSummary(pool, {
+      since: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+      projectId: query.projectId || undefined,
+      userEmail: query.user || undefined,
+      principal: c.req.header('X-Auth-Principal') || undefined,
+    })
+
+    return c.json({
+      users,
+      query: {
+        projectId: query.projectId || null,
+        user: query.user || null,
+        days,
+      },
+    })
+  } catch (error) {
+    logger.error('Failed to get per-user usage', { error: getErrorMessage(error) })
+    return c.json({ error: 'Failed to retrieve per-user usage data' }, 500)
+  }
+})
+
+/**
+ * GET /api/usage/tools - Tool calls per tool, top Bash commands and most-edited files
+ */
+apiRoutes.get('/usage/tools', async c => {
+  let pool = c.get('pool')
+
+  if (!pool) {
+    pool = container.getDbPool()
+    if (!pool) {
+      return c.json({ error: 'Database not configured' }, 503)
+    }
+  }
+
+  try {
+    const params = toolUsageQuerySchema.parse(c.req.query())
+    const since = params.dateFrom
+      ? new Date(params.dateFrom)
+      : new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+
+    // Only projects whose conversations the principal can read (passed by the dashboard)
+    const report = await getToolUsageReport(pool, {
+      since,
+      until: params.dateTo ? new Date(params.dateTo) : undefined,
+      projectId: params.projectId || undefined,
+      userEmail: params.user || undefined,
+      principal: c.req.header('X-Auth-Principal') || undefined,
+      limit: params.limit,
+    })
+
+    return c.json({
+      ...report,
+      query: {
+        projectId: params.projectId || null,
+        user: params.user || null,
+        dateFrom: since.toISOString(),
+        dateTo: params.dateTo || null,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid parameters', details: error.errors }, 400)
+    }
+    logger.error('Failed to get tool usage', { error: getErrorMessage(error) })
+    return c.json({ error: 'Failed to retrieve tool usage data' }, 500)
+  }
+})
+
 /**
  * GET /api/analytics/token-usage/sliding-window - Get sliding window token usage with rate limit status
  */
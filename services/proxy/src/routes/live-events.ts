@@ -0,0 +1,135 @@
+import { Hono } from 'hono'
+import { streamSSE } from 'hono/streaming'
+import { Pool } from 'pg'
+import { logger } from '../middleware/logger.js'
+import { getErrorMessage, getProjectPermissionFilter } from '@agent-prompttrain/shared'
+import { liveEventBus, type LiveEvent } from '../dashboard/sse.js'
+
+const HEARTBEAT_INTERVAL_MS = 15000
+const ACCESS_REFRESH_INTERVAL_MS = 60000
+
+export const liveEventsRoutes = new Hono<{
+  Variables: {
+    pool?: Pool
+  }
+}>()
+
+/**
+ * Load the projects whose conversations a user may NOT see.
+ * Public projects and projects created later default to visible, so a deny-list
+ * keeps the per-event check cheap.
+ */
+async function loadHiddenProjectIds(pool: Pool, userEmail: string): Promise<Set<string>> {
+  const result = await pool.query<{ project_id: string }>(
+    `
+    SELECT p.project_id
+    FROM projects p
+    LEFT JOIN project_members pm ON pm.project_id = p.id AND LOWER(pm.user_email) = $1
+    WHERE NOT ${getProjectPermissionFilter('conversations.read', '$1')}
+    `,
+    [userEmail]
+  )
+  return new Set(result.rows.map(row => row.project_id))
+}
+
+function matchesFilters(
+  event: LiveEvent,
+  filters: { projectId?: string; conversationId?: string; hidden: Set<string> }
+): boolean {
+  if (filters.hidden.has(event.projectId)) {
+    return false
+  }
+  if (filters.projectId && event.projectId !== filters.projectId) {
+    return false
+  }
+  if (filters.conversationId) {
+    if (event.type === 'metrics') {
+      return false
+    }
+    return event.data.conversationId === filters.conversationId
+  }
+  return true
+}
+
+/**
+ * GET /api/events - Server-sent event stream of new requests, conversation
+ * updates and token metrics.
+ *
+ * Query params: projectId, conversationId (both optional).
+ * The dashboard forwards the signed-in user in X-Auth-Principal so private
+ * projects are filtered the same way as /api/conversations.
+ */
+liveEventsRoutes.get('/events', async c => {
+  const pool = c.get('pool')
+  const projectId = c.req.query('projectId') || undefined
+  const conversationId = c.req.query('conversationId') || undefined
+  const userEmail = c.req.header('X-Auth-Principal')?.trim().toLowerCase()
+
+  let hidden = new Set<string>()
+  if (pool && userEmail) {
+    try {
+      hidden = await loadHiddenProjectIds(pool, userEmail)
+    } catch (error) {
+      logger.error('Failed to load project access for live events', {
+        error: getErrorMessage(error),
+      })
+      return c.json({ error: 'Failed to open live event stream' }, 500)
+    }
+  }
+
+  return streamSSE(c, async stream => {
+    const queue: LiveEvent[] = []
+    let wake: (() => void) | undefined
+    let lastAccessRefresh = Date.now()
+
+    const unsubscribe = liveEventBus.subscribe(event => {
+      if (matchesFilters(event, { projectId, conversationId, hidden })) {
+        queue.push(event)
+        wake?.()
+      }
+    })
+
+    stream.onAbort(() => {
+      unsubscribe()
+      wake?.()
+    })
+
+    try {
+      await stream.writeSSE({ event: 'ready', data: JSON.stringify({ projectId, conversationId }) })
+
+      while (!stream.aborted) {
+        const event = queue.shift()
+        if (event) {
+          await stream.writeSSE({ event: event.type, data: JSON.stringify(event.data) })
+          continue
+        }
+
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, HEARTBEAT_INTERVAL_MS)
+          wake = () => {
+            clearTimeout(timer)
+            resolve()
+          }
+        })
+        wake = undefined
+
+        if (queue.length === 0 && !stream.aborted) {
+          await stream.write(': heartbeat\n\n')
+        }
+
+        if (pool && userEmail && Date.now() - lastAccessRefresh > ACCESS_REFRESH_INTERVAL_MS) {
+          lastAccessRefresh = Date.now()
+          try {
+            hidden = await loadHiddenProjectIds(pool, userEmail)
+          } catch (error) {
+            logger.warn('Failed to refresh project access for live events', {
+              error: getErrorMessage(error),
+            })
+          }
+        }
+      }
+    } finally {
+      unsubscribe()
+    }
+  })
+})
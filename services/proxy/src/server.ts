@@ -11,6 +11,7 @@ import { ProxyService } from './services/ProxyService.js'
 import { AuthenticationService } from './services/AuthenticationService.js'
 import { UsageCacheService } from './services/usage-cache-service.js'
 import { ClaudeApiClient } from './services/ClaudeApiClient.js'
+import { BedrockApiClient } from './services/BedrockApiClient.js'
 import { MetricsService } from './services/MetricsService.js'
 import { NotificationService } from './services/NotificationService.js'
 import { StorageAdapter } from './storage/StorageAdapter.js'
@@ -58,6 +59,10 @@ async function startServer() {
     baseUrl: config.api.claudeBaseUrl,
     timeout: config.api.claudeTimeout,
   })
+  const bedrockClient = new BedrockApiClient({
+    region: 'us-east-1', // Default region, will be overridden per-request
+    timeout: config.api.claudeTimeout,
+  })
   const notificationService = new NotificationService()
 
   // Create storage service if database is configured
@@ -75,7 +80,13 @@ async function startServer() {
   )
 
   // 3. Create the main proxy service with all its dependencies
-  const proxyService = new ProxyService(authService, apiClient, notificationService, metricsService)
+  const proxyService = new ProxyService(
+    authService,
+    apiClient,
+    bedrockClient,
+    notificationService,
+    metricsService
+  )
 
   // 4. Create the controller (created but not used here - app.ts will use it)
   new MessageController(proxyService)
@@ -7,6 +7,7 @@ import {
   type ProviderType,
   type UpstreamError,
 } from '@agent-prompttrain/shared'
+import { getCredentialByAccountId } from '@agent-prompttrain/shared/database/queries'
 import { RequestContext } from '../domain/value-objects/RequestContext'
 import { getApiKey } from '../credentials'
 import { logger } from '../middleware/logger'
@@ -68,13 +69,9 @@ export class AuthenticationService {
         },
       })
 
-      // Get all credentials to find the requested one
-      const allCredentials = await this.pool.query<Credential>(
-        'SELECT * FROM credentials WHERE account_id = $1',
-        [requestedAccount]
-      )
+      const credential = await getCredentialByAccountId(this.pool, requestedAccount)
 
-      if (!allCredentials.rows.length) {
+      if (!credential) {
         throw new AuthenticationError('Requested account not found', {
           requestId: context.requestId,
           account: requestedAccount,
@@ -82,7 +79,7 @@ export class AuthenticationService {
         })
       }
 
-      return this.buildAuthResult(allCredentials.rows[0], context, {
+      return this.buildAuthResult(credential, context, {
         fromPool: false,
         reserved: false,
         explicitlySelected: true,
@@ -208,6 +205,7 @@ export class AuthenticationService {
       throw new AuthenticationError('Failed to retrieve access token', {
         requestId: context.requestId,
         account: credential.account_name,
+        reason: 'oauth_refresh_failed',
       })
     }
 
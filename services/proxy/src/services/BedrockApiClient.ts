@@ -9,13 +9,27 @@ import {
   getErrorMessage,
 } from '@agent-prompttrain/shared'
 import { logger } from '../middleware/logger'
-import { mapToBedrockModel } from '@agent-prompttrain/shared/config/model-mapping'
+import {
+  extractBedrockRegion,
+  mapToBedrockModel,
+} from '@agent-prompttrain/shared/config/model-mapping'
+import type { AuthResult } from './AuthenticationService'
+import { createAnthropicSseEncoder, createAwsEventStreamParser } from '../utils/aws-event-stream'
 
 export interface BedrockApiConfig {
   region: string
   timeout: number
 }
 
+/** Claude API error types for Bedrock error statuses */
+const BEDROCK_ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  429: 'rate_limit_error',
+  503: 'overloaded_error',
+}
+
 export interface BedrockAuthHeaders {
   [key: string]: string
 }
@@ -28,20 +42,24 @@ export class BedrockApiClient {
   constructor(private config: BedrockApiConfig) {}
 
   /**
-   * Forward a request to Bedrock API
+   * Forward a /v1/messages request to Bedrock API
+   * Streaming responses are translated from AWS event-stream frames to Anthropic
+   * SSE, so callers can process them like Claude API responses.
    * Marks empty responses with a custom header (common Bedrock issue)
    */
   async forward(
     request: ProxyRequest,
-    authHeaders: BedrockAuthHeaders,
+    auth: AuthResult,
     clientHeaders?: Record<string, string>
   ): Promise<Response> {
     // Map the model ID to Bedrock format
     const bedrockModelId = mapToBedrockModel(request.raw.model)
+    // Region priority: model ID prefix > account region > default
+    const region = extractBedrockRegion(bedrockModelId, auth.region || this.config.region)
 
     // Construct Bedrock URL
     const streamSuffix = request.raw.stream ? '-with-response-stream' : ''
-    const url = `https://bedrock-runtime.${this.config.region}.amazonaws.com/model/${bedrockModelId}/invoke${streamSuffix}`
+    const url = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(bedrockModelId)}/invoke${streamSuffix}`
 
     // Prepare Bedrock-specific headers
     // Blacklist headers that should not be forwarded to Bedrock
@@ -61,11 +79,27 @@ export class BedrockApiClient {
     // Add Bedrock authentication
     const headers = {
       ...filteredHeaders,
-      ...authHeaders, // Contains Authorization header
+      ...auth.headers, // Contains Authorization header
     }
 
     const response = await this.makeRequest(url, request, headers)
 
+    if (request.raw.stream && response.body) {
+      const responseHeaders = new Headers(response.headers)
+      responseHeaders.set('content-type', 'text/event-stream')
+      responseHeaders.delete('content-length')
+      return new Response(
+        response.body
+          .pipeThrough(createAwsEventStreamParser())
+          .pipeThrough(createAnthropicSseEncoder()),
+        {
+          status: response.status,
+          statusText: response.statusText,
+          headers: responseHeaders,
+        }
+      )
+    }
+
     // Check for empty responses (common Bedrock issue) and mark them
     if (!request.raw.stream && response.ok) {
       try {
@@ -160,6 +194,13 @@ export class BedrockApiClient {
           parsedError = JSON.parse(errorBody)
           if (isClaudeError(parsedError)) {
             errorMessage = `${parsedError.error.type}: ${parsedError.error.message}`
+          } else {
+            // Bedrock errors are `{ "message": ... }`; return them to /v1/messages
+            // clients in the Claude API error format
+            const message = (parsedError as { message?: string })?.message ?? errorBody
+            const type = BEDROCK_ERROR_TYPES[response.status] ?? 'api_error'
+            errorMessage = `${type}: ${message}`
+            parsedError = { type: 'error', error: { type, message } }
           }
         } catch {
           // Use text error if not JSON
@@ -167,6 +208,11 @@ export class BedrockApiClient {
           parsedError = { error: { message: errorBody, type: 'api_error' } }
         }
 
+        const upstreamHeaders: Record<string, string> = {}
+        response.headers.forEach((value, key) => {
+          upstreamHeaders[key] = value
+        })
+
         // Log detailed error info for debugging
         logger.error('Bedrock API error response', {
           requestId: request.requestId,
@@ -186,7 +232,8 @@ export class BedrockApiClient {
             status: response.status,
             body: errorBody,
           },
-          parsedError
+          parsedError,
+          upstreamHeaders
         )
       }
 
@@ -5,8 +5,14 @@ import { tokenTracker } from './tokenTracker.js'
 import { StorageAdapter } from '../storage/StorageAdapter.js'
 import { TokenUsageService } from './TokenUsageService.js'
 import { logger } from '../middleware/logger'
-import { broadcastConversation, broadcastMetrics } from '../dashboard/sse.js'
-import { generateConversationId, ClaudeMessage } from '@agent-prompttrain/shared'
+import { recordRateLimitTokens } from '../middleware/rate-limit.js'
+import { proxyMetrics } from './proxy-metrics.js'
+import { broadcastConversation, broadcastMetrics, broadcastRequest } from '../dashboard/sse.js'
+import {
+  generateConversationId,
+  normalizeClientUserId,
+  ClaudeMessage,
+} from '@agent-prompttrain/shared'
 
 /**
  * System prompt prefixes that indicate internal Claude Code helper requests
@@ -45,6 +51,15 @@ export interface TelemetryData {
   requestType?: string
 }
 
+/**
+ * Identifiers of a request persisted by the storage adapter
+ */
+interface StoredRequestRef {
+  requestId: string
+  conversationId?: string
+  branchId?: string
+}
+
 // Request types that should not be stored in the database
 const NON_STORABLE_REQUEST_TYPES = new Set<RequestType>([
   'query_evaluation',
@@ -92,6 +107,18 @@ export class MetricsService {
   ): Promise<void> {
     const metrics = response.getMetrics()
 
+    proxyMetrics.recordRequest({
+      projectId: context.projectId,
+      // The model that served the request; request.model is already rerouted
+      model: fullResponseBody?.model || request.model,
+      status,
+      durationMs: context.getElapsedTime(),
+      inputTokens: metrics.inputTokens,
+      outputTokens: metrics.outputTokens,
+      cacheReadInputTokens: metrics.cacheReadInputTokens,
+      cacheCreationInputTokens: metrics.cacheCreationInputTokens,
+    })
+
     // logger.debug('Tracking metrics for request', {
     //   requestId: context.requestId,
     //   projectId: context.projectId,
@@ -127,9 +154,15 @@ export class MetricsService {
       }
     }
 
+    // Count tokens against the rate limit windows this request was admitted in
+    if (context.honoContext) {
+      await recordRateLimitTokens(context.honoContext, metrics.inputTokens + metrics.outputTokens)
+    }
+
     // Store in database
+    let stored: StoredRequestRef | undefined
     if (this.config.enableStorage && this.storageService) {
-      await this.storeRequest(
+      stored = await this.storeRequest(
         request,
         response,
         context,
@@ -173,33 +206,15 @@ export class MetricsService {
     })
 
     // Broadcast to dashboard
-    try {
-      // Broadcast conversation update
-      broadcastConversation({
-        id: context.requestId,
-        projectId: context.projectId,
-        model: request.model,
-        tokens: metrics.inputTokens + metrics.outputTokens,
-        timestamp: new Date().toISOString(),
-      })
-
-      // Broadcast metrics update
-      const stats = tokenTracker.getStats()
-      const trainStats = stats[context.projectId]
-      if (trainStats) {
-        broadcastMetrics({
-          projectId: context.projectId,
-          requests: trainStats.requestCount,
-          tokens: trainStats.inputTokens + trainStats.outputTokens,
-          activeUsers: Object.keys(stats).length,
-        })
-      }
-    } catch (e) {
-      // Don't fail request if broadcast fails
-      logger.debug('Failed to broadcast metrics', {
-        metadata: { error: e instanceof Error ? e.message : String(e) },
-      })
-    }
+    this.broadcastLiveUpdate(context, {
+      model: request.model,
+      requestType: request.requestType,
+      accountId,
+      status,
+      inputTokens: metrics.inputTokens,
+      outputTokens: metrics.outputTokens,
+      stored,
+    })
   }
 
   /**
@@ -235,6 +250,17 @@ export class MetricsService {
     const content = responseBody.content as Array<{ type: string }> | undefined
     const toolCallCount = content?.filter(c => c.type === 'tool_use').length || 0
 
+    proxyMetrics.recordRequest({
+      projectId: context.projectId,
+      model,
+      status,
+      durationMs: context.getElapsedTime(),
+      inputTokens,
+      outputTokens,
+      cacheReadInputTokens,
+      cacheCreationInputTokens,
+    })
+
     // Track tokens
     if (this.config.enableTokenTracking) {
       tokenTracker.track(context.projectId, inputTokens, outputTokens, 'inference', toolCallCount)
@@ -256,9 +282,14 @@ export class MetricsService {
       }
     }
 
+    if (context.honoContext) {
+      await recordRateLimitTokens(context.honoContext, totalTokens)
+    }
+
     // Store in database
+    let stored: StoredRequestRef | undefined
     if (this.config.enableStorage && this.storageService) {
-      await this.storeNativeBedrockRequest(
+      stored = await this.storeNativeBedrockRequest(
         context,
         model,
         requestBody,
@@ -291,30 +322,15 @@ export class MetricsService {
     })
 
     // Broadcast to dashboard
-    try {
-      broadcastConversation({
-        id: context.requestId,
-        projectId: context.projectId,
-        model,
-        tokens: totalTokens,
-        timestamp: new Date().toISOString(),
-      })
-
-      const stats = tokenTracker.getStats()
-      const trainStats = stats[context.projectId]
-      if (trainStats) {
-        broadcastMetrics({
-          projectId: context.projectId,
-          requests: trainStats.requestCount,
-          tokens: trainStats.inputTokens + trainStats.outputTokens,
-          activeUsers: Object.keys(stats).length,
-        })
-      }
-    } catch (e) {
-      logger.debug('Failed to broadcast metrics', {
-        metadata: { error: e instanceof Error ? e.message : String(e) },
-      })
-    }
+    this.broadcastLiveUpdate(context, {
+      model,
+      requestType: 'inference',
+      accountId,
+      status,
+      inputTokens,
+      outputTokens,
+      stored,
+    })
   }
 
   /**
@@ -326,6 +342,13 @@ export class MetricsService {
     context: RequestContext,
     status: number = 500
   ): Promise<void> {
+    proxyMetrics.recordRequest({
+      projectId: context.projectId,
+      model: request.model,
+      status,
+      durationMs: context.getElapsedTime(),
+    })
+
     // Track in token stats (error counts)
     if (this.config.enableTokenTracking) {
       tokenTracker.track(
@@ -394,30 +417,43 @@ export class MetricsService {
     responseHeaders?: Record<string, string>,
     fullResponseBody?: any,
     accountId?: string
-  ): Promise<void> {
+  ): Promise<StoredRequestRef | undefined> {
     if (!this.storageService) {
-      return
+      return undefined
+    }
+
+    // Response cache hits are stored even for helper requests so their savings
+    // can be reported, but helper hits are kept out of conversation tracking
+    const isHelperRequest =
+      NON_STORABLE_REQUEST_TYPES.has(request.requestType) ||
+      (!request.hasCustomSystemPrompt && this.isInternalClaudeCodeRequest(request.raw))
+    if (response.isResponseCacheHit && isHelperRequest) {
+      conversationData = undefined
     }
 
     // Skip storing requests based on type
-    if (NON_STORABLE_REQUEST_TYPES.has(request.requestType)) {
+    if (!response.isResponseCacheHit && NON_STORABLE_REQUEST_TYPES.has(request.requestType)) {
       logger.debug('Skipping storage for non-storable request type', {
         requestId: context.requestId,
         requestType: request.requestType,
         projectId: context.projectId,
       })
-      return
+      return undefined
     }
 
     // Skip storing internal Claude Code helper requests
     // But not when a project-level system prompt override was applied,
     // since the overridden system prompt replaces the original and
     // should not be matched against internal helper prefixes.
-    if (!request.hasCustomSystemPrompt && this.isInternalClaudeCodeRequest(request.raw)) {
+    if (
+      !response.isResponseCacheHit &&
+      !request.hasCustomSystemPrompt &&
+      this.isInternalClaudeCodeRequest(request.raw)
+    ) {
       logger.debug('Skipping storage for internal Claude Code request', {
         requestId: context.requestId,
       })
-      return
+      return undefined
     }
 
     try {
@@ -429,7 +465,7 @@ export class MetricsService {
         messageCount = request.raw.messages.length
       }
 
-      await this.storageService.storeRequest({
+      const storedRequestId = await this.storageService.storeRequest({
         id: context.requestId,
         projectId: context.projectId,
         accountId: accountId,
@@ -458,6 +494,12 @@ export class MetricsService {
         parentRequestId: conversationData?.parentRequestId,
         parentTaskRequestId: conversationData?.parentTaskRequestId,
         isSubtask: conversationData?.isSubtask,
+        appliedTransforms: request.appliedTransforms,
+        requestedModel:
+          request.requestedModel !== request.model ? request.requestedModel : undefined,
+        routingReason: request.routingReason ?? undefined,
+        clientUserId: normalizeClientUserId(request.raw.metadata?.user_id) ?? undefined,
+        apiKeyUser: context.apiKeyUser,
       })
 
       // Store response
@@ -475,6 +517,7 @@ export class MetricsService {
         usage_data: metrics.fullUsageData,
         tool_call_count: metrics.toolCallCount,
         processing_time: context.getElapsedTime(),
+        response_cache_savings: metrics.responseCacheSavings,
       })
 
       // Process Task tool invocations if we have the full response body
@@ -485,6 +528,12 @@ export class MetricsService {
           context.projectId
         )
       }
+
+      return {
+        requestId: storedRequestId,
+        conversationId: conversationData?.conversationId,
+        branchId: conversationData?.branchId,
+      }
     } catch (error) {
       logger.error('Failed to store request/response', {
         requestId: context.requestId,
@@ -492,6 +541,7 @@ export class MetricsService {
           error: error instanceof Error ? error.message : String(error),
         },
       })
+      return undefined
     }
   }
 
@@ -515,9 +565,9 @@ export class MetricsService {
       toolCallCount: number
     },
     responseHeaders?: Record<string, string>
-  ): Promise<void> {
+  ): Promise<StoredRequestRef | undefined> {
     if (!this.storageService) {
-      return
+      return undefined
     }
 
     // Check if this is an internal Claude Code helper request that should not be stored
@@ -525,7 +575,7 @@ export class MetricsService {
       logger.debug('Skipping storage for internal Claude Code request', {
         requestId: context.requestId,
       })
-      return
+      return undefined
     }
 
     try {
@@ -593,7 +643,7 @@ export class MetricsService {
         }
       }
 
-      await this.storageService.storeRequest({
+      const storedRequestId = await this.storageService.storeRequest({
         id: context.requestId,
         projectId: context.projectId,
         accountId: accountId,
@@ -622,6 +672,11 @@ export class MetricsService {
         parentRequestId: conversationData?.parentRequestId,
         parentTaskRequestId: conversationData?.parentTaskRequestId,
         isSubtask: conversationData?.isSubtask,
+        clientUserId:
+          normalizeClientUserId(
+            (requestBody.metadata as { user_id?: unknown } | undefined)?.user_id
+          ) ?? undefined,
+        apiKeyUser: context.apiKeyUser,
       })
 
       // Store response
@@ -647,6 +702,12 @@ export class MetricsService {
         responseBody,
         context.projectId
       )
+
+      return {
+        requestId: storedRequestId,
+        conversationId: conversationData?.conversationId,
+        branchId: conversationData?.branchId,
+      }
     } catch (error) {
       logger.error('Failed to store native Bedrock request/response', {
         requestId: context.requestId,
@@ -654,6 +715,74 @@ export class MetricsService {
           error: error instanceof Error ? error.message : String(error),
         },
       })
+      return undefined
+    }
+  }
+
+  /**
+   * Push request, conversation and token metric updates to the dashboard live feed.
+   * Only stored requests produce request/conversation events, since the dashboard
+   * links to their database IDs.
+   */
+  private broadcastLiveUpdate(
+    context: RequestContext,
+    update: {
+      model: string
+      requestType?: string
+      accountId?: string
+      status: number
+      inputTokens: number
+      outputTokens: number
+      stored?: StoredRequestRef
+    }
+  ): void {
+    try {
+      const timestamp = new Date().toISOString()
+      const totalTokens = update.inputTokens + update.outputTokens
+
+      if (update.stored) {
+        broadcastRequest({
+          requestId: update.stored.requestId,
+          projectId: context.projectId,
+          accountId: update.accountId,
+          model: update.model,
+          requestType: update.requestType,
+          inputTokens: update.inputTokens,
+          outputTokens: update.outputTokens,
+          totalTokens,
+          durationMs: context.getElapsedTime(),
+          status: update.status,
+          conversationId: update.stored.conversationId,
+          branchId: update.stored.branchId,
+          timestamp: new Date(context.startTime).toISOString(),
+        })
+
+        broadcastConversation({
+          id: update.stored.requestId,
+          projectId: context.projectId,
+          conversationId: update.stored.conversationId,
+          branchId: update.stored.branchId,
+          model: update.model,
+          tokens: totalTokens,
+          timestamp,
+        })
+      }
+
+      const stats = tokenTracker.getStats()
+      const trainStats = stats[context.projectId]
+      if (trainStats) {
+        broadcastMetrics({
+          projectId: context.projectId,
+          requests: trainStats.requestCount,
+          tokens: trainStats.inputTokens + trainStats.outputTokens,
+          activeUsers: Object.keys(stats).length,
+        })
+      }
+    } catch (e) {
+      // Don't fail request if broadcast fails
+      logger.debug('Failed to broadcast metrics', {
+        metadata: { error: e instanceof Error ? e.message : String(e) },
+      })
     }
   }
 
@@ -4,7 +4,14 @@ import { RequestContext } from '../domain/value-objects/RequestContext'
 import { AuthResult } from './AuthenticationService'
 import { sendToSlack, initializeTrainSlack, MessageInfo } from './slack.js'
 import { logger } from '../middleware/logger'
-import type { SlackConfig } from '@agent-prompttrain/shared'
+import { AccountPoolExhaustedError } from './account-pool-service'
+import { WebhookService } from './webhook-service'
+import {
+  AuthenticationError,
+  type BudgetPeriodStatus,
+  type SlackConfig,
+  type WebhookEventType,
+} from '@agent-prompttrain/shared'
 
 export interface NotificationConfig {
   enabled: boolean
@@ -14,7 +21,8 @@ export interface NotificationConfig {
 
 /**
  * Service responsible for sending notifications
- * Currently supports Slack, but could be extended to other channels
+ * Conversations, errors and budget alerts go to Slack; project events also go
+ * to the project's subscribed webhooks
  */
 export class NotificationService {
   private previousMessages = new Map<string, string>()
@@ -25,7 +33,8 @@ export class NotificationService {
       enabled: true,
       maxLines: 20,
       maxLength: 3000,
-    }
+    },
+    private webhookService?: WebhookService
   ) {}
 
   /**
@@ -244,6 +253,20 @@ export class NotificationService {
       return
     }
 
+    this.webhookService?.dispatch(context.projectId, this.getErrorEventType(error), {
+      requestId: context.requestId,
+      path: context.path,
+      errorType: error.name,
+      message: error.message,
+      statusCode: (error as { statusCode?: number }).statusCode ?? 500,
+      ...(error instanceof AccountPoolExhaustedError
+        ? { estimatedReset: error.estimatedReset }
+        : {}),
+      ...(error instanceof AuthenticationError && error.context?.account
+        ? { account: error.context.account }
+        : {}),
+    })
+
     try {
       // Get Slack config for the project
       const accountWebhook = null
@@ -273,6 +296,95 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send a soft-limit alert when a project's spend crosses its budget alert threshold
+   */
+  async notifyBudgetAlert(
+    projectId: string,
+    budget: BudgetPeriodStatus,
+    alertThreshold: number,
+    slackConfig: SlackConfig | null = null
+  ): Promise<void> {
+    if (!this.config.enabled) {
+      return
+    }
+
+    this.webhookService?.dispatch(projectId, 'budget.threshold', {
+      period: budget.period,
+      limitUsd: budget.limitUsd,
+      spentUsd: budget.spentUsd,
+      utilization: budget.utilization,
+      alertThreshold,
+      exceeded: budget.exceeded,
+      resetsAt: budget.resetsAt.toISOString(),
+    })
+
+    const percent = Math.round(budget.utilization * 100)
+    const content = budget.exceeded
+      ? `:no_entry: Project ${projectId} has reached its ${budget.period} budget: ` +
+        `$${budget.spentUsd.toFixed(2)} of $${budget.limitUsd.toFixed(2)} (${percent}%). ` +
+        `New requests are rejected until ${budget.resetsAt.toISOString()}.`
+      : `:warning: Project ${projectId} has used ${percent}% of its ${budget.period} budget ` +
+        `($${budget.spentUsd.toFixed(2)} of $${budget.limitUsd.toFixed(2)}, alert threshold ` +
+        `${Math.round(alertThreshold * 100)}%). Requests will be rejected once the budget is spent.`
+
+    try {
+      const accountWebhook = slackConfig ? initializeTrainSlack(slackConfig) : null
+
+      await sendToSlack(
+        {
+          requestId: `budget-${budget.period}-${budget.periodStart.toISOString()}`,
+          projectId,
+          role: 'assistant',
+          content,
+          timestamp: new Date().toISOString(),
+        },
+        accountWebhook
+      )
+    } catch (notifyError) {
+      logger.error('Failed to send budget alert notification', {
+        projectId,
+        metadata: {
+          period: budget.period,
+          notifyError: notifyError instanceof Error ? notifyError.message : String(notifyError),
+        },
+      })
+    }
+  }
+
+  /**
+   * Send the analysis.completed webhook event (not posted to Slack)
+   */
+  notifyAnalysisCompleted(
+    projectId: string,
+    analysis: {
+      analysisId: number
+      conversationId: string
+      branchId: string
+      model: string
+      durationMs: number
+    }
+  ): void {
+    if (!this.config.enabled) {
+      return
+    }
+
+    this.webhookService?.dispatch(projectId, 'analysis.completed', analysis)
+  }
+
+  /**
+   * Webhook event type for a failed request
+   */
+  private getErrorEventType(error: Error): WebhookEventType {
+    if (error instanceof AccountPoolExhaustedError) {
+      return 'account_pool.exhausted'
+    }
+    if (error instanceof AuthenticationError && error.context?.reason === 'oauth_refresh_failed') {
+      return 'oauth.refresh_failed'
+    }
+    return 'request.error'
+  }
+
   /**
    * Build notification payload
    */
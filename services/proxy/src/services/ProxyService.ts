@@ -3,20 +3,35 @@ import { ProxyResponse } from '../domain/entities/ProxyResponse'
 import { RequestContext } from '../domain/value-objects/RequestContext'
 import { AuthenticationService, AuthResult } from './AuthenticationService'
 import { ClaudeApiClient } from './ClaudeApiClient'
+import type { BedrockApiClient } from './BedrockApiClient'
 import { NotificationService } from './NotificationService'
 import { MetricsService } from './MetricsService'
 import {
   ClaudeMessagesRequest,
+  ClaudeMessagesResponse,
+  CachedResponse,
   generateConversationId,
   config,
-  ValidationError,
   UpstreamError,
 } from '@agent-prompttrain/shared'
 import { getProjectSlackConfig } from '@agent-prompttrain/shared/database/queries'
 import { logger } from '../middleware/logger'
 import { applySystemPromptOverride } from './system-prompt-override'
+import {
+  applyRequestTransforms,
+  loadProjectTransforms,
+  ResponseRedactor,
+} from './project-transforms'
 import { testSampleCollector } from './TestSampleCollector'
 import { StorageAdapter } from '../storage/StorageAdapter.js'
+import { BudgetService } from './budget-service'
+import { ResponseCacheService } from './response-cache-service'
+import { AccountPoolExhaustedError } from './account-pool-service'
+import { loadModelRoutingPolicy, resolveModelRoute } from './model-routing'
+import { proxyMetrics } from './proxy-metrics'
+
+/** Response header telling clients whether the response cache was used */
+const RESPONSE_CACHE_HEADER = 'x-prompttrain-cache'
 
 /**
  * Main proxy service that orchestrates the request flow
@@ -26,9 +41,12 @@ export class ProxyService {
   constructor(
     private authService: AuthenticationService,
     private apiClient: ClaudeApiClient,
+    private bedrockClient: BedrockApiClient,
     private notificationService: NotificationService,
     private metricsService: MetricsService,
-    private storageAdapter?: StorageAdapter
+    private storageAdapter?: StorageAdapter,
+    private budgetService?: BudgetService,
+    private responseCacheService?: ResponseCacheService
   ) {}
 
   /**
@@ -164,6 +182,89 @@ export class ProxyService {
       }
     }
 
+    // Apply project transforms (after the override, before the cache key and forwarding)
+    let redactor: ResponseRedactor | null = null
+    if (this.storageAdapter) {
+      const transforms = await loadProjectTransforms(
+        this.storageAdapter.getPool(),
+        context.projectId
+      )
+      if (transforms.length > 0) {
+        const applied = applyRequestTransforms(rawRequest, transforms)
+        request.recordAppliedTransforms(applied)
+        if (applied.length > 0) {
+          log.debug('Applied project transforms', { transforms: applied })
+        }
+
+        const responseRedactor = new ResponseRedactor(transforms)
+        redactor = responseRedactor.isEmpty ? null : responseRedactor
+      }
+    }
+
+    // Apply the project's model routing policy (after transforms, before the cache key)
+    let modelFallbacks: string[] = []
+    if (this.storageAdapter) {
+      const policy = await loadModelRoutingPolicy(this.storageAdapter.getPool(), context.projectId)
+      if (policy) {
+        try {
+          const route = resolveModelRoute(policy, context.projectId, rawRequest.model)
+          if (route.reason) {
+            log.info('Rerouting request model', {
+              requestedModel: rawRequest.model,
+              model: route.model,
+              reason: route.reason,
+            })
+            request.rerouteModel(route.model, route.reason)
+          }
+          modelFallbacks = route.fallbacks
+        } catch (error) {
+          if (sampleId) {
+            await testSampleCollector.flushPendingSample(sampleId, {
+              message: error instanceof Error ? error.message : String(error),
+              status: (error as any).statusCode || 500,
+            })
+          }
+          throw error
+        }
+      }
+    }
+    const routedModel = rawRequest.model
+
+    // Serve repeated deterministic requests from the response cache (after the
+    // override, so the key covers the system prompt that would be forwarded)
+    const responseCacheKey = this.responseCacheService
+      ? await this.responseCacheService.getCacheKey(request, context.projectId)
+      : null
+    if (this.responseCacheService && responseCacheKey) {
+      const cached = await this.responseCacheService.lookup(context.projectId, responseCacheKey)
+      if (cached) {
+        return this.serveCachedResponse(
+          cached,
+          request,
+          response,
+          context,
+          conversationData,
+          sampleId,
+          redactor
+        )
+      }
+    }
+
+    // Reject before an account is reserved if the project has spent its budget
+    if (this.budgetService) {
+      try {
+        await this.budgetService.enforce(context.projectId)
+      } catch (error) {
+        if (sampleId) {
+          await testSampleCollector.flushPendingSample(sampleId, {
+            message: error instanceof Error ? error.message : String(error),
+            status: (error as any).statusCode || 500,
+          })
+        }
+        throw error
+      }
+    }
+
     let activeAuth: AuthResult | undefined
 
     try {
@@ -192,25 +293,11 @@ export class ProxyService {
       } else {
         // Pass the requested model so account selection can honor
         // model-scoped limits (e.g. Claude Fable 5's separate weekly allowance)
-        auth = await this.authService.authenticate(context, rawRequest.model)
+        auth = await this.authenticateWithFallbacks(context, request, modelFallbacks)
       }
       activeAuth = auth
 
-      // Bedrock accounts are not supported on /v1/messages endpoint
-      // They must use the native Bedrock endpoints: /model/{modelId}/invoke
-      if (auth.provider === 'bedrock') {
-        throw new ValidationError(
-          'Bedrock accounts are not supported on /v1/messages. Use native Bedrock endpoints: /model/{modelId}/invoke or /model/{modelId}/invoke-with-response-stream',
-          {
-            requestId: context.requestId,
-            accountId: auth.accountId,
-            accountName: auth.accountName,
-            hint: 'Configure an Anthropic OAuth account for /v1/messages or use native Bedrock endpoints',
-          }
-        )
-      }
-
-      // Forward to Claude API
+      // Forward to Claude API, or to Bedrock for Bedrock accounts
       log.info('Forwarding request to Claude', {
         model: request.model,
         streaming: request.isStreaming,
@@ -232,7 +319,7 @@ export class ProxyService {
 
       let claudeResponse: Response
       try {
-        claudeResponse = await this.apiClient.forward(request, auth, clientHeaders)
+        claudeResponse = await this.forward(request, auth, clientHeaders)
       } catch (error) {
         if (this.isUpstreamRateLimit(error)) {
           await this.authService.markRateLimited(auth, rawRequest.model, error)
@@ -251,7 +338,7 @@ export class ProxyService {
             activeAuth = auth
 
             try {
-              claudeResponse = await this.apiClient.forward(request, auth, clientHeaders)
+              claudeResponse = await this.forward(request, auth, clientHeaders)
             } catch (alternateError) {
               if (this.isUpstreamRateLimit(alternateError)) {
                 await this.authService.markRateLimited(auth, rawRequest.model, alternateError)
@@ -277,7 +364,8 @@ export class ProxyService {
           context,
           auth,
           conversationData,
-          sampleId
+          sampleId,
+          redactor
         )
         // The stream processor owns the reservation until its background work
         // completes, so the outer error handler must not release it early.
@@ -291,7 +379,10 @@ export class ProxyService {
             context,
             auth,
             conversationData,
-            sampleId
+            sampleId,
+            // A fallback model's answer must not be cached for the routed model
+            rawRequest.model === routedModel ? responseCacheKey : null,
+            redactor
           )
         } finally {
           await this.authService.release(auth)
@@ -331,6 +422,62 @@ export class ProxyService {
     }
   }
 
+  /**
+   * Send the request upstream with the client for the account's provider.
+   * Bedrock responses come back in the Claude API format (streams as Anthropic
+   * SSE), so both are processed the same way and pools can mix providers.
+   */
+  private forward(
+    request: ProxyRequest,
+    auth: AuthResult,
+    clientHeaders: Record<string, string>
+  ): Promise<Response> {
+    if (auth.provider === 'bedrock') {
+      return this.bedrockClient.forward(request, auth, clientHeaders)
+    }
+    return this.apiClient.forward(request, auth, clientHeaders)
+  }
+
+  /**
+   * Authenticate for the request's model. While the account pool is exhausted,
+   * the routing policy's fallback models are tried in order and the first one
+   * with an available account is forwarded instead.
+   */
+  private async authenticateWithFallbacks(
+    context: RequestContext,
+    request: ProxyRequest,
+    fallbacks: string[]
+  ): Promise<AuthResult> {
+    try {
+      return await this.authService.authenticate(context, request.raw.model)
+    } catch (error) {
+      if (!(error instanceof AccountPoolExhaustedError) || fallbacks.length === 0) {
+        throw error
+      }
+
+      const exhaustedModel = request.raw.model
+      for (const fallback of fallbacks) {
+        try {
+          const auth = await this.authService.authenticate(context, fallback)
+          const reason = `account pool exhausted for ${exhaustedModel}, fell back to ${fallback}`
+          logger.warn('Falling back to another model', {
+            requestId: context.requestId,
+            projectId: context.projectId,
+            metadata: { exhaustedModel, model: fallback },
+          })
+          request.rerouteModel(fallback, reason)
+          return auth
+        } catch (fallbackError) {
+          if (!(fallbackError instanceof AccountPoolExhaustedError)) {
+            throw fallbackError
+          }
+        }
+      }
+
+      throw error
+    }
+  }
+
   /**
    * Handle non-streaming response
    */
@@ -350,7 +497,9 @@ export class ProxyService {
       parentTaskRequestId?: string
       isSubtask?: boolean
     },
-    sampleId?: string
+    sampleId?: string,
+    responseCacheKey?: string | null,
+    redactor?: ResponseRedactor | null
   ): Promise<Response> {
     const log = {
       debug: (message: string, metadata?: Record<string, any>) => {
@@ -393,6 +542,13 @@ export class ProxyService {
     // Process the response
     const jsonResponse = await this.apiClient.processResponse(claudeResponse, response)
 
+    // Redact before the response is stored, cached or returned
+    if (redactor) {
+      redactor.redactResponseBody(jsonResponse)
+      redactor.redactProxyResponse(response)
+      request.recordAppliedTransforms(redactor.getApplied())
+    }
+
     log.debug('Non-streaming response processed', {
       inputTokens: response.inputTokens,
       outputTokens: response.outputTokens,
@@ -427,6 +583,15 @@ export class ProxyService {
       )
     }
 
+    if (this.responseCacheService && responseCacheKey && claudeResponse.ok) {
+      await this.responseCacheService.store(
+        context.projectId,
+        responseCacheKey,
+        request.model,
+        jsonResponse
+      )
+    }
+
     // Update test sample with response if enabled
     if (sampleId) {
       await testSampleCollector.updateSampleWithResponse(sampleId, claudeResponse, jsonResponse, {
@@ -449,6 +614,10 @@ export class ProxyService {
       }
     })
 
+    if (responseCacheKey) {
+      clientHeaders[RESPONSE_CACHE_HEADER] = 'miss'
+    }
+
     // Return the response
     return new Response(JSON.stringify(jsonResponse), {
       status: claudeResponse.status,
@@ -460,6 +629,83 @@ export class ProxyService {
     })
   }
 
+  /**
+   * Answer a request from the response cache without contacting Claude.
+   * The request is still tracked and stored, with zero billed tokens and the
+   * original usage recorded as savings.
+   */
+  private async serveCachedResponse(
+    cached: CachedResponse,
+    request: ProxyRequest,
+    response: ProxyResponse,
+    context: RequestContext,
+    conversationData?: {
+      currentMessageHash: string
+      parentMessageHash: string | null
+      conversationId: string
+      systemHash: string | null
+      branchId?: string
+      parentRequestId?: string
+      parentTaskRequestId?: string
+      isSubtask?: boolean
+    },
+    sampleId?: string,
+    redactor?: ResponseRedactor | null
+  ): Promise<Response> {
+    const responseBody = cached.responseBody as ClaudeMessagesResponse
+    // Entries cached before a redaction rule was added are redacted on the way out
+    if (redactor) {
+      redactor.redactResponseBody(responseBody)
+      request.recordAppliedTransforms(redactor.getApplied())
+    }
+    response.processCachedResponse(responseBody, cached)
+
+    logger.info('Serving response from cache', {
+      requestId: context.requestId,
+      projectId: context.projectId,
+      metadata: {
+        model: request.model,
+        requestType: request.requestType,
+        cachedAt: cached.createdAt,
+        savedInputTokens: cached.inputTokens,
+        savedOutputTokens: cached.outputTokens,
+      },
+    })
+
+    const responseHeaders = {
+      'content-type': 'application/json',
+      [RESPONSE_CACHE_HEADER]: 'hit',
+    }
+
+    await this.metricsService.trackRequest(
+      request,
+      response,
+      context,
+      200,
+      conversationData,
+      responseHeaders,
+      responseBody
+    )
+
+    const clientResponse = new Response(JSON.stringify(responseBody), {
+      status: 200,
+      headers: {
+        ...responseHeaders,
+        ...this.getCorsHeaders(),
+      },
+    })
+
+    if (sampleId) {
+      await testSampleCollector.updateSampleWithResponse(sampleId, clientResponse, responseBody, {
+        inputTokens: 0,
+        outputTokens: 0,
+        toolCalls: response.toolCallCount,
+      })
+    }
+
+    return clientResponse
+  }
+
   /**
    * Handle streaming response
    */
@@ -479,7 +725,8 @@ export class ProxyService {
       parentTaskRequestId?: string
       isSubtask?: boolean
     },
-    sampleId?: string
+    sampleId?: string,
+    redactor?: ResponseRedactor | null
   ): Promise<Response> {
     const log = {
       debug: (message: string, metadata?: Record<string, any>) => {
@@ -532,7 +779,8 @@ export class ProxyService {
       request,
       auth,
       conversationData,
-      sampleId
+      sampleId,
+      redactor
     )
       .catch(async error => {
         log.error(
@@ -594,7 +842,8 @@ export class ProxyService {
       parentTaskRequestId?: string
       isSubtask?: boolean
     },
-    sampleId?: string
+    sampleId?: string,
+    redactor?: ResponseRedactor | null
   ): Promise<void> {
     const log = {
       debug: (message: string, metadata?: Record<string, any>) => {
@@ -637,11 +886,25 @@ export class ProxyService {
     try {
       const encoder = new TextEncoder()
       const streamingChunks: any[] = []
+      let firstTokenSent = false
 
       // Process each chunk
-      for await (const chunk of this.apiClient.processStreamingResponse(claudeResponse, response)) {
+      for await (const rawChunk of this.apiClient.processStreamingResponse(
+        claudeResponse,
+        response
+      )) {
+        const chunk = redactor ? redactor.redactStreamChunk(rawChunk) : rawChunk
         await writer.write(encoder.encode(chunk))
 
+        if (!firstTokenSent && chunk.includes('"content_block_delta"')) {
+          firstTokenSent = true
+          proxyMetrics.recordTimeToFirstToken(
+            context.projectId,
+            request.model,
+            context.getElapsedTime()
+          )
+        }
+
         // Always collect chunks for response reconstruction
         try {
           // Parse SSE data
@@ -666,6 +929,11 @@ export class ProxyService {
         toolCalls: response.toolCallCount,
       })
 
+      if (redactor) {
+        redactor.redactProxyResponse(response)
+        request.recordAppliedTransforms(redactor.getApplied())
+      }
+
       // Reconstruct the full response from chunks
       const fullResponse = this.reconstructResponseFromChunks(streamingChunks)
 
@@ -451,6 +451,45 @@ describe('AccountPoolService', () => {
     })
   })
 
+  describe('Bedrock failover', () => {
+    test('fails over to a linked Bedrock account when the Anthropic pool is exhausted', async () => {
+      const cred1 = makeAnthropicCredential({ id: 'cred-1', account_id: 'acct-1' })
+      const cred2 = makeAnthropicCredential({ id: 'cred-2', account_id: 'acct-2' })
+      const bedrockCred = makeBedrockCredential({ id: 'cred-bedrock' })
+      mockGetProjectLinkedCredentials.mockImplementation(() =>
+        Promise.resolve([cred1, cred2, bedrockCred])
+      )
+      mockFetchWithUsage({
+        'cred-1': makeUsageResponse(95, 90),
+        'cred-2': makeUsageResponse(97, 90),
+      })
+
+      const result = await service.selectAccount('project-1')
+      expect(result.credential.id).toBe('cred-bedrock')
+      expect(result.fromPool).toBe(true)
+      expect(result.reserved).toBe(false)
+    })
+
+    test('fails over when the default account was rate-limited upstream', async () => {
+      const bedrockCred = makeBedrockCredential({ id: 'cred-bedrock' })
+      mockGetProjectLinkedCredentials.mockImplementation(() => Promise.resolve([bedrockCred]))
+      mockGetProjectCredentials.mockImplementation(() =>
+        Promise.resolve([makeAnthropicCredential({ id: 'default-cred' })])
+      )
+
+      const result = await service.selectAccount('project-1', undefined, {
+        excludeCredentialIds: ['default-cred'],
+      })
+      expect(result.credential.id).toBe('cred-bedrock')
+
+      await expect(
+        service.selectAccount('project-1', undefined, {
+          excludeCredentialIds: ['default-cred', 'cred-bedrock'],
+        })
+      ).rejects.toBeInstanceOf(AccountPoolExhaustedError)
+    })
+  })
+
   // ── Scenario 9: clearStickyState() ────────────────────────────────────────
 
   describe('clearStickyState()', () => {
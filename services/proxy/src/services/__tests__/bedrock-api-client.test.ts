@@ -1,7 +1,55 @@
-import { describe, it, expect, beforeEach } from 'bun:test'
+import { describe, it, expect, beforeEach, spyOn } from 'bun:test'
+import { UpstreamError } from '@agent-prompttrain/shared'
 import { BedrockApiClient } from '../BedrockApiClient'
+import type { AuthResult } from '../AuthenticationService'
+import { ProxyRequest } from '../../domain/entities/ProxyRequest'
 import { ProxyResponse } from '../../domain/entities/ProxyResponse'
 
+/**
+ * Encode an AWS event-stream message (CRCs are not checked by the parser)
+ */
+function eventStreamMessage(headers: Record<string, string>, payload: string): Uint8Array {
+  const encoder = new TextEncoder()
+  const headerBytes = Object.entries(headers).flatMap(([name, value]) => {
+    const nameBytes = encoder.encode(name)
+    const valueBytes = encoder.encode(value)
+    return [
+      nameBytes.length,
+      ...nameBytes,
+      7, // string
+      valueBytes.length >> 8,
+      valueBytes.length & 0xff,
+      ...valueBytes,
+    ]
+  })
+  const payloadBytes = encoder.encode(payload)
+  const totalLength = 12 + headerBytes.length + payloadBytes.length + 4
+  const message = new Uint8Array(totalLength)
+  const view = new DataView(message.buffer)
+  view.setUint32(0, totalLength)
+  view.setUint32(4, headerBytes.length)
+  message.set(headerBytes, 12)
+  message.set(payloadBytes, 12 + headerBytes.length)
+  return message
+}
+
+function chunkMessage(event: object): Uint8Array {
+  return eventStreamMessage(
+    { ':event-type': 'chunk', ':message-type': 'event' },
+    JSON.stringify({ bytes: Buffer.from(JSON.stringify(event)).toString('base64') })
+  )
+}
+
+const bedrockAuth: AuthResult = {
+  provider: 'bedrock',
+  type: 'api_key',
+  headers: { authorization: 'Bearer bedrock-key' },
+  key: 'bedrock-key',
+  accountId: 'acct-bedrock',
+  accountName: 'Bedrock',
+  region: 'eu-central-1',
+}
+
 describe('BedrockApiClient', () => {
   let client: BedrockApiClient
 
@@ -160,4 +208,116 @@ describe('BedrockApiClient', () => {
       expect(result.content).toHaveLength(1)
     })
   })
+
+  describe('forward', () => {
+    const proxyRequest = (stream: boolean) =>
+      new ProxyRequest(
+        {
+          model: 'claude-sonnet-4-5',
+          max_tokens: 64,
+          stream,
+          messages: [{ role: 'user', content: 'hello' }],
+        },
+        'project-1',
+        'req-1'
+      )
+
+    it('translates AWS event-stream frames to Anthropic SSE', async () => {
+      const frames = [
+        chunkMessage({ type: 'message_start', message: { id: 'msg_1', usage: {} } }),
+        chunkMessage({
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'text_delta', text: 'Grüße' },
+        }),
+        eventStreamMessage(
+          { ':message-type': 'exception', ':exception-type': 'throttlingException' },
+          JSON.stringify({ message: 'Too many tokens' })
+        ),
+      ]
+      const body = new Uint8Array(frames.reduce((length, frame) => length + frame.length, 0))
+      frames.reduce((offset, frame) => {
+        body.set(frame, offset)
+        return offset + frame.length
+      }, 0)
+      const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              // Split a frame across reads
+              controller.enqueue(body.slice(0, 20))
+              controller.enqueue(body.slice(20))
+              controller.close()
+            },
+          }),
+          { headers: { 'content-type': 'application/vnd.amazon.eventstream' } }
+        )
+      )
+
+      try {
+        const response = await client.forward(proxyRequest(true), bedrockAuth)
+        const [url, init] = fetchSpy.mock.calls.at(-1) as [string, RequestInit]
+
+        expect(url).toBe(
+          'https://bedrock-runtime.us-east-1.amazonaws.com/model/global.anthropic.claude-sonnet-4-5-20250929-v1%3A0/invoke-with-response-stream'
+        )
+        expect(JSON.parse(init.body as string)).toEqual({
+          max_tokens: 64,
+          messages: [{ role: 'user', content: 'hello' }],
+          anthropic_version: 'bedrock-2023-05-31',
+        })
+        expect(response.headers.get('content-type')).toBe('text/event-stream')
+        expect(await response.text()).toBe(
+          [
+            'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","usage":{}}}\n\n',
+            'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Grüße"}}\n\n',
+            'event: error\ndata: {"type":"error","error":{"type":"rate_limit_error","message":"throttlingException: Too many tokens"}}\n\n',
+          ].join('')
+        )
+      } finally {
+        fetchSpy.mockRestore()
+      }
+    })
+
+    it('uses the account region for unprefixed model IDs', async () => {
+      const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ id: 'msg_1', content: [{ type: 'text', text: 'hi' }] }))
+      )
+
+      try {
+        const request = proxyRequest(false)
+        request.raw.model = 'anthropic.claude-3-haiku-20240307-v1:0'
+        await client.forward(request, bedrockAuth)
+
+        expect(String(fetchSpy.mock.calls.at(-1)?.[0])).toStartWith(
+          'https://bedrock-runtime.eu-central-1.amazonaws.com/'
+        )
+      } finally {
+        fetchSpy.mockRestore()
+      }
+    })
+
+    it('returns Bedrock errors in the Claude API error format', async () => {
+      const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ message: 'Too many requests, please wait' }), {
+          status: 429,
+          headers: { 'x-amzn-errortype': 'ThrottlingException' },
+        })
+      )
+
+      try {
+        const error = await client.forward(proxyRequest(false), bedrockAuth).catch(e => e)
+
+        expect(error).toBeInstanceOf(UpstreamError)
+        expect(error.upstreamStatus).toBe(429)
+        expect(error.upstreamResponse).toEqual({
+          type: 'error',
+          error: { type: 'rate_limit_error', message: 'Too many requests, please wait' },
+        })
+        expect(error.upstreamHeaders['x-amzn-errortype']).toBe('ThrottlingException')
+      } finally {
+        fetchSpy.mockRestore()
+      }
+    })
+  })
 })
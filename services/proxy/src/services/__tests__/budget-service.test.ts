@@ -0,0 +1,205 @@
+import { describe, test, expect, beforeEach, mock } from 'bun:test'
+import type {
+  BudgetPeriodStatus,
+  ProjectBudgetStatus,
+  SlackConfig,
+} from '@agent-prompttrain/shared'
+
+// ── Mock functions ──────────────────────────────────────────────────────────
+
+const mockGetProjectBudgetStatus = mock<
+  (pool: any, projectId: string) => Promise<ProjectBudgetStatus | null>
+>(() => Promise.resolve(null))
+const mockClaimBudgetAlert = mock<
+  (
+    pool: any,
+    projectUuid: string,
+    period: string,
+    periodStart: Date,
+    kind: string
+  ) => Promise<boolean>
+>(() => Promise.resolve(true))
+const mockGetProjectSlackConfig = mock<
+  (pool: any, projectId: string) => Promise<SlackConfig | null>
+>(() => Promise.resolve(null))
+
+// ── Module mocks (must run before importing the service) ────────────────────
+
+mock.module('@agent-prompttrain/shared/database/queries', () => ({
+  getProjectBudgetStatus: mockGetProjectBudgetStatus,
+  claimBudgetAlert: mockClaimBudgetAlert,
+  getProjectSlackConfig: mockGetProjectSlackConfig,
+}))
+
+mock.module('../../middleware/logger', () => ({
+  logger: {
+    info: () => {},
+    warn: () => {},
+    debug: () => {},
+    error: () => {},
+  },
+}))
+
+// ── Import service under test (after mocks) ─────────────────────────────────
+
+import { BudgetService, BudgetExceededError } from '../budget-service'
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function makePeriod(spentUsd: number, limitUsd = 100, alertThreshold = 0.8): BudgetPeriodStatus {
+  const utilization = spentUsd / limitUsd
+  return {
+    period: 'monthly',
+    limitUsd,
+    spentUsd,
+    periodStart: new Date('2026-10-01T00:00:00Z'),
+    resetsAt: new Date(Date.now() + 3600_000),
+    utilization,
+    alert: utilization >= alertThreshold,
+    exceeded: spentUsd >= limitUsd,
+  }
+}
+
+/** Let background alert sends settle */
+const flushAlerts = () => new Promise(resolve => setTimeout(resolve, 0))
+
+function makeStatus(periods: BudgetPeriodStatus[]): ProjectBudgetStatus {
+  return { id: 'uuid-1', projectId: 'project-1', alertThreshold: 0.8, periods }
+}
+
+describe('BudgetService', () => {
+  const notifyBudgetAlert = mock(() => Promise.resolve())
+  let service: BudgetService
+
+  beforeEach(() => {
+    mockGetProjectBudgetStatus.mockReset()
+    mockClaimBudgetAlert.mockReset()
+    mockClaimBudgetAlert.mockImplementation(() => Promise.resolve(true))
+    notifyBudgetAlert.mockClear()
+    service = new BudgetService({} as any, { notifyBudgetAlert } as any)
+  })
+
+  test('allows requests when the project has no budget', async () => {
+    mockGetProjectBudgetStatus.mockImplementation(() => Promise.resolve(makeStatus([])))
+
+    await service.enforce('project-1')
+
+    expect(mockClaimBudgetAlert).not.toHaveBeenCalled()
+    expect(notifyBudgetAlert).not.toHaveBeenCalled()
+  })
+
+  test('allows requests under the alert threshold without notifying', async () => {
+    mockGetProjectBudgetStatus.mockImplementation(() =>
+      Promise.resolve(makeStatus([makePeriod(10)]))
+    )
+
+    await service.enforce('project-1')
+
+    expect(notifyBudgetAlert).not.toHaveBeenCalled()
+  })
+
+  test('sends the soft alert once the threshold is crossed', async () => {
+    mockGetProjectBudgetStatus.mockImplementation(() =>
+      Promise.resolve(makeStatus([makePeriod(85)]))
+    )
+
+    await service.enforce('project-1')
+    await flushAlerts()
+
+    expect(mockClaimBudgetAlert).toHaveBeenCalledTimes(1)
+    expect(mockClaimBudgetAlert.mock.calls[0][4]).toBe('threshold')
+    expect(notifyBudgetAlert).toHaveBeenCalledTimes(1)
+  })
+
+  test('claims each alert once per cache window', async () => {
+    mockGetProjectBudgetStatus.mockImplementation(() =>
+      Promise.resolve(makeStatus([makePeriod(85)]))
+    )
+    mockClaimBudgetAlert.mockImplementation(() => Promise.resolve(false))
+
+    await service.enforce('project-1')
+    await service.enforce('project-1')
+    await service.enforce('project-1')
+    await flushAlerts()
+
+    expect(mockClaimBudgetAlert).toHaveBeenCalledTimes(1)
+  })
+
+  test('sends the budget reached alert after the soft alert', async () => {
+    const claimed = new Set<string>()
+    mockClaimBudgetAlert.mockImplementation((_pool, _uuid, period, _start, kind) => {
+      const key = `${period}:${kind}`
+      const won = !claimed.has(key)
+      claimed.add(key)
+      return Promise.resolve(won)
+    })
+
+    mockGetProjectBudgetStatus.mockImplementation(() =>
+      Promise.resolve(makeStatus([makePeriod(85)]))
+    )
+    await service.enforce('project-1')
+    await flushAlerts()
+
+    // Next cache window: the budget is now spent
+    service = new BudgetService({} as any, { notifyBudgetAlert } as any)
+    mockGetProjectBudgetStatus.mockImplementation(() =>
+      Promise.resolve(makeStatus([makePeriod(100)]))
+    )
+    await service.enforce('project-1').catch(() => {})
+    await flushAlerts()
+
+    expect(notifyBudgetAlert).toHaveBeenCalledTimes(2)
+    expect(mockClaimBudgetAlert.mock.calls.map(call => call[4])).toEqual(['threshold', 'exceeded'])
+  })
+
+  test('does not wait for the alert to be sent', async () => {
+    mockGetProjectBudgetStatus.mockImplementation(() =>
+      Promise.resolve(makeStatus([makePeriod(85)]))
+    )
+    mockClaimBudgetAlert.mockImplementation(() => new Promise(() => {}))
+
+    await expect(service.enforce('project-1')).resolves.toBeUndefined()
+  })
+
+  test('does not notify when another replica already claimed the alert', async () => {
+    mockGetProjectBudgetStatus.mockImplementation(() =>
+      Promise.resolve(makeStatus([makePeriod(85)]))
+    )
+    mockClaimBudgetAlert.mockImplementation(() => Promise.resolve(false))
+
+    await service.enforce('project-1')
+    await flushAlerts()
+
+    expect(notifyBudgetAlert).not.toHaveBeenCalled()
+  })
+
+  test('rejects requests once the budget is spent', async () => {
+    mockGetProjectBudgetStatus.mockImplementation(() =>
+      Promise.resolve(makeStatus([makePeriod(100)]))
+    )
+
+    const error = await service.enforce('project-1').catch(e => e)
+
+    expect(error).toBeInstanceOf(BudgetExceededError)
+    expect(error.statusCode).toBe(429)
+    expect(error.budget.period).toBe('monthly')
+    expect(error.retryAfterSeconds).toBeGreaterThan(0)
+  })
+
+  test('caches budget status between requests', async () => {
+    mockGetProjectBudgetStatus.mockImplementation(() =>
+      Promise.resolve(makeStatus([makePeriod(10)]))
+    )
+
+    await service.enforce('project-1')
+    await service.enforce('project-1')
+
+    expect(mockGetProjectBudgetStatus).toHaveBeenCalledTimes(1)
+  })
+
+  test('fails open when the budget lookup errors', async () => {
+    mockGetProjectBudgetStatus.mockImplementation(() => Promise.reject(new Error('db down')))
+
+    await expect(service.enforce('project-1')).resolves.toBeUndefined()
+  })
+})
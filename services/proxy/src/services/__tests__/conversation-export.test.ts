@@ -0,0 +1,136 @@
+import { describe, test, expect } from 'bun:test'
+import type { ClaudeMessage } from '@agent-prompttrain/shared'
+import {
+  buildTranscript,
+  exportConversation,
+  toClaudeCodeJsonl,
+  toMarkdown,
+  type ExportedRequest,
+} from '../conversation-export'
+
+function makeRequest(
+  requestId: string,
+  minute: number,
+  messages: ClaudeMessage[],
+  responseText: string
+): ExportedRequest {
+  return {
+    requestId,
+    projectId: 'proj-a',
+    timestamp: new Date(Date.UTC(2025, 0, 1, 12, minute)),
+    model: 'claude-sonnet-4-5',
+    branchId: 'main',
+    parentRequestId: null,
+    inputTokens: 10,
+    outputTokens: 5,
+    body: {
+      model: 'claude-sonnet-4-5',
+      max_tokens: 1024,
+      system: 'You are helpful.',
+      messages,
+    },
+    responseBody: {
+      id: `msg_${requestId}`,
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-sonnet-4-5',
+      content: [{ type: 'text', text: responseText }],
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage: { input_tokens: 10, output_tokens: 5 },
+    },
+  }
+}
+
+const first = makeRequest('req-1', 0, [{ role: 'user', content: 'List the files' }], 'unused')
+
+const second = makeRequest(
+  'req-2',
+  1,
+  [
+    { role: 'user', content: 'List the files' },
+    {
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'bash', input: { command: 'ls' } }],
+    },
+    {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'README.md' }],
+    },
+  ],
+  'There is a README.md.'
+)
+
+describe('buildTranscript', () => {
+  test('uses the latest request messages plus its response', () => {
+    const transcript = buildTranscript([first, second])
+
+    expect(transcript.map(entry => entry.message.role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+    ])
+    expect(transcript[3].requestId).toBe('req-2')
+    expect(transcript[3].message.content).toEqual([{ type: 'text', text: 'There is a README.md.' }])
+  })
+
+  test('timestamps each message with the first request that carried it', () => {
+    const transcript = buildTranscript([first, second])
+    expect(transcript[0].timestamp).toEqual(first.timestamp)
+    expect(transcript[1].timestamp).toEqual(second.timestamp)
+  })
+
+  test('returns nothing without a request body', () => {
+    expect(buildTranscript([{ ...first, body: null }])).toEqual([])
+  })
+})
+
+describe('toMarkdown', () => {
+  test('collapses the system prompt, tool calls and tool results', () => {
+    const markdown = toMarkdown('conv-1', 'main', [first, second])
+
+    expect(markdown).toContain('# Conversation conv-1')
+    expect(markdown).toContain('<summary>System prompt</summary>')
+    expect(markdown).toContain('<summary>Tool call: <code>bash</code></summary>')
+    expect(markdown).toContain('"command": "ls"')
+    expect(markdown).toContain('<summary>Tool result</summary>')
+    expect(markdown).toContain('There is a README.md.')
+  })
+})
+
+describe('toClaudeCodeJsonl', () => {
+  test('chains entries through parentUuid', () => {
+    const lines = toClaudeCodeJsonl('conv-1', 'main', [first, second])
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line))
+
+    expect(lines).toHaveLength(4)
+    expect(lines[0].parentUuid).toBeNull()
+    expect(lines[0].sessionId).toBe('conv-1')
+    expect(lines.slice(1).map(line => line.parentUuid)).toEqual(
+      lines.slice(0, -1).map(line => line.uuid)
+    )
+    expect(lines[3].type).toBe('assistant')
+    expect(lines[3].requestId).toBe('req-2')
+  })
+
+  test('produces the same uuids on every export', () => {
+    const once = toClaudeCodeJsonl('conv-1', 'main', [first, second])
+    expect(toClaudeCodeJsonl('conv-1', 'main', [first, second])).toBe(once)
+    expect(JSON.parse(once.split('\n')[0]).uuid).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    )
+  })
+})
+
+describe('exportConversation', () => {
+  test('names the file after the conversation and branch', () => {
+    const exported = exportConversation('conv-1', 'branch/1', [first, second], 'json')
+
+    expect(exported.filename).toBe('conversation-conv-1-branch_1.json')
+    expect(exported.contentType).toContain('application/json')
+    expect(JSON.parse(exported.content).requests).toHaveLength(2)
+  })
+})
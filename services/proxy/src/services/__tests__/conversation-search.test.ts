@@ -0,0 +1,41 @@
+import { describe, test, expect } from 'bun:test'
+import { parseHeadline, SEARCH_HEADLINE_OPTIONS } from '../conversation-search'
+
+describe('parseHeadline', () => {
+  test('splits a headline into plain and matching segments', () => {
+    expect(parseHeadline('the connection was refused twice')).toEqual([
+      { text: 'the ', match: false },
+      { text: 'connection', match: true },
+      { text: ' was ', match: false },
+      { text: 'refused', match: true },
+      { text: ' twice', match: false },
+    ])
+  })
+
+  test('keeps HTML in the stored text as plain text', () => {
+    expect(parseHeadline('<b>retry</b>')).toEqual([
+      { text: '<b>', match: false },
+      { text: 'retry', match: true },
+      { text: '</b>', match: false },
+    ])
+  })
+
+  test('handles headlines without matches and empty input', () => {
+    expect(parseHeadline('no match here')).toEqual([{ text: 'no match here', match: false }])
+    expect(parseHeadline('')).toEqual([])
+  })
+
+  test('treats an unterminated match as matching to the end', () => {
+    expect(parseHeadline('a tail')).toEqual([
+      { text: 'a ', match: false },
+      { text: 'tail', match: true },
+    ])
+  })
+})
+
+describe('SEARCH_HEADLINE_OPTIONS', () => {
+  test('uses the markers parseHeadline splits on', () => {
+    expect(SEARCH_HEADLINE_OPTIONS).toContain('StartSel=')
+    expect(SEARCH_HEADLINE_OPTIONS).toContain('StopSel=')
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, test, expect, beforeEach, mock } from 'bun:test'
+import type { Pool } from 'pg'
+import type { ProjectRetentionPolicy } from '@agent-prompttrain/shared'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ── Mock functions ──────────────────────────────────────────────────────────
+
+const mockListPolicies = mock<(pool: any) => Promise<ProjectRetentionPolicy[]>>(() =>
+  Promise.resolve([])
+)
+const mockPurgeBodies = mock<
+  (pool: any, projectId: string, before: Date, limit: number) => Promise<number>
+>(() => Promise.resolve(0))
+const mockDeleteRequests = mock<
+  (pool: any, projectId: string, before: Date, limit: number) => Promise<number>
+>(() => Promise.resolve(0))
+const mockDeleteAnalyses = mock<(pool: any, projectId: string, before: Date) => Promise<number>>(
+  () => Promise.resolve(0)
+)
+const mockDeleteCachedResponses = mock<
+  (pool: any, projectId: string, before: Date) => Promise<number>
+>(() => Promise.resolve(0))
+const mockMarkPurged = mock<(pool: any, projectId: string) => Promise<void>>(() =>
+  Promise.resolve()
+)
+
+// ── Module mocks (must run before importing the service) ────────────────────
+
+mock.module('@agent-prompttrain/shared/database/queries', () => ({
+  listProjectRetentionPolicies: mockListPolicies,
+  purgeExpiredRequestBodies: mockPurgeBodies,
+  deleteExpiredRequests: mockDeleteRequests,
+  deleteExpiredAnalyses: mockDeleteAnalyses,
+  deleteProjectCachedResponses: mockDeleteCachedResponses,
+  markProjectRetentionPurged: mockMarkPurged,
+  getRetentionCutoff: (days: number | null, now: Date) =>
+    days === null ? null : new Date(now.getTime() - days * DAY_MS),
+}))
+
+mock.module('../../middleware/logger', () => ({
+  logger: {
+    info: () => {},
+    warn: () => {},
+    debug: () => {},
+    error: () => {},
+  },
+}))
+
+// ── Import service under test (after mocks) ─────────────────────────────────
+
+import { DataRetentionService } from '../data-retention-service'
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const now = new Date('2026-06-30T12:00:00Z')
+
+function createPool(locked = true) {
+  const lockQueries: string[] = []
+  const client = {
+    query: mock((sql: string) => {
+      lockQueries.push(sql)
+      return Promise.resolve({ rows: [{ locked }] })
+    }),
+    release: mock(() => {}),
+  }
+  const pool = { connect: mock(() => Promise.resolve(client)) } as unknown as Pool
+  return { pool, client, lockQueries }
+}
+
+describe('DataRetentionService', () => {
+  beforeEach(() => {
+    mockListPolicies.mockReset()
+    mockListPolicies.mockImplementation(() => Promise.resolve([]))
+    mockPurgeBodies.mockReset()
+    mockPurgeBodies.mockImplementation(() => Promise.resolve(0))
+    mockDeleteRequests.mockReset()
+    mockDeleteRequests.mockImplementation(() => Promise.resolve(0))
+    mockDeleteAnalyses.mockReset()
+    mockDeleteAnalyses.mockImplementation(() => Promise.resolve(0))
+    mockDeleteCachedResponses.mockReset()
+    mockDeleteCachedResponses.mockImplementation(() => Promise.resolve(0))
+    mockMarkPurged.mockReset()
+    mockMarkPurged.mockImplementation(() => Promise.resolve())
+  })
+
+  test('purges bodies, analyses and cached responses past the body retention and deletes rows past the metadata retention', async () => {
+    mockListPolicies.mockImplementation(() =>
+      Promise.resolve([{ projectId: 'project-1', bodyDays: 30, metadataDays: 365 }])
+    )
+    mockPurgeBodies.mockImplementation(() => Promise.resolve(3))
+    mockDeleteRequests.mockImplementation(() => Promise.resolve(2))
+    mockDeleteAnalyses.mockImplementation(() => Promise.resolve(1))
+    mockDeleteCachedResponses.mockImplementation(() => Promise.resolve(4))
+
+    const { pool } = createPool()
+    const service = new DataRetentionService(pool, { intervalMs: 60_000, batchSize: 100 })
+    const results = await service.runOnce(now)
+
+    expect(results).toEqual([
+      {
+        projectId: 'project-1',
+        bodiesPurged: 3,
+        requestsDeleted: 2,
+        analysesDeleted: 1,
+        cachedResponsesDeleted: 4,
+      },
+    ])
+    expect(mockPurgeBodies.mock.calls[0][2]).toEqual(new Date(now.getTime() - 30 * DAY_MS))
+    expect(mockDeleteAnalyses.mock.calls[0][2]).toEqual(new Date(now.getTime() - 30 * DAY_MS))
+    expect(mockDeleteCachedResponses).toHaveBeenCalledWith(
+      pool,
+      'project-1',
+      new Date(now.getTime() - 30 * DAY_MS)
+    )
+    expect(mockDeleteRequests.mock.calls[0][2]).toEqual(new Date(now.getTime() - 365 * DAY_MS))
+    expect(mockMarkPurged).toHaveBeenCalledWith(pool, 'project-1')
+  })
+
+  test('repeats batches until a batch comes back short', async () => {
+    mockListPolicies.mockImplementation(() =>
+      Promise.resolve([{ projectId: 'project-1', bodyDays: 7, metadataDays: null }])
+    )
+    const batches = [100, 100, 40]
+    mockPurgeBodies.mockImplementation(() => Promise.resolve(batches.shift() ?? 0))
+
+    const { pool } = createPool()
+    const service = new DataRetentionService(pool, { intervalMs: 60_000, batchSize: 100 })
+    const results = await service.runOnce(now)
+
+    expect(mockPurgeBodies).toHaveBeenCalledTimes(3)
+    expect(mockDeleteRequests).not.toHaveBeenCalled()
+    expect(results?.[0].bodiesPurged).toBe(240)
+  })
+
+  test('skips the run when another instance holds the lock', async () => {
+    mockListPolicies.mockImplementation(() =>
+      Promise.resolve([{ projectId: 'project-1', bodyDays: 7, metadataDays: null }])
+    )
+
+    const { pool, client } = createPool(false)
+    const service = new DataRetentionService(pool, { intervalMs: 60_000, batchSize: 100 })
+
+    expect(await service.runOnce(now)).toBeNull()
+    expect(mockListPolicies).not.toHaveBeenCalled()
+    expect(client.release).toHaveBeenCalled()
+  })
+
+  test('continues with other projects when one fails and releases the lock', async () => {
+    mockListPolicies.mockImplementation(() =>
+      Promise.resolve([
+        { projectId: 'broken', bodyDays: 7, metadataDays: null },
+        { projectId: 'project-2', bodyDays: 7, metadataDays: null },
+      ])
+    )
+    mockPurgeBodies.mockImplementation((_pool, projectId) =>
+      projectId === 'broken' ? Promise.reject(new Error('boom')) : Promise.resolve(5)
+    )
+
+    const { pool, lockQueries } = createPool()
+    const service = new DataRetentionService(pool, { intervalMs: 60_000, batchSize: 100 })
+    const results = await service.runOnce(now)
+
+    expect(results?.map(result => result.projectId)).toEqual(['project-2'])
+    expect(lockQueries.some(sql => sql.includes('pg_advisory_unlock'))).toBe(true)
+  })
+})
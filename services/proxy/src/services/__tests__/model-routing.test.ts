@@ -0,0 +1,125 @@
+import { describe, test, expect, beforeEach, mock } from 'bun:test'
+import { AuthorizationError, type ModelRoutingPolicy } from '@agent-prompttrain/shared'
+
+const mockGetProjectModelRouting = mock<(pool: any, projectId: string) => Promise<unknown>>(() =>
+  Promise.resolve(null)
+)
+
+mock.module('@agent-prompttrain/shared/database/queries', () => ({
+  getProjectModelRouting: mockGetProjectModelRouting,
+}))
+
+const { loadModelRoutingPolicy, resolveModelRoute } = await import('../model-routing')
+
+function policy(overrides: Partial<ModelRoutingPolicy> = {}): ModelRoutingPolicy {
+  return { allowed_models: [], rules: [], ...overrides }
+}
+
+describe('resolveModelRoute', () => {
+  test('forwards the requested model when no rule matches', () => {
+    expect(resolveModelRoute(policy(), 'proj', 'claude-sonnet-4-5')).toEqual({
+      model: 'claude-sonnet-4-5',
+      reason: null,
+      fallbacks: [],
+    })
+  })
+
+  test('forwards the preferred model of the first matching rule', () => {
+    const route = resolveModelRoute(
+      policy({
+        rules: [
+          { match: 'claude-opus-*', prefer: 'claude-opus-4-1', fallbacks: [] },
+          { match: 'claude-opus-4-0', prefer: 'claude-sonnet-4-5', fallbacks: [] },
+        ],
+      }),
+      'proj',
+      'claude-opus-4-0'
+    )
+
+    expect(route.model).toBe('claude-opus-4-1')
+    expect(route.reason).toBe('routing rule "claude-opus-*" prefers claude-opus-4-1')
+  })
+
+  test('returns allowed fallbacks other than the routed model', () => {
+    const route = resolveModelRoute(
+      policy({
+        allowed_models: ['claude-opus-*', 'claude-sonnet-*'],
+        rules: [
+          {
+            match: 'claude-opus-*',
+            fallbacks: ['claude-opus-4-1', 'claude-haiku-4-5', 'claude-sonnet-4-5'],
+          },
+        ],
+      }),
+      'proj',
+      'claude-opus-4-1'
+    )
+
+    expect(route.reason).toBeNull()
+    expect(route.fallbacks).toEqual(['claude-sonnet-4-5'])
+  })
+
+  test('rejects models outside allowed_models', () => {
+    expect(() =>
+      resolveModelRoute(policy({ allowed_models: ['claude-sonnet-*'] }), 'proj', 'claude-opus-4-1')
+    ).toThrow(AuthorizationError)
+
+    try {
+      resolveModelRoute(policy({ allowed_models: ['claude-sonnet-*'] }), 'proj', 'claude-opus-4-1')
+    } catch (error) {
+      expect((error as AuthorizationError).statusCode).toBe(403)
+      expect((error as Error).message).toContain('Allowed models: claude-sonnet-*')
+    }
+  })
+
+  test('a preferred model makes a disallowed request allowed', () => {
+    const route = resolveModelRoute(
+      policy({
+        allowed_models: ['claude-sonnet-*'],
+        rules: [{ match: 'claude-opus-*', prefer: 'claude-sonnet-4-5', fallbacks: [] }],
+      }),
+      'proj',
+      'claude-opus-4-1'
+    )
+    expect(route.model).toBe('claude-sonnet-4-5')
+  })
+})
+
+describe('loadModelRoutingPolicy', () => {
+  beforeEach(() => {
+    mockGetProjectModelRouting.mockReset()
+  })
+
+  test('returns null when the project has no policy', async () => {
+    mockGetProjectModelRouting.mockResolvedValueOnce(null)
+    expect(await loadModelRoutingPolicy({} as any, 'no-policy')).toBeNull()
+  })
+
+  test('applies schema defaults to the stored policy', async () => {
+    mockGetProjectModelRouting.mockResolvedValueOnce({ rules: [{ match: 'claude-opus-*' }] })
+    expect(await loadModelRoutingPolicy({} as any, 'defaults')).toEqual({
+      allowed_models: [],
+      rules: [{ match: 'claude-opus-*', fallbacks: [] }],
+    })
+  })
+
+  test('ignores malformed policies', async () => {
+    mockGetProjectModelRouting.mockResolvedValueOnce({ rules: 'nope' })
+    expect(await loadModelRoutingPolicy({} as any, 'malformed')).toBeNull()
+  })
+
+  test('caches the policy per project', async () => {
+    mockGetProjectModelRouting.mockResolvedValue({ rules: [{ match: 'claude-opus-*' }] })
+    await loadModelRoutingPolicy({} as any, 'cached')
+    await loadModelRoutingPolicy({} as any, 'cached')
+    expect(mockGetProjectModelRouting).toHaveBeenCalledTimes(1)
+  })
+
+  test('fails open when the query fails, without caching the failure', async () => {
+    mockGetProjectModelRouting.mockRejectedValueOnce(new Error('db down'))
+    expect(await loadModelRoutingPolicy({} as any, 'failing')).toBeNull()
+
+    mockGetProjectModelRouting.mockResolvedValueOnce({ rules: [] })
+    expect(await loadModelRoutingPolicy({} as any, 'failing')).not.toBeNull()
+  })
+})
@@ -0,0 +1,313 @@
+import { describe, test, expect } from 'bun:test'
+import { ValidationError, type ClaudeMessagesResponse } from '@agent-prompttrain/shared'
+import {
+  ChatCompletionStreamTranslator,
+  createChatCompletionStream,
+  toChatCompletion,
+  toChatCompletionChunks,
+  toClaudeRequest,
+  validateChatCompletionRequest,
+  type OpenAIChatCompletionRequest,
+} from '../openai-compat'
+
+function parseChunks(text: string): any[] {
+  return text
+    .split('\n\n')
+    .filter(line => line.startsWith('data: '))
+    .map(line => line.slice(6))
+    .map(data => (data === '[DONE]' ? data : JSON.parse(data)))
+}
+
+describe('toClaudeRequest', () => {
+  test('translates system prompts, tool calls and tool results', () => {
+    const request: OpenAIChatCompletionRequest = {
+      model: 'claude-sonnet-4-5-20250929',
+      messages: [
+        { role: 'system', content: 'You are terse.' },
+        { role: 'developer', content: [{ type: 'text', text: 'Answer in English.' }] },
+        { role: 'user', content: 'Weather in Paris and Rome?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+            },
+            {
+              id: 'call_2',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Rome"}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+        { role: 'tool', tool_call_id: 'call_2', content: 'Rainy' },
+      ],
+      max_completion_tokens: 256,
+      temperature: 1.5,
+      stop: 'END',
+      stream: true,
+      user: 'user-42',
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'get_weather',
+            description: 'Current weather',
+            parameters: { type: 'object', properties: { city: { type: 'string' } } },
+          },
+        },
+      ],
+      tool_choice: 'required',
+      parallel_tool_calls: false,
+    }
+
+    expect(toClaudeRequest(request)).toEqual({
+      model: 'claude-sonnet-4-5-20250929',
+      system: 'You are terse.\n\nAnswer in English.',
+      messages: [
+        { role: 'user', content: 'Weather in Paris and Rome?' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+            { type: 'tool_use', id: 'call_2', name: 'get_weather', input: { city: 'Rome' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' },
+            { type: 'tool_result', tool_use_id: 'call_2', content: 'Rainy' },
+          ],
+        },
+      ],
+      max_tokens: 256,
+      temperature: 1,
+      stop_sequences: ['END'],
+      stream: true,
+      metadata: { user_id: 'user-42' },
+      tools: [
+        {
+          name: 'get_weather',
+          description: 'Current weather',
+          input_schema: { type: 'object', properties: { city: { type: 'string' } } },
+        },
+      ],
+      tool_choice: { type: 'any', disable_parallel_tool_use: true },
+    })
+  })
+
+  test('defaults max_tokens, converts data URL images and drops tools for tool_choice none', () => {
+    const claudeRequest = toClaudeRequest({
+      model: 'claude-haiku-4-5',
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } },
+          ],
+        },
+      ],
+      tools: [{ type: 'function', function: { name: 'noop' } }],
+      tool_choice: 'none',
+    })
+
+    expect(claudeRequest.max_tokens).toBe(4096)
+    expect(claudeRequest.tools).toBeUndefined()
+    expect(claudeRequest.messages[0].content).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'aGVsbG8=' } },
+    ])
+  })
+
+  test('rejects requests it cannot translate', () => {
+    const base = { model: 'claude-haiku-4-5', messages: [{ role: 'user', content: 'hi' }] }
+
+    expect(() => validateChatCompletionRequest({ ...base, n: 2 })).toThrow(ValidationError)
+    expect(() => validateChatCompletionRequest({ ...base, messages: [] })).toThrow(ValidationError)
+    expect(() =>
+      validateChatCompletionRequest({ ...base, messages: [{ role: 'tool', content: 'x' }] })
+    ).toThrow(ValidationError)
+    expect(() => validateChatCompletionRequest(base)).not.toThrow()
+    expect(() =>
+      toClaudeRequest({
+        model: 'claude-haiku-4-5',
+        messages: [
+          {
+            role: 'user',
+            content: [{ type: 'image_url', image_url: { url: 'https://example.com/cat.png' } }],
+          },
+        ],
+      })
+    ).toThrow('Only base64 data URLs are supported for image_url content')
+  })
+})
+
+const claudeResponse: ClaudeMessagesResponse = {
+  id: 'msg_01abc',
+  type: 'message',
+  role: 'assistant',
+  model: 'claude-sonnet-4-5-20250929',
+  content: [
+    { type: 'text', text: 'Checking.' },
+    { type: 'tool_use', id: 'toolu_01', name: 'get_weather', input: { city: 'Paris' } },
+  ],
+  stop_reason: 'tool_use',
+  stop_sequence: null,
+  usage: {
+    input_tokens: 10,
+    output_tokens: 5,
+    cache_creation_input_tokens: 2,
+    cache_read_input_tokens: 100,
+  },
+}
+
+describe('toChatCompletion', () => {
+  test('translates content, tool calls, finish reason and usage', () => {
+    expect(toChatCompletion(claudeResponse, 1760745600)).toEqual({
+      id: 'chatcmpl-01abc',
+      object: 'chat.completion',
+      created: 1760745600,
+      model: 'claude-sonnet-4-5-20250929',
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Checking.',
+            tool_calls: [
+              {
+                id: 'toolu_01',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+          logprobs: null,
+        },
+      ],
+      usage: {
+        prompt_tokens: 112,
+        completion_tokens: 5,
+        total_tokens: 117,
+        prompt_tokens_details: { cached_tokens: 100 },
+      },
+    })
+  })
+})
+
+describe('chat completion streaming', () => {
+  const claudeEvents = [
+    {
+      type: 'message_start',
+      message: { ...claudeResponse, content: [], usage: { input_tokens: 10, output_tokens: 1 } },
+    },
+    { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Check' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'ing.' } },
+    { type: 'content_block_stop', index: 0 },
+    {
+      type: 'content_block_start',
+      index: 1,
+      content_block: { type: 'tool_use', id: 'toolu_01', name: 'get_weather', input: {} },
+    },
+    {
+      type: 'content_block_delta',
+      index: 1,
+      delta: { type: 'input_json_delta', partial_json: '{"city":' },
+    },
+    {
+      type: 'content_block_delta',
+      index: 1,
+      delta: { type: 'input_json_delta', partial_json: '"Paris"}' },
+    },
+    { type: 'content_block_stop', index: 1 },
+    { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 5 } },
+    { type: 'message_stop' },
+  ]
+
+  test('translates Claude SSE events split across chunks', async () => {
+    const sse = claudeEvents
+      .map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+      .join('')
+    const encoder = new TextEncoder()
+    const source = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // Split mid-line to exercise buffering
+        for (let offset = 0; offset < sse.length; offset += 37) {
+          controller.enqueue(encoder.encode(sse.slice(offset, offset + 37)))
+        }
+        controller.close()
+      },
+    })
+
+    const output = await new Response(
+      source.pipeThrough(createChatCompletionStream('claude-sonnet-4-5-20250929', true))
+    ).text()
+    const chunks = parseChunks(output)
+
+    expect(chunks.map(chunk => (chunk === '[DONE]' ? chunk : chunk.choices[0]?.delta))).toEqual([
+      { role: 'assistant', content: '' },
+      { content: 'Check' },
+      { content: 'ing.' },
+      {
+        tool_calls: [
+          {
+            index: 0,
+            id: 'toolu_01',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '' },
+          },
+        ],
+      },
+      { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] },
+      { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] },
+      {},
+      undefined,
+      '[DONE]',
+    ])
+    expect(chunks[0].id).toBe('chatcmpl-01abc')
+    expect(chunks[6].choices[0].finish_reason).toBe('tool_calls')
+    expect(chunks[7].usage).toEqual({
+      prompt_tokens: 10,
+      completion_tokens: 5,
+      total_tokens: 15,
+      prompt_tokens_details: { cached_tokens: 0 },
+    })
+  })
+
+  test('reports stream errors in the OpenAI error format', () => {
+    const translator = new ChatCompletionStreamTranslator('claude-haiku-4-5')
+    const lines = translator.translate({
+      type: 'error',
+      error: { type: 'overloaded_error', message: 'Overloaded' },
+    })
+
+    expect(parseChunks(lines.join(''))).toEqual([
+      {
+        error: {
+          message: 'Overloaded',
+          type: 'overloaded_error',
+          param: null,
+          code: 'overloaded_error',
+        },
+      },
+      '[DONE]',
+    ])
+    expect(translator.finish()).toEqual([])
+  })
+
+  test('replays a complete response as chunks', () => {
+    const chunks = parseChunks(toChatCompletionChunks(claudeResponse))
+
+    expect(chunks.at(-1)).toBe('[DONE]')
+    expect(chunks[1].choices[0].delta).toEqual({ content: 'Checking.' })
+    expect(chunks[3].choices[0].delta.tool_calls[0].function.arguments).toBe('{"city":"Paris"}')
+    expect(chunks[4].choices[0].finish_reason).toBe('tool_calls')
+  })
+})
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import {
+  PROJECT_SETTINGS_CACHE_TTL_MS,
+  ProjectSettingsCache,
+  clearProjectSettingsCaches,
+  createSharedProjectSettingsCache,
+} from '../project-settings-cache'
+
+describe('ProjectSettingsCache', () => {
+  afterEach(() => {
+    mock.restore()
+  })
+
+  it('loads each project once per TTL', async () => {
+    const now = spyOn(Date, 'now').mockReturnValue(1_000_000)
+    const cache = new ProjectSettingsCache<string | null>()
+    const load = mock(async () => null)
+
+    expect(await cache.get('project-a', load)).toBeNull()
+    expect(await cache.get('project-a', load)).toBeNull()
+    expect(load).toHaveBeenCalledTimes(1)
+
+    now.mockReturnValue(1_000_000 + PROJECT_SETTINGS_CACHE_TTL_MS)
+    await cache.get('project-a', load)
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not cache failed loads', async () => {
+    const cache = new ProjectSettingsCache<string>()
+
+    await expect(
+      cache.get('project-a', async () => {
+        throw new Error('connection refused')
+      })
+    ).rejects.toThrow('connection refused')
+    expect(await cache.get('project-a', async () => 'loaded')).toBe('loaded')
+  })
+
+  it('evicts the least recently loaded project beyond its capacity', async () => {
+    const cache = new ProjectSettingsCache<string>(2)
+
+    await cache.get('project-a', async () => 'a')
+    await cache.get('project-b', async () => 'b')
+    await cache.get('project-c', async () => 'c')
+
+    expect(cache.size).toBe(2)
+    expect(await cache.get('project-a', async () => 'reloaded')).toBe('reloaded')
+    expect(await cache.get('project-c', async () => 'reloaded')).toBe('c')
+  })
+
+  it('clears shared caches', async () => {
+    const cache = createSharedProjectSettingsCache<string>()
+    await cache.get('project-a', async () => 'a')
+
+    clearProjectSettingsCaches()
+
+    expect(cache.size).toBe(0)
+  })
+})
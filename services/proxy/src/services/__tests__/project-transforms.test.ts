@@ -0,0 +1,240 @@
+import { describe, test, expect, beforeEach, mock } from 'bun:test'
+import type { ClaudeMessagesRequest, ProjectTransform } from '@agent-prompttrain/shared'
+
+const mockGetProjectTransforms = mock<
+  (pool: any, projectId: string) => Promise<ProjectTransform[]>
+>(() => Promise.resolve([]))
+
+mock.module('@agent-prompttrain/shared/database/queries', () => ({
+  getProjectTransforms: mockGetProjectTransforms,
+}))
+
+const { applyRequestTransforms, loadProjectTransforms, ResponseRedactor } =
+  await import('../project-transforms')
+const { ProxyResponse } = await import('../../domain/entities/ProxyResponse')
+
+function makeRequest(overrides: Partial<ClaudeMessagesRequest> = {}): ClaudeMessagesRequest {
+  return {
+    model: 'claude-sonnet-4-5-20250929',
+    max_tokens: 8192,
+    system: 'You are helpful.',
+    messages: [{ role: 'user', content: 'Hello' }],
+    ...overrides,
+  }
+}
+
+describe('applyRequestTransforms', () => {
+  test('prepends and appends system blocks around a string system prompt', () => {
+    const request = makeRequest()
+    const applied = applyRequestTransforms(request, [
+      { type: 'prepend_system', blocks: [{ type: 'text', text: 'Company policy.' }] },
+      { type: 'append_system', blocks: [{ type: 'text', text: 'Answer briefly.' }] },
+    ])
+
+    expect(request.system).toEqual([
+      { type: 'text', text: 'Company policy.' },
+      { type: 'text', text: 'You are helpful.' },
+      { type: 'text', text: 'Answer briefly.' },
+    ])
+    expect(applied.map(a => a.type)).toEqual(['prepend_system', 'append_system'])
+    expect(applied.map(a => a.index)).toEqual([0, 1])
+  })
+
+  test('injected tools replace client tools with the same name', () => {
+    const request = makeRequest({
+      tools: [
+        { name: 'search', description: 'client search', input_schema: { type: 'object' } },
+        { name: 'read', input_schema: { type: 'object' } },
+      ],
+    })
+    applyRequestTransforms(request, [
+      {
+        type: 'inject_tools',
+        tools: [
+          { name: 'search', description: 'project search', input_schema: { type: 'object' } },
+        ],
+      },
+    ])
+
+    expect(request.tools?.map(tool => tool.name)).toEqual(['read', 'search'])
+    expect(request.tools?.[1].description).toBe('project search')
+  })
+
+  test('stripping every tool also removes tool_choice', () => {
+    const request = makeRequest({
+      tools: [{ name: 'bash', input_schema: { type: 'object' } }],
+      tool_choice: { type: 'any' },
+    })
+    const applied = applyRequestTransforms(request, [{ type: 'strip_tools', names: ['bash'] }])
+
+    expect(request.tools).toBeUndefined()
+    expect(request.tool_choice).toBeUndefined()
+    expect(applied[0].summary).toContain('bash')
+  })
+
+  test('a forced tool_choice on a stripped tool falls back to auto', () => {
+    const request = makeRequest({
+      tools: [
+        { name: 'bash', input_schema: { type: 'object' } },
+        { name: 'read', input_schema: { type: 'object' } },
+      ],
+      tool_choice: { type: 'tool', name: 'bash' },
+    })
+    applyRequestTransforms(request, [{ type: 'strip_tools', names: ['bash'] }])
+
+    expect(request.tools?.map(tool => tool.name)).toEqual(['read'])
+    expect(request.tool_choice).toEqual({ type: 'auto' })
+  })
+
+  test('strip_tools is not recorded when no tool matches', () => {
+    const request = makeRequest({ tools: [{ name: 'read', input_schema: { type: 'object' } }] })
+    expect(applyRequestTransforms(request, [{ type: 'strip_tools', names: ['bash'] }])).toEqual([])
+  })
+
+  test('max_tokens_ceiling lowers max_tokens and the thinking budget', () => {
+    const request = makeRequest({
+      max_tokens: 32000,
+      thinking: { type: 'enabled', budget_tokens: 16000 },
+    })
+    const applied = applyRequestTransforms(request, [
+      { type: 'max_tokens_ceiling', max_tokens: 4096 },
+    ])
+
+    expect(request.max_tokens).toBe(4096)
+    expect(request.thinking?.budget_tokens).toBe(4095)
+    expect(applied[0].summary).toBe('max_tokens 32000 → 4096')
+  })
+
+  test('max_tokens_ceiling leaves smaller requests alone', () => {
+    const request = makeRequest({ max_tokens: 1024 })
+    expect(
+      applyRequestTransforms(request, [{ type: 'max_tokens_ceiling', max_tokens: 4096 }])
+    ).toEqual([])
+    expect(request.max_tokens).toBe(1024)
+  })
+
+  test('rewrite_model matches exact names and prefixes ending in *', () => {
+    const exact = makeRequest({ model: 'claude-opus-4-1' })
+    applyRequestTransforms(exact, [
+      { type: 'rewrite_model', from: 'claude-opus-4-1', to: 'claude-sonnet-4-5' },
+    ])
+    expect(exact.model).toBe('claude-sonnet-4-5')
+
+    const prefixed = makeRequest({ model: 'claude-opus-4-1-20250805' })
+    applyRequestTransforms(prefixed, [
+      { type: 'rewrite_model', from: 'claude-opus-*', to: 'claude-sonnet-4-5' },
+    ])
+    expect(prefixed.model).toBe('claude-sonnet-4-5')
+
+    const other = makeRequest({ model: 'claude-haiku-4-5' })
+    expect(
+      applyRequestTransforms(other, [
+        { type: 'rewrite_model', from: 'claude-opus-*', to: 'claude-sonnet-4-5' },
+      ])
+    ).toEqual([])
+    expect(other.model).toBe('claude-haiku-4-5')
+  })
+
+  test('transforms run in order', () => {
+    const request = makeRequest({ model: 'a' })
+    applyRequestTransforms(request, [
+      { type: 'rewrite_model', from: 'a', to: 'b' },
+      { type: 'rewrite_model', from: 'b', to: 'c' },
+    ])
+    expect(request.model).toBe('c')
+  })
+})
+
+describe('ResponseRedactor', () => {
+  const transforms: ProjectTransform[] = [
+    { type: 'max_tokens_ceiling', max_tokens: 4096 },
+    { type: 'redact_response', pattern: 'sk-[a-z0-9]+', flags: 'i', replacement: '[KEY]' },
+  ]
+
+  test('is empty without redact_response transforms', () => {
+    expect(new ResponseRedactor([{ type: 'max_tokens_ceiling', max_tokens: 1 }]).isEmpty).toBe(true)
+  })
+
+  test('redacts text blocks of a response body and records the matches', () => {
+    const redactor = new ResponseRedactor(transforms)
+    const body = {
+      content: [
+        { type: 'text', text: 'Use SK-abc123 or sk-def456.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'bash', input: { command: 'echo sk-keep' } },
+      ],
+    }
+    redactor.redactResponseBody(body)
+
+    expect(body.content[0].text).toBe('Use [KEY] or [KEY].')
+    expect((body.content[1] as any).input.command).toBe('echo sk-keep')
+    expect(redactor.getApplied()).toEqual([
+      { index: 1, type: 'redact_response', summary: 'redacted 2 match(es) of /sk-[a-z0-9]+/' },
+    ])
+  })
+
+  test('redacts text deltas in SSE chunks and leaves other events untouched', () => {
+    const redactor = new ResponseRedactor(transforms)
+    const delta = {
+      type: 'content_block_delta',
+      index: 0,
+      delta: { type: 'text_delta', text: 'key: sk-abc' },
+    }
+    const chunk = `event: content_block_delta\ndata: ${JSON.stringify(delta)}\n\n`
+    const redacted = redactor.redactStreamChunk(chunk)
+
+    expect(redacted).toContain('"text":"key: [KEY]"')
+    expect(redacted.startsWith('event: content_block_delta\n')).toBe(true)
+
+    const ping = 'data: {"type":"ping"}\n\n'
+    expect(redactor.redactStreamChunk(ping)).toBe(ping)
+  })
+
+  test('redacting the ProxyResponse content does not count matches twice', () => {
+    const redactor = new ResponseRedactor(transforms)
+    const response = new ProxyResponse('req-1', false)
+    response.processResponse({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-sonnet-4-5',
+      content: [{ type: 'text', text: 'sk-abc' }],
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage: { input_tokens: 1, output_tokens: 1 },
+    } as any)
+
+    redactor.redactText('sk-abc')
+    redactor.redactProxyResponse(response)
+
+    expect(response.content).toBe('[KEY]')
+    expect(redactor.getApplied()[0].summary).toContain('1 match(es)')
+  })
+})
+
+describe('loadProjectTransforms', () => {
+  beforeEach(() => {
+    mockGetProjectTransforms.mockReset()
+  })
+
+  test('returns the project transforms', async () => {
+    mockGetProjectTransforms.mockResolvedValueOnce([{ type: 'strip_tools', names: ['bash'] }])
+    expect(await loadProjectTransforms({} as any, 'proj')).toEqual([
+      { type: 'strip_tools', names: ['bash'] },
+    ])
+  })
+
+  test('caches the transforms per project', async () => {
+    mockGetProjectTransforms.mockResolvedValue([{ type: 'strip_tools', names: ['bash'] }])
+    await loadProjectTransforms({} as any, 'cached-proj')
+    await loadProjectTransforms({} as any, 'cached-proj')
+    expect(mockGetProjectTransforms).toHaveBeenCalledTimes(1)
+  })
+
+  test('fails open when the query fails, without caching the failure', async () => {
+    mockGetProjectTransforms.mockRejectedValueOnce(new Error('db down'))
+    expect(await loadProjectTransforms({} as any, 'failing-proj')).toEqual([])
+
+    mockGetProjectTransforms.mockResolvedValueOnce([{ type: 'strip_tools', names: ['bash'] }])
+    expect(await loadProjectTransforms({} as any, 'failing-proj')).toHaveLength(1)
+  })
+})
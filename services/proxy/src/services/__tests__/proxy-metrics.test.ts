@@ -0,0 +1,174 @@
+import { describe, test, expect, beforeEach, mock } from 'bun:test'
+import type { Pool } from 'pg'
+
+mock.module('../../middleware/logger', () => ({
+  logger: {
+    info: () => {},
+    warn: () => {},
+    debug: () => {},
+    error: () => {},
+  },
+}))
+
+import { Counter, Histogram, gaugeFamily, renderOpenMetrics } from '../openmetrics'
+import { proxyMetrics } from '../proxy-metrics'
+import { AccountPoolStateService } from '../account-pool-state-service'
+
+describe('renderOpenMetrics', () => {
+  test('renders counters with a _total suffix and terminates with # EOF', () => {
+    const counter = new Counter('app_requests', 'Requests', ['status'])
+    counter.inc({ status: '200' })
+    counter.inc({ status: '200' }, 2)
+    counter.inc({ status: '500' })
+
+    expect(renderOpenMetrics([counter.collect()])).toBe(
+      [
+        '# TYPE app_requests counter',
+        '# HELP app_requests Requests',
+        'app_requests_total{status="200"} 3',
+        'app_requests_total{status="500"} 1',
+        '# EOF',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('renders cumulative histogram buckets, count and sum', () => {
+    const histogram = new Histogram('app_latency_seconds', 'Latency', ['route'], [0.5, 1])
+    histogram.observe({ route: '/a' }, 0.25)
+    histogram.observe({ route: '/a' }, 0.75)
+    histogram.observe({ route: '/a' }, 3)
+
+    const lines = renderOpenMetrics([histogram.collect()]).split('\n')
+    expect(lines).toContain('app_latency_seconds_bucket{route="/a",le="0.5"} 1')
+    expect(lines).toContain('app_latency_seconds_bucket{route="/a",le="1"} 2')
+    expect(lines).toContain('app_latency_seconds_bucket{route="/a",le="+Inf"} 3')
+    expect(lines).toContain('app_latency_seconds_count{route="/a"} 3')
+    expect(lines).toContain('app_latency_seconds_sum{route="/a"} 4')
+  })
+
+  test('escapes label values', () => {
+    const output = renderOpenMetrics([
+      gaugeFamily('app_info', 'Info', [{ labels: { name: 'a "b"\\c\nd' }, value: 1 }]),
+    ])
+    expect(output).toContain('app_info{name="a \\"b\\"\\\\c\\nd"} 1')
+  })
+
+  test('ignores negative counter increments', () => {
+    const counter = new Counter('app_events', 'Events')
+    counter.inc({}, -1)
+    expect(counter.collect().samples).toEqual([])
+  })
+})
+
+describe('proxyMetrics', () => {
+  beforeEach(() => {
+    proxyMetrics.reset()
+  })
+
+  test('records requests, latency and tokens by project and model', async () => {
+    proxyMetrics.recordRequest({
+      projectId: 'proj',
+      model: 'claude-sonnet-4-5',
+      status: 200,
+      durationMs: 1500,
+      inputTokens: 100,
+      outputTokens: 20,
+      cacheReadInputTokens: 50,
+    })
+    proxyMetrics.recordTimeToFirstToken('proj', 'claude-sonnet-4-5', 400)
+
+    const output = await proxyMetrics.render({})
+    const labels = 'project="proj",model="claude-sonnet-4-5"'
+    expect(output).toContain(`prompttrain_requests_total{${labels},status="200"} 1`)
+    expect(output).toContain(
+      `prompttrain_request_duration_seconds_bucket{${labels},status="200",le="2.5"} 1`
+    )
+    expect(output).toContain(`prompttrain_request_duration_seconds_sum{${labels},status="200"} 1.5`)
+    expect(output).toContain(`prompttrain_time_to_first_token_seconds_bucket{${labels},le="0.5"} 1`)
+    expect(output).toContain(`prompttrain_tokens_total{${labels},type="input"} 100`)
+    expect(output).toContain(`prompttrain_tokens_total{${labels},type="output"} 20`)
+    expect(output).toContain(`prompttrain_tokens_total{${labels},type="cache_read"} 50`)
+    expect(output.endsWith('# EOF\n')).toBe(true)
+  })
+
+  test('counts unknown and excess models as other', async () => {
+    proxyMetrics.recordRequest({
+      projectId: 'proj',
+      model: 'made-up-model-1234',
+      status: 404,
+      durationMs: 10,
+    })
+    for (let i = 0; i < 60; i++) {
+      proxyMetrics.recordRequest({
+        projectId: 'proj',
+        model: `claude-sonnet-4-${i}`,
+        status: 200,
+        durationMs: 10,
+      })
+    }
+
+    const output = await proxyMetrics.render({})
+    expect(output).not.toContain('made-up-model-1234')
+    expect(output).toContain(
+      'prompttrain_requests_total{project="proj",model="other",status="404"} 1'
+    )
+    expect(output).toContain('model="claude-sonnet-4-0"')
+    expect(output).not.toContain('model="claude-sonnet-4-59"')
+    expect(output).toContain(
+      'prompttrain_requests_total{project="proj",model="other",status="200"} 10'
+    )
+  })
+
+  test('reads account pool in-flight requests and cooldowns at scrape time', async () => {
+    const stateService = new AccountPoolStateService()
+    await stateService.reserveBestAccount('proj', 'claude-opus-4-1', [
+      { credentialId: 'cred-1', pressure: 0 },
+    ])
+    await stateService.markCooldown(
+      'cred-2',
+      'claude-opus-4-1',
+      new Date(Date.now() + 60_000),
+      60,
+      'rate_limited'
+    )
+
+    const output = await proxyMetrics.render({ accountPoolState: stateService })
+    expect(output).toContain('prompttrain_account_pool_in_flight_requests{account="cred-1"} 1')
+    expect(output).toMatch(
+      /prompttrain_account_pool_cooldown_seconds\{account="cred-2",model="claude-opus-4-1"\} (59|60)(\.\d+)?\n/
+    )
+  })
+
+  test('reports OAuth refresh outcomes, analysis queue depth and database pool stats', async () => {
+    const pool = {
+      totalCount: 5,
+      idleCount: 3,
+      waitingCount: 1,
+      query: mock(() =>
+        Promise.resolve({
+          rows: [{ status: 'pending', count: '4' }],
+        })
+      ),
+    }
+
+    const output = await proxyMetrics.render({
+      pool: pool as unknown as Pool,
+      oauthRefresh: {
+        attempts: 3,
+        successes: 2,
+        failures: 1,
+        concurrentWaits: 0,
+        currentActiveRefreshes: 0,
+        currentFailedRefreshes: 1,
+      },
+    })
+
+    expect(output).toContain('prompttrain_oauth_refresh_total{outcome="failure"} 1')
+    expect(output).toContain('prompttrain_oauth_refresh_failed_credentials 1')
+    expect(output).toContain('prompttrain_analysis_jobs{status="pending"} 4')
+    expect(output).toContain('prompttrain_analysis_jobs{status="processing"} 0')
+    expect(output).toContain('prompttrain_db_pool_connections{state="active"} 2')
+    expect(output).toContain('prompttrain_db_pool_waiting_clients 1')
+  })
+})
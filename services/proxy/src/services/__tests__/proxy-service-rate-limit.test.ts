@@ -70,6 +70,11 @@ function makeDependencies(forward: (authResult: AuthResult) => Promise<Response>
     forward: mock(async (_request: unknown, authResult: AuthResult) => forward(authResult)),
     processResponse: mock(async (response: Response) => response.json()),
   }
+  const bedrockClient = {
+    forward: mock(async () => {
+      throw new Error('Bedrock is not used by Anthropic accounts')
+    }),
+  }
   const metricsService = {
     trackRequest: mock(async () => undefined),
     trackError: mock(async () => undefined),
@@ -79,7 +84,7 @@ function makeDependencies(forward: (authResult: AuthResult) => Promise<Response>
     notifyError: mock(async () => undefined),
   }
 
-  return { authService, apiClient, metricsService, notificationService }
+  return { authService, apiClient, bedrockClient, metricsService, notificationService }
 }
 
 describe('ProxyService account rate-limit failover', () => {
@@ -95,6 +100,7 @@ describe('ProxyService account rate-limit failover', () => {
     const service = new ProxyService(
       dependencies.authService as any,
       dependencies.apiClient as any,
+      dependencies.bedrockClient as any,
       dependencies.notificationService as any,
       dependencies.metricsService as any
     )
@@ -120,6 +126,7 @@ describe('ProxyService account rate-limit failover', () => {
     const service = new ProxyService(
       dependencies.authService as any,
       dependencies.apiClient as any,
+      dependencies.bedrockClient as any,
       dependencies.notificationService as any,
       dependencies.metricsService as any
     )
@@ -0,0 +1,99 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  RateLimitStore,
+  computeRetryAfterMs,
+  estimateSlidingCount,
+  getWindowStart,
+} from '../rate-limit-store'
+
+const WINDOW_MS = 60_000
+
+describe('estimateSlidingCount', () => {
+  test('weights the previous window by its remaining overlap', () => {
+    expect(estimateSlidingCount(10, 100, 0, WINDOW_MS)).toBe(110)
+    expect(estimateSlidingCount(10, 100, 15_000, WINDOW_MS)).toBe(85)
+    expect(estimateSlidingCount(10, 100, WINDOW_MS, WINDOW_MS)).toBe(10)
+  })
+})
+
+describe('computeRetryAfterMs', () => {
+  test('returns 0 when a request fits', () => {
+    expect(computeRetryAfterMs(5, 0, 10, 1_000, WINDOW_MS)).toBe(0)
+  })
+
+  test('waits for the previous window to decay within the current window', () => {
+    // limit 100, 50 in current window, 100 in previous, 15s elapsed: estimate 125.
+    // Needs 50 + 100 * (1 - t/W) <= 99  ->  t >= 30.6s, i.e. 15.6s from now
+    const retryAfter = computeRetryAfterMs(50, 100, 100, 15_000, WINDOW_MS)
+
+    expect(retryAfter).toBe(15_600)
+    expect(estimateSlidingCount(50, 100, 15_000 + retryAfter, WINDOW_MS)).toBeLessThanOrEqual(99)
+  })
+
+  test('waits into the next window when the current window alone is over the limit', () => {
+    // 100 requests in the current window, 30s elapsed. In the next window they
+    // become the previous window and must decay to 9: 30s + 60s * (1 - 9/100)
+    const retryAfter = computeRetryAfterMs(100, 0, 10, 30_000, WINDOW_MS)
+
+    expect(retryAfter).toBe(84_600)
+  })
+})
+
+describe('RateLimitStore (in-memory)', () => {
+  test('counts requests in the current window', async () => {
+    const store = new RateLimitStore()
+    const now = getWindowStart(Date.now(), WINDOW_MS) + 1_000
+
+    await store.increment('api:a', WINDOW_MS, now)
+    const counts = await store.increment('api:a', WINDOW_MS, now)
+
+    expect(counts.requests).toBe(2)
+    expect(counts.previousRequests).toBe(0)
+    expect(store.isPersistent).toBe(false)
+  })
+
+  test('keeps counters separate per key', async () => {
+    const store = new RateLimitStore()
+    const now = Date.now()
+
+    await store.increment('api:a', WINDOW_MS, now)
+    const counts = await store.increment('api:b', WINDOW_MS, now)
+
+    expect(counts.requests).toBe(1)
+  })
+
+  test('reports the previous window once the window rolls over', async () => {
+    const store = new RateLimitStore()
+    const windowStart = getWindowStart(Date.now(), WINDOW_MS)
+
+    await store.increment('train:p', WINDOW_MS, windowStart + 1_000)
+    await store.addTokens('train:p', windowStart, WINDOW_MS, 500)
+    const counts = await store.increment('train:p', WINDOW_MS, windowStart + WINDOW_MS + 1_000)
+
+    expect(counts.windowStart).toBe(windowStart + WINDOW_MS)
+    expect(counts.requests).toBe(1)
+    expect(counts.previousRequests).toBe(1)
+    expect(counts.previousTokens).toBe(500)
+  })
+
+  test('decrement undoes a counted request', async () => {
+    const store = new RateLimitStore()
+    const now = Date.now()
+
+    const first = await store.increment('api:a', WINDOW_MS, now)
+    await store.decrement('api:a', first.windowStart)
+    const counts = await store.increment('api:a', WINDOW_MS, now)
+
+    expect(counts.requests).toBe(1)
+  })
+
+  test('cleanup removes expired windows', async () => {
+    const store = new RateLimitStore()
+    const now = Date.now()
+
+    await store.increment('api:a', WINDOW_MS, now)
+
+    expect(await store.cleanup(now)).toBe(0)
+    expect(await store.cleanup(now + 3 * WINDOW_MS)).toBe(1)
+  })
+})
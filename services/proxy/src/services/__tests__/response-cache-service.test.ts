@@ -0,0 +1,153 @@
+import { describe, test, expect, beforeEach, mock } from 'bun:test'
+import type {
+  CachedResponse,
+  ClaudeMessagesRequest,
+  ClaudeMessagesResponse,
+  RedactionSettings,
+  ResponseCacheSettings,
+} from '@agent-prompttrain/shared'
+
+// ── Mock functions ──────────────────────────────────────────────────────────
+
+const mockGetSettings = mock<
+  (pool: any, projectId: string) => Promise<ResponseCacheSettings | null>
+>(() => Promise.resolve({ enabled: true, ttlSeconds: 300 }))
+const mockGetCachedResponse = mock<
+  (pool: any, projectId: string, cacheKey: string) => Promise<CachedResponse | null>
+>(() => Promise.resolve(null))
+const mockStoreCachedResponse = mock<(pool: any, entry: any, ttlSeconds: number) => Promise<void>>(
+  () => Promise.resolve()
+)
+const mockDeleteExpired = mock<(pool: any) => Promise<number>>(() => Promise.resolve(0))
+const mockGetRedactionSettings = mock<
+  (pool: any, projectId: string) => Promise<RedactionSettings | null>
+>(() => Promise.resolve(null))
+
+// ── Module mocks (must run before importing the service) ────────────────────
+
+mock.module('@agent-prompttrain/shared/database/queries', () => ({
+  getProjectResponseCacheSettings: mockGetSettings,
+  getCachedResponse: mockGetCachedResponse,
+  storeCachedResponse: mockStoreCachedResponse,
+  deleteExpiredCachedResponses: mockDeleteExpired,
+  getProjectRedactionSettings: mockGetRedactionSettings,
+}))
+
+mock.module('../../middleware/logger', () => ({
+  logger: {
+    info: () => {},
+    warn: () => {},
+    debug: () => {},
+    error: () => {},
+  },
+}))
+
+// ── Import service under test (after mocks) ─────────────────────────────────
+
+import { ResponseCacheService } from '../response-cache-service'
+import { clearProjectSettingsCaches } from '../project-settings-cache'
+import { ProxyRequest } from '../../domain/entities/ProxyRequest'
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function makeRequest(overrides: Partial<ClaudeMessagesRequest> = {}): ProxyRequest {
+  return new ProxyRequest(
+    {
+      model: 'claude-haiku-4-5',
+      max_tokens: 100,
+      temperature: 0,
+      messages: [{ role: 'user', content: 'Is this a new topic?' }],
+      ...overrides,
+    },
+    'project-1',
+    'request-1'
+  )
+}
+
+const upstreamResponse: ClaudeMessagesResponse = {
+  id: 'msg_1',
+  type: 'message',
+  role: 'assistant',
+  content: [{ type: 'text', text: 'No' }],
+  model: 'claude-haiku-4-5',
+  stop_reason: 'end_turn',
+  stop_sequence: null,
+  usage: { input_tokens: 120, output_tokens: 3, cache_read_input_tokens: 800 },
+}
+
+describe('ResponseCacheService', () => {
+  let service: ResponseCacheService
+
+  beforeEach(() => {
+    mockGetSettings.mockReset()
+    mockGetSettings.mockImplementation(() => Promise.resolve({ enabled: true, ttlSeconds: 300 }))
+    mockGetCachedResponse.mockReset()
+    mockStoreCachedResponse.mockClear()
+    mockGetRedactionSettings.mockReset()
+    mockGetRedactionSettings.mockImplementation(() => Promise.resolve(null))
+    clearProjectSettingsCaches()
+    service = new ResponseCacheService({} as any)
+  })
+
+  test('returns a key for deterministic requests when the cache is enabled', async () => {
+    const key = await service.getCacheKey(makeRequest(), 'project-1')
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  test('does not cache streaming or non-zero temperature requests', async () => {
+    expect(await service.getCacheKey(makeRequest({ stream: true }), 'project-1')).toBeNull()
+    expect(await service.getCacheKey(makeRequest({ temperature: 0.7 }), 'project-1')).toBeNull()
+    expect(
+      await service.getCacheKey(makeRequest({ temperature: undefined }), 'project-1')
+    ).toBeNull()
+  })
+
+  test('does not cache when the project has not enabled it', async () => {
+    mockGetSettings.mockImplementation(() => Promise.resolve({ enabled: false, ttlSeconds: 300 }))
+
+    expect(await service.getCacheKey(makeRequest(), 'project-1')).toBeNull()
+  })
+
+  test('does not cache for projects that redact stored bodies', async () => {
+    mockGetRedactionSettings.mockImplementation(() =>
+      Promise.resolve({ enabled: true, patterns: [] })
+    )
+
+    expect(await service.getCacheKey(makeRequest(), 'project-1')).toBeNull()
+  })
+
+  test('does not cache when the redaction settings cannot be read', async () => {
+    mockGetRedactionSettings.mockImplementation(() => Promise.reject(new Error('db down')))
+
+    expect(await service.getCacheKey(makeRequest(), 'project-1')).toBeNull()
+  })
+
+  test('caches project settings between requests', async () => {
+    await service.getCacheKey(makeRequest(), 'project-1')
+    await service.getCacheKey(makeRequest(), 'project-1')
+
+    expect(mockGetSettings).toHaveBeenCalledTimes(1)
+  })
+
+  test('stores responses with their original usage and the project TTL', async () => {
+    await service.store('project-1', 'key-1', 'claude-haiku-4-5', upstreamResponse)
+
+    expect(mockStoreCachedResponse).toHaveBeenCalledTimes(1)
+    const [, entry, ttlSeconds] = mockStoreCachedResponse.mock.calls[0]
+    expect(entry).toMatchObject({
+      projectId: 'project-1',
+      cacheKey: 'key-1',
+      inputTokens: 120,
+      outputTokens: 3,
+      cacheReadInputTokens: 800,
+    })
+    expect(ttlSeconds).toBe(300)
+  })
+
+  test('treats lookup failures as a miss', async () => {
+    mockGetCachedResponse.mockImplementation(() => Promise.reject(new Error('db down')))
+
+    expect(await service.lookup('project-1', 'key-1')).toBeNull()
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  countResultTokens,
+  extractToolCalls,
+  extractToolResults,
+  getBashCommandName,
+  getMcpServerName,
+} from '../tool-usage'
+
+describe('getMcpServerName', () => {
+  test('returns the server of MCP tools only', () => {
+    expect(getMcpServerName('mcp__github__create_issue')).toBe('github')
+    expect(getMcpServerName('mcp__claude_ai_Slack__post')).toBe('claude_ai_Slack')
+    expect(getMcpServerName('Bash')).toBeNull()
+    expect(getMcpServerName('mcp__incomplete')).toBeNull()
+  })
+})
+
+describe('getBashCommandName', () => {
+  test('reports the program with its subcommand', () => {
+    expect(getBashCommandName('git status --short')).toBe('git status')
+    expect(getBashCommandName('bun run typecheck')).toBe('bun run')
+    expect(getBashCommandName('ls -la src')).toBe('ls')
+    expect(getBashCommandName('git --no-pager log')).toBe('git')
+  })
+
+  test('skips cd steps, environment assignments and wrappers', () => {
+    expect(getBashCommandName('cd services/proxy && NODE_ENV=test npm test')).toBe('npm test')
+    expect(getBashCommandName('(cd app; sudo docker compose up -d)')).toBe('docker compose')
+    expect(getBashCommandName('/usr/bin/grep -rn foo .')).toBe('grep')
+    expect(getBashCommandName('cd /tmp')).toBeNull()
+  })
+})
+
+describe('extractToolCalls', () => {
+  test('extracts tool calls with MCP server, Bash command and edited file', () => {
+    const calls = extractToolCalls({
+      content: [
+        { type: 'text', text: 'Let me look.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'git diff HEAD' } },
+        { type: 'tool_use', id: 'toolu_2', name: 'Edit', input: { file_path: '/src/app.ts' } },
+        { type: 'tool_use', id: 'toolu_3', name: 'mcp__linear__get_issue', input: { id: 'X-1' } },
+        {
+          type: 'tool_use',
+          id: 'toolu_4',
+          name: 'NotebookEdit',
+          input: { notebook_path: 'a.ipynb' },
+        },
+      ],
+    })
+
+    expect(calls).toEqual([
+      {
+        toolUseId: 'toolu_1',
+        toolName: 'Bash',
+        mcpServer: null,
+        command: 'git diff',
+        filePath: null,
+      },
+      {
+        toolUseId: 'toolu_2',
+        toolName: 'Edit',
+        mcpServer: null,
+        command: null,
+        filePath: '/src/app.ts',
+      },
+      {
+        toolUseId: 'toolu_3',
+        toolName: 'mcp__linear__get_issue',
+        mcpServer: 'linear',
+        command: null,
+        filePath: null,
+      },
+      {
+        toolUseId: 'toolu_4',
+        toolName: 'NotebookEdit',
+        mcpServer: null,
+        command: null,
+        filePath: 'a.ipynb',
+      },
+    ])
+  })
+
+  test('returns nothing for bodies without tool calls', () => {
+    expect(extractToolCalls(null)).toEqual([])
+    expect(extractToolCalls({ content: 'text' })).toEqual([])
+  })
+})
+
+describe('extractToolResults', () => {
+  test('extracts the results of the last user message only', () => {
+    const results = extractToolResults({
+      messages: [
+        {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: 'toolu_old', content: 'done' }],
+        },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Bash' }] },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: 'toolu_1',
+              is_error: true,
+              content: [{ type: 'text', text: 'command not found: foo' }],
+            },
+            { type: 'tool_result', tool_use_id: 'toolu_2' },
+          ],
+        },
+      ],
+    })
+
+    expect(results.map(result => result.toolUseId)).toEqual(['toolu_1', 'toolu_2'])
+    expect(results[0].isError).toBe(true)
+    expect(results[0].resultTokens).toBeGreaterThan(0)
+    expect(results[1]).toEqual({ toolUseId: 'toolu_2', isError: false, resultTokens: 0 })
+  })
+
+  test('estimates the tokens of large results instead of encoding them', () => {
+    expect(countResultTokens('')).toBe(0)
+    expect(countResultTokens('hello world')).toBeGreaterThan(0)
+    expect(countResultTokens('x'.repeat(1_200_000))).toBe(300_000)
+  })
+
+  test('returns nothing when the last message is not a user message', () => {
+    expect(extractToolResults({ messages: [{ role: 'assistant', content: [] }] })).toEqual([])
+    expect(extractToolResults({})).toEqual([])
+  })
+})
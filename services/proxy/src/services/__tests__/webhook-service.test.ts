@@ -0,0 +1,225 @@
+import { describe, test, expect, beforeEach, afterEach, mock } from 'bun:test'
+import type { ProjectWebhook, WebhookEventType } from '@agent-prompttrain/shared'
+
+// ── Mock functions ──────────────────────────────────────────────────────────
+
+const mockGetProjectWebhooksForEvent = mock<
+  (pool: any, projectId: string, event: WebhookEventType) => Promise<ProjectWebhook[]>
+>(() => Promise.resolve([]))
+const mockRecordWebhookDelivery = mock<
+  (
+    pool: any,
+    webhookId: string,
+    outcome: { status: number | null; error: string | null }
+  ) => Promise<void>
+>(() => Promise.resolve())
+
+// ── Module mocks (must run before importing the service) ────────────────────
+
+mock.module('@agent-prompttrain/shared/database/queries', () => ({
+  getProjectWebhooksForEvent: mockGetProjectWebhooksForEvent,
+  recordWebhookDelivery: mockRecordWebhookDelivery,
+}))
+
+mock.module('../../middleware/logger', () => ({
+  logger: {
+    info: () => {},
+    warn: () => {},
+    debug: () => {},
+    error: () => {},
+  },
+}))
+
+// ── Import service under test (after mocks) ─────────────────────────────────
+
+import { WebhookService, WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from '../webhook-service'
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const FAST_RETRY = { maxAttempts: 3, initialDelay: 1, maxDelay: 2, jitter: false }
+
+function makeWebhook(overrides: Partial<ProjectWebhook> = {}): ProjectWebhook {
+  return {
+    id: 'webhook-1',
+    project_id: 'project-uuid',
+    url: 'https://hooks.example.com/prompttrain',
+    secret: 'whsec_test',
+    events: ['request.error'],
+    enabled: true,
+    created_by: 'owner@example.com',
+    created_at: new Date(),
+    updated_at: new Date(),
+    last_delivery_at: null,
+    last_delivery_status: null,
+    last_delivery_error: null,
+    ...overrides,
+  }
+}
+
+interface CapturedRequest {
+  url: string
+  headers: Record<string, string>
+  body: string
+  redirect?: RequestInit['redirect']
+}
+
+/** Public addresses for every host, except hosts under internal.example.com */
+const lookupAddresses = (hostname: string) =>
+  Promise.resolve(hostname.endsWith('internal.example.com') ? ['10.0.0.5'] : ['93.184.216.34'])
+
+const originalFetch = globalThis.fetch
+let requests: CapturedRequest[]
+
+function stubFetch(statuses: number[]) {
+  requests = []
+  globalThis.fetch = (async (url: string, init: RequestInit) => {
+    requests.push({
+      url,
+      headers: init.headers as Record<string, string>,
+      body: init.body as string,
+      redirect: init.redirect,
+    })
+    const status = statuses[Math.min(requests.length - 1, statuses.length - 1)]
+    return new Response(null, { status })
+  }) as unknown as typeof fetch
+}
+
+// ── Tests ───────────────────────────────────────────────────────────────────
+
+describe('WebhookService', () => {
+  const service = new WebhookService({} as any, FAST_RETRY, lookupAddresses)
+
+  beforeEach(() => {
+    mockGetProjectWebhooksForEvent.mockReset()
+    mockRecordWebhookDelivery.mockReset()
+    mockGetProjectWebhooksForEvent.mockImplementation(() => Promise.resolve([makeWebhook()]))
+    mockRecordWebhookDelivery.mockImplementation(() => Promise.resolve())
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  test('does nothing when no webhook subscribes to the event', async () => {
+    mockGetProjectWebhooksForEvent.mockImplementation(() => Promise.resolve([]))
+    stubFetch([200])
+
+    await service.send('my-project', 'request.error', {})
+
+    expect(requests).toHaveLength(0)
+    expect(mockRecordWebhookDelivery).not.toHaveBeenCalled()
+  })
+
+  test('posts a signed payload and records the delivery', async () => {
+    stubFetch([204])
+
+    await service.send('my-project', 'request.error', { requestId: 'req-1' })
+
+    expect(mockGetProjectWebhooksForEvent.mock.calls[0][1]).toBe('my-project')
+    expect(mockGetProjectWebhooksForEvent.mock.calls[0][2]).toBe('request.error')
+    expect(requests).toHaveLength(1)
+
+    const [request] = requests
+    expect(request.url).toBe('https://hooks.example.com/prompttrain')
+    expect(request.headers['X-PromptTrain-Event']).toBe('request.error')
+    expect(request.redirect).toBe('manual')
+
+    const payload = JSON.parse(request.body)
+    expect(payload).toMatchObject({
+      type: 'request.error',
+      projectId: 'my-project',
+      data: { requestId: 'req-1' },
+    })
+    expect(request.headers['X-PromptTrain-Delivery']).toBe(payload.id)
+
+    const match = request.headers[WEBHOOK_SIGNATURE_HEADER].match(/^t=(\d+),v1=([0-9a-f]{64})$/)
+    expect(match).not.toBeNull()
+    expect(match![2]).toBe(signWebhookPayload('whsec_test', Number(match![1]), request.body))
+
+    expect(mockRecordWebhookDelivery).toHaveBeenCalledWith({}, 'webhook-1', {
+      status: 204,
+      error: null,
+    })
+  })
+
+  test('retries server errors until the endpoint accepts the event', async () => {
+    stubFetch([500, 503, 200])
+
+    await service.send('my-project', 'request.error', {})
+
+    expect(requests).toHaveLength(3)
+    // Every attempt carries the same delivery id
+    expect(new Set(requests.map(r => r.headers['X-PromptTrain-Delivery'])).size).toBe(1)
+    expect(mockRecordWebhookDelivery).toHaveBeenCalledWith({}, 'webhook-1', {
+      status: 200,
+      error: null,
+    })
+  })
+
+  test('does not retry when the endpoint rejects the payload', async () => {
+    stubFetch([400])
+
+    await service.send('my-project', 'request.error', {})
+
+    expect(requests).toHaveLength(1)
+    expect(mockRecordWebhookDelivery).toHaveBeenCalledWith({}, 'webhook-1', {
+      status: 400,
+      error: 'Webhook endpoint responded with 400',
+    })
+  })
+
+  test('does not follow redirects', async () => {
+    stubFetch([302])
+
+    await service.send('my-project', 'request.error', {})
+
+    expect(requests).toHaveLength(1)
+    expect(mockRecordWebhookDelivery.mock.calls[0][2].status).toBe(302)
+  })
+
+  test('refuses endpoints that resolve to a private address', async () => {
+    mockGetProjectWebhooksForEvent.mockImplementation(() =>
+      Promise.resolve([makeWebhook({ url: 'https://hooks.internal.example.com' })])
+    )
+    stubFetch([200])
+
+    await service.send('my-project', 'request.error', {})
+
+    expect(requests).toHaveLength(0)
+    expect(mockRecordWebhookDelivery).toHaveBeenCalledWith({}, 'webhook-1', {
+      status: null,
+      error: 'Webhook URL must not point to a private, loopback or link-local address',
+    })
+  })
+
+  test('records the failure once retries are exhausted', async () => {
+    stubFetch([502])
+
+    await service.send('my-project', 'request.error', {})
+
+    expect(requests).toHaveLength(FAST_RETRY.maxAttempts)
+    expect(mockRecordWebhookDelivery.mock.calls[0][2].status).toBe(502)
+  })
+
+  test('delivers to every subscribed webhook with its own secret', async () => {
+    mockGetProjectWebhooksForEvent.mockImplementation(() =>
+      Promise.resolve([
+        makeWebhook(),
+        makeWebhook({ id: 'webhook-2', url: 'https://other.example.com', secret: 'whsec_other' }),
+      ])
+    )
+    stubFetch([200])
+
+    await service.send('my-project', 'budget.threshold', {})
+
+    expect(requests.map(r => r.url).sort()).toEqual([
+      'https://hooks.example.com/prompttrain',
+      'https://other.example.com',
+    ])
+    const other = requests.find(r => r.url === 'https://other.example.com')!
+    const [, timestamp, signature] =
+      other.headers[WEBHOOK_SIGNATURE_HEADER].match(/^t=(\d+),v1=(\w+)$/)!
+    expect(signature).toBe(signWebhookPayload('whsec_other', Number(timestamp), other.body))
+    expect(mockRecordWebhookDelivery).toHaveBeenCalledTimes(2)
+  })
+})
@@ -4,6 +4,7 @@ import {
   type Credential,
   type AnthropicCredential,
   type AnthropicOAuthUsageResponse,
+  type BedrockCredential,
   type OAuthLimitEntry,
   type UpstreamError,
 } from '@agent-prompttrain/shared'
@@ -52,7 +53,10 @@ interface UsageEvaluation {
   available: boolean
 }
 
-/** Selects and reserves Anthropic accounts using shared PostgreSQL state. */
+/**
+ * Selects and reserves Anthropic accounts using shared PostgreSQL state, failing
+ * over to linked Bedrock accounts when none is available.
+ */
 export class AccountPoolService {
   private readonly stateService: AccountPoolStateService
 
@@ -80,9 +84,13 @@ export class AccountPoolService {
       (credential): credential is AnthropicCredential => credential.provider === 'anthropic'
     )
     const excluded = new Set(options.excludeCredentialIds ?? [])
+    const bedrockCredentials = linkedCredentials.filter(
+      (credential): credential is BedrockCredential =>
+        credential.provider === 'bedrock' && !excluded.has(credential.id)
+    )
 
     if (allAnthropicCredentials.length < 2) {
-      return this.selectDefaultAccount(projectId, model, excluded)
+      return this.selectDefaultAccount(projectId, model, excluded, bedrockCredentials)
     }
 
     const credentials = allAnthropicCredentials.filter(credential => !excluded.has(credential.id))
@@ -96,9 +104,13 @@ export class AccountPoolService {
     if (available.length === 0) {
       const estimatedReset = this.findEarliestReset(credentials, usageMap, model)
       this.logExhaustion(projectId, evaluated, estimatedReset)
-      throw new AccountPoolExhaustedError(
-        `All ${allAnthropicCredentials.length} accounts in pool for project "${projectId}" are unavailable or over their utilization thresholds`,
-        estimatedReset
+      return this.failOverToBedrock(
+        projectId,
+        bedrockCredentials,
+        new AccountPoolExhaustedError(
+          `All ${allAnthropicCredentials.length} accounts in pool for project "${projectId}" are unavailable or over their utilization thresholds`,
+          estimatedReset
+        )
       )
     }
 
@@ -109,9 +121,13 @@ export class AccountPoolService {
     const reservation = await this.stateService.reserveBestAccount(projectId, model, candidates)
     if (!reservation.credentialId) {
       this.logExhaustion(projectId, evaluated, reservation.earliestCooldownReset)
-      throw new AccountPoolExhaustedError(
-        `All ${allAnthropicCredentials.length} accounts in pool for project "${projectId}" are cooling down after upstream rate limits`,
-        reservation.earliestCooldownReset
+      return this.failOverToBedrock(
+        projectId,
+        bedrockCredentials,
+        new AccountPoolExhaustedError(
+          `All ${allAnthropicCredentials.length} accounts in pool for project "${projectId}" are cooling down after upstream rate limits`,
+          reservation.earliestCooldownReset
+        )
       )
     }
 
@@ -186,7 +202,8 @@ export class AccountPoolService {
   private async selectDefaultAccount(
     projectId: string,
     model: string | undefined,
-    excluded: Set<string>
+    excluded: Set<string>,
+    bedrockCredentials: BedrockCredential[]
   ): Promise<AccountSelection> {
     const credentials = await getProjectCredentials(this.pool, projectId)
     if (credentials.length === 0) {
@@ -195,8 +212,12 @@ export class AccountPoolService {
 
     const credential = credentials[0]
     if (excluded.has(credential.id)) {
-      throw new AccountPoolExhaustedError(
-        `No alternative account is available for project "${projectId}"`
+      return this.failOverToBedrock(
+        projectId,
+        bedrockCredentials,
+        new AccountPoolExhaustedError(
+          `No alternative account is available for project "${projectId}"`
+        )
       )
     }
 
@@ -208,15 +229,46 @@ export class AccountPoolService {
       { credentialId: credential.id, pressure: 0 },
     ])
     if (!reservation.credentialId) {
-      throw new AccountPoolExhaustedError(
-        `The account for project "${projectId}" is cooling down after an upstream rate limit`,
-        reservation.earliestCooldownReset
+      return this.failOverToBedrock(
+        projectId,
+        bedrockCredentials,
+        new AccountPoolExhaustedError(
+          `The account for project "${projectId}" is cooling down after an upstream rate limit`,
+          reservation.earliestCooldownReset
+        )
       )
     }
 
     return { credential, maxUtilization: 0, fromPool: false, reserved: true }
   }
 
+  /**
+   * Fail over to a linked Bedrock account when no Anthropic account can take
+   * the request. Bedrock capacity is not tracked, so the account is not
+   * reserved; it still counts as pooled so an upstream 429 tries one more.
+   *
+   * @throws The exhaustion error when no Bedrock account is linked
+   */
+  private failOverToBedrock(
+    projectId: string,
+    bedrockCredentials: BedrockCredential[],
+    exhausted: AccountPoolExhaustedError
+  ): AccountSelection {
+    const credential = bedrockCredentials[0]
+    if (!credential) {
+      throw exhausted
+    }
+
+    logger.warn('Failing over to Bedrock account', {
+      metadata: {
+        projectId,
+        accountId: credential.account_id,
+        reason: exhausted.message,
+      },
+    })
+    return { credential, maxUtilization: 0, fromPool: true, reserved: false }
+  }
+
   private evaluateUsage(
     credential: AnthropicCredential,
     usage: AnthropicOAuthUsageResponse | null,
@@ -22,6 +22,16 @@ export interface AccountReservation {
   earliestCooldownReset: string | null
 }
 
+export interface AccountPoolMetricsSnapshot {
+  accounts: Array<{
+    accountId: string
+    usage: AnthropicOAuthUsageResponse | null
+    usageFailureCount: number
+    inFlightRequests: number
+  }>
+  cooldowns: Array<{ accountId: string; model: string; cooldownUntil: number }>
+}
+
 interface MemoryAccountState extends SharedUsageState {
   refreshLeaseUntil: number
   lastForceRefreshAt: number
@@ -368,6 +378,73 @@ export class AccountPoolStateService {
     ])
   }
 
+  /**
+   * Per-account usage, in-flight requests and active model cooldowns, for /metrics
+   */
+  async getMetricsSnapshot(): Promise<AccountPoolMetricsSnapshot> {
+    const now = Date.now()
+    if (!this.isPersistent) {
+      return {
+        accounts: [...this.memoryAccounts].map(([credentialId, state]) => ({
+          accountId: credentialId,
+          usage: state.usage,
+          usageFailureCount: state.failureCount,
+          inFlightRequests: state.inFlightRequests,
+        })),
+        cooldowns: [...this.memoryCooldowns]
+          .filter(([, cooldownUntil]) => cooldownUntil > now)
+          .map(([key, cooldownUntil]) => {
+            const separator = key.indexOf(':')
+            return {
+              accountId: key.slice(0, separator),
+              model: key.slice(separator + 1),
+              cooldownUntil,
+            }
+          }),
+      }
+    }
+
+    const pool = this.pool as Pool
+    const [accountResult, cooldownResult] = await Promise.all([
+      pool.query<RuntimeRow & { account_id: string }>(
+        `
+        SELECT credentials.account_id, state.usage, state.usage_failure_count,
+               CASE
+                 WHEN state.in_flight_updated_at IS NULL
+                   OR state.in_flight_updated_at <= NOW() - ($1 * INTERVAL '1 millisecond')
+                 THEN 0
+                 ELSE state.in_flight_requests
+               END AS in_flight_requests
+        FROM account_pool_account_state state
+        INNER JOIN credentials ON credentials.id = state.credential_id
+        `,
+        [STALE_IN_FLIGHT_MS]
+      ),
+      pool.query<{ account_id: string; model: string; cooldown_until: Date | string }>(
+        `
+        SELECT credentials.account_id, cooldown.model, cooldown.cooldown_until
+        FROM account_pool_model_cooldowns cooldown
+        INNER JOIN credentials ON credentials.id = cooldown.credential_id
+        WHERE cooldown.cooldown_until > NOW()
+        `
+      ),
+    ])
+
+    return {
+      accounts: accountResult.rows.map(row => ({
+        accountId: row.account_id,
+        usage: row.usage,
+        usageFailureCount: Number(row.usage_failure_count ?? 0),
+        inFlightRequests: Number(row.in_flight_requests ?? 0),
+      })),
+      cooldowns: cooldownResult.rows.map(row => ({
+        accountId: row.account_id,
+        model: row.model,
+        cooldownUntil: this.toTimestamp(row.cooldown_until),
+      })),
+    }
+  }
+
   clearInMemoryState(): void {
     if (!this.isPersistent) {
       this.memoryAccounts.clear()
@@ -0,0 +1,147 @@
+import type { Pool } from 'pg'
+import type {
+  BudgetAlertKind,
+  BudgetPeriodStatus,
+  ProjectBudgetStatus,
+} from '@agent-prompttrain/shared'
+import {
+  getProjectBudgetStatus,
+  claimBudgetAlert,
+  getProjectSlackConfig,
+} from '@agent-prompttrain/shared/database/queries'
+import { NotificationService } from './NotificationService'
+import { ProjectSettingsCache } from './project-settings-cache'
+import { logger } from '../middleware/logger'
+
+export class BudgetExceededError extends Error {
+  readonly statusCode = 429
+  readonly retryAfterSeconds: number
+
+  constructor(
+    readonly projectId: string,
+    readonly budget: BudgetPeriodStatus
+  ) {
+    super(
+      `Project ${projectId} has reached its ${budget.period} budget of $${budget.limitUsd.toFixed(2)} ` +
+        `(spent $${budget.spentUsd.toFixed(2)}). The budget resets at ${budget.resetsAt.toISOString()}.`
+    )
+    this.name = 'BudgetExceededError'
+    this.retryAfterSeconds = Math.max(0, Math.ceil((budget.resetsAt.getTime() - Date.now()) / 1000))
+  }
+}
+
+interface CachedBudgetStatus {
+  status: ProjectBudgetStatus | null
+  /**
+   * Alerts (`<period>:<kind>`) already claimed for the cached periods, by this
+   * or another replica, so they aren't claimed again until the next refresh
+   */
+  claimedAlerts: Set<string>
+}
+
+/**
+ * Enforces per-project daily/monthly spend budgets before requests are forwarded.
+ * Spend is re-read from PostgreSQL at most once per PROJECT_SETTINGS_CACHE_TTL_MS
+ * per project, so a hard limit can be overshot by whatever is spent within one
+ * window.
+ */
+export class BudgetService {
+  private readonly cache = new ProjectSettingsCache<CachedBudgetStatus>()
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly notificationService: NotificationService
+  ) {}
+
+  /**
+   * Throw BudgetExceededError if the project has spent a configured budget,
+   * and send the soft-limit and "budget reached" alerts once per period each.
+   * Alerts are sent in the background. Lookup failures are logged and the
+   * request is let through.
+   */
+  async enforce(projectId: string): Promise<void> {
+    let cached: CachedBudgetStatus
+    try {
+      cached = await this.getStatus(projectId)
+    } catch (error) {
+      logger.warn('Failed to check project budget, allowing request', {
+        projectId,
+        metadata: { error: error instanceof Error ? error.message : String(error) },
+      })
+      return
+    }
+
+    const status = cached.status
+    if (!status || status.periods.length === 0) {
+      return
+    }
+
+    for (const budget of status.periods) {
+      if (!budget.alert) {
+        continue
+      }
+      const kind: BudgetAlertKind = budget.exceeded ? 'exceeded' : 'threshold'
+      const alertKey = `${budget.period}:${kind}`
+      if (!cached.claimedAlerts.has(alertKey)) {
+        cached.claimedAlerts.add(alertKey)
+        void this.sendAlertOnce(status, budget, kind)
+      }
+    }
+
+    const exceeded = status.periods.find(budget => budget.exceeded)
+    if (exceeded) {
+      logger.info('Rejecting request: project budget exceeded', {
+        projectId,
+        metadata: {
+          period: exceeded.period,
+          limitUsd: exceeded.limitUsd,
+          spentUsd: exceeded.spentUsd,
+        },
+      })
+      throw new BudgetExceededError(projectId, exceeded)
+    }
+  }
+
+  private getStatus(projectId: string): Promise<CachedBudgetStatus> {
+    return this.cache.get(projectId, async () => ({
+      status: await getProjectBudgetStatus(this.pool, projectId),
+      claimedAlerts: new Set<string>(),
+    }))
+  }
+
+  private async sendAlertOnce(
+    status: ProjectBudgetStatus,
+    budget: BudgetPeriodStatus,
+    kind: BudgetAlertKind
+  ): Promise<void> {
+    try {
+      const claimed = await claimBudgetAlert(
+        this.pool,
+        status.id,
+        budget.period,
+        budget.periodStart,
+        kind
+      )
+      if (!claimed) {
+        return
+      }
+
+      const slackConfig = await getProjectSlackConfig(this.pool, status.projectId)
+      await this.notificationService.notifyBudgetAlert(
+        status.projectId,
+        budget,
+        status.alertThreshold,
+        slackConfig
+      )
+    } catch (error) {
+      logger.warn('Failed to send project budget alert', {
+        projectId: status.projectId,
+        metadata: {
+          period: budget.period,
+          kind,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      })
+    }
+  }
+}
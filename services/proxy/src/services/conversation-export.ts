@@ -0,0 +1,277 @@
+import { createHash } from 'crypto'
+import type {
+  ClaudeContent,
+  ClaudeMessage,
+  ClaudeMessagesRequest,
+  ClaudeMessagesResponse,
+} from '@agent-prompttrain/shared'
+
+export type ConversationExportFormat = 'markdown' | 'json' | 'jsonl'
+
+/**
+ * A stored request of the exported branch
+ */
+export interface ExportedRequest {
+  requestId: string
+  projectId: string
+  timestamp: Date
+  model: string
+  branchId: string
+  parentRequestId: string | null
+  inputTokens: number
+  outputTokens: number
+  body: ClaudeMessagesRequest | null
+  responseBody: ClaudeMessagesResponse | null
+}
+
+export interface ConversationExport {
+  /** File contents */
+  content: string
+  contentType: string
+  filename: string
+}
+
+interface TranscriptEntry {
+  message: ClaudeMessage
+  timestamp: Date
+  /** Request whose response produced this message (assistant messages only) */
+  requestId?: string
+  model?: string
+}
+
+/**
+ * Rebuild the branch transcript from its latest request: the messages it sent
+ * plus the response it got. Each message is timestamped with the first request
+ * that carried it. Injected `system` messages are left out.
+ */
+export function buildTranscript(requests: ExportedRequest[]): TranscriptEntry[] {
+  const latest = [...requests].reverse().find(request => request.body?.messages)
+  if (!latest?.body) {
+    return []
+  }
+
+  const timestampFor = (index: number): Date =>
+    requests.find(request => (request.body?.messages?.length ?? 0) > index)?.timestamp ??
+    latest.timestamp
+
+  const entries: TranscriptEntry[] = latest.body.messages
+    .map((message, index) => ({ message, timestamp: timestampFor(index) }))
+    .filter(entry => entry.message.role === 'user' || entry.message.role === 'assistant')
+
+  if (latest.responseBody?.content) {
+    entries.push({
+      message: { role: 'assistant', content: latest.responseBody.content },
+      timestamp: latest.timestamp,
+      requestId: latest.requestId,
+      model: latest.responseBody.model || latest.model,
+    })
+  }
+
+  return entries
+}
+
+function systemPromptText(system: ClaudeMessagesRequest['system']): string {
+  if (!system) {
+    return ''
+  }
+  return typeof system === 'string' ? system : system.map(block => block.text).join('\n\n')
+}
+
+function toolResultText(block: ClaudeContent): string {
+  if (typeof block.content === 'string') {
+    return block.content
+  }
+  return (block.content ?? [])
+    .map(part => (part.type === 'text' ? (part.text ?? '') : `[${part.type}]`))
+    .join('\n')
+}
+
+function collapsed(summary: string, body: string, language = ''): string {
+  return `<details>\n<summary>${summary}</summary>\n\n\`\`\`${language}\n${body}\n\`\`\`\n\n</details>`
+}
+
+function contentToMarkdown(content: ClaudeMessage['content']): string {
+  if (typeof content === 'string') {
+    return content
+  }
+
+  return content
+    .map(block => {
+      switch (block.type) {
+        case 'text':
+          return block.text ?? ''
+        case 'tool_use':
+          return collapsed(
+            `Tool call: <code>${block.name ?? 'unknown'}</code>`,
+            JSON.stringify(block.input ?? {}, null, 2),
+            'json'
+          )
+        case 'tool_result':
+          return collapsed(
+            `Tool result${(block as { is_error?: boolean }).is_error ? ' (error)' : ''}`,
+            toolResultText(block)
+          )
+        case 'image':
+          return '_[image]_'
+        default:
+          return `_[${(block as { type: string }).type}]_`
+      }
+    })
+    .filter(part => part.trim().length > 0)
+    .join('\n\n')
+}
+
+/**
+ * Readable transcript with tool calls and results collapsed
+ */
+export function toMarkdown(
+  conversationId: string,
+  branchId: string,
+  requests: ExportedRequest[]
+): string {
+  const first = requests[0]
+  const latest = requests[requests.length - 1]
+  const lines = [
+    `# Conversation ${conversationId}`,
+    '',
+    `- **Project:** ${first?.projectId ?? 'unknown'}`,
+    `- **Branch:** ${branchId}`,
+    `- **Requests:** ${requests.length}`,
+    `- **Started:** ${first?.timestamp.toISOString() ?? 'unknown'}`,
+    `- **Last activity:** ${latest?.timestamp.toISOString() ?? 'unknown'}`,
+    '',
+  ]
+
+  const systemPrompt = systemPromptText(latest?.body?.system)
+  if (systemPrompt) {
+    lines.push(collapsed('System prompt', systemPrompt), '')
+  }
+
+  for (const entry of buildTranscript(requests)) {
+    const heading = entry.message.role === 'user' ? 'User' : 'Assistant'
+    const model = entry.model ? ` · ${entry.model}` : ''
+    lines.push(`## ${heading}`, '', `_${entry.timestamp.toISOString()}${model}_`, '')
+    lines.push(contentToMarkdown(entry.message.content), '')
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * All requests and responses of the branch, as stored
+ */
+export function toJson(
+  conversationId: string,
+  branchId: string,
+  requests: ExportedRequest[]
+): string {
+  return JSON.stringify(
+    {
+      conversationId,
+      branchId,
+      exportedAt: new Date().toISOString(),
+      requests: requests.map(request => ({
+        requestId: request.requestId,
+        projectId: request.projectId,
+        timestamp: request.timestamp.toISOString(),
+        model: request.model,
+        branchId: request.branchId,
+        parentRequestId: request.parentRequestId,
+        inputTokens: request.inputTokens,
+        outputTokens: request.outputTokens,
+        request: request.body,
+        response: request.responseBody,
+      })),
+    },
+    null,
+    2
+  )
+}
+
+/**
+ * Stable UUID-formatted id, so re-exporting a branch yields the same file
+ */
+function stableUuid(...parts: string[]): string {
+  const hex = createHash('sha256').update(parts.join(':')).digest('hex')
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `4${hex.slice(13, 16)}`,
+    `${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join('-')
+}
+
+/**
+ * Claude Code session transcript: one user/assistant entry per line, chained
+ * through parentUuid, so the conversation can be resumed locally
+ */
+export function toClaudeCodeJsonl(
+  conversationId: string,
+  branchId: string,
+  requests: ExportedRequest[]
+): string {
+  let parentUuid: string | null = null
+
+  const lines = buildTranscript(requests).map((entry, index) => {
+    const uuid = stableUuid(conversationId, branchId, String(index))
+    const line: Record<string, unknown> = {
+      parentUuid,
+      isSidechain: false,
+      userType: 'external',
+      sessionId: conversationId,
+      type: entry.message.role,
+      message:
+        entry.message.role === 'assistant'
+          ? {
+              role: 'assistant',
+              type: 'message',
+              model: entry.model,
+              content: entry.message.content,
+            }
+          : { role: 'user', content: entry.message.content },
+      uuid,
+      timestamp: entry.timestamp.toISOString(),
+    }
+    if (entry.requestId) {
+      line.requestId = entry.requestId
+    }
+    parentUuid = uuid
+    return JSON.stringify(line)
+  })
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : ''
+}
+
+/**
+ * Render a branch in the requested export format
+ */
+export function exportConversation(
+  conversationId: string,
+  branchId: string,
+  requests: ExportedRequest[],
+  format: ConversationExportFormat
+): ConversationExport {
+  const basename = `conversation-${conversationId}-${branchId}`.replace(/[^a-zA-Z0-9_-]/g, '_')
+
+  switch (format) {
+    case 'markdown':
+      return {
+        content: toMarkdown(conversationId, branchId, requests),
+        contentType: 'text/markdown; charset=utf-8',
+        filename: `${basename}.md`,
+      }
+    case 'json':
+      return {
+        content: toJson(conversationId, branchId, requests),
+        contentType: 'application/json; charset=utf-8',
+        filename: `${basename}.json`,
+      }
+    case 'jsonl':
+      return {
+        content: toClaudeCodeJsonl(conversationId, branchId, requests),
+        contentType: 'application/x-ndjson; charset=utf-8',
+        filename: `${basename}.jsonl`,
+      }
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Full-text search helpers for /api/search (see migration 031)
+ */
+
+/**
+ * Searchable text of a request. Must stay in sync with the expression of
+ * idx_api_requests_search so that the index is used.
+ */
+export const SEARCH_DOCUMENT_SQL = 'api_request_search_text(ar.body, ar.response_body)'
+export const SEARCH_VECTOR_SQL = `to_tsvector('english', ${SEARCH_DOCUMENT_SQL})`
+
+// Private-use characters mark matches in ts_headline output, so snippets can be
+// HTML-escaped by the caller without confusing matches with the stored text
+const MATCH_START = '\uE000'
+const MATCH_END = '\uE001'
+
+export const SEARCH_HEADLINE_OPTIONS = [
+  `StartSel=${MATCH_START}`,
+  `StopSel=${MATCH_END}`,
+  'MaxWords=30',
+  'MinWords=10',
+  'MaxFragments=3',
+  'FragmentDelimiter=" … "',
+].join(', ')
+
+export interface SnippetSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Split a ts_headline result into plain and matching segments
+ */
+export function parseHeadline(headline: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = []
+
+  for (const [index, part] of headline.split(MATCH_START).entries()) {
+    const [matched, rest] = index === 0 ? [null, part] : splitOnce(part, MATCH_END)
+    if (matched) {
+      segments.push({ text: matched, match: true })
+    }
+    if (rest) {
+      segments.push({ text: rest, match: false })
+    }
+  }
+
+  return segments
+}
+
+function splitOnce(value: string, separator: string): [string, string] {
+  const position = value.indexOf(separator)
+  return position === -1
+    ? [value, '']
+    : [value.slice(0, position), value.slice(position + separator.length)]
+}
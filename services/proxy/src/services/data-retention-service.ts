@@ -0,0 +1,180 @@
+import type { Pool } from 'pg'
+import {
+  config,
+  type ProjectRetentionPolicy,
+  type RetentionPurgeResult,
+} from '@agent-prompttrain/shared'
+import {
+  deleteExpiredAnalyses,
+  deleteExpiredRequests,
+  deleteProjectCachedResponses,
+  getRetentionCutoff,
+  listProjectRetentionPolicies,
+  markProjectRetentionPurged,
+  purgeExpiredRequestBodies,
+} from '@agent-prompttrain/shared/database/queries'
+import { logger } from '../middleware/logger'
+
+/** Only one proxy instance purges at a time */
+const PURGE_LOCK_KEY = 'data-retention-purge'
+
+export interface DataRetentionOptions {
+  intervalMs: number
+  batchSize: number
+}
+
+/**
+ * Background job applying each project's retention settings: clears request
+ * and response bodies past the body retention (keeping token counts), deletes
+ * their conversation analyses and cached responses, and deletes request rows
+ * past the metadata retention.
+ */
+export class DataRetentionService {
+  private timer: NodeJS.Timeout | null = null
+  private isRunning = false
+  private currentRun: Promise<unknown> | null = null
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly options: DataRetentionOptions = {
+      intervalMs: config.retention.purgeIntervalMs,
+      batchSize: config.retention.purgeBatchSize,
+    }
+  ) {}
+
+  start(): void {
+    if (this.isRunning) {
+      return
+    }
+    this.isRunning = true
+    this.schedule(0)
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    await this.currentRun
+  }
+
+  /**
+   * Purge all projects once. Returns null when another instance holds the purge lock.
+   */
+  async runOnce(now: Date = new Date()): Promise<RetentionPurgeResult[] | null> {
+    const lockClient = await this.pool.connect()
+
+    try {
+      const lock = await lockClient.query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_lock(hashtext($1)) AS locked',
+        [PURGE_LOCK_KEY]
+      )
+      if (!lock.rows[0]?.locked) {
+        return null
+      }
+
+      try {
+        const results: RetentionPurgeResult[] = []
+        for (const policy of await listProjectRetentionPolicies(this.pool)) {
+          try {
+            results.push(await this.purgeProject(policy, now))
+          } catch (error) {
+            logger.error('Data retention purge failed', {
+              projectId: policy.projectId,
+              metadata: { error: error instanceof Error ? error.message : String(error) },
+            })
+          }
+        }
+        return results
+      } finally {
+        await lockClient.query('SELECT pg_advisory_unlock(hashtext($1))', [PURGE_LOCK_KEY])
+      }
+    } finally {
+      lockClient.release()
+    }
+  }
+
+  private async purgeProject(
+    policy: ProjectRetentionPolicy,
+    now: Date
+  ): Promise<RetentionPurgeResult> {
+    const { projectId } = policy
+    const result: RetentionPurgeResult = {
+      projectId,
+      bodiesPurged: 0,
+      requestsDeleted: 0,
+      analysesDeleted: 0,
+      cachedResponsesDeleted: 0,
+    }
+
+    const bodyCutoff = getRetentionCutoff(policy.bodyDays, now)
+    if (bodyCutoff) {
+      // Analyses are matched through the requests, so they go first
+      result.analysesDeleted = await deleteExpiredAnalyses(this.pool, projectId, bodyCutoff)
+      result.bodiesPurged = await this.inBatches(limit =>
+        purgeExpiredRequestBodies(this.pool, projectId, bodyCutoff, limit)
+      )
+      result.cachedResponsesDeleted = await deleteProjectCachedResponses(
+        this.pool,
+        projectId,
+        bodyCutoff
+      )
+    }
+
+    const metadataCutoff = getRetentionCutoff(policy.metadataDays, now)
+    if (metadataCutoff) {
+      result.requestsDeleted = await this.inBatches(limit =>
+        deleteExpiredRequests(this.pool, projectId, metadataCutoff, limit)
+      )
+    }
+
+    await markProjectRetentionPurged(this.pool, projectId)
+
+    if (
+      result.bodiesPurged +
+        result.requestsDeleted +
+        result.analysesDeleted +
+        result.cachedResponsesDeleted >
+      0
+    ) {
+      logger.info('Data retention purge completed', {
+        projectId,
+        metadata: { ...result },
+      })
+    }
+    return result
+  }
+
+  /**
+   * Repeat a batched operation until a batch comes back short
+   */
+  private async inBatches(operation: (limit: number) => Promise<number>): Promise<number> {
+    let total = 0
+    for (;;) {
+      const count = await operation(this.options.batchSize)
+      total += count
+      if (count < this.options.batchSize) {
+        return total
+      }
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.currentRun = this.runOnce()
+        .catch(error => {
+          logger.error('Data retention purge run failed', {
+            metadata: { error: error instanceof Error ? error.message : String(error) },
+          })
+        })
+        .finally(() => {
+          this.currentRun = null
+          if (this.isRunning) {
+            this.schedule(this.options.intervalMs)
+          }
+        })
+    }, delayMs)
+    this.timer.unref?.()
+  }
+}
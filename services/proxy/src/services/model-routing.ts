@@ -0,0 +1,96 @@
+import type { Pool } from 'pg'
+import {
+  AuthorizationError,
+  ModelRoutingPolicySchema,
+  isModelAllowed,
+  matchesModelPattern,
+  type ModelRoutingPolicy,
+} from '@agent-prompttrain/shared'
+import { getProjectModelRouting } from '@agent-prompttrain/shared/database/queries'
+import { logger } from '../middleware/logger'
+import { createSharedProjectSettingsCache } from './project-settings-cache'
+
+export interface ModelRoute {
+  /** Model to forward */
+  model: string
+  /** Why `model` differs from the requested model; null when forwarded as requested */
+  reason: string | null
+  /** Models to try, in order, when no account is available for `model` */
+  fallbacks: string[]
+}
+
+const policyCache = createSharedProjectSettingsCache<ModelRoutingPolicy | null>()
+
+/**
+ * Validate a stored policy; malformed policies are logged and ignored
+ */
+function parseModelRoutingPolicy(stored: unknown, projectId: string): ModelRoutingPolicy | null {
+  if (!stored) {
+    return null
+  }
+
+  const parsed = ModelRoutingPolicySchema.safeParse(stored)
+  if (!parsed.success) {
+    logger.warn('Ignoring invalid model routing policy', {
+      projectId,
+      metadata: { error: parsed.error.issues[0]?.message },
+    })
+    return null
+  }
+  return parsed.data
+}
+
+/**
+ * Load a project's model routing policy, cached per project. Failures and
+ * malformed policies are logged and the request is forwarded as requested.
+ */
+export async function loadModelRoutingPolicy(
+  pool: Pool,
+  projectId: string
+): Promise<ModelRoutingPolicy | null> {
+  try {
+    return await policyCache.get(projectId, async () =>
+      parseModelRoutingPolicy(await getProjectModelRouting(pool, projectId), projectId)
+    )
+  } catch (error) {
+    logger.warn('Failed to load model routing policy, forwarding requested model', {
+      projectId,
+      metadata: {
+        error: error instanceof Error ? error.message : String(error),
+      },
+    })
+    return null
+  }
+}
+
+/**
+ * Resolve the model to forward for `requestedModel`. The first rule matching
+ * the requested model applies.
+ *
+ * @throws AuthorizationError when the resolved model is not allowed
+ */
+export function resolveModelRoute(
+  policy: ModelRoutingPolicy,
+  projectId: string,
+  requestedModel: string
+): ModelRoute {
+  const rule = policy.rules.find(candidate => matchesModelPattern(candidate.match, requestedModel))
+  const model = rule?.prefer ?? requestedModel
+
+  if (!isModelAllowed(policy, model)) {
+    throw new AuthorizationError(
+      `Model "${model}" is not allowed for project "${projectId}". ` +
+        `Allowed models: ${policy.allowed_models.join(', ')}`,
+      { projectId, model }
+    )
+  }
+
+  return {
+    model,
+    reason:
+      rule && model !== requestedModel ? `routing rule "${rule.match}" prefers ${model}` : null,
+    fallbacks: (rule?.fallbacks ?? []).filter(
+      fallback => fallback !== model && isModelAllowed(policy, fallback)
+    ),
+  }
+}
@@ -0,0 +1,627 @@
+import { randomUUID } from 'crypto'
+import {
+  ValidationError,
+  type ClaudeContent,
+  type ClaudeMessage,
+  type ClaudeMessagesRequest,
+  type ClaudeMessagesResponse,
+  type ClaudeStreamEvent,
+  type ClaudeTool,
+} from '@agent-prompttrain/shared'
+
+/**
+ * Translation between the OpenAI Chat Completions format and Claude Messages,
+ * for clients that can only call POST /v1/chat/completions. Requests are
+ * translated to Claude Messages before they enter the proxy pipeline, so they
+ * are pooled, linked and stored like any /v1/messages request; responses and
+ * SSE events are translated back on the way out.
+ */
+
+/** Claude requires max_tokens; OpenAI clients often leave it out */
+export const DEFAULT_CHAT_COMPLETION_MAX_TOKENS = 4096
+
+export interface OpenAIChatContentPart {
+  type: 'text' | 'image_url' | string
+  text?: string
+  image_url?: { url: string; detail?: string }
+}
+
+export interface OpenAIToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+export interface OpenAIChatMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool'
+  content?: string | OpenAIChatContentPart[] | null
+  name?: string
+  tool_calls?: OpenAIToolCall[]
+  tool_call_id?: string
+}
+
+export interface OpenAIChatTool {
+  type: 'function'
+  function: { name: string; description?: string; parameters?: Record<string, unknown> }
+}
+
+export type OpenAIToolChoice =
+  'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } }
+
+export interface OpenAIChatCompletionRequest {
+  model: string
+  messages: OpenAIChatMessage[]
+  max_tokens?: number
+  max_completion_tokens?: number
+  temperature?: number
+  top_p?: number
+  stop?: string | string[]
+  stream?: boolean
+  stream_options?: { include_usage?: boolean }
+  tools?: OpenAIChatTool[]
+  tool_choice?: OpenAIToolChoice
+  parallel_tool_calls?: boolean
+  user?: string
+  n?: number
+  [key: string]: unknown
+}
+
+export type OpenAIFinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter'
+
+export interface OpenAIUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+  prompt_tokens_details: { cached_tokens: number }
+}
+
+export interface OpenAIChatCompletion {
+  id: string
+  object: 'chat.completion'
+  created: number
+  model: string
+  choices: Array<{
+    index: number
+    message: { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+    finish_reason: OpenAIFinishReason | null
+    logprobs: null
+  }>
+  usage: OpenAIUsage
+}
+
+export interface OpenAIChatCompletionChunk {
+  id: string
+  object: 'chat.completion.chunk'
+  created: number
+  model: string
+  choices: Array<{
+    index: number
+    delta: {
+      role?: 'assistant'
+      content?: string
+      tool_calls?: Array<{
+        index: number
+        id?: string
+        type?: 'function'
+        function: { name?: string; arguments: string }
+      }>
+    }
+    finish_reason: OpenAIFinishReason | null
+    logprobs: null
+  }>
+  usage?: OpenAIUsage | null
+}
+
+const FINISH_REASONS: Record<string, OpenAIFinishReason> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  pause_turn: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'content_filter',
+}
+
+function textOf(content: OpenAIChatMessage['content']): string {
+  if (typeof content === 'string') {
+    return content
+  }
+  return (content ?? [])
+    .filter(part => part.type === 'text')
+    .map(part => part.text ?? '')
+    .join('')
+}
+
+function toContentBlock(part: OpenAIChatContentPart): ClaudeContent {
+  if (part.type === 'text') {
+    return { type: 'text', text: part.text ?? '' }
+  }
+  if (part.type === 'image_url') {
+    const match = /^data:([^;,]+);base64,(.+)$/s.exec(part.image_url?.url ?? '')
+    if (!match) {
+      throw new ValidationError('Only base64 data URLs are supported for image_url content')
+    }
+    return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } }
+  }
+  throw new ValidationError(`Unsupported content part type: ${part.type}`)
+}
+
+function toContent(content: OpenAIChatMessage['content']): string | ClaudeContent[] {
+  if (typeof content === 'string' || content === null || content === undefined) {
+    return content ?? ''
+  }
+  return content.map(toContentBlock)
+}
+
+function toToolUse(call: OpenAIToolCall): ClaudeContent {
+  let input: unknown = {}
+  if (call.function?.arguments) {
+    try {
+      input = JSON.parse(call.function.arguments)
+    } catch {
+      throw new ValidationError(`Tool call ${call.id} has arguments that are not valid JSON`)
+    }
+  }
+  return { type: 'tool_use', id: call.id, name: call.function?.name, input }
+}
+
+function asBlocks(content: string | ClaudeContent[]): ClaudeContent[] {
+  if (typeof content !== 'string') {
+    return content
+  }
+  return content ? [{ type: 'text', text: content }] : []
+}
+
+/**
+ * Append a message, merging it into the previous one when both have the same
+ * role (consecutive tool results, or a user message after tool results)
+ */
+function pushMessage(messages: ClaudeMessage[], message: ClaudeMessage) {
+  const previous = messages[messages.length - 1]
+  if (previous?.role === message.role) {
+    previous.content = [...asBlocks(previous.content), ...asBlocks(message.content)]
+    return
+  }
+  messages.push(message)
+}
+
+function toToolChoice(
+  request: OpenAIChatCompletionRequest
+): ClaudeMessagesRequest['tool_choice'] | undefined {
+  const choice = request.tool_choice
+  let toolChoice: NonNullable<ClaudeMessagesRequest['tool_choice']>
+  if (choice === undefined || choice === 'auto') {
+    if (request.parallel_tool_calls !== false) {
+      return undefined
+    }
+    toolChoice = { type: 'auto' }
+  } else if (choice === 'required') {
+    toolChoice = { type: 'any' }
+  } else if (typeof choice === 'object' && choice.type === 'function') {
+    toolChoice = { type: 'tool', name: choice.function.name }
+  } else {
+    throw new ValidationError(`Unsupported tool_choice: ${JSON.stringify(choice)}`)
+  }
+  if (request.parallel_tool_calls === false) {
+    toolChoice.disable_parallel_tool_use = true
+  }
+  return toolChoice
+}
+
+/**
+ * Check the shape of an OpenAI chat completion request
+ *
+ * @throws ValidationError when the request cannot be translated
+ */
+export function validateChatCompletionRequest(
+  body: unknown
+): asserts body is OpenAIChatCompletionRequest {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Request body must be a JSON object')
+  }
+  const request = body as Partial<OpenAIChatCompletionRequest>
+  if (typeof request.model !== 'string' || !request.model) {
+    throw new ValidationError('model is required')
+  }
+  if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    throw new ValidationError('messages must be a non-empty array')
+  }
+  for (const message of request.messages) {
+    if (!message || !['system', 'developer', 'user', 'assistant', 'tool'].includes(message.role)) {
+      throw new ValidationError(`Unsupported message role: ${String(message?.role)}`)
+    }
+    if (message.role === 'tool' && typeof message.tool_call_id !== 'string') {
+      throw new ValidationError('tool messages require a tool_call_id')
+    }
+  }
+  if (request.n !== undefined && request.n !== 1) {
+    throw new ValidationError('Only n = 1 is supported')
+  }
+  if (request.stream !== undefined && typeof request.stream !== 'boolean') {
+    throw new ValidationError('stream must be a boolean')
+  }
+}
+
+/**
+ * Translate an OpenAI chat completion request to a Claude Messages request.
+ * System and developer messages become the system prompt, tool calls become
+ * tool_use blocks and tool messages become tool_result blocks. Temperatures
+ * above 1 are capped at Claude's maximum of 1.
+ */
+export function toClaudeRequest(request: OpenAIChatCompletionRequest): ClaudeMessagesRequest {
+  const system: string[] = []
+  const messages: ClaudeMessage[] = []
+
+  for (const message of request.messages) {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        system.push(textOf(message.content))
+        break
+      case 'user':
+        pushMessage(messages, { role: 'user', content: toContent(message.content) })
+        break
+      case 'assistant': {
+        const toolUses = (message.tool_calls ?? []).map(toToolUse)
+        const content = toContent(message.content)
+        pushMessage(messages, {
+          role: 'assistant',
+          content: toolUses.length > 0 ? [...asBlocks(content), ...toolUses] : content,
+        })
+        break
+      }
+      case 'tool':
+        pushMessage(messages, {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: message.tool_call_id,
+              content: toContent(message.content),
+            },
+          ],
+        })
+        break
+    }
+  }
+
+  if (messages.length === 0) {
+    throw new ValidationError('messages must contain at least one user or assistant message')
+  }
+
+  const claudeRequest: ClaudeMessagesRequest = {
+    model: request.model,
+    messages,
+    max_tokens:
+      request.max_completion_tokens ?? request.max_tokens ?? DEFAULT_CHAT_COMPLETION_MAX_TOKENS,
+  }
+  if (system.length > 0) {
+    claudeRequest.system = system.join('\n\n')
+  }
+  if (request.stream) {
+    claudeRequest.stream = true
+  }
+  if (typeof request.temperature === 'number') {
+    claudeRequest.temperature = Math.min(request.temperature, 1)
+  }
+  if (typeof request.top_p === 'number') {
+    claudeRequest.top_p = request.top_p
+  }
+  if (request.stop !== undefined && request.stop !== null) {
+    claudeRequest.stop_sequences = Array.isArray(request.stop) ? request.stop : [request.stop]
+  }
+  if (request.user) {
+    claudeRequest.metadata = { user_id: request.user }
+  }
+
+  // tool_choice "none" is sent as a request without tools
+  if (request.tools?.length && request.tool_choice !== 'none') {
+    claudeRequest.tools = request.tools.map((tool): ClaudeTool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: (tool.function.parameters as ClaudeTool['input_schema']) ?? {
+        type: 'object',
+        properties: {},
+      },
+    }))
+    const toolChoice = toToolChoice(request)
+    if (toolChoice) {
+      claudeRequest.tool_choice = toolChoice
+    }
+  }
+
+  return claudeRequest
+}
+
+function toFinishReason(stopReason: string | null | undefined): OpenAIFinishReason | null {
+  return stopReason ? (FINISH_REASONS[stopReason] ?? 'stop') : null
+}
+
+function toUsage(usage: Partial<ClaudeMessagesResponse['usage']>): OpenAIUsage {
+  const cached = usage.cache_read_input_tokens ?? 0
+  const promptTokens = (usage.input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0) + cached
+  const completionTokens = usage.output_tokens ?? 0
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    prompt_tokens_details: { cached_tokens: cached },
+  }
+}
+
+function completionId(messageId: string | undefined): string {
+  return `chatcmpl-${(messageId ?? randomUUID()).replace(/^msg_/, '')}`
+}
+
+/**
+ * Translate a Claude Messages response to an OpenAI chat completion. Text
+ * blocks are concatenated; thinking blocks are dropped.
+ */
+export function toChatCompletion(
+  response: ClaudeMessagesResponse,
+  created = Math.floor(Date.now() / 1000)
+): OpenAIChatCompletion {
+  const text = response.content
+    .filter(block => block.type === 'text')
+    .map(block => block.text ?? '')
+    .join('')
+  const toolCalls: OpenAIToolCall[] = response.content
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id ?? '',
+      type: 'function',
+      function: { name: block.name ?? '', arguments: JSON.stringify(block.input ?? {}) },
+    }))
+
+  return {
+    id: completionId(response.id),
+    object: 'chat.completion',
+    created,
+    model: response.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: text || (toolCalls.length > 0 ? null : ''),
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: toFinishReason(response.stop_reason),
+        logprobs: null,
+      },
+    ],
+    usage: toUsage(response.usage ?? {}),
+  }
+}
+
+/**
+ * Translates a Claude Messages event stream to OpenAI chat completion chunks,
+ * one SSE event at a time
+ */
+export class ChatCompletionStreamTranslator {
+  private id = completionId(undefined)
+  private model: string
+  private usage: Partial<ClaudeMessagesResponse['usage']> = {}
+  /** Claude content block index -> OpenAI tool call index */
+  private toolCallIndexes = new Map<number, number>()
+  private done = false
+
+  constructor(
+    model: string,
+    private includeUsage = false,
+    private created = Math.floor(Date.now() / 1000)
+  ) {
+    this.model = model
+  }
+
+  /**
+   * Translate one Claude stream event
+   *
+   * @returns The SSE lines to send to the client (possibly none)
+   */
+  translate(event: ClaudeStreamEvent): string[] {
+    switch (event.type) {
+      case 'message_start':
+        this.id = completionId(event.message?.id)
+        this.model = event.message?.model ?? this.model
+        this.usage = { ...event.message?.usage }
+        return [this.chunk({ role: 'assistant', content: '' })]
+
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use' && event.index !== undefined) {
+          const toolIndex = this.toolCallIndexes.size
+          this.toolCallIndexes.set(event.index, toolIndex)
+          return [
+            this.chunk({
+              tool_calls: [
+                {
+                  index: toolIndex,
+                  id: event.content_block.id,
+                  type: 'function',
+                  function: { name: event.content_block.name, arguments: '' },
+                },
+              ],
+            }),
+          ]
+        }
+        return []
+
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          return [this.chunk({ content: event.delta.text })]
+        }
+        if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+          const toolIndex = this.toolCallIndexes.get(event.index ?? -1)
+          if (toolIndex !== undefined) {
+            return [
+              this.chunk({
+                tool_calls: [
+                  { index: toolIndex, function: { arguments: event.delta.partial_json } },
+                ],
+              }),
+            ]
+          }
+        }
+        return []
+
+      case 'message_delta':
+        this.usage = { ...this.usage, ...event.usage }
+        return event.delta?.stop_reason
+          ? [this.chunk({}, toFinishReason(event.delta.stop_reason))]
+          : []
+
+      case 'message_stop':
+        return this.finish()
+
+      case 'error':
+        this.done = true
+        return [
+          `data: ${JSON.stringify({
+            error: {
+              message: event.error?.message ?? 'Stream error',
+              type: event.error?.type ?? 'server_error',
+              param: null,
+              code: event.error?.type ?? null,
+            },
+          })}\n\n`,
+          'data: [DONE]\n\n',
+        ]
+
+      default:
+        return []
+    }
+  }
+
+  /**
+   * The closing lines: the usage chunk (when requested) and [DONE]. Returns
+   * nothing once the stream has been finished.
+   */
+  finish(): string[] {
+    if (this.done) {
+      return []
+    }
+    this.done = true
+    const lines: string[] = []
+    if (this.includeUsage) {
+      const usageChunk: OpenAIChatCompletionChunk = {
+        id: this.id,
+        object: 'chat.completion.chunk',
+        created: this.created,
+        model: this.model,
+        choices: [],
+        usage: toUsage(this.usage),
+      }
+      lines.push(`data: ${JSON.stringify(usageChunk)}\n\n`)
+    }
+    lines.push('data: [DONE]\n\n')
+    return lines
+  }
+
+  private chunk(
+    delta: OpenAIChatCompletionChunk['choices'][number]['delta'],
+    finishReason: OpenAIFinishReason | null = null
+  ): string {
+    const chunk: OpenAIChatCompletionChunk = {
+      id: this.id,
+      object: 'chat.completion.chunk',
+      created: this.created,
+      model: this.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+    }
+    if (this.includeUsage) {
+      chunk.usage = null
+    }
+    return `data: ${JSON.stringify(chunk)}\n\n`
+  }
+}
+
+/**
+ * Stream transform from a Claude Messages SSE body to OpenAI chat completion
+ * chunks, ending with `data: [DONE]`
+ */
+export function createChatCompletionStream(
+  model: string,
+  includeUsage = false
+): TransformStream<Uint8Array, Uint8Array> {
+  const translator = new ChatCompletionStreamTranslator(model, includeUsage)
+  const decoder = new TextDecoder()
+  const encoder = new TextEncoder()
+  let buffer = ''
+
+  const translateLine = (
+    line: string,
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    if (!line.startsWith('data: ')) {
+      return
+    }
+    const data = line.slice(6).trim()
+    if (!data || data === '[DONE]') {
+      return
+    }
+    let event: ClaudeStreamEvent
+    try {
+      event = JSON.parse(data) as ClaudeStreamEvent
+    } catch {
+      return
+    }
+    for (const output of translator.translate(event)) {
+      controller.enqueue(encoder.encode(output))
+    }
+  }
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      for (const line of lines) {
+        translateLine(line, controller)
+      }
+    },
+    flush(controller) {
+      translateLine(buffer + decoder.decode(), controller)
+      for (const output of translator.finish()) {
+        controller.enqueue(encoder.encode(output))
+      }
+    },
+  })
+}
+
+/**
+ * Replay a complete Claude response as OpenAI chunks, for streaming requests
+ * that were answered without a stream (e.g. from the response cache)
+ */
+export function toChatCompletionChunks(
+  response: ClaudeMessagesResponse,
+  includeUsage = false
+): string {
+  const translator = new ChatCompletionStreamTranslator(response.model, includeUsage)
+  const events: ClaudeStreamEvent[] = [
+    { type: 'message_start', message: { ...response, content: [] } },
+  ]
+  response.content.forEach((block, index) => {
+    if (block.type === 'text') {
+      events.push({
+        type: 'content_block_delta',
+        index,
+        delta: { type: 'text_delta', text: block.text },
+      })
+    } else if (block.type === 'tool_use') {
+      events.push({ type: 'content_block_start', index, content_block: block })
+      events.push({
+        type: 'content_block_delta',
+        index,
+        delta: { type: 'input_json_delta', partial_json: JSON.stringify(block.input ?? {}) },
+      })
+    }
+  })
+  events.push(
+    {
+      type: 'message_delta',
+      delta: { stop_reason: response.stop_reason ?? 'end_turn' },
+      usage: response.usage,
+    },
+    { type: 'message_stop' }
+  )
+  return events.flatMap(event => translator.translate(event)).join('')
+}
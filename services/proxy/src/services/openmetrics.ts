@@ -0,0 +1,202 @@
+/**
+ * Minimal OpenMetrics (Prometheus text exposition) primitives for /metrics.
+ * See https://github.com/OpenObservability/OpenMetrics/blob/main/specification/OpenMetrics.md
+ */
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+
+export type MetricType = 'counter' | 'gauge' | 'histogram'
+
+export type Labels = Record<string, string>
+
+export interface MetricSample {
+  /** Appended to the family name, e.g. `_total` or `_bucket` */
+  suffix?: string
+  labels: Labels
+  value: number
+}
+
+export interface MetricFamily {
+  name: string
+  type: MetricType
+  help: string
+  samples: MetricSample[]
+}
+
+function labelKey(labelNames: readonly string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ''))
+}
+
+function labelsFromKey(labelNames: readonly string[], key: string): Labels {
+  const values = JSON.parse(key) as string[]
+  return Object.fromEntries(labelNames.map((name, index) => [name, values[index]]))
+}
+
+/**
+ * Monotonic counter, exposed as `<name>_total`
+ */
+export class Counter {
+  private readonly values = new Map<string, number>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[] = []
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0 || !Number.isFinite(value)) {
+      return
+    }
+    const key = labelKey(this.labelNames, labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + value)
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      type: 'counter',
+      help: this.help,
+      samples: [...this.values].map(([key, value]) => ({
+        suffix: '_total',
+        labels: labelsFromKey(this.labelNames, key),
+        value,
+      })),
+    }
+  }
+
+  reset(): void {
+    this.values.clear()
+  }
+}
+
+/**
+ * Cumulative histogram with fixed bucket upper bounds
+ */
+export class Histogram {
+  private readonly series = new Map<string, { buckets: number[]; count: number; sum: number }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[],
+    readonly buckets: readonly number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    if (!Number.isFinite(value)) {
+      return
+    }
+    const key = labelKey(this.labelNames, labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = { buckets: this.buckets.map(() => 0), count: 0, sum: 0 }
+      this.series.set(key, series)
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]++
+      }
+    })
+    series.count++
+    series.sum += value
+  }
+
+  collect(): MetricFamily {
+    const samples: MetricSample[] = []
+    for (const [key, series] of this.series) {
+      const labels = labelsFromKey(this.labelNames, key)
+      this.buckets.forEach((bound, index) => {
+        samples.push({
+          suffix: '_bucket',
+          labels: { ...labels, le: formatValue(bound) },
+          value: series.buckets[index],
+        })
+      })
+      samples.push({ suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: series.count })
+      samples.push({ suffix: '_count', labels, value: series.count })
+      samples.push({ suffix: '_sum', labels, value: series.sum })
+    }
+    return { name: this.name, type: 'histogram', help: this.help, samples }
+  }
+
+  reset(): void {
+    this.series.clear()
+  }
+}
+
+/**
+ * Gauge family for values read at scrape time
+ */
+export function gaugeFamily(
+  name: string,
+  help: string,
+  samples: Array<{ labels?: Labels; value: number }>
+): MetricFamily {
+  return {
+    name,
+    type: 'gauge',
+    help,
+    samples: samples.map(sample => ({ labels: sample.labels ?? {}, value: sample.value })),
+  }
+}
+
+/**
+ * Counter family for totals maintained elsewhere, read at scrape time
+ */
+export function counterFamily(
+  name: string,
+  help: string,
+  samples: Array<{ labels?: Labels; value: number }>
+): MetricFamily {
+  return {
+    name,
+    type: 'counter',
+    help,
+    samples: samples.map(sample => ({
+      suffix: '_total',
+      labels: sample.labels ?? {},
+      value: sample.value,
+    })),
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) {
+    return '+Inf'
+  }
+  if (value === Number.NEGATIVE_INFINITY) {
+    return '-Inf'
+  }
+  return Number.isNaN(value) ? 'NaN' : String(value)
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) {
+    return ''
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+/**
+ * Render metric families in the OpenMetrics text format, terminated by `# EOF`
+ */
+export function renderOpenMetrics(families: MetricFamily[]): string {
+  const lines: string[] = []
+  for (const family of families) {
+    lines.push(`# TYPE ${family.name} ${family.type}`)
+    lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`)
+    for (const sample of family.samples) {
+      lines.push(
+        `${family.name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`
+      )
+    }
+  }
+  lines.push('# EOF')
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,72 @@
+/**
+ * How long dashboard edits to a project's settings take to reach the proxy.
+ * Transforms, model routing, redaction, rate limits, budgets and response
+ * cache settings are re-read from PostgreSQL at most this often per project.
+ */
+export const PROJECT_SETTINGS_CACHE_TTL_MS = 30_000
+
+/** Projects kept per cache; the least recently loaded is evicted beyond this */
+const MAX_CACHED_PROJECTS = 1_000
+
+/**
+ * Per-project settings cached for PROJECT_SETTINGS_CACHE_TTL_MS. Failed loads
+ * are not cached, so the next request retries them.
+ */
+export class ProjectSettingsCache<T> {
+  private readonly entries = new Map<string, { value: T; loadedAt: number }>()
+
+  constructor(private readonly maxEntries = MAX_CACHED_PROJECTS) {}
+
+  /**
+   * The project's cached value, or the result of `load` when missing or expired
+   */
+  async get(projectId: string, load: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(projectId)
+    if (entry && Date.now() - entry.loadedAt < PROJECT_SETTINGS_CACHE_TTL_MS) {
+      return entry.value
+    }
+
+    const value = await load()
+    this.entries.delete(projectId)
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest !== undefined) {
+        this.entries.delete(oldest)
+      }
+    }
+    this.entries.set(projectId, { value, loadedAt: Date.now() })
+    return value
+  }
+
+  delete(projectId: string): void {
+    this.entries.delete(projectId)
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+}
+
+const sharedCaches = new Set<ProjectSettingsCache<unknown>>()
+
+/**
+ * A module-level cache, cleared by clearProjectSettingsCaches
+ */
+export function createSharedProjectSettingsCache<T>(): ProjectSettingsCache<T> {
+  const cache = new ProjectSettingsCache<T>()
+  sharedCaches.add(cache as ProjectSettingsCache<unknown>)
+  return cache
+}
+
+/**
+ * Drop every module-level project settings cache (on shutdown, and between tests)
+ */
+export function clearProjectSettingsCaches(): void {
+  for (const cache of sharedCaches) {
+    cache.clear()
+  }
+}
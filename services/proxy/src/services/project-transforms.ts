@@ -0,0 +1,276 @@
+import type { Pool } from 'pg'
+import {
+  matchesModelPattern,
+  type AppliedTransform,
+  type ClaudeMessagesRequest,
+  type ClaudeTool,
+  type ProjectTransform,
+  type SystemContentBlock,
+} from '@agent-prompttrain/shared'
+import { getProjectTransforms } from '@agent-prompttrain/shared/database/queries'
+import { ProxyResponse } from '../domain/entities/ProxyResponse'
+import { logger } from '../middleware/logger'
+import { createSharedProjectSettingsCache } from './project-settings-cache'
+
+type RedactTransform = Extract<ProjectTransform, { type: 'redact_response' }>
+
+const transformsCache = createSharedProjectSettingsCache<ProjectTransform[]>()
+
+/**
+ * Load a project's transforms, cached per project. Failures are logged and no
+ * transforms are applied.
+ */
+export async function loadProjectTransforms(
+  pool: Pool,
+  projectId: string
+): Promise<ProjectTransform[]> {
+  try {
+    return await transformsCache.get(projectId, () => getProjectTransforms(pool, projectId))
+  } catch (error) {
+    logger.warn('Failed to load project transforms, forwarding request unchanged', {
+      projectId,
+      metadata: {
+        error: error instanceof Error ? error.message : String(error),
+      },
+    })
+    return []
+  }
+}
+
+function toSystemBlocks(system: ClaudeMessagesRequest['system']): SystemContentBlock[] {
+  if (!system) {
+    return []
+  }
+  return typeof system === 'string' ? [{ type: 'text', text: system }] : system
+}
+
+/**
+ * Apply the request-side transforms in order, mutating rawRequest.
+ * Must run AFTER conversation tracking and the system prompt override, and
+ * BEFORE the response cache key is computed.
+ *
+ * @returns The transforms that changed the request
+ */
+export function applyRequestTransforms(
+  rawRequest: ClaudeMessagesRequest,
+  transforms: ProjectTransform[]
+): AppliedTransform[] {
+  const applied: AppliedTransform[] = []
+
+  transforms.forEach((transform, index) => {
+    switch (transform.type) {
+      case 'prepend_system':
+        rawRequest.system = [...transform.blocks, ...toSystemBlocks(rawRequest.system)]
+        applied.push({
+          index,
+          type: transform.type,
+          summary: `prepended ${transform.blocks.length} system block(s)`,
+        })
+        break
+
+      case 'append_system':
+        rawRequest.system = [...toSystemBlocks(rawRequest.system), ...transform.blocks]
+        applied.push({
+          index,
+          type: transform.type,
+          summary: `appended ${transform.blocks.length} system block(s)`,
+        })
+        break
+
+      case 'inject_tools': {
+        const injectedNames = new Set(transform.tools.map(tool => tool.name))
+        const clientTools = (rawRequest.tools ?? []).filter(
+          tool => !tool.name || !injectedNames.has(tool.name)
+        )
+        rawRequest.tools = [...clientTools, ...(transform.tools as ClaudeTool[])]
+        applied.push({
+          index,
+          type: transform.type,
+          summary: `injected tools: ${[...injectedNames].join(', ')}`,
+        })
+        break
+      }
+
+      case 'strip_tools': {
+        if (!rawRequest.tools || rawRequest.tools.length === 0) {
+          break
+        }
+        const names = new Set(transform.names)
+        const removed = rawRequest.tools
+          .filter(tool => tool.name && names.has(tool.name))
+          .map(tool => tool.name)
+        if (removed.length === 0) {
+          break
+        }
+        rawRequest.tools = rawRequest.tools.filter(tool => !tool.name || !names.has(tool.name))
+        if (rawRequest.tools.length === 0) {
+          // tool_choice is rejected upstream without tools
+          delete rawRequest.tools
+          delete rawRequest.tool_choice
+        } else if (
+          rawRequest.tool_choice?.type === 'tool' &&
+          rawRequest.tool_choice.name &&
+          names.has(rawRequest.tool_choice.name)
+        ) {
+          rawRequest.tool_choice = { type: 'auto' }
+        }
+        applied.push({
+          index,
+          type: transform.type,
+          summary: `stripped tools: ${removed.join(', ')}`,
+        })
+        break
+      }
+
+      case 'max_tokens_ceiling': {
+        if (rawRequest.max_tokens <= transform.max_tokens) {
+          break
+        }
+        const original = rawRequest.max_tokens
+        rawRequest.max_tokens = transform.max_tokens
+        // Extended thinking requires budget_tokens < max_tokens
+        const budgetTokens = rawRequest.thinking?.budget_tokens
+        if (
+          rawRequest.thinking &&
+          budgetTokens !== undefined &&
+          budgetTokens >= transform.max_tokens
+        ) {
+          rawRequest.thinking.budget_tokens = transform.max_tokens - 1
+        }
+        applied.push({
+          index,
+          type: transform.type,
+          summary: `max_tokens ${original} → ${transform.max_tokens}`,
+        })
+        break
+      }
+
+      case 'rewrite_model': {
+        if (
+          !matchesModelPattern(transform.from, rawRequest.model) ||
+          rawRequest.model === transform.to
+        ) {
+          break
+        }
+        const original = rawRequest.model
+        rawRequest.model = transform.to
+        applied.push({
+          index,
+          type: transform.type,
+          summary: `model ${original} → ${transform.to}`,
+        })
+        break
+      }
+
+      case 'redact_response':
+        // Applied to the response by ResponseRedactor
+        break
+    }
+  })
+
+  return applied
+}
+
+/**
+ * Applies the project's redact_response transforms to response text and
+ * counts what was redacted.
+ */
+export class ResponseRedactor {
+  private readonly rules: Array<{ index: number; transform: RedactTransform; regex: RegExp }>
+  private readonly matchCounts = new Map<number, number>()
+
+  constructor(transforms: ProjectTransform[]) {
+    this.rules = []
+    transforms.forEach((transform, index) => {
+      if (transform.type === 'redact_response') {
+        this.rules.push({
+          index,
+          transform,
+          regex: new RegExp(transform.pattern, `${transform.flags ?? ''}g`),
+        })
+      }
+    })
+  }
+
+  get isEmpty(): boolean {
+    return this.rules.length === 0
+  }
+
+  redactText(text: string): string {
+    return this.replace(text, true)
+  }
+
+  /**
+   * Redact the text kept on the ProxyResponse for notifications. Matches are
+   * not counted again, they were counted when the client response was redacted.
+   */
+  redactProxyResponse(response: ProxyResponse): void {
+    response.redactContent(text => this.replace(text, false))
+  }
+
+  /**
+   * Redact the text blocks of a non-streaming response body in place
+   */
+  redactResponseBody(body: { content?: Array<{ type: string; text?: string }> }): void {
+    for (const block of body.content ?? []) {
+      if (block.type === 'text' && typeof block.text === 'string') {
+        block.text = this.redactText(block.text)
+      }
+    }
+  }
+
+  /**
+   * Redact text deltas in an SSE chunk. Each delta is redacted on its own, so
+   * a match split across two deltas is not caught.
+   */
+  redactStreamChunk(chunk: string): string {
+    return chunk
+      .split('\n')
+      .map(line => {
+        if (!line.startsWith('data: ') || !line.includes('"text_delta"')) {
+          return line
+        }
+        try {
+          const event = JSON.parse(line.substring(6))
+          if (event.type !== 'content_block_delta' || event.delta?.type !== 'text_delta') {
+            return line
+          }
+          const redacted = this.redactText(event.delta.text ?? '')
+          if (redacted === event.delta.text) {
+            return line
+          }
+          event.delta.text = redacted
+          return `data: ${JSON.stringify(event)}`
+        } catch {
+          return line
+        }
+      })
+      .join('\n')
+  }
+
+  private replace(text: string, count: boolean): string {
+    let result = text
+    for (const rule of this.rules) {
+      result = result.replace(rule.regex, () => {
+        if (count) {
+          this.matchCounts.set(rule.index, (this.matchCounts.get(rule.index) ?? 0) + 1)
+        }
+        return rule.transform.replacement
+      })
+    }
+    return result
+  }
+
+  /**
+   * The redact_response transforms that matched so far
+   */
+  getApplied(): AppliedTransform[] {
+    return this.rules
+      .filter(rule => this.matchCounts.has(rule.index))
+      .map(rule => ({
+        index: rule.index,
+        type: rule.transform.type,
+        summary: `redacted ${this.matchCounts.get(rule.index)} match(es) of /${rule.transform.pattern}/`,
+      }))
+  }
+}
@@ -0,0 +1,257 @@
+import type { Pool } from 'pg'
+import { getModelPricing } from '@agent-prompttrain/shared'
+import { logger } from '../middleware/logger.js'
+import type { AccountPoolStateService } from './account-pool-state-service.js'
+import {
+  Counter,
+  Histogram,
+  counterFamily,
+  gaugeFamily,
+  renderOpenMetrics,
+  type MetricFamily,
+} from './openmetrics.js'
+
+const LATENCY_BUCKETS_SECONDS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600]
+const FIRST_TOKEN_BUCKETS_SECONDS = [0.1, 0.25, 0.5, 1, 2, 3, 5, 10, 20, 30, 60]
+
+const requests = new Counter('prompttrain_requests', 'Proxied requests', [
+  'project',
+  'model',
+  'status',
+])
+const requestDuration = new Histogram(
+  'prompttrain_request_duration_seconds',
+  'Time from receiving a request to completing its response',
+  ['project', 'model', 'status'],
+  LATENCY_BUCKETS_SECONDS
+)
+const timeToFirstToken = new Histogram(
+  'prompttrain_time_to_first_token_seconds',
+  'Time from receiving a streaming request to forwarding its first content delta',
+  ['project', 'model'],
+  FIRST_TOKEN_BUCKETS_SECONDS
+)
+const tokens = new Counter('prompttrain_tokens', 'Tokens processed', ['project', 'model', 'type'])
+
+/** Distinct model label values; further models are counted as `other` */
+const MAX_MODEL_LABELS = 50
+const modelLabels = new Set<string>()
+
+/**
+ * The `model` label for a model name. Names are client-supplied on error paths,
+ * so models missing from the pricing table, and new models past
+ * MAX_MODEL_LABELS, are counted as `other` to keep the series count bounded.
+ */
+function getModelLabel(model: string | undefined): string {
+  if (!model || getModelPricing(model).isEstimate) {
+    return 'other'
+  }
+  if (!modelLabels.has(model)) {
+    if (modelLabels.size >= MAX_MODEL_LABELS) {
+      return 'other'
+    }
+    modelLabels.add(model)
+  }
+  return model
+}
+
+/** OAuth refresh totals, as returned by CredentialManager.getRefreshMetrics() */
+export interface OAuthRefreshMetrics {
+  attempts: number
+  successes: number
+  failures: number
+  concurrentWaits: number
+  currentActiveRefreshes: number
+  currentFailedRefreshes: number
+}
+
+export interface RequestMetrics {
+  projectId: string
+  model: string
+  status: number
+  durationMs: number
+  inputTokens?: number
+  outputTokens?: number
+  cacheReadInputTokens?: number
+  cacheCreationInputTokens?: number
+}
+
+/**
+ * Prometheus metrics recorded by the proxy in memory, plus values read from
+ * the account pool, OAuth refresh tracker, analysis queue and database pool
+ * when /metrics is scraped
+ */
+export const proxyMetrics = {
+  recordRequest(metrics: RequestMetrics): void {
+    const labels = {
+      project: metrics.projectId,
+      model: getModelLabel(metrics.model),
+      status: String(metrics.status),
+    }
+    requests.inc(labels)
+    requestDuration.observe(labels, metrics.durationMs / 1000)
+
+    const tokenLabels = { project: labels.project, model: labels.model }
+    tokens.inc({ ...tokenLabels, type: 'input' }, metrics.inputTokens ?? 0)
+    tokens.inc({ ...tokenLabels, type: 'output' }, metrics.outputTokens ?? 0)
+    tokens.inc({ ...tokenLabels, type: 'cache_read' }, metrics.cacheReadInputTokens ?? 0)
+    tokens.inc({ ...tokenLabels, type: 'cache_creation' }, metrics.cacheCreationInputTokens ?? 0)
+  },
+
+  recordTimeToFirstToken(projectId: string, model: string, elapsedMs: number): void {
+    timeToFirstToken.observe({ project: projectId, model: getModelLabel(model) }, elapsedMs / 1000)
+  },
+
+  async render(sources: {
+    pool?: Pool
+    accountPoolState?: AccountPoolStateService
+    oauthRefresh?: OAuthRefreshMetrics
+  }): Promise<string> {
+    const families: MetricFamily[] = [
+      requests.collect(),
+      requestDuration.collect(),
+      timeToFirstToken.collect(),
+      tokens.collect(),
+      ...(sources.oauthRefresh ? collectOAuthRefreshMetrics(sources.oauthRefresh) : []),
+    ]
+
+    const collectors = [
+      sources.accountPoolState ? collectAccountPoolMetrics(sources.accountPoolState) : null,
+      sources.pool ? collectAnalysisQueueMetrics(sources.pool) : null,
+    ]
+    for (const result of await Promise.allSettled(collectors)) {
+      if (result.status === 'fulfilled') {
+        families.push(...(result.value ?? []))
+      } else {
+        logger.warn('Failed to collect metrics', {
+          metadata: {
+            error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+          },
+        })
+      }
+    }
+
+    if (sources.pool) {
+      families.push(...collectDatabasePoolMetrics(sources.pool))
+    }
+
+    return renderOpenMetrics(families)
+  },
+
+  /** Clear recorded metrics (tests only) */
+  reset(): void {
+    requests.reset()
+    requestDuration.reset()
+    timeToFirstToken.reset()
+    tokens.reset()
+    modelLabels.clear()
+  },
+}
+
+async function collectAccountPoolMetrics(
+  stateService: AccountPoolStateService
+): Promise<MetricFamily[]> {
+  const snapshot = await stateService.getMetricsSnapshot()
+  const now = Date.now()
+
+  const utilization: Array<{ labels: Record<string, string>; value: number }> = []
+  for (const account of snapshot.accounts) {
+    for (const window of ['five_hour', 'seven_day'] as const) {
+      const usageWindow = account.usage?.[window]
+      if (usageWindow) {
+        utilization.push({
+          labels: { account: account.accountId, window },
+          value: usageWindow.utilization / 100,
+        })
+      }
+    }
+  }
+
+  return [
+    gaugeFamily(
+      'prompttrain_account_pool_utilization_ratio',
+      'Last known OAuth usage of each account per rate limit window (0-1)',
+      utilization
+    ),
+    gaugeFamily(
+      'prompttrain_account_pool_in_flight_requests',
+      'Requests currently reserved on each account',
+      snapshot.accounts.map(account => ({
+        labels: { account: account.accountId },
+        value: account.inFlightRequests,
+      }))
+    ),
+    gaugeFamily(
+      'prompttrain_account_pool_usage_refresh_failures',
+      'Consecutive failures fetching the OAuth usage of each account',
+      snapshot.accounts.map(account => ({
+        labels: { account: account.accountId },
+        value: account.usageFailureCount,
+      }))
+    ),
+    gaugeFamily(
+      'prompttrain_account_pool_cooldown_seconds',
+      'Remaining cooldown of each account for a model after an upstream rate limit',
+      snapshot.cooldowns.map(cooldown => ({
+        labels: { account: cooldown.accountId, model: cooldown.model },
+        value: Math.max(0, (cooldown.cooldownUntil - now) / 1000),
+      }))
+    ),
+  ]
+}
+
+function collectOAuthRefreshMetrics(refresh: OAuthRefreshMetrics): MetricFamily[] {
+  return [
+    counterFamily('prompttrain_oauth_refresh', 'OAuth token refresh outcomes', [
+      { labels: { outcome: 'attempt' }, value: refresh.attempts },
+      { labels: { outcome: 'success' }, value: refresh.successes },
+      { labels: { outcome: 'failure' }, value: refresh.failures },
+      { labels: { outcome: 'concurrent_wait' }, value: refresh.concurrentWaits },
+    ]),
+    gaugeFamily('prompttrain_oauth_refresh_in_progress', 'OAuth token refreshes in progress', [
+      { value: refresh.currentActiveRefreshes },
+    ]),
+    gaugeFamily(
+      'prompttrain_oauth_refresh_failed_credentials',
+      'Credentials whose last OAuth refresh failed and is not retried yet',
+      [{ value: refresh.currentFailedRefreshes }]
+    ),
+  ]
+}
+
+async function collectAnalysisQueueMetrics(pool: Pool): Promise<MetricFamily[]> {
+  const result = await pool.query<{ status: string; count: string }>(
+    `
+    SELECT status, COUNT(*) AS count
+    FROM conversation_analyses
+    WHERE status IN ('pending', 'processing')
+    GROUP BY status
+    `
+  )
+  const counts = new Map(result.rows.map(row => [row.status, Number(row.count)]))
+
+  return [
+    gaugeFamily(
+      'prompttrain_analysis_jobs',
+      'Conversation analysis jobs waiting for or being processed by the analysis worker',
+      ['pending', 'processing'].map(status => ({
+        labels: { status },
+        value: counts.get(status) ?? 0,
+      }))
+    ),
+  ]
+}
+
+function collectDatabasePoolMetrics(pool: Pool): MetricFamily[] {
+  return [
+    gaugeFamily('prompttrain_db_pool_connections', 'Database pool connections', [
+      { labels: { state: 'idle' }, value: pool.idleCount },
+      { labels: { state: 'active' }, value: pool.totalCount - pool.idleCount },
+    ]),
+    gaugeFamily(
+      'prompttrain_db_pool_waiting_clients',
+      'Queries waiting for a database pool connection',
+      [{ value: pool.waitingCount }]
+    ),
+  ]
+}
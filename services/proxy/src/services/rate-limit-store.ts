@@ -0,0 +1,230 @@
+import type { Pool } from 'pg'
+
+/** Counters for the current fixed window and the one before it */
+export interface WindowCounts {
+  windowStart: number
+  requests: number
+  tokens: number
+  previousRequests: number
+  previousTokens: number
+}
+
+interface MemoryWindow {
+  requests: number
+  tokens: number
+  expiresAt: number
+}
+
+interface WindowRow {
+  requests: number | string
+  tokens: number | string
+  previous_requests: number | string | null
+  previous_tokens: number | string | null
+}
+
+export function getWindowStart(now: number, windowMs: number): number {
+  return Math.floor(now / windowMs) * windowMs
+}
+
+/**
+ * Sliding-window estimate: the current window's count plus the previous
+ * window's count weighted by how much of it still overlaps the sliding window.
+ */
+export function estimateSlidingCount(
+  current: number,
+  previous: number,
+  elapsedMs: number,
+  windowMs: number
+): number {
+  const overlap = Math.max(0, 1 - elapsedMs / windowMs)
+  return current + previous * overlap
+}
+
+/**
+ * Milliseconds until the sliding estimate drops to `limit - cost` so a request
+ * of `cost` units fits again. Assumes no further traffic in the meantime.
+ */
+export function computeRetryAfterMs(
+  current: number,
+  previous: number,
+  limit: number,
+  elapsedMs: number,
+  windowMs: number,
+  cost = 1
+): number {
+  const allowed = limit - cost
+  if (estimateSlidingCount(current, previous, elapsedMs, windowMs) <= allowed) {
+    return 0
+  }
+
+  // Still within the current window: wait for the previous window to decay
+  const headroom = allowed - current
+  if (headroom >= 0 && previous > 0) {
+    const waitMs = windowMs * (1 - headroom / previous) - elapsedMs
+    if (waitMs <= windowMs - elapsedMs) {
+      return Math.max(0, Math.ceil(waitMs))
+    }
+  }
+
+  // Next window: the current count becomes the decaying previous window
+  const untilNextWindow = windowMs - elapsedMs
+  if (current <= 0) {
+    return Math.ceil(untilNextWindow)
+  }
+  if (allowed <= 0) {
+    return Math.ceil(untilNextWindow + windowMs)
+  }
+  return Math.ceil(untilNextWindow + Math.max(0, windowMs * (1 - allowed / current)))
+}
+
+/**
+ * Shared rate limit counters. PostgreSQL holds the counters so limits apply
+ * across proxy replicas; without a pool the counters are process-local.
+ */
+export class RateLimitStore {
+  private readonly memory = new Map<string, MemoryWindow>()
+
+  constructor(private readonly pool?: Pool | null) {}
+
+  get isPersistent(): boolean {
+    return Boolean(this.pool)
+  }
+
+  /**
+   * Count one request in the current window and return the window counters
+   * (including this request)
+   */
+  async increment(key: string, windowMs: number, now = Date.now()): Promise<WindowCounts> {
+    const windowStart = getWindowStart(now, windowMs)
+    const previousStart = windowStart - windowMs
+    // Keep each row long enough to serve as the "previous" window
+    const expiresAt = windowStart + 2 * windowMs
+
+    if (!this.pool) {
+      const current = this.getOrCreateMemoryWindow(key, windowStart, expiresAt)
+      current.requests++
+      const previous = this.memory.get(this.memoryKey(key, previousStart))
+      return {
+        windowStart,
+        requests: current.requests,
+        tokens: current.tokens,
+        previousRequests: previous?.requests ?? 0,
+        previousTokens: previous?.tokens ?? 0,
+      }
+    }
+
+    const result = await this.pool.query<WindowRow>(
+      `
+      WITH current_window AS (
+        INSERT INTO rate_limit_windows (limiter_key, window_start, requests, tokens, expires_at)
+        VALUES ($1, $2, 1, 0, $4)
+        ON CONFLICT (limiter_key, window_start)
+        DO UPDATE SET requests = rate_limit_windows.requests + 1
+        RETURNING requests, tokens
+      )
+      SELECT c.requests, c.tokens, p.requests AS previous_requests, p.tokens AS previous_tokens
+      FROM current_window c
+      LEFT JOIN rate_limit_windows p
+        ON p.limiter_key = $1 AND p.window_start = $3
+      `,
+      [key, new Date(windowStart), new Date(previousStart), new Date(expiresAt)]
+    )
+
+    const row = result.rows[0]
+    return {
+      windowStart,
+      requests: Number(row.requests),
+      tokens: Number(row.tokens),
+      previousRequests: Number(row.previous_requests ?? 0),
+      previousTokens: Number(row.previous_tokens ?? 0),
+    }
+  }
+
+  /**
+   * Undo a counted request (rejected or skipped requests don't use up the limit)
+   */
+  async decrement(key: string, windowStart: number): Promise<void> {
+    if (!this.pool) {
+      const current = this.memory.get(this.memoryKey(key, windowStart))
+      if (current && current.requests > 0) {
+        current.requests--
+      }
+      return
+    }
+
+    await this.pool.query(
+      `
+      UPDATE rate_limit_windows
+      SET requests = GREATEST(requests - 1, 0)
+      WHERE limiter_key = $1 AND window_start = $2
+      `,
+      [key, new Date(windowStart)]
+    )
+  }
+
+  /**
+   * Add tokens to the window the request was counted in
+   */
+  async addTokens(
+    key: string,
+    windowStart: number,
+    windowMs: number,
+    tokens: number
+  ): Promise<void> {
+    if (tokens <= 0) {
+      return
+    }
+
+    const expiresAt = windowStart + 2 * windowMs
+
+    if (!this.pool) {
+      this.getOrCreateMemoryWindow(key, windowStart, expiresAt).tokens += tokens
+      return
+    }
+
+    await this.pool.query(
+      `
+      INSERT INTO rate_limit_windows (limiter_key, window_start, requests, tokens, expires_at)
+      VALUES ($1, $2, 0, $3, $4)
+      ON CONFLICT (limiter_key, window_start)
+      DO UPDATE SET tokens = rate_limit_windows.tokens + EXCLUDED.tokens
+      `,
+      [key, new Date(windowStart), tokens, new Date(expiresAt)]
+    )
+  }
+
+  /**
+   * Delete windows that can no longer affect any sliding estimate
+   */
+  async cleanup(now = Date.now()): Promise<number> {
+    if (!this.pool) {
+      let removed = 0
+      for (const [key, entry] of this.memory) {
+        if (entry.expiresAt <= now) {
+          this.memory.delete(key)
+          removed++
+        }
+      }
+      return removed
+    }
+
+    const result = await this.pool.query('DELETE FROM rate_limit_windows WHERE expires_at <= $1', [
+      new Date(now),
+    ])
+    return result.rowCount ?? 0
+  }
+
+  private memoryKey(key: string, windowStart: number): string {
+    return `${key}|${windowStart}`
+  }
+
+  private getOrCreateMemoryWindow(key: string, windowStart: number, expiresAt: number) {
+    const memoryKey = this.memoryKey(key, windowStart)
+    let entry = this.memory.get(memoryKey)
+    if (!entry) {
+      entry = { requests: 0, tokens: 0, expiresAt }
+      this.memory.set(memoryKey, entry)
+    }
+    return entry
+  }
+}
@@ -0,0 +1,137 @@
+import type { Pool } from 'pg'
+import {
+  hashRequestForCache,
+  type CachedResponse,
+  type ClaudeMessagesResponse,
+  type ResponseCacheSettings,
+} from '@agent-prompttrain/shared'
+import {
+  getProjectResponseCacheSettings,
+  getCachedResponse,
+  storeCachedResponse,
+  deleteExpiredCachedResponses,
+} from '@agent-prompttrain/shared/database/queries'
+import { ProxyRequest } from '../domain/entities/ProxyRequest'
+import { ProjectSettingsCache } from './project-settings-cache'
+import { loadRedactionSettings } from './body-redaction'
+import { logger } from '../middleware/logger'
+
+/** Expired entries are purged at most this often per process */
+const CLEANUP_INTERVAL_MS = 10 * 60_000
+
+/**
+ * Serves repeated deterministic requests from the opt-in per-project response
+ * cache. Cache failures are logged and the request is forwarded as usual.
+ */
+export class ResponseCacheService {
+  private readonly settingsCache = new ProjectSettingsCache<ResponseCacheSettings | null>()
+  private lastCleanupAt = 0
+
+  constructor(private readonly pool: Pool) {}
+
+  /**
+   * Cache key for a request, or null when the project has not enabled the
+   * cache, redacts stored bodies (cache hits replay the response byte for
+   * byte, so it could only be stored unredacted), or the request is not
+   * deterministic (streaming, or temperature other than 0).
+   */
+  async getCacheKey(request: ProxyRequest, projectId: string): Promise<string | null> {
+    if (request.isStreaming || request.raw.temperature !== 0) {
+      return null
+    }
+
+    try {
+      const settings = await this.getSettings(projectId)
+      if (!settings?.enabled) {
+        return null
+      }
+    } catch (error) {
+      logger.warn('Failed to read response cache settings, skipping cache', {
+        projectId,
+        metadata: { error: error instanceof Error ? error.message : String(error) },
+      })
+      return null
+    }
+
+    if ((await loadRedactionSettings(this.pool, projectId)).enabled) {
+      return null
+    }
+
+    return hashRequestForCache(request.raw)
+  }
+
+  async lookup(projectId: string, cacheKey: string): Promise<CachedResponse | null> {
+    try {
+      return await getCachedResponse(this.pool, projectId, cacheKey)
+    } catch (error) {
+      logger.warn('Response cache lookup failed', {
+        projectId,
+        metadata: { error: error instanceof Error ? error.message : String(error) },
+      })
+      return null
+    }
+  }
+
+  /**
+   * Cache a successful upstream response under `cacheKey`
+   */
+  async store(
+    projectId: string,
+    cacheKey: string,
+    model: string,
+    responseBody: ClaudeMessagesResponse
+  ): Promise<void> {
+    if (responseBody?.type !== 'message') {
+      return
+    }
+
+    try {
+      const settings = await this.getSettings(projectId)
+      if (!settings?.enabled) {
+        return
+      }
+
+      await storeCachedResponse(
+        this.pool,
+        {
+          projectId,
+          cacheKey,
+          model,
+          responseBody,
+          inputTokens: responseBody.usage?.input_tokens || 0,
+          outputTokens: responseBody.usage?.output_tokens || 0,
+          cacheCreationInputTokens: responseBody.usage?.cache_creation_input_tokens || 0,
+          cacheReadInputTokens: responseBody.usage?.cache_read_input_tokens || 0,
+        },
+        settings.ttlSeconds
+      )
+    } catch (error) {
+      logger.warn('Failed to store response in cache', {
+        projectId,
+        metadata: { error: error instanceof Error ? error.message : String(error) },
+      })
+    }
+
+    this.cleanupExpired()
+  }
+
+  private getSettings(projectId: string): Promise<ResponseCacheSettings | null> {
+    return this.settingsCache.get(projectId, () =>
+      getProjectResponseCacheSettings(this.pool, projectId)
+    )
+  }
+
+  private cleanupExpired(): void {
+    const now = Date.now()
+    if (now - this.lastCleanupAt < CLEANUP_INTERVAL_MS) {
+      return
+    }
+    this.lastCleanupAt = now
+
+    deleteExpiredCachedResponses(this.pool).catch(error => {
+      logger.warn('Failed to purge expired cached responses', {
+        metadata: { error: error instanceof Error ? error.message : String(error) },
+      })
+    })
+  }
+}
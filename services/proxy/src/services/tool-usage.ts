@@ -0,0 +1,207 @@
+import { getTokenizer } from '@anthropic-ai/tokenizer'
+
+/**
+ * Extraction of tool calls and tool results from stored bodies, for the
+ * tool_calls table behind the tool usage analytics.
+ */
+
+/** Tools whose calls are counted as edits of their file */
+export const EDIT_TOOL_NAMES = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit'])
+
+/** Programs whose first argument is reported with them, e.g. `git commit` */
+const SUBCOMMAND_PROGRAMS = new Set([
+  'aws',
+  'bun',
+  'bunx',
+  'cargo',
+  'docker',
+  'gcloud',
+  'gh',
+  'git',
+  'go',
+  'kubectl',
+  'make',
+  'npm',
+  'npx',
+  'pip',
+  'pnpm',
+  'terraform',
+  'uv',
+  'yarn',
+])
+
+/** Prefixes that run the next word as the program */
+const COMMAND_WRAPPERS = new Set(['sudo', 'time', 'exec', 'nohup', 'env'])
+
+const MAX_COMMAND_LENGTH = 255
+
+/**
+ * Results longer than this are estimated at ~4 characters per token instead of
+ * encoded, which for megabyte-sized results takes hundreds of milliseconds on
+ * the request path
+ */
+const MAX_ENCODED_RESULT_LENGTH = 16_000
+const CHARS_PER_TOKEN = 4
+
+/** Shared by all requests; building a tokenizer is the expensive part */
+let tokenizer: ReturnType<typeof getTokenizer> | undefined
+
+type ContentBlock = Record<string, unknown>
+
+export interface ExtractedToolCall {
+  toolUseId: string
+  toolName: string
+  mcpServer: string | null
+  command: string | null
+  filePath: string | null
+}
+
+export interface ExtractedToolResult {
+  toolUseId: string
+  isError: boolean
+  resultTokens: number
+}
+
+/**
+ * MCP server of an `mcp__<server>__<tool>` tool name
+ */
+export function getMcpServerName(toolName: string): string | null {
+  const match = /^mcp__(.+?)__./.exec(toolName)
+  return match ? match[1] : null
+}
+
+/**
+ * Program (and subcommand for git, npm, docker, ...) a Bash command runs
+ *
+ * Leading `cd` steps, environment assignments and wrappers such as `sudo` are
+ * skipped, so `cd app && FOO=1 npm run build` is reported as `npm run`.
+ */
+export function getBashCommandName(command: string): string | null {
+  const segments = command.split(/&&|\|\||[;|\n]/)
+
+  for (const segment of segments) {
+    const words = segment
+      .replace(/^[\s({]+/, '')
+      .split(/\s+/)
+      .filter(Boolean)
+    while (
+      words.length > 0 &&
+      (/^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0]) || COMMAND_WRAPPERS.has(words[0]))
+    ) {
+      words.shift()
+    }
+
+    if (words.length === 0 || words[0] === 'cd') {
+      continue
+    }
+
+    const program = words[0].split('/').pop() || words[0]
+    const subcommand = words[1]
+    const name =
+      SUBCOMMAND_PROGRAMS.has(program) && subcommand && !subcommand.startsWith('-')
+        ? `${program} ${subcommand}`
+        : program
+    return name.slice(0, MAX_COMMAND_LENGTH)
+  }
+
+  return null
+}
+
+function getString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null
+}
+
+function getBlocks(content: unknown, type: string): ContentBlock[] {
+  return Array.isArray(content)
+    ? content.filter((block): block is ContentBlock => block?.type === type)
+    : []
+}
+
+/**
+ * Tool calls (tool_use blocks) of a response body
+ */
+export function extractToolCalls(responseBody: unknown): ExtractedToolCall[] {
+  const content = (responseBody as { content?: unknown } | null)?.content
+
+  return getBlocks(content, 'tool_use')
+    .filter(block => getString(block.id) && getString(block.name))
+    .map(block => {
+      const name = block.name as string
+      const input = (block.input ?? {}) as Record<string, unknown>
+      const bashCommand = name === 'Bash' ? getString(input.command) : null
+      return {
+        toolUseId: block.id as string,
+        toolName: name,
+        mcpServer: getMcpServerName(name),
+        command: bashCommand ? getBashCommandName(bashCommand) : null,
+        filePath: EDIT_TOOL_NAMES.has(name)
+          ? getString(input.file_path) || getString(input.notebook_path)
+          : null,
+      }
+    })
+}
+
+function getResultText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content
+  }
+  if (!Array.isArray(content)) {
+    return ''
+  }
+  return content
+    .map(block => (block?.type === 'text' && typeof block.text === 'string' ? block.text : ''))
+    .join('\n')
+}
+
+/**
+ * Tool results (tool_result blocks) sent with the last user message of a request body
+ *
+ * Earlier messages carry results that were already recorded with previous requests.
+ */
+export function extractToolResults(requestBody: unknown): ExtractedToolResult[] {
+  const messages = (requestBody as { messages?: unknown } | null)?.messages
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return []
+  }
+
+  const last = messages[messages.length - 1] as { role?: unknown; content?: unknown } | null
+  if (last?.role !== 'user') {
+    return []
+  }
+
+  const blocks = getBlocks(last.content, 'tool_result').filter(block =>
+    getString(block.tool_use_id)
+  )
+  if (blocks.length === 0) {
+    return []
+  }
+
+  return blocks.map(block => ({
+    toolUseId: block.tool_use_id as string,
+    isError: block.is_error === true,
+    resultTokens: countResultTokens(getResultText(block.content)),
+  }))
+}
+
+/**
+ * Tokens of a tool result: encoded up to MAX_ENCODED_RESULT_LENGTH characters,
+ * estimated from the length above that
+ */
+export function countResultTokens(text: string): number {
+  if (!text) {
+    return 0
+  }
+  if (text.length > MAX_ENCODED_RESULT_LENGTH) {
+    return Math.ceil(text.length / CHARS_PER_TOKEN)
+  }
+  tokenizer ??= getTokenizer()
+  return tokenizer.encode(text.normalize('NFKC'), 'all').length
+}
+
+/**
+ * Free the shared tokenizer (graceful shutdown)
+ */
+export function freeToolResultTokenizer(): void {
+  tokenizer?.free()
+  tokenizer = undefined
+}
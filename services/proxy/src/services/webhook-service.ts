@@ -0,0 +1,184 @@
+import type { Pool } from 'pg'
+import { createHmac, randomUUID } from 'crypto'
+import {
+  lookupHostAddresses,
+  validateWebhookTarget,
+  type ProjectWebhook,
+  type WebhookEventPayload,
+  type WebhookEventType,
+} from '@agent-prompttrain/shared'
+import {
+  getProjectWebhooksForEvent,
+  recordWebhookDelivery,
+} from '@agent-prompttrain/shared/database/queries'
+import { retryWithBackoff, type RetryConfig } from '../utils/retry'
+import { logger } from '../middleware/logger'
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-PromptTrain-Signature'
+
+/** Retries span roughly a minute before a delivery is given up */
+const WEBHOOK_RETRY_CONFIG: Partial<RetryConfig> = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+  timeout: 120000,
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000
+
+export class WebhookDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode?: number,
+    readonly retryable = true
+  ) {
+    super(message)
+    this.name = 'WebhookDeliveryError'
+  }
+}
+
+/**
+ * HMAC-SHA256 of `<timestamp>.<body>`, sent as `t=<timestamp>,v1=<hex>`.
+ * Receivers recompute it with the webhook secret and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Endpoint errors are retried unless the endpoint rejected the payload (4xx other
+ * than 429), redirected, or resolves to a private address
+ */
+function isRetryableDeliveryError(error: Error): boolean {
+  if (error instanceof WebhookDeliveryError) {
+    if (!error.retryable) {
+      return false
+    }
+    if (error.statusCode !== undefined) {
+      return error.statusCode >= 500 || error.statusCode === 429
+    }
+  }
+  return true
+}
+
+/**
+ * Delivers project events to the project's subscribed webhook endpoints
+ */
+export class WebhookService {
+  constructor(
+    private readonly pool: Pool,
+    private readonly retryConfig: Partial<RetryConfig> = WEBHOOK_RETRY_CONFIG,
+    private readonly lookupAddresses: (hostname: string) => Promise<string[]> = lookupHostAddresses
+  ) {}
+
+  /**
+   * Send an event in the background. Delivery never delays or fails the caller.
+   */
+  dispatch(projectId: string, type: WebhookEventType, data: Record<string, unknown>): void {
+    this.send(projectId, type, data).catch(error => {
+      logger.error('Failed to dispatch webhook event', {
+        projectId,
+        metadata: { type, error: error instanceof Error ? error.message : String(error) },
+      })
+    })
+  }
+
+  /**
+   * Send an event to every enabled webhook of the project subscribed to it
+   */
+  async send(
+    projectId: string,
+    type: WebhookEventType,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    const webhooks = await getProjectWebhooksForEvent(this.pool, projectId, type)
+    if (webhooks.length === 0) {
+      return
+    }
+
+    const payload: WebhookEventPayload = {
+      id: randomUUID(),
+      type,
+      projectId,
+      timestamp: new Date().toISOString(),
+      data,
+    }
+
+    await Promise.all(webhooks.map(webhook => this.deliver(webhook, payload)))
+  }
+
+  private async deliver(webhook: ProjectWebhook, payload: WebhookEventPayload): Promise<void> {
+    const body = JSON.stringify(payload)
+    let outcome: { status: number | null; error: string | null }
+
+    try {
+      const status = await retryWithBackoff(
+        () => this.post(webhook, payload, body),
+        { ...this.retryConfig, retryCondition: isRetryableDeliveryError },
+        { operation: 'webhook_delivery' }
+      )
+      outcome = { status, error: null }
+    } catch (error) {
+      outcome = {
+        status: error instanceof WebhookDeliveryError ? (error.statusCode ?? null) : null,
+        error: error instanceof Error ? error.message : String(error),
+      }
+      logger.warn('Webhook delivery failed', {
+        projectId: payload.projectId,
+        metadata: { webhookId: webhook.id, type: payload.type, error: outcome.error },
+      })
+    }
+
+    try {
+      await recordWebhookDelivery(this.pool, webhook.id, outcome)
+    } catch (error) {
+      logger.warn('Failed to record webhook delivery', {
+        metadata: {
+          webhookId: webhook.id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      })
+    }
+  }
+
+  private async post(
+    webhook: ProjectWebhook,
+    payload: WebhookEventPayload,
+    body: string
+  ): Promise<number> {
+    // Checked before every attempt, since the host may resolve differently over time
+    const target = await validateWebhookTarget(webhook.url, this.lookupAddresses)
+    if (!target.valid) {
+      throw new WebhookDeliveryError(target.error ?? 'Webhook URL is not allowed', undefined, false)
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000)
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'agent-prompttrain-webhooks',
+        'X-PromptTrain-Event': payload.type,
+        'X-PromptTrain-Delivery': payload.id,
+        [WEBHOOK_SIGNATURE_HEADER]: `t=${timestamp},v1=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      // A redirect could point at an internal address
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    })
+
+    // The endpoint's response body is not used
+    await response.body?.cancel()
+
+    if (!response.ok) {
+      throw new WebhookDeliveryError(
+        `Webhook endpoint responded with ${response.status}`,
+        response.status
+      )
+    }
+    return response.status
+  }
+}
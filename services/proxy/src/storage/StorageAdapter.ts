@@ -13,10 +13,30 @@ import {
   type ClaudeMessage,
   type ParentQueryCriteria,
   type TaskInvocation,
+  type AppliedTransform,
+  type RedactionCounts,
   SUBAGENT_TOOL_NAMES,
 } from '@agent-prompttrain/shared'
+import {
+  compileRedactionRules,
+  loadRedactionSettings,
+  mergeRedactionCounts,
+  redactStoredBody,
+  redactText,
+  type RedactionRule,
+} from '../services/body-redaction.js'
+import { extractToolCalls, extractToolResults } from '../services/tool-usage.js'
 // import { TaskInvocationCache } from './TaskInvocationCache.js' // Removed - using SQL query instead
 
+interface RequestMapping {
+  uuid: string
+  timestamp: number
+  /** Redaction rules of the request's project, reused for its response */
+  redactionRules: RedactionRule[]
+  /** Values redacted from the request body */
+  redactions: RedactionCounts | null
+}
+
 /**
  * Storage adapter that provides a simplified interface for MetricsService
  * Wraps the StorageWriter to handle request/response storage
@@ -24,7 +44,7 @@ import {
 export class StorageAdapter {
   private writer: StorageWriter
   private conversationLinker: ConversationLinker
-  private requestIdMap: Map<string, { uuid: string; timestamp: number }> = new Map() // Map nanoid to UUID with timestamp
+  private requestIdMap: Map<string, RequestMapping> = new Map() // Map nanoid to UUID with timestamp
   private cleanupTimer: NodeJS.Timeout | null = null
   private isClosed: boolean = false
   private readonly CLEANUP_INTERVAL_MS =
@@ -57,9 +77,10 @@ export class StorageAdapter {
       afterTimestamp: Date,
       beforeTimestamp?: Date
     ) => {
+      // Stored responses are redacted, so the summary is searched for redacted too
       return await this.writer.findParentByResponseContent(
         projectId,
-        summaryContent,
+        redactText(summaryContent, await this.getRedactionRules(projectId)),
         afterTimestamp,
         beforeTimestamp
       )
@@ -129,6 +150,7 @@ export class StorageAdapter {
 
   /**
    * Store request data
+   * @returns The database request ID (UUID) the request was stored under
    */
   async storeRequest(data: {
     id: string
@@ -160,11 +182,18 @@ export class StorageAdapter {
     isSubtask?: boolean
     taskToolInvocation?: any
     parentRequestId?: string
-  }): Promise<void> {
+    appliedTransforms?: AppliedTransform[]
+    requestedModel?: string
+    routingReason?: string
+    clientUserId?: string
+    apiKeyUser?: string
+  }): Promise<string> {
     try {
       // Generate a UUID for this request and store the mapping with timestamp
       const uuid = randomUUID()
-      this.requestIdMap.set(data.id, { uuid, timestamp: Date.now() })
+      const redactionRules = await this.getRedactionRules(data.projectId)
+      const { body, counts: redactions } = redactStoredBody(data.body, redactionRules)
+      this.requestIdMap.set(data.id, { uuid, timestamp: Date.now(), redactionRules, redactions })
 
       logger.debug('Stored request ID mapping', {
         metadata: {
@@ -182,7 +211,7 @@ export class StorageAdapter {
         method: data.method,
         path: data.path,
         headers: data.headers,
-        body: data.body,
+        body,
         apiKey: '', // Can be extracted from headers if needed
         model: data.model,
         requestType: data.request_type,
@@ -196,7 +225,16 @@ export class StorageAdapter {
         isSubtask: data.isSubtask,
         taskToolInvocation: data.taskToolInvocation,
         parentRequestId: data.parentRequestId,
+        appliedTransforms: data.appliedTransforms,
+        requestedModel: data.requestedModel,
+        routingReason: data.routingReason,
+        clientUserId: data.clientUserId,
+        apiKeyUser: data.apiKeyUser,
+        redactions,
       })
+      await this.writer.storeToolResults(data.projectId, extractToolResults(body))
+
+      return uuid
     } catch (error) {
       logger.error('Failed to store request', {
         requestId: data.id,
@@ -225,6 +263,11 @@ export class StorageAdapter {
     usage_data?: any
     tool_call_count?: number
     processing_time?: number
+    response_cache_savings?: {
+      inputTokens: number
+      outputTokens: number
+      cacheReadTokens: number
+    } | null
   }): Promise<void> {
     try {
       // Get the UUID for this request ID
@@ -242,13 +285,14 @@ export class StorageAdapter {
         return
       }
       const uuid = mapping.uuid
+      const { body, counts } = redactStoredBody(data.body, mapping.redactionRules)
 
       // The writer's storeResponse method will update the existing request
       await this.writer.storeResponse({
         requestId: uuid,
         statusCode: data.status_code,
         headers: data.headers,
-        body: data.body,
+        body,
         streaming: false, // Will be determined from the request
         inputTokens: data.input_tokens, // Use provided values
         outputTokens: data.output_tokens,
@@ -260,7 +304,10 @@ export class StorageAdapter {
         durationMs: data.processing_time || 0,
         error: undefined,
         toolCallCount: data.tool_call_count,
+        responseCacheSavings: data.response_cache_savings,
+        redactions: mergeRedactionCounts(mapping.redactions, counts),
       })
+      await this.writer.storeToolCalls(uuid, extractToolCalls(body))
 
       // Clean up the requestIdMap entry to prevent memory leak
       this.requestIdMap.delete(data.request_id)
@@ -360,7 +407,7 @@ export class StorageAdapter {
   async processTaskToolInvocations(
     requestId: string,
     responseBody: any,
-    _projectId: string
+    projectId: string
   ): Promise<void> {
     const taskInvocations = this.writer.findTaskToolInvocations(responseBody)
 
@@ -393,14 +440,27 @@ export class StorageAdapter {
         uuid = mapping.uuid
       }
 
+      // Redacted like the stored response body, so sub-task prompts are matched redacted
+      const { body } = redactStoredBody(
+        { content: taskInvocations },
+        await this.getRedactionRules(projectId)
+      )
+
       // Mark the request as having task invocations in the database
-      await this.writer.markTaskToolInvocations(uuid, taskInvocations)
+      await this.writer.markTaskToolInvocations(uuid, body.content)
 
       // Task invocations are now tracked in the database
       // Linking will happen when new conversations are stored via SQL query
     }
   }
 
+  /**
+   * Redaction rules for the bodies a project stores (none when redaction is off)
+   */
+  private async getRedactionRules(projectId: string): Promise<RedactionRule[]> {
+    return compileRedactionRules(await loadRedactionSettings(this.pool, projectId))
+  }
+
   /**
    * Check if a string is a valid UUID
    */
@@ -509,22 +569,33 @@ export class StorageAdapter {
     // Use optimized query with @> operator when prompt is provided
     let query: string
     let params: any[]
+    // The sub-task prompt, and the prompt as stored when the project redacts bodies
+    let prompt: string | undefined
+    let redactedPrompt: string | undefined
 
     if (subtaskPrompt) {
+      prompt = subtaskPrompt.replace(/\\n/g, '\n')
+      redactedPrompt = redactText(prompt, await this.getRedactionRules(projectId))
+      const prompts = redactedPrompt === prompt ? [prompt] : [prompt, redactedPrompt]
+
       // Optimized query using @> containment operator for exact prompt matching.
       // One containment test per subagent tool name, so the GIN index on response_body
-      // still applies. Names are bound as parameters ($4 onwards).
+      // still applies. Prompts are bound from $3, then the names.
       // Note: We intentionally do NOT filter by project_id here
       // This allows subtasks to be detected even when switching between accounts
-      const containmentClauses = SUBAGENT_TOOL_NAMES.map(
-        (_, index) => `r.response_body->'content' @> jsonb_build_array(
+      const containmentClauses = prompts
+        .flatMap((_, promptIndex) =>
+          SUBAGENT_TOOL_NAMES.map(
+            (_, nameIndex) => `r.response_body->'content' @> jsonb_build_array(
             jsonb_build_object(
               'type', 'tool_use',
-              'name', $${index + 4}::text,
-              'input', jsonb_build_object('prompt', $3::text)
+              'name', $${nameIndex + prompts.length + 3}::text,
+              'input', jsonb_build_object('prompt', $${promptIndex + 3}::text)
             )
           )`
-      ).join('\n          OR ')
+          )
+        )
+        .join('\n          OR ')
 
       query = `
         SELECT
@@ -541,12 +612,7 @@ export class StorageAdapter {
         ORDER BY r.timestamp DESC
         LIMIT 10
       `
-      params = [
-        timeWindowStart,
-        timestamp,
-        subtaskPrompt.replace(/\\n/g, '\n'),
-        ...SUBAGENT_TOOL_NAMES,
-      ]
+      params = [timeWindowStart, timestamp, ...prompts, ...SUBAGENT_TOOL_NAMES]
 
       if (debugMode) {
         logger.debug('Using optimized subtask query with prompt filter', {
@@ -599,7 +665,11 @@ export class StorageAdapter {
               recentInvocations.push({
                 requestId: row.request_id,
                 toolUseId: content.id,
-                prompt: content.input.prompt,
+                // Redacted invocations are matched against the sub-task's actual prompt
+                prompt:
+                  redactedPrompt !== undefined && content.input.prompt === redactedPrompt
+                    ? prompt
+                    : content.input.prompt,
                 timestamp: new Date(row.timestamp),
               })
             }
@@ -3,7 +3,12 @@ import { createHash } from 'crypto'
 import { readFileSync } from 'fs'
 import { join } from 'path'
 import { logger } from '../middleware/logger.js'
-import { SUBAGENT_TOOL_NAMES } from '@agent-prompttrain/shared'
+import {
+  SUBAGENT_TOOL_NAMES,
+  type AppliedTransform,
+  type RedactionCounts,
+} from '@agent-prompttrain/shared'
+import type { ExtractedToolCall, ExtractedToolResult } from '../services/tool-usage.js'
 
 /**
  * Length of the compact-summary prefix used to locate the summarizing response.
@@ -40,6 +45,12 @@ interface StorageRequest {
   isSubtask?: boolean
   taskToolInvocation?: any
   parentRequestId?: string // Parent request in conversation chain
+  appliedTransforms?: AppliedTransform[] // Project transforms that changed the request or response
+  requestedModel?: string // Model the client asked for, when model routing forwarded another
+  routingReason?: string // Why model routing changed the model
+  clientUserId?: string // Normalized metadata.user_id sent by the client; unauthenticated
+  apiKeyUser?: string // Creator of the client API key, used when clientUserId is not mapped
+  redactions?: RedactionCounts | null // Values redacted from the stored body, by kind
 }
 
 interface StorageResponse {
@@ -58,6 +69,14 @@ interface StorageResponse {
   durationMs: number
   error?: string
   toolCallCount?: number
+  /** Set when the response was served from the response cache */
+  responseCacheSavings?: {
+    inputTokens: number
+    outputTokens: number
+    cacheReadTokens: number
+  } | null
+  /** Values redacted from the stored request and response bodies, by kind */
+  redactions?: RedactionCounts | null
 }
 
 /**
@@ -131,8 +150,19 @@ export class StorageWriter {
           request_id, project_id, account_id, timestamp, method, path, headers, body, 
           api_key_hash, model, request_type, current_message_hash, 
           parent_message_hash, conversation_id, branch_id, system_hash, message_count,
-          parent_task_request_id, is_subtask, task_tool_invocation, parent_request_id
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
+          parent_task_request_id, is_subtask, task_tool_invocation, parent_request_id,
+          applied_transforms, requested_model, routing_reason, client_user_id, redactions, user_email
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $27,
+          COALESCE(
+            (
+              SELECT m.user_email
+              FROM project_user_mappings m
+              INNER JOIN projects p ON p.id = m.project_id
+              WHERE p.project_id = $2 AND m.client_user_id = $25
+            ),
+            $26
+          )
+        )
         ON CONFLICT (request_id) DO NOTHING
       `
 
@@ -158,6 +188,12 @@ export class StorageWriter {
         isSubtask,
         request.taskToolInvocation ? JSON.stringify(request.taskToolInvocation) : null,
         request.parentRequestId || null,
+        request.appliedTransforms?.length ? JSON.stringify(request.appliedTransforms) : null,
+        request.requestedModel || null,
+        request.routingReason || null,
+        request.clientUserId || null,
+        request.apiKeyUser || null,
+        request.redactions ? JSON.stringify(request.redactions) : null,
       ]
 
       await this.pool.query(query, values)
@@ -191,7 +227,12 @@ export class StorageWriter {
           tool_call_count = $12,
           cache_creation_input_tokens = $13,
           cache_read_input_tokens = $14,
-          usage_data = $15
+          usage_data = $15,
+          response_cache_hit = $16,
+          response_cache_saved_input_tokens = $17,
+          response_cache_saved_output_tokens = $18,
+          response_cache_saved_cache_read_tokens = $19,
+          redactions = COALESCE($20, redactions)
         WHERE request_id = $1
       `
 
@@ -211,6 +252,11 @@ export class StorageWriter {
         response.cacheCreationInputTokens || 0,
         response.cacheReadInputTokens || 0,
         response.usageData ? JSON.stringify(response.usageData) : null,
+        Boolean(response.responseCacheSavings),
+        response.responseCacheSavings?.inputTokens ?? null,
+        response.responseCacheSavings?.outputTokens ?? null,
+        response.responseCacheSavings?.cacheReadTokens ?? null,
+        response.redactions ? JSON.stringify(response.redactions) : null,
       ]
 
       await this.pool.query(query, values)
@@ -224,6 +270,87 @@ export class StorageWriter {
     }
   }
 
+  /**
+   * Store the tool calls of a response, with the request's project, user and conversation
+   */
+  async storeToolCalls(requestId: string, calls: ExtractedToolCall[]): Promise<void> {
+    if (calls.length === 0) {
+      return
+    }
+
+    try {
+      await this.pool.query(
+        `
+        INSERT INTO tool_calls (
+          request_id, tool_use_id, project_id, user_email, conversation_id, timestamp,
+          tool_name, mcp_server, command, file_path
+        )
+        SELECT
+          r.request_id, c.tool_use_id, r.project_id, r.user_email, r.conversation_id, r.timestamp,
+          c.tool_name, c.mcp_server, c.command, c.file_path
+        FROM api_requests r
+        CROSS JOIN unnest($2::text[], $3::text[], $4::text[], $5::text[], $6::text[])
+          AS c(tool_use_id, tool_name, mcp_server, command, file_path)
+        WHERE r.request_id = $1
+        ON CONFLICT (request_id, tool_use_id) DO NOTHING
+        `,
+        [
+          requestId,
+          calls.map(call => call.toolUseId),
+          calls.map(call => call.toolName),
+          calls.map(call => call.mcpServer),
+          calls.map(call => call.command),
+          calls.map(call => call.filePath),
+        ]
+      )
+    } catch (error) {
+      logger.error('Failed to store tool calls', {
+        requestId,
+        metadata: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      })
+    }
+  }
+
+  /**
+   * Record the tool results a request sends back on the calls they answer
+   */
+  async storeToolResults(projectId: string, results: ExtractedToolResult[]): Promise<void> {
+    if (results.length === 0) {
+      return
+    }
+
+    try {
+      await this.pool.query(
+        `
+        UPDATE tool_calls tc SET
+          result_is_error = r.is_error,
+          result_tokens = r.result_tokens,
+          result_at = NOW()
+        FROM unnest($2::text[], $3::boolean[], $4::integer[])
+          AS r(tool_use_id, is_error, result_tokens)
+        WHERE tc.tool_use_id = r.tool_use_id
+          AND tc.project_id = $1
+          AND tc.result_at IS NULL
+        `,
+        [
+          projectId,
+          results.map(result => result.toolUseId),
+          results.map(result => result.isError),
+          results.map(result => result.resultTokens),
+        ]
+      )
+    } catch (error) {
+      logger.error('Failed to store tool results', {
+        metadata: {
+          projectId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      })
+    }
+  }
+
   /**
    * Find parent requests based on criteria
    * Used by ConversationLinker
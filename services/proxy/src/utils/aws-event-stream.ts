@@ -174,14 +174,73 @@ function parseHeaders(data: Uint8Array): Record<string, string | number | boolea
   return headers
 }
 
+/** Claude error types for the Bedrock stream exceptions */
+const EXCEPTION_ERROR_TYPES: Record<string, string> = {
+  throttlingException: 'rate_limit_error',
+  validationException: 'invalid_request_error',
+  serviceUnavailableException: 'overloaded_error',
+}
+
+/**
+ * Decode an event's payload into the Claude stream event JSON it carries.
+ * Chunk payloads wrap the event as base64 in a "bytes" field; exceptions are
+ * turned into Claude `error` events. Returns null for other events.
+ */
+function decodeEventPayload(message: AwsEventStreamMessage, decoder: TextDecoder): string | null {
+  const payloadStr = decoder.decode(message.payload)
+
+  if (message.headers[':message-type'] === 'exception') {
+    const exceptionType = String(message.headers[':exception-type'] ?? 'exception')
+    let errorMessage = payloadStr
+    try {
+      errorMessage = (JSON.parse(payloadStr) as { message?: string }).message ?? payloadStr
+    } catch {
+      // Use the raw payload as the message
+    }
+    return JSON.stringify({
+      type: 'error',
+      error: {
+        type: EXCEPTION_ERROR_TYPES[exceptionType] ?? 'api_error',
+        message: `${exceptionType}: ${errorMessage}`,
+      },
+    })
+  }
+
+  if (message.headers[':event-type'] !== 'chunk') {
+    return null
+  }
+
+  // The payload contains a JSON object with a "bytes" field that is base64 encoded
+  try {
+    const payloadObj = JSON.parse(payloadStr) as { bytes?: string }
+    // Decode base64 as UTF-8 to get the actual Claude response JSON
+    return payloadObj.bytes ? Buffer.from(payloadObj.bytes, 'base64').toString('utf8') : null
+  } catch {
+    // If not the expected format, use the payload directly
+    return payloadStr
+  }
+}
+
 /**
  * Create a TransformStream that parses AWS Event Stream and extracts JSON payloads
  * Each output chunk is a JSON string from the event payload
  */
-export function createAwsEventStreamParser(): TransformStream<Uint8Array<ArrayBuffer>, string> {
+export function createAwsEventStreamParser(): TransformStream<Uint8Array, string> {
   let buffer: Uint8Array<ArrayBuffer> = new Uint8Array(0)
   const decoder = new TextDecoder()
 
+  const enqueueMessages = (
+    messages: AwsEventStreamMessage[],
+    controller: TransformStreamDefaultController<string>
+  ) => {
+    for (const message of messages) {
+      const payload = decodeEventPayload(message, decoder)
+      if (payload !== null) {
+        controller.enqueue(payload)
+      }
+    }
+  }
+
   return new TransformStream({
     transform(chunk, controller) {
       // Concatenate with existing buffer
@@ -193,50 +252,38 @@ export function createAwsEventStreamParser(): TransformStream<Uint8Array<ArrayBu
       // Parse complete messages
       const { messages, remaining } = parseAwsEventStreamMessages(buffer)
       buffer = remaining
-
-      // Output JSON payloads
-      for (const message of messages) {
-        // Check if this is a chunk event (vs error, etc.)
-        const eventType = message.headers[':event-type']
-        if (eventType === 'chunk') {
-          const payloadStr = decoder.decode(message.payload)
-          // The payload contains a JSON object with a "bytes" field that is base64 encoded
-          try {
-            const payloadObj = JSON.parse(payloadStr) as { bytes?: string }
-            if (payloadObj.bytes) {
-              // Decode base64 to get the actual Claude response JSON
-              const decodedBytes = atob(payloadObj.bytes)
-              controller.enqueue(decodedBytes)
-            }
-          } catch {
-            // If not the expected format, try using payload directly
-            controller.enqueue(payloadStr)
-          }
-        }
-      }
+      enqueueMessages(messages, controller)
     },
 
     flush(controller) {
       // Process any remaining data
       if (buffer.length > 0) {
-        const { messages } = parseAwsEventStreamMessages(buffer)
-        const decoder = new TextDecoder()
-        for (const message of messages) {
-          const eventType = message.headers[':event-type']
-          if (eventType === 'chunk') {
-            const payloadStr = decoder.decode(message.payload)
-            try {
-              const payloadObj = JSON.parse(payloadStr) as { bytes?: string }
-              if (payloadObj.bytes) {
-                const decodedBytes = atob(payloadObj.bytes)
-                controller.enqueue(decodedBytes)
-              }
-            } catch {
-              controller.enqueue(payloadStr)
-            }
-          }
-        }
+        enqueueMessages(parseAwsEventStreamMessages(buffer).messages, controller)
+      }
+    },
+  })
+}
+
+/**
+ * Create a TransformStream that formats Claude stream event JSON (as produced
+ * by createAwsEventStreamParser) as Anthropic server-sent events
+ */
+export function createAnthropicSseEncoder(): TransformStream<string, Uint8Array> {
+  const encoder = new TextEncoder()
+
+  return new TransformStream({
+    transform(eventJson, controller) {
+      let event: { type?: string }
+      try {
+        event = JSON.parse(eventJson) as { type?: string }
+      } catch {
+        // Not an event; SSE data must be a single line, so skip it
+        return
       }
+      // Re-serialize so the data line holds compact, single-line JSON
+      controller.enqueue(
+        encoder.encode(`event: ${event.type ?? 'message'}\ndata: ${JSON.stringify(event)}\n\n`)
+      )
     },
   })
 }
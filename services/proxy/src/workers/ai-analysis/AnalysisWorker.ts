@@ -6,6 +6,8 @@ import {
   resetStuckJobs,
   failJobsExceedingMaxRetries,
   fetchConversationMessages,
+  fetchConversationProjectId,
+  fetchAnalysisTemplate,
   type ConversationAnalysisJob,
 } from './db.js'
 import { AI_WORKER_CONFIG, getErrorMessage, getErrorStack } from '@agent-prompttrain/shared'
@@ -188,8 +190,10 @@ export class AnalysisWorker {
         throw new Error('No messages found for conversation')
       }
 
+      const template = job.template_id ? await fetchAnalysisTemplate(job.template_id) : null
+
       const analysis = await this.withExponentialBackoff(
-        () => this.analysisService.analyzeConversation(messages, job.custom_prompt),
+        () => this.analysisService.analyzeConversation(messages, job.custom_prompt, template),
         job.retry_count
       )
 
@@ -203,9 +207,12 @@ export class AnalysisWorker {
         this.analysisService.getModelName(),
         analysis.promptTokens,
         analysis.completionTokens,
-        processingDuration
+        processingDuration,
+        analysis.customFields
       )
 
+      await this.notifyCompleted(job, processingDuration)
+
       logger.info(`Job ${job.id} completed successfully`, {
         metadata: {
           worker: 'analysis-worker',
@@ -235,6 +242,31 @@ export class AnalysisWorker {
     }
   }
 
+  /**
+   * Send the analysis.completed event to the project's webhooks
+   */
+  private async notifyCompleted(job: ConversationAnalysisJob, durationMs: number) {
+    try {
+      const projectId = await fetchConversationProjectId(job.conversation_id)
+      if (!projectId) {
+        return
+      }
+
+      const { container } = await import('../../container.js')
+      container.getNotificationService().notifyAnalysisCompleted(projectId, {
+        analysisId: job.id,
+        conversationId: job.conversation_id,
+        branchId: job.branch_id,
+        model: this.analysisService.getModelName(),
+        durationMs,
+      })
+    } catch (error) {
+      logger.warn(`Failed to send completion event for job ${job.id}`, {
+        metadata: { worker: 'analysis-worker', error: getErrorMessage(error) },
+      })
+    }
+  }
+
   private async withExponentialBackoff<T>(fn: () => Promise<T>, retryCount: number): Promise<T> {
     if (retryCount === 0) {
       return fn()
@@ -1,6 +1,8 @@
 import {
   buildClaudeAnalysisPrompt,
   parseAnalysisResponse,
+  parseCustomFields,
+  type AnalysisPromptTemplate,
 } from '@agent-prompttrain/shared/prompts/analysis/index.js'
 import type { ConversationAnalysis } from '@agent-prompttrain/shared/types/ai-analysis'
 import {
@@ -72,10 +74,12 @@ export class AnthropicAnalysisService {
 
   async analyzeConversation(
     messages: Array<{ role: 'user' | 'model'; content: string }>,
-    customPrompt?: string
+    customPrompt?: string,
+    template?: AnalysisPromptTemplate | null
   ): Promise<{
     content: string
     data: ConversationAnalysis | null
+    customFields: Record<string, unknown> | null
     rawResponse: ClaudeApiResponse
     promptTokens: number
     completionTokens: number
@@ -96,7 +100,8 @@ export class AnthropicAnalysisService {
         const { system, messages: claudeMessages } = buildClaudeAnalysisPrompt(
           sanitizedMessages,
           undefined,
-          customPrompt
+          customPrompt,
+          template
         )
 
         logger.debug(
@@ -128,6 +133,9 @@ export class AnthropicAnalysisService {
           try {
             const parsedAnalysis = parseAnalysisResponse(redactedText)
             const markdownContent = this.formatAnalysisAsMarkdown(parsedAnalysis)
+            const customFields = template?.output_schema
+              ? this.parseCustomFields(redactedText, template.output_schema, attempt)
+              : null
 
             logger.info(`Analysis completed in ${Date.now() - startTime}ms`, {
               metadata: {
@@ -141,6 +149,7 @@ export class AnthropicAnalysisService {
             return {
               content: markdownContent,
               data: parsedAnalysis,
+              customFields,
               rawResponse: response,
               promptTokens: response.usage.input_tokens,
               completionTokens: response.usage.output_tokens,
@@ -159,6 +168,7 @@ export class AnthropicAnalysisService {
             return {
               content: redactedText,
               data: null,
+              customFields: null,
               rawResponse: response,
               promptTokens: response.usage.input_tokens,
               completionTokens: response.usage.output_tokens,
@@ -268,6 +278,30 @@ export class AnthropicAnalysisService {
     }
   }
 
+  /**
+   * Custom fields of the project template; a mismatch keeps the analysis and drops the fields
+   */
+  private parseCustomFields(
+    text: string,
+    schema: NonNullable<AnalysisPromptTemplate['output_schema']>,
+    attempt: number
+  ): Record<string, unknown> | null {
+    try {
+      return parseCustomFields(text, schema)
+    } catch (error) {
+      logger.warn('Custom fields do not match the template output schema', {
+        error: {
+          message: getErrorMessage(error),
+        },
+        metadata: {
+          worker: 'analysis-worker',
+          attempt: attempt + 1,
+        },
+      })
+      return null
+    }
+  }
+
   private formatAnalysisAsMarkdown(analysis: ConversationAnalysis): string {
     return `# Conversation Analysis
 
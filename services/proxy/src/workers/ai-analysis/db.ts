@@ -5,7 +5,9 @@ import type {
   AnalysisStatus,
   ConversationAnalysis,
 } from '@agent-prompttrain/shared/types/ai-analysis'
+import type { ProjectAnalysisTemplate } from '@agent-prompttrain/shared/types'
 import { getErrorMessage, getErrorStack, getErrorCode } from '@agent-prompttrain/shared'
+import { getAnalysisTemplateById } from '@agent-prompttrain/shared/database/queries'
 
 const MAX_RETRIES = AI_WORKER_CONFIG.MAX_RETRIES
 const JOB_TIMEOUT_MINUTES = AI_WORKER_CONFIG.JOB_TIMEOUT_MINUTES
@@ -28,6 +30,10 @@ export interface ConversationAnalysisJob {
   created_at: Date
   updated_at: Date
   custom_prompt?: string
+  template_id?: string | null
+  template_version?: number | null
+  prompt_version?: string | null
+  custom_fields?: Record<string, unknown> | null
 }
 
 export async function claimJob(): Promise<ConversationAnalysisJob | null> {
@@ -82,7 +88,8 @@ export async function completeJob(
   modelUsed: string,
   promptTokens: number,
   completionTokens: number,
-  processingDurationMs: number
+  processingDurationMs: number,
+  customFields: Record<string, unknown> | null = null
 ): Promise<void> {
   const pool = container.getDbPool()
   if (!pool) {
@@ -103,7 +110,8 @@ export async function completeJob(
            generated_at = NOW(),
            processing_duration_ms = $7,
            updated_at = NOW(),
-           completed_at = NOW()
+           completed_at = NOW(),
+           custom_fields = $9
        WHERE id = $8`,
       [
         analysisContent,
@@ -114,6 +122,7 @@ export async function completeJob(
         completionTokens,
         processingDurationMs,
         id,
+        customFields ? JSON.stringify(customFields) : null,
       ]
     )
 
@@ -412,3 +421,37 @@ export async function fetchConversationMessages(
     throw error
   }
 }
+
+/**
+ * Project of a conversation (from its first stored request)
+ */
+export async function fetchConversationProjectId(conversationId: string): Promise<string | null> {
+  const pool = container.getDbPool()
+  if (!pool) {
+    return null
+  }
+
+  const result = await pool.query<{ project_id: string }>(
+    `SELECT project_id
+     FROM api_requests
+     WHERE conversation_id = $1
+     ORDER BY timestamp ASC
+     LIMIT 1`,
+    [conversationId]
+  )
+  return result.rows[0]?.project_id ?? null
+}
+
+/**
+ * Project analysis template version a job was created with
+ */
+export async function fetchAnalysisTemplate(
+  templateId: string
+): Promise<ProjectAnalysisTemplate | null> {
+  const pool = container.getDbPool()
+  if (!pool) {
+    return null
+  }
+
+  return getAnalysisTemplateById(pool, templateId)
+}
@@ -156,6 +156,7 @@ describe('AI Analysis DB Functions', () => {
         200,
         5000,
         1,
+        null,
       ])
     })
 
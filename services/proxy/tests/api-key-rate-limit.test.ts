@@ -0,0 +1,54 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import { Hono } from 'hono'
+import { container } from '../src/container'
+import { closeRateLimitStores, createApiKeyRateLimiter } from '../src/middleware/rate-limit'
+
+describe('API key rate limiter', () => {
+  let originalGetDbPool: typeof container.getDbPool
+
+  beforeAll(() => {
+    // Counters in memory
+    originalGetDbPool = container.getDbPool
+    container.getDbPool = () => undefined
+  })
+
+  afterAll(() => {
+    container.getDbPool = originalGetDbPool
+    closeRateLimitStores()
+  })
+
+  const createApp = (keyLimits?: { maxRequests: number | null; maxTokens: number | null }) => {
+    const app = new Hono()
+    app.use('*', async (c, next) => {
+      if (keyLimits) {
+        c.set('apiKeyRateLimits', keyLimits)
+      }
+      await next()
+    })
+    app.use('*', createApiKeyRateLimiter())
+    app.post('/v1/messages', c => c.json({ ok: true }))
+    return app
+  }
+
+  const post = (app: Hono, apiKey: string) =>
+    app.request('/v1/messages', { method: 'POST', headers: { 'x-api-key': apiKey } })
+
+  it('enforces the rate limit set on the key', async () => {
+    const app = createApp({ maxRequests: 1, maxTokens: null })
+
+    expect((await post(app, 'cnp_live_limited')).status).toBe(200)
+    const limited = await post(app, 'cnp_live_limited')
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('Retry-After')).not.toBeNull()
+  })
+
+  it('leaves keys without their own limit alone', async () => {
+    const app = createApp()
+
+    for (let i = 0; i < 3; i++) {
+      const res = await post(app, 'cnp_live_unlimited')
+      expect(res.status).toBe(200)
+      expect(res.headers.get('X-RateLimit-Limit')).toBeNull()
+    }
+  })
+})
@@ -96,4 +96,91 @@ describe('Client Authentication Middleware', () => {
 
     expect(res.status).toBe(200)
   })
+
+  describe('API key scopes', () => {
+    const scopedKey = (scopes: Record<string, unknown>) => ({
+      projectId: 'team-alpha',
+      trainApiKey: {
+        id: 'key-1',
+        created_by: 'dev@example.com',
+        allowed_models: null,
+        allowed_endpoints: null,
+        ip_allowlist: null,
+        ...scopes,
+      },
+    })
+
+    const postMessages = (model: string, headers: Record<string, string> = {}) =>
+      app.request('/v1/messages', {
+        method: 'POST',
+        headers: {
+          Authorization: 'Bearer cnp_live_scoped',
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify({ model, max_tokens: 10, messages: [] }),
+      })
+
+    beforeEach(() => {
+      app.post('/v1/messages', async c => c.json({ model: (await c.req.json()).model }))
+    })
+
+    it('rejects endpoints outside the key scope', async () => {
+      mockVerifyApiKeyAndGetTrain.mockImplementation(() =>
+        scopedKey({ allowed_endpoints: ['bedrock'] })
+      )
+
+      const res = await postMessages('claude-sonnet-4-20250514')
+
+      expect(res.status).toBe(403)
+      const body = await res.json()
+      expect(body.error.type).toBe('permission_error')
+    })
+
+    it('allows matching models and rejects others', async () => {
+      mockVerifyApiKeyAndGetTrain.mockImplementation(() =>
+        scopedKey({ allowed_models: ['claude-sonnet-4*'] })
+      )
+
+      const allowed = await postMessages('claude-sonnet-4-20250514')
+      expect(allowed.status).toBe(200)
+      expect(await allowed.json()).toEqual({ model: 'claude-sonnet-4-20250514' })
+
+      const rejected = await postMessages('claude-opus-4-20250514')
+      expect(rejected.status).toBe(403)
+    })
+
+    it('checks the client IP against the allowlist', async () => {
+      mockVerifyApiKeyAndGetTrain.mockImplementation(() =>
+        scopedKey({ ip_allowlist: ['10.0.0.0/8'] })
+      )
+      process.env.TRUSTED_PROXY_HOPS = '1'
+
+      try {
+        const allowed = await postMessages('claude-sonnet-4-20250514', {
+          'X-Forwarded-For': '198.51.100.1, 10.1.2.3',
+        })
+        expect(allowed.status).toBe(200)
+
+        const rejected = await postMessages('claude-sonnet-4-20250514', {
+          'X-Forwarded-For': '10.1.2.3, 198.51.100.1',
+        })
+        expect(rejected.status).toBe(403)
+      } finally {
+        delete process.env.TRUSTED_PROXY_HOPS
+      }
+    })
+
+    it('ignores forwarded addresses without trusted proxies', async () => {
+      mockVerifyApiKeyAndGetTrain.mockImplementation(() =>
+        scopedKey({ ip_allowlist: ['10.0.0.0/8'] })
+      )
+
+      const res = await postMessages('claude-sonnet-4-20250514', {
+        'X-Forwarded-For': '10.1.2.3',
+        'X-Real-IP': '10.1.2.3',
+      })
+      expect(res.status).toBe(403)
+    })
+  })
 })
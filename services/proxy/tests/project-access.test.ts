@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test'
+import { Hono } from 'hono'
+import type { Pool } from 'pg'
+import * as queries from '@agent-prompttrain/shared/database/queries'
+import { getApiPathPermission, projectAccessMiddleware } from '../src/middleware/project-access'
+import { apiRoutes } from '../src/routes/api'
+
+const REQUEST_ID = '6f1c2f9e-4b8a-4d55-9a47-0f3e2b1c8d7a'
+
+describe('Project Access Middleware', () => {
+  let app: Hono<{ Variables: { pool: Pool } }>
+  let mockGetProject: any
+  let mockCheckPermission: any
+  let executedQueries: Array<{ sql: string; values: unknown[] }>
+  const mockPool = {
+    query: async (sql: string, values: unknown[] = []) => {
+      executedQueries.push({ sql, values })
+      return { rows: [{ project_id: 'alpha', total: '0' }] }
+    },
+  } as unknown as Pool
+
+  beforeEach(() => {
+    executedQueries = []
+    mockGetProject = spyOn(queries, 'getProjectByProjectId').mockImplementation(
+      async () => ({ id: 'uuid-alpha', project_id: 'alpha' }) as any
+    )
+    mockCheckPermission = spyOn(queries, 'checkProjectPermission').mockImplementation(
+      async () => false
+    )
+
+    app = new Hono<{ Variables: { pool: Pool } }>()
+    app.use('*', async (c, next) => {
+      c.set('pool', mockPool)
+      await next()
+    })
+    app.use('/api/*', projectAccessMiddleware())
+    app.get('/api/*', c => c.json({ ok: true }))
+  })
+
+  afterEach(() => {
+    mockGetProject.mockRestore()
+    mockCheckPermission.mockRestore()
+  })
+
+  it('maps dashboard API paths to permissions', () => {
+    expect(getApiPathPermission('/api/token-usage/daily')).toBe('usage.read')
+    expect(getApiPathPermission('/api/stats')).toBe('usage.read')
+    expect(getApiPathPermission('/api/conversations/abc/export')).toBe('conversations.read')
+    expect(getApiPathPermission('/api/search')).toBe('conversations.read')
+    expect(getApiPathPermission('/api/train-ids')).toBe('usage.read')
+    expect(getApiPathPermission('/api/oauth-usage/acc_1')).toBe('usage.read')
+    expect(getApiPathPermission('/api/analyses/abc/main')).toBe('conversations.read')
+    expect(getApiPathPermission('/api/projects')).toBeNull()
+  })
+
+  it('rejects project-scoped requests the role does not allow', async () => {
+    const res = await app.request('/api/token-usage/daily?projectId=alpha', {
+      headers: { 'X-Auth-Principal': 'Viewer@Example.com' },
+    })
+
+    expect(res.status).toBe(403)
+    expect(mockCheckPermission).toHaveBeenCalledWith(
+      mockPool,
+      'uuid-alpha',
+      'viewer@example.com',
+      'usage.read'
+    )
+  })
+
+  it('allows project-scoped requests the role allows', async () => {
+    mockCheckPermission.mockImplementation(async () => true)
+
+    const res = await app.request('/api/conversations?projectId=alpha', {
+      headers: { 'X-Auth-Principal': 'viewer@example.com' },
+    })
+
+    expect(res.status).toBe(200)
+    expect(mockCheckPermission).toHaveBeenCalledWith(
+      mockPool,
+      'uuid-alpha',
+      'viewer@example.com',
+      'conversations.read'
+    )
+  })
+
+  it('leaves service calls and unscoped requests to the endpoints', async () => {
+    const serviceCall = await app.request('/api/token-usage/daily?projectId=alpha')
+    const unscoped = await app.request('/api/token-usage/daily', {
+      headers: { 'X-Auth-Principal': 'viewer@example.com' },
+    })
+
+    expect(serviceCall.status).toBe(200)
+    expect(unscoped.status).toBe(200)
+    expect(mockCheckPermission).not.toHaveBeenCalled()
+  })
+
+  it('checks the project of a request or conversation named by the path', async () => {
+    const request = await app.request(`/api/requests/${REQUEST_ID}`, {
+      headers: { 'X-Auth-Principal': 'billing@example.com' },
+    })
+    const conversation = await app.request(`/api/conversations/${REQUEST_ID}/export`, {
+      headers: { 'X-Auth-Principal': 'billing@example.com' },
+    })
+
+    expect(request.status).toBe(403)
+    expect(conversation.status).toBe(403)
+    expect(mockGetProject).toHaveBeenCalledWith(mockPool, 'alpha')
+    expect(mockCheckPermission).toHaveBeenCalledWith(
+      mockPool,
+      'uuid-alpha',
+      'billing@example.com',
+      'conversations.read'
+    )
+  })
+
+  it('checks the conversation of an analysis request', async () => {
+    app.post('/api/*', c => c.json({ ok: true }))
+
+    const status = await app.request(`/api/analyses/${REQUEST_ID}/main`, {
+      headers: { 'X-Auth-Principal': 'billing@example.com' },
+    })
+    const create = await app.request('/api/analyses', {
+      method: 'POST',
+      headers: { 'X-Auth-Principal': 'billing@example.com', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conversationId: REQUEST_ID, branchId: 'main' }),
+    })
+
+    expect(status.status).toBe(403)
+    expect(create.status).toBe(403)
+    expect(executedQueries.map(query => query.values)).toEqual([[REQUEST_ID], [REQUEST_ID]])
+    expect(mockCheckPermission).toHaveBeenCalledWith(
+      mockPool,
+      'uuid-alpha',
+      'billing@example.com',
+      'conversations.read'
+    )
+  })
+
+  it('lets the endpoint read an allowed analysis request body', async () => {
+    mockCheckPermission.mockImplementation(async () => true)
+    app.post('/api/*', async c => c.json(await c.req.json()))
+
+    const res = await app.request('/api/analyses', {
+      method: 'POST',
+      headers: { 'X-Auth-Principal': 'member@example.com', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conversationId: REQUEST_ID, branchId: 'main' }),
+    })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ conversationId: REQUEST_ID, branchId: 'main' })
+  })
+
+  it('checks the projects linked to an OAuth account', async () => {
+    const res = await app.request('/api/oauth-usage/acc_team', {
+      headers: { 'X-Auth-Principal': 'viewer@example.com' },
+    })
+
+    expect(res.status).toBe(403)
+    expect(executedQueries[0].sql).toContain('project_accounts')
+    expect(executedQueries[0].values).toEqual(['acc_team'])
+    expect(mockCheckPermission).toHaveBeenCalledWith(
+      mockPool,
+      'uuid-alpha',
+      'viewer@example.com',
+      'usage.read'
+    )
+  })
+
+  describe('unscoped lists and aggregates', () => {
+    const apiApp = () => {
+      const api = new Hono<{ Variables: { pool: Pool } }>()
+      api.use('*', async (c, next) => {
+        c.set('pool', mockPool)
+        await next()
+      })
+      api.use('/api/*', projectAccessMiddleware())
+      api.route('/api', apiRoutes)
+      return api
+    }
+
+    it('lists only requests of projects whose conversations a billing member can read', async () => {
+      const res = await apiApp().request('/api/requests', {
+        headers: { 'X-Auth-Principal': 'Billing@Example.com' },
+      })
+
+      expect(res.status).toBe(200)
+      expect(executedQueries[0].sql).toContain("pm.role IN ('owner', 'member', 'viewer')")
+      expect(executedQueries[0].values).toContain('billing@example.com')
+    })
+
+    it('counts only usage of projects whose usage a viewer can read', async () => {
+      const res = await apiApp().request('/api/stats', {
+        headers: { 'X-Auth-Principal': 'viewer@example.com' },
+      })
+
+      expect(res.status).toBe(200)
+      expect(executedQueries[0].sql).toContain("pm.role IN ('owner', 'member', 'billing')")
+      expect(executedQueries[0].values).toContain('viewer@example.com')
+    })
+
+    it('lists only projects whose usage a viewer can read', async () => {
+      const res = await apiApp().request('/api/train-ids', {
+        headers: { 'X-Auth-Principal': 'viewer@example.com' },
+      })
+
+      expect(res.status).toBe(200)
+      expect(executedQueries[0].sql).toContain("pm.role IN ('owner', 'member', 'billing')")
+      expect(executedQueries[0].values).toEqual(['viewer@example.com'])
+    })
+  })
+})